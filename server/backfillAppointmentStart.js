@@ -0,0 +1,39 @@
+const dotenv = require('dotenv');
+const Appointment = require('./models/Appointment');
+const Doctor = require('./models/Doctor');
+const connectDB = require('./config/db');
+const { resolveTimezone } = require('./utils/timezones');
+
+dotenv.config();
+
+// One-off: give appointments created before timezone support their doctor's zone and start_at.
+const backfillAppointmentStart = async () => {
+    try {
+        await connectDB();
+
+        const appointments = await Appointment.find({ start_at: { $exists: false } });
+        console.log(`Found ${appointments.length} appointments without start_at`);
+
+        const doctorZones = new Map();
+        for (const appt of appointments) {
+            const doctorId = String(appt.doctor_id);
+            if (!doctorZones.has(doctorId)) {
+                const doctor = await Doctor.findById(doctorId).select('timezone');
+                doctorZones.set(doctorId, resolveTimezone(doctor?.timezone));
+            }
+
+            // Setting the zone marks it modified, so the pre-validate hook derives start_at.
+            appt.timezone = doctorZones.get(doctorId);
+            appt.markModified('timezone');
+            await appt.save();
+        }
+
+        console.log('Backfill complete');
+        process.exit();
+    } catch (error) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+    }
+};
+
+backfillAppointmentStart();
@@ -10,6 +10,7 @@ const {
 } = require('../config/firebase');
 const { sendEmail } = require('../services/emailService');
 const { renderEmailWithFallback } = require('../utils/emailTemplates');
+const { isValidTimezone } = require('../utils/timezones');
 
 // JWT used by client after login/register. Includes sessionId for single-device enforcement.
 const generateToken = (id, sessionId = null) => {
@@ -28,7 +29,12 @@ const generateSessionId = () => {
 };
 
 const registerUser = async (req, res) => {
-    const { full_name, email, password, role } = req.body;
+    const { full_name, email, password, role, timezone } = req.body;
+
+    // Clinic admins are assigned by the platform team when a clinic is onboarded
+    if (role === 'clinic_admin') {
+        return res.status(400).json({ message: 'Clinic admin accounts cannot be registered directly' });
+    }
 
     try {
         const userExists = await User.findOne({ email });
@@ -43,6 +49,7 @@ const registerUser = async (req, res) => {
             email,
             password,
             role: role || 'patient',
+            timezone: isValidTimezone(timezone) ? timezone : null,
             activeSession: {
                 sessionId,
                 deviceInfo: req.headers['user-agent'] || 'Unknown Device',
@@ -234,6 +241,12 @@ const updateUserProfile = async (req, res) => {
             user.phone = req.body.phone || user.phone;
             user.email = req.body.email || user.email; // Usually email updates require verify, but allowing for now needed? Settings.tsx says "Email cannot be changed"
             user.locale = req.body.locale || user.locale;
+            if (typeof req.body.timezone !== 'undefined') {
+                if (req.body.timezone !== null && !isValidTimezone(req.body.timezone)) {
+                    return res.status(400).json({ message: 'Invalid timezone' });
+                }
+                user.timezone = req.body.timezone;
+            }
             if (req.body.notification_preferences) {
                 user.notification_preferences = {
                     ...user.notification_preferences,
@@ -253,6 +266,7 @@ const updateUserProfile = async (req, res) => {
                 avatar_url: updatedUser.avatar_url,
                 role: updatedUser.role,
                 locale: updatedUser.locale,
+                timezone: updatedUser.timezone,
                 notification_preferences: updatedUser.notification_preferences,
                 createdAt: updatedUser.createdAt,
                 token: generateToken(updatedUser._id), // Optional: Refresh token if needed
@@ -275,6 +289,10 @@ const googleAuth = async (req, res) => {
         return res.status(400).json({ message: 'Firebase ID token is required.' });
     }
 
+    if (role === 'clinic_admin') {
+        return res.status(400).json({ message: 'Clinic admin accounts cannot be registered directly' });
+    }
+
     if (!isFirebaseReady()) {
         const initError = getFirebaseInitError();
         return res.status(500).json({
@@ -41,7 +41,12 @@ const corsOptions = {
 
 app.use(cors(corsOptions));
 app.options(/.*/, cors(corsOptions));
-app.use(express.json());
+// The raw body is kept for webhook signature checks, which must hash the exact bytes that were sent
+app.use(express.json({
+    verify: (req, res, buf) => {
+        req.rawBody = buf;
+    },
+}));
 
 app.get('/', (req, res) => {
     res.status(200).json({ message: 'MediConnect backend is running' });
@@ -66,6 +71,14 @@ app.use('/api/availability', require('./routes/availability'));
 app.use('/api/notifications', require('./routes/notifications'));
 app.use('/api/medical-records', require('./routes/medicalRecords'));
 app.use('/api/platform-settings', require('./routes/platformSettings'));
+app.use('/api/waitlist', require('./routes/waitlist'));
+app.use('/api/follow-ups', require('./routes/followUps'));
+app.use('/api/emergency-requests', require('./routes/emergencyRequests'));
+app.use('/api/intake-forms', require('./routes/intakeForms'));
+app.use('/api/organizations', require('./routes/organizations'));
+app.use('/api/dependents', require('./routes/dependents'));
+app.use('/api/calendar', require('./routes/calendar'));
+app.use('/api/invoices', require('./routes/invoices'));
 
 const PORT = process.env.PORT || 5000;
 
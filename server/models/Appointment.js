@@ -1,6 +1,10 @@
 // Appointment model:
 // Stores booking, payment, chat/video permission, and lifecycle status data.
 const mongoose = require('mongoose');
+const { CONSULTATION_MODES, DEFAULT_CONSULTATION_MODE } = require('../utils/consultationModes');
+const { DEFAULT_TIMEZONE, zonedTimeToUtc } = require('../utils/timezones');
+const { CONSULTANT_STATUSES } = require('../utils/consultations');
+const { DEPENDENT_SNAPSHOT_FIELDS } = require('../utils/dependents');
 
 const appointmentSchema = new mongoose.Schema({
     doctor_id: {
@@ -13,6 +17,11 @@ const appointmentSchema = new mongoose.Schema({
         ref: 'User',
         required: true,
     },
+    // The family member the patient booked for, copied from their profile; null when it is for the patient
+    dependent: {
+        type: new mongoose.Schema(DEPENDENT_SNAPSHOT_FIELDS, { _id: false }),
+        default: null,
+    },
     appointment_date: {
         type: String, // Storing as string YYYY-MM-DD for simplicity (compatible with MongoDB/MERN)
         required: true,
@@ -21,11 +30,52 @@ const appointmentSchema = new mongoose.Schema({
         type: String,
         required: true,
     },
+    // appointment_date/appointment_time are wall-clock values in this (the doctor's) zone
+    timezone: {
+        type: String,
+        default: DEFAULT_TIMEZONE,
+    },
+    // Absolute start instant derived from the local values; use this for comparisons and rendering
+    start_at: {
+        type: Date,
+        index: true,
+    },
+    // Slot length taken from the doctor's settings at booking time
+    duration_minutes: {
+        type: Number,
+        default: 30,
+    },
+    appointment_type: {
+        type: String,
+        enum: ['scheduled', 'emergency'],
+        default: 'scheduled',
+    },
+    consultation_mode: {
+        type: String,
+        enum: CONSULTATION_MODES,
+        default: DEFAULT_CONSULTATION_MODE,
+    },
+    // Copy of the doctor's clinic address at booking time, for in-person appointments
+    clinic_address: {
+        type: String,
+        default: '',
+    },
+    // no_show_patient / no_show_doctor: the consultation did not happen because that side never turned up
     status: {
         type: String,
-        enum: ['pending', 'confirmed', 'completed', 'cancelled'],
+        enum: ['pending', 'confirmed', 'completed', 'cancelled', 'no_show_patient', 'no_show_doctor'],
         default: 'pending',
     },
+    // Every status change, oldest first; written only through utils/appointmentStatus
+    status_history: [{
+        _id: false,
+        from: { type: String, required: true },
+        to: { type: String, required: true },
+        changed_by: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+        role: { type: String, enum: ['patient', 'doctor', 'admin', 'system'], required: true },
+        reason: { type: String, default: '' },
+        changed_at: { type: Date, default: Date.now },
+    }],
     amount: {
         type: Number,
         required: true,
@@ -44,7 +94,7 @@ const appointmentSchema = new mongoose.Schema({
     },
     payment_status: {
         type: String,
-        enum: ['pending', 'paid', 'failed'],
+        enum: ['pending', 'paid', 'failed', 'partially_refunded', 'refunded'],
         default: 'pending',
     },
     video_unlocked: {
@@ -84,6 +134,11 @@ const appointmentSchema = new mongoose.Schema({
             type: Boolean,
             default: false,
         },
+        // First time the doctor joined; doctorInCall alone is reset when they leave
+        doctorJoinedAt: {
+            type: Date,
+            default: null,
+        },
     },
     zoom_join_url: {
         type: String,
@@ -97,6 +152,106 @@ const appointmentSchema = new mongoose.Schema({
         type: String,
         default: null, // ISO datetime string when scheduled by doctor
     },
+    // Set when the appointment is one occurrence of a recurring series (series_index is 0-based)
+    series_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'AppointmentSeries',
+        default: null,
+        index: true,
+    },
+    series_index: {
+        type: Number,
+        default: null,
+    },
+    // Doctors the primary doctor (doctor_id) invited to join, e.g. for a second opinion. Accepted ones share
+    // the chat, the video link and an equal part of doctor_fee.
+    consulting_doctors: [{
+        _id: false,
+        doctor_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Doctor', required: true },
+        status: { type: String, enum: CONSULTANT_STATUSES, default: 'invited' },
+        invited_at: { type: Date, default: Date.now },
+        responded_at: { type: Date, default: null },
+    }],
+    // Completed appointment this one follows up on (booked from a doctor's follow-up proposal)
+    follow_up_of: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        default: null,
+    },
+    // Set when an accepted emergency took this appointment's slot and it was moved to the next free one;
+    // the patient may keep the new slot or cancel for a full refund
+    displaced_by_emergency: {
+        type: new mongoose.Schema({
+            emergency_request_id: { type: mongoose.Schema.Types.ObjectId, ref: 'EmergencyRequest', required: true },
+            from_date: { type: String, required: true },
+            from_time: { type: String, required: true },
+            displaced_at: { type: Date, default: Date.now },
+        }, { _id: false }),
+        default: null,
+    },
+    // The patient's intake questionnaire answers, with question labels and attached records copied at
+    // submission so later form edits do not change what the doctor sees. form_id is null for the default form.
+    intake: {
+        type: new mongoose.Schema({
+            form_id: { type: mongoose.Schema.Types.ObjectId, ref: 'IntakeForm', default: null },
+            title: { type: String, default: '' },
+            answers: [{
+                _id: false,
+                question_id: { type: String, required: true },
+                label: { type: String, required: true },
+                type: { type: String, required: true },
+                // Text, the chosen option(s) or yes/no; null for medical_records answers
+                value: { type: mongoose.Schema.Types.Mixed, default: null },
+                records: [{
+                    _id: false,
+                    record_id: { type: mongoose.Schema.Types.ObjectId, ref: 'MedicalRecord' },
+                    file_name: String,
+                    file_url: String,
+                    record_type: String,
+                }],
+            }],
+            submitted_at: { type: Date, default: Date.now },
+        }, { _id: false }),
+        default: null,
+    },
+    // Previous slots when the patient moves the appointment (payment stays attached)
+    reschedule_history: [{
+        from_date: String,
+        from_time: String,
+        to_date: String,
+        to_time: String,
+        rescheduled_by: {
+            type: mongoose.Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        rescheduled_at: {
+            type: Date,
+            default: Date.now,
+        },
+    }],
 }, { timestamps: true });
 
+// Keep start_at in sync whenever the local date/time or zone changes.
+appointmentSchema.pre('validate', function (next) {
+    if (!this.start_at || this.isModified('appointment_date') || this.isModified('appointment_time') || this.isModified('timezone')) {
+        const startAt = zonedTimeToUtc(this.appointment_date, this.appointment_time, this.timezone);
+        this.start_at = Number.isNaN(startAt.getTime()) ? undefined : startAt;
+    }
+    next();
+});
+
+// Atomic slot claim: at most one active (pending/confirmed) appointment per doctor, date and start time.
+// Two concurrent bookings of the same slot both pass the availability check, but only one insert
+// survives this index; the other fails with a duplicate key error that the routes turn into a 409.
+// Partial filters with $in need MongoDB 6.0+. Databases that already hold duplicate active bookings
+// must have them cancelled before the index can build.
+appointmentSchema.index(
+    { doctor_id: 1, appointment_date: 1, appointment_time: 1 },
+    {
+        unique: true,
+        name: 'active_slot_unique',
+        partialFilterExpression: { status: { $in: ['pending', 'confirmed'] } },
+    }
+);
+
 module.exports = mongoose.model('Appointment', appointmentSchema);
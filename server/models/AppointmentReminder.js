@@ -0,0 +1,58 @@
+// AppointmentReminder model:
+// One row per reminder (appointment, recipient, offset, start time); its unique index is the claim that keeps each reminder to a single send.
+const mongoose = require('mongoose');
+
+const appointmentReminderSchema = new mongoose.Schema({
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        required: true,
+    },
+    user_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    offset_minutes: {
+        type: Number,
+        required: true,
+    },
+    // The start the reminder was for; a rescheduled appointment gets fresh reminders
+    start_at: {
+        type: Date,
+        required: true,
+    },
+    // sending (claimed) -> sent; skipped when the user opted out or a closer reminder superseded it
+    status: {
+        type: String,
+        enum: ['sending', 'sent', 'skipped'],
+        default: 'sending',
+    },
+    // A claim whose worker died mid-send can be taken over after this
+    locked_until: {
+        type: Date,
+        default: null,
+    },
+    notification_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Notification',
+        default: null,
+    },
+    email_status: {
+        type: String,
+        enum: ['pending', 'sending', 'sent', 'failed', 'not_sent'],
+        default: 'pending',
+    },
+    sent_at: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: true });
+
+appointmentReminderSchema.index(
+    { appointment_id: 1, user_id: 1, offset_minutes: 1, start_at: 1 },
+    { unique: true }
+);
+appointmentReminderSchema.index({ status: 1, locked_until: 1 });
+
+module.exports = mongoose.model('AppointmentReminder', appointmentReminderSchema);
@@ -0,0 +1,49 @@
+// AppointmentSeries model:
+// A recurring booking with one doctor (weekly, biweekly or monthly); each occurrence is its own Appointment.
+const mongoose = require('mongoose');
+const { DEFAULT_TIMEZONE } = require('../utils/timezones');
+
+const appointmentSeriesSchema = new mongoose.Schema({
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        required: true,
+    },
+    patient_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    frequency: {
+        type: String,
+        enum: ['weekly', 'biweekly', 'monthly'],
+        required: true,
+    },
+    occurrences: {
+        type: Number,
+        required: true,
+    },
+    start_date: {
+        type: String, // YYYY-MM-DD of the first occurrence, in the doctor's zone
+        required: true,
+    },
+    appointment_time: {
+        type: String,
+        required: true,
+    },
+    timezone: {
+        type: String,
+        default: DEFAULT_TIMEZONE,
+    },
+    status: {
+        type: String,
+        enum: ['active', 'cancelled'],
+        default: 'active',
+    },
+    cancelled_at: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: true });
+
+module.exports = mongoose.model('AppointmentSeries', appointmentSeriesSchema);
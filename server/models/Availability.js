@@ -1,6 +1,7 @@
 // Availability model:
-// Defines weekly doctor time slots used during appointment scheduling.
+// Defines weekly doctor time windows (several per day allowed) used during appointment scheduling.
 const mongoose = require('mongoose');
+const { CONSULTATION_MODES } = require('../utils/consultationModes');
 
 const availabilitySchema = new mongoose.Schema({
     doctor_id: {
@@ -26,10 +27,17 @@ const availabilitySchema = new mongoose.Schema({
         type: Boolean,
         default: true,
     },
+    // Only this mode can be booked in the window (e.g. clinic hours); null allows every mode the doctor offers
+    consultation_mode: {
+        type: String,
+        enum: [...CONSULTATION_MODES, null],
+        default: null,
+    },
 }, { timestamps: true });
 
-// Ensure unique slot per day per doctor? 
-// The frontend assumes one slot per day.
-availabilitySchema.index({ doctor_id: 1, day_of_week: 1 }, { unique: true });
+// A doctor can have several windows on the same weekday (e.g. 09:00-12:00 and 17:00-20:00).
+// Existing databases still carry the old unique index; drop it once with
+// `db.availabilities.dropIndex('doctor_id_1_day_of_week_1')` before adding a second window.
+availabilitySchema.index({ doctor_id: 1, day_of_week: 1, start_time: 1 });
 
 module.exports = mongoose.model('Availability', availabilitySchema);
@@ -0,0 +1,38 @@
+// AvailabilityOverride model:
+// Date-specific exceptions to a doctor's weekly availability (leave days/hours and extra clinic hours).
+const mongoose = require('mongoose');
+
+const availabilityOverrideSchema = new mongoose.Schema({
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        required: true,
+    },
+    date: {
+        type: String, // YYYY-MM-DD, same format as Appointment.appointment_date
+        required: true,
+    },
+    // leave: blocks the whole date, or only start_time-end_time when given
+    // extra_hours: adds a start_time-end_time window on top of the weekly schedule
+    kind: {
+        type: String,
+        enum: ['leave', 'extra_hours'],
+        required: true,
+    },
+    start_time: {
+        type: String,
+        default: null,
+    },
+    end_time: {
+        type: String,
+        default: null,
+    },
+    reason: {
+        type: String,
+        default: '',
+    },
+}, { timestamps: true });
+
+availabilityOverrideSchema.index({ doctor_id: 1, date: 1 });
+
+module.exports = mongoose.model('AvailabilityOverride', availabilityOverrideSchema);
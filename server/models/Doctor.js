@@ -1,6 +1,21 @@
 // Doctor model:
-// Captures doctor profile, pricing, verification status, and credential metadata.
+// Captures doctor profile, pricing, scheduling preferences, verification status, and credential metadata.
 const mongoose = require('mongoose');
+const { CONSULTATION_MODES, DEFAULT_CONSULTATION_MODE } = require('../utils/consultationModes');
+const { DEFAULT_TIMEZONE, isValidTimezone } = require('../utils/timezones');
+
+const cancellationPolicySchema = new mongoose.Schema({
+    full_refund_hours: { type: Number, required: true, min: 0 },
+    partial_refund_hours: { type: Number, required: true, min: 0 },
+    partial_refund_percent: { type: Number, required: true, min: 0, max: 100 },
+}, { _id: false });
+
+// null charges the consultation fee for that mode
+const modeFeesSchema = new mongoose.Schema({
+    video: { type: Number, default: null, min: 0 },
+    in_person: { type: Number, default: null, min: 0 },
+    phone: { type: Number, default: null, min: 0 },
+}, { _id: false });
 
 const doctorSchema = new mongoose.Schema({
     user_id: {
@@ -25,6 +40,60 @@ const doctorSchema = new mongoose.Schema({
         type: Number,
         default: 0,
     },
+    // How patients can consult this doctor; each mode may have its own fee
+    consultation_modes: {
+        type: [{ type: String, enum: CONSULTATION_MODES }],
+        default: [DEFAULT_CONSULTATION_MODE],
+    },
+    mode_fees: {
+        type: modeFeesSchema,
+        default: () => ({}),
+    },
+    // Where in-person consultations take place; required once in-person is offered
+    clinic_address: {
+        type: String,
+        default: '',
+        trim: true,
+    },
+    // Discounted fee for follow-ups the doctor proposes; null charges the consultation fee
+    follow_up_fee: {
+        type: Number,
+        default: null,
+        min: 0,
+    },
+    // Clinic the doctor practises under; its clinic admins manage the doctor's schedule and it is settled instead of the doctor
+    organization_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Organization',
+        default: null,
+        index: true,
+    },
+    // Replaces the platform cancellation policy for this doctor's appointments; null uses the platform one
+    cancellation_policy: {
+        type: cancellationPolicySchema,
+        default: null,
+    },
+    // Length of one consultation slot and the gap kept free after it
+    slot_duration_minutes: {
+        type: Number,
+        enum: [15, 30, 45, 60],
+        default: 30,
+    },
+    buffer_minutes: {
+        type: Number,
+        default: 0,
+        min: 0,
+        max: 60,
+    },
+    // IANA zone the weekly availability and appointment times are expressed in
+    timezone: {
+        type: String,
+        default: DEFAULT_TIMEZONE,
+        validate: {
+            validator: isValidTimezone,
+            message: 'Invalid timezone',
+        },
+    },
     bio: {
         type: String,
         default: '',
@@ -46,6 +115,17 @@ const doctorSchema = new mongoose.Schema({
         type: String,
         default: '',
     },
+    // Medical council registration, printed on patients' invoices
+    registration_number: {
+        type: String,
+        default: '',
+        trim: true,
+    },
+    registration_council: {
+        type: String,
+        default: '',
+        trim: true,
+    },
     verification_status: {
         type: String,
         enum: ['pending', 'verified', 'rejected'],
@@ -0,0 +1,98 @@
+// EmergencyRequest model:
+// A patient's request for an emergency consultation, waiting in the doctor's triage queue until the
+// doctor accepts it (which books the emergency appointment) or declines it, or until it expires.
+const mongoose = require('mongoose');
+const { CONSULTATION_MODES, DEFAULT_CONSULTATION_MODE } = require('../utils/consultationModes');
+const { DEFAULT_TIMEZONE } = require('../utils/timezones');
+const { DEPENDENT_SNAPSHOT_FIELDS } = require('../utils/dependents');
+
+const emergencyRequestSchema = new mongoose.Schema({
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        required: true,
+    },
+    patient_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    // Family member the emergency is for, carried over to the appointment; null for the patient
+    dependent: {
+        type: new mongoose.Schema(DEPENDENT_SNAPSHOT_FIELDS, { _id: false }),
+        default: null,
+    },
+    // Requested slot, as wall-clock values in the doctor's zone
+    appointment_date: {
+        type: String,
+        required: true,
+    },
+    appointment_time: {
+        type: String,
+        required: true,
+    },
+    timezone: {
+        type: String,
+        default: DEFAULT_TIMEZONE,
+    },
+    consultation_mode: {
+        type: String,
+        enum: CONSULTATION_MODES,
+        default: DEFAULT_CONSULTATION_MODE,
+    },
+    // What the patient told the doctor about the emergency
+    reason: {
+        type: String,
+        default: '',
+    },
+    // Fees fixed when the request is made, charged if the doctor accepts
+    doctor_fee: {
+        type: Number,
+        required: true,
+    },
+    platform_fee: {
+        type: Number,
+        default: 0,
+    },
+    amount: {
+        type: Number,
+        required: true,
+    },
+    status: {
+        type: String,
+        // accepting: claimed by the doctor's accept while bookings are moved and the appointment is booked
+        enum: ['pending', 'accepting', 'accepted', 'declined', 'expired', 'withdrawn'],
+        default: 'pending',
+    },
+    // The doctor must answer before this; the scheduler expires requests left pending
+    expires_at: {
+        type: Date,
+        required: true,
+    },
+    decline_reason: {
+        type: String,
+        default: '',
+    },
+    responded_at: {
+        type: Date,
+        default: null,
+    },
+    // Emergency appointment booked on acceptance
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        default: null,
+    },
+    // Booking that held the slot and was moved or refunded to make room
+    displaced_appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        default: null,
+    },
+}, { timestamps: true });
+
+emergencyRequestSchema.index({ doctor_id: 1, status: 1 });
+emergencyRequestSchema.index({ patient_id: 1, status: 1 });
+emergencyRequestSchema.index({ status: 1, expires_at: 1 });
+
+module.exports = mongoose.model('EmergencyRequest', emergencyRequestSchema);
@@ -0,0 +1,64 @@
+// FollowUp model:
+// A follow-up visit a doctor proposes after a completed consultation, either for an exact slot
+// or for any slot in a date range, which the patient accepts or declines.
+const mongoose = require('mongoose');
+
+const followUpSchema = new mongoose.Schema({
+    original_appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        required: true,
+    },
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        required: true,
+    },
+    patient_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    // Exact slot proposal: from_date === to_date and appointment_time set.
+    // Range proposal: appointment_time is null and the patient picks any free slot in the range.
+    from_date: {
+        type: String, // YYYY-MM-DD in the doctor's zone
+        required: true,
+    },
+    to_date: {
+        type: String,
+        required: true,
+    },
+    appointment_time: {
+        type: String,
+        default: null,
+    },
+    note: {
+        type: String,
+        default: '',
+    },
+    // Doctor fee charged for the follow-up, fixed when it is proposed
+    fee: {
+        type: Number,
+        required: true,
+    },
+    status: {
+        type: String,
+        enum: ['proposed', 'accepted', 'declined', 'withdrawn', 'expired'],
+        default: 'proposed',
+    },
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        default: null,
+    },
+    responded_at: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: true });
+
+followUpSchema.index({ patient_id: 1, status: 1 });
+followUpSchema.index({ doctor_id: 1, status: 1 });
+
+module.exports = mongoose.model('FollowUp', followUpSchema);
@@ -0,0 +1,60 @@
+// IntakeForm model:
+// The questionnaire patients fill in when booking. Admins define one per specialization; a doctor may
+// replace it with their own (doctor_id set). Doctors without either get the built-in default form.
+const mongoose = require('mongoose');
+const { INTAKE_QUESTION_TYPES } = require('../utils/intakeForms');
+
+const intakeQuestionSchema = new mongoose.Schema({
+    label: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    type: {
+        type: String,
+        enum: INTAKE_QUESTION_TYPES,
+        required: true,
+    },
+    required: {
+        type: Boolean,
+        default: false,
+    },
+    // Choices for single_choice and multiple_choice questions
+    options: {
+        type: [String],
+        default: [],
+    },
+});
+
+const intakeFormSchema = new mongoose.Schema({
+    // Specialization forms have doctor_id null; a doctor's own form keeps their specialization for reference
+    specialization: {
+        type: String,
+        default: '',
+        trim: true,
+    },
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        default: null,
+        index: true,
+    },
+    title: {
+        type: String,
+        default: 'Intake questionnaire',
+        trim: true,
+    },
+    questions: {
+        type: [intakeQuestionSchema],
+        default: [],
+    },
+    updated_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null,
+    },
+}, { timestamps: true });
+
+intakeFormSchema.index({ specialization: 1, doctor_id: 1 });
+
+module.exports = mongoose.model('IntakeForm', intakeFormSchema);
@@ -0,0 +1,137 @@
+// Invoice model:
+// The invoice issued for a completed payment (utils/invoices.js). Supplier, patient and doctor details are
+// copied when it is issued so the document never changes afterwards; the PDF is rendered from them.
+// A tax_invoice charges GST on the platform fee; without a GSTIN configured the platform issues a receipt.
+const mongoose = require('mongoose');
+
+const partySchema = new mongoose.Schema({
+    name: { type: String, default: '' },
+    address: { type: String, default: '' },
+    state: { type: String, default: '' },
+    gstin: { type: String, default: '' },
+    email: { type: String, default: '' },
+    phone: { type: String, default: '' },
+}, { _id: false });
+
+// Line amounts are GST-inclusive: total = taxable_value + cgst + sgst
+const invoiceItemSchema = new mongoose.Schema({
+    description: { type: String, required: true },
+    sac: { type: String, default: '' },
+    taxable_value: { type: Number, default: 0 },
+    gst_rate: { type: Number, default: 0 },
+    cgst: { type: Number, default: 0 },
+    sgst: { type: Number, default: 0 },
+    total: { type: Number, default: 0 },
+    // e.g. why the line is exempt from GST
+    note: { type: String, default: '' },
+}, { _id: false });
+
+const invoiceSchema = new mongoose.Schema({
+    // <prefix>/<fiscal year>/<sequence>, e.g. MC/26-27/000042; sequential within each April-March year
+    invoice_number: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    document_type: {
+        type: String,
+        enum: ['tax_invoice', 'receipt'],
+        required: true,
+    },
+    payment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Payment',
+        required: true,
+        unique: true,
+    },
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        required: true,
+        index: true,
+    },
+    patient_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+        index: true,
+    },
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        default: null,
+    },
+    issued_at: {
+        type: Date,
+        required: true,
+    },
+    supplier: {
+        type: partySchema,
+        default: () => ({}),
+    },
+    // Billed to the account holder; service_for names the family member when they booked for a dependent
+    patient: {
+        type: partySchema,
+        default: () => ({}),
+    },
+    service_for: {
+        type: String,
+        default: '',
+    },
+    doctor: {
+        name: { type: String, default: '' },
+        specialization: { type: String, default: '' },
+        registration_number: { type: String, default: '' },
+        registration_council: { type: String, default: '' },
+        clinic_address: { type: String, default: '' },
+    },
+    appointment_date: {
+        type: String,
+        default: '',
+    },
+    appointment_time: {
+        type: String,
+        default: '',
+    },
+    place_of_supply: {
+        type: String,
+        default: '',
+    },
+    items: [invoiceItemSchema],
+    taxable_total: {
+        type: Number,
+        default: 0,
+    },
+    cgst_total: {
+        type: Number,
+        default: 0,
+    },
+    sgst_total: {
+        type: Number,
+        default: 0,
+    },
+    total: {
+        type: Number,
+        required: true,
+    },
+    payment_provider: {
+        type: String,
+        default: null,
+    },
+    payment_reference: {
+        type: String,
+        default: '',
+    },
+    // Stored copy of the PDF and the medical record it was filed as; empty when file storage is not configured
+    file_url: {
+        type: String,
+        default: '',
+    },
+    medical_record_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'MedicalRecord',
+        default: null,
+    },
+}, { timestamps: true });
+
+module.exports = mongoose.model('Invoice', invoiceSchema);
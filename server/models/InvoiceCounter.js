@@ -0,0 +1,19 @@
+// InvoiceCounter model:
+// The last invoice sequence number used in each fiscal year, incremented in the same transaction that saves
+// the invoice.
+const mongoose = require('mongoose');
+
+const invoiceCounterSchema = new mongoose.Schema({
+    // e.g. 26-27 for April 2026 to March 2027
+    fiscal_year: {
+        type: String,
+        required: true,
+        unique: true,
+    },
+    seq: {
+        type: Number,
+        default: 0,
+    },
+});
+
+module.exports = mongoose.model('InvoiceCounter', invoiceCounterSchema);
@@ -10,6 +10,11 @@ const medicalRecordSchema = new mongoose.Schema(
             required: true,
             index: true,
         },
+        // One of the patient's dependents the document belongs to; null for the patient's own documents
+        dependent_id: {
+            type: mongoose.Schema.Types.ObjectId,
+            default: null,
+        },
         file_name: {
             type: String,
             required: true,
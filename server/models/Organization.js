@@ -0,0 +1,30 @@
+// Organization model:
+// A clinic or hospital that groups several doctors under clinic_admin users and is settled as one payee.
+const mongoose = require('mongoose');
+
+const organizationSchema = new mongoose.Schema({
+    name: {
+        type: String,
+        required: true,
+        trim: true,
+    },
+    contact_email: {
+        type: String,
+        default: '',
+    },
+    phone: {
+        type: String,
+        default: '',
+    },
+    address: {
+        type: String,
+        default: '',
+    },
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null,
+    },
+}, { timestamps: true });
+
+module.exports = mongoose.model('Organization', organizationSchema);
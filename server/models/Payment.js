@@ -19,9 +19,26 @@ const paymentSchema = new mongoose.Schema({
     },
     status: {
         type: String,
-        enum: ['pending', 'completed', 'failed'],
+        enum: ['pending', 'completed', 'failed', 'refunded'],
         default: 'pending',
     },
+    // Running totals of the Refund records for this payment; refunded_doctor_amount comes off the doctor's earnings
+    refunded_amount: {
+        type: Number,
+        default: 0,
+    },
+    refunded_doctor_amount: {
+        type: Number,
+        default: 0,
+    },
+    refunded_at: {
+        type: Date,
+        default: null,
+    },
+    refund_reason: {
+        type: String,
+        default: '',
+    },
     settlement_status: {
         type: String,
         enum: ['unsettled', 'settled'],
@@ -35,6 +52,11 @@ const paymentSchema = new mongoose.Schema({
         type: Number,
         default: 0,
     },
+    // How much of settled_amount later settlements withheld because the payment was refunded after it was settled
+    clawed_back_amount: {
+        type: Number,
+        default: 0,
+    },
     settled_at: {
         type: Date,
         default: null,
@@ -48,12 +70,46 @@ const paymentSchema = new mongoose.Schema({
         type: String,
         default: '',
     },
-    razorpay_order_id: String,
+    // The settlement fields above cover the primary doctor's share; consulting doctors' shares of a group
+    // appointment are settled separately here
+    consultant_settlements: [{
+        _id: false,
+        doctor_id: { type: mongoose.Schema.Types.ObjectId, ref: 'Doctor', required: true },
+        settled_amount: { type: Number, default: 0 },
+        last_settlement_amount: { type: Number, default: 0 },
+        clawed_back_amount: { type: Number, default: 0 },
+        settled_at: { type: Date, default: null },
+        settled_by: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+        settlement_notes: { type: String, default: '' },
+    }],
+    // The gateway the payment went through (services/paymentProviders); null for cash payments.
+    // Each provider records its references in its own fields below.
+    provider: {
+        type: String,
+        enum: ['cashfree', 'razorpay', 'fake', null],
+        default: null,
+    },
+    // Order ids are unique so the /checkout/verify call and the webhook cannot both record the same order
+    razorpay_order_id: {
+        type: String,
+        unique: true,
+        sparse: true,
+    },
     razorpay_payment_id: String,
     razorpay_signature: String,
-    cashfree_order_id: String,
+    cashfree_order_id: {
+        type: String,
+        unique: true,
+        sparse: true,
+    },
     cashfree_payment_id: String,
     cashfree_payment_status: String,
+    fake_order_id: {
+        type: String,
+        unique: true,
+        sparse: true,
+    },
+    fake_payment_id: String,
 }, { timestamps: true });
 
 module.exports = mongoose.model('Payment', paymentSchema);
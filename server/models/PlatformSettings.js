@@ -15,6 +15,63 @@ const platformSettingsSchema = new mongoose.Schema(
             default: 0,
             min: 0,
         },
+        // Patients cannot reschedule an appointment starting sooner than this
+        reschedule_cutoff_hours: {
+            type: Number,
+            default: 2,
+            min: 0,
+        },
+        // Cancellation refunds: full refund up to full_refund_hours before the start, partial_refund_percent
+        // of the doctor's fee up to partial_refund_hours before, nothing after. Doctors may override these.
+        cancellation_full_refund_hours: {
+            type: Number,
+            default: 24,
+            min: 0,
+        },
+        cancellation_partial_refund_hours: {
+            type: Number,
+            default: 4,
+            min: 0,
+        },
+        cancellation_partial_refund_percent: {
+            type: Number,
+            default: 50,
+            min: 0,
+            max: 100,
+        },
+        // No-show consequences: whether a patient who does not turn up loses the fee,
+        // whether a doctor no-show refunds the patient, and after how many patient no-shows
+        // bookings must be paid up front (0 turns the cap off)
+        no_show_patient_forfeits_fee: {
+            type: Boolean,
+            default: true,
+        },
+        no_show_doctor_auto_refund: {
+            type: Boolean,
+            default: true,
+        },
+        no_show_prepayment_threshold: {
+            type: Number,
+            default: 3,
+            min: 0,
+        },
+        // Minutes a doctor has to accept or decline an emergency request before it expires
+        emergency_response_minutes: {
+            type: Number,
+            default: 15,
+            min: 1,
+        },
+        // Gateway patients check out with (services/paymentProviders); 'fake' is refused in production
+        payment_provider: {
+            type: String,
+            enum: ['cashfree', 'razorpay', 'fake'],
+            default: 'cashfree',
+        },
+        // Minutes before an appointment at which patients and doctors are reminded
+        reminder_offsets_minutes: {
+            type: [Number],
+            default: [1440, 15],
+        },
         updated_by: {
             type: mongoose.Schema.Types.ObjectId,
             ref: 'User',
@@ -1,6 +1,7 @@
 // Prescription model:
 // Stores doctor-issued prescriptions, medicines, notes, and generated PDF URL.
 const mongoose = require('mongoose');
+const { DEPENDENT_SNAPSHOT_FIELDS } = require('../utils/dependents');
 
 const prescriptionSchema = new mongoose.Schema({
     appointment_id: {
@@ -18,6 +19,11 @@ const prescriptionSchema = new mongoose.Schema({
         ref: 'User',
         required: true,
     },
+    // Copied from the appointment: the family member this was prescribed for, null for the patient
+    dependent: {
+        type: new mongoose.Schema(DEPENDENT_SNAPSHOT_FIELDS, { _id: false }),
+        default: null,
+    },
     diagnosis: {
         type: String,
         required: true,
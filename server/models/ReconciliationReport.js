@@ -0,0 +1,109 @@
+// Reconciliation report model:
+// One run of the payment reconciliation job (utils/paymentReconciliation.js): how many gateway payments were
+// compared with their provider, and one entry for every payment that did not match or could not be checked.
+const mongoose = require('mongoose');
+
+const reconciliationEntrySchema = new mongoose.Schema({
+    payment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Payment',
+        required: true,
+    },
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        default: null,
+    },
+    provider: {
+        type: String,
+        default: null,
+    },
+    order_id: {
+        type: String,
+        default: null,
+    },
+    amount: {
+        type: Number,
+        default: 0,
+    },
+    // What was wrong:
+    //   captured_not_recorded   the gateway captured the money, our payment was pending or failed
+    //   recorded_not_captured   our payment is completed, the gateway has no captured payment for the order
+    //   appointment_not_paid    payment and gateway agree it was paid, the appointment was never confirmed
+    //   abandoned               a pending order the gateway never captured, for an appointment no longer awaiting it
+    //   amount_mismatch         the gateway captured a different amount than we charged
+    //   check_failed            the gateway could not be asked
+    issue: {
+        type: String,
+        enum: ['captured_not_recorded', 'recorded_not_captured', 'appointment_not_paid', 'abandoned', 'amount_mismatch', 'check_failed'],
+        required: true,
+    },
+    // What the job did about it; needs_review is left for an admin
+    action: {
+        type: String,
+        enum: ['marked_completed', 'confirmed', 'refunded', 'marked_failed', 'needs_review'],
+        required: true,
+    },
+    status_before: {
+        type: String,
+        default: null,
+    },
+    status_after: {
+        type: String,
+        default: null,
+    },
+    gateway_status: {
+        type: String,
+        default: null,
+    },
+    gateway_amount: {
+        type: Number,
+        default: null,
+    },
+    message: {
+        type: String,
+        default: '',
+    },
+}, { _id: false });
+
+const reconciliationReportSchema = new mongoose.Schema({
+    trigger: {
+        type: String,
+        enum: ['scheduled', 'manual'],
+        default: 'scheduled',
+    },
+    triggered_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null,
+    },
+    started_at: {
+        type: Date,
+        required: true,
+    },
+    finished_at: {
+        type: Date,
+        default: null,
+    },
+    checked_count: {
+        type: Number,
+        default: 0,
+    },
+    matched_count: {
+        type: Number,
+        default: 0,
+    },
+    fixed_count: {
+        type: Number,
+        default: 0,
+    },
+    review_count: {
+        type: Number,
+        default: 0,
+    },
+    entries: [reconciliationEntrySchema],
+}, { timestamps: true });
+
+reconciliationReportSchema.index({ started_at: -1 });
+
+module.exports = mongoose.model('ReconciliationReport', reconciliationReportSchema);
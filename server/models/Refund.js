@@ -0,0 +1,107 @@
+// Refund model:
+// One row per amount returned to a patient; doctor_amount is the part taken back out of the doctor's earnings.
+// status follows the gateway refund: initiated until the payment provider reports it processed or failed.
+const mongoose = require('mongoose');
+
+const refundSchema = new mongoose.Schema({
+    payment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Payment',
+        required: true,
+    },
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        required: true,
+    },
+    patient_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        required: true,
+    },
+    // amount = doctor_amount + platform_amount
+    amount: {
+        type: Number,
+        required: true,
+        min: 0,
+    },
+    doctor_amount: {
+        type: Number,
+        default: 0,
+        min: 0,
+    },
+    platform_amount: {
+        type: Number,
+        default: 0,
+        min: 0,
+    },
+    refund_percent: {
+        type: Number,
+        required: true,
+        min: 0,
+        max: 100,
+    },
+    source: {
+        type: String,
+        enum: ['cancellation', 'no_show', 'admin', 'reconciliation', 'late_payment'],
+        required: true,
+    },
+    reason: {
+        type: String,
+        default: '',
+    },
+    created_by: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        default: null,
+    },
+    status: {
+        type: String,
+        enum: ['initiated', 'processed', 'failed'],
+        default: 'initiated',
+    },
+    // 'none' for payments taken outside a gateway, which are returned by hand and recorded as processed
+    gateway: {
+        type: String,
+        enum: ['cashfree', 'razorpay', 'fake', 'none'],
+        default: 'none',
+    },
+    // The refund id sent to the gateway, kept across retries until the gateway reports a refund under it failed;
+    // gateway_reference_id is the gateway's own id for the refund
+    gateway_refund_id: {
+        type: String,
+        default: null,
+    },
+    gateway_reference_id: {
+        type: String,
+        default: null,
+    },
+    attempts: {
+        type: Number,
+        default: 0,
+    },
+    gateway_status: {
+        type: String,
+        default: null,
+    },
+    failure_reason: {
+        type: String,
+        default: '',
+    },
+    processed_at: {
+        type: Date,
+        default: null,
+    },
+}, { timestamps: true });
+
+refundSchema.index({ payment_id: 1 });
+refundSchema.index({ appointment_id: 1 });
+refundSchema.index({ status: 1, createdAt: -1 });
+refundSchema.index({ gateway_refund_id: 1 }, { sparse: true });
+
+module.exports = mongoose.model('Refund', refundSchema);
@@ -1,7 +1,9 @@
 // User model:
-// Core account identity, role, credentials, locale, and notification preferences.
+// Core account identity, role, credentials, locale/timezone, and notification preferences.
 const mongoose = require('mongoose');
 const bcrypt = require('bcryptjs');
+const { isValidTimezone } = require('../utils/timezones');
+const { DEPENDENT_RELATIONS } = require('../utils/dependents');
 
 const userSchema = new mongoose.Schema({
     email: {
@@ -26,9 +28,15 @@ const userSchema = new mongoose.Schema({
     },
     role: {
         type: String,
-        enum: ['patient', 'doctor', 'admin'],
+        enum: ['patient', 'doctor', 'admin', 'clinic_admin'],
         default: 'patient',
     },
+    // Set for clinic_admin users: the organization they manage
+    organization_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Organization',
+        default: null,
+    },
     avatar_url: {
         type: String,
         default: '',
@@ -41,6 +49,30 @@ const userSchema = new mongoose.Schema({
         type: String,
         default: 'en'
     },
+    // IANA zone used when emailing this user; null falls back to the appointment's zone
+    timezone: {
+        type: String,
+        default: null,
+        validate: {
+            validator: (value) => value === null || isValidTimezone(value),
+            message: 'Invalid timezone',
+        },
+    },
+    // Patients only: family members they book for. The subdocument _id is the dependent id that
+    // appointments, prescriptions and medical records refer to.
+    dependents: [{
+        full_name: { type: String, required: true, trim: true },
+        date_of_birth: { type: Date, required: true },
+        relation: { type: String, enum: DEPENDENT_RELATIONS, default: 'other' },
+    }],
+    // Secret in the iCalendar subscription URL (GET /api/calendar/feed/:token.ics); created on first request
+    // and replaced when the user resets it. Never returned with the user.
+    calendar_feed_token: {
+        type: String,
+        unique: true,
+        sparse: true,
+        select: false,
+    },
     notification_preferences: {
         email: {
             type: Boolean,
@@ -0,0 +1,49 @@
+// WaitlistEntry model:
+// A patient queued for a fully booked doctor/date, and the time-limited slot hold offered when a booking is cancelled.
+const mongoose = require('mongoose');
+
+const waitlistEntrySchema = new mongoose.Schema({
+    doctor_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Doctor',
+        required: true,
+    },
+    patient_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+    date: {
+        type: String, // YYYY-MM-DD in the doctor's timezone, same as Appointment.appointment_date
+        required: true,
+    },
+    // waiting -> offered (slot held) -> booked | expired; cancelled when the patient leaves the list
+    status: {
+        type: String,
+        enum: ['waiting', 'offered', 'booked', 'expired', 'cancelled'],
+        default: 'waiting',
+    },
+    offered_time: {
+        type: String,
+        default: null,
+    },
+    offer_expires_at: {
+        type: Date,
+        default: null,
+    },
+    appointment_id: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'Appointment',
+        default: null,
+    },
+}, { timestamps: true });
+
+// Queue order is createdAt within one doctor/date
+waitlistEntrySchema.index({ doctor_id: 1, date: 1, status: 1, createdAt: 1 });
+// One open entry per patient per doctor/date
+waitlistEntrySchema.index(
+    { doctor_id: 1, patient_id: 1, date: 1 },
+    { unique: true, partialFilterExpression: { status: { $in: ['waiting', 'offered'] } } }
+);
+
+module.exports = mongoose.model('WaitlistEntry', waitlistEntrySchema);
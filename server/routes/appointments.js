@@ -2,7 +2,9 @@
 // Handles appointment lifecycle, doctor actions, permissions, and related notifications/emails.
 const express = require('express');
 const router = express.Router();
+const mongoose = require('mongoose');
 const Appointment = require('../models/Appointment');
+const AppointmentSeries = require('../models/AppointmentSeries');
 const Doctor = require('../models/Doctor');
 const PlatformSettings = require('../models/PlatformSettings');
 const User = require('../models/User');
@@ -11,6 +13,47 @@ const zoomService = require('../services/zoomService');
 const { sendEmail } = require('../services/emailService');
 const { cancelExpiredUnpaidAppointments } = require('../utils/cron-jobs');
 const { renderEmailWithFallback } = require('../utils/emailTemplates');
+const { getCurrentPlatformFee } = require('../utils/platformFees');
+const { isAppointmentTransitionError, transitionAppointment } = require('../utils/appointmentStatus');
+const {
+    INACTIVE_APPOINTMENT_STATUSES,
+    SLOT_TAKEN_MESSAGE,
+    checkScheduledSlot,
+    getAppointmentStart,
+    getDoctorSlotSettings,
+    isSlotConflictError,
+} = require('../utils/appointmentSlots');
+const {
+    cancelSeriesOccurrences,
+    checkSeriesOccurrences,
+    validateSeriesRequest,
+} = require('../utils/appointmentSeries');
+const { quoteCancellation, refundCancelledAppointment } = require('../utils/cancellationPolicy');
+const {
+    CONSULTATION_MODE_LABELS,
+    DEFAULT_CONSULTATION_MODE,
+    checkConsultationModeOffered,
+    getConsultationModeFee,
+    isVideoConsultation,
+} = require('../utils/consultationModes');
+const { sendAppointmentConfirmation } = require('../utils/appointmentConfirmations');
+const { buildIntakeResponse, resolveIntakeForm } = require('../utils/intakeForms');
+const { getPrepaymentRequirement, recordNoShow } = require('../utils/noShows');
+const { canDeclineRebooking } = require('../utils/emergencyRequests');
+const { canManageDoctor, getOrganizationDoctorIds } = require('../utils/organizations');
+const { getDependentSnapshot } = require('../utils/dependents');
+const {
+    MAX_CONSULTING_DOCTORS,
+    canChangeConsultants,
+    findConsultant,
+    getAcceptedConsultants,
+    isConsultationDoctor,
+} = require('../utils/consultations');
+const { formatAppointmentForViewer, resolveTimezone } = require('../utils/timezones');
+const { markWaitlistBooked, releaseSlotToWaitlist } = require('../utils/waitlist');
+
+const DEFAULT_RESCHEDULE_CUTOFF_HOURS = 2;
+const NOT_VIDEO_MESSAGE = 'Video calls are only available for video consultations';
 
 function formatDoctorName(rawName) {
     const name = String(rawName || '').trim();
@@ -20,9 +63,10 @@ function formatDoctorName(rawName) {
     return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
 }
 
-function formatPatientName(rawName) {
-    const name = String(rawName || '').trim();
-    return name || 'Patient';
+// `dependent` is the family member the patient booked for, if any
+function formatPatientName(rawName, dependent = null) {
+    const name = String(rawName || '').trim() || 'Patient';
+    return dependent ? `${name} (for ${dependent.full_name}, ${dependent.relation})` : name;
 }
 
 async function findDoctorProfileForUser(userId) {
@@ -33,11 +77,99 @@ async function findDoctorProfileForUser(userId) {
     return Doctor.findOne({ user_id: userId }).populate('user_id', 'full_name');
 }
 
-async function getCurrentPlatformFee() {
+// The patient, the doctor, consulting doctors who accepted, clinic admins of the doctor's organization and admins
+async function canViewAppointment(user, appointment) {
+    if (user.role === 'admin') return true;
+    if (String(appointment.patient_id?._id || appointment.patient_id) === String(user._id)) return true;
+    if (await canManageDoctor(user, appointment.doctor_id)) return true;
+    if (user.role !== 'doctor') return false;
+
+    const doctor = await Doctor.findOne({ user_id: user._id }).select('_id');
+    return Boolean(doctor) && isConsultationDoctor(appointment, doctor._id);
+}
+
+// Mode fields stored on a new appointment; in-person visits keep the clinic address they were booked at
+function getConsultationModeFields(doctor, mode) {
+    return {
+        consultation_mode: mode,
+        clinic_address: mode === 'in_person' ? doctor.clinic_address || '' : '',
+    };
+}
+
+// Intake answers sent with a booking, checked against the doctor's form.
+// Bookings without answers get no intake; the patient can fill it in later from their appointments.
+async function buildBookingIntake(doctor, answers, patientId) {
+    if (answers === undefined || answers === null) {
+        return { ok: true, intake: null };
+    }
+    const form = await resolveIntakeForm(doctor);
+    return buildIntakeResponse({ form, answers, patientId });
+}
+
+async function getRescheduleCutoffHours() {
     const settings = await PlatformSettings.findOne({ key: 'global' });
-    return Number(settings?.platform_fee || 0);
+    const hours = Number(settings?.reschedule_cutoff_hours);
+    return Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_RESCHEDULE_CUTOFF_HOURS;
+}
+
+// Refunds a just-cancelled appointment per the policy and offers its slot to the waitlist. The cancellation is
+// already saved, so a refund that fails is logged (and a Refund that could not be sent is left failed for an
+// admin to retry) rather than failing the request.
+async function settleCancellation(appointment, { role, userId, reason }) {
+    try {
+        const { refunds } = await refundCancelledAppointment(appointment, { role, userId, reason });
+        if (refunds.length > 0) {
+            await appointment.save();
+        }
+    } catch (error) {
+        console.error(`Failed to refund cancelled appointment ${appointment._id}`, error);
+    }
+    await releaseSlotToWaitlist(appointment);
 }
 
+// Patient: their no-show count and whether bookings must be paid up front
+router.get('/no-show-status', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients have a no-show record' });
+        }
+        res.json(await getPrepaymentRequirement(req.user._id));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Consulting doctor: group appointments they were invited to or joined.
+// The host's Zoom link stays hidden and the shared link is only shown once the invitation is accepted.
+router.get('/consultations', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'doctor') {
+            return res.status(403).json({ message: 'Only doctors can view consultation invitations' });
+        }
+        const doctor = await Doctor.findOne({ user_id: req.user._id });
+        if (!doctor) return res.json([]);
+
+        const appointments = await Appointment.find({
+            consulting_doctors: { $elemMatch: { doctor_id: doctor._id, status: { $in: ['invited', 'accepted'] } } },
+            status: { $nin: INACTIVE_APPOINTMENT_STATUSES },
+        })
+            .populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name' } })
+            .populate({ path: 'consulting_doctors.doctor_id', populate: { path: 'user_id', select: 'full_name' } })
+            .populate('patient_id', 'full_name avatar_url')
+            .sort({ start_at: 1 });
+
+        res.json(appointments.map((appointment) => {
+            const consultationStatus = findConsultant(appointment, doctor._id).status;
+            const result = appointment.toObject();
+            if (result.video) delete result.video.doctorJoinUrl;
+            if (consultationStatus !== 'accepted') result.zoom_join_url = null;
+            return { ...result, consultation_status: consultationStatus };
+        }));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
 // Get appointment by ID
 router.get('/:id', protect, async (req, res) => {
     try {
@@ -48,23 +180,32 @@ router.get('/:id', protect, async (req, res) => {
                 path: 'doctor_id',
                 populate: { path: 'user_id', select: 'full_name' }
             })
+            .populate({ path: 'consulting_doctors.doctor_id', populate: { path: 'user_id', select: 'full_name' } })
             .populate('patient_id', 'full_name email avatar_url');
 
         if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+        if (!(await canViewAppointment(req.user, appointment))) {
+            return res.status(403).json({ message: 'Not authorized to view this appointment' });
+        }
         res.json(appointment);
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
 });
 
-// Get appointments for a specific doctor (optionally filtered by date)
+// Get appointments for a specific doctor (optionally filtered by date).
+// Patients use GET /api/doctors/:id/slots instead, so only the doctor and admins can list these.
 router.get('/doctor/:doctorId', protect, async (req, res) => {
     try {
         await cancelExpiredUnpaidAppointments();
 
         const { doctorId } = req.params;
+        if (req.user.role !== 'admin' && !(await canManageDoctor(req.user, doctorId))) {
+            return res.status(403).json({ message: 'Not authorized to view these appointments' });
+        }
+
         const { date } = req.query;
-        const query = { doctor_id: doctorId, status: { $nin: ['cancelled', 'completed'] } };
+        const query = { doctor_id: doctorId, status: { $nin: INACTIVE_APPOINTMENT_STATUSES } };
         if (date) query.appointment_date = date;
 
         const appointments = await Appointment.find(query)
@@ -94,6 +235,15 @@ router.get('/', protect, async (req, res) => {
             } else {
                 return res.json([]); // valid doctor profile needed
             }
+        } else if (role === 'clinic_admin') {
+            // Combined calendar of the organization's doctors, optionally narrowed to one of them
+            const doctorIds = await getOrganizationDoctorIds(req.user.organization_id);
+            const requestedDoctorId = String(req.query.doctor_id || '');
+            query.doctor_id = requestedDoctorId
+                ? { $in: doctorIds.filter((id) => id.toString() === requestedDoctorId) }
+                : { $in: doctorIds };
+        } else if (role !== 'admin') {
+            return res.json([]);
         }
 
         const appointments = await Appointment.find(query)
@@ -101,7 +251,9 @@ router.get('/', protect, async (req, res) => {
                 path: 'doctor_id',
                 populate: { path: 'user_id', select: 'full_name' }
             })
+            .populate({ path: 'consulting_doctors.doctor_id', populate: { path: 'user_id', select: 'full_name' } })
             .populate('patient_id', 'full_name email avatar_url')
+            .populate('series_id', 'frequency occurrences status')
             .sort({ appointment_date: -1 });
 
         res.json(appointments);
@@ -110,108 +262,111 @@ router.get('/', protect, async (req, res) => {
     }
 });
 
-// Create appointment (patient)
+// Create appointment (patient).
+// Emergencies are not booked here: they go to the doctor's triage queue via /api/emergency-requests.
 router.post('/', protect, async (req, res) => {
     try {
-        const { doctor_id, appointment_date, appointment_time, appointment_type = 'scheduled' } = req.body;
+        const {
+            doctor_id,
+            appointment_date,
+            appointment_time,
+            appointment_type = 'scheduled',
+            consultation_mode = DEFAULT_CONSULTATION_MODE,
+            intake_answers,
+            dependent_id,
+        } = req.body;
 
         // Only patients can create appointments
         if (req.user.role !== 'patient') {
             return res.status(403).json({ message: 'Only patients can create appointments' });
         }
 
+        if (appointment_type === 'emergency') {
+            return res.status(400).json({ message: 'Emergency appointments are requested from the doctor through /api/emergency-requests' });
+        }
+
         const patient_id = req.user._id;
 
+        // Booking for a family member keeps the account holder as the patient who pays and is notified
+        const dependentCheck = getDependentSnapshot(req.user, dependent_id);
+        if (!dependentCheck.ok) {
+            return res.status(dependentCheck.status).json({ message: dependentCheck.message });
+        }
+
         const doctor = await Doctor.findById(doctor_id);
         if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
 
-        const doctorFee = Number(
-            appointment_type === 'emergency' ? doctor.emergency_fee : doctor.consultation_fee
-        );
+        const modeError = checkConsultationModeOffered(doctor, consultation_mode);
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
+        const doctorFee = Number(getConsultationModeFee(doctor, consultation_mode));
         const platformFee = await getCurrentPlatformFee();
         const totalAmount = Number((doctorFee + platformFee).toFixed(2));
 
-        // For scheduled appointments, check doctor availability and slot free
-        if (appointment_type !== 'emergency') {
-            const dateObj = new Date(appointment_date);
-            const dayOfWeek = dateObj.getDay(); // 0-6
-
-            const avail = await require('../models/Availability').findOne({ doctor_id, day_of_week: dayOfWeek, is_available: true });
-            if (!avail) {
-                return res.status(400).json({ message: 'Doctor is not available on this date' });
-            }
-
-            // Check time within availability (start_time <= appointment_time < end_time)
-            const toMinutes = (t) => {
-                const [h, m] = t.split(':').map(Number);
-                return h * 60 + m;
-            };
-
-            if (toMinutes(appointment_time) < toMinutes(avail.start_time) || toMinutes(appointment_time) >= toMinutes(avail.end_time)) {
-                return res.status(400).json({ message: 'Selected time is outside doctor availability' });
-            }
+        const slotCheck = await checkScheduledSlot({
+            doctor,
+            appointmentDate: appointment_date,
+            appointmentTime: appointment_time,
+            patientId: patient_id,
+            consultationMode: consultation_mode,
+        });
+        if (!slotCheck.ok) {
+            return res.status(slotCheck.status).json({ message: slotCheck.message });
+        }
 
-            // Check existing active appointment at same time.
-            // Completed/cancelled appointments should not keep the slot blocked.
-            const existing = await Appointment.findOne({ doctor_id, appointment_date, appointment_time, status: { $nin: ['cancelled', 'completed'] } });
-            if (existing) {
-                return res.status(409).json({ message: 'This slot is already booked' });
-            }
-        } else {
-            // Emergency booking: allow at any time and preempt existing non-cancelled appointments
-            const conflicting = await Appointment.find({ doctor_id, appointment_date, appointment_time, status: { $ne: 'cancelled' } });
-            const Notification = require('../models/Notification');
-            for (const appt of conflicting) {
-                appt.status = 'cancelled';
-                appt.notes = (appt.notes || '') + ' Preempted by emergency booking';
-                await appt.save();
-
-                // Create a notification for the affected patient
-                try {
-                    await Notification.create({
-                        user_id: appt.patient_id,
-                        type: 'preempted',
-                        message: `Your appointment on ${appointment_date} at ${appointment_time} with the doctor was cancelled due to an emergency booking.`,
-                        data: { appointment_id: appt._id, doctor_id, appointment_date, appointment_time },
-                    });
-                } catch (nerr) {
-                    console.error('Failed to create notification for preempted appointment', nerr);
-                }
-            }
+        const intakeCheck = await buildBookingIntake(doctor, intake_answers, patient_id);
+        if (!intakeCheck.ok) {
+            return res.status(400).json({ message: intakeCheck.message });
         }
 
         const appointment = await Appointment.create({
             doctor_id,
             patient_id,
+            dependent: dependentCheck.dependent,
             appointment_date,
             appointment_time,
-            appointment_type,
+            timezone: resolveTimezone(doctor.timezone),
+            duration_minutes: getDoctorSlotSettings(doctor).slotDuration,
+            appointment_type: 'scheduled',
+            ...getConsultationModeFields(doctor, consultation_mode),
             amount: totalAmount,
             doctor_fee: Number(doctorFee.toFixed(2)),
             platform_fee: Number(platformFee.toFixed(2)),
-            status: appointment_type === 'emergency' ? 'confirmed' : 'pending',
+            status: 'pending',
             payment_status: 'pending',
             chat_unlocked: false,
             video_unlocked: false,
+            intake: intakeCheck.intake,
+        });
+
+        await markWaitlistBooked({
+            doctorId: doctor._id,
+            patientId: patient_id,
+            date: appointment_date,
+            appointmentId: appointment._id,
+            bookedTime: appointment_time,
         });
 
         try {
             const Notification = require('../models/Notification');
             const doctorUser = await User.findById(doctor.user_id).select(
-                'full_name email locale'
+                'full_name email locale timezone'
             );
-            const patientName = formatPatientName(req.user.full_name);
-            const appointmentTypeLabel =
-                appointment_type === 'emergency' ? 'emergency' : 'scheduled';
+            const patientName = formatPatientName(req.user.full_name, appointment.dependent);
+            const appointmentTypeLabel = 'scheduled';
+            const doctorView = formatAppointmentForViewer(appointment, doctorUser?.timezone);
 
             if (doctorUser?._id) {
                 await Notification.create({
                     user_id: doctorUser._id,
                     type: 'new_appointment',
-                    message: `New ${appointmentTypeLabel} appointment booked by ${patientName} on ${appointment_date} at ${appointment_time}.`,
+                    message: `New ${appointmentTypeLabel} appointment (${CONSULTATION_MODE_LABELS[appointment.consultation_mode].toLowerCase()}) booked by ${patientName} on ${doctorView.date} at ${doctorView.time}.`,
                     data: {
                         appointment_id: appointment._id,
                         appointment_type: appointmentTypeLabel,
+                        consultation_mode: appointment.consultation_mode,
                         appointment_date,
                         appointment_time,
                         patient_id,
@@ -226,15 +381,16 @@ router.post('/', protect, async (req, res) => {
                     context: {
                         doctor: doctorUser.full_name || 'Doctor',
                         patient: patientName,
-                        date: appointment_date,
-                        time: appointment_time,
+                        date: doctorView.date,
+                        time: doctorView.time,
                         type: appointmentTypeLabel,
+                        mode: CONSULTATION_MODE_LABELS[appointment.consultation_mode],
                     },
                 });
 
                 await sendEmail({
                     to: doctorUser.email,
-                    subject: `New Appointment Booked - ${appointment_date} ${appointment_time}`,
+                    subject: `New Appointment Booked - ${doctorView.date} ${doctorView.time}`,
                     text: resolved.text,
                     html: resolved.html,
                 });
@@ -245,15 +401,326 @@ router.post('/', protect, async (req, res) => {
 
         res.status(201).json(appointment);
     } catch (error) {
+        // Lost the race for the slot to a concurrent booking (see active_slot_unique index)
+        if (isSlotConflictError(error)) {
+            return res.status(409).json({ message: SLOT_TAKEN_MESSAGE });
+        }
         console.error(error);
         res.status(400).json({ message: error.message });
     }
 });
 
+// Patient-only: check every occurrence of a recurring series before booking it
+router.post('/series/preview', protect, async (req, res) => {
+    try {
+        const {
+            doctor_id,
+            start_date,
+            appointment_time,
+            frequency,
+            occurrences,
+            consultation_mode = DEFAULT_CONSULTATION_MODE,
+        } = req.body || {};
+
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can book appointment series' });
+        }
+
+        const validationError = validateSeriesRequest(req.body || {});
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+
+        const doctor = await Doctor.findById(doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        const modeError = checkConsultationModeOffered(doctor, consultation_mode);
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
+        const checked = await checkSeriesOccurrences({
+            doctor,
+            startDate: start_date,
+            appointmentTime: appointment_time,
+            frequency,
+            occurrences,
+            patientId: req.user._id,
+            consultationMode: consultation_mode,
+        });
+
+        res.json({
+            timezone: resolveTimezone(doctor.timezone),
+            occurrences: checked,
+            conflicts: checked.filter((o) => !o.ok).length,
+        });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient-only: book a recurring series with one doctor.
+// All occurrences are booked or none: any conflict is reported back without booking anything.
+router.post('/series', protect, async (req, res) => {
+    try {
+        const {
+            doctor_id,
+            start_date,
+            appointment_time,
+            frequency,
+            occurrences,
+            consultation_mode = DEFAULT_CONSULTATION_MODE,
+            intake_answers,
+            dependent_id,
+        } = req.body || {};
+
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can book appointment series' });
+        }
+
+        const validationError = validateSeriesRequest(req.body || {});
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+
+        const patient_id = req.user._id;
+        const dependentCheck = getDependentSnapshot(req.user, dependent_id);
+        if (!dependentCheck.ok) {
+            return res.status(dependentCheck.status).json({ message: dependentCheck.message });
+        }
+
+        const doctor = await Doctor.findById(doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        const modeError = checkConsultationModeOffered(doctor, consultation_mode);
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
+        // Later occurrences are reserved unpaid, which prepayment does not allow
+        const { prepayment_required: prepaymentRequired } = await getPrepaymentRequirement(patient_id);
+        if (prepaymentRequired) {
+            return res.status(403).json({ message: 'Because of repeated missed appointments, please book and pay for each visit separately' });
+        }
+
+        const checked = await checkSeriesOccurrences({
+            doctor,
+            startDate: start_date,
+            appointmentTime: appointment_time,
+            frequency,
+            occurrences,
+            patientId: patient_id,
+            consultationMode: consultation_mode,
+        });
+        const conflicts = checked.filter((o) => !o.ok);
+        if (conflicts.length > 0) {
+            return res.status(409).json({
+                message: `${conflicts.length} of ${checked.length} occurrences are not available`,
+                occurrences: checked,
+            });
+        }
+
+        // The answers describe why the patient is coming now, so they go on the first visit only
+        const intakeCheck = await buildBookingIntake(doctor, intake_answers, patient_id);
+        if (!intakeCheck.ok) {
+            return res.status(400).json({ message: intakeCheck.message });
+        }
+
+        const doctorFee = getConsultationModeFee(doctor, consultation_mode);
+        const platformFee = await getCurrentPlatformFee();
+        const totalAmount = Number((doctorFee + platformFee).toFixed(2));
+        const timezone = resolveTimezone(doctor.timezone);
+        const slotDuration = getDoctorSlotSettings(doctor).slotDuration;
+
+        const series = await AppointmentSeries.create({
+            doctor_id: doctor._id,
+            patient_id,
+            frequency,
+            occurrences: checked.length,
+            start_date,
+            appointment_time,
+            timezone,
+        });
+
+        const created = [];
+        try {
+            for (const occurrence of checked) {
+                created.push(await Appointment.create({
+                    doctor_id: doctor._id,
+                    patient_id,
+                    dependent: dependentCheck.dependent,
+                    appointment_date: occurrence.appointment_date,
+                    appointment_time,
+                    timezone,
+                    duration_minutes: slotDuration,
+                    appointment_type: 'scheduled',
+                    ...getConsultationModeFields(doctor, consultation_mode),
+                    amount: totalAmount,
+                    doctor_fee: Number(doctorFee.toFixed(2)),
+                    platform_fee: Number(platformFee.toFixed(2)),
+                    status: 'pending',
+                    payment_status: 'pending',
+                    chat_unlocked: false,
+                    video_unlocked: false,
+                    series_id: series._id,
+                    series_index: occurrence.index,
+                    intake: occurrence.index === 0 ? intakeCheck.intake : null,
+                }));
+            }
+        } catch (createErr) {
+            // Another booking won one of the slots meanwhile; undo the partial series
+            await Appointment.deleteMany({ _id: { $in: created.map((a) => a._id) } });
+            await AppointmentSeries.deleteOne({ _id: series._id });
+            throw createErr;
+        }
+
+        for (const appt of created) {
+            await markWaitlistBooked({
+                doctorId: doctor._id,
+                patientId: patient_id,
+                date: appt.appointment_date,
+                appointmentId: appt._id,
+                bookedTime: appointment_time,
+            });
+        }
+
+        try {
+            const Notification = require('../models/Notification');
+            const doctorUser = await User.findById(doctor.user_id).select('full_name email locale timezone');
+            const patientName = formatPatientName(req.user.full_name, created[0].dependent);
+            const firstView = formatAppointmentForViewer(created[0], doctorUser?.timezone);
+            const seriesLabel = `recurring (${frequency}, ${created.length} visits)`;
+
+            if (doctorUser?._id) {
+                await Notification.create({
+                    user_id: doctorUser._id,
+                    type: 'new_appointment',
+                    message: `${patientName} booked a ${frequency} series of ${created.length} appointments starting ${firstView.date} at ${firstView.time}.`,
+                    data: {
+                        appointment_id: created[0]._id,
+                        series_id: series._id,
+                        appointment_type: 'scheduled',
+                        appointment_date: start_date,
+                        appointment_time,
+                        patient_id,
+                    },
+                });
+            }
+
+            if (doctorUser?.email) {
+                const resolved = renderEmailWithFallback({
+                    locale: doctorUser.locale || 'en',
+                    templateName: 'new_appointment_doctor',
+                    context: {
+                        doctor: doctorUser.full_name || 'Doctor',
+                        patient: patientName,
+                        date: firstView.date,
+                        time: firstView.time,
+                        type: seriesLabel,
+                        mode: CONSULTATION_MODE_LABELS[consultation_mode],
+                    },
+                });
+
+                await sendEmail({
+                    to: doctorUser.email,
+                    subject: `New Recurring Appointments - from ${firstView.date} ${firstView.time}`,
+                    text: resolved.text,
+                    html: resolved.html,
+                });
+            }
+        } catch (notifyErr) {
+            console.error('Failed to notify doctor for new appointment series', notifyErr);
+        }
+
+        res.status(201).json({ series, appointments: created });
+    } catch (error) {
+        if (isSlotConflictError(error)) {
+            return res.status(409).json({ message: SLOT_TAKEN_MESSAGE });
+        }
+        console.error(error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Series details with all of its occurrences (patient or doctor of the series)
+router.get('/series/:id', protect, async (req, res) => {
+    try {
+        const series = await AppointmentSeries.findById(req.params.id);
+        if (!series) return res.status(404).json({ message: 'Appointment series not found' });
+
+        const isPatient = series.patient_id.toString() === req.user._id.toString();
+        let isDoctor = false;
+        if (req.user.role === 'doctor') {
+            const doctor = await findDoctorProfileForUser(req.user._id);
+            isDoctor = Boolean(doctor && doctor._id.toString() === series.doctor_id.toString());
+        }
+        if (!isPatient && !isDoctor && req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized to view this appointment series' });
+        }
+
+        const appointments = await Appointment.find({ series_id: series._id }).sort({ series_index: 1 });
+        res.json({ series, appointments });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Patient-only: cancel an occurrence and every later one (or the whole upcoming series without from_appointment_id).
+// A single occurrence is cancelled through PUT /:id like any other appointment.
+router.put('/series/:id/cancel', protect, async (req, res) => {
+    try {
+        const { from_appointment_id } = req.body || {};
+        const series = await AppointmentSeries.findById(req.params.id);
+        if (!series) return res.status(404).json({ message: 'Appointment series not found' });
+
+        if (req.user.role !== 'patient' || series.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to cancel this appointment series' });
+        }
+
+        let fromIndex = 0;
+        if (from_appointment_id) {
+            const from = await Appointment.findOne({ _id: from_appointment_id, series_id: series._id });
+            if (!from) {
+                return res.status(404).json({ message: 'Appointment is not part of this series' });
+            }
+            fromIndex = from.series_index;
+        }
+
+        const cancelled = await cancelSeriesOccurrences({ series, fromIndex, actor: { role: 'patient', userId: req.user._id } });
+        if (cancelled.length === 0) {
+            return res.status(400).json({ message: 'No upcoming appointments left to cancel in this series' });
+        }
+
+        try {
+            const Notification = require('../models/Notification');
+            const doctor = await Doctor.findById(series.doctor_id).select('user_id');
+            const doctorUser = doctor ? await User.findById(doctor.user_id).select('timezone') : null;
+            if (doctorUser?._id) {
+                const firstView = formatAppointmentForViewer(cancelled[0], doctorUser.timezone);
+                await Notification.create({
+                    user_id: doctorUser._id,
+                    type: 'appointment_series_cancelled',
+                    message: `${formatPatientName(req.user.full_name)} cancelled ${cancelled.length} appointment(s) of their ${series.frequency} series, starting ${firstView.date} at ${firstView.time}.`,
+                    data: {
+                        series_id: series._id,
+                        appointment_ids: cancelled.map((a) => a._id),
+                    },
+                });
+            }
+        } catch (notifyErr) {
+            console.error('Failed to notify doctor for cancelled appointment series', notifyErr);
+        }
+
+        res.json({ series, cancelled: cancelled.map((a) => a._id) });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
 // Update appointment (e.g. status)
 router.put('/:id', protect, async (req, res) => {
     try {
-        const { status, payment_status, notes } = req.body;
+        const { status, payment_status, notes, reason } = req.body;
         const appointment = await Appointment.findById(req.params.id);
 
         if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
@@ -269,16 +736,11 @@ router.put('/:id', protect, async (req, res) => {
                     return res.status(403).json({ message: 'Not authorized to update this appointment' });
                 }
 
-                const allowedDoctorStatuses = ['confirmed', 'completed', 'cancelled'];
-                if (!allowedDoctorStatuses.includes(nextStatus)) {
-                    return res.status(400).json({ message: 'Invalid appointment status' });
-                }
-
-                appointment.status = nextStatus;
+                transitionAppointment(appointment, nextStatus, { role: 'doctor', userId: req.user._id, reason });
 
                 if (nextStatus === 'confirmed') {
                     appointment.chat_unlocked = true;
-                    appointment.video_unlocked = true;
+                    appointment.video_unlocked = isVideoConsultation(appointment);
 
                     if (previousStatus !== 'confirmed') {
                         const doctorName = formatDoctorName(doctor.user_id?.full_name);
@@ -324,11 +786,11 @@ router.put('/:id', protect, async (req, res) => {
                         });
                     }
                 }
-            } else if (nextStatus === 'cancelled' && req.user.role === 'patient') {
+            } else if (req.user.role === 'patient') {
                 if (appointment.patient_id.toString() !== req.user._id.toString()) {
                     return res.status(403).json({ message: 'Not authorized to cancel this appointment' });
                 }
-                appointment.status = nextStatus;
+                transitionAppointment(appointment, nextStatus, { role: 'patient', userId: req.user._id, reason });
             } else {
                 return res.status(403).json({ message: 'Not authorized to update appointment status' });
             }
@@ -338,6 +800,483 @@ router.put('/:id', protect, async (req, res) => {
         if (typeof notes !== 'undefined') appointment.notes = notes;
 
         await appointment.save();
+
+        if (appointment.status === 'confirmed' && previousStatus !== 'confirmed') {
+            await sendAppointmentConfirmation(appointment);
+        }
+
+        // A cancelled active booking is refunded per the cancellation policy and frees its slot for the next waitlisted patient
+        if (appointment.status === 'cancelled' && ['pending', 'confirmed'].includes(previousStatus)) {
+            await settleCancellation(appointment, { role: req.user.role, userId: req.user._id, reason });
+        }
+
+        res.json(appointment);
+    } catch (error) {
+        if (isSlotConflictError(error)) {
+            return res.status(409).json({ message: SLOT_TAKEN_MESSAGE });
+        }
+        if (isAppointmentTransitionError(error)) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient or doctor of the appointment: the refund cancelling it right now would give, shown before confirming.
+router.get('/:id/cancellation-quote', protect, async (req, res) => {
+    try {
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        if (req.user.role === 'doctor') {
+            const doctor = await Doctor.findOne({ user_id: req.user._id });
+            if (!doctor || doctor._id.toString() !== appointment.doctor_id.toString()) {
+                return res.status(403).json({ message: 'Not authorized to view this appointment' });
+            }
+        } else if (appointment.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to view this appointment' });
+        }
+
+        if (!['pending', 'confirmed'].includes(appointment.status)) {
+            return res.status(400).json({ message: `A ${appointment.status} appointment cannot be cancelled` });
+        }
+
+        res.json(await quoteCancellation(appointment, { role: req.user.role }));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Patient-only: fill in or update the intake questionnaire before the appointment starts.
+// Body: { intake_answers: { [questionId]: value } }, checked against the doctor's current form.
+router.put('/:id/intake', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can fill in the intake questionnaire' });
+        }
+
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        if (appointment.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to update this appointment' });
+        }
+
+        const start = appointment.start_at
+            || getAppointmentStart(appointment.appointment_date, appointment.appointment_time, appointment.timezone);
+        if (!['pending', 'confirmed'].includes(appointment.status) || start.getTime() <= Date.now()) {
+            return res.status(400).json({ message: 'The intake questionnaire can only be changed before the appointment starts' });
+        }
+
+        const doctor = await Doctor.findById(appointment.doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        const intakeCheck = await buildBookingIntake(doctor, req.body?.intake_answers ?? {}, req.user._id);
+        if (!intakeCheck.ok) {
+            return res.status(400).json({ message: intakeCheck.message });
+        }
+
+        appointment.intake = intakeCheck.intake;
+        await appointment.save();
+
+        res.json(appointment);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient-only: turn down the slot an accepted emergency moved this appointment to.
+// The patient did not choose the move, so the booking is cancelled with a full refund whatever the policy says.
+router.put('/:id/decline-rebooking', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can decline a rebooking' });
+        }
+
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        if (appointment.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to cancel this appointment' });
+        }
+
+        if (!canDeclineRebooking(appointment)) {
+            return res.status(400).json({ message: 'Only upcoming appointments moved for an emergency can be declined' });
+        }
+
+        const reason = 'Patient declined the slot offered after an emergency booking';
+        transitionAppointment(appointment, 'cancelled', { role: 'patient', userId: req.user._id, reason });
+        await appointment.save();
+
+        await settleCancellation(appointment, { role: 'system', userId: req.user._id, reason });
+
+        const doctor = await Doctor.findById(appointment.doctor_id);
+        if (doctor) {
+            try {
+                const Notification = require('../models/Notification');
+                await Notification.create({
+                    user_id: doctor.user_id,
+                    type: 'appointment_cancelled',
+                    message: `${formatPatientName(req.user.full_name)} declined the new slot on ${appointment.appointment_date} at ${appointment.appointment_time} after being moved for an emergency, so the appointment was cancelled.`,
+                    data: {
+                        appointment_id: appointment._id,
+                        appointment_date: appointment.appointment_date,
+                        appointment_time: appointment.appointment_time,
+                    },
+                });
+            } catch (notifyErr) {
+                console.error('Failed to notify doctor about declined rebooking', notifyErr);
+            }
+        }
+
+        res.json(appointment);
+    } catch (error) {
+        if (isAppointmentTransitionError(error)) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Doctor (own appointment) or admin: record that the patient or the doctor did not turn up.
+// Body: { outcome: 'no_show_patient' | 'no_show_doctor', reason? }
+router.put('/:id/no-show', protect, async (req, res) => {
+    try {
+        const { outcome, reason = '' } = req.body || {};
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        if (req.user.role === 'doctor') {
+            const doctor = await Doctor.findOne({ user_id: req.user._id });
+            if (!doctor || doctor._id.toString() !== appointment.doctor_id.toString()) {
+                return res.status(403).json({ message: 'Not authorized to update this appointment' });
+            }
+        } else if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Only the doctor or an admin can record a no-show' });
+        }
+
+        const result = await recordNoShow({
+            appointment,
+            outcome: String(outcome || '').trim().toLowerCase(),
+            actor: { role: req.user.role, userId: req.user._id },
+            reason,
+        });
+
+        res.json(result);
+    } catch (error) {
+        if (isAppointmentTransitionError(error)) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient-only: move an upcoming appointment to another free slot.
+// The appointment document (and the Payment that references it) is kept, so no re-payment is needed.
+router.put('/:id/reschedule', protect, async (req, res) => {
+    try {
+        const { appointment_date, appointment_time } = req.body || {};
+
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can reschedule appointments' });
+        }
+
+        if (!appointment_date || !appointment_time) {
+            return res.status(400).json({ message: 'appointment_date and appointment_time are required' });
+        }
+
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        if (appointment.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to reschedule this appointment' });
+        }
+
+        if (!['pending', 'confirmed'].includes(appointment.status)) {
+            return res.status(400).json({ message: `A ${appointment.status} appointment cannot be rescheduled` });
+        }
+
+        if (appointment.appointment_type === 'emergency') {
+            return res.status(400).json({ message: 'Emergency appointments cannot be rescheduled' });
+        }
+
+        if (appointment.appointment_date === appointment_date && appointment.appointment_time === appointment_time) {
+            return res.status(400).json({ message: 'Please choose a different slot' });
+        }
+
+        const cutoffHours = await getRescheduleCutoffHours();
+        const currentStart = appointment.start_at
+            || getAppointmentStart(appointment.appointment_date, appointment.appointment_time, appointment.timezone);
+        if (currentStart.getTime() - Date.now() < cutoffHours * 60 * 60 * 1000) {
+            return res.status(400).json({
+                message: `Appointments can only be rescheduled at least ${cutoffHours} hour(s) before the scheduled time`,
+            });
+        }
+
+        const doctor = await Doctor.findById(appointment.doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        // The new slot is picked from the doctor's current schedule, so it is in the doctor's current zone
+        const doctorTimezone = resolveTimezone(doctor.timezone);
+        const nextStart = getAppointmentStart(appointment_date, appointment_time, doctorTimezone);
+        if (Number.isNaN(nextStart.getTime()) || nextStart.getTime() <= Date.now()) {
+            return res.status(400).json({ message: 'Please choose a future slot' });
+        }
+
+        const slotCheck = await checkScheduledSlot({
+            doctor,
+            appointmentDate: appointment_date,
+            appointmentTime: appointment_time,
+            excludeAppointmentId: appointment._id,
+            patientId: appointment.patient_id,
+            consultationMode: appointment.consultation_mode,
+        });
+        if (!slotCheck.ok) {
+            return res.status(slotCheck.status).json({ message: slotCheck.message });
+        }
+
+        const previousDate = appointment.appointment_date;
+        const previousTime = appointment.appointment_time;
+        const previousStart = { start_at: currentStart, timezone: appointment.timezone };
+
+        appointment.reschedule_history.push({
+            from_date: previousDate,
+            from_time: previousTime,
+            to_date: appointment_date,
+            to_time: appointment_time,
+            rescheduled_by: req.user._id,
+            rescheduled_at: new Date(),
+        });
+        appointment.appointment_date = appointment_date;
+        appointment.appointment_time = appointment_time;
+        appointment.timezone = doctorTimezone;
+        appointment.duration_minutes = slotCheck.slotDuration;
+        appointment.meeting_time = null;
+
+        // A meeting created for the old slot is stale; the doctor regenerates it for the new time.
+        if (appointment.video?.meetingId) {
+            appointment.video.meetingId = null;
+            appointment.video.doctorJoinUrl = null;
+            appointment.video.patientJoinUrl = null;
+            appointment.video.enabled = false;
+            appointment.video.enabledAt = null;
+            appointment.video.doctorInCall = false;
+            appointment.zoom_join_url = null;
+        }
+
+        await appointment.save();
+        await markWaitlistBooked({
+            doctorId: doctor._id,
+            patientId: appointment.patient_id,
+            date: appointment_date,
+            appointmentId: appointment._id,
+            bookedTime: appointment_time,
+        });
+        await releaseSlotToWaitlist({ doctor_id: doctor._id, appointment_date: previousDate, appointment_time: previousTime });
+
+        try {
+            const Notification = require('../models/Notification');
+            const doctorUser = await User.findById(doctor.user_id).select('full_name email locale timezone');
+            const patientName = formatPatientName(req.user.full_name);
+            const previousView = formatAppointmentForViewer(previousStart, doctorUser?.timezone);
+            const nextView = formatAppointmentForViewer(appointment, doctorUser?.timezone);
+
+            if (doctorUser?._id) {
+                await Notification.create({
+                    user_id: doctorUser._id,
+                    type: 'appointment_rescheduled',
+                    message: `${patientName} rescheduled their appointment from ${previousView.date} at ${previousView.time} to ${nextView.date} at ${nextView.time}.`,
+                    data: {
+                        appointment_id: appointment._id,
+                        previous_date: previousDate,
+                        previous_time: previousTime,
+                        appointment_date,
+                        appointment_time,
+                        patient_id: req.user._id,
+                    },
+                });
+            }
+
+            if (doctorUser?.email) {
+                const resolved = renderEmailWithFallback({
+                    locale: doctorUser.locale || 'en',
+                    templateName: 'appointment_rescheduled_doctor',
+                    context: {
+                        doctor: doctorUser.full_name || 'Doctor',
+                        patient: patientName,
+                        previous_date: previousView.date,
+                        previous_time: previousView.time,
+                        date: nextView.date,
+                        time: nextView.time,
+                    },
+                });
+
+                await sendEmail({
+                    to: doctorUser.email,
+                    subject: `Appointment Rescheduled - ${nextView.date} ${nextView.time}`,
+                    text: resolved.text,
+                    html: resolved.html,
+                });
+            }
+        } catch (notifyErr) {
+            console.error('Failed to notify doctor for rescheduled appointment', notifyErr);
+        }
+
+        res.json(appointment);
+    } catch (error) {
+        if (isSlotConflictError(error)) {
+            return res.status(409).json({ message: SLOT_TAKEN_MESSAGE });
+        }
+        console.error(error);
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Primary doctor: invite another verified doctor (again, if they declined) to join the appointment. Body: { doctor_id }
+router.post('/:id/consultants', protect, async (req, res) => {
+    try {
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        const doctor = await Doctor.findOne({ user_id: req.user._id }).populate('user_id', 'full_name');
+        if (req.user.role !== 'doctor' || !doctor || doctor._id.toString() !== appointment.doctor_id.toString()) {
+            return res.status(403).json({ message: 'Only the appointment\'s doctor can invite consulting doctors' });
+        }
+        if (!canChangeConsultants(appointment)) {
+            return res.status(400).json({ message: 'Consulting doctors can only be invited before the appointment starts' });
+        }
+
+        const inviteeId = String(req.body?.doctor_id || '');
+        if (!mongoose.Types.ObjectId.isValid(inviteeId) || inviteeId === doctor._id.toString()) {
+            return res.status(400).json({ message: 'Choose another doctor to invite' });
+        }
+        const invitee = await Doctor.findById(inviteeId);
+        if (!invitee || !invitee.is_verified) {
+            return res.status(404).json({ message: 'Doctor not found' });
+        }
+
+        const existing = findConsultant(appointment, invitee._id);
+        if (existing && existing.status !== 'declined') {
+            return res.status(409).json({ message: 'This doctor has already been invited' });
+        }
+        const activeCount = appointment.consulting_doctors.filter((c) => c.status !== 'declined').length;
+        if (activeCount >= MAX_CONSULTING_DOCTORS) {
+            return res.status(400).json({ message: `An appointment can have at most ${MAX_CONSULTING_DOCTORS} consulting doctors` });
+        }
+
+        if (existing) {
+            existing.status = 'invited';
+            existing.invited_at = new Date();
+            existing.responded_at = null;
+        } else {
+            appointment.consulting_doctors.push({ doctor_id: invitee._id });
+        }
+        await appointment.save();
+
+        try {
+            const Notification = require('../models/Notification');
+            await Notification.create({
+                user_id: invitee.user_id,
+                type: 'consultation_invite',
+                message: `${formatDoctorName(doctor.user_id?.full_name)} invited you to consult on an appointment on ${appointment.appointment_date} at ${appointment.appointment_time}.`,
+                data: { appointment_id: appointment._id },
+            });
+        } catch (notifyErr) {
+            console.error('Failed to notify invited doctor', notifyErr);
+        }
+
+        res.status(201).json(appointment);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Invited doctor: accept or decline the invitation. Body: { accept: boolean }
+router.put('/:id/consultants/respond', protect, async (req, res) => {
+    try {
+        const appointment = await Appointment.findById(req.params.id)
+            .populate({ path: 'doctor_id', select: 'user_id' });
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        const doctor = req.user.role === 'doctor'
+            ? await Doctor.findOne({ user_id: req.user._id }).populate('user_id', 'full_name')
+            : null;
+        const consultant = doctor ? findConsultant(appointment, doctor._id) : null;
+        if (!consultant || consultant.status !== 'invited') {
+            return res.status(404).json({ message: 'No open invitation for this appointment' });
+        }
+        if (!canChangeConsultants(appointment)) {
+            return res.status(400).json({ message: 'This appointment can no longer be joined' });
+        }
+
+        const accepted = Boolean(req.body?.accept);
+        consultant.status = accepted ? 'accepted' : 'declined';
+        consultant.responded_at = new Date();
+        await appointment.save();
+
+        try {
+            const Notification = require('../models/Notification');
+            const doctorName = formatDoctorName(doctor.user_id?.full_name);
+            const data = { appointment_id: appointment._id };
+            await Notification.create({
+                user_id: appointment.doctor_id.user_id,
+                type: accepted ? 'consultation_accepted' : 'consultation_declined',
+                message: `${doctorName} ${accepted ? 'accepted' : 'declined'} your invitation to consult on the appointment on ${appointment.appointment_date} at ${appointment.appointment_time}.`,
+                data,
+            });
+            if (accepted) {
+                await Notification.create({
+                    user_id: appointment.patient_id,
+                    type: 'consultation_accepted',
+                    message: `${doctorName} will join your appointment on ${appointment.appointment_date} at ${appointment.appointment_time} as a consulting doctor.`,
+                    data,
+                });
+            }
+        } catch (notifyErr) {
+            console.error('Failed to notify about consultation response', notifyErr);
+        }
+
+        res.json({ ...appointment.toObject(), consultation_status: consultant.status });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Primary doctor: withdraw an invitation or remove a consulting doctor before the appointment starts
+router.delete('/:id/consultants/:doctorId', protect, async (req, res) => {
+    try {
+        const appointment = await Appointment.findById(req.params.id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        const doctor = await Doctor.findOne({ user_id: req.user._id });
+        if (req.user.role !== 'doctor' || !doctor || doctor._id.toString() !== appointment.doctor_id.toString()) {
+            return res.status(403).json({ message: 'Only the appointment\'s doctor can remove consulting doctors' });
+        }
+        if (!canChangeConsultants(appointment)) {
+            return res.status(400).json({ message: 'Consulting doctors can only be removed before the appointment starts' });
+        }
+
+        const consultant = findConsultant(appointment, req.params.doctorId);
+        if (!consultant) return res.status(404).json({ message: 'Consulting doctor not found' });
+
+        appointment.consulting_doctors.pull(consultant);
+        await appointment.save();
+
+        try {
+            const removed = await Doctor.findById(consultant.doctor_id).select('user_id');
+            if (removed) {
+                const Notification = require('../models/Notification');
+                await Notification.create({
+                    user_id: removed.user_id,
+                    type: 'consultation_removed',
+                    message: `You are no longer consulting on the appointment on ${appointment.appointment_date} at ${appointment.appointment_time}.`,
+                    data: { appointment_id: appointment._id },
+                });
+            }
+        } catch (notifyErr) {
+            console.error('Failed to notify removed consulting doctor', notifyErr);
+        }
+
         res.json(appointment);
     } catch (error) {
         res.status(400).json({ message: error.message });
@@ -349,13 +1288,13 @@ router.put('/:id/permissions', protect, async (req, res) => {
     try {
         const { chat_unlocked, video_unlocked, zoom_join_url, auto_send, meeting_provider, meeting_time } = req.body;
         const appointment = await Appointment.findById(req.params.id)
-            .populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name email locale' } })
-            .populate({ path: 'patient_id', select: 'full_name email locale' });
+            .populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name email locale timezone' } })
+            .populate({ path: 'patient_id', select: 'full_name email locale timezone' });
         if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
 
         // Only the doctor who owns this appointment can change permissions
         const doctor = await Doctor.findById(appointment.doctor_id._id || appointment.doctor_id)
-            .populate('user_id', 'full_name email locale');
+            .populate('user_id', 'full_name email locale timezone');
         if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
         const doctorUserId = doctor.user_id?._id || doctor.user_id;
         if (req.user.role !== 'doctor' || req.user._id.toString() !== doctorUserId.toString()) {
@@ -400,6 +1339,10 @@ router.put('/:id/permissions', protect, async (req, res) => {
             appointment.meeting_time = meeting_time || null;
         }
 
+        if (video_unlocked && !isVideoConsultation(appointment)) {
+            return res.status(400).json({ message: NOT_VIDEO_MESSAGE });
+        }
+
         if (typeof video_unlocked !== 'undefined') {
             appointment.video_unlocked = !!video_unlocked;
             if (appointment.video_unlocked) {
@@ -419,6 +1362,9 @@ router.put('/:id/permissions', protect, async (req, res) => {
                                     doctorName: formatDoctorName(doctor.user_id?.full_name),
                                     appointment_date: appointment.appointment_date,
                                     appointment_time: appointment.appointment_time,
+                                    start_at: appointment.start_at,
+                                    timezone: appointment.timezone,
+                                    duration_minutes: appointment.duration_minutes,
                                 });
                                 appointment.video = {
                                     ...newMeeting,
@@ -438,12 +1384,14 @@ router.put('/:id/permissions', protect, async (req, res) => {
                     // Render localized templates and create notifications for both users
                     const localePatient = (appointment.patient_id && appointment.patient_id.locale) || 'en';
                     const localeDoctor = (doctor.user_id && doctor.user_id.locale) || 'en';
+                    const patientView = formatAppointmentForViewer(appointment, appointment.patient_id?.timezone);
+                    const doctorView = formatAppointmentForViewer(appointment, doctor.user_id?.timezone);
 
                     const patientContext = {
                         name: appointment.patient_id.full_name || appointment.patient_id.email,
                         doctor: doctor.user_id?.full_name || 'Doctor',
-                        date: appointment.appointment_date,
-                        time: appointment.appointment_time,
+                        date: patientView.date,
+                        time: patientView.time,
                         link: appointment.zoom_join_url,
                     };
                     // Email body: template-first with safe inline fallback.
@@ -456,8 +1404,8 @@ router.put('/:id/permissions', protect, async (req, res) => {
                     const doctorContext = {
                         name: doctor.user_id?.full_name || doctor.user_id?.email,
                         doctor: doctor.user_id?.full_name || 'Doctor',
-                        date: appointment.appointment_date,
-                        time: appointment.appointment_time,
+                        date: doctorView.date,
+                        time: doctorView.time,
                         link: appointment.zoom_join_url,
                     };
                     const doctorResolved = renderEmailWithFallback({
@@ -466,20 +1414,28 @@ router.put('/:id/permissions', protect, async (req, res) => {
                         context: doctorContext,
                     });
 
-                    await Notification.create({ user_id: appointment.patient_id, type: 'video_link', message: `${doctorName} shared your video consultation link for ${appointment.appointment_date} at ${appointment.appointment_time}.`, data: { appointment_id: appointment._id, zoom_join_url: appointment.zoom_join_url } });
-                    await Notification.create({ user_id: doctorUserId, type: 'video_link', message: `You shared a video consultation link with ${patientName} for ${appointment.appointment_date} at ${appointment.appointment_time}.`, data: { appointment_id: appointment._id, zoom_join_url: appointment.zoom_join_url } });
+                    await Notification.create({ user_id: appointment.patient_id, type: 'video_link', message: `${doctorName} shared your video consultation link for ${patientView.date} at ${patientView.time}.`, data: { appointment_id: appointment._id, zoom_join_url: appointment.zoom_join_url } });
+                    await Notification.create({ user_id: doctorUserId, type: 'video_link', message: `You shared a video consultation link with ${patientName} for ${doctorView.date} at ${doctorView.time}.`, data: { appointment_id: appointment._id, zoom_join_url: appointment.zoom_join_url } });
+
+                    // Consulting doctors join through the same link as the patient
+                    const consultants = await Doctor.find({
+                        _id: { $in: getAcceptedConsultants(appointment).map((c) => c.doctor_id) },
+                    }).select('user_id');
+                    for (const consultant of consultants) {
+                        await Notification.create({ user_id: consultant.user_id, type: 'video_link', message: `${doctorName} shared the video consultation link for ${patientName} on ${appointment.appointment_date} at ${appointment.appointment_time}.`, data: { appointment_id: appointment._id, zoom_join_url: appointment.zoom_join_url } });
+                    }
 
                     // Do not block permission update on email failures.
                     await Promise.allSettled([
                         sendEmail({
                             to: appointment.patient_id.email,
-                            subject: `Video Call Link for ${appointment.appointment_date}`,
+                            subject: `Video Call Link for ${patientView.date}`,
                             text: patientResolved.text,
                             html: patientResolved.html,
                         }),
                         sendEmail({
                             to: doctor.user_id?.email,
-                            subject: `Video Call Enabled - ${appointment.appointment_date}`,
+                            subject: `Video Call Enabled - ${doctorView.date}`,
                             text: doctorResolved.text,
                             html: doctorResolved.html,
                         }),
@@ -528,6 +1484,10 @@ router.patch('/:id/video-toggle', protect, async (req, res) => {
         const wasEnabled = appointment.video.enabled;
         const nowEnabled = !wasEnabled;
 
+        if (nowEnabled && !isVideoConsultation(appointment)) {
+            return res.status(400).json({ message: NOT_VIDEO_MESSAGE });
+        }
+
         if (nowEnabled) {
             // Create a fresh Zoom meeting on-demand when doctor enables video
             try {
@@ -537,6 +1497,9 @@ router.patch('/:id/video-toggle', protect, async (req, res) => {
                     doctorName: formatDoctorName(appointment.doctor_id?.user_id?.full_name),
                     appointment_date: appointment.appointment_date,
                     appointment_time: appointment.appointment_time,
+                    start_at: appointment.start_at,
+                    timezone: appointment.timezone,
+                    duration_minutes: appointment.duration_minutes,
                 });
                 appointment.video = {
                     ...zoomMeeting,
@@ -599,6 +1562,9 @@ router.patch('/:id/doctor-join-call', protect, async (req, res) => {
         }
 
         appointment.video.doctorInCall = true;
+        if (!appointment.video.doctorJoinedAt) {
+            appointment.video.doctorJoinedAt = new Date();
+        }
         await appointment.save();
 
         try {
@@ -719,6 +1685,10 @@ router.patch('/:id/refresh-zoom-meeting', protect, async (req, res) => {
             return res.status(403).json({ message: 'Not authorized to refresh meeting' });
         }
 
+        if (!isVideoConsultation(appointment)) {
+            return res.status(400).json({ message: NOT_VIDEO_MESSAGE });
+        }
+
         // Create new Zoom meeting
         const patient = await User.findById(appointment.patient_id);
         const zoomMeeting = await zoomService.createMeeting({
@@ -726,6 +1696,9 @@ router.patch('/:id/refresh-zoom-meeting', protect, async (req, res) => {
             doctorName: formatDoctorName(appointment.doctor_id?.user_id?.full_name),
             appointment_date: appointment.appointment_date,
             appointment_time: appointment.appointment_time,
+            start_at: appointment.start_at,
+            timezone: appointment.timezone,
+            duration_minutes: appointment.duration_minutes,
         });
 
         appointment.video = {
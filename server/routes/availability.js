@@ -1,46 +1,213 @@
 // Availability route:
-// Manages doctor availability slots used for appointment booking validation.
+// Manages doctor weekly availability windows and date-specific overrides used for appointment booking validation.
 const express = require('express');
 const router = express.Router();
 const Availability = require('../models/Availability');
+const AvailabilityOverride = require('../models/AvailabilityOverride');
+const Doctor = require('../models/Doctor');
 const { protect } = require('../middleware/authMiddleware');
+const { toMinutes, getDoctorSlotSettings, getSlotStartTimes } = require('../utils/appointmentSlots');
+const { checkConsultationModeOffered } = require('../utils/consultationModes');
+const { canManageDoctor } = require('../utils/organizations');
 
-// Get availability for a doctor
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Returns an error message when start/end are not a valid HH:MM range, otherwise null.
+function validateTimeRange(startTime, endTime) {
+    if (!TIME_PATTERN.test(String(startTime || '')) || !TIME_PATTERN.test(String(endTime || ''))) {
+        return 'Times must be in HH:MM format';
+    }
+    if (toMinutes(startTime) >= toMinutes(endTime)) {
+        return 'End time must be after start time';
+    }
+    return null;
+}
+
+// A window may be limited to one mode the doctor offers; empty means every mode.
+// Returns { mode } (null for every mode) or { error }.
+function resolveWindowMode(doctor, consultationMode) {
+    if (consultationMode === undefined || consultationMode === null || consultationMode === '') {
+        return { mode: null };
+    }
+    const error = checkConsultationModeOffered(doctor, consultationMode);
+    return error ? { error } : { mode: consultationMode };
+}
+
+// Windows on the same weekday must not overlap, otherwise slots would be generated twice.
+async function findOverlappingWindow({ doctorId, dayOfWeek, startTime, endTime, excludeId = null }) {
+    const query = { doctor_id: doctorId, day_of_week: dayOfWeek };
+    if (excludeId) {
+        query._id = { $ne: excludeId };
+    }
+    const windows = await Availability.find(query);
+    return windows.find((w) => toMinutes(startTime) < toMinutes(w.end_time) && toMinutes(w.start_time) < toMinutes(endTime));
+}
+
+// Doctors edit their own profile; clinic admins pass the doctor_id of a member of their organization.
+async function resolveManagedDoctor(user, doctorId) {
+    if (user.role === 'doctor') {
+        const doctor = await Doctor.findOne({ user_id: user._id });
+        if (!doctor) return { status: 404, message: 'Doctor profile not found' };
+        if (doctorId && String(doctor._id) !== String(doctorId)) {
+            return { status: 403, message: 'You can only modify availability for your own profile' };
+        }
+        return { doctor };
+    }
+
+    if (user.role === 'clinic_admin') {
+        const doctor = doctorId ? await Doctor.findById(doctorId) : null;
+        if (!doctor) return { status: 404, message: 'Doctor profile not found' };
+        if (!(await canManageDoctor(user, doctor))) {
+            return { status: 403, message: 'This doctor is not part of your organization' };
+        }
+        return { doctor };
+    }
+
+    return { status: 403, message: 'Only doctors and clinic admins can manage availability' };
+}
+
+// Get availability for a doctor.
+// Each window carries the server-computed slot start times for the doctor's slot length and buffer.
 router.get('/:doctorId', async (req, res) => {
     try {
-        const availability = await Availability.find({ doctor_id: req.params.doctorId }).sort('day_of_week');
-        res.json(availability);
+        const availability = await Availability.find({ doctor_id: req.params.doctorId }).sort({ day_of_week: 1, start_time: 1 });
+        const doctor = await Doctor.findById(req.params.doctorId).select('slot_duration_minutes buffer_minutes');
+        const { slotDuration, bufferMinutes } = getDoctorSlotSettings(doctor);
+
+        res.json(availability.map((window) => ({
+            ...window.toObject(),
+            slot_times: getSlotStartTimes({
+                startTime: window.start_time,
+                endTime: window.end_time,
+                slotDuration,
+                bufferMinutes,
+            }),
+        })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Get date overrides (leave / extra hours) for a doctor, optionally limited to ?from=&to= (YYYY-MM-DD).
+router.get('/:doctorId/overrides', async (req, res) => {
+    try {
+        const { from, to } = req.query;
+        const query = { doctor_id: req.params.doctorId };
+        if (from || to) {
+            if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+                return res.status(400).json({ message: 'Dates must be in YYYY-MM-DD format' });
+            }
+            query.date = {};
+            if (from) query.date.$gte = from;
+            if (to) query.date.$lte = to;
+        }
+
+        const overrides = await AvailabilityOverride.find(query).sort({ date: 1, start_time: 1 });
+        res.json(overrides);
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
 });
 
-// Update/Create availability (Batch update or single?)
-// Frontend iterates and updates/inserts individually.
-// Let's support both or just stick to single for simplicity matching frontend.
-// "updateSlot" -> calls update or insert.
+// Add a date override. Leave without times blocks the whole date; extra hours need a time range.
+router.post('/overrides', protect, async (req, res) => {
+    try {
+        const { doctor_id, date, kind, start_time, end_time, reason } = req.body;
+
+        const { doctor, status, message } = await resolveManagedDoctor(req.user, doctor_id);
+        if (!doctor) {
+            return res.status(status).json({ message });
+        }
+
+        if (!DATE_PATTERN.test(String(date || ''))) {
+            return res.status(400).json({ message: 'Date must be in YYYY-MM-DD format' });
+        }
+        if (!['leave', 'extra_hours'].includes(kind)) {
+            return res.status(400).json({ message: 'Override kind must be leave or extra_hours' });
+        }
+
+        const hasTimes = Boolean(start_time || end_time);
+        if (kind === 'extra_hours' && !hasTimes) {
+            return res.status(400).json({ message: 'Extra hours need a start and end time' });
+        }
+        if (hasTimes) {
+            const rangeError = validateTimeRange(start_time, end_time);
+            if (rangeError) {
+                return res.status(400).json({ message: rangeError });
+            }
+        }
+
+        const override = await AvailabilityOverride.create({
+            doctor_id: doctor._id,
+            date,
+            kind,
+            start_time: hasTimes ? start_time : null,
+            end_time: hasTimes ? end_time : null,
+            reason: reason || '',
+        });
+        res.status(201).json(override);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+router.delete('/overrides/:id', protect, async (req, res) => {
+    try {
+        const override = await AvailabilityOverride.findById(req.params.id);
+        if (!override) {
+            return res.status(404).json({ message: 'Override not found' });
+        }
+
+        if (!(await canManageDoctor(req.user, override.doctor_id))) {
+            return res.status(403).json({ message: 'You can only modify your own availability' });
+        }
 
+        await override.deleteOne();
+        res.json({ message: 'Override removed' });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Create one weekly window. A day can hold several non-overlapping windows.
 router.post('/', protect, async (req, res) => {
     try {
-        const { doctor_id, day_of_week, start_time, end_time, is_available } = req.body;
+        const { doctor_id, day_of_week, start_time, end_time, is_available, consultation_mode } = req.body;
 
-        // Only doctors can create availability and only for their own profile
-        if (req.user.role !== 'doctor') {
-            return res.status(403).json({ message: 'Only doctors can manage availability' });
+        // Doctors manage their own profile, clinic admins the doctors of their organization
+        const { doctor, status, message } = await resolveManagedDoctor(req.user, doctor_id);
+        if (!doctor) {
+            return res.status(status).json({ message });
         }
 
-        const Doctor = require('../models/Doctor');
-        const doctor = await Doctor.findOne({ user_id: req.user._id });
-        if (!doctor || String(doctor._id) !== String(doctor_id)) {
-            return res.status(403).json({ message: 'You can only modify availability for your own profile' });
+        const rangeError = validateTimeRange(start_time, end_time);
+        if (rangeError) {
+            return res.status(400).json({ message: rangeError });
+        }
+
+        const { mode, error: modeError } = resolveWindowMode(doctor, consultation_mode);
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
+        const overlapping = await findOverlappingWindow({
+            doctorId: doctor._id,
+            dayOfWeek: day_of_week,
+            startTime: start_time,
+            endTime: end_time,
+        });
+        if (overlapping) {
+            return res.status(400).json({ message: 'This window overlaps another window on the same day' });
         }
 
         const availability = await Availability.create({
-            doctor_id,
+            doctor_id: doctor._id,
             day_of_week,
             start_time,
             end_time,
-            is_available
+            is_available,
+            consultation_mode: mode,
         });
         res.status(201).json(availability);
     } catch (error) {
@@ -50,7 +217,7 @@ router.post('/', protect, async (req, res) => {
 
 router.put('/:id', protect, async (req, res) => {
     try {
-        const { start_time, end_time, is_available } = req.body;
+        const { start_time, end_time, is_available, consultation_mode } = req.body;
         const availability = await Availability.findById(req.params.id);
 
         if (!availability) {
@@ -58,15 +225,42 @@ router.put('/:id', protect, async (req, res) => {
         }
 
         // Ensure the requesting user owns the doctor profile for this availability
-        const Doctor = require('../models/Doctor');
-        const doctor = await Doctor.findById(availability.doctor_id);
-        if (!doctor || String(doctor.user_id) !== String(req.user._id)) {
+        if (!(await canManageDoctor(req.user, availability.doctor_id))) {
             return res.status(403).json({ message: 'You can only modify your own availability' });
         }
 
-        availability.start_time = start_time || availability.start_time;
-        availability.end_time = end_time || availability.end_time;
+        const nextStart = start_time || availability.start_time;
+        const nextEnd = end_time || availability.end_time;
+        const rangeError = validateTimeRange(nextStart, nextEnd);
+        if (rangeError) {
+            return res.status(400).json({ message: rangeError });
+        }
+
+        let nextMode = availability.consultation_mode;
+        if (consultation_mode !== undefined) {
+            const doctor = await Doctor.findById(availability.doctor_id).select('consultation_modes');
+            const { mode, error: modeError } = resolveWindowMode(doctor, consultation_mode);
+            if (modeError) {
+                return res.status(400).json({ message: modeError });
+            }
+            nextMode = mode;
+        }
+
+        const overlapping = await findOverlappingWindow({
+            doctorId: availability.doctor_id,
+            dayOfWeek: availability.day_of_week,
+            startTime: nextStart,
+            endTime: nextEnd,
+            excludeId: availability._id,
+        });
+        if (overlapping) {
+            return res.status(400).json({ message: 'This window overlaps another window on the same day' });
+        }
+
+        availability.start_time = nextStart;
+        availability.end_time = nextEnd;
         availability.is_available = is_available !== undefined ? is_available : availability.is_available;
+        availability.consultation_mode = nextMode;
 
         const updated = await availability.save();
         res.json(updated);
@@ -75,4 +269,22 @@ router.put('/:id', protect, async (req, res) => {
     }
 });
 
+router.delete('/:id', protect, async (req, res) => {
+    try {
+        const availability = await Availability.findById(req.params.id);
+        if (!availability) {
+            return res.status(404).json({ message: 'Availability not found' });
+        }
+
+        if (!(await canManageDoctor(req.user, availability.doctor_id))) {
+            return res.status(403).json({ message: 'You can only modify your own availability' });
+        }
+
+        await availability.deleteOne();
+        res.json({ message: 'Availability window removed' });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
 module.exports = router;
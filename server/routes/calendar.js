@@ -0,0 +1,147 @@
+// Calendar route:
+// iCalendar export of appointments: a .ics download per appointment and a per-user subscription feed.
+// The feed is authenticated by the secret token in its URL instead of a Bearer token, since calendar clients
+// poll it on their own.
+const crypto = require('crypto');
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const User = require('../models/User');
+const { protect } = require('../middleware/authMiddleware');
+const { cancelExpiredUnpaidAppointments } = require('../utils/cron-jobs');
+const { isConsultationDoctor } = require('../utils/consultations');
+const { buildAppointmentEvent, buildCalendar } = require('../utils/icalendar');
+
+// The feed keeps appointments that started within this window so ongoing ones stay visible
+const FEED_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+function populateForCalendar(query) {
+    return query
+        .populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name' } })
+        .populate('patient_id', 'full_name');
+}
+
+function generateFeedToken() {
+    return crypto.randomBytes(24).toString('hex');
+}
+
+// Relative to the API base URL, e.g. /calendar/feed/<token>.ics
+function buildFeedPath(token) {
+    return `/calendar/feed/${token}.ics`;
+}
+
+function sendCalendar(res, calendar, filename) {
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    if (filename) {
+        res.set('Content-Disposition', `attachment; filename="${filename}"`);
+    }
+    res.send(calendar);
+}
+
+// How `user` sees the appointment, or null when they take no part in it
+function getViewer(appointment, user, doctorProfile) {
+    if (user.role === 'patient') {
+        const patientId = appointment.patient_id?._id || appointment.patient_id;
+        return String(patientId) === String(user._id) ? { role: 'patient', isPrimaryDoctor: false } : null;
+    }
+    if (user.role === 'doctor' && doctorProfile && isConsultationDoctor(appointment, doctorProfile._id)) {
+        const primaryDoctorId = appointment.doctor_id?._id || appointment.doctor_id;
+        return { role: 'doctor', isPrimaryDoctor: String(primaryDoctorId) === String(doctorProfile._id) };
+    }
+    return null;
+}
+
+// Upcoming appointments of the user, cancelled ones included so subscribed calendars drop them
+async function findFeedAppointments(user, doctorProfile) {
+    const upcoming = { start_at: { $gte: new Date(Date.now() - FEED_LOOKBACK_MS) } };
+    if (user.role === 'patient') {
+        return populateForCalendar(Appointment.find({ ...upcoming, patient_id: user._id })).sort({ start_at: 1 });
+    }
+    if (user.role === 'doctor' && doctorProfile) {
+        return populateForCalendar(Appointment.find({
+            ...upcoming,
+            $or: [
+                { doctor_id: doctorProfile._id },
+                { consulting_doctors: { $elemMatch: { doctor_id: doctorProfile._id, status: 'accepted' } } },
+            ],
+        })).sort({ start_at: 1 });
+    }
+    return [];
+}
+
+// Download one appointment as an .ics file
+router.get('/appointments/:id.ics', protect, async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Appointment not found' });
+        }
+        const appointment = await populateForCalendar(Appointment.findById(req.params.id));
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        const doctorProfile = req.user.role === 'doctor' ? await Doctor.findOne({ user_id: req.user._id }) : null;
+        const viewer = getViewer(appointment, req.user, doctorProfile);
+        if (!viewer) {
+            return res.status(403).json({ message: 'Not authorized to export this appointment' });
+        }
+
+        const event = buildAppointmentEvent(appointment, viewer);
+        if (!event) {
+            return res.status(400).json({ message: 'This appointment has no start time' });
+        }
+        sendCalendar(res, buildCalendar([event]), `appointment-${appointment.appointment_date}.ics`);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// The signed-in user's subscription URL path, creating the token on first use
+router.get('/feed-url', protect, async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id).select('+calendar_feed_token');
+        if (!user.calendar_feed_token) {
+            user.calendar_feed_token = generateFeedToken();
+            await user.save();
+        }
+        res.json({ feed_path: buildFeedPath(user.calendar_feed_token) });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Replace the token, e.g. after the URL was shared by mistake; the old URL stops working
+router.post('/feed-url/reset', protect, async (req, res) => {
+    try {
+        const user = await User.findById(req.user._id);
+        user.calendar_feed_token = generateFeedToken();
+        await user.save();
+        res.json({ feed_path: buildFeedPath(user.calendar_feed_token) });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Public subscription feed
+router.get('/feed/:token.ics', async (req, res) => {
+    try {
+        const token = String(req.params.token || '');
+        const user = token ? await User.findOne({ calendar_feed_token: token }) : null;
+        if (!user) return res.status(404).json({ message: 'Calendar feed not found' });
+
+        await cancelExpiredUnpaidAppointments();
+
+        const doctorProfile = user.role === 'doctor' ? await Doctor.findOne({ user_id: user._id }) : null;
+        const appointments = await findFeedAppointments(user, doctorProfile);
+        const events = appointments.map((appointment) => {
+            const viewer = getViewer(appointment, user, doctorProfile);
+            return viewer ? buildAppointmentEvent(appointment, viewer) : null;
+        });
+
+        sendCalendar(res, buildCalendar(events));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,113 @@
+// Dependents route:
+// Lets patients manage the family members (children, parents, ...) they book appointments and keep
+// medical records for.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const { protect } = require('../middleware/authMiddleware');
+const {
+    MAX_DEPENDENTS,
+    serializeDependent,
+    validateDependentInput,
+} = require('../utils/dependents');
+
+function requirePatient(req, res) {
+    if (req.user.role !== 'patient') {
+        res.status(403).json({ message: 'Only patients can manage dependents' });
+        return false;
+    }
+    return true;
+}
+
+// Loads one of the signed-in patient's dependents, or sends 404 and returns null
+function findDependent(req, res) {
+    const dependent = mongoose.isValidObjectId(req.params.id) ? req.user.dependents.id(req.params.id) : null;
+    if (!dependent) {
+        res.status(404).json({ message: 'Dependent not found' });
+        return null;
+    }
+    return dependent;
+}
+
+router.get('/', protect, async (req, res) => {
+    try {
+        if (!requirePatient(req, res)) return;
+        res.json((req.user.dependents || []).map(serializeDependent));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Body: { full_name, date_of_birth, relation }
+router.post('/', protect, async (req, res) => {
+    try {
+        if (!requirePatient(req, res)) return;
+
+        const { full_name, date_of_birth, relation } = req.body || {};
+        const validationError = validateDependentInput({ full_name, date_of_birth, relation });
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+        if (req.user.dependents.length >= MAX_DEPENDENTS) {
+            return res.status(400).json({ message: `You can add at most ${MAX_DEPENDENTS} dependents` });
+        }
+
+        req.user.dependents.push({ full_name: full_name.trim(), date_of_birth, relation });
+        await req.user.save();
+
+        res.status(201).json(serializeDependent(req.user.dependents[req.user.dependents.length - 1]));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Changes apply to future bookings; existing appointments and prescriptions keep the details they were made with
+router.put('/:id', protect, async (req, res) => {
+    try {
+        if (!requirePatient(req, res)) return;
+        const dependent = findDependent(req, res);
+        if (!dependent) return;
+
+        const { full_name, date_of_birth, relation } = req.body || {};
+        const validationError = validateDependentInput({ full_name, date_of_birth, relation }, { partial: true });
+        if (validationError) {
+            return res.status(400).json({ message: validationError });
+        }
+
+        if (full_name !== undefined) dependent.full_name = full_name.trim();
+        if (date_of_birth !== undefined) dependent.date_of_birth = date_of_birth;
+        if (relation !== undefined) dependent.relation = relation;
+        await req.user.save();
+
+        res.json(serializeDependent(dependent));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+router.delete('/:id', protect, async (req, res) => {
+    try {
+        if (!requirePatient(req, res)) return;
+        const dependent = findDependent(req, res);
+        if (!dependent) return;
+
+        const upcoming = await Appointment.exists({
+            patient_id: req.user._id,
+            'dependent.dependent_id': dependent._id,
+            status: { $in: ['pending', 'confirmed'] },
+        });
+        if (upcoming) {
+            return res.status(409).json({ message: 'Cancel this dependent\'s upcoming appointments before removing them' });
+        }
+
+        dependent.deleteOne();
+        await req.user.save();
+
+        res.json({ deleted: true });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+module.exports = router;
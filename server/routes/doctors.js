@@ -8,10 +8,24 @@ const Notification = require('../models/Notification');
 const { sendEmail } = require('../services/emailService');
 const { renderEmailWithFallback } = require('../utils/emailTemplates');
 const { protect } = require('../middleware/authMiddleware');
+const { addDays, listDoctorSlots } = require('../utils/appointmentSlots');
+const { normalizeCancellationPolicy, validateCancellationPolicy } = require('../utils/cancellationPolicy');
+const { isConsultationMode, validateConsultationModeSettings } = require('../utils/consultationModes');
+const { canManageDoctor, isClinicAdmin } = require('../utils/organizations');
+const { getTodayInTimezone } = require('../utils/timezones');
+
+const MAX_SLOT_RANGE_DAYS = 31;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CLINIC_ADMIN_EDITABLE_FIELDS = ['slot_duration_minutes', 'buffer_minutes', 'timezone'];
 
 // Register a doctor
 router.post('/', protect, async (req, res) => {
     try {
+        const modeError = validateConsultationModeSettings(req.body || {});
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
         const doctor = await Doctor.create(req.body);
 
         try {
@@ -47,13 +61,21 @@ router.post('/', protect, async (req, res) => {
 // Keeping / as verified only for safety default
 router.get('/', async (req, res) => {
     try {
-        const { state } = req.query;
+        const { state, organization_id } = req.query;
         const filter = { is_verified: true };
         if (state) {
             // Case-insensitive partial match for state
             filter.state = new RegExp(state, 'i');
         }
-        const doctors = await Doctor.find(filter).populate('user_id', 'full_name email avatar_url');
+        if (organization_id) {
+            if (!mongoose.isValidObjectId(organization_id)) {
+                return res.status(400).json({ message: 'Invalid organization id' });
+            }
+            filter.organization_id = organization_id;
+        }
+        const doctors = await Doctor.find(filter)
+            .populate('user_id', 'full_name email avatar_url')
+            .populate('organization_id', 'name');
         res.json(doctors);
     } catch (error) {
         res.status(500).json({ message: error.message });
@@ -63,7 +85,9 @@ router.get('/', async (req, res) => {
 // Get doctor by doctor id (public)
 router.get('/:id', async (req, res) => {
     try {
-        const doctor = await Doctor.findById(req.params.id).populate('user_id', 'full_name email avatar_url');
+        const doctor = await Doctor.findById(req.params.id)
+            .populate('user_id', 'full_name email avatar_url')
+            .populate('organization_id', 'name');
         if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
         res.json(doctor);
     } catch (error) {
@@ -71,6 +95,43 @@ router.get('/:id', async (req, res) => {
     }
 });
 
+// Get computed free/booked/past slots for a doctor over a date range (public).
+// `from` defaults to today in the doctor's timezone and `to` defaults to `from`; both are YYYY-MM-DD.
+// An optional `mode` lists only the slots bookable for that consultation mode.
+router.get('/:id/slots', async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Doctor not found' });
+        }
+
+        const doctor = await Doctor.findById(req.params.id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        const from = String(req.query.from || getTodayInTimezone(doctor.timezone));
+        const to = String(req.query.to || from);
+
+        if (!DATE_PATTERN.test(from) || !DATE_PATTERN.test(to)) {
+            return res.status(400).json({ message: 'from and to must be dates in YYYY-MM-DD format' });
+        }
+        if (to < from) {
+            return res.status(400).json({ message: 'to must not be before from' });
+        }
+        if (to > addDays(from, MAX_SLOT_RANGE_DAYS - 1)) {
+            return res.status(400).json({ message: `Date range cannot exceed ${MAX_SLOT_RANGE_DAYS} days` });
+        }
+
+        const consultationMode = req.query.mode ? String(req.query.mode) : null;
+        if (consultationMode && !isConsultationMode(consultationMode)) {
+            return res.status(400).json({ message: 'Unknown consultation mode' });
+        }
+
+        const slots = await listDoctorSlots({ doctor, from, to, consultationMode });
+        res.json(slots);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
 // Admin: Get all doctors (pending, approved, rejected)
 router.get('/admin/all', protect, async (req, res) => {
     // Check if admin
@@ -79,7 +140,9 @@ router.get('/admin/all', protect, async (req, res) => {
     }
 
     try {
-        const doctors = await Doctor.find({}).populate('user_id', 'full_name email phone avatar_url');
+        const doctors = await Doctor.find({})
+            .populate('user_id', 'full_name email phone avatar_url')
+            .populate('organization_id', 'name');
         res.json(doctors);
     } catch (error) {
         res.status(500).json({ message: error.message });
@@ -144,9 +207,48 @@ router.put('/:id', protect, async (req, res) => {
         //    return res.status(401).json({ message: 'Not authorized' });
         // }
 
+        // Clinic admins may only adjust the scheduling settings of their own organization's doctors
+        if (isClinicAdmin(req.user)) {
+            if (!(await canManageDoctor(req.user, doctor))) {
+                return res.status(403).json({ message: 'Not authorized to update this doctor' });
+            }
+            const schedulingUpdates = {};
+            for (const field of CLINIC_ADMIN_EDITABLE_FIELDS) {
+                if (req.body?.[field] !== undefined) {
+                    schedulingUpdates[field] = req.body[field];
+                }
+            }
+            req.body = schedulingUpdates;
+        }
+
+        // Membership is changed by platform admins through the organizations routes
+        if (req.body) {
+            delete req.body.organization_id;
+        }
+
+        // Clearing the address must not leave in-person consultations without one
+        const modeError = validateConsultationModeSettings({
+            consultation_modes: req.body?.consultation_modes
+                ?? (req.body?.clinic_address !== undefined ? Array.from(doctor.consultation_modes || []) : undefined),
+            mode_fees: req.body?.mode_fees,
+            clinic_address: req.body?.clinic_address ?? doctor.clinic_address,
+        });
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
+        // null clears the override so the platform cancellation policy applies again
+        if (req.body?.cancellation_policy) {
+            const policyError = validateCancellationPolicy(req.body.cancellation_policy);
+            if (policyError) {
+                return res.status(400).json({ message: policyError });
+            }
+            req.body.cancellation_policy = normalizeCancellationPolicy(req.body.cancellation_policy);
+        }
+
         const previousVerificationStatus = doctor.verification_status;
         const previousIsVerified = doctor.is_verified;
-        const updatedDoctor = await Doctor.findByIdAndUpdate(doctor._id, req.body, { new: true })
+        const updatedDoctor = await Doctor.findByIdAndUpdate(doctor._id, req.body, { new: true, runValidators: true })
             .populate('user_id', 'full_name email');
 
         try {
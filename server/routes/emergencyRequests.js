@@ -0,0 +1,405 @@
+// Emergency requests route:
+// Patients request an emergency consultation, which waits in the doctor's triage queue. The doctor
+// accepts it (booking the emergency appointment and making room for it) or declines it within the
+// platform's response time; unanswered requests expire.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const EmergencyRequest = require('../models/EmergencyRequest');
+const User = require('../models/User');
+const { protect } = require('../middleware/authMiddleware');
+const { sendEmail } = require('../services/emailService');
+const { sendAppointmentConfirmation } = require('../utils/appointmentConfirmations');
+const {
+    SLOT_TAKEN_MESSAGE,
+    getAppointmentStart,
+    getDoctorSlotSettings,
+    isSlotConflictError,
+} = require('../utils/appointmentSlots');
+const {
+    CONSULTATION_MODE_LABELS,
+    DEFAULT_CONSULTATION_MODE,
+    checkConsultationModeOffered,
+} = require('../utils/consultationModes');
+const { getDependentSnapshot } = require('../utils/dependents');
+const { renderEmailWithFallback } = require('../utils/emailTemplates');
+const { displaceForEmergency, expireIfOverdue, getEmergencyResponseMinutes } = require('../utils/emergencyRequests');
+const { getPrepaymentRequirement } = require('../utils/noShows');
+const { getCurrentPlatformFee } = require('../utils/platformFees');
+const { formatAppointmentForViewer, formatInTimezone, resolveTimezone } = require('../utils/timezones');
+const { markWaitlistBooked } = require('../utils/waitlist');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const MAX_REASON_LENGTH = 1000;
+
+function getFrontendBaseUrl() {
+    return (process.env.FRONTEND_URL || 'http://localhost:8080').split(',')[0].trim();
+}
+
+function formatDoctorName(rawName) {
+    const name = String(rawName || '').trim();
+    if (!name) {
+        return 'Doctor';
+    }
+    return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
+}
+
+async function notifyUser(userId, type, message, data) {
+    try {
+        const Notification = require('../models/Notification');
+        await Notification.create({ user_id: userId, type, message, data });
+    } catch (notifyErr) {
+        console.error(`Failed to create ${type} notification`, notifyErr);
+    }
+}
+
+async function notifyDoctorOfRequest({ request, doctor, patientName }) {
+    const doctorUser = await User.findById(doctor.user_id).select('full_name email locale timezone');
+    if (!doctorUser) return;
+
+    const doctorView = formatAppointmentForViewer(request, doctorUser.timezone);
+    const expiresView = formatInTimezone(request.expires_at, resolveTimezone(doctorUser.timezone, doctor.timezone));
+    const mode = CONSULTATION_MODE_LABELS[request.consultation_mode];
+
+    await notifyUser(
+        doctorUser._id,
+        'emergency_request',
+        `${patientName} requested an emergency ${mode.toLowerCase()} on ${doctorView.date} at ${doctorView.time}. Accept or decline it before ${expiresView.time} ${expiresView.zone}.`,
+        { emergency_request_id: request._id, patient_id: request.patient_id, url: '/doctor' }
+    );
+
+    if (doctorUser.email) {
+        try {
+            const resolved = renderEmailWithFallback({
+                locale: doctorUser.locale || 'en',
+                templateName: 'emergency_request_doctor',
+                context: {
+                    doctor: doctorUser.full_name || 'Doctor',
+                    patient: patientName,
+                    date: doctorView.date,
+                    time: doctorView.time,
+                    mode,
+                    reason: request.reason || 'Not given',
+                    expires: `${expiresView.time} ${expiresView.zone}`,
+                    link: `${getFrontendBaseUrl()}/doctor`,
+                },
+            });
+            await sendEmail({
+                to: doctorUser.email,
+                subject: `Emergency Request - ${doctorView.date} ${doctorView.time}`,
+                text: resolved.text,
+                html: resolved.html,
+            });
+        } catch (emailErr) {
+            console.error('Failed to email doctor about emergency request', emailErr);
+        }
+    }
+}
+
+// Loads a request the signed-in doctor may answer, or sends the error response and returns null
+async function findRequestForDoctor(req, res) {
+    if (req.user.role !== 'doctor') {
+        res.status(403).json({ message: 'Only doctors can answer emergency requests' });
+        return null;
+    }
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(404).json({ message: 'Emergency request not found' });
+        return null;
+    }
+
+    const request = await EmergencyRequest.findById(req.params.id);
+    if (!request) {
+        res.status(404).json({ message: 'Emergency request not found' });
+        return null;
+    }
+
+    const doctor = await Doctor.findOne({ user_id: req.user._id }).populate('user_id', 'full_name');
+    if (!doctor || doctor._id.toString() !== request.doctor_id.toString()) {
+        res.status(403).json({ message: 'Not authorized to answer this emergency request' });
+        return null;
+    }
+
+    if (await expireIfOverdue(request)) {
+        res.status(400).json({ message: 'This emergency request has expired' });
+        return null;
+    }
+    if (request.status !== 'pending') {
+        res.status(400).json({ message: `This emergency request was already ${request.status}` });
+        return null;
+    }
+
+    return { request, doctor };
+}
+
+// Patient: ask a doctor for an emergency consultation at a given time
+router.post('/', protect, async (req, res) => {
+    try {
+        const {
+            doctor_id,
+            appointment_date,
+            appointment_time,
+            consultation_mode = DEFAULT_CONSULTATION_MODE,
+            reason = '',
+            dependent_id,
+        } = req.body || {};
+
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can request emergency appointments' });
+        }
+        if (!DATE_PATTERN.test(String(appointment_date || '')) || !TIME_PATTERN.test(String(appointment_time || ''))) {
+            return res.status(400).json({ message: 'appointment_date (YYYY-MM-DD) and appointment_time (HH:MM) are required' });
+        }
+        if (String(reason).length > MAX_REASON_LENGTH) {
+            return res.status(400).json({ message: `reason must be at most ${MAX_REASON_LENGTH} characters` });
+        }
+        if (!mongoose.isValidObjectId(doctor_id)) {
+            return res.status(404).json({ message: 'Doctor not found' });
+        }
+        const dependentCheck = getDependentSnapshot(req.user, dependent_id);
+        if (!dependentCheck.ok) {
+            return res.status(dependentCheck.status).json({ message: dependentCheck.message });
+        }
+
+        const doctor = await Doctor.findById(doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        const modeError = checkConsultationModeOffered(doctor, consultation_mode);
+        if (modeError) {
+            return res.status(400).json({ message: modeError });
+        }
+
+        const timezone = resolveTimezone(doctor.timezone);
+        if (getAppointmentStart(appointment_date, appointment_time, timezone).getTime() <= Date.now()) {
+            return res.status(400).json({ message: 'Please choose a future time' });
+        }
+
+        const open = await EmergencyRequest.findOne({ doctor_id: doctor._id, patient_id: req.user._id, status: 'pending' });
+        if (open && !(await expireIfOverdue(open))) {
+            return res.status(409).json({ message: 'You already have an emergency request waiting for this doctor' });
+        }
+
+        const doctorFee = Number(doctor.emergency_fee || 0);
+        const platformFee = await getCurrentPlatformFee();
+        const responseMinutes = await getEmergencyResponseMinutes();
+
+        const request = await EmergencyRequest.create({
+            doctor_id: doctor._id,
+            patient_id: req.user._id,
+            dependent: dependentCheck.dependent,
+            appointment_date,
+            appointment_time,
+            timezone,
+            consultation_mode,
+            reason: String(reason || '').trim(),
+            doctor_fee: Number(doctorFee.toFixed(2)),
+            platform_fee: Number(platformFee.toFixed(2)),
+            amount: Number((doctorFee + platformFee).toFixed(2)),
+            expires_at: new Date(Date.now() + responseMinutes * 60 * 1000),
+        });
+
+        try {
+            const patientName = req.user.full_name || 'A patient';
+            await notifyDoctorOfRequest({
+                request,
+                doctor,
+                patientName: request.dependent ? `${patientName} (for ${request.dependent.full_name})` : patientName,
+            });
+        } catch (notifyErr) {
+            console.error('Failed to notify doctor of emergency request', notifyErr);
+        }
+
+        res.status(201).json(request);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Doctor: their triage queue of pending requests, oldest first. Patient: their own recent requests.
+router.get('/mine', protect, async (req, res) => {
+    try {
+        let query;
+        let sort;
+        if (req.user.role === 'doctor') {
+            const doctor = await Doctor.findOne({ user_id: req.user._id });
+            if (!doctor) return res.json([]);
+            query = { doctor_id: doctor._id, status: 'pending' };
+            sort = { createdAt: 1 };
+        } else {
+            // Answered requests stay visible for a day so the patient sees the outcome
+            const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+            query = { patient_id: req.user._id, $or: [{ status: 'pending' }, { updatedAt: { $gte: since } }] };
+            sort = { createdAt: -1 };
+        }
+
+        const requests = await EmergencyRequest.find(query)
+            .populate({ path: 'doctor_id', select: 'specialization timezone', populate: { path: 'user_id', select: 'full_name' } })
+            .populate('patient_id', 'full_name')
+            .sort(sort);
+
+        const visible = [];
+        for (const request of requests) {
+            const expired = await expireIfOverdue(request);
+            if (!(expired && req.user.role === 'doctor')) {
+                visible.push(request);
+            }
+        }
+
+        res.json(visible);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Doctor: accept a request. Bookings in the slot are moved to the next free slot (or refunded in full),
+// then the emergency appointment is booked; it is confirmed straight away unless the patient must prepay.
+// The request is claimed first so only one accept gets to move bookings, and handed back if booking fails.
+router.post('/:id/accept', protect, async (req, res) => {
+    let claimedId = null;
+    try {
+        const found = await findRequestForDoctor(req, res);
+        if (!found) return;
+        const { doctor } = found;
+
+        const request = await EmergencyRequest.findOneAndUpdate(
+            { _id: found.request._id, status: 'pending' },
+            { status: 'accepting' },
+            { new: true }
+        );
+        if (!request) {
+            return res.status(409).json({ message: 'This emergency request is already being answered' });
+        }
+        claimedId = request._id;
+
+        const displaced = await displaceForEmergency({ request, doctor, actorId: req.user._id });
+
+        const { prepayment_required: prepaymentRequired } = await getPrepaymentRequirement(request.patient_id);
+        const appointment = await Appointment.create({
+            doctor_id: doctor._id,
+            patient_id: request.patient_id,
+            dependent: request.dependent,
+            appointment_date: request.appointment_date,
+            appointment_time: request.appointment_time,
+            timezone: request.timezone,
+            duration_minutes: getDoctorSlotSettings(doctor).slotDuration,
+            appointment_type: 'emergency',
+            consultation_mode: request.consultation_mode,
+            clinic_address: request.consultation_mode === 'in_person' ? doctor.clinic_address || '' : '',
+            amount: request.amount,
+            doctor_fee: request.doctor_fee,
+            platform_fee: request.platform_fee,
+            status: prepaymentRequired ? 'pending' : 'confirmed',
+            payment_status: 'pending',
+            chat_unlocked: false,
+            video_unlocked: false,
+        });
+
+        request.status = 'accepted';
+        request.responded_at = new Date();
+        request.appointment_id = appointment._id;
+        request.displaced_appointment_id = displaced[0]?.appointment._id || null;
+        await request.save();
+        claimedId = null;
+
+        await markWaitlistBooked({
+            doctorId: doctor._id,
+            patientId: request.patient_id,
+            date: request.appointment_date,
+            appointmentId: appointment._id,
+            bookedTime: request.appointment_time,
+        });
+
+        const patient = await User.findById(request.patient_id).select('timezone');
+        const patientView = formatAppointmentForViewer(appointment, patient?.timezone);
+        await notifyUser(
+            request.patient_id,
+            'emergency_accepted',
+            `${formatDoctorName(doctor.user_id?.full_name)} accepted your emergency request for ${patientView.date} at ${patientView.time}. Please complete the payment to unlock chat and the consultation.`,
+            { emergency_request_id: request._id, appointment_id: appointment._id, url: `/payment/${appointment._id}` }
+        );
+        if (appointment.status === 'confirmed') {
+            await sendAppointmentConfirmation(appointment);
+        }
+
+        res.status(201).json({
+            emergency_request: request,
+            appointment,
+            displaced: displaced.map(({ appointment: moved, outcome }) => ({
+                appointment_id: moved._id,
+                outcome,
+                appointment_date: moved.appointment_date,
+                appointment_time: moved.appointment_time,
+            })),
+        });
+    } catch (error) {
+        if (claimedId) {
+            await EmergencyRequest.updateOne({ _id: claimedId, status: 'accepting' }, { status: 'pending' })
+                .catch((releaseErr) => console.error('Failed to hand back emergency request', releaseErr));
+        }
+        if (isSlotConflictError(error)) {
+            return res.status(409).json({ message: SLOT_TAKEN_MESSAGE });
+        }
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Doctor: decline a request, optionally saying why
+router.post('/:id/decline', protect, async (req, res) => {
+    try {
+        const found = await findRequestForDoctor(req, res);
+        if (!found) return;
+        const { request, doctor } = found;
+
+        const reason = String(req.body?.reason || '').trim();
+        const declined = await EmergencyRequest.findOneAndUpdate(
+            { _id: request._id, status: 'pending' },
+            { status: 'declined', decline_reason: reason, responded_at: new Date() },
+            { new: true }
+        );
+        if (!declined) {
+            return res.status(409).json({ message: 'This emergency request is already being answered' });
+        }
+
+        await notifyUser(
+            request.patient_id,
+            'emergency_declined',
+            `${formatDoctorName(doctor.user_id?.full_name)} cannot take your emergency request${reason ? `: ${reason}` : '.'} Please try another doctor.`,
+            { emergency_request_id: request._id, url: '/doctors' }
+        );
+
+        res.json(declined);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient: withdraw a request the doctor has not answered yet
+router.delete('/:id', protect, async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Emergency request not found' });
+        }
+        const request = await EmergencyRequest.findById(req.params.id);
+        if (!request) return res.status(404).json({ message: 'Emergency request not found' });
+
+        if (request.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to withdraw this emergency request' });
+        }
+        if (request.status !== 'pending') {
+            return res.status(400).json({ message: `This emergency request was already ${request.status}` });
+        }
+
+        const withdrawn = await EmergencyRequest.updateOne({ _id: request._id, status: 'pending' }, { status: 'withdrawn' });
+        if (withdrawn.modifiedCount === 0) {
+            return res.status(409).json({ message: 'The doctor is already answering this emergency request' });
+        }
+
+        res.json({ message: 'Emergency request withdrawn' });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,375 @@
+// Follow-ups route:
+// Lets doctors propose a follow-up visit after a completed consultation and patients accept
+// (which books it at the doctor's follow-up fee) or decline it.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const FollowUp = require('../models/FollowUp');
+const Payment = require('../models/Payment');
+const User = require('../models/User');
+const { protect } = require('../middleware/authMiddleware');
+const {
+    SLOT_TAKEN_MESSAGE,
+    addDays,
+    checkScheduledSlot,
+    getAppointmentStart,
+    getDoctorSlotSettings,
+    isSlotConflictError,
+} = require('../utils/appointmentSlots');
+const { sendAppointmentConfirmation } = require('../utils/appointmentConfirmations');
+const { pickOfferedConsultationMode } = require('../utils/consultationModes');
+const { getCurrentPlatformFee } = require('../utils/platformFees');
+const { formatAppointmentForViewer, getTodayInTimezone, resolveTimezone } = require('../utils/timezones');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Longest date range a doctor can leave open for the patient to pick from
+const MAX_FOLLOW_UP_RANGE_DAYS = 60;
+
+function formatDoctorName(rawName) {
+    const name = String(rawName || '').trim();
+    if (!name) {
+        return 'Doctor';
+    }
+    return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
+}
+
+function describeProposal(followUp) {
+    if (followUp.appointment_time) {
+        return `on ${followUp.from_date} at ${followUp.appointment_time}`;
+    }
+    return `between ${followUp.from_date} and ${followUp.to_date}`;
+}
+
+async function notifyUser(userId, type, message, data) {
+    try {
+        const Notification = require('../models/Notification');
+        await Notification.create({ user_id: userId, type, message, data });
+    } catch (notifyErr) {
+        console.error(`Failed to create ${type} notification`, notifyErr);
+    }
+}
+
+// Proposals whose last possible day has passed in the doctor's zone are closed on read.
+async function expireStaleProposals(followUps) {
+    const open = [];
+    for (const followUp of followUps) {
+        const timezone = resolveTimezone(followUp.doctor_id?.timezone);
+        if (followUp.to_date < getTodayInTimezone(timezone)) {
+            followUp.status = 'expired';
+            await followUp.save();
+        } else {
+            open.push(followUp);
+        }
+    }
+    return open;
+}
+
+// Doctor: propose a follow-up for one of their completed appointments
+router.post('/', protect, async (req, res) => {
+    try {
+        const { appointment_id, appointment_date, appointment_time, from_date, to_date, note = '' } = req.body || {};
+
+        if (req.user.role !== 'doctor') {
+            return res.status(403).json({ message: 'Only doctors can propose follow-ups' });
+        }
+
+        const doctor = await Doctor.findOne({ user_id: req.user._id }).populate('user_id', 'full_name');
+        if (!doctor) return res.status(404).json({ message: 'Doctor profile not found' });
+
+        if (!mongoose.isValidObjectId(appointment_id)) {
+            return res.status(404).json({ message: 'Appointment not found' });
+        }
+        const appointment = await Appointment.findById(appointment_id);
+        if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
+
+        if (appointment.doctor_id.toString() !== doctor._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to propose a follow-up for this appointment' });
+        }
+        if (appointment.status !== 'completed') {
+            return res.status(400).json({ message: 'Follow-ups can only be proposed for completed appointments' });
+        }
+
+        const existing = await FollowUp.findOne({ original_appointment_id: appointment._id, status: 'proposed' });
+        if (existing) {
+            return res.status(400).json({ message: 'A follow-up is already proposed for this appointment' });
+        }
+
+        const timezone = resolveTimezone(doctor.timezone);
+        const today = getTodayInTimezone(timezone);
+        let proposal;
+
+        if (appointment_time) {
+            // Exact slot: the patient accepts it with one click
+            if (!DATE_PATTERN.test(String(appointment_date || '')) || !TIME_PATTERN.test(String(appointment_time))) {
+                return res.status(400).json({ message: 'appointment_date (YYYY-MM-DD) and appointment_time (HH:MM) are required' });
+            }
+            if (getAppointmentStart(appointment_date, appointment_time, timezone).getTime() <= Date.now()) {
+                return res.status(400).json({ message: 'Please choose a future slot' });
+            }
+            const slotCheck = await checkScheduledSlot({
+                doctor,
+                appointmentDate: appointment_date,
+                appointmentTime: appointment_time,
+                patientId: appointment.patient_id,
+                consultationMode: pickOfferedConsultationMode(doctor, appointment.consultation_mode),
+            });
+            if (!slotCheck.ok) {
+                return res.status(slotCheck.status).json({ message: slotCheck.message });
+            }
+            proposal = { from_date: appointment_date, to_date: appointment_date, appointment_time };
+        } else {
+            // Date range: the patient picks any free slot inside it
+            if (!DATE_PATTERN.test(String(from_date || '')) || !DATE_PATTERN.test(String(to_date || ''))) {
+                return res.status(400).json({ message: 'from_date and to_date must be in YYYY-MM-DD format' });
+            }
+            if (from_date < today) {
+                return res.status(400).json({ message: 'The follow-up range cannot start in the past' });
+            }
+            if (to_date < from_date) {
+                return res.status(400).json({ message: 'to_date must be on or after from_date' });
+            }
+            if (to_date > addDays(from_date, MAX_FOLLOW_UP_RANGE_DAYS)) {
+                return res.status(400).json({ message: `The follow-up range can span at most ${MAX_FOLLOW_UP_RANGE_DAYS} days` });
+            }
+            proposal = { from_date, to_date, appointment_time: null };
+        }
+
+        const followUpFee = Number(doctor.follow_up_fee);
+        const fee = doctor.follow_up_fee !== null && Number.isFinite(followUpFee)
+            ? followUpFee
+            : Number(doctor.consultation_fee || 0);
+
+        const followUp = await FollowUp.create({
+            original_appointment_id: appointment._id,
+            doctor_id: doctor._id,
+            patient_id: appointment.patient_id,
+            ...proposal,
+            note: String(note || '').trim(),
+            fee: Number(fee.toFixed(2)),
+        });
+
+        await notifyUser(
+            appointment.patient_id,
+            'follow_up_proposed',
+            `${formatDoctorName(doctor.user_id?.full_name)} recommends a follow-up visit ${describeProposal(followUp)}. Accept it from your appointments.`,
+            { follow_up_id: followUp._id, appointment_id: appointment._id, doctor_id: doctor._id, url: '/appointments' }
+        );
+
+        res.status(201).json(followUp);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Open proposals: the patient's own, or the ones a doctor has sent
+router.get('/mine', protect, async (req, res) => {
+    try {
+        let query;
+        if (req.user.role === 'doctor') {
+            const doctor = await Doctor.findOne({ user_id: req.user._id });
+            if (!doctor) return res.json([]);
+            query = { doctor_id: doctor._id, status: 'proposed' };
+        } else {
+            query = { patient_id: req.user._id, status: 'proposed' };
+        }
+
+        const followUps = await FollowUp.find(query)
+            .populate({ path: 'doctor_id', select: 'specialization timezone', populate: { path: 'user_id', select: 'full_name' } })
+            .populate('patient_id', 'full_name')
+            .populate('original_appointment_id', 'appointment_date appointment_time start_at timezone')
+            .sort({ from_date: 1 });
+
+        const open = await expireStaleProposals(followUps);
+        const platformFee = await getCurrentPlatformFee();
+
+        res.json(open.map((followUp) => ({
+            ...followUp.toObject(),
+            platform_fee: platformFee,
+            total_amount: Number((followUp.fee + platformFee).toFixed(2)),
+        })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Patient: accept a proposal, which books the follow-up appointment.
+// Range proposals need the chosen appointment_date/appointment_time from inside the range.
+router.post('/:id/accept', protect, async (req, res) => {
+    try {
+        const followUp = await FollowUp.findById(req.params.id);
+        if (!followUp) return res.status(404).json({ message: 'Follow-up not found' });
+
+        if (req.user.role !== 'patient' || followUp.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to accept this follow-up' });
+        }
+        if (followUp.status !== 'proposed') {
+            return res.status(400).json({ message: `This follow-up was already ${followUp.status}` });
+        }
+
+        const doctor = await Doctor.findById(followUp.doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        const timezone = resolveTimezone(doctor.timezone);
+        if (followUp.to_date < getTodayInTimezone(timezone)) {
+            followUp.status = 'expired';
+            await followUp.save();
+            return res.status(400).json({ message: 'This follow-up proposal has expired' });
+        }
+
+        let appointmentDate = followUp.from_date;
+        let appointmentTime = followUp.appointment_time;
+        if (!appointmentTime) {
+            const { appointment_date, appointment_time } = req.body || {};
+            if (!DATE_PATTERN.test(String(appointment_date || '')) || !TIME_PATTERN.test(String(appointment_time || ''))) {
+                return res.status(400).json({ message: 'Please choose a date and time for the follow-up' });
+            }
+            if (appointment_date < followUp.from_date || appointment_date > followUp.to_date) {
+                return res.status(400).json({ message: `Please choose a date between ${followUp.from_date} and ${followUp.to_date}` });
+            }
+            appointmentDate = appointment_date;
+            appointmentTime = appointment_time;
+        }
+
+        if (getAppointmentStart(appointmentDate, appointmentTime, timezone).getTime() <= Date.now()) {
+            return res.status(400).json({ message: 'Please choose a future slot' });
+        }
+
+        // A follow-up is held the same way as the visit it follows, while the doctor still offers that mode
+        const originalAppointment = await Appointment.findById(followUp.original_appointment_id).select('consultation_mode dependent');
+        const consultationMode = pickOfferedConsultationMode(doctor, originalAppointment?.consultation_mode);
+
+        const slotCheck = await checkScheduledSlot({
+            doctor,
+            appointmentDate,
+            appointmentTime,
+            patientId: req.user._id,
+            consultationMode,
+        });
+        if (!slotCheck.ok) {
+            return res.status(slotCheck.status).json({ message: slotCheck.message });
+        }
+
+        const platformFee = await getCurrentPlatformFee();
+        const totalAmount = Number((followUp.fee + platformFee).toFixed(2));
+        // Nothing to pay for a free follow-up, so it is confirmed straight away
+        const isFree = totalAmount <= 0;
+
+        const appointment = await Appointment.create({
+            doctor_id: doctor._id,
+            patient_id: req.user._id,
+            // A follow-up is for whoever the original visit was for
+            dependent: originalAppointment?.dependent || null,
+            appointment_date: appointmentDate,
+            appointment_time: appointmentTime,
+            timezone,
+            duration_minutes: getDoctorSlotSettings(doctor).slotDuration,
+            appointment_type: 'scheduled',
+            consultation_mode: consultationMode,
+            clinic_address: consultationMode === 'in_person' ? doctor.clinic_address || '' : '',
+            amount: totalAmount,
+            doctor_fee: followUp.fee,
+            platform_fee: Number(platformFee.toFixed(2)),
+            status: isFree ? 'confirmed' : 'pending',
+            payment_status: isFree ? 'paid' : 'pending',
+            chat_unlocked: false,
+            video_unlocked: false,
+            follow_up_of: followUp.original_appointment_id,
+        });
+
+        if (isFree) {
+            await Payment.create({
+                appointment_id: appointment._id,
+                patient_id: req.user._id,
+                amount: 0,
+                status: 'completed',
+                settlement_status: 'settled',
+            });
+            await sendAppointmentConfirmation(appointment);
+        }
+
+        followUp.status = 'accepted';
+        followUp.appointment_id = appointment._id;
+        followUp.responded_at = new Date();
+        await followUp.save();
+
+        const doctorUser = await User.findById(doctor.user_id).select('timezone');
+        if (doctorUser?._id) {
+            const doctorView = formatAppointmentForViewer(appointment, doctorUser.timezone);
+            await notifyUser(
+                doctorUser._id,
+                'follow_up_accepted',
+                `${req.user.full_name || 'Your patient'} accepted the follow-up and booked ${doctorView.date} at ${doctorView.time}.`,
+                { follow_up_id: followUp._id, appointment_id: appointment._id }
+            );
+        }
+
+        res.status(201).json({ follow_up: followUp, appointment });
+    } catch (error) {
+        if (isSlotConflictError(error)) {
+            return res.status(409).json({ message: SLOT_TAKEN_MESSAGE });
+        }
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient: decline a proposal
+router.post('/:id/decline', protect, async (req, res) => {
+    try {
+        const followUp = await FollowUp.findById(req.params.id);
+        if (!followUp) return res.status(404).json({ message: 'Follow-up not found' });
+
+        if (req.user.role !== 'patient' || followUp.patient_id.toString() !== req.user._id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to decline this follow-up' });
+        }
+        if (followUp.status !== 'proposed') {
+            return res.status(400).json({ message: `This follow-up was already ${followUp.status}` });
+        }
+
+        followUp.status = 'declined';
+        followUp.responded_at = new Date();
+        await followUp.save();
+
+        const doctor = await Doctor.findById(followUp.doctor_id).select('user_id');
+        if (doctor?.user_id) {
+            await notifyUser(
+                doctor.user_id,
+                'follow_up_declined',
+                `${req.user.full_name || 'Your patient'} declined the follow-up proposed ${describeProposal(followUp)}.`,
+                { follow_up_id: followUp._id }
+            );
+        }
+
+        res.json(followUp);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Doctor: withdraw a proposal the patient has not answered yet
+router.delete('/:id', protect, async (req, res) => {
+    try {
+        const followUp = await FollowUp.findById(req.params.id);
+        if (!followUp) return res.status(404).json({ message: 'Follow-up not found' });
+
+        const doctor = await Doctor.findOne({ user_id: req.user._id });
+        if (!doctor || doctor._id.toString() !== followUp.doctor_id.toString()) {
+            return res.status(403).json({ message: 'Not authorized to withdraw this follow-up' });
+        }
+        if (followUp.status !== 'proposed') {
+            return res.status(400).json({ message: `This follow-up was already ${followUp.status}` });
+        }
+
+        followUp.status = 'withdrawn';
+        await followUp.save();
+
+        res.json({ message: 'Follow-up withdrawn' });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+module.exports = router;
@@ -0,0 +1,217 @@
+// Intake forms route:
+// Lets admins define the intake questionnaire for each specialization and doctors replace it with their
+// own, serves the form that applies when booking, and shows doctors their patients' answers.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const IntakeForm = require('../models/IntakeForm');
+const { protect } = require('../middleware/authMiddleware');
+const { buildDependentFilter } = require('../utils/dependents');
+const {
+    normalizeIntakeQuestions,
+    resolveIntakeForm,
+    serializeIntakeForm,
+    validateIntakeFormDefinition,
+} = require('../utils/intakeForms');
+
+function escapeRegex(value) {
+    return String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findSpecializationForm(specialization) {
+    return IntakeForm.findOne({
+        doctor_id: null,
+        specialization: { $regex: `^${escapeRegex(specialization)}$`, $options: 'i' },
+    });
+}
+
+// Loads a form the signed-in admin or owning doctor may change, or sends the error response and returns null
+async function findEditableForm(req, res) {
+    if (!mongoose.isValidObjectId(req.params.id)) {
+        res.status(404).json({ message: 'Intake form not found' });
+        return null;
+    }
+    const form = await IntakeForm.findById(req.params.id);
+    if (!form) {
+        res.status(404).json({ message: 'Intake form not found' });
+        return null;
+    }
+
+    if (req.user.role === 'admin') {
+        return form;
+    }
+    if (req.user.role === 'doctor') {
+        const doctor = await Doctor.findOne({ user_id: req.user._id });
+        if (doctor && form.doctor_id && form.doctor_id.toString() === doctor._id.toString()) {
+            return form;
+        }
+    }
+    res.status(403).json({ message: 'Not authorized to change this intake form' });
+    return null;
+}
+
+// Any signed-in user: the form a patient fills in when booking this doctor
+router.get('/doctor/:doctorId', protect, async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.doctorId)) {
+            return res.status(404).json({ message: 'Doctor not found' });
+        }
+        const doctor = await Doctor.findById(req.params.doctorId);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        res.json(await resolveIntakeForm(doctor));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: every form. Doctor: their own form and their specialization's form.
+router.get('/', protect, async (req, res) => {
+    try {
+        let query;
+        if (req.user.role === 'admin') {
+            query = {};
+        } else if (req.user.role === 'doctor') {
+            const doctor = await Doctor.findOne({ user_id: req.user._id });
+            if (!doctor) return res.json([]);
+            query = {
+                $or: [
+                    { doctor_id: doctor._id },
+                    { doctor_id: null, specialization: { $regex: `^${escapeRegex(doctor.specialization || '')}$`, $options: 'i' } },
+                ],
+            };
+        } else {
+            return res.status(403).json({ message: 'Only doctors and admins can manage intake forms' });
+        }
+
+        const forms = await IntakeForm.find(query).sort({ specialization: 1, createdAt: 1 });
+        res.json(forms.map(serializeIntakeForm));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: create a specialization's form. Doctor: create their own form, used instead of the specialization's.
+// Body: { specialization (admin only), title?, questions: [{ label, type, required?, options? }] }
+router.post('/', protect, async (req, res) => {
+    try {
+        const { specialization, title, questions } = req.body || {};
+
+        const definitionError = validateIntakeFormDefinition({ title, questions });
+        if (definitionError) {
+            return res.status(400).json({ message: definitionError });
+        }
+
+        const fields = {
+            questions: normalizeIntakeQuestions(questions),
+            updated_by: req.user._id,
+        };
+        if (title !== undefined && String(title).trim()) {
+            fields.title = String(title).trim();
+        }
+
+        if (req.user.role === 'admin') {
+            const name = String(specialization || '').trim();
+            if (!name) {
+                return res.status(400).json({ message: 'specialization is required' });
+            }
+            if (await findSpecializationForm(name)) {
+                return res.status(409).json({ message: `${name} already has an intake form` });
+            }
+            const form = await IntakeForm.create({ ...fields, specialization: name, doctor_id: null });
+            return res.status(201).json(serializeIntakeForm(form));
+        }
+
+        if (req.user.role !== 'doctor') {
+            return res.status(403).json({ message: 'Only doctors and admins can create intake forms' });
+        }
+        const doctor = await Doctor.findOne({ user_id: req.user._id });
+        if (!doctor) return res.status(404).json({ message: 'Doctor profile not found' });
+        if (await IntakeForm.exists({ doctor_id: doctor._id })) {
+            return res.status(409).json({ message: 'You already have an intake form; edit it instead' });
+        }
+
+        const form = await IntakeForm.create({ ...fields, specialization: doctor.specialization, doctor_id: doctor._id });
+        res.status(201).json(serializeIntakeForm(form));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Admin or the owning doctor: replace a form's title and questions.
+// Appointments keep the answers they were booked with.
+router.put('/:id', protect, async (req, res) => {
+    try {
+        const form = await findEditableForm(req, res);
+        if (!form) return;
+
+        const { title, questions } = req.body || {};
+        const definitionError = validateIntakeFormDefinition({ title, questions });
+        if (definitionError) {
+            return res.status(400).json({ message: definitionError });
+        }
+
+        if (title !== undefined) {
+            form.title = String(title).trim() || form.title;
+        }
+        form.questions = normalizeIntakeQuestions(questions);
+        form.updated_by = req.user._id;
+        await form.save();
+
+        res.json(serializeIntakeForm(form));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Admin or the owning doctor: remove a form; bookings fall back to the specialization's or the default form
+router.delete('/:id', protect, async (req, res) => {
+    try {
+        const form = await findEditableForm(req, res);
+        if (!form) return;
+
+        await form.deleteOne();
+        res.json({ deleted: true });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Doctor: a patient's intake answers from their appointments with this doctor, newest first. Admin: all of them.
+// ?dependent_id=self|<id> narrows it to one family member on the patient's account.
+router.get('/patient/:patientId/responses', protect, async (req, res) => {
+    try {
+        const dependentFilter = buildDependentFilter(req.query.dependent_id, 'dependent.dependent_id');
+        if (!mongoose.isValidObjectId(req.params.patientId) || !dependentFilter) {
+            return res.json([]);
+        }
+
+        const query = { ...dependentFilter, patient_id: req.params.patientId, intake: { $ne: null } };
+        if (req.user.role === 'doctor') {
+            const doctor = await Doctor.findOne({ user_id: req.user._id });
+            if (!doctor) return res.json([]);
+            query.doctor_id = doctor._id;
+        } else if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Only doctors can view intake answers' });
+        }
+
+        const appointments = await Appointment.find(query)
+            .select('appointment_date appointment_time start_at timezone status intake')
+            .sort({ start_at: -1 });
+
+        res.json(appointments.map((appointment) => ({
+            appointment_id: appointment._id,
+            appointment_date: appointment.appointment_date,
+            appointment_time: appointment.appointment_time,
+            start_at: appointment.start_at,
+            status: appointment.status,
+            intake: appointment.intake,
+        })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+module.exports = router;
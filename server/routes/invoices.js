@@ -0,0 +1,67 @@
+// Invoices route:
+// The invoice of an appointment's payment and its PDF, for the patient who paid and admins.
+// Invoices are issued when payments complete (utils/invoices.js); payments made before that are invoiced
+// the first time the invoice is asked for.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+const { protect } = require('../middleware/authMiddleware');
+const { getInvoiceFileName, issueInvoiceForPayment, renderInvoicePdf } = require('../utils/invoices');
+
+function canViewInvoice(user, patientId) {
+    return user.role === 'admin' || String(patientId) === String(user._id);
+}
+
+router.get('/appointments/:appointmentId', protect, async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.appointmentId)) {
+            return res.status(404).json({ message: 'Appointment not found' });
+        }
+        const appointment = await Appointment.findById(req.params.appointmentId);
+        if (!appointment) {
+            return res.status(404).json({ message: 'Appointment not found' });
+        }
+        if (!canViewInvoice(req.user, appointment.patient_id)) {
+            return res.status(403).json({ message: 'Not authorized to view this invoice' });
+        }
+
+        const payment = await Payment.findOne({
+            appointment_id: appointment._id,
+            status: { $in: ['completed', 'refunded'] },
+            amount: { $gt: 0 },
+        }).sort({ createdAt: -1 });
+        const issued = payment ? await issueInvoiceForPayment(payment, appointment) : null;
+        if (!issued) {
+            return res.status(404).json({ message: 'No paid payment to invoice for this appointment' });
+        }
+        res.json(issued.invoice);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+router.get('/:id/pdf', protect, async (req, res) => {
+    try {
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Invoice not found' });
+        }
+        const invoice = await Invoice.findById(req.params.id);
+        if (!invoice) {
+            return res.status(404).json({ message: 'Invoice not found' });
+        }
+        if (!canViewInvoice(req.user, invoice.patient_id)) {
+            return res.status(403).json({ message: 'Not authorized to view this invoice' });
+        }
+
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename="${getInvoiceFileName(invoice)}"`);
+        res.send(renderInvoicePdf(invoice));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+module.exports = router;
@@ -1,17 +1,24 @@
 // Medical records route:
-// Allows patients to upload, view, and manage their own medical documents.
+// Allows patients to upload, view, and manage their own and their dependents' medical documents.
 const express = require('express');
 const router = express.Router();
 const MedicalRecord = require('../models/MedicalRecord');
 const { protect } = require('../middleware/authMiddleware');
+const { buildDependentFilter, getDependentSnapshot } = require('../utils/dependents');
 
+// ?dependent_id=self|<id> lists one family member's documents; omitted lists all of them
 router.get('/', protect, async (req, res) => {
     try {
         if (req.user.role !== 'patient') {
             return res.status(403).json({ message: 'Only patients can access medical records' });
         }
 
-        const records = await MedicalRecord.find({ patient_id: req.user._id }).sort({ createdAt: -1 });
+        const dependentFilter = buildDependentFilter(req.query.dependent_id, 'dependent_id');
+        if (!dependentFilter) {
+            return res.status(400).json({ message: 'dependent_id must be "self" or a dependent id' });
+        }
+
+        const records = await MedicalRecord.find({ ...dependentFilter, patient_id: req.user._id }).sort({ createdAt: -1 });
         res.json(records);
     } catch (error) {
         res.status(500).json({ message: error.message });
@@ -31,17 +38,24 @@ router.post('/', protect, async (req, res) => {
             file_size = 0,
             record_type = 'Other',
             notes = '',
+            dependent_id,
         } = req.body;
 
         if (!file_name || !file_url) {
             return res.status(400).json({ message: 'file_name and file_url are required' });
         }
 
+        const dependentCheck = getDependentSnapshot(req.user, dependent_id);
+        if (!dependentCheck.ok) {
+            return res.status(dependentCheck.status).json({ message: dependentCheck.message });
+        }
+
         const allowedTypes = ['Lab Reports', 'Prescriptions', 'Invoices', 'Other'];
         const safeRecordType = allowedTypes.includes(record_type) ? record_type : 'Other';
 
         const record = await MedicalRecord.create({
             patient_id: req.user._id,
+            dependent_id: dependentCheck.dependent?.dependent_id || null,
             file_name,
             file_url,
             mime_type,
@@ -4,6 +4,25 @@ const express = require('express');
 const router = express.Router();
 const Message = require('../models/Message');
 const { protect } = require('../middleware/authMiddleware');
+const { getAcceptedConsultants, isConsultationDoctor } = require('../utils/consultations');
+
+const ACCEPTED_CONSULTANT = { $elemMatch: { status: 'accepted' } };
+
+// A group appointment (one with accepted consulting doctors) has a chat of its own; the other appointments
+// between the same patient and doctor share one conversation
+async function getConversationAppointmentIds(appointment) {
+    if (getAcceptedConsultants(appointment).length > 0) {
+        return [appointment._id];
+    }
+
+    const Appointment = require('../models/Appointment');
+    const pairAppointments = await Appointment.find({
+        patient_id: appointment.patient_id,
+        doctor_id: appointment.doctor_id,
+        consulting_doctors: { $not: ACCEPTED_CONSULTANT },
+    }).select('_id');
+    return pairAppointments.map(a => a._id);
+}
 
 router.get('/', protect, async (req, res) => {
     try {
@@ -32,6 +51,15 @@ router.post('/', protect, async (req, res) => {
         const isDoctor = req.user.role === 'doctor' && (appointment.doctor_id.user_id ? req.user._id.toString() === appointment.doctor_id.user_id.toString() : true);
         const isPatient = req.user.role === 'patient' && (appointment.patient_id ? req.user._id.toString() === appointment.patient_id._id.toString() : true);
 
+        if (req.user.role === 'doctor' && !isDoctor) {
+            // Other doctors may only write in group appointments they accepted to join
+            const Doctor = require('../models/Doctor');
+            const senderDoctor = await Doctor.findOne({ user_id: req.user._id }).select('_id');
+            if (!isConsultationDoctor(appointment, senderDoctor?._id)) {
+                return res.status(403).json({ message: 'Not authorized to message in this appointment' });
+            }
+        }
+
         if (isPatient && !appointment.chat_unlocked) {
             return res.status(403).json({ message: 'Chat is disabled by the doctor. You can read messages but cannot send new messages.' });
         }
@@ -39,17 +67,20 @@ router.post('/', protect, async (req, res) => {
         // Allow doctor to send even if chat is disabled
         const message = await Message.create({ appointment_id, sender_id: req.user._id, content, file_url, message_type });
 
-        // Create a notification for the recipient to show new messages in inbox
+        // Create a notification for every other participant to show new messages in inbox
         try {
             const Notification = require('../models/Notification');
-            let recipientId = null;
-            if (req.user.role === 'doctor') {
-                recipientId = appointment.patient_id;
-            } else {
-                // patient -> notify doctor's user account
-                recipientId = appointment.doctor_id?.user_id || null;
-            }
-            if (recipientId) {
+            const Doctor = require('../models/Doctor');
+            const consultants = await Doctor.find({
+                _id: { $in: getAcceptedConsultants(appointment).map(c => c.doctor_id) },
+            }).select('user_id');
+            const participantIds = [
+                appointment.patient_id?._id,
+                appointment.doctor_id?.user_id,
+                ...consultants.map(c => c.user_id),
+            ].filter(Boolean).map(id => id.toString());
+            const recipientIds = [...new Set(participantIds)].filter(id => id !== req.user._id.toString());
+            for (const recipientId of recipientIds) {
                 await Notification.create({ user_id: recipientId, type: 'message', message: `${req.user.full_name || 'New message'}`, data: { appointment_id, message_id: message._id } });
             }
         } catch (nerr) {
@@ -82,7 +113,7 @@ router.get('/conversations', protect, async (req, res) => {
 
         let appts = [];
         if (role === 'patient') {
-            appts = await Appointment.find({ patient_id: _id }).select('_id doctor_id patient_id video status chat_unlocked appointment_date appointment_time').populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name' } }).populate('patient_id', 'full_name');
+            appts = await Appointment.find({ patient_id: _id }).select('_id doctor_id patient_id video status chat_unlocked appointment_date appointment_time consulting_doctors').populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name' } }).populate('patient_id', 'full_name');
         } else if (role === 'doctor') {
             const doctorByUser = await Doctor.findOne({ user_id: _id }).select('_id');
             const doctorById = doctorByUser ? null : await Doctor.findById(_id).select('_id');
@@ -91,12 +122,14 @@ router.get('/conversations', protect, async (req, res) => {
             const doctorFilters = [];
             if (doctorProfileId) {
                 doctorFilters.push({ doctor_id: doctorProfileId });
+                // Group appointments this doctor joined as a consultant
+                doctorFilters.push({ consulting_doctors: { $elemMatch: { doctor_id: doctorProfileId, status: 'accepted' } } });
             }
             // Fallback for legacy records that may store user id directly in doctor_id.
             doctorFilters.push({ doctor_id: _id });
 
             appts = await Appointment.find({ $or: doctorFilters })
-                .select('_id doctor_id patient_id video status chat_unlocked appointment_date appointment_time')
+                .select('_id doctor_id patient_id video status chat_unlocked appointment_date appointment_time consulting_doctors')
                 .populate('patient_id', 'full_name')
                 .populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name' } });
         } else {
@@ -106,7 +139,8 @@ router.get('/conversations', protect, async (req, res) => {
         const apptIds = appts.map(a => a._id);
         if (apptIds.length === 0) return res.json([]);
 
-        // Group conversations by patient-doctor pairs instead of individual appointments
+        // Group conversations by patient-doctor pairs instead of individual appointments;
+        // group appointments with consulting doctors are conversations of their own
         const conversationGroups = new Map();
 
         for (const appt of appts) {
@@ -115,12 +149,17 @@ router.get('/conversations', protect, async (req, res) => {
             if (!patientId || !doctorId) {
                 continue;
             }
-            const pairKey = role === 'patient' ? `${patientId}-${doctorId}` : `${doctorId}-${patientId}`;
+            const isGroup = getAcceptedConsultants(appt).length > 0;
+            let pairKey = role === 'patient' ? `${patientId}-${doctorId}` : `${doctorId}-${patientId}`;
+            if (isGroup) {
+                pairKey = `group-${appt._id}`;
+            }
 
             if (!conversationGroups.has(pairKey)) {
+                const otherPartyName = role === 'patient' ? (appt.doctor_id?.user_id?.full_name || 'Doctor') : (appt.patient_id?.full_name || 'Patient');
                 conversationGroups.set(pairKey, {
                     appointments: [],
-                    otherPartyName: role === 'patient' ? (appt.doctor_id?.user_id?.full_name || 'Doctor') : (appt.patient_id?.full_name || 'Patient'),
+                    otherPartyName: isGroup ? `${otherPartyName} (group consultation)` : otherPartyName,
                     latestAppointment: appt
                 });
             }
@@ -208,14 +247,7 @@ router.get('/conversation', protect, async (req, res) => {
         if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
 
         // Find all appointments between this patient and doctor
-        const allAppointments = await Appointment.find({
-            $or: [
-                { patient_id: appointment.patient_id, doctor_id: appointment.doctor_id },
-                { patient_id: appointment.patient_id, doctor_id: appointment.doctor_id }
-            ]
-        }).select('_id');
-
-        const appointmentIds = allAppointments.map(a => a._id);
+        const appointmentIds = await getConversationAppointmentIds(appointment);
 
         // Get messages from all appointments in this conversation
         const messages = await Message.find({ appointment_id: { $in: appointmentIds } })
@@ -240,14 +272,7 @@ router.put('/mark-read', protect, async (req, res) => {
         if (!appointment) return res.status(404).json({ message: 'Appointment not found' });
 
         // Find all appointments between this patient and doctor
-        const allAppointments = await Appointment.find({
-            $or: [
-                { patient_id: appointment.patient_id, doctor_id: appointment.doctor_id },
-                { patient_id: appointment.patient_id, doctor_id: appointment.doctor_id }
-            ]
-        }).select('_id');
-
-        const appointmentIds = allAppointments.map(a => a._id);
+        const appointmentIds = await getConversationAppointmentIds(appointment);
 
         // Mark messages as read for all appointments in this conversation
         await Message.updateMany({
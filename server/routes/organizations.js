@@ -0,0 +1,269 @@
+// Organizations route:
+// Platform admins onboard clinics and assign their doctors and clinic admins; clinic admins read their own organization.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Doctor = require('../models/Doctor');
+const Notification = require('../models/Notification');
+const Organization = require('../models/Organization');
+const User = require('../models/User');
+const { protect } = require('../middleware/authMiddleware');
+const { isClinicAdmin } = require('../utils/organizations');
+
+const EDITABLE_FIELDS = ['name', 'contact_email', 'phone', 'address'];
+
+function pickOrganizationFields(body = {}) {
+    const updates = {};
+    for (const field of EDITABLE_FIELDS) {
+        if (body[field] !== undefined) {
+            updates[field] = String(body[field] || '').trim();
+        }
+    }
+    return updates;
+}
+
+// Organization with its member doctors and clinic admins
+async function buildOrganizationDetail(organization) {
+    const [doctors, admins] = await Promise.all([
+        Doctor.find({ organization_id: organization._id })
+            .select('user_id specialization consultation_fee timezone verification_status is_verified')
+            .populate('user_id', 'full_name email'),
+        User.find({ role: 'clinic_admin', organization_id: organization._id }).select('full_name email'),
+    ]);
+    return { ...organization.toObject(), doctors, admins };
+}
+
+async function findOrganization(id) {
+    return mongoose.isValidObjectId(id) ? Organization.findById(id) : null;
+}
+
+// Admin: all organizations with member counts
+router.get('/', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const organizations = await Organization.find({}).sort({ name: 1 });
+        const doctorCounts = await Doctor.aggregate([
+            { $match: { organization_id: { $ne: null } } },
+            { $group: { _id: '$organization_id', count: { $sum: 1 } } },
+        ]);
+        const countByOrganization = new Map(doctorCounts.map((row) => [row._id.toString(), row.count]));
+
+        res.json(organizations.map((organization) => ({
+            ...organization.toObject(),
+            doctor_count: countByOrganization.get(organization._id.toString()) || 0,
+        })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: onboard a clinic or hospital
+router.post('/', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const fields = pickOrganizationFields(req.body);
+        if (!fields.name) {
+            return res.status(400).json({ message: 'Organization name is required' });
+        }
+
+        const organization = await Organization.create({ ...fields, created_by: req.user._id });
+        res.status(201).json(organization);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Clinic admin: their own organization
+router.get('/mine', protect, async (req, res) => {
+    try {
+        if (!isClinicAdmin(req.user)) {
+            return res.status(403).json({ message: 'Not authorized as clinic admin' });
+        }
+
+        const organization = await Organization.findById(req.user.organization_id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+        res.json(await buildOrganizationDetail(organization));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin, or a clinic admin of this organization
+router.get('/:id', protect, async (req, res) => {
+    try {
+        const organization = await findOrganization(req.params.id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const ownsOrganization = isClinicAdmin(req.user) && String(req.user.organization_id) === String(organization._id);
+        if (req.user.role !== 'admin' && !ownsOrganization) {
+            return res.status(403).json({ message: 'Not authorized to view this organization' });
+        }
+
+        res.json(await buildOrganizationDetail(organization));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin, or a clinic admin of this organization: update name and contact details
+router.put('/:id', protect, async (req, res) => {
+    try {
+        const organization = await findOrganization(req.params.id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const ownsOrganization = isClinicAdmin(req.user) && String(req.user.organization_id) === String(organization._id);
+        if (req.user.role !== 'admin' && !ownsOrganization) {
+            return res.status(403).json({ message: 'Not authorized to update this organization' });
+        }
+
+        const fields = pickOrganizationFields(req.body);
+        if (fields.name === '') {
+            return res.status(400).json({ message: 'Organization name is required' });
+        }
+
+        Object.assign(organization, fields);
+        await organization.save();
+        res.json(organization);
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Admin: add a doctor to the organization. A doctor belongs to at most one organization.
+router.post('/:id/doctors', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const organization = await findOrganization(req.params.id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const { doctor_id } = req.body || {};
+        const doctor = mongoose.isValidObjectId(doctor_id) ? await Doctor.findById(doctor_id) : null;
+        if (!doctor) {
+            return res.status(404).json({ message: 'Doctor not found' });
+        }
+        if (doctor.organization_id && String(doctor.organization_id) !== String(organization._id)) {
+            return res.status(409).json({ message: 'This doctor already belongs to another organization' });
+        }
+
+        doctor.organization_id = organization._id;
+        await doctor.save();
+
+        try {
+            await Notification.create({
+                user_id: doctor.user_id,
+                type: 'organization_joined',
+                message: `You have been added to ${organization.name}. Its clinic admins can now manage your availability.`,
+                data: { organization_id: organization._id },
+            });
+        } catch (notifyErr) {
+            console.error('Failed to notify doctor about organization membership', notifyErr);
+        }
+
+        res.status(201).json(await buildOrganizationDetail(organization));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Admin: remove a doctor from the organization
+router.delete('/:id/doctors/:doctorId', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const organization = await findOrganization(req.params.id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const doctor = mongoose.isValidObjectId(req.params.doctorId) ? await Doctor.findById(req.params.doctorId) : null;
+        if (!doctor || String(doctor.organization_id) !== String(organization._id)) {
+            return res.status(404).json({ message: 'Doctor is not a member of this organization' });
+        }
+
+        doctor.organization_id = null;
+        await doctor.save();
+        res.json(await buildOrganizationDetail(organization));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Admin: make an existing patient account a clinic admin of the organization
+router.post('/:id/admins', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const organization = await findOrganization(req.params.id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const email = String(req.body?.email || '').trim().toLowerCase();
+        const user = email ? await User.findOne({ email }) : null;
+        if (!user) {
+            return res.status(404).json({ message: 'No account with this email. Ask them to sign up first.' });
+        }
+        if (user.role === 'clinic_admin' && String(user.organization_id) !== String(organization._id)) {
+            return res.status(409).json({ message: 'This user already manages another organization' });
+        }
+        if (!['patient', 'clinic_admin'].includes(user.role)) {
+            return res.status(400).json({ message: 'Doctor and admin accounts cannot become clinic admins' });
+        }
+
+        user.role = 'clinic_admin';
+        user.organization_id = organization._id;
+        await user.save();
+        res.status(201).json(await buildOrganizationDetail(organization));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Admin: revoke a clinic admin; the account goes back to being a patient account
+router.delete('/:id/admins/:userId', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const organization = await findOrganization(req.params.id);
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
+        }
+
+        const user = mongoose.isValidObjectId(req.params.userId) ? await User.findById(req.params.userId) : null;
+        if (!user || user.role !== 'clinic_admin' || String(user.organization_id) !== String(organization._id)) {
+            return res.status(404).json({ message: 'User is not a clinic admin of this organization' });
+        }
+
+        user.role = 'patient';
+        user.organization_id = null;
+        await user.save();
+        res.json(await buildOrganizationDetail(organization));
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+module.exports = router;
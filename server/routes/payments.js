@@ -2,84 +2,34 @@
 // Handles payment creation/verification and settlement reporting for admin/doctor views.
 const express = require('express');
 const router = express.Router();
-const axios = require('axios');
+const mongoose = require('mongoose');
 const Payment = require('../models/Payment');
 const Appointment = require('../models/Appointment');
 const Doctor = require('../models/Doctor');
+const Organization = require('../models/Organization');
+const ReconciliationReport = require('../models/ReconciliationReport');
+const Refund = require('../models/Refund');
+const User = require('../models/User');
 const { protect } = require('../middleware/authMiddleware');
-
-const CASHFREE_API_VERSION = '2023-08-01';
-
-function isProductionCashfreeEnv() {
-    return String(process.env.CASHFREE_ENV || '').trim().toLowerCase() === 'production';
-}
-
-function getCashfreeBaseUrl() {
-    return isProductionCashfreeEnv()
-        ? 'https://api.cashfree.com/pg'
-        : 'https://sandbox.cashfree.com/pg';
-        
-}
-
-function getCashfreeHeaders() {
-    return {
-        'x-client-id': process.env.CASHFREE_KEY_ID,
-        'x-client-secret': process.env.CASHFREE_KEY_SECRET,
-        'x-api-version': CASHFREE_API_VERSION,
-        'Content-Type': 'application/json',
-    };
-}
-
-function isLocalhostUrl(url) {
-    if (!url) return true;
-    return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?/i.test(String(url).trim());
-}
-
-async function confirmAppointmentPayment({ appointment, patientId, cashfreeOrderId, cashfreePaymentId, cashfreePaymentStatus }) {
-    const existingPayment = await Payment.findOne({
-        appointment_id: appointment._id,
-        cashfree_order_id: cashfreeOrderId,
-    });
-
-    if (!existingPayment) {
-        await Payment.create({
-            appointment_id: appointment._id,
-            patient_id: patientId,
-            amount: Number(appointment.amount || 0),
-            status: 'completed',
-            settlement_status: 'unsettled',
-            cashfree_order_id: cashfreeOrderId,
-            cashfree_payment_id: cashfreePaymentId,
-            cashfree_payment_status: cashfreePaymentStatus,
-        });
-    }
-
-    appointment.payment_status = 'paid';
-    appointment.status = 'confirmed';
-
-    if (appointment.appointment_type === 'emergency') {
-        appointment.chat_unlocked = true;
-        appointment.video_unlocked = true;
-    }
-
-    await appointment.save();
-
-    try {
-        const Notification = require('../models/Notification');
-        await Notification.create({
-            user_id: appointment.patient_id,
-            type: 'appointment_confirmed',
-            message: `Payment received. Your appointment on ${appointment.appointment_date} at ${appointment.appointment_time} is confirmed.`,
-            data: {
-                appointment_id: appointment._id,
-                payment_method: 'online',
-                payment_status: appointment.payment_status,
-            },
-        });
-    } catch (notifyErr) {
-        console.error('Failed to create payment confirmation notification', notifyErr);
-    }
-}
+const {
+    canAcceptPayments,
+    getActivePaymentProvider,
+    getPaymentProvider,
+    getProviderErrorResponse,
+} = require('../services/paymentProviders');
+const { assertTransition, canTransition, isAppointmentTransitionError, transitionAppointment } = require('../utils/appointmentStatus');
+const { getAcceptedConsultants, splitDoctorFee } = require('../utils/consultations');
+const { isClinicAdmin } = require('../utils/organizations');
+const {
+    buildPaymentOrderId,
+    completeOrderPayment,
+    confirmAppointmentPayment,
+    confirmPaidAppointment,
+    failOrderPayments,
+    recordPendingOrder,
+} = require('../utils/paymentOrders');
+const { buildReconciliationCsv, reconcilePayments } = require('../utils/paymentReconciliation');
+const { applyRefundStatus, refundPayment, retryRefund } = require('../utils/refunds');
 
 function buildDoctorKey(doctor) {
     if (!doctor) return null;
@@ -93,15 +43,26 @@ function buildDoctorLabel(doctor) {
     return /^dr\.?\s/i.test(fullName) ? fullName : `Dr. ${fullName}`;
 }
 
+// Completed payments, and refunded ones: a refund of a settled payment still has to be clawed back
 async function fetchCompletedPaymentsWithRelations(filter = {}) {
-    return Payment.find({ status: 'completed', ...filter })
+    return Payment.find({ status: { $in: ['completed', 'refunded'] }, ...filter })
         .populate('patient_id', 'full_name email')
         .populate({
             path: 'appointment_id',
             populate: [
                 {
                     path: 'doctor_id',
-                    populate: { path: 'user_id', select: 'full_name email' },
+                    populate: [
+                        { path: 'user_id', select: 'full_name email' },
+                        { path: 'organization_id', select: 'name' },
+                    ],
+                },
+                {
+                    path: 'consulting_doctors.doctor_id',
+                    populate: [
+                        { path: 'user_id', select: 'full_name email' },
+                        { path: 'organization_id', select: 'name' },
+                    ],
                 },
                 { path: 'patient_id', select: 'full_name email' },
             ],
@@ -113,7 +74,7 @@ function getPaymentAmount(payment) {
     return Number(payment?.amount || 0);
 }
 
-function getDoctorEarningAmount(payment) {
+function getDoctorFeeAmount(payment) {
     const appointmentDoctorFee = Number(payment?.appointment_id?.doctor_fee);
     if (Number.isFinite(appointmentDoctorFee) && appointmentDoctorFee > 0) {
         return appointmentDoctorFee;
@@ -143,27 +104,213 @@ function getDoctorEarningAmount(payment) {
     return 0;
 }
 
-function getPaymentSettledAmount(payment) {
-    const amount = getDoctorEarningAmount(payment);
-    if (payment?.settlement_status === 'settled') {
-        return amount;
-    }
+// The doctor's fee less whatever of it was refunded to the patient
+function getDoctorEarningAmount(payment) {
+    const refundedDoctorAmount = Number(payment?.refunded_doctor_amount || 0);
+    return Math.max(0, getDoctorFeeAmount(payment) - (Number.isFinite(refundedDoctorAmount) ? refundedDoctorAmount : 0));
+}
 
-    const explicitSettledAmount = Number(payment?.settled_amount || 0);
+function getPaymentDoctorId(payment) {
+    return payment?.appointment_id?.doctor_id?._id || payment?.appointment_id?.doctor_id || null;
+}
+
+// Each doctor's part of a payment's doctor earnings: the primary doctor's, plus an equal part for every
+// consulting doctor who accepted. Shares are what earnings are reported and settled in.
+function getPaymentShares(payment) {
+    const consultants = getAcceptedConsultants(payment?.appointment_id);
+    const split = splitDoctorFee(getDoctorEarningAmount(payment), consultants.length);
+    return [
+        {
+            payment,
+            doctor: payment?.appointment_id?.doctor_id,
+            doctorId: getPaymentDoctorId(payment),
+            amount: split.primary,
+            isPrimary: true,
+        },
+        ...consultants.map((consultant) => ({
+            payment,
+            doctor: consultant.doctor_id,
+            doctorId: consultant.doctor_id?._id || consultant.doctor_id,
+            amount: split.consultant,
+            isPrimary: false,
+        })),
+    ];
+}
+
+function getSharesOfPayments(payments) {
+    return payments.flatMap(getPaymentShares);
+}
+
+function isShareOfDoctor(share, doctorId) {
+    return Boolean(share.doctorId) && share.doctorId.toString() === doctorId.toString();
+}
+
+// The primary doctor's settlement lives on the payment itself, as it did before group appointments
+function findConsultantSettlement(share) {
+    return (share.payment.consultant_settlements || []).find((entry) => isShareOfDoctor(share, entry.doctor_id)) || null;
+}
+
+function getShareSettlementEntry(share) {
+    return share.isPrimary ? share.payment : findConsultantSettlement(share);
+}
+
+// What the doctor has been paid for the share: everything settled on it, less what later settlements
+// clawed back after the share was refunded
+function getShareSettledAmount(share) {
+    const entry = getShareSettlementEntry(share);
+    const explicitSettledAmount = Number(entry?.settled_amount || 0);
     if (!Number.isFinite(explicitSettledAmount) || explicitSettledAmount <= 0) {
-        return 0;
+        // Payments marked settled before settled amounts were recorded
+        return share.isPrimary && share.payment?.settlement_status === 'settled' ? share.amount : 0;
     }
 
-    return Math.min(explicitSettledAmount, amount);
+    return Math.max(0, explicitSettledAmount - Number(entry.clawed_back_amount || 0));
+}
+
+function getShareUnsettledAmount(share) {
+    return Math.max(0, share.amount - getShareSettledAmount(share));
+}
+
+// The part of a refund that the doctor had already been paid, to be taken off their next settlement
+function getShareClawbackAmount(share) {
+    return Math.max(0, getShareSettledAmount(share) - share.amount);
+}
+
+function hasOutstandingSettlement(share) {
+    return getShareUnsettledAmount(share) > 1e-9 || getShareClawbackAmount(share) > 1e-9;
 }
 
-function getPaymentUnsettledAmount(payment) {
-    const amount = getDoctorEarningAmount(payment);
-    const settledAmount = getPaymentSettledAmount(payment);
-    return Math.max(0, amount - settledAmount);
+function getShareOrganizationId(share) {
+    const organization = share.doctor?.organization_id;
+    return organization?._id || organization || null;
+}
+
+function getShareLastSettlement(share) {
+    if (share.isPrimary) {
+        const { last_settlement_amount: amount, settled_at: settledAt, settlement_notes: notes } = share.payment;
+        return { amount: Number(amount || 0), settledAt, notes };
+    }
+    const entry = findConsultantSettlement(share);
+    return { amount: Number(entry?.last_settlement_amount || 0), settledAt: entry?.settled_at || null, notes: entry?.settlement_notes };
 }
 
-router.post('/cashfree/order', protect, async (req, res) => {
+// Pays out up to `requestedAmount` (everything when null) of the given shares, oldest payment first.
+// Clawbacks of refunded shares are recovered first: their amount is settled on unsettled shares without
+// being paid out. Returns the amount paid, the amount clawed back, how many shares were settled and what
+// was unsettled beforehand.
+async function settleShares(shares, { requestedAmount = null, notes = '', settledBy }) {
+    const orderedShares = [...shares].sort(
+        (a, b) => new Date(a.payment.createdAt).getTime() - new Date(b.payment.createdAt).getTime()
+    );
+
+    const totalUnsettledAmount = orderedShares.reduce((sum, share) => {
+        return sum + getShareUnsettledAmount(share);
+    }, 0);
+    const totalClawbackAmount = orderedShares.reduce((sum, share) => sum + getShareClawbackAmount(share), 0);
+
+    const clawbackAmount = Math.min(totalClawbackAmount, totalUnsettledAmount);
+    const payableAmount = totalUnsettledAmount - clawbackAmount;
+    const targetAmount = requestedAmount === null
+        ? payableAmount
+        : Math.min(requestedAmount, payableAmount);
+
+    const settledAt = new Date();
+    if (targetAmount <= 1e-9) {
+        return { settledAmount: 0, clawbackAmount: 0, touchedPaymentsCount: 0, totalUnsettledAmount, settledAt };
+    }
+
+    let remainingToSettle = targetAmount + clawbackAmount;
+    let settledAmount = 0;
+    let touchedPaymentsCount = 0;
+
+    for (const share of orderedShares) {
+        if (remainingToSettle <= 1e-9) break;
+
+        const unsettledAmount = getShareUnsettledAmount(share);
+        if (unsettledAmount <= 1e-9) continue;
+
+        const settleNow = Math.min(unsettledAmount, remainingToSettle);
+        const nextSettledAmount = getShareSettledAmount(share) + settleNow;
+        const { payment } = share;
+
+        if (share.isPrimary) {
+            payment.settled_amount = Number((nextSettledAmount + Number(payment.clawed_back_amount || 0)).toFixed(2));
+            payment.last_settlement_amount = Number(settleNow.toFixed(2));
+            payment.settlement_status = nextSettledAmount >= share.amount - 1e-9 ? 'settled' : 'unsettled';
+            payment.settled_at = settledAt;
+            payment.settled_by = settledBy;
+            payment.settlement_notes = String(notes || '');
+        } else {
+            let entry = findConsultantSettlement(share);
+            if (!entry) {
+                payment.consultant_settlements.push({ doctor_id: share.doctorId });
+                entry = payment.consultant_settlements[payment.consultant_settlements.length - 1];
+            }
+            entry.settled_amount = Number((nextSettledAmount + Number(entry.clawed_back_amount || 0)).toFixed(2));
+            entry.last_settlement_amount = Number(settleNow.toFixed(2));
+            entry.settled_at = settledAt;
+            entry.settled_by = settledBy;
+            entry.settlement_notes = String(notes || '');
+        }
+        await payment.save();
+
+        settledAmount += settleNow;
+        remainingToSettle -= settleNow;
+        touchedPaymentsCount += 1;
+    }
+
+    // The settled amounts of the refunded shares stay as they were paid; the recovery is recorded next to them
+    let remainingToClawBack = clawbackAmount;
+    for (const share of orderedShares) {
+        if (remainingToClawBack <= 1e-9) break;
+
+        const clawbackNow = Math.min(getShareClawbackAmount(share), remainingToClawBack);
+        if (clawbackNow <= 1e-9) continue;
+
+        const entry = getShareSettlementEntry(share);
+        entry.clawed_back_amount = Number((Number(entry.clawed_back_amount || 0) + clawbackNow).toFixed(2));
+        await share.payment.save();
+        remainingToClawBack -= clawbackNow;
+    }
+
+    return {
+        settledAmount: Number((settledAmount - clawbackAmount).toFixed(2)),
+        clawbackAmount: Number(clawbackAmount.toFixed(2)),
+        touchedPaymentsCount,
+        totalUnsettledAmount,
+        settledAt,
+    };
+}
+
+function parseSettlementAmount(value) {
+    if (value === undefined || value === null || value === '') {
+        return { requestedAmount: null };
+    }
+    const requestedAmount = Number(value);
+    if (!Number.isFinite(requestedAmount) || requestedAmount <= 0) {
+        return { error: 'settlement_amount must be a positive number' };
+    }
+    return { requestedAmount };
+}
+
+// The gateway patients pay with right now and what its browser SDK needs
+router.get('/checkout/config', protect, async (req, res) => {
+    try {
+        const provider = await getActivePaymentProvider();
+        res.json({
+            provider: provider.name,
+            label: provider.label,
+            configured: provider.isConfigured(),
+            ...provider.getCheckoutConfig(),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Starts a checkout with the active provider. The response's `checkout` is handed to that provider's SDK;
+// `provider` comes back with the verify call, so switching providers mid-checkout does not strand a payment.
+router.post('/checkout/order', protect, async (req, res) => {
     try {
         const { appointment_id } = req.body || {};
 
@@ -171,8 +318,9 @@ router.post('/cashfree/order', protect, async (req, res) => {
             return res.status(400).json({ message: 'appointment_id is required' });
         }
 
-        if (!process.env.CASHFREE_KEY_ID || !process.env.CASHFREE_KEY_SECRET) {
-            return res.status(500).json({ message: 'Cashfree credentials are not configured on the server' });
+        const provider = await getActivePaymentProvider();
+        if (!provider.isConfigured()) {
+            return res.status(500).json({ message: `${provider.label} credentials are not configured on the server` });
         }
 
         const appointment = await Appointment.findById(appointment_id).populate({
@@ -192,62 +340,43 @@ router.post('/cashfree/order', protect, async (req, res) => {
             return res.status(400).json({ message: 'Appointment is already paid' });
         }
 
-        const orderId = `appt_${appointment._id}_${Date.now()}`.slice(0, 45);
-        const frontendBaseUrl = process.env.FRONTEND_URL || 'http://localhost:8080';
-
-        if (isProductionCashfreeEnv() && isLocalhostUrl(frontendBaseUrl)) {
-            return res.status(400).json({
-                message: 'Production Cashfree requires a public FRONTEND_URL (not localhost). Update FRONTEND_URL in server .env or use CASHFREE_ENV=sandbox for local testing.',
-            });
-        }
-
-        const orderPayload = {
-            order_id: orderId,
-            order_amount: Number(appointment.amount || 0),
-            order_currency: 'INR',
-            customer_details: {
-                customer_id: String(req.user._id),
-                customer_name: req.user.full_name || 'Patient',
-                customer_email: req.user.email || 'patient@example.com',
-                customer_phone: req.user.phone || '9999999999',
-            },
-            order_meta: {
-                return_url: `${frontendBaseUrl}/payment/${appointment._id}?cashfree_order_id=${orderId}`,
-            },
-            order_note: `Appointment payment for ${appointment?.doctor_id?.user_id?.full_name || 'Doctor'}`,
-        };
-
-        const { data } = await axios.post(`${getCashfreeBaseUrl()}/orders`, orderPayload, {
-            headers: getCashfreeHeaders(),
+        const orderId = buildPaymentOrderId(appointment._id);
+        const frontendBaseUrl = (process.env.FRONTEND_URL || 'http://localhost:8080').split(',')[0].trim();
+        const order = await provider.createOrder({
+            appointment,
+            user: req.user,
+            orderId,
+            returnUrl: `${frontendBaseUrl}/payment/${appointment._id}?provider=${provider.name}&order_id=${orderId}`,
         });
+        await recordPendingOrder({ appointment, patientId: req.user._id, provider, orderId: order.order_id });
 
         res.json({
-            order_id: data.order_id,
-            payment_session_id: data.payment_session_id,
-            cashfree_env: isProductionCashfreeEnv() ? 'production' : 'sandbox',
+            provider: provider.name,
+            order_id: order.order_id,
+            amount: Number(appointment.amount || 0),
+            checkout: order.checkout,
         });
     } catch (error) {
-        const providerStatus = Number(error?.response?.status || 0);
-        const providerMessage =
-            error?.response?.data?.message ||
-            error?.response?.data?.error_description ||
-            error?.response?.data?.error ||
-            error?.message ||
-            'Failed to create Cashfree order';
-
-        const statusCode = providerStatus >= 400 && providerStatus < 500 ? 400 : 500;
-        res.status(statusCode).json({ message: providerMessage });
+        const { status, message } = getProviderErrorResponse(error, 'Failed to create payment order');
+        res.status(status).json({ message });
     }
 });
 
-router.post('/cashfree/verify', protect, async (req, res) => {
+// Confirms a checkout the browser reports as finished, with whatever proof the provider gives the browser
+// (e.g. razorpay_payment_id and razorpay_signature). An unpaid order cancels the appointment and frees the slot.
+router.post('/checkout/verify', protect, async (req, res) => {
     try {
-        const { appointment_id, order_id } = req.body || {};
+        const { appointment_id, order_id, provider: providerName } = req.body || {};
 
         if (!appointment_id || !order_id) {
             return res.status(400).json({ message: 'appointment_id and order_id are required' });
         }
 
+        const provider = providerName ? getPaymentProvider(providerName) : await getActivePaymentProvider();
+        if (!provider || !canAcceptPayments(provider.name)) {
+            return res.status(400).json({ message: 'Unknown payment provider' });
+        }
+
         const appointment = await Appointment.findById(appointment_id);
         if (!appointment) {
             return res.status(404).json({ message: 'Appointment not found' });
@@ -257,55 +386,160 @@ router.post('/cashfree/verify', protect, async (req, res) => {
             return res.status(403).json({ message: 'Not authorized for this appointment payment' });
         }
 
-        const { data } = await axios.get(`${getCashfreeBaseUrl()}/orders/${order_id}/payments`, {
-            headers: getCashfreeHeaders(),
-        });
-
-        const payments = Array.isArray(data) ? data : [];
-        const successfulPayment = payments.find((payment) => payment.payment_status === 'SUCCESS');
+        const result = await provider.verifyPayment({ orderId: String(order_id), details: req.body });
 
-        if (!successfulPayment) {
+        if (!result.paid) {
             // Payment failed — free the time slot
-            appointment.status = 'cancelled';
+            transitionAppointment(appointment, 'cancelled', { role: 'system', userId: req.user._id, reason: 'Payment failed or not completed' });
             appointment.payment_status = 'failed';
             appointment.notes = (appointment.notes || '') + ' Payment failed or not completed.';
             await appointment.save();
+            await failOrderPayments(appointment._id, { provider, orderId: String(order_id) });
 
             return res.status(400).json({
                 message: 'Payment not completed. Appointment cancelled and time slot freed.',
-                payment_status: payments[0]?.payment_status || 'PENDING',
+                payment_status: result.paymentStatus,
             });
         }
 
         await confirmAppointmentPayment({
             appointment,
             patientId: req.user._id,
-            cashfreeOrderId: order_id,
-            cashfreePaymentId: successfulPayment.cf_payment_id || successfulPayment.payment_id || '',
-            cashfreePaymentStatus: successfulPayment.payment_status,
+            provider,
+            orderId: String(order_id),
+            paymentId: result.paymentId,
+            paymentStatus: result.paymentStatus,
+            signature: result.signature,
         });
 
         res.json({
             message: 'Payment verified successfully',
-            payment_status: successfulPayment.payment_status,
+            payment_status: result.paymentStatus,
             appointment_status: appointment.status,
         });
     } catch (error) {
-        const providerStatus = Number(error?.response?.status || 0);
-        const providerMessage =
-            error?.response?.data?.message ||
-            error?.response?.data?.error_description ||
-            error?.response?.data?.error ||
-            error?.message ||
-            'Failed to verify Cashfree payment';
+        if (isAppointmentTransitionError(error)) {
+            return res.status(error.status).json({ message: error.message });
+        }
+        const { status, message } = getProviderErrorResponse(error, 'Failed to verify payment');
+        res.status(status).json({ message });
+    }
+});
+
+// Signed webhooks older than this are refused as replays. Deliveries refused while the server was down are
+// picked up by payment reconciliation.
+const WEBHOOK_MAX_AGE_MINUTES = 5;
+
+function isStaleWebhook(event, now = Date.now()) {
+    const sentAt = event.sentAt instanceof Date ? event.sentAt.getTime() : NaN;
+    return !Number.isFinite(sentAt) || Math.abs(now - sentAt) > WEBHOOK_MAX_AGE_MINUTES * 60 * 1000;
+}
+
+// Moves the Refund a refund webhook is about to the status the provider reports
+async function handleRefundEvent(provider, event) {
+    const refund = await Refund.findOne({ gateway_refund_id: event.refundId, gateway: provider.name });
+    if (!refund) {
+        console.error(`${provider.label} refund webhook for unknown refund ${event.refundId} (${event.gatewayStatus})`);
+        return false;
+    }
+    if (refund.status !== 'initiated') {
+        return false;
+    }
+    await applyRefundStatus(refund, {
+        status: event.status,
+        gatewayStatus: event.gatewayStatus,
+        gatewayReferenceId: event.gatewayReferenceId,
+        failureReason: event.failureReason,
+    });
+    return refund.status !== 'initiated';
+}
+
+// Provider webhooks, e.g. /cashfree/webhook (no Bearer token; each provider checks its own signature header).
+// Confirms the appointment of a successful payment, once per order, and records the outcome of refunds.
+// A payment for an appointment that was cancelled meanwhile is recorded and refunded.
+// Anything else is acknowledged with 200 so the provider stops retrying; failed or abandoned checkouts are
+// left to the browser flow and cancelExpiredUnpaidAppointments.
+router.post('/:provider/webhook', async (req, res) => {
+    try {
+        const provider = getPaymentProvider(req.params.provider);
+        if (!provider || !canAcceptPayments(provider.name)) {
+            return res.status(404).json({ message: 'Unknown payment provider' });
+        }
+
+        const event = provider.parseWebhook({
+            rawBody: req.rawBody ? req.rawBody.toString('utf8') : '',
+            headers: req.headers,
+            body: req.body,
+        });
+        if (!event) {
+            return res.status(401).json({ message: 'Invalid webhook signature' });
+        }
+
+        if (event.kind !== 'payment' && event.kind !== 'refund') {
+            return res.json({ received: true, processed: false });
+        }
+        if (isStaleWebhook(event)) {
+            return res.status(401).json({ message: 'Webhook timestamp is too old' });
+        }
+
+        if (event.kind === 'refund') {
+            const processed = await handleRefundEvent(provider, event);
+            return res.json({ received: true, processed });
+        }
+
+        if (!event.paid) {
+            return res.json({ received: true, processed: false });
+        }
+
+        const existingPayment = await Payment.findOne({ [provider.orderIdField]: event.orderId, status: { $in: ['completed', 'refunded'] } });
+        if (existingPayment) {
+            return res.json({ received: true, processed: false, duplicate: true });
+        }
+
+        const appointment = event.appointmentId ? await Appointment.findById(event.appointmentId) : null;
+        if (!appointment) {
+            console.error(`${provider.label} webhook for unknown order ${event.orderId}`);
+            return res.json({ received: true, processed: false });
+        }
+
+        if (Math.abs(event.amount - Number(appointment.amount || 0)) > 0.01) {
+            console.error(`${provider.label} webhook amount ${event.amount} does not match appointment ${appointment._id}`);
+            return res.json({ received: true, processed: false });
+        }
+
+        const paymentDetails = {
+            appointment,
+            patientId: appointment.patient_id,
+            provider,
+            orderId: event.orderId,
+            paymentId: event.paymentId,
+            paymentStatus: event.paymentStatus,
+        };
+
+        // Paid after the appointment was cancelled: the money was taken, so it is recorded and given back
+        // instead of bringing the appointment back
+        if (appointment.status !== 'confirmed' && !canTransition(appointment.status, 'confirmed', 'system')) {
+            const completed = await completeOrderPayment(paymentDetails);
+            if (!completed) {
+                return res.json({ received: true, processed: false, duplicate: true });
+            }
+            const refund = await refundPayment(completed, {
+                reason: `Payment received for a ${appointment.status} appointment`,
+                source: 'late_payment',
+            });
+            return res.json({ received: true, processed: true, refunded: refund.status !== 'failed' });
+        }
+
+        const { alreadyRecorded } = await confirmAppointmentPayment(paymentDetails);
 
-        const statusCode = providerStatus >= 400 && providerStatus < 500 ? 400 : 500;
-        res.status(statusCode).json({ message: providerMessage });
+        res.json({ received: true, processed: !alreadyRecorded, duplicate: alreadyRecorded });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
     }
 });
 
-// Explicitly mark a payment as failed (called by clients when Cashfree SDK errors out)
-router.post('/cashfree/fail', protect, async (req, res) => {
+// Explicitly mark a payment as failed (called by clients when the checkout SDK errors out)
+router.post('/checkout/fail', protect, async (req, res) => {
     try {
         const { appointment_id } = req.body || {};
         if (!appointment_id) {
@@ -325,86 +559,64 @@ router.post('/cashfree/fail', protect, async (req, res) => {
             return res.status(400).json({ message: 'Appointment is already paid' });
         }
 
-        appointment.status = 'cancelled';
+        transitionAppointment(appointment, 'cancelled', { role: 'system', userId: req.user._id, reason: 'Payment failed via client report' });
         appointment.payment_status = 'failed';
         appointment.notes = (appointment.notes || '') + ' Payment failed via client report.';
         await appointment.save();
+        await failOrderPayments(appointment._id);
 
         res.json({ message: 'Appointment cancelled due to payment failure. Time slot freed.' });
     } catch (error) {
+        if (isAppointmentTransitionError(error)) {
+            return res.status(error.status).json({ message: error.message });
+        }
         res.status(500).json({ message: error.message });
     }
 });
 
-// Process a payment
+// Admin: record a cash payment taken outside the checkout, e.g. at the clinic. It confirms the appointment like a
+// verified online payment. Patients pay online only through /checkout/order and /checkout/verify.
 router.post('/', protect, async (req, res) => {
     try {
-        const {
-            appointment_id,
-            razorpay_order_id,
-            razorpay_payment_id,
-            payment_method = 'online',
-        } = req.body;
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Only admins can record cash payments' });
+        }
 
-        const method = String(payment_method).toLowerCase() === 'cash' ? 'cash' : 'online';
+        const { appointment_id, payment_method = 'cash' } = req.body || {};
+        if (String(payment_method).toLowerCase() !== 'cash') {
+            return res.status(400).json({ message: 'Online payments are taken through the checkout' });
+        }
+        if (!mongoose.isValidObjectId(appointment_id)) {
+            return res.status(404).json({ message: 'Appointment not found' });
+        }
 
         const appointment = await Appointment.findById(appointment_id);
         if (!appointment) {
             return res.status(404).json({ message: 'Appointment not found' });
         }
-
-        if (appointment.patient_id.toString() !== req.user._id.toString()) {
-            return res.status(403).json({ message: 'Not authorized for this appointment payment' });
+        assertTransition(appointment, 'confirmed', 'system');
+        if (await Payment.exists({ appointment_id: appointment._id, status: { $in: ['completed', 'refunded'] } })) {
+            return res.status(400).json({ message: 'This appointment is already paid' });
         }
 
-        // Create payment record
         const payment = await Payment.create({
-            appointment_id,
-            patient_id: req.user._id,
+            appointment_id: appointment._id,
+            patient_id: appointment.patient_id,
             amount: Number(appointment.amount || 0),
-            status: method === 'cash' ? 'pending' : 'completed',
+            status: 'completed',
             settlement_status: 'unsettled',
-            razorpay_order_id: method === 'online' ? razorpay_order_id : undefined,
-            razorpay_payment_id: method === 'online' ? razorpay_payment_id : undefined,
         });
-
-        // Online payments confirm immediately, cash stays pending until handled later.
-        appointment.payment_status = method === 'online' ? 'paid' : 'pending';
-        appointment.status = method === 'online' ? 'confirmed' : 'pending';
-
-        // Unlock chat/video if emergency
-        if (appointment.appointment_type === 'emergency') {
-            appointment.chat_unlocked = true;
-            appointment.video_unlocked = true;
-        }
-        await appointment.save();
-
-        try {
-            const Notification = require('../models/Notification');
-            await Notification.create({
-                user_id: appointment.patient_id,
-                type: method === 'online' ? 'appointment_confirmed' : 'payment_pending',
-                message:
-                    method === 'online'
-                        ? `Payment received. Your appointment on ${appointment.appointment_date} at ${appointment.appointment_time} is confirmed.`
-                        : `Cash payment is pending for your appointment on ${appointment.appointment_date} at ${appointment.appointment_time}. It will be cancelled automatically if not completed in time.`,
-                data: {
-                    appointment_id: appointment._id,
-                    payment_method: method,
-                    payment_status: appointment.payment_status,
-                },
-            });
-        } catch (notifyErr) {
-            console.error('Failed to create payment confirmation notification', notifyErr);
-        }
+        await confirmPaidAppointment(appointment, appointment.patient_id, payment, { paymentMethod: 'cash' });
 
         res.status(201).json({
             payment,
             appointment,
             appointment_confirmed: appointment.status === 'confirmed',
-            appointment_pending: appointment.status === 'pending',
         });
     } catch (error) {
+        if (isAppointmentTransitionError(error)) {
+            return res.status(error.status).json({ message: error.message });
+        }
         res.status(400).json({ message: error.message });
     }
 });
@@ -423,15 +635,27 @@ router.get('/', protect, async (req, res) => {
                 return res.json([]);
             }
 
+            // Includes group appointments the doctor joined as a consultant
             const payments = await fetchCompletedPaymentsWithRelations();
             const doctorPayments = payments.filter((payment) => {
-                const doctorId = payment?.appointment_id?.doctor_id?._id || payment?.appointment_id?.doctor_id;
-                return doctorId && doctorId.toString() === doctor._id.toString();
+                return getPaymentShares(payment).some((share) => isShareOfDoctor(share, doctor._id));
             });
 
             return res.json(doctorPayments);
         }
 
+        if (req.user.role === 'clinic_admin') {
+            if (!isClinicAdmin(req.user)) {
+                return res.json([]);
+            }
+
+            const payments = await fetchCompletedPaymentsWithRelations();
+            return res.json(payments.filter((payment) => getPaymentShares(payment).some((share) => {
+                const shareOrganizationId = getShareOrganizationId(share);
+                return shareOrganizationId && shareOrganizationId.toString() === req.user.organization_id.toString();
+            })));
+        }
+
         const payments = await Payment.find({ patient_id: req.user._id });
         res.json(payments);
     } catch (error) {
@@ -452,6 +676,145 @@ router.get('/admin/all', protect, async (req, res) => {
     }
 });
 
+// Admin: refund a completed payment in part ({ amount }) or in full (no amount).
+// Gateway payments are refunded through their provider; the refund starts as 'initiated' and
+// the provider's refund webhook records when it is processed or failed.
+router.post('/admin/payments/:id/refund', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Payment not found' });
+        }
+
+        const { amount, reason = '' } = req.body || {};
+        if (!String(reason).trim()) {
+            return res.status(400).json({ message: 'A reason is required' });
+        }
+
+        const payment = await Payment.findById(req.params.id);
+        if (!payment) {
+            return res.status(404).json({ message: 'Payment not found' });
+        }
+
+        let refund;
+        try {
+            refund = await refundPayment(payment, { amount, reason, createdBy: req.user._id });
+        } catch (validationError) {
+            return res.status(400).json({ message: validationError.message });
+        }
+        res.status(201).json(refund);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: refunds, newest first, optionally only those in one status
+router.get('/admin/refunds', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const filter = {};
+        if (['initiated', 'processed', 'failed'].includes(req.query.status)) {
+            filter.status = req.query.status;
+        }
+
+        const refunds = await Refund.find(filter)
+            .populate('patient_id', 'full_name email')
+            .populate({ path: 'doctor_id', populate: { path: 'user_id', select: 'full_name' } })
+            .populate('appointment_id', 'appointment_date appointment_time')
+            .sort({ createdAt: -1 })
+            .limit(200);
+        res.json(refunds);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: send a failed refund to the gateway again
+router.post('/admin/refunds/:id/retry', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Refund not found' });
+        }
+
+        const refund = await Refund.findById(req.params.id);
+        if (!refund) {
+            return res.status(404).json({ message: 'Refund not found' });
+        }
+
+        try {
+            await retryRefund(refund);
+        } catch (validationError) {
+            return res.status(400).json({ message: validationError.message });
+        }
+        res.json(refund);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: recent payment reconciliation reports, newest first
+router.get('/admin/reconciliation', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const reports = await ReconciliationReport.find()
+            .populate('triggered_by', 'full_name')
+            .sort({ started_at: -1 })
+            .limit(30);
+        res.json(reports);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: reconciles payments now instead of waiting for the hourly job
+router.post('/admin/reconciliation/run', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const report = await reconcilePayments({ trigger: 'manual', triggeredBy: req.user._id });
+        res.status(201).json(report);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: one report's entries as a CSV file
+router.get('/admin/reconciliation/:id/download', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+        if (!mongoose.isValidObjectId(req.params.id)) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        const report = await ReconciliationReport.findById(req.params.id);
+        if (!report) {
+            return res.status(404).json({ message: 'Report not found' });
+        }
+
+        const stamp = report.started_at.toISOString().slice(0, 16).replace(/[-:T]/g, '');
+        res.set('Content-Type', 'text/csv; charset=utf-8');
+        res.set('Content-Disposition', `attachment; filename="reconciliation_${stamp}.csv"`);
+        res.send(buildReconciliationCsv(report));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
 router.get('/admin/doctor-earnings', protect, async (req, res) => {
     try {
         if (req.user.role !== 'admin') {
@@ -461,9 +824,9 @@ router.get('/admin/doctor-earnings', protect, async (req, res) => {
         const payments = await fetchCompletedPaymentsWithRelations();
         const grouped = new Map();
 
-        for (const payment of payments) {
-            const appointment = payment.appointment_id;
-            const doctor = appointment?.doctor_id;
+        for (const share of getSharesOfPayments(payments)) {
+            const appointment = share.payment.appointment_id;
+            const doctor = share.doctor;
             const doctorKey = buildDoctorKey(doctor);
             if (!doctorKey) continue;
 
@@ -472,9 +835,12 @@ router.get('/admin/doctor-earnings', protect, async (req, res) => {
                     doctor_id: doctorKey,
                     doctor_name: buildDoctorLabel(doctor),
                     doctor_email: doctor?.user_id?.email || null,
+                    organization_id: getShareOrganizationId(share),
+                    organization_name: doctor?.organization_id?.name || null,
                     total_earnings: 0,
                     settled_earnings: 0,
                     unsettled_earnings: 0,
+                    clawback_due: 0,
                     total_payments: 0,
                     unsettled_payments: 0,
                     normal_appointments: 0,
@@ -483,9 +849,9 @@ router.get('/admin/doctor-earnings', protect, async (req, res) => {
             }
 
             const row = grouped.get(doctorKey);
-            const amount = getDoctorEarningAmount(payment);
-            const settledAmount = getPaymentSettledAmount(payment);
-            const unsettledAmount = getPaymentUnsettledAmount(payment);
+            const amount = share.amount;
+            const settledAmount = getShareSettledAmount(share);
+            const unsettledAmount = getShareUnsettledAmount(share);
             const hasUnsettledAmount = unsettledAmount > 1e-9;
             const appointmentType = String(appointment?.appointment_type || '').toLowerCase();
 
@@ -500,6 +866,7 @@ router.get('/admin/doctor-earnings', protect, async (req, res) => {
 
             row.settled_earnings += settledAmount;
             row.unsettled_earnings += unsettledAmount;
+            row.clawback_due += getShareClawbackAmount(share);
 
             if (hasUnsettledAmount) {
                 row.unsettled_payments += 1;
@@ -512,93 +879,198 @@ router.get('/admin/doctor-earnings', protect, async (req, res) => {
     }
 });
 
-router.patch('/admin/settle-doctor/:doctorId', protect, async (req, res) => {
+// Admin: earnings per organization, the unit clinics are settled as
+router.get('/admin/organization-earnings', protect, async (req, res) => {
     try {
         if (req.user.role !== 'admin') {
             return res.status(403).json({ message: 'Not authorized as admin' });
         }
 
-        const { doctorId } = req.params;
-        const { notes = '', settlement_amount } = req.body || {};
+        const payments = await fetchCompletedPaymentsWithRelations();
+        const grouped = new Map();
+
+        for (const share of getSharesOfPayments(payments)) {
+            const organizationId = getShareOrganizationId(share);
+            if (!organizationId) continue;
 
-        let requestedAmount = null;
-        if (settlement_amount !== undefined && settlement_amount !== null && settlement_amount !== '') {
-            requestedAmount = Number(settlement_amount);
-            if (!Number.isFinite(requestedAmount) || requestedAmount <= 0) {
-                return res.status(400).json({ message: 'settlement_amount must be a positive number' });
+            const key = organizationId.toString();
+            if (!grouped.has(key)) {
+                grouped.set(key, {
+                    organization_id: key,
+                    organization_name: share.doctor.organization_id?.name || 'Organization',
+                    total_earnings: 0,
+                    settled_earnings: 0,
+                    unsettled_earnings: 0,
+                    clawback_due: 0,
+                    total_payments: 0,
+                    unsettled_payments: 0,
+                    doctor_ids: new Set(),
+                });
+            }
+
+            const row = grouped.get(key);
+            const unsettledAmount = getShareUnsettledAmount(share);
+            row.total_earnings += share.amount;
+            row.settled_earnings += getShareSettledAmount(share);
+            row.unsettled_earnings += unsettledAmount;
+            row.clawback_due += getShareClawbackAmount(share);
+            row.total_payments += 1;
+            if (unsettledAmount > 1e-9) {
+                row.unsettled_payments += 1;
             }
+            row.doctor_ids.add(share.doctorId.toString());
+        }
+
+        res.json(Array.from(grouped.values()).map(({ doctor_ids: doctorIds, ...row }) => ({
+            ...row,
+            doctor_count: doctorIds.size,
+        })));
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Admin: one settlement covering every member doctor of an organization
+router.patch('/admin/settle-organization/:organizationId', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
+
+        const { organizationId } = req.params;
+        const { notes = '', settlement_amount } = req.body || {};
+
+        const { requestedAmount, error: amountError } = parseSettlementAmount(settlement_amount);
+        if (amountError) {
+            return res.status(400).json({ message: amountError });
+        }
+
+        const organization = mongoose.isValidObjectId(organizationId) ? await Organization.findById(organizationId) : null;
+        if (!organization) {
+            return res.status(404).json({ message: 'Organization not found' });
         }
 
         const payments = await fetchCompletedPaymentsWithRelations();
-        const doctorPayments = payments.filter((payment) => {
-            const appointmentDoctorId = payment?.appointment_id?.doctor_id?._id || payment?.appointment_id?.doctor_id;
-            const isUnsettled = getPaymentUnsettledAmount(payment) > 1e-9;
-            return appointmentDoctorId && appointmentDoctorId.toString() === doctorId.toString() && isUnsettled;
+        const organizationShares = getSharesOfPayments(payments).filter((share) => {
+            const shareOrganizationId = getShareOrganizationId(share);
+            return shareOrganizationId
+                && shareOrganizationId.toString() === organization._id.toString()
+                && hasOutstandingSettlement(share);
         });
 
-        if (doctorPayments.length === 0) {
-            return res.status(404).json({ message: 'No unsettled completed payments found for this doctor' });
+        if (organizationShares.length === 0) {
+            return res.status(404).json({ message: 'No unsettled completed payments found for this organization' });
         }
 
-        const orderedDoctorPayments = [...doctorPayments].sort(
-            (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-        );
+        const {
+            settledAmount,
+            clawbackAmount,
+            touchedPaymentsCount,
+            totalUnsettledAmount,
+            settledAt,
+        } = await settleShares(organizationShares, { requestedAmount, notes, settledBy: req.user._id });
 
-        const totalUnsettledAmount = orderedDoctorPayments.reduce((sum, payment) => {
-            return sum + getPaymentUnsettledAmount(payment);
-        }, 0);
+        if (settledAmount <= 1e-9) {
+            return res.status(400).json({ message: 'Unable to settle the requested amount' });
+        }
 
-        const targetAmount = requestedAmount === null
-            ? totalUnsettledAmount
-            : Math.min(requestedAmount, totalUnsettledAmount);
+        const remainingUnsettledAmount = Number((totalUnsettledAmount - settledAmount - clawbackAmount).toFixed(2));
+        const clawbackNote = clawbackAmount > 0 ? ` ₹${clawbackAmount} was withheld for refunds of earlier settled payments.` : '';
+
+        try {
+            const Notification = require('../models/Notification');
+            const clinicAdmins = await User.find({ role: 'clinic_admin', organization_id: organization._id }).select('_id');
+            const noteSuffix = String(notes || '').trim() ? ` Note: ${String(notes).trim()}` : '';
+            for (const clinicAdmin of clinicAdmins) {
+                await Notification.create({
+                    user_id: clinicAdmin._id,
+                    type: 'earning_settlement',
+                    message: `Admin settled ₹${settledAmount} of ${organization.name}'s earnings. Remaining unsettled: ₹${remainingUnsettledAmount}.${clawbackNote}${noteSuffix}`,
+                    data: {
+                        organization_id: organization._id,
+                        settled_amount: settledAmount,
+                        clawback_amount: clawbackAmount,
+                        remaining_unsettled_amount: remainingUnsettledAmount,
+                        settled_at: settledAt,
+                    },
+                });
+            }
+        } catch (notifyErr) {
+            console.error('Organization settlement notification failed', notifyErr);
+        }
+
+        res.json({
+            message: 'Organization earnings settled successfully',
+            settled_payments: touchedPaymentsCount,
+            settled_amount: settledAmount,
+            clawback_amount: clawbackAmount,
+            requested_settlement_amount: requestedAmount,
+            total_unsettled_before_settlement: totalUnsettledAmount,
+            remaining_unsettled_amount: remainingUnsettledAmount,
+            settled_at: settledAt,
+            note: String(notes || ''),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
 
-        const settledAt = new Date();
-        let remainingToSettle = targetAmount;
-        let settledAmount = 0;
-        let touchedPaymentsCount = 0;
+router.patch('/admin/settle-doctor/:doctorId', protect, async (req, res) => {
+    try {
+        if (req.user.role !== 'admin') {
+            return res.status(403).json({ message: 'Not authorized as admin' });
+        }
 
-        for (const payment of orderedDoctorPayments) {
-            if (remainingToSettle <= 1e-9) break;
+        const { doctorId } = req.params;
+        const { notes = '', settlement_amount } = req.body || {};
 
-            const unsettledAmount = getPaymentUnsettledAmount(payment);
-            if (unsettledAmount <= 1e-9) continue;
+        const { requestedAmount, error: amountError } = parseSettlementAmount(settlement_amount);
+        if (amountError) {
+            return res.status(400).json({ message: amountError });
+        }
 
-            const settleNow = Math.min(unsettledAmount, remainingToSettle);
-            const nextSettledAmount = getPaymentSettledAmount(payment) + settleNow;
-            const paymentAmount = getDoctorEarningAmount(payment);
-            const isNowFullySettled = nextSettledAmount >= paymentAmount - 1e-9;
+        // A clinic's doctors are paid out to the clinic as a whole
+        const doctor = mongoose.isValidObjectId(doctorId) ? await Doctor.findById(doctorId).select('organization_id') : null;
+        if (doctor?.organization_id) {
+            return res.status(409).json({ message: 'This doctor is settled through their organization' });
+        }
 
-            payment.settled_amount = Number(nextSettledAmount.toFixed(2));
-            payment.last_settlement_amount = Number(settleNow.toFixed(2));
-            payment.settlement_status = isNowFullySettled ? 'settled' : 'unsettled';
-            payment.settled_at = settledAt;
-            payment.settled_by = req.user._id;
-            payment.settlement_notes = String(notes || '');
-            await payment.save();
+        const payments = await fetchCompletedPaymentsWithRelations();
+        const doctorShares = getSharesOfPayments(payments).filter((share) => {
+            return isShareOfDoctor(share, doctorId) && hasOutstandingSettlement(share);
+        });
 
-            settledAmount += settleNow;
-            remainingToSettle -= settleNow;
-            touchedPaymentsCount += 1;
+        if (doctorShares.length === 0) {
+            return res.status(404).json({ message: 'No unsettled completed payments found for this doctor' });
         }
 
+        const {
+            settledAmount,
+            clawbackAmount,
+            touchedPaymentsCount,
+            totalUnsettledAmount,
+            settledAt,
+        } = await settleShares(doctorShares, { requestedAmount, notes, settledBy: req.user._id });
+
         if (settledAmount <= 1e-9) {
             return res.status(400).json({ message: 'Unable to settle the requested amount' });
         }
 
-        settledAmount = Number(settledAmount.toFixed(2));
-        const remainingUnsettledAmount = totalUnsettledAmount - settledAmount;
+        const remainingUnsettledAmount = totalUnsettledAmount - settledAmount - clawbackAmount;
+        const clawbackNote = clawbackAmount > 0 ? ` ₹${clawbackAmount} was withheld for refunds of earlier settled payments.` : '';
 
         try {
             const Notification = require('../models/Notification');
-            const doctorUserId = orderedDoctorPayments[0]?.appointment_id?.doctor_id?.user_id?._id;
+            const doctorUserId = doctorShares[0]?.doctor?.user_id?._id;
             if (doctorUserId) {
                 const noteSuffix = String(notes || '').trim() ? ` Note: ${String(notes).trim()}` : '';
                 await Notification.create({
                     user_id: doctorUserId,
                     type: 'earning_settlement',
-                    message: `Admin settled ₹${settledAmount} of your earnings. Remaining unsettled: ₹${remainingUnsettledAmount}.${noteSuffix}`,
+                    message: `Admin settled ₹${settledAmount} of your earnings. Remaining unsettled: ₹${Number(remainingUnsettledAmount.toFixed(2))}.${clawbackNote}${noteSuffix}`,
                     data: {
                         settled_amount: settledAmount,
+                        clawback_amount: clawbackAmount,
                         remaining_unsettled_amount: remainingUnsettledAmount,
                         settled_at: settledAt,
                     },
@@ -612,6 +1084,7 @@ router.patch('/admin/settle-doctor/:doctorId', protect, async (req, res) => {
             message: 'Doctor earnings settled successfully',
             settled_payments: touchedPaymentsCount,
             settled_amount: settledAmount,
+            clawback_amount: clawbackAmount,
             requested_settlement_amount: requestedAmount,
             total_unsettled_before_settlement: totalUnsettledAmount,
             remaining_unsettled_amount: Number(remainingUnsettledAmount.toFixed(2)),
@@ -635,26 +1108,25 @@ router.get('/doctor/summary', protect, async (req, res) => {
         }
 
         const payments = await fetchCompletedPaymentsWithRelations();
-        const doctorPayments = payments.filter((payment) => {
-            const appointmentDoctorId = payment?.appointment_id?.doctor_id?._id || payment?.appointment_id?.doctor_id;
-            return appointmentDoctorId && appointmentDoctorId.toString() === doctor._id.toString();
-        });
+        const doctorShares = getSharesOfPayments(payments).filter((share) => isShareOfDoctor(share, doctor._id));
 
-        const grossEarnings = doctorPayments.reduce((sum, payment) => sum + getDoctorEarningAmount(payment), 0);
-        const settledEarnings = doctorPayments.reduce((sum, payment) => sum + getPaymentSettledAmount(payment), 0);
-        const unsettledEarnings = doctorPayments.reduce((sum, payment) => sum + getPaymentUnsettledAmount(payment), 0);
+        const grossEarnings = doctorShares.reduce((sum, share) => sum + share.amount, 0);
+        const settledEarnings = doctorShares.reduce((sum, share) => sum + getShareSettledAmount(share), 0);
+        const unsettledEarnings = doctorShares.reduce((sum, share) => sum + getShareUnsettledAmount(share), 0);
+        const clawbackDue = doctorShares.reduce((sum, share) => sum + getShareClawbackAmount(share), 0);
 
-        const recentSettlements = doctorPayments
-            .filter((payment) => Number(payment.last_settlement_amount || 0) > 0)
+        const recentSettlements = doctorShares
+            .map((share) => ({ share, settlement: getShareLastSettlement(share) }))
+            .filter(({ settlement }) => settlement.amount > 0)
             .slice(0, 10)
-            .map((payment) => ({
-                payment_id: payment._id,
-                amount: Number(payment.last_settlement_amount || payment.amount || 0),
-                settled_at: payment.settled_at,
-                settlement_notes: payment.settlement_notes || '',
-                appointment_id: payment?.appointment_id?._id || payment?.appointment_id,
-                appointment_date: payment?.appointment_id?.appointment_date || null,
-                appointment_time: payment?.appointment_id?.appointment_time || null,
+            .map(({ share, settlement }) => ({
+                payment_id: share.payment._id,
+                amount: settlement.amount,
+                settled_at: settlement.settledAt,
+                settlement_notes: settlement.notes || '',
+                appointment_id: share.payment?.appointment_id?._id || share.payment?.appointment_id,
+                appointment_date: share.payment?.appointment_id?.appointment_date || null,
+                appointment_time: share.payment?.appointment_id?.appointment_time || null,
             }));
 
         res.json({
@@ -662,9 +1134,10 @@ router.get('/doctor/summary', protect, async (req, res) => {
             gross_earnings: grossEarnings,
             settled_earnings: Number(settledEarnings.toFixed(2)),
             unsettled_earnings: Number(unsettledEarnings.toFixed(2)),
-            total_payments: doctorPayments.length,
-            settled_payments: doctorPayments.filter((payment) => payment.settlement_status === 'settled').length,
-            unsettled_payments: doctorPayments.filter((payment) => getPaymentUnsettledAmount(payment) > 1e-9).length,
+            clawback_due: Number(clawbackDue.toFixed(2)),
+            total_payments: doctorShares.length,
+            settled_payments: doctorShares.filter((share) => getShareUnsettledAmount(share) <= 1e-9).length,
+            unsettled_payments: doctorShares.filter((share) => getShareUnsettledAmount(share) > 1e-9).length,
             recent_settlements: recentSettlements,
         });
     } catch (error) {
@@ -672,4 +1145,55 @@ router.get('/doctor/summary', protect, async (req, res) => {
     }
 });
 
+// Clinic admin: combined and per-doctor earnings of their organization
+router.get('/organization/summary', protect, async (req, res) => {
+    try {
+        if (!isClinicAdmin(req.user)) {
+            return res.status(403).json({ message: 'Not authorized as clinic admin' });
+        }
+
+        const payments = await fetchCompletedPaymentsWithRelations();
+        const organizationShares = getSharesOfPayments(payments).filter((share) => {
+            const shareOrganizationId = getShareOrganizationId(share);
+            return shareOrganizationId && shareOrganizationId.toString() === req.user.organization_id.toString();
+        });
+
+        const doctors = new Map();
+        for (const share of organizationShares) {
+            const doctor = share.doctor;
+            const key = doctor._id.toString();
+            if (!doctors.has(key)) {
+                doctors.set(key, {
+                    doctor_id: key,
+                    doctor_name: buildDoctorLabel(doctor),
+                    total_earnings: 0,
+                    settled_earnings: 0,
+                    unsettled_earnings: 0,
+                    clawback_due: 0,
+                    total_payments: 0,
+                });
+            }
+            const row = doctors.get(key);
+            row.total_earnings += share.amount;
+            row.settled_earnings += getShareSettledAmount(share);
+            row.unsettled_earnings += getShareUnsettledAmount(share);
+            row.clawback_due += getShareClawbackAmount(share);
+            row.total_payments += 1;
+        }
+
+        const sum = (getAmount) => Number(organizationShares.reduce((total, share) => total + getAmount(share), 0).toFixed(2));
+
+        res.json({
+            total_earnings: sum((share) => share.amount),
+            settled_earnings: sum(getShareSettledAmount),
+            unsettled_earnings: sum(getShareUnsettledAmount),
+            clawback_due: sum(getShareClawbackAmount),
+            total_payments: new Set(organizationShares.map((share) => share.payment._id.toString())).size,
+            doctors: Array.from(doctors.values()),
+        });
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
 module.exports = router;
@@ -1,9 +1,24 @@
 // Platform settings route:
-// Exposes platform fee configuration for admin and public read access.
+// Exposes platform fee, booking, emergency triage, cancellation policy and payment provider configuration for
+// admin and public read access.
 const express = require('express');
 const router = express.Router();
 const PlatformSettings = require('../models/PlatformSettings');
 const { protect } = require('../middleware/authMiddleware');
+const {
+    DEFAULT_PAYMENT_PROVIDER,
+    PAYMENT_PROVIDERS,
+    getPaymentProvider,
+    isSelectablePaymentProvider,
+} = require('../services/paymentProviders');
+const { getPlatformCancellationPolicy, validateCancellationPolicy } = require('../utils/cancellationPolicy');
+const { normalizeReminderOffsets } = require('../utils/reminders');
+
+// Reminders further out than a week are not useful and would widen every scheduler scan
+const MAX_REMINDER_OFFSET_MINUTES = 7 * 24 * 60;
+const MAX_REMINDER_OFFSETS = 5;
+// An emergency left unanswered for longer than this is no longer an emergency booking
+const MAX_EMERGENCY_RESPONSE_MINUTES = 24 * 60;
 
 async function getOrCreateSettings() {
     let settings = await PlatformSettings.findOne({ key: 'global' });
@@ -13,10 +28,37 @@ async function getOrCreateSettings() {
     return settings;
 }
 
+function serializeSettings(settings) {
+    return {
+        platform_fee: Number(settings.platform_fee || 0),
+        reschedule_cutoff_hours: Number(settings.reschedule_cutoff_hours ?? 2),
+        reminder_offsets_minutes: normalizeReminderOffsets(settings.reminder_offsets_minutes),
+        cancellation_policy: getPlatformCancellationPolicy(settings),
+        no_show_patient_forfeits_fee: settings.no_show_patient_forfeits_fee ?? true,
+        no_show_doctor_auto_refund: settings.no_show_doctor_auto_refund ?? true,
+        no_show_prepayment_threshold: Number(settings.no_show_prepayment_threshold ?? 3),
+        emergency_response_minutes: Number(settings.emergency_response_minutes ?? 15),
+        payment_provider: settings.payment_provider || DEFAULT_PAYMENT_PROVIDER,
+    };
+}
+
+// Admin view of every provider: whether the server has its credentials and whether it may be chosen here
+function describePaymentProviders() {
+    return PAYMENT_PROVIDERS.map((name) => {
+        const provider = getPaymentProvider(name);
+        return {
+            name,
+            label: provider.label,
+            configured: provider.isConfigured(),
+            selectable: isSelectablePaymentProvider(name),
+        };
+    });
+}
+
 router.get('/public', async (req, res) => {
     try {
         const settings = await getOrCreateSettings();
-        res.json({ platform_fee: Number(settings.platform_fee || 0) });
+        res.json(serializeSettings(settings));
     } catch (error) {
         res.status(500).json({ message: error.message });
     }
@@ -30,7 +72,8 @@ router.get('/', protect, async (req, res) => {
 
         const settings = await getOrCreateSettings();
         res.json({
-            platform_fee: Number(settings.platform_fee || 0),
+            ...serializeSettings(settings),
+            payment_providers: describePaymentProviders(),
             updated_at: settings.updatedAt,
         });
     } catch (error) {
@@ -44,19 +87,119 @@ router.patch('/', protect, async (req, res) => {
             return res.status(403).json({ message: 'Not authorized as admin' });
         }
 
-        const nextFee = Number(req.body?.platform_fee);
-        if (!Number.isFinite(nextFee) || nextFee < 0) {
-            return res.status(400).json({ message: 'platform_fee must be a non-negative number' });
+        const {
+            platform_fee,
+            reschedule_cutoff_hours,
+            reminder_offsets_minutes,
+            cancellation_policy,
+            no_show_patient_forfeits_fee,
+            no_show_doctor_auto_refund,
+            no_show_prepayment_threshold,
+            emergency_response_minutes,
+            payment_provider,
+        } = req.body || {};
+        if (
+            platform_fee === undefined
+            && reschedule_cutoff_hours === undefined
+            && reminder_offsets_minutes === undefined
+            && cancellation_policy === undefined
+            && no_show_patient_forfeits_fee === undefined
+            && no_show_doctor_auto_refund === undefined
+            && no_show_prepayment_threshold === undefined
+            && emergency_response_minutes === undefined
+            && payment_provider === undefined
+        ) {
+            return res.status(400).json({ message: 'No settings provided' });
+        }
+
+        let nextFee = null;
+        if (platform_fee !== undefined) {
+            nextFee = Number(platform_fee);
+            if (!Number.isFinite(nextFee) || nextFee < 0) {
+                return res.status(400).json({ message: 'platform_fee must be a non-negative number' });
+            }
+        }
+
+        let nextCutoff = null;
+        if (reschedule_cutoff_hours !== undefined) {
+            nextCutoff = Number(reschedule_cutoff_hours);
+            if (!Number.isFinite(nextCutoff) || nextCutoff < 0) {
+                return res.status(400).json({ message: 'reschedule_cutoff_hours must be a non-negative number' });
+            }
+        }
+
+        let nextOffsets = null;
+        if (reminder_offsets_minutes !== undefined) {
+            const valid = Array.isArray(reminder_offsets_minutes)
+                && reminder_offsets_minutes.length <= MAX_REMINDER_OFFSETS
+                && reminder_offsets_minutes.every((offset) => {
+                    const minutes = Number(offset);
+                    return Number.isInteger(minutes) && minutes > 0 && minutes <= MAX_REMINDER_OFFSET_MINUTES;
+                });
+            if (!valid) {
+                return res.status(400).json({ message: `reminder_offsets_minutes must be up to ${MAX_REMINDER_OFFSETS} whole minute values between 1 and ${MAX_REMINDER_OFFSET_MINUTES}` });
+            }
+            nextOffsets = normalizeReminderOffsets(reminder_offsets_minutes);
+        }
+
+        if (cancellation_policy !== undefined) {
+            const policyError = validateCancellationPolicy(cancellation_policy);
+            if (policyError) {
+                return res.status(400).json({ message: policyError });
+            }
+        }
+
+        for (const [key, value] of Object.entries({ no_show_patient_forfeits_fee, no_show_doctor_auto_refund })) {
+            if (value !== undefined && typeof value !== 'boolean') {
+                return res.status(400).json({ message: `${key} must be true or false` });
+            }
+        }
+
+        let nextThreshold = null;
+        if (no_show_prepayment_threshold !== undefined) {
+            nextThreshold = Number(no_show_prepayment_threshold);
+            if (!Number.isInteger(nextThreshold) || nextThreshold < 0) {
+                return res.status(400).json({ message: 'no_show_prepayment_threshold must be a non-negative whole number' });
+            }
+        }
+
+        let nextResponseMinutes = null;
+        if (emergency_response_minutes !== undefined) {
+            nextResponseMinutes = Number(emergency_response_minutes);
+            if (!Number.isInteger(nextResponseMinutes) || nextResponseMinutes < 1 || nextResponseMinutes > MAX_EMERGENCY_RESPONSE_MINUTES) {
+                return res.status(400).json({ message: `emergency_response_minutes must be a whole number between 1 and ${MAX_EMERGENCY_RESPONSE_MINUTES}` });
+            }
+        }
+
+        if (payment_provider !== undefined && !isSelectablePaymentProvider(payment_provider)) {
+            return res.status(400).json({
+                message: getPaymentProvider(payment_provider)
+                    ? `${payment_provider} payments cannot be used in production`
+                    : `payment_provider must be one of ${PAYMENT_PROVIDERS.join(', ')}`,
+            });
         }
 
         const settings = await getOrCreateSettings();
-        settings.platform_fee = Number(nextFee.toFixed(2));
+        if (nextFee !== null) settings.platform_fee = Number(nextFee.toFixed(2));
+        if (nextCutoff !== null) settings.reschedule_cutoff_hours = nextCutoff;
+        if (nextOffsets !== null) settings.reminder_offsets_minutes = nextOffsets;
+        if (cancellation_policy !== undefined) {
+            settings.cancellation_full_refund_hours = Number(cancellation_policy.full_refund_hours);
+            settings.cancellation_partial_refund_hours = Number(cancellation_policy.partial_refund_hours);
+            settings.cancellation_partial_refund_percent = Number(cancellation_policy.partial_refund_percent);
+        }
+        if (no_show_patient_forfeits_fee !== undefined) settings.no_show_patient_forfeits_fee = no_show_patient_forfeits_fee;
+        if (no_show_doctor_auto_refund !== undefined) settings.no_show_doctor_auto_refund = no_show_doctor_auto_refund;
+        if (nextThreshold !== null) settings.no_show_prepayment_threshold = nextThreshold;
+        if (nextResponseMinutes !== null) settings.emergency_response_minutes = nextResponseMinutes;
+        if (payment_provider !== undefined) settings.payment_provider = payment_provider;
         settings.updated_by = req.user._id;
         await settings.save();
 
         res.json({
-            message: 'Platform fee updated successfully',
-            platform_fee: Number(settings.platform_fee || 0),
+            message: 'Platform settings updated successfully',
+            ...serializeSettings(settings),
+            payment_providers: describePaymentProviders(),
             updated_at: settings.updatedAt,
         });
     } catch (error) {
@@ -6,14 +6,22 @@ const Prescription = require('../models/Prescription');
 const Doctor = require('../models/Doctor');
 const Appointment = require('../models/Appointment');
 const { protect } = require('../middleware/authMiddleware');
+const { buildDependentFilter } = require('../utils/dependents');
 
+const INVALID_DEPENDENT_MESSAGE = 'dependent_id must be "self" or a dependent id';
+
+// Patients can pass ?dependent_id=self|<id> to list one family member's prescriptions
 router.get('/', protect, async (req, res) => {
     try {
         const { role, _id } = req.user;
         let query = {};
 
         if (role === 'patient') {
-            query.patient_id = _id;
+            const dependentFilter = buildDependentFilter(req.query.dependent_id, 'dependent.dependent_id');
+            if (!dependentFilter) {
+                return res.status(400).json({ message: INVALID_DEPENDENT_MESSAGE });
+            }
+            query = { ...dependentFilter, patient_id: _id };
         } else if (role === 'doctor') {
             const doctor = await Doctor.findOne({ user_id: _id });
             if (doctor) query.doctor_id = doctor._id;
@@ -34,14 +42,20 @@ router.get('/', protect, async (req, res) => {
     }
 });
 
-// Get prescriptions for a specific patient (for doctor review)
+// Get prescriptions for a specific patient (for doctor review); ?dependent_id=self|<id> narrows it to one
+// family member on the patient's account
 router.get('/patient/:patientId', protect, async (req, res) => {
     try {
         if (req.user.role !== 'doctor') {
             return res.status(403).json({ message: 'Only doctors can view patient medical history' });
         }
 
-        const prescriptions = await Prescription.find({ patient_id: req.params.patientId })
+        const dependentFilter = buildDependentFilter(req.query.dependent_id, 'dependent.dependent_id');
+        if (!dependentFilter) {
+            return res.status(400).json({ message: INVALID_DEPENDENT_MESSAGE });
+        }
+
+        const prescriptions = await Prescription.find({ ...dependentFilter, patient_id: req.params.patientId })
             .populate({
                 path: 'doctor_id',
                 populate: { path: 'user_id', select: 'full_name' }
@@ -111,6 +125,7 @@ router.post('/', protect, async (req, res) => {
         const prescription = await Prescription.create({
             appointment_id,
             patient_id: appointment.patient_id,
+            dependent: appointment.dependent,
             doctor_id: doctorProfile._id,
             diagnosis,
             medications,
@@ -0,0 +1,131 @@
+// Waitlist route:
+// Lets patients queue for a fully booked doctor/date and see or leave their waitlist entries.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const Doctor = require('../models/Doctor');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const { protect } = require('../middleware/authMiddleware');
+const { listDoctorSlots } = require('../utils/appointmentSlots');
+const { getTodayInTimezone } = require('../utils/timezones');
+const { offerSlotToWaitlist } = require('../utils/waitlist');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Patient: join the waitlist for a doctor/date that has no free slot left
+router.post('/', protect, async (req, res) => {
+    try {
+        const { doctor_id, date } = req.body || {};
+
+        if (req.user.role !== 'patient') {
+            return res.status(403).json({ message: 'Only patients can join a waitlist' });
+        }
+
+        if (!mongoose.isValidObjectId(doctor_id)) {
+            return res.status(404).json({ message: 'Doctor not found' });
+        }
+        if (!DATE_PATTERN.test(String(date || ''))) {
+            return res.status(400).json({ message: 'Date must be in YYYY-MM-DD format' });
+        }
+
+        const doctor = await Doctor.findById(doctor_id);
+        if (!doctor) return res.status(404).json({ message: 'Doctor not found' });
+
+        if (date < getTodayInTimezone(doctor.timezone)) {
+            return res.status(400).json({ message: 'Cannot join a waitlist for a past date' });
+        }
+
+        const { days } = await listDoctorSlots({ doctor, from: date, to: date });
+        const day = days[0];
+        if (!day || !day.available) {
+            return res.status(400).json({ message: 'Doctor is not available on this date' });
+        }
+        if (day.slots.some((slot) => slot.status === 'free')) {
+            return res.status(400).json({ message: 'Slots are still available on this date' });
+        }
+
+        const existing = await WaitlistEntry.findOne({
+            doctor_id,
+            patient_id: req.user._id,
+            date,
+            status: { $in: ['waiting', 'offered'] },
+        });
+        if (existing) {
+            return res.status(400).json({ message: 'You are already on the waitlist for this date' });
+        }
+
+        const entry = await WaitlistEntry.create({ doctor_id, patient_id: req.user._id, date });
+        const position = await WaitlistEntry.countDocuments({
+            doctor_id,
+            date,
+            status: 'waiting',
+            createdAt: { $lte: entry.createdAt },
+        });
+
+        res.status(201).json({ ...entry.toObject(), position });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+// Patient: own open waitlist entries, with queue position for waiting ones
+router.get('/mine', protect, async (req, res) => {
+    try {
+        const entries = await WaitlistEntry.find({
+            patient_id: req.user._id,
+            status: { $in: ['waiting', 'offered'] },
+        })
+            .populate({ path: 'doctor_id', select: 'specialization timezone', populate: { path: 'user_id', select: 'full_name' } })
+            .sort({ date: 1 });
+
+        const withPositions = await Promise.all(entries.map(async (entry) => {
+            if (entry.status !== 'waiting') {
+                return { ...entry.toObject(), position: null };
+            }
+            const position = await WaitlistEntry.countDocuments({
+                doctor_id: entry.doctor_id?._id || entry.doctor_id,
+                date: entry.date,
+                status: 'waiting',
+                createdAt: { $lte: entry.createdAt },
+            });
+            return { ...entry.toObject(), position };
+        }));
+
+        res.json(withPositions);
+    } catch (error) {
+        res.status(500).json({ message: error.message });
+    }
+});
+
+// Patient: leave the waitlist (also gives up a held slot, which moves on to the next patient)
+router.delete('/:id', protect, async (req, res) => {
+    try {
+        const entry = await WaitlistEntry.findById(req.params.id);
+        if (!entry) return res.status(404).json({ message: 'Waitlist entry not found' });
+
+        if (String(entry.patient_id) !== String(req.user._id)) {
+            return res.status(403).json({ message: 'Not authorized to change this waitlist entry' });
+        }
+        if (!['waiting', 'offered'].includes(entry.status)) {
+            return res.status(400).json({ message: `A ${entry.status} waitlist entry cannot be cancelled` });
+        }
+
+        const releasedTime = entry.status === 'offered' ? entry.offered_time : null;
+        entry.status = 'cancelled';
+        await entry.save();
+
+        if (releasedTime) {
+            try {
+                await offerSlotToWaitlist({ doctorId: entry.doctor_id, date: entry.date, time: releasedTime });
+            } catch (offerErr) {
+                console.error('[Waitlist] Failed to pass on released hold', offerErr);
+            }
+        }
+
+        res.json({ message: 'Removed from waitlist' });
+    } catch (error) {
+        res.status(400).json({ message: error.message });
+    }
+});
+
+module.exports = router;
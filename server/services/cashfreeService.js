@@ -0,0 +1,92 @@
+// Cashfree service:
+// Environment, credentials and the Payment Gateway API calls behind the Cashfree payment provider
+// (services/paymentProviders/cashfreeProvider.js).
+const axios = require('axios');
+
+const CASHFREE_API_VERSION = '2023-08-01';
+
+function isProductionCashfreeEnv() {
+    return String(process.env.CASHFREE_ENV || '').trim().toLowerCase() === 'production';
+}
+
+function getCashfreeBaseUrl() {
+    return isProductionCashfreeEnv()
+        ? 'https://api.cashfree.com/pg'
+        : 'https://sandbox.cashfree.com/pg';
+}
+
+function getCashfreeHeaders() {
+    return {
+        'x-client-id': process.env.CASHFREE_KEY_ID,
+        'x-client-secret': process.env.CASHFREE_KEY_SECRET,
+        'x-api-version': CASHFREE_API_VERSION,
+        'Content-Type': 'application/json',
+    };
+}
+
+function isCashfreeConfigured() {
+    return Boolean(process.env.CASHFREE_KEY_ID && process.env.CASHFREE_KEY_SECRET);
+}
+
+// The most useful message from a failed Cashfree API call
+function getCashfreeErrorMessage(error, fallback) {
+    return error?.response?.data?.message
+        || error?.response?.data?.error_description
+        || error?.response?.data?.error
+        || error?.message
+        || fallback;
+}
+
+async function createOrder(orderPayload) {
+    const { data } = await axios.post(`${getCashfreeBaseUrl()}/orders`, orderPayload, {
+        headers: getCashfreeHeaders(),
+    });
+    return data;
+}
+
+// Every payment attempt made against the order
+async function getOrderPayments(orderId) {
+    const { data } = await axios.get(`${getCashfreeBaseUrl()}/orders/${encodeURIComponent(orderId)}/payments`, {
+        headers: getCashfreeHeaders(),
+    });
+    return Array.isArray(data) ? data : [];
+}
+
+// Refunds part or all of a paid order. `refundId` is ours and must be unique within the order.
+// Resolves to Cashfree's refund entity ({ cf_refund_id, refund_id, refund_status, ... }).
+async function createRefund({ orderId, refundId, amount, note }) {
+    if (!isCashfreeConfigured()) {
+        throw new Error('Cashfree credentials are not configured on the server');
+    }
+    const { data } = await axios.post(
+        `${getCashfreeBaseUrl()}/orders/${encodeURIComponent(orderId)}/refunds`,
+        {
+            refund_amount: amount,
+            refund_id: refundId,
+            // Cashfree accepts 3 to 100 characters
+            refund_note: String(note || 'MediConnect refund').slice(0, 100).padEnd(3, '.'),
+        },
+        { headers: getCashfreeHeaders() }
+    );
+    return data;
+}
+
+async function getRefund({ orderId, refundId }) {
+    const { data } = await axios.get(
+        `${getCashfreeBaseUrl()}/orders/${encodeURIComponent(orderId)}/refunds/${encodeURIComponent(refundId)}`,
+        { headers: getCashfreeHeaders() }
+    );
+    return data;
+}
+
+module.exports = {
+    isProductionCashfreeEnv,
+    getCashfreeBaseUrl,
+    getCashfreeHeaders,
+    isCashfreeConfigured,
+    getCashfreeErrorMessage,
+    createOrder,
+    getOrderPayments,
+    createRefund,
+    getRefund,
+};
@@ -11,7 +11,8 @@ function _errorMessage(err, fallback) {
 }
 
 // provider: sendgrid | mailgun | smtp
-async function sendEmailDetailed({ to, subject, text, html }) {
+// attachments: [{ filename, content (Buffer), contentType }]
+async function sendEmailDetailed({ to, subject, text, html, attachments = [] }) {
     const provider = process.env.EMAIL_PROVIDER || '';
 
     if (provider === 'sendgrid' && process.env.SENDGRID_API_KEY) {
@@ -25,6 +26,14 @@ async function sendEmailDetailed({ to, subject, text, html }) {
                 text,
                 html,
             };
+            if (attachments.length) {
+                msg.attachments = attachments.map((file) => ({
+                    content: file.content.toString('base64'),
+                    filename: file.filename,
+                    type: file.contentType,
+                    disposition: 'attachment',
+                }));
+            }
             await sgMail.send(msg);
             return { ok: true, provider: 'sendgrid' };
         } catch (err) {
@@ -49,6 +58,9 @@ async function sendEmailDetailed({ to, subject, text, html }) {
                 subject,
                 text,
                 html,
+                ...(attachments.length && {
+                    attachment: attachments.map((file) => ({ filename: file.filename, data: file.content })),
+                }),
             });
             return { ok: true, provider: 'mailgun' };
         } catch (err) {
@@ -84,6 +96,7 @@ async function sendEmailDetailed({ to, subject, text, html }) {
                 subject,
                 text,
                 html,
+                attachments,
             });
             return { ok: true, provider: 'smtp' };
         } catch (err) {
@@ -0,0 +1,41 @@
+// File storage service:
+// Saves files the server generates itself (such as invoice PDFs) to the S3 bucket user uploads go to
+// (config/s3.js), returning the same kind of URL.
+const { PutObjectCommand, S3Client } = require('@aws-sdk/client-s3');
+
+let client = null;
+
+function isFileStorageConfigured() {
+    return Boolean(process.env.AWS_BUCKET_NAME && process.env.AWS_REGION);
+}
+
+function getClient() {
+    if (!client) {
+        client = new S3Client({
+            region: process.env.AWS_REGION,
+            credentials: {
+                accessKeyId: process.env.AWS_ACCESS_KEY_ID,
+                secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
+            },
+        });
+    }
+    return client;
+}
+
+// Resolves to the file's URL, or null when no bucket is configured
+async function storeFile({ key, body, contentType }) {
+    if (!isFileStorageConfigured()) {
+        return null;
+    }
+
+    const bucket = process.env.AWS_BUCKET_NAME;
+    await getClient().send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+    }));
+    return `https://${bucket}.s3.${process.env.AWS_REGION}.amazonaws.com/${key}`;
+}
+
+module.exports = { isFileStorageConfigured, storeFile };
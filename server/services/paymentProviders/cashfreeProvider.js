@@ -0,0 +1,204 @@
+// Cashfree payment provider:
+// Hosted checkout through Cashfree's JS SDK: the browser is redirected to Cashfree and back to returnUrl,
+// then the order's payments are looked up. Webhooks are signed with the client secret.
+const {
+    isCashfreeConfigured,
+    isProductionCashfreeEnv,
+    createOrder,
+    getOrderPayments,
+    createRefund,
+    getRefund,
+    getCashfreeErrorMessage,
+} = require('../cashfreeService');
+const {
+    PAYMENT_SUCCESS_EVENT,
+    REFUND_STATUS_EVENT,
+    isValidCashfreeSignature,
+    parseCashfreePaymentEvent,
+    parseCashfreeRefundEvent,
+} = require('../../utils/cashfreeWebhooks');
+const { getAppointmentIdFromOrderId } = require('../../utils/paymentOrders');
+const { PaymentProviderError, isUncertainProviderError } = require('./errors');
+
+// Cashfree refund_status values and the Refund status each one means
+const REFUND_STATUS_MAP = {
+    SUCCESS: 'processed',
+    PENDING: 'initiated',
+    ONHOLD: 'initiated',
+    CANCELLED: 'failed',
+    FAILED: 'failed',
+};
+
+function isLocalhostUrl(url) {
+    if (!url) return true;
+    return /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?/i.test(String(url).trim());
+}
+
+function toRefundResult(gatewayRefund) {
+    const gatewayStatus = String(gatewayRefund?.refund_status || 'PENDING').toUpperCase();
+    return {
+        status: REFUND_STATUS_MAP[gatewayStatus] || 'initiated',
+        gatewayStatus,
+        gatewayReferenceId: gatewayRefund?.cf_refund_id ? String(gatewayRefund.cf_refund_id) : null,
+        failureReason: gatewayRefund?.status_description,
+    };
+}
+
+function getCashfreeMode() {
+    return isProductionCashfreeEnv() ? 'production' : 'sandbox';
+}
+
+module.exports = {
+    name: 'cashfree',
+    label: 'Cashfree',
+    orderIdField: 'cashfree_order_id',
+
+    isConfigured: isCashfreeConfigured,
+
+    getCheckoutConfig() {
+        return { mode: getCashfreeMode() };
+    },
+
+    async createOrder({ appointment, user, orderId, returnUrl }) {
+        if (isProductionCashfreeEnv() && isLocalhostUrl(returnUrl)) {
+            throw new PaymentProviderError('Production Cashfree requires a public FRONTEND_URL (not localhost). Update FRONTEND_URL in server .env or use CASHFREE_ENV=sandbox for local testing.');
+        }
+
+        const data = await createOrder({
+            order_id: orderId,
+            order_amount: Number(appointment.amount || 0),
+            order_currency: 'INR',
+            customer_details: {
+                customer_id: String(user._id),
+                customer_name: user.full_name || 'Patient',
+                customer_email: user.email || 'patient@example.com',
+                customer_phone: user.phone || '9999999999',
+            },
+            order_meta: {
+                return_url: returnUrl,
+            },
+            order_note: `Appointment payment for ${appointment?.doctor_id?.user_id?.full_name || 'Doctor'}`,
+        });
+
+        return {
+            order_id: data.order_id,
+            checkout: {
+                payment_session_id: data.payment_session_id,
+                mode: getCashfreeMode(),
+            },
+        };
+    },
+
+    async verifyPayment({ orderId }) {
+        const payments = await getOrderPayments(orderId);
+        const successfulPayment = payments.find((payment) => payment.payment_status === 'SUCCESS');
+        if (!successfulPayment) {
+            return { paid: false, paymentStatus: payments[0]?.payment_status || 'PENDING' };
+        }
+        return {
+            paid: true,
+            paymentId: String(successfulPayment.cf_payment_id || successfulPayment.payment_id || ''),
+            paymentStatus: successfulPayment.payment_status,
+        };
+    },
+
+    async getOrderStatus(orderId) {
+        let payments;
+        try {
+            payments = await getOrderPayments(orderId);
+        } catch (error) {
+            if (error?.response?.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+        const successfulPayment = payments.find((payment) => payment.payment_status === 'SUCCESS');
+        return {
+            paid: Boolean(successfulPayment),
+            paymentId: successfulPayment ? String(successfulPayment.cf_payment_id || successfulPayment.payment_id || '') : null,
+            paymentStatus: successfulPayment?.payment_status || payments[0]?.payment_status || 'NOT_ATTEMPTED',
+            amount: successfulPayment ? Number(successfulPayment.payment_amount) : null,
+        };
+    },
+
+    toPaymentFields({ orderId, paymentId, paymentStatus }) {
+        return {
+            cashfree_order_id: orderId,
+            cashfree_payment_id: paymentId,
+            cashfree_payment_status: paymentStatus,
+        };
+    },
+
+    // Cashfree refunds once per refund_id, so a request whose outcome is unknown stays initiated until
+    // getRefundStatus finds out what happened
+    async createRefund({ payment, refundId, amount, note }) {
+        let gatewayRefund;
+        try {
+            gatewayRefund = await createRefund({ orderId: payment.cashfree_order_id, refundId, amount, note });
+        } catch (error) {
+            console.error(`Cashfree refund ${refundId} failed`, getCashfreeErrorMessage(error, error));
+            if (isUncertainProviderError(error)) {
+                return { status: 'initiated' };
+            }
+            return { status: 'failed', failureReason: getCashfreeErrorMessage(error, 'Cashfree refund request failed') };
+        }
+        return toRefundResult(gatewayRefund);
+    },
+
+    async getRefundStatus({ payment, refundId }) {
+        try {
+            return toRefundResult(await getRefund({ orderId: payment.cashfree_order_id, refundId }));
+        } catch (error) {
+            if (error?.response?.status === 404) {
+                return null;
+            }
+            throw error;
+        }
+    },
+
+    parseWebhook({ rawBody, headers, body }) {
+        const signatureOk = isValidCashfreeSignature({
+            rawBody,
+            timestamp: headers['x-webhook-timestamp'],
+            signature: headers['x-webhook-signature'],
+            secret: process.env.CASHFREE_KEY_SECRET,
+        });
+        if (!signatureOk) {
+            return null;
+        }
+        // The signed x-webhook-timestamp, in milliseconds
+        const sentAt = new Date(Number(headers['x-webhook-timestamp']));
+
+        if (body?.type === REFUND_STATUS_EVENT) {
+            const refundEvent = parseCashfreeRefundEvent(body);
+            const status = REFUND_STATUS_MAP[String(refundEvent?.refundStatus || '').toUpperCase()];
+            if (!refundEvent || !status) {
+                return { kind: 'ignored' };
+            }
+            return {
+                kind: 'refund',
+                sentAt,
+                refundId: refundEvent.refundId,
+                status,
+                gatewayStatus: refundEvent.refundStatus,
+                gatewayReferenceId: refundEvent.cfRefundId,
+                failureReason: refundEvent.statusDescription,
+            };
+        }
+
+        const event = parseCashfreePaymentEvent(body);
+        if (!event) {
+            return { kind: 'ignored' };
+        }
+        return {
+            kind: 'payment',
+            sentAt,
+            paid: event.type === PAYMENT_SUCCESS_EVENT && event.paymentStatus === 'SUCCESS',
+            orderId: event.orderId,
+            appointmentId: getAppointmentIdFromOrderId(event.orderId),
+            amount: event.orderAmount,
+            paymentId: event.paymentId,
+            paymentStatus: event.paymentStatus,
+        };
+    },
+};
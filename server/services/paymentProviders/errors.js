@@ -0,0 +1,22 @@
+// Payment provider errors:
+// A provider failure the API should answer with `status` rather than a 500, e.g. a checkout the
+// provider cannot start with the current configuration.
+class PaymentProviderError extends Error {
+    constructor(message, status = 400) {
+        super(message);
+        this.name = 'PaymentProviderError';
+        this.status = status;
+    }
+}
+
+function isPaymentProviderError(error) {
+    return error instanceof PaymentProviderError;
+}
+
+// A call that got no answer, or a 5xx: the gateway may still have acted on it
+function isUncertainProviderError(error) {
+    const status = Number(error?.response?.status || 0);
+    return !status || status >= 500;
+}
+
+module.exports = { PaymentProviderError, isPaymentProviderError, isUncertainProviderError };
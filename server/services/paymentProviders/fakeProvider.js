@@ -0,0 +1,121 @@
+// Fake payment provider:
+// Deterministic in-memory gateway for development and tests, so payments work offline. The browser's fake
+// checkout reports the outcome it wants ({ fake_outcome: 'success' | 'failure' }) and gets exactly that;
+// refunds are always processed. Orders live in this process only and are lost on restart.
+// Never selectable in production (see isSelectablePaymentProvider), and off wherever
+// FAKE_PAYMENT_WEBHOOK_SECRET is not set: its webhooks would otherwise be signed with a well-known key.
+const crypto = require('crypto');
+const { getAppointmentIdFromOrderId } = require('../../utils/paymentOrders');
+const { PaymentProviderError } = require('./errors');
+
+// order id -> { amount, status: 'created' | 'paid' | 'failed' }
+const orders = new Map();
+
+function getWebhookSecret() {
+    return process.env.FAKE_PAYMENT_WEBHOOK_SECRET || '';
+}
+
+function computeFakeSignature(rawBody) {
+    return crypto.createHmac('sha256', getWebhookSecret()).update(rawBody).digest('hex');
+}
+
+module.exports = {
+    name: 'fake',
+    label: 'Test payments (offline)',
+    orderIdField: 'fake_order_id',
+
+    isConfigured() {
+        return process.env.NODE_ENV !== 'production' && Boolean(getWebhookSecret());
+    },
+
+    getCheckoutConfig() {
+        return {};
+    },
+
+    async createOrder({ appointment, orderId }) {
+        orders.set(orderId, { amount: Number(appointment.amount || 0), status: 'created' });
+        return { order_id: orderId, checkout: {} };
+    },
+
+    async verifyPayment({ orderId, details }) {
+        const order = orders.get(orderId);
+        if (!order) {
+            throw new PaymentProviderError('Unknown test payment order', 404);
+        }
+        if (order.status === 'created') {
+            order.status = details?.fake_outcome === 'failure' ? 'failed' : 'paid';
+        }
+        return order.status === 'paid'
+            ? { paid: true, paymentId: `fake_pay_${orderId}`, paymentStatus: 'SUCCESS' }
+            : { paid: false, paymentStatus: 'FAILED' };
+    },
+
+    async getOrderStatus(orderId) {
+        const order = orders.get(orderId);
+        if (!order) {
+            return null;
+        }
+        return {
+            paid: order.status === 'paid',
+            paymentId: order.status === 'paid' ? `fake_pay_${orderId}` : null,
+            paymentStatus: order.status === 'paid' ? 'SUCCESS' : order.status.toUpperCase(),
+            amount: order.status === 'paid' ? order.amount : null,
+        };
+    },
+
+    toPaymentFields({ orderId, paymentId }) {
+        return {
+            fake_order_id: orderId,
+            fake_payment_id: paymentId,
+        };
+    },
+
+    async createRefund({ refundId }) {
+        return { status: 'processed', gatewayStatus: 'SUCCESS', gatewayReferenceId: `fake_refund_${refundId}` };
+    },
+
+    async getRefundStatus({ refundId }) {
+        return { status: 'processed', gatewayStatus: 'SUCCESS', gatewayReferenceId: `fake_refund_${refundId}` };
+    },
+
+    // Same events as the real gateways, signed with hex HMAC-SHA256 of the body in x-fake-signature,
+    // with created_at in Unix seconds:
+    // { type: 'payment.succeeded' | 'payment.failed', order_id, amount, payment_id, created_at }
+    // { type: 'refund.processed' | 'refund.failed', refund_id, created_at }
+    parseWebhook({ rawBody, headers, body }) {
+        if (!getWebhookSecret()) {
+            return null;
+        }
+        const expected = Buffer.from(computeFakeSignature(rawBody || ''));
+        const received = Buffer.from(String(headers['x-fake-signature'] || ''));
+        if (!rawBody || expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+            return null;
+        }
+        const sentAt = new Date(Number(body?.created_at) * 1000);
+
+        if (body?.type === 'refund.processed' || body?.type === 'refund.failed') {
+            return {
+                kind: 'refund',
+                sentAt,
+                refundId: String(body.refund_id || ''),
+                status: body.type === 'refund.processed' ? 'processed' : 'failed',
+                gatewayStatus: body.type === 'refund.processed' ? 'SUCCESS' : 'FAILED',
+                gatewayReferenceId: `fake_refund_${body.refund_id}`,
+                failureReason: body.type === 'refund.failed' ? 'Test refund failed' : '',
+            };
+        }
+        if ((body?.type === 'payment.succeeded' || body?.type === 'payment.failed') && body.order_id) {
+            return {
+                kind: 'payment',
+                sentAt,
+                paid: body.type === 'payment.succeeded',
+                orderId: String(body.order_id),
+                appointmentId: getAppointmentIdFromOrderId(body.order_id),
+                amount: Number(body.amount),
+                paymentId: String(body.payment_id || `fake_pay_${body.order_id}`),
+                paymentStatus: body.type === 'payment.succeeded' ? 'SUCCESS' : 'FAILED',
+            };
+        }
+        return { kind: 'ignored' };
+    },
+};
@@ -0,0 +1,99 @@
+// Payment providers:
+// The gateways appointments can be paid through, and the one patients currently check out with
+// (PlatformSettings.payment_provider). Every provider implements the same interface:
+//   name, label
+//   orderIdField                    Payment field holding the provider's order id (unique per payment)
+//   isConfigured()                  whether the server has what the provider needs
+//   getCheckoutConfig()             public values the browser SDK needs before an order exists
+//   createOrder({ appointment, user, orderId, returnUrl })
+//                                   -> { order_id, checkout } where checkout is handed to the browser SDK
+//   verifyPayment({ orderId, details })
+//                                   -> { paid, paymentId, paymentStatus, signature? } for what the browser reports
+//   getOrderStatus(orderId)         -> null when the gateway has no such order, otherwise
+//                                      { paid, paymentId, paymentStatus, amount } as the gateway sees it now
+//   toPaymentFields({ orderId, paymentId, paymentStatus, signature })
+//                                   -> the Payment fields that record a verified payment
+//   createRefund({ payment, refundId, amount, note })
+//                                   -> { status: 'initiated' | 'processed' | 'failed', gatewayStatus, gatewayReferenceId, failureReason }
+//                                      where 'failed' means the gateway refused it; a request with no clear answer
+//                                      (network error, 5xx) is 'initiated' and checked later through getRefundStatus
+//   getRefundStatus({ payment, refundId })
+//                                   -> null when the gateway has no such refund, otherwise the same as createRefund
+//   parseWebhook({ rawBody, headers, body })
+//                                   -> null when the signature is wrong, otherwise
+//                                      { kind: 'payment', sentAt, paid, orderId, appointmentId, amount, paymentId, paymentStatus }
+//                                      { kind: 'refund', sentAt, refundId, status, gatewayStatus, gatewayReferenceId, failureReason }
+//                                      { kind: 'ignored' }
+//                                   sentAt is the signed send time of the payload, used to refuse replays
+// Amounts are always in rupees; providers that work in paise convert at their edge.
+const PlatformSettings = require('../../models/PlatformSettings');
+const cashfreeProvider = require('./cashfreeProvider');
+const razorpayProvider = require('./razorpayProvider');
+const fakeProvider = require('./fakeProvider');
+const { PaymentProviderError, isPaymentProviderError } = require('./errors');
+
+const PROVIDERS = {
+    cashfree: cashfreeProvider,
+    razorpay: razorpayProvider,
+    fake: fakeProvider,
+};
+
+const PAYMENT_PROVIDERS = Object.keys(PROVIDERS);
+const DEFAULT_PAYMENT_PROVIDER = 'cashfree';
+
+function getPaymentProvider(name) {
+    return Object.prototype.hasOwnProperty.call(PROVIDERS, name) ? PROVIDERS[name] : null;
+}
+
+// The fake provider confirms whatever the browser tells it, so it never runs in production or without its secret
+function isSelectablePaymentProvider(name) {
+    return Boolean(getPaymentProvider(name)) && (name !== 'fake' || fakeProvider.isConfigured());
+}
+
+// Whether payments may be verified or received through the provider: the selectable ones, and any
+// registered provider under test
+function canAcceptPayments(name) {
+    return isSelectablePaymentProvider(name) || (Boolean(getPaymentProvider(name)) && process.env.NODE_ENV === 'test');
+}
+
+async function getActivePaymentProvider() {
+    const settings = await PlatformSettings.findOne({ key: 'global' }).select('payment_provider');
+    const name = settings?.payment_provider || DEFAULT_PAYMENT_PROVIDER;
+    return getPaymentProvider(isSelectablePaymentProvider(name) ? name : DEFAULT_PAYMENT_PROVIDER);
+}
+
+// The provider a recorded payment went through, or null for cash and other payments taken outside a gateway
+function getProviderForPayment(payment) {
+    if (payment?.provider) {
+        return getPaymentProvider(payment.provider);
+    }
+    // Payments recorded before the provider was stored were all Cashfree checkouts
+    return payment?.cashfree_order_id ? cashfreeProvider : null;
+}
+
+// Status and message for a failed provider call: the provider's own 4xx become 400s, anything else a 500
+function getProviderErrorResponse(error, fallback) {
+    if (isPaymentProviderError(error)) {
+        return { status: error.status, message: error.message };
+    }
+    const providerStatus = Number(error?.response?.status || 0);
+    const data = error?.response?.data;
+    return {
+        status: providerStatus >= 400 && providerStatus < 500 ? 400 : 500,
+        message: data?.message || data?.error?.description || data?.error_description
+            || (typeof data?.error === 'string' ? data.error : null) || error?.message || fallback,
+    };
+}
+
+module.exports = {
+    PAYMENT_PROVIDERS,
+    DEFAULT_PAYMENT_PROVIDER,
+    PaymentProviderError,
+    isPaymentProviderError,
+    getPaymentProvider,
+    isSelectablePaymentProvider,
+    canAcceptPayments,
+    getActivePaymentProvider,
+    getProviderForPayment,
+    getProviderErrorResponse,
+};
@@ -0,0 +1,206 @@
+// Razorpay payment provider:
+// Checkout opens in Razorpay's modal on the page; its handler receives the payment id and a signature over
+// "<order id>|<payment id>" made with the key secret, which is verified here. Razorpay works in paise.
+// Webhooks are signed with a separate webhook secret set in the Razorpay dashboard.
+const crypto = require('crypto');
+const axios = require('axios');
+const { getAppointmentIdFromOrderId } = require('../../utils/paymentOrders');
+const { PaymentProviderError, isUncertainProviderError } = require('./errors');
+
+const RAZORPAY_BASE_URL = 'https://api.razorpay.com/v1';
+
+// Razorpay refund statuses and the Refund status each one means
+const REFUND_STATUS_MAP = {
+    processed: 'processed',
+    pending: 'initiated',
+    created: 'initiated',
+    failed: 'failed',
+};
+
+function toPaise(amount) {
+    return Math.round(Number(amount || 0) * 100);
+}
+
+function toRupees(paise) {
+    return Math.round(Number(paise || 0)) / 100;
+}
+
+function toRefundResult(gatewayRefund) {
+    const gatewayStatus = String(gatewayRefund?.status || 'pending').toLowerCase();
+    return {
+        status: REFUND_STATUS_MAP[gatewayStatus] || 'initiated',
+        gatewayStatus,
+        gatewayReferenceId: gatewayRefund?.id || null,
+    };
+}
+
+function getAuth() {
+    return { username: process.env.RAZORPAY_KEY_ID, password: process.env.RAZORPAY_KEY_SECRET };
+}
+
+function getErrorMessage(error, fallback) {
+    return error?.response?.data?.error?.description || error?.message || fallback;
+}
+
+function computeRazorpaySignature(payload, secret) {
+    return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+function isValidRazorpaySignature(payload, signature, secret) {
+    if (!payload || !signature || !secret) {
+        return false;
+    }
+    const expected = Buffer.from(computeRazorpaySignature(payload, secret));
+    const received = Buffer.from(String(signature));
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+module.exports = {
+    name: 'razorpay',
+    label: 'Razorpay',
+    orderIdField: 'razorpay_order_id',
+
+    isConfigured() {
+        return Boolean(process.env.RAZORPAY_KEY_ID && process.env.RAZORPAY_KEY_SECRET);
+    },
+
+    getCheckoutConfig() {
+        return { key_id: process.env.RAZORPAY_KEY_ID || null };
+    },
+
+    // Razorpay names its own order ids (order_...); ours travels as the receipt, which caps it at 40 characters
+    async createOrder({ appointment, orderId }) {
+        const receipt = String(orderId).slice(0, 40);
+        const { data } = await axios.post(`${RAZORPAY_BASE_URL}/orders`, {
+            amount: toPaise(appointment.amount),
+            currency: 'INR',
+            receipt,
+            notes: {
+                appointment_id: String(appointment._id),
+                doctor: appointment?.doctor_id?.user_id?.full_name || 'Doctor',
+            },
+        }, { auth: getAuth() });
+
+        return {
+            order_id: data.id,
+            checkout: {
+                key_id: process.env.RAZORPAY_KEY_ID,
+                amount: data.amount,
+                currency: data.currency,
+            },
+        };
+    },
+
+    async verifyPayment({ orderId, details }) {
+        const paymentId = String(details?.razorpay_payment_id || '');
+        const signature = String(details?.razorpay_signature || '');
+        if (!paymentId || !signature) {
+            return { paid: false, paymentStatus: 'PENDING' };
+        }
+        if (!isValidRazorpaySignature(`${orderId}|${paymentId}`, signature, process.env.RAZORPAY_KEY_SECRET)) {
+            throw new PaymentProviderError('Razorpay payment signature does not match');
+        }
+        return { paid: true, paymentId, paymentStatus: 'captured', signature };
+    },
+
+    // Razorpay answers 400 BAD_REQUEST_ERROR for order ids it does not know
+    async getOrderStatus(orderId) {
+        let data;
+        try {
+            ({ data } = await axios.get(`${RAZORPAY_BASE_URL}/orders/${encodeURIComponent(orderId)}/payments`, { auth: getAuth() }));
+        } catch (error) {
+            if ([400, 404].includes(error?.response?.status)) {
+                return null;
+            }
+            throw error;
+        }
+        const payments = Array.isArray(data?.items) ? data.items : [];
+        const capturedPayment = payments.find((payment) => payment.status === 'captured');
+        return {
+            paid: Boolean(capturedPayment),
+            paymentId: capturedPayment?.id || null,
+            paymentStatus: capturedPayment?.status || payments[0]?.status || 'created',
+            amount: capturedPayment ? toRupees(capturedPayment.amount) : null,
+        };
+    },
+
+    toPaymentFields({ orderId, paymentId, signature }) {
+        return {
+            razorpay_order_id: orderId,
+            razorpay_payment_id: paymentId,
+            razorpay_signature: signature,
+        };
+    },
+
+    // Our refund id travels as the receipt so refund webhooks can be matched to the Refund
+    async createRefund({ payment, refundId, amount, note }) {
+        let gatewayRefund;
+        try {
+            const { data } = await axios.post(
+                `${RAZORPAY_BASE_URL}/payments/${encodeURIComponent(payment.razorpay_payment_id)}/refund`,
+                { amount: toPaise(amount), receipt: refundId, notes: { reason: String(note || '').slice(0, 255) } },
+                { auth: getAuth() }
+            );
+            gatewayRefund = data;
+        } catch (error) {
+            console.error(`Razorpay refund ${refundId} failed`, getErrorMessage(error, error));
+            // Razorpay may have refunded anyway; getRefundStatus finds the refund by its receipt
+            if (isUncertainProviderError(error)) {
+                return { status: 'initiated' };
+            }
+            return { status: 'failed', failureReason: getErrorMessage(error, 'Razorpay refund request failed') };
+        }
+        return toRefundResult(gatewayRefund);
+    },
+
+    async getRefundStatus({ payment, refundId }) {
+        const { data } = await axios.get(
+            `${RAZORPAY_BASE_URL}/payments/${encodeURIComponent(payment.razorpay_payment_id)}/refunds`,
+            { params: { count: 100 }, auth: getAuth() }
+        );
+        const gatewayRefund = (Array.isArray(data?.items) ? data.items : []).find((item) => item.receipt === refundId);
+        return gatewayRefund ? toRefundResult(gatewayRefund) : null;
+    },
+
+    parseWebhook({ rawBody, headers, body }) {
+        if (!isValidRazorpaySignature(rawBody, headers['x-razorpay-signature'], process.env.RAZORPAY_WEBHOOK_SECRET)) {
+            return null;
+        }
+        // created_at (seconds) is part of the signed body
+        const sentAt = new Date(Number(body?.created_at) * 1000);
+
+        if (body?.event === 'refund.processed' || body?.event === 'refund.failed') {
+            const refund = body?.payload?.refund?.entity;
+            if (!refund?.receipt) {
+                return { kind: 'ignored' };
+            }
+            const gatewayStatus = String(refund.status || '').toLowerCase();
+            return {
+                kind: 'refund',
+                sentAt,
+                refundId: String(refund.receipt),
+                status: body.event === 'refund.processed' ? 'processed' : 'failed',
+                gatewayStatus,
+                gatewayReferenceId: refund.id || null,
+                failureReason: body.event === 'refund.failed' ? 'Razorpay could not process the refund' : '',
+            };
+        }
+
+        // order.paid carries both the order (with our receipt) and the captured payment
+        const order = body?.payload?.order?.entity;
+        const payment = body?.payload?.payment?.entity;
+        if (body?.event !== 'order.paid' || !order?.id || !payment) {
+            return { kind: 'ignored' };
+        }
+        return {
+            kind: 'payment',
+            sentAt,
+            paid: payment.status === 'captured',
+            orderId: String(order.id),
+            appointmentId: getAppointmentIdFromOrderId(order.receipt) || order.notes?.appointment_id || null,
+            amount: toRupees(order.amount),
+            paymentId: String(payment.id || ''),
+            paymentStatus: String(payment.status || ''),
+        };
+    },
+};
@@ -1,6 +1,7 @@
 // Zoom service:
 // Manages Zoom OAuth token lifecycle and meeting creation/fetch operations.
 const axios = require('axios');
+const { resolveTimezone, zonedTimeToUtc } = require('../utils/timezones');
 
 class ZoomService {
     constructor() {
@@ -48,14 +49,18 @@ class ZoomService {
             const token = await this.getAccessToken();
 
             const patientName = String(appointmentData.patientName || 'Patient').trim() || 'Patient';
+            const startAt = appointmentData.start_at
+                ? new Date(appointmentData.start_at)
+                : zonedTimeToUtc(appointmentData.appointment_date, appointmentData.appointment_time, appointmentData.timezone);
             const doctorName = String(appointmentData.doctorName || 'Doctor').trim() || 'Doctor';
 
             const meetingData = {
                 topic: `Appointment with ${patientName}`,
                 type: 2, // Scheduled meeting
-                start_time: `${appointmentData.appointment_date}T${appointmentData.appointment_time}:00Z`,
-                duration: 60, // 60 minutes
-                timezone: 'UTC',
+                // Absolute start in UTC; `timezone` only controls how Zoom displays it
+                start_time: startAt.toISOString().replace(/\.\d{3}Z$/, 'Z'),
+                duration: Number(appointmentData.duration_minutes) || 60, // consultation length in minutes
+                timezone: resolveTimezone(appointmentData.timezone),
                 agenda: `Medical consultation appointment`,
                 settings: {
                     host_video: true,
@@ -0,0 +1,92 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Appointment slot reservation under concurrency', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  async function setupDoctorWithPatients(prefix, patientCount) {
+    const Appointment = require('../models/Appointment');
+
+    // the unique slot index must exist before the race starts
+    await Appointment.init();
+
+    const doctor = await registerDoctor(prefix);
+    const tokens = [];
+    for (let i = 0; i < patientCount; i++) {
+      tokens.push(await registerPatient(`${prefix}-pat${i}`));
+    }
+
+    return { doctorId: doctor.doctorId, date: bookingDate(), tokens };
+  }
+
+  function book(token, doctorId, date, time) {
+    return request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctor_id: doctorId, appointment_date: date, appointment_time: time });
+  }
+
+  test('only one of several simultaneous bookings of the same slot succeeds', async () => {
+    const Appointment = require('../models/Appointment');
+    const { doctorId, date, tokens } = await setupDoctorWithPatients('race', 6);
+
+    const results = await Promise.all(tokens.map((token) => book(token, doctorId, date, '10:00')));
+    const statuses = results.map((r) => r.status);
+
+    expect(statuses.filter((s) => s === 201)).toHaveLength(1);
+    expect(statuses.filter((s) => s === 409)).toHaveLength(tokens.length - 1);
+    results.filter((r) => r.status === 409).forEach((r) => {
+      expect(r.body.message).toBe('This slot is already booked');
+    });
+
+    const active = await Appointment.countDocuments({
+      doctor_id: doctorId,
+      appointment_date: date,
+      appointment_time: '10:00',
+      status: { $in: ['pending', 'confirmed'] },
+    });
+    expect(active).toBe(1);
+  });
+
+  test('slots that have already started cannot be booked', async () => {
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorId, date, tokens } = await setupDoctorWithPatients('past', 1);
+
+    // Inside the doctor's hours, but two weeks ago
+    const past = await book(tokens[0], doctorId, addDays(date, -14), '10:00');
+    expect(past.status).toBe(400);
+    expect(past.body.message).toBe('Please choose a future slot');
+  });
+
+  test('a cancelled booking frees the slot again', async () => {
+    const { doctorId, date, tokens } = await setupDoctorWithPatients('rebook', 2);
+
+    const first = await book(tokens[0], doctorId, date, '11:00');
+    expect(first.status).toBe(201);
+
+    const cancel = await request(app)
+      .put(`/api/appointments/${first.body._id}`)
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send({ status: 'cancelled' });
+    expect(cancel.status).toBe(200);
+
+    const second = await book(tokens[1], doctorId, date, '11:00');
+    expect(second.status).toBe(201);
+  });
+});
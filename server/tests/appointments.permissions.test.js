@@ -1,6 +1,7 @@
 const request = require('supertest');
 const mongoose = require('mongoose');
 const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient } = require('./helpers');
 let app;
 
 jest.setTimeout(30000);
@@ -23,28 +24,17 @@ describe('Appointments permissions and notifications flow', () => {
   test('doctor can enable video and notifications get created', async () => {
     // create patient and doctor users via auth API, then create doctor profile, then appointment
     const User = require('../models/User');
-    const Doctor = require('../models/Doctor');
     const Appointment = require('../models/Appointment');
     const Notification = require('../models/Notification');
 
-    // register patient
-    const patientRes = await request(app).post('/api/auth/register').send({ full_name: 'Pat One', email: 'pat@example.com', password: 'secret' });
-    expect(patientRes.status).toBe(201);
-    const patient = await User.findOne({ email: 'pat@example.com' });
-
-    // register doctor user
-    const docRes = await request(app).post('/api/auth/register').send({ full_name: 'Doc One', email: 'doc@example.com', password: 'secret', role: 'doctor' });
-    expect(docRes.status).toBe(201);
-    const docToken = docRes.body.token;
-    const docUser = await User.findOne({ email: 'doc@example.com' });
-
-    // create doctor profile using auth token
-    const createDoc = await request(app).post('/api/doctors').set('Authorization', `Bearer ${docToken}`).send({ user_id: docUser._id, specialization: 'Cardiology', experience_years: 5, consultation_fee: 500, is_verified: true });
-    expect(createDoc.status).toBe(201);
-    const doctor = await Doctor.findOne({ user_id: docUser._id });
+    const doctor = await registerDoctor('perm-video', {}, { availability: false });
+    await registerPatient('perm-video-pat');
+    const docToken = doctor.token;
+    const docUser = await User.findOne({ email: 'perm-video-doc@example.com' });
+    const patient = await User.findOne({ email: 'perm-video-pat@example.com' });
 
     // create appointment
-    const appt = await Appointment.create({ doctor_id: doctor._id, patient_id: patient._id, appointment_date: '2026-01-12', appointment_time: '10:00', amount: 500, status: 'confirmed', payment_status: 'paid' });
+    const appt = await Appointment.create({ doctor_id: doctor.doctorId, patient_id: patient._id, appointment_date: '2026-01-12', appointment_time: '10:00', amount: 500, status: 'confirmed', payment_status: 'paid' });
 
     // doctor enables video and auto_send
     const res = await request(app)
@@ -65,28 +55,17 @@ describe('Appointments permissions and notifications flow', () => {
 
   test('doctor can mark appointment completed and patient gets notified', async () => {
     const User = require('../models/User');
-    const Doctor = require('../models/Doctor');
     const Appointment = require('../models/Appointment');
     const Notification = require('../models/Notification');
 
-    const patientRes = await request(app).post('/api/auth/register').send({ full_name: 'Pat Done', email: 'patdone@example.com', password: 'secret' });
-    expect(patientRes.status).toBe(201);
-    const patient = await User.findOne({ email: 'patdone@example.com' });
-
-    const docRes = await request(app).post('/api/auth/register').send({ full_name: 'Doc Done', email: 'docdone@example.com', password: 'secret', role: 'doctor' });
-    expect(docRes.status).toBe(201);
-    const docToken = docRes.body.token;
-    const docUser = await User.findOne({ email: 'docdone@example.com' });
-
-    const createDoc = await request(app)
-      .post('/api/doctors')
-      .set('Authorization', `Bearer ${docToken}`)
-      .send({ user_id: docUser._id, specialization: 'Neurology', experience_years: 6, consultation_fee: 600, is_verified: true });
-    expect(createDoc.status).toBe(201);
-    const doctor = await Doctor.findOne({ user_id: docUser._id });
+    const doctor = await registerDoctor('perm-done', { consultation_fee: 600 }, { availability: false });
+    await registerPatient('perm-done-pat');
+    const docToken = doctor.token;
+    const docUser = await User.findOne({ email: 'perm-done-doc@example.com' });
+    const patient = await User.findOne({ email: 'perm-done-pat@example.com' });
 
     const appt = await Appointment.create({
-      doctor_id: doctor._id,
+      doctor_id: doctor.doctorId,
       patient_id: patient._id,
       appointment_date: '2026-02-14',
       appointment_time: '11:00',
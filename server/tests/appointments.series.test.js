@@ -0,0 +1,155 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Recurring appointment series', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor available 09:00-17:00 every day, plus patients
+  async function setupDoctor(prefix, patientCount) {
+    const Appointment = require('../models/Appointment');
+    const { addDays } = require('../utils/appointmentSlots');
+
+    await Appointment.init();
+
+    const { doctorId } = await registerDoctor(prefix);
+    const tokens = [];
+    for (let i = 0; i < patientCount; i++) {
+      tokens.push(await registerPatient(`${prefix}-pat${i}`));
+    }
+
+    const startDate = addDays(new Date().toISOString().slice(0, 10), 3);
+    return { doctorId, startDate, tokens };
+  }
+
+  function seriesBody(doctorId, startDate, overrides = {}) {
+    return { doctor_id: doctorId, start_date: startDate, appointment_time: '10:00', frequency: 'weekly', occurrences: 4, ...overrides };
+  }
+
+  test('conflicts are reported up front and nothing is booked', async () => {
+    const Appointment = require('../models/Appointment');
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorId, startDate, tokens } = await setupDoctor('series-conflict', 2);
+
+    // Another patient already has the third week's slot
+    const taken = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${tokens[1]}`)
+      .send({ doctor_id: doctorId, appointment_date: addDays(startDate, 14), appointment_time: '10:00' });
+    expect(taken.status).toBe(201);
+
+    const preview = await request(app)
+      .post('/api/appointments/series/preview')
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send(seriesBody(doctorId, startDate));
+    expect(preview.status).toBe(200);
+    expect(preview.body.occurrences.map((o) => o.appointment_date)).toEqual([0, 7, 14, 21].map((d) => addDays(startDate, d)));
+    expect(preview.body.conflicts).toBe(1);
+    expect(preview.body.occurrences[2].ok).toBe(false);
+    expect(preview.body.occurrences[2].message).toBe('This slot is already booked');
+
+    const booked = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send(seriesBody(doctorId, startDate));
+    expect(booked.status).toBe(409);
+    expect(booked.body.occurrences).toHaveLength(4);
+    expect(await Appointment.countDocuments({ doctor_id: doctorId, series_id: { $ne: null } })).toBe(0);
+  });
+
+  test('rejects malformed series requests', async () => {
+    const { doctorId, startDate, tokens } = await setupDoctor('series-invalid', 1);
+
+    const tooMany = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send(seriesBody(doctorId, startDate, { occurrences: 30 }));
+    expect(tooMany.status).toBe(400);
+
+    const badFrequency = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send(seriesBody(doctorId, startDate, { frequency: 'daily' }));
+    expect(badFrequency.status).toBe(400);
+  });
+
+  test('books every occurrence and cancels one or the rest of the series', async () => {
+    const Appointment = require('../models/Appointment');
+    const AppointmentSeries = require('../models/AppointmentSeries');
+    const { doctorId, startDate, tokens } = await setupDoctor('series-book', 1);
+
+    const booked = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send(seriesBody(doctorId, startDate, { frequency: 'biweekly', occurrences: 5 }));
+    expect(booked.status).toBe(201);
+    expect(booked.body.appointments).toHaveLength(5);
+    const seriesId = booked.body.series._id;
+    const [first, second, third] = booked.body.appointments;
+    expect(booked.body.appointments.map((a) => a.series_index)).toEqual([0, 1, 2, 3, 4]);
+
+    // Just one occurrence
+    const single = await request(app)
+      .put(`/api/appointments/${second._id}`)
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send({ status: 'cancelled' });
+    expect(single.status).toBe(200);
+
+    // This one and everything after it
+    const rest = await request(app)
+      .put(`/api/appointments/series/${seriesId}/cancel`)
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send({ from_appointment_id: third._id });
+    expect(rest.status).toBe(200);
+    expect(rest.body.cancelled).toHaveLength(3);
+
+    const statuses = (await Appointment.find({ series_id: seriesId }).sort({ series_index: 1 })).map((a) => a.status);
+    expect(statuses).toEqual(['pending', 'cancelled', 'cancelled', 'cancelled', 'cancelled']);
+    expect((await AppointmentSeries.findById(seriesId)).status).toBe('active');
+
+    const all = await request(app)
+      .put(`/api/appointments/series/${seriesId}/cancel`)
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send({});
+    expect(all.status).toBe(200);
+    expect(all.body.cancelled).toEqual([first._id]);
+    expect((await AppointmentSeries.findById(seriesId)).status).toBe('cancelled');
+  });
+
+  test('later occurrences are not auto-cancelled while unpaid', async () => {
+    const Appointment = require('../models/Appointment');
+    const { cancelExpiredUnpaidAppointments } = require('../utils/cron-jobs');
+    const { doctorId, startDate, tokens } = await setupDoctor('series-unpaid', 1);
+
+    const booked = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${tokens[0]}`)
+      .send(seriesBody(doctorId, startDate, { occurrences: 3 }));
+    expect(booked.status).toBe(201);
+    const seriesId = booked.body.series._id;
+
+    // Pretend the first visit was paid and the booking is older than the payment window
+    await Appointment.updateOne({ _id: booked.body.appointments[0]._id }, { payment_status: 'paid', status: 'confirmed' });
+    await Appointment.updateMany({ series_id: seriesId }, { createdAt: new Date(Date.now() - 60 * 60 * 1000) }, { timestamps: false });
+
+    await cancelExpiredUnpaidAppointments();
+
+    const statuses = (await Appointment.find({ series_id: seriesId }).sort({ series_index: 1 })).map((a) => a.status);
+    expect(statuses).toEqual(['confirmed', 'pending', 'pending']);
+  });
+});
@@ -0,0 +1,118 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Appointment status transitions', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor and a patient with one pending appointment between them
+  async function setupAppointment(prefix) {
+    const User = require('../models/User');
+
+    const doctor = await registerDoctor(prefix);
+    const patientToken = await registerPatient(`${prefix}-pat`);
+    const doctorUser = await User.findOne({ email: `${prefix}-doc@example.com` });
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '12:00' });
+    expect(booked.status).toBe(201);
+
+    return { doctorToken: doctor.token, patientToken, doctorUserId: doctorUser._id, appointmentId: booked.body._id };
+  }
+
+  function setStatus(token, appointmentId, body) {
+    return request(app)
+      .put(`/api/appointments/${appointmentId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send(body);
+  }
+
+  test('records who changed the status, when and why', async () => {
+    const Appointment = require('../models/Appointment');
+    const { doctorToken, patientToken, doctorUserId, appointmentId } = await setupAppointment('st-history');
+
+    expect((await setStatus(doctorToken, appointmentId, { status: 'confirmed' })).status).toBe(200);
+    expect((await setStatus(patientToken, appointmentId, { status: 'cancelled', reason: 'Feeling better' })).status).toBe(200);
+
+    const { status_history: history } = await Appointment.findById(appointmentId);
+    expect(history.map((entry) => [entry.from, entry.to, entry.role])).toEqual([
+      ['pending', 'confirmed', 'doctor'],
+      ['confirmed', 'cancelled', 'patient'],
+    ]);
+    expect(String(history[0].changed_by)).toBe(String(doctorUserId));
+    expect(history[1].reason).toBe('Feeling better');
+    expect(history[1].changed_at).toBeInstanceOf(Date);
+  });
+
+  test('final states cannot be left and roles are enforced', async () => {
+    const { doctorToken, patientToken, appointmentId } = await setupAppointment('st-illegal');
+
+    const patientCompletes = await setStatus(patientToken, appointmentId, { status: 'completed' });
+    expect(patientCompletes.status).toBe(403);
+
+    const unknown = await setStatus(doctorToken, appointmentId, { status: 'archived' });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.message).toBe('Invalid appointment status');
+
+    expect((await setStatus(doctorToken, appointmentId, { status: 'cancelled' })).status).toBe(200);
+
+    const revived = await setStatus(doctorToken, appointmentId, { status: 'confirmed' });
+    expect(revived.status).toBe(409);
+    expect(revived.body.message).toBe('A cancelled appointment cannot be changed to confirmed');
+  });
+
+  test('a payment for a cancelled appointment does not confirm it', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const { patientToken, appointmentId } = await setupAppointment('st-payment');
+
+    expect((await setStatus(patientToken, appointmentId, { status: 'cancelled' })).status).toBe(200);
+
+    // Patients pay through the checkout; only admins record payments directly
+    const byPatient = await request(app)
+      .post('/api/payments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_id: appointmentId, payment_method: 'cash' });
+    expect(byPatient.status).toBe(403);
+
+    const paid = await request(app)
+      .post('/api/payments')
+      .set('Authorization', `Bearer ${await registerAdmin('st-payment')}`)
+      .send({ appointment_id: appointmentId, payment_method: 'cash' });
+    expect(paid.status).toBe(409);
+    expect(await Payment.countDocuments({ appointment_id: appointmentId })).toBe(0);
+    expect((await Appointment.findById(appointmentId)).status).toBe('cancelled');
+  });
+
+  test('automatic cancellations are recorded as system changes', async () => {
+    const Appointment = require('../models/Appointment');
+    const { cancelExpiredUnpaidAppointments } = require('../utils/cron-jobs');
+    const { appointmentId } = await setupAppointment('st-system');
+
+    await Appointment.updateOne({ _id: appointmentId }, { createdAt: new Date(Date.now() - 60 * 60 * 1000) }, { timestamps: false });
+    await cancelExpiredUnpaidAppointments();
+
+    const appointment = await Appointment.findById(appointmentId);
+    expect(appointment.status).toBe('cancelled');
+    expect(appointment.status_history).toHaveLength(1);
+    expect(appointment.status_history[0].role).toBe('system');
+    expect(appointment.status_history[0].changed_by).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Calendar export', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  async function book(doctorId, patientToken, time) {
+    const date = bookingDate();
+    const booked = await request(app).post('/api/appointments').set('Authorization', `Bearer ${patientToken}`).send({ doctor_id: doctorId, appointment_date: date, appointment_time: time });
+    expect(booked.status).toBe(201);
+    return booked.body;
+  }
+
+  test('participants download an appointment as .ics', async () => {
+    const doctor = await registerDoctor('cal-ics');
+    const patientToken = await registerPatient('cal-ics-pat');
+    const strangerToken = await registerPatient('cal-ics-stranger');
+    const appointment = await book(doctor.doctorId, patientToken, '10:00');
+
+    const res = await request(app).get(`/api/calendar/appointments/${appointment._id}.ics`).set('Authorization', `Bearer ${patientToken}`);
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toMatch(/text\/calendar/);
+    expect(res.text).toContain('BEGIN:VEVENT');
+    expect(res.text).toContain(`UID:appointment-${appointment._id}@mediconnect`);
+    expect(res.text).toContain('with Dr. Doc cal-ics');
+
+    const forDoctor = await request(app).get(`/api/calendar/appointments/${appointment._id}.ics`).set('Authorization', `Bearer ${doctor.token}`);
+    expect(forDoctor.status).toBe(200);
+    expect(forDoctor.text).toContain('Pat cal-ics-pat');
+
+    const forStranger = await request(app).get(`/api/calendar/appointments/${appointment._id}.ics`).set('Authorization', `Bearer ${strangerToken}`);
+    expect(forStranger.status).toBe(403);
+  });
+
+  test('moving an appointment to another slot raises its sequence', async () => {
+    const doctor = await registerDoctor('cal-move');
+    const patientToken = await registerPatient('cal-move-pat');
+    const appointment = await book(doctor.doctorId, patientToken, '10:00');
+    const download = () => request(app).get(`/api/calendar/appointments/${appointment._id}.ics`).set('Authorization', `Bearer ${patientToken}`);
+    const getSequence = (ics) => Number(/SEQUENCE:(\d+)/.exec(ics)[1]);
+
+    const before = getSequence((await download()).text);
+    const moved = await request(app)
+      .put(`/api/appointments/${appointment._id}/reschedule`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_date: bookingDate(), appointment_time: '12:00' });
+    expect(moved.status).toBe(200);
+    expect(getSequence((await download()).text)).toBe(before + 1);
+  });
+
+  test('the subscription feed works without a Bearer token and reports cancellations', async () => {
+    const doctor = await registerDoctor('cal-feed');
+    const patientToken = await registerPatient('cal-feed-pat');
+    const kept = await book(doctor.doctorId, patientToken, '10:00');
+    const cancelled = await book(doctor.doctorId, patientToken, '11:00');
+    await request(app).put(`/api/appointments/${cancelled._id}`).set('Authorization', `Bearer ${patientToken}`).send({ status: 'cancelled' });
+
+    const urlRes = await request(app).get('/api/calendar/feed-url').set('Authorization', `Bearer ${patientToken}`);
+    expect(urlRes.status).toBe(200);
+    const again = await request(app).get('/api/calendar/feed-url').set('Authorization', `Bearer ${patientToken}`);
+    expect(again.body.feed_path).toBe(urlRes.body.feed_path);
+
+    const feed = await request(app).get(`/api${urlRes.body.feed_path}`);
+    expect(feed.status).toBe(200);
+    const events = feed.text.split('BEGIN:VEVENT').slice(1);
+    expect(events).toHaveLength(2);
+    expect(events.find((event) => event.includes(kept._id))).toContain('STATUS:TENTATIVE');
+    expect(events.find((event) => event.includes(cancelled._id))).toContain('STATUS:CANCELLED');
+
+    const reset = await request(app).post('/api/calendar/feed-url/reset').set('Authorization', `Bearer ${patientToken}`);
+    expect(reset.body.feed_path).not.toBe(urlRes.body.feed_path);
+    const oldFeed = await request(app).get(`/api${urlRes.body.feed_path}`);
+    expect(oldFeed.status).toBe(404);
+
+    // The token never leaks through the profile
+    const User = require('../models/User');
+    const patient = await User.findOne({ email: 'cal-feed-pat@example.com' }).lean();
+    expect(patient.calendar_feed_token).toBeUndefined();
+  });
+});
@@ -0,0 +1,161 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, payInCash, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Cancellation refunds', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor and a patient with one paid appointment that starts `hoursAhead` hours from now
+  async function setupPaidAppointment(prefix, hoursAhead) {
+    const Appointment = require('../models/Appointment');
+
+    const doctor = await registerDoctor(prefix, { consultation_fee: 800 });
+    const patientToken = await registerPatient(`${prefix}-pat`);
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+
+    await payInCash(booked.body._id);
+
+    await Appointment.updateOne({ _id: booked.body._id }, { start_at: new Date(Date.now() + hoursAhead * 60 * 60 * 1000) });
+
+    return { doctorToken: doctor.token, patientToken, doctorId: doctor.doctorId, appointmentId: booked.body._id };
+  }
+
+  function getQuote(token, appointmentId) {
+    return request(app).get(`/api/appointments/${appointmentId}/cancellation-quote`).set('Authorization', `Bearer ${token}`);
+  }
+
+  function cancel(token, appointmentId) {
+    return request(app).put(`/api/appointments/${appointmentId}`).set('Authorization', `Bearer ${token}`).send({ status: 'cancelled' });
+  }
+
+  async function getDoctorEarnings(doctorToken) {
+    const res = await request(app).get('/api/payments/doctor/summary').set('Authorization', `Bearer ${doctorToken}`);
+    expect(res.status).toBe(200);
+    return res.body.total_earnings;
+  }
+
+  test('cancelling well ahead refunds in full and removes the doctor earning', async () => {
+    const Payment = require('../models/Payment');
+    const Refund = require('../models/Refund');
+    const { doctorToken, patientToken, appointmentId } = await setupPaidAppointment('cx-full', 48);
+
+    const quote = await getQuote(patientToken, appointmentId);
+    expect(quote.status).toBe(200);
+    expect(quote.body).toMatchObject({ tier: 'full', refund_percent: 100, paid_amount: 800, refund_amount: 800 });
+    expect(quote.body.policy.source).toBe('platform');
+
+    const res = await cancel(patientToken, appointmentId);
+    expect(res.status).toBe(200);
+    expect(res.body.payment_status).toBe('refunded');
+
+    const refunds = await Refund.find({ appointment_id: appointmentId });
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({ amount: 800, doctor_amount: 800, refund_percent: 100, source: 'cancellation' });
+    expect((await Payment.findOne({ appointment_id: appointmentId })).status).toBe('refunded');
+    expect(await getDoctorEarnings(doctorToken)).toBe(0);
+  });
+
+  test('a refund that cannot be sent is left failed for an admin to retry', async () => {
+    const Payment = require('../models/Payment');
+    const Refund = require('../models/Refund');
+    const { doctorToken, patientToken, appointmentId } = await setupPaidAppointment('cx-unsent', 48);
+
+    const save = jest.spyOn(Payment.prototype, 'save').mockRejectedValueOnce(new Error('write conflict'));
+    const res = await cancel(patientToken, appointmentId);
+    save.mockRestore();
+    expect(res.status).toBe(200);
+    expect(res.body.status).toBe('cancelled');
+
+    const refunds = await Refund.find({ appointment_id: appointmentId });
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({ amount: 800, status: 'failed', failure_reason: 'Could not be sent: write conflict' });
+    expect((await Payment.findOne({ appointment_id: appointmentId })).refunded_amount).toBe(0);
+    expect(await getDoctorEarnings(doctorToken)).toBe(800);
+  });
+
+  test('appointments saved before start_at was stored are quoted from their date and time', async () => {
+    const Appointment = require('../models/Appointment');
+    const { patientToken, appointmentId } = await setupPaidAppointment('cx-legacy', 2);
+    // Booked five days ahead, which the stored start_at (two hours ahead) no longer overrides
+    await Appointment.collection.updateOne({ _id: new mongoose.Types.ObjectId(appointmentId) }, { $unset: { start_at: '' } });
+
+    const quote = await getQuote(patientToken, appointmentId);
+    expect(quote.status).toBe(200);
+    expect(quote.body).toMatchObject({ tier: 'full', refund_amount: 800 });
+
+    const res = await cancel(patientToken, appointmentId);
+    expect(res.status).toBe(200);
+    expect(res.body.payment_status).toBe('refunded');
+  });
+
+  test('a late cancellation refunds part of the fee and the doctor keeps the rest', async () => {
+    const Payment = require('../models/Payment');
+    const { doctorToken, patientToken, appointmentId } = await setupPaidAppointment('cx-partial', 10);
+
+    const quote = await getQuote(patientToken, appointmentId);
+    expect(quote.body).toMatchObject({ tier: 'partial', refund_percent: 50, refund_amount: 400 });
+
+    const res = await cancel(patientToken, appointmentId);
+    expect(res.status).toBe(200);
+    expect(res.body.payment_status).toBe('partially_refunded');
+
+    const payment = await Payment.findOne({ appointment_id: appointmentId });
+    expect(payment.status).toBe('completed');
+    expect(payment.refunded_amount).toBe(400);
+    expect(await getDoctorEarnings(doctorToken)).toBe(400);
+  });
+
+  test('a last-minute cancellation refunds nothing, but a doctor cancelling always refunds in full', async () => {
+    const Refund = require('../models/Refund');
+    const late = await setupPaidAppointment('cx-none', 2);
+
+    expect((await getQuote(late.patientToken, late.appointmentId)).body).toMatchObject({ tier: 'none', refund_amount: 0 });
+    expect((await cancel(late.patientToken, late.appointmentId)).body.payment_status).toBe('paid');
+    expect(await Refund.countDocuments({ appointment_id: late.appointmentId })).toBe(0);
+    expect(await getDoctorEarnings(late.doctorToken)).toBe(800);
+
+    const byDoctor = await setupPaidAppointment('cx-doctor', 1);
+    expect((await getQuote(byDoctor.doctorToken, byDoctor.appointmentId)).body.tier).toBe('full');
+    expect((await cancel(byDoctor.doctorToken, byDoctor.appointmentId)).body.payment_status).toBe('refunded');
+  });
+
+  test('a doctor override replaces the platform policy', async () => {
+    const { doctorToken, patientToken, doctorId, appointmentId } = await setupPaidAppointment('cx-override', 30);
+
+    const invalid = await request(app)
+      .put(`/api/doctors/${doctorId}`)
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ cancellation_policy: { full_refund_hours: 12, partial_refund_hours: 24, partial_refund_percent: 50 } });
+    expect(invalid.status).toBe(400);
+
+    const saved = await request(app)
+      .put(`/api/doctors/${doctorId}`)
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ cancellation_policy: { full_refund_hours: 48, partial_refund_hours: 12, partial_refund_percent: 25 } });
+    expect(saved.status).toBe(200);
+
+    const quote = await getQuote(patientToken, appointmentId);
+    expect(quote.body).toMatchObject({ tier: 'partial', refund_percent: 25, refund_amount: 200 });
+    expect(quote.body.policy.source).toBe('doctor');
+  });
+});
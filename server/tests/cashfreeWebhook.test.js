@@ -0,0 +1,142 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { computeCashfreeSignature } = require('../utils/cashfreeWebhooks');
+const { registerDoctor, registerPatient, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+const WEBHOOK_SECRET = 'cashfree-test-secret';
+
+// Recorded Cashfree payloads, pointed at an appointment of this test run
+function loadRecordedPayload(name, { orderId, amount }) {
+  const payload = JSON.parse(JSON.stringify(require(`./fixtures/cashfree/${name}.json`)));
+  payload.data.order.order_id = orderId;
+  payload.data.order.order_amount = amount;
+  payload.data.payment.payment_amount = amount;
+  return payload;
+}
+
+describe('Cashfree webhook', () => {
+  let mongoServer;
+  let previousSecret;
+  beforeAll(async () => {
+    previousSecret = process.env.CASHFREE_KEY_SECRET;
+    process.env.CASHFREE_KEY_SECRET = WEBHOOK_SECRET;
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    process.env.CASHFREE_KEY_SECRET = previousSecret;
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // Stands in for Cashfree: signs the body the way Cashfree does and posts it to the receiver
+  function deliver(payload, { secret = WEBHOOK_SECRET, timestamp = String(Date.now()) } = {}) {
+    const body = JSON.stringify(payload);
+    return request(app)
+      .post('/api/payments/cashfree/webhook')
+      .set('Content-Type', 'application/json')
+      .set('x-webhook-timestamp', timestamp)
+      .set('x-webhook-signature', computeCashfreeSignature(body, timestamp, secret))
+      .send(body);
+  }
+
+  async function bookUnpaid(prefix) {
+    const { doctorId } = await registerDoctor(prefix);
+    const patientToken = await registerPatient(prefix);
+    const booked = await request(app).post('/api/appointments').set('Authorization', `Bearer ${patientToken}`).send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    return {
+      appointment: booked.body,
+      patientToken,
+      orderId: `appt_${booked.body._id}_${Date.now()}`,
+    };
+  }
+
+  test('a signed success webhook confirms the appointment once', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const Notification = require('../models/Notification');
+    const { appointment, orderId } = await bookUnpaid('cf-success');
+    const payload = loadRecordedPayload('payment_success', { orderId, amount: appointment.amount });
+
+    const forged = await deliver(payload, { secret: 'not-the-secret' });
+    expect(forged.status).toBe(401);
+    expect((await Appointment.findById(appointment._id)).status).toBe('pending');
+
+    const first = await deliver(payload);
+    expect(first.status).toBe(200);
+    expect(first.body).toMatchObject({ received: true, processed: true });
+
+    const confirmed = await Appointment.findById(appointment._id);
+    expect(confirmed.status).toBe('confirmed');
+    expect(confirmed.payment_status).toBe('paid');
+    const payments = await Payment.find({ cashfree_order_id: orderId });
+    expect(payments).toHaveLength(1);
+    expect(payments[0]).toMatchObject({ status: 'completed', cashfree_payment_status: 'SUCCESS', cashfree_payment_id: '5114910961223' });
+
+    // Cashfree retries deliveries; a replay changes nothing
+    const replay = await deliver(payload);
+    expect(replay.status).toBe(200);
+    expect(replay.body).toMatchObject({ processed: false, duplicate: true });
+    expect(await Payment.countDocuments({ cashfree_order_id: orderId })).toBe(1);
+    expect(await Notification.countDocuments({ 'data.appointment_id': confirmed._id, type: 'appointment_confirmed' })).toBe(1);
+  });
+
+  test('failed payments and mismatched amounts are acknowledged without confirming', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const { appointment, orderId } = await bookUnpaid('cf-failed');
+
+    const failed = await deliver(loadRecordedPayload('payment_failed', { orderId, amount: appointment.amount }));
+    expect(failed.status).toBe(200);
+    expect(failed.body.processed).toBe(false);
+
+    const underpaid = await deliver(loadRecordedPayload('payment_success', { orderId, amount: 1 }));
+    expect(underpaid.status).toBe(200);
+    expect(underpaid.body.processed).toBe(false);
+
+    expect((await Appointment.findById(appointment._id)).status).toBe('pending');
+    expect(await Payment.countDocuments({ cashfree_order_id: orderId })).toBe(0);
+  });
+
+  test('a signed payload replayed after the timestamp window is refused', async () => {
+    const Appointment = require('../models/Appointment');
+    const { appointment, orderId } = await bookUnpaid('cf-stale');
+    const payload = loadRecordedPayload('payment_success', { orderId, amount: appointment.amount });
+
+    const stale = await deliver(payload, { timestamp: String(Date.now() - 10 * 60 * 1000) });
+    expect(stale.status).toBe(401);
+    expect((await Appointment.findById(appointment._id)).status).toBe('pending');
+  });
+
+  test('a payment for a cancelled appointment is recorded and refunded without bringing it back', async () => {
+    const axios = require('axios');
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const Refund = require('../models/Refund');
+    const { appointment, patientToken, orderId } = await bookUnpaid('cf-cancelled');
+    await request(app).put(`/api/appointments/${appointment._id}`).set('Authorization', `Bearer ${patientToken}`).send({ status: 'cancelled' });
+    const refundApi = jest.spyOn(axios, 'post').mockResolvedValueOnce({ data: { cf_refund_id: 'cf-late-1', refund_status: 'SUCCESS' } });
+
+    const res = await deliver(loadRecordedPayload('payment_success', { orderId, amount: appointment.amount }));
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ processed: true, refunded: true });
+    expect(refundApi).toHaveBeenCalledWith(expect.stringContaining(`/orders/${orderId}/refunds`), expect.anything(), expect.anything());
+    refundApi.mockRestore();
+
+    expect(await Appointment.findById(appointment._id)).toMatchObject({ status: 'cancelled', payment_status: 'refunded' });
+    const payment = await Payment.findOne({ cashfree_order_id: orderId });
+    expect(payment).toMatchObject({ status: 'refunded', refunded_amount: appointment.amount });
+    expect(await Refund.findOne({ payment_id: payment._id })).toMatchObject({ source: 'late_payment', status: 'processed', amount: appointment.amount });
+
+    const replay = await deliver(loadRecordedPayload('payment_success', { orderId, amount: appointment.amount }));
+    expect(replay.body).toMatchObject({ processed: false, duplicate: true });
+  });
+});
@@ -0,0 +1,115 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Consultation modes', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  test('in-person consultations need a clinic address', async () => {
+    const User = require('../models/User');
+    const res = await request(app).post('/api/auth/register').send({ full_name: 'Doc No Address', email: 'mode-noaddr-doc@example.com', password: 'secret', role: 'doctor' });
+    const user = await User.findOne({ email: 'mode-noaddr-doc@example.com' });
+
+    const created = await request(app)
+      .post('/api/doctors')
+      .set('Authorization', `Bearer ${res.body.token}`)
+      .send({ user_id: user._id, specialization: 'General', consultation_fee: 500, consultation_modes: ['video', 'in_person'] });
+    expect(created.status).toBe(400);
+  });
+
+  test('in-person bookings charge the mode fee and keep the clinic address', async () => {
+    const { doctorId } = await registerDoctor('mode-inperson', {
+      consultation_modes: ['video', 'in_person'],
+      mode_fees: { in_person: 800 },
+      clinic_address: '12 MG Road, Bengaluru',
+    });
+    const patientToken = await registerPatient('mode-inperson-pat');
+
+    const phone = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '09:00', consultation_mode: 'phone' });
+    expect(phone.status).toBe(400);
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00', consultation_mode: 'in_person' });
+    expect(booked.status).toBe(201);
+    expect(booked.body).toMatchObject({ consultation_mode: 'in_person', clinic_address: '12 MG Road, Bengaluru', doctor_fee: 800 });
+
+    const video = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '11:00' });
+    expect(video.status).toBe(201);
+    expect(video.body).toMatchObject({ consultation_mode: 'video', doctor_fee: 500 });
+  });
+
+  test('mode-specific availability only opens slots for that mode', async () => {
+    const Availability = require('../models/Availability');
+    const { doctorId } = await registerDoctor('mode-window', {
+      consultation_modes: ['video', 'in_person'],
+      clinic_address: '1 Park Street, Kolkata',
+    }, { availability: false });
+    for (let day = 0; day < 7; day++) {
+      await Availability.create({ doctor_id: doctorId, day_of_week: day, start_time: '09:00', end_time: '12:00', is_available: true, consultation_mode: 'in_person' });
+    }
+    const patientToken = await registerPatient('mode-window-pat');
+
+    const inPersonSlots = await request(app).get(`/api/doctors/${doctorId}/slots?from=${bookingDate()}&mode=in_person`);
+    expect(inPersonSlots.status).toBe(200);
+    expect(inPersonSlots.body.days[0].available).toBe(true);
+
+    const videoSlots = await request(app).get(`/api/doctors/${doctorId}/slots?from=${bookingDate()}&mode=video`);
+    expect(videoSlots.body.days[0].slots).toEqual([]);
+
+    const video = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00', consultation_mode: 'video' });
+    expect(video.status).toBe(400);
+  });
+
+  test('video calls cannot be enabled for in-person appointments', async () => {
+    const { token: doctorToken, doctorId } = await registerDoctor('mode-novideo', {
+      consultation_modes: ['in_person'],
+      clinic_address: '5 Marine Drive, Mumbai',
+    });
+    const patientToken = await registerPatient('mode-novideo-pat');
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00', consultation_mode: 'in_person' });
+    expect(booked.status).toBe(201);
+
+    const confirmed = await request(app)
+      .put(`/api/appointments/${booked.body._id}`)
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ status: 'confirmed' });
+    expect(confirmed.status).toBe(200);
+    expect(confirmed.body.video_unlocked).toBe(false);
+
+    const toggled = await request(app)
+      .patch(`/api/appointments/${booked.body._id}/video-toggle`)
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ video_enabled: true });
+    expect(toggled.status).toBe(400);
+  });
+});
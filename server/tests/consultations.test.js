@@ -0,0 +1,117 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, payInCash, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Multi-doctor consultations', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  async function bookAndPay(doctorId, patientToken) {
+    const date = bookingDate();
+    const booked = await request(app).post('/api/appointments').set('Authorization', `Bearer ${patientToken}`).send({ doctor_id: doctorId, appointment_date: date, appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    await payInCash(booked.body._id);
+    return booked.body._id;
+  }
+
+  function invite(token, appointmentId, doctorId) {
+    return request(app).post(`/api/appointments/${appointmentId}/consultants`).set('Authorization', `Bearer ${token}`).send({ doctor_id: doctorId });
+  }
+
+  function respond(token, appointmentId, accept) {
+    return request(app).put(`/api/appointments/${appointmentId}/consultants/respond`).set('Authorization', `Bearer ${token}`).send({ accept });
+  }
+
+  function sendMessage(token, appointmentId, content) {
+    return request(app).post('/api/messages').set('Authorization', `Bearer ${token}`).send({ appointment_id: appointmentId, content });
+  }
+
+  test('only accepted consulting doctors join the chat', async () => {
+    const primary = await registerDoctor('consult-chat-primary');
+    const consultant = await registerDoctor('consult-chat-consultant');
+    const outsider = await registerDoctor('consult-chat-outsider');
+    const patientToken = await registerPatient('consult-chat-pat');
+    const appointmentId = await bookAndPay(primary.doctorId, patientToken);
+
+    const notPrimary = await invite(consultant.token, appointmentId, outsider.doctorId);
+    expect(notPrimary.status).toBe(403);
+    const self = await invite(primary.token, appointmentId, primary.doctorId);
+    expect(self.status).toBe(400);
+
+    const invited = await invite(primary.token, appointmentId, consultant.doctorId);
+    expect(invited.status).toBe(201);
+    const twice = await invite(primary.token, appointmentId, consultant.doctorId);
+    expect(twice.status).toBe(409);
+
+    const pending = await request(app).get('/api/appointments/consultations').set('Authorization', `Bearer ${consultant.token}`);
+    expect(pending.body).toHaveLength(1);
+    expect(pending.body[0]).toMatchObject({ _id: appointmentId, consultation_status: 'invited', zoom_join_url: null });
+
+    const beforeAccepting = await sendMessage(consultant.token, appointmentId, 'Hello');
+    expect(beforeAccepting.status).toBe(403);
+    const notInvited = await respond(outsider.token, appointmentId, true);
+    expect(notInvited.status).toBe(404);
+
+    const accepted = await respond(consultant.token, appointmentId, true);
+    expect(accepted.status).toBe(200);
+    expect(accepted.body.consultation_status).toBe('accepted');
+
+    const fromConsultant = await sendMessage(consultant.token, appointmentId, 'Reviewed the ECG');
+    expect(fromConsultant.status).toBe(201);
+    const fromOutsider = await sendMessage(outsider.token, appointmentId, 'Hi');
+    expect(fromOutsider.status).toBe(403);
+
+    const conversation = await request(app).get(`/api/messages/conversation?appointment_id=${appointmentId}`).set('Authorization', `Bearer ${primary.token}`);
+    expect(conversation.body.map((message) => message.content)).toEqual(['Reviewed the ECG']);
+
+    const Notification = require('../models/Notification');
+    const User = require('../models/User');
+    const patient = await User.findOne({ email: 'consult-chat-pat@example.com' });
+    expect(await Notification.countDocuments({ user_id: patient._id, type: 'message' })).toBe(1);
+    expect(await Notification.countDocuments({ user_id: patient._id, type: 'consultation_accepted' })).toBe(1);
+  });
+
+  test('the doctor fee is split between the doctors for earnings and settlement', async () => {
+    const Payment = require('../models/Payment');
+    const primary = await registerDoctor('consult-fee-primary');
+    const consultant = await registerDoctor('consult-fee-consultant');
+    const patientToken = await registerPatient('consult-fee-pat');
+    const appointmentId = await bookAndPay(primary.doctorId, patientToken);
+
+    const adminToken = await registerAdmin('consult-fee');
+
+    await invite(primary.token, appointmentId, consultant.doctorId);
+    await respond(consultant.token, appointmentId, true);
+
+    const rows = await request(app).get('/api/payments/admin/doctor-earnings').set('Authorization', `Bearer ${adminToken}`);
+    expect(rows.status).toBe(200);
+    expect(rows.body.find((row) => row.doctor_id === primary.doctorId)).toMatchObject({ total_earnings: 250 });
+    expect(rows.body.find((row) => row.doctor_id === consultant.doctorId)).toMatchObject({ total_earnings: 250 });
+
+    const settled = await request(app).patch(`/api/payments/admin/settle-doctor/${consultant.doctorId}`).set('Authorization', `Bearer ${adminToken}`).send({});
+    expect(settled.status).toBe(200);
+    expect(settled.body.settled_amount).toBe(250);
+
+    const consultantSummary = await request(app).get('/api/payments/doctor/summary').set('Authorization', `Bearer ${consultant.token}`);
+    expect(consultantSummary.body).toMatchObject({ gross_earnings: 250, unsettled_earnings: 0 });
+    const primarySummary = await request(app).get('/api/payments/doctor/summary').set('Authorization', `Bearer ${primary.token}`);
+    expect(primarySummary.body).toMatchObject({ gross_earnings: 250, unsettled_earnings: 250 });
+
+    // The primary doctor's share is still owed on the payment itself
+    expect((await Payment.findOne({ appointment_id: appointmentId })).settlement_status).not.toBe('settled');
+  });
+});
@@ -0,0 +1,113 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Dependent profiles', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  function addDependent(token, body) {
+    return request(app).post('/api/dependents').set('Authorization', `Bearer ${token}`).send(body);
+  }
+
+  test('patients manage dependents and can only book for their own', async () => {
+    const parentToken = await registerPatient('dep-parent');
+    const strangerToken = await registerPatient('dep-stranger');
+    const { doctorId } = await registerDoctor('dep-book');
+
+    const badRelation = await addDependent(parentToken, { full_name: 'Kiran', date_of_birth: '2018-04-02', relation: 'cousin' });
+    expect(badRelation.status).toBe(400);
+    const futureBirth = await addDependent(parentToken, { full_name: 'Kiran', date_of_birth: '2999-01-01', relation: 'child' });
+    expect(futureBirth.status).toBe(400);
+
+    const added = await addDependent(parentToken, { full_name: 'Kiran', date_of_birth: '2018-04-02', relation: 'child' });
+    expect(added.status).toBe(201);
+    expect(added.body).toMatchObject({ full_name: 'Kiran', relation: 'child' });
+
+    const updated = await request(app)
+      .put(`/api/dependents/${added.body.id}`)
+      .set('Authorization', `Bearer ${parentToken}`)
+      .send({ full_name: 'Kiran Rao' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.full_name).toBe('Kiran Rao');
+
+    const listed = await request(app).get('/api/dependents').set('Authorization', `Bearer ${strangerToken}`);
+    expect(listed.body).toEqual([]);
+
+    const notTheirs = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${strangerToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00', dependent_id: added.body.id });
+    expect(notTheirs.status).toBe(404);
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${parentToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00', dependent_id: added.body.id });
+    expect(booked.status).toBe(201);
+    expect(booked.body.dependent).toMatchObject({ dependent_id: added.body.id, full_name: 'Kiran Rao', relation: 'child' });
+
+    // Removing them would orphan the booking
+    const removeBooked = await request(app).delete(`/api/dependents/${added.body.id}`).set('Authorization', `Bearer ${parentToken}`);
+    expect(removeBooked.status).toBe(409);
+
+    await request(app).put(`/api/appointments/${booked.body._id}`).set('Authorization', `Bearer ${parentToken}`).send({ status: 'cancelled' });
+    const removed = await request(app).delete(`/api/dependents/${added.body.id}`).set('Authorization', `Bearer ${parentToken}`);
+    expect(removed.status).toBe(200);
+  });
+
+  test('prescriptions and medical records are filed under the dependent', async () => {
+    const parentToken = await registerPatient('dep-records');
+    const doctor = await registerDoctor('dep-records');
+    const dependent = await addDependent(parentToken, { full_name: 'Meera', date_of_birth: '1950-09-12', relation: 'parent' });
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${parentToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '11:00', dependent_id: dependent.body.id });
+    expect(booked.status).toBe(201);
+
+    const prescribed = await request(app)
+      .post('/api/prescriptions')
+      .set('Authorization', `Bearer ${doctor.token}`)
+      .send({ appointment_id: booked.body._id, diagnosis: 'Hypertension', medications: [{ name: 'Amlodipine', dosage: '5mg' }] });
+    expect(prescribed.status).toBe(201);
+    expect(prescribed.body.dependent).toMatchObject({ full_name: 'Meera', relation: 'parent' });
+
+    const forMeera = await request(app).get(`/api/prescriptions?dependent_id=${dependent.body.id}`).set('Authorization', `Bearer ${parentToken}`);
+    expect(forMeera.body).toHaveLength(1);
+    const forSelf = await request(app).get('/api/prescriptions?dependent_id=self').set('Authorization', `Bearer ${parentToken}`);
+    expect(forSelf.body).toEqual([]);
+
+    const uploaded = await request(app)
+      .post('/api/medical-records')
+      .set('Authorization', `Bearer ${parentToken}`)
+      .send({ file_name: 'bp-log.pdf', file_url: 'https://files.example.com/bp-log.pdf', dependent_id: dependent.body.id });
+    expect(uploaded.status).toBe(201);
+    await request(app)
+      .post('/api/medical-records')
+      .set('Authorization', `Bearer ${parentToken}`)
+      .send({ file_name: 'own.pdf', file_url: 'https://files.example.com/own.pdf' });
+
+    const records = await request(app).get(`/api/medical-records?dependent_id=${dependent.body.id}`).set('Authorization', `Bearer ${parentToken}`);
+    expect(records.body.map((r) => r.file_name)).toEqual(['bp-log.pdf']);
+    const ownRecords = await request(app).get('/api/medical-records?dependent_id=self').set('Authorization', `Bearer ${parentToken}`);
+    expect(ownRecords.body.map((r) => r.file_name)).toEqual(['own.pdf']);
+    const allRecords = await request(app).get('/api/medical-records').set('Authorization', `Bearer ${parentToken}`);
+    expect(allRecords.body).toHaveLength(2);
+  });
+});
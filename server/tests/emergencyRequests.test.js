@@ -0,0 +1,197 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, payInCash, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Emergency requests', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor available 09:00-17:00 every day, a patient with a paid 10:00 booking and a second patient
+  async function setup(prefix) {
+    const doctor = await registerDoctor(prefix, { emergency_fee: 1500 });
+    const bookedToken = await registerPatient(`${prefix}-booked`);
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${bookedToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    await payInCash(booked.body._id);
+
+    return {
+      doctorId: doctor.doctorId,
+      doctorToken: doctor.token,
+      bookedToken,
+      bookedAppointmentId: booked.body._id,
+      emergencyToken: await registerPatient(`${prefix}-urgent`),
+    };
+  }
+
+  function requestEmergency(token, doctorId, time = '10:00') {
+    return request(app)
+      .post('/api/emergency-requests')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: time, reason: 'Severe chest pain' });
+  }
+
+  test('emergencies can no longer be booked directly', async () => {
+    const { doctorId, emergencyToken, bookedAppointmentId } = await setup('em-direct');
+    const Appointment = require('../models/Appointment');
+
+    const res = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${emergencyToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00', appointment_type: 'emergency' });
+    expect(res.status).toBe(400);
+    expect((await Appointment.findById(bookedAppointmentId)).status).toBe('confirmed');
+  });
+
+  test('accepting an emergency moves the booked patient to the next free slot', async () => {
+    const Appointment = require('../models/Appointment');
+    const Notification = require('../models/Notification');
+    const { doctorId, doctorToken, emergencyToken, bookedAppointmentId } = await setup('em-accept');
+
+    const created = await requestEmergency(emergencyToken, doctorId);
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ status: 'pending', amount: 1500 });
+
+    const duplicate = await requestEmergency(emergencyToken, doctorId, '11:00');
+    expect(duplicate.status).toBe(409);
+
+    const queue = await request(app).get('/api/emergency-requests/mine').set('Authorization', `Bearer ${doctorToken}`);
+    expect(queue.status).toBe(200);
+    expect(queue.body.map((r) => r._id)).toEqual([created.body._id]);
+
+    // Nothing moves until the doctor accepts
+    expect((await Appointment.findById(bookedAppointmentId)).appointment_time).toBe('10:00');
+
+    const accepted = await request(app)
+      .post(`/api/emergency-requests/${created.body._id}/accept`)
+      .set('Authorization', `Bearer ${doctorToken}`);
+    expect(accepted.status).toBe(201);
+    expect(accepted.body.appointment).toMatchObject({ appointment_type: 'emergency', appointment_time: '10:00', status: 'confirmed' });
+    expect(accepted.body.displaced).toHaveLength(1);
+    expect(accepted.body.displaced[0].outcome).toBe('rebooked');
+
+    const moved = await Appointment.findById(bookedAppointmentId);
+    expect(moved.status).toBe('confirmed');
+    expect(moved.payment_status).toBe('paid');
+    expect(moved.appointment_time).not.toBe('10:00');
+    expect(moved.displaced_by_emergency).toMatchObject({ from_date: bookingDate(), from_time: '10:00' });
+    expect(await Notification.countDocuments({ type: 'emergency_displaced', 'data.appointment_id': moved._id })).toBe(1);
+  });
+
+  test('only one of two concurrent accepts moves bookings and books the emergency', async () => {
+    const Appointment = require('../models/Appointment');
+    const EmergencyRequest = require('../models/EmergencyRequest');
+    const { doctorId, doctorToken, emergencyToken, bookedAppointmentId } = await setup('em-race');
+
+    const created = await requestEmergency(emergencyToken, doctorId);
+    const accept = () => request(app).post(`/api/emergency-requests/${created.body._id}/accept`).set('Authorization', `Bearer ${doctorToken}`);
+    const responses = await Promise.all([accept(), accept()]);
+
+    expect(responses.filter((res) => res.status === 201)).toHaveLength(1);
+    expect(responses.filter((res) => [400, 409].includes(res.status))).toHaveLength(1);
+    expect(await Appointment.countDocuments({ doctor_id: doctorId, appointment_type: 'emergency' })).toBe(1);
+    const moved = await Appointment.findById(bookedAppointmentId);
+    expect(moved.status).toBe('confirmed');
+    expect(moved.displaced_by_emergency).toMatchObject({ from_time: '10:00' });
+    expect((await EmergencyRequest.findById(created.body._id)).status).toBe('accepted');
+  });
+
+  test('a request whose appointment cannot be booked goes back to the queue', async () => {
+    const Appointment = require('../models/Appointment');
+    const EmergencyRequest = require('../models/EmergencyRequest');
+    const { doctorId, doctorToken, emergencyToken } = await setup('em-book-fail');
+
+    const created = await requestEmergency(emergencyToken, doctorId);
+    const create = jest.spyOn(Appointment, 'create').mockRejectedValueOnce(new Error('Appointment validation failed'));
+    const failed = await request(app).post(`/api/emergency-requests/${created.body._id}/accept`).set('Authorization', `Bearer ${doctorToken}`);
+    create.mockRestore();
+    expect(failed.status).toBe(400);
+    expect((await EmergencyRequest.findById(created.body._id)).status).toBe('pending');
+
+    const accepted = await request(app).post(`/api/emergency-requests/${created.body._id}/accept`).set('Authorization', `Bearer ${doctorToken}`);
+    expect(accepted.status).toBe(201);
+    expect(await Appointment.countDocuments({ doctor_id: doctorId, appointment_type: 'emergency' })).toBe(1);
+  });
+
+  test('a displaced patient can turn down the new slot for a full refund', async () => {
+    const Refund = require('../models/Refund');
+    const { doctorId, doctorToken, bookedToken, emergencyToken, bookedAppointmentId } = await setup('em-refund');
+
+    const created = await requestEmergency(emergencyToken, doctorId);
+    await request(app).post(`/api/emergency-requests/${created.body._id}/accept`).set('Authorization', `Bearer ${doctorToken}`);
+
+    // Only the displaced patient can opt out
+    const notDisplaced = await request(app)
+      .put(`/api/appointments/${bookedAppointmentId}/decline-rebooking`)
+      .set('Authorization', `Bearer ${emergencyToken}`);
+    expect(notDisplaced.status).toBe(403);
+
+    const declined = await request(app)
+      .put(`/api/appointments/${bookedAppointmentId}/decline-rebooking`)
+      .set('Authorization', `Bearer ${bookedToken}`);
+    expect(declined.status).toBe(200);
+    expect(declined.body).toMatchObject({ status: 'cancelled', payment_status: 'refunded' });
+
+    const refunds = await Refund.find({ appointment_id: bookedAppointmentId });
+    expect(refunds).toHaveLength(1);
+    expect(refunds[0]).toMatchObject({ amount: 500, refund_percent: 100 });
+  });
+
+  test('a declined request leaves existing bookings alone', async () => {
+    const Appointment = require('../models/Appointment');
+    const EmergencyRequest = require('../models/EmergencyRequest');
+    const { doctorId, doctorToken, emergencyToken, bookedAppointmentId } = await setup('em-decline');
+
+    const created = await requestEmergency(emergencyToken, doctorId);
+    const declined = await request(app)
+      .post(`/api/emergency-requests/${created.body._id}/decline`)
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ reason: 'In surgery' });
+    expect(declined.status).toBe(200);
+    expect(declined.body).toMatchObject({ status: 'declined', decline_reason: 'In surgery' });
+
+    const again = await request(app)
+      .post(`/api/emergency-requests/${created.body._id}/accept`)
+      .set('Authorization', `Bearer ${doctorToken}`);
+    expect(again.status).toBe(400);
+
+    expect((await Appointment.findById(bookedAppointmentId)).appointment_time).toBe('10:00');
+    expect(await Appointment.countDocuments({ doctor_id: doctorId, appointment_type: 'emergency' })).toBe(0);
+    expect((await EmergencyRequest.findById(created.body._id)).responded_at).toBeTruthy();
+  });
+
+  test('unanswered requests expire and can no longer be accepted', async () => {
+    const EmergencyRequest = require('../models/EmergencyRequest');
+    const Notification = require('../models/Notification');
+    const { expireEmergencyRequests } = require('../utils/emergencyRequests');
+    const { doctorId, doctorToken, emergencyToken } = await setup('em-expire');
+
+    const created = await requestEmergency(emergencyToken, doctorId);
+    await EmergencyRequest.updateOne({ _id: created.body._id }, { expires_at: new Date(Date.now() - 1000) });
+
+    expect(await expireEmergencyRequests()).toBe(1);
+    expect((await EmergencyRequest.findById(created.body._id)).status).toBe('expired');
+    expect(await Notification.countDocuments({ type: 'emergency_expired', 'data.emergency_request_id': created.body._id })).toBe(1);
+
+    const late = await request(app)
+      .post(`/api/emergency-requests/${created.body._id}/accept`)
+      .set('Authorization', `Bearer ${doctorToken}`);
+    expect(late.status).toBe(400);
+  });
+});
@@ -0,0 +1,151 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Doctor-proposed follow-ups', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor available every day with one completed appointment for a patient
+  async function setupCompletedConsultation(prefix, { followUpFee = 200 } = {}) {
+    const Appointment = require('../models/Appointment');
+    const { addDays } = require('../utils/appointmentSlots');
+
+    const doctor = await registerDoctor(prefix, { follow_up_fee: followUpFee });
+    const patientToken = await registerPatient(`${prefix}-pat`);
+
+    const today = new Date().toISOString().slice(0, 10);
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: addDays(today, 2), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    await Appointment.updateOne({ _id: booked.body._id }, { status: 'completed', payment_status: 'paid' });
+
+    return { doctorToken: doctor.token, patientToken, appointmentId: booked.body._id, today };
+  }
+
+  test('the patient accepts an exact-slot follow-up in one step at the follow-up fee', async () => {
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorToken, patientToken, appointmentId, today } = await setupCompletedConsultation('fu-exact');
+
+    const proposed = await request(app)
+      .post('/api/follow-ups')
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ appointment_id: appointmentId, appointment_date: addDays(today, 10), appointment_time: '11:00', note: 'Check healing' });
+    expect(proposed.status).toBe(201);
+    expect(proposed.body.fee).toBe(200);
+
+    const duplicate = await request(app)
+      .post('/api/follow-ups')
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ appointment_id: appointmentId, appointment_date: addDays(today, 11), appointment_time: '11:00' });
+    expect(duplicate.status).toBe(400);
+
+    const mine = await request(app).get('/api/follow-ups/mine').set('Authorization', `Bearer ${patientToken}`);
+    expect(mine.status).toBe(200);
+    expect(mine.body).toHaveLength(1);
+    expect(mine.body[0].note).toBe('Check healing');
+
+    const accepted = await request(app)
+      .post(`/api/follow-ups/${proposed.body._id}/accept`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({});
+    expect(accepted.status).toBe(201);
+    expect(accepted.body.appointment.appointment_date).toBe(addDays(today, 10));
+    expect(accepted.body.appointment.appointment_time).toBe('11:00');
+    expect(accepted.body.appointment.doctor_fee).toBe(200);
+    expect(accepted.body.appointment.payment_status).toBe('pending');
+    expect(String(accepted.body.appointment.follow_up_of)).toBe(String(appointmentId));
+    expect(accepted.body.follow_up.status).toBe('accepted');
+
+    const again = await request(app)
+      .post(`/api/follow-ups/${proposed.body._id}/accept`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({});
+    expect(again.status).toBe(400);
+  });
+
+  test('a range follow-up needs a slot picked inside the range', async () => {
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorToken, patientToken, appointmentId, today } = await setupCompletedConsultation('fu-range');
+
+    const proposed = await request(app)
+      .post('/api/follow-ups')
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ appointment_id: appointmentId, from_date: addDays(today, 5), to_date: addDays(today, 9) });
+    expect(proposed.status).toBe(201);
+    expect(proposed.body.appointment_time).toBeNull();
+
+    const noSlot = await request(app)
+      .post(`/api/follow-ups/${proposed.body._id}/accept`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({});
+    expect(noSlot.status).toBe(400);
+
+    const outside = await request(app)
+      .post(`/api/follow-ups/${proposed.body._id}/accept`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_date: addDays(today, 12), appointment_time: '09:00' });
+    expect(outside.status).toBe(400);
+
+    const inside = await request(app)
+      .post(`/api/follow-ups/${proposed.body._id}/accept`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_date: addDays(today, 7), appointment_time: '09:30' });
+    expect(inside.status).toBe(201);
+    expect(inside.body.appointment.appointment_date).toBe(addDays(today, 7));
+  });
+
+  test('a free follow-up is confirmed without payment', async () => {
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorToken, patientToken, appointmentId, today } = await setupCompletedConsultation('fu-free', { followUpFee: 0 });
+
+    const proposed = await request(app)
+      .post('/api/follow-ups')
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ appointment_id: appointmentId, appointment_date: addDays(today, 6), appointment_time: '15:00' });
+    expect(proposed.status).toBe(201);
+
+    const accepted = await request(app)
+      .post(`/api/follow-ups/${proposed.body._id}/accept`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({});
+    expect(accepted.status).toBe(201);
+    expect(accepted.body.appointment.status).toBe('confirmed');
+    expect(accepted.body.appointment.payment_status).toBe('paid');
+  });
+
+  test('only completed appointments of the doctor can get a follow-up', async () => {
+    const Appointment = require('../models/Appointment');
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorToken, patientToken, appointmentId, today } = await setupCompletedConsultation('fu-guard');
+
+    await Appointment.updateOne({ _id: appointmentId }, { status: 'confirmed' });
+    const notDone = await request(app)
+      .post('/api/follow-ups')
+      .set('Authorization', `Bearer ${doctorToken}`)
+      .send({ appointment_id: appointmentId, appointment_date: addDays(today, 6), appointment_time: '15:00' });
+    expect(notDone.status).toBe(400);
+
+    const byPatient = await request(app)
+      .post('/api/follow-ups')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_id: appointmentId, appointment_date: addDays(today, 6), appointment_time: '15:00' });
+    expect(byPatient.status).toBe(403);
+  });
+});
@@ -0,0 +1,62 @@
+// Fixture factories shared by the API suites. They use the app the suite loaded in its beforeAll.
+const request = require('supertest');
+
+function getApp() {
+  return require('../index');
+}
+
+// A verified doctor; `profile` overrides fields of the doctor profile. Available 09:00-17:00 every day
+// unless `availability` is false.
+async function registerDoctor(prefix, profile = {}, { availability = true } = {}) {
+  const User = require('../models/User');
+  const Doctor = require('../models/Doctor');
+  const Availability = require('../models/Availability');
+  const app = getApp();
+
+  const res = await request(app).post('/api/auth/register').send({ full_name: `Doc ${prefix}`, email: `${prefix}-doc@example.com`, password: 'secret', role: 'doctor' });
+  expect(res.status).toBe(201);
+  const user = await User.findOne({ email: `${prefix}-doc@example.com` });
+  const created = await request(app).post('/api/doctors').set('Authorization', `Bearer ${res.body.token}`).send({ user_id: user._id, specialization: 'General', experience_years: 5, consultation_fee: 500, is_verified: true, ...profile });
+  expect(created.status).toBe(201);
+  const doctor = await Doctor.findOne({ user_id: user._id });
+  if (availability) {
+    for (let day = 0; day < 7; day++) {
+      await Availability.create({ doctor_id: doctor._id, day_of_week: day, start_time: '09:00', end_time: '17:00', is_available: true });
+    }
+  }
+  return { token: res.body.token, doctorId: doctor._id.toString() };
+}
+
+async function registerPatient(prefix) {
+  const res = await request(getApp()).post('/api/auth/register').send({ full_name: `Pat ${prefix}`, email: `${prefix}@example.com`, password: 'secret' });
+  expect(res.status).toBe(201);
+  return res.body.token;
+}
+
+async function registerAdmin(prefix) {
+  const User = require('../models/User');
+  const res = await request(getApp()).post('/api/auth/register').send({ full_name: 'Admin', email: `${prefix}-admin@example.com`, password: 'secret' });
+  await User.updateOne({ email: `${prefix}-admin@example.com` }, { role: 'admin' });
+  return res.body.token;
+}
+
+let cashierToken = null;
+
+// Confirms the appointment with a cash payment recorded by an admin (registered on first use), the way
+// tests get a paid appointment without going through a gateway checkout. Resolves to the Payment.
+async function payInCash(appointmentId) {
+  if (!cashierToken) {
+    cashierToken = await registerAdmin('cashier');
+  }
+  const res = await request(getApp()).post('/api/payments').set('Authorization', `Bearer ${cashierToken}`).send({ appointment_id: appointmentId, payment_method: 'cash' });
+  expect(res.status).toBe(201);
+  return res.body.payment;
+}
+
+// Five days ahead, so every slot of the day can still be booked
+function bookingDate() {
+  const { addDays } = require('../utils/appointmentSlots');
+  return addDays(new Date().toISOString().slice(0, 10), 5);
+}
+
+module.exports = { registerDoctor, registerPatient, registerAdmin, payInCash, bookingDate };
@@ -0,0 +1,168 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Intake forms', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  function book(token, doctorId, time, intakeAnswers) {
+    return request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: time, intake_answers: intakeAnswers });
+  }
+
+  test('doctors without a form get the default questionnaire', async () => {
+    const { doctorId } = await registerDoctor('intake-default', { specialization: 'Dermatology' });
+    const patientToken = await registerPatient('intake-default-pat');
+
+    const form = await request(app).get(`/api/intake-forms/doctor/${doctorId}`).set('Authorization', `Bearer ${patientToken}`);
+    expect(form.status).toBe(200);
+    expect(form.body.id).toBeNull();
+    expect(form.body.questions.map((q) => q.id)).toEqual(['symptoms', 'duration', 'medications', 'allergies', 'attachments']);
+
+    // Booking without answers still works; the patient can fill them in later
+    const booked = await book(patientToken, doctorId, '10:00');
+    expect(booked.status).toBe(201);
+    expect(booked.body.intake).toBeNull();
+
+    const filled = await request(app)
+      .put(`/api/appointments/${booked.body._id}/intake`)
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ intake_answers: { symptoms: 'Itchy rash on both arms', duration: '2 weeks' } });
+    expect(filled.status).toBe(200);
+    expect(filled.body.intake.answers.map((a) => a.question_id)).toEqual(['symptoms', 'duration']);
+  });
+
+  test('specialization forms are checked at booking and attach the patient\'s own records', async () => {
+    const MedicalRecord = require('../models/MedicalRecord');
+    const User = require('../models/User');
+    const adminToken = await registerAdmin('intake-spec');
+    const { doctorId } = await registerDoctor('intake-spec', { specialization: 'Cardiology' });
+    const patientToken = await registerPatient('intake-spec-pat');
+    const otherToken = await registerPatient('intake-spec-other');
+
+    const created = await request(app)
+      .post('/api/intake-forms')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({
+        specialization: 'cardiology',
+        title: 'Heart health intake',
+        questions: [
+          { label: 'Do you have chest pain?', type: 'yes_no', required: true },
+          { label: 'Smoking', type: 'single_choice', options: ['Never', 'Former', 'Current'] },
+          { label: 'Recent ECGs', type: 'medical_records' },
+        ],
+      });
+    expect(created.status).toBe(201);
+    const [chestPain, smoking, ecgs] = created.body.questions.map((q) => q.id);
+
+    const duplicate = await request(app)
+      .post('/api/intake-forms')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ specialization: 'Cardiology', questions: [{ label: 'Anything else?', type: 'long_text' }] });
+    expect(duplicate.status).toBe(409);
+
+    const form = await request(app).get(`/api/intake-forms/doctor/${doctorId}`).set('Authorization', `Bearer ${patientToken}`);
+    expect(form.body.title).toBe('Heart health intake');
+
+    const missing = await book(patientToken, doctorId, '10:00', { [smoking]: 'Never' });
+    expect(missing.status).toBe(400);
+
+    const other = await request(app).post('/api/medical-records').set('Authorization', `Bearer ${otherToken}`).send({ file_name: 'other.pdf', file_url: 'https://files.example.com/other.pdf' });
+    const notMine = await book(patientToken, doctorId, '10:00', { [chestPain]: true, [ecgs]: [other.body._id] });
+    expect(notMine.status).toBe(400);
+
+    const patient = await User.findOne({ email: 'intake-spec-pat@example.com' });
+    const record = await MedicalRecord.create({ patient_id: patient._id, file_name: 'ecg.pdf', file_url: 'https://files.example.com/ecg.pdf', record_type: 'Lab Reports' });
+    const booked = await book(patientToken, doctorId, '10:00', { [chestPain]: true, [smoking]: 'Former', [ecgs]: [record._id.toString()] });
+    expect(booked.status).toBe(201);
+    expect(booked.body.intake).toMatchObject({ form_id: created.body.id, title: 'Heart health intake' });
+    expect(booked.body.intake.answers).toEqual([
+      expect.objectContaining({ question_id: chestPain, value: true }),
+      expect.objectContaining({ question_id: smoking, value: 'Former' }),
+      expect.objectContaining({ question_id: ecgs, records: [expect.objectContaining({ file_name: 'ecg.pdf' })] }),
+    ]);
+  });
+
+  test('a doctor\'s own form replaces the specialization form and only they see the answers', async () => {
+    const own = await registerDoctor('intake-own', { specialization: 'Neurology' });
+    const colleague = await registerDoctor('intake-colleague', { specialization: 'Neurology' });
+    const patientToken = await registerPatient('intake-own-pat');
+
+    const created = await request(app)
+      .post('/api/intake-forms')
+      .set('Authorization', `Bearer ${own.token}`)
+      .send({ questions: [{ label: 'How often do headaches occur?', type: 'short_text', required: true }] });
+    expect(created.status).toBe(201);
+    const questionId = created.body.questions[0].id;
+
+    const notTheirs = await request(app)
+      .put(`/api/intake-forms/${created.body.id}`)
+      .set('Authorization', `Bearer ${colleague.token}`)
+      .send({ questions: [{ label: 'Changed', type: 'short_text' }] });
+    expect(notTheirs.status).toBe(403);
+
+    const colleagueForm = await request(app).get(`/api/intake-forms/doctor/${colleague.doctorId}`).set('Authorization', `Bearer ${patientToken}`);
+    expect(colleagueForm.body.id).toBeNull();
+
+    const booked = await book(patientToken, own.doctorId, '11:00', { [questionId]: 'Twice a week' });
+    expect(booked.status).toBe(201);
+    const patientId = booked.body.patient_id;
+
+    const responses = await request(app).get(`/api/intake-forms/patient/${patientId}/responses`).set('Authorization', `Bearer ${own.token}`);
+    expect(responses.status).toBe(200);
+    expect(responses.body).toHaveLength(1);
+    expect(responses.body[0].intake.answers[0]).toMatchObject({ label: 'How often do headaches occur?', value: 'Twice a week' });
+
+    const hidden = await request(app).get(`/api/intake-forms/patient/${patientId}/responses`).set('Authorization', `Bearer ${colleague.token}`);
+    expect(hidden.body).toEqual([]);
+  });
+
+  test('an appointment and its intake answers are only shown to the people on it', async () => {
+    const own = await registerDoctor('intake-view', { specialization: 'Cardiology' });
+    const colleague = await registerDoctor('intake-view-colleague', { specialization: 'Cardiology' });
+    const patientToken = await registerPatient('intake-view-pat');
+    const otherPatientToken = await registerPatient('intake-view-other');
+    const adminToken = await registerAdmin('intake-view');
+
+    const booked = await book(patientToken, own.doctorId, '12:00');
+    expect(booked.status).toBe(201);
+    const view = (token) => request(app).get(`/api/appointments/${booked.body._id}`).set('Authorization', `Bearer ${token}`);
+
+    expect((await view(patientToken)).status).toBe(200);
+    expect((await view(own.token)).status).toBe(200);
+    expect((await view(adminToken)).status).toBe(200);
+    expect((await view(otherPatientToken)).status).toBe(403);
+    expect((await view(colleague.token)).status).toBe(403);
+
+    const invited = await request(app)
+      .post(`/api/appointments/${booked.body._id}/consultants`)
+      .set('Authorization', `Bearer ${own.token}`)
+      .send({ doctor_id: colleague.doctorId });
+    expect(invited.status).toBe(201);
+    expect((await view(colleague.token)).status).toBe(403);
+
+    const accepted = await request(app)
+      .put(`/api/appointments/${booked.body._id}/consultants/respond`)
+      .set('Authorization', `Bearer ${colleague.token}`)
+      .send({ accept: true });
+    expect(accepted.status).toBe(200);
+    expect((await view(colleague.token)).status).toBe(200);
+  });
+});
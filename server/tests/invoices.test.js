@@ -0,0 +1,187 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const nodemailer = require('nodemailer');
+const { S3Client } = require('@aws-sdk/client-s3');
+const { MongoMemoryReplSet } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+const INVOICE_ENV = {
+  INVOICE_GSTIN: '29ABCDE1234F1Z5',
+  INVOICE_SUPPLIER_NAME: 'MediConnect Health',
+  INVOICE_SUPPLIER_STATE: 'Karnataka',
+  AWS_BUCKET_NAME: 'invoice-test-bucket',
+  AWS_REGION: 'ap-south-1',
+  EMAIL_PROVIDER: 'smtp',
+  SMTP_HOST: 'smtp.example.com',
+  SMTP_USER: 'mailer',
+  FAKE_PAYMENT_WEBHOOK_SECRET: 'fake-webhook-secret',
+};
+
+function readBinary(res, callback) {
+  const chunks = [];
+  res.on('data', (chunk) => chunks.push(chunk));
+  res.on('end', () => callback(null, Buffer.concat(chunks)));
+}
+
+describe('Invoices', () => {
+  let mongoServer;
+  let previousEnv;
+  beforeAll(async () => {
+    previousEnv = {};
+    for (const [key, value] of Object.entries(INVOICE_ENV)) {
+      previousEnv[key] = process.env[key];
+      process.env[key] = value;
+    }
+    // Invoices are numbered in a transaction, which needs a replica set
+    mongoServer = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    for (const [key, value] of Object.entries(previousEnv)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    jest.restoreAllMocks();
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  test('a completed payment is invoiced, filed, emailed and downloadable', async () => {
+    const Invoice = require('../models/Invoice');
+    const MedicalRecord = require('../models/MedicalRecord');
+    const storeObject = jest.spyOn(S3Client.prototype, 'send').mockResolvedValue({});
+    const sendMail = jest.fn().mockResolvedValue({});
+    jest.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail });
+
+    const doctor = await registerDoctor('inv');
+    const profile = await request(app)
+      .put(`/api/doctors/${doctor.doctorId}`)
+      .set('Authorization', `Bearer ${doctor.token}`)
+      .send({ registration_number: 'KMC-12345', registration_council: 'Karnataka Medical Council' });
+    expect(profile.status).toBe(200);
+
+    const patientToken = await registerPatient('inv-pat');
+    const otherToken = await registerPatient('inv-other');
+    const adminToken = await registerAdmin('inv');
+    await request(app).patch('/api/platform-settings').set('Authorization', `Bearer ${adminToken}`).send({ platform_fee: 118, payment_provider: 'fake' });
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    expect(booked.body.amount).toBe(618);
+
+    const noInvoiceYet = await request(app).get(`/api/invoices/appointments/${booked.body._id}`).set('Authorization', `Bearer ${patientToken}`);
+    expect(noInvoiceYet.status).toBe(404);
+
+    const order = await request(app).post('/api/payments/checkout/order').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: booked.body._id });
+    const verified = await request(app)
+      .post('/api/payments/checkout/verify')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_id: booked.body._id, order_id: order.body.order_id, provider: 'fake', fake_outcome: 'success' });
+    expect(verified.status).toBe(200);
+
+    // Doctor's fee is exempt; the platform fee includes 18% GST split into CGST and SGST
+    const invoice = await Invoice.findOne({ appointment_id: booked.body._id });
+    expect(invoice.invoice_number).toMatch(/^MC\/\d{2}-\d{2}\/000001$/);
+    expect(invoice).toMatchObject({
+      document_type: 'tax_invoice',
+      total: 618,
+      taxable_total: 600,
+      cgst_total: 9,
+      sgst_total: 9,
+      place_of_supply: 'Karnataka',
+      doctor: { registration_number: 'KMC-12345', registration_council: 'Karnataka Medical Council' },
+    });
+    expect(invoice.items.map((item) => [item.sac, item.taxable_value, item.gst_rate, item.total])).toEqual([
+      ['9993', 500, 0, 500],
+      ['9985', 100, 18, 118],
+    ]);
+
+    expect(storeObject).toHaveBeenCalledTimes(1);
+    const record = await MedicalRecord.findById(invoice.medical_record_id);
+    expect(record).toMatchObject({ record_type: 'Invoices', mime_type: 'application/pdf', file_url: invoice.file_url });
+    expect(record.file_url).toMatch(/^https:\/\/invoice-test-bucket\.s3\.ap-south-1\.amazonaws\.com\/invoices\//);
+
+    const confirmation = sendMail.mock.calls.map(([mail]) => mail).find((mail) => mail.subject.startsWith('Appointment Confirmed'));
+    expect(confirmation.attachments).toHaveLength(1);
+    expect(confirmation.attachments[0]).toMatchObject({ filename: `invoice-${invoice.invoice_number.replace(/\//g, '-')}.pdf`, contentType: 'application/pdf' });
+    expect(confirmation.attachments[0].content.subarray(0, 5).toString()).toBe('%PDF-');
+
+    // Asking again returns the same invoice
+    const fetched = await request(app).get(`/api/invoices/appointments/${booked.body._id}`).set('Authorization', `Bearer ${patientToken}`);
+    expect(fetched.status).toBe(200);
+    expect(fetched.body._id).toBe(String(invoice._id));
+    expect(await Invoice.countDocuments({ appointment_id: booked.body._id })).toBe(1);
+
+    const forbidden = await request(app).get(`/api/invoices/appointments/${booked.body._id}`).set('Authorization', `Bearer ${otherToken}`);
+    expect(forbidden.status).toBe(403);
+    const forbiddenPdf = await request(app).get(`/api/invoices/${invoice._id}/pdf`).set('Authorization', `Bearer ${otherToken}`);
+    expect(forbiddenPdf.status).toBe(403);
+
+    const pdf = await request(app)
+      .get(`/api/invoices/${invoice._id}/pdf`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .buffer(true)
+      .parse(readBinary);
+    expect(pdf.status).toBe(200);
+    expect(pdf.headers['content-type']).toMatch(/application\/pdf/);
+    const text = pdf.body.toString('latin1');
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain(invoice.invoice_number);
+    expect(text).toContain('KMC-12345');
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf.body.equals(confirmation.attachments[0].content)).toBe(true);
+
+    await request(app).patch('/api/platform-settings').set('Authorization', `Bearer ${adminToken}`).send({ platform_fee: 0, payment_provider: 'cashfree' });
+  });
+
+  test('invoice numbers stay consecutive when an invoice cannot be created', async () => {
+    const Invoice = require('../models/Invoice');
+    const InvoiceCounter = require('../models/InvoiceCounter');
+    jest.spyOn(S3Client.prototype, 'send').mockResolvedValue({});
+    jest.spyOn(nodemailer, 'createTransport').mockReturnValue({ sendMail: jest.fn().mockResolvedValue({}) });
+
+    const doctor = await registerDoctor('gapless');
+    const patientToken = await registerPatient('gapless-pat');
+    const adminToken = await registerAdmin('gapless');
+    await request(app).patch('/api/platform-settings').set('Authorization', `Bearer ${adminToken}`).send({ payment_provider: 'fake' });
+
+    const bookAndPay = async (time) => {
+      const booked = await request(app)
+        .post('/api/appointments')
+        .set('Authorization', `Bearer ${patientToken}`)
+        .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: time });
+      expect(booked.status).toBe(201);
+      const order = await request(app).post('/api/payments/checkout/order').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: booked.body._id });
+      const verified = await request(app)
+        .post('/api/payments/checkout/verify')
+        .set('Authorization', `Bearer ${patientToken}`)
+        .send({ appointment_id: booked.body._id, order_id: order.body.order_id, provider: 'fake', fake_outcome: 'success' });
+      expect(verified.status).toBe(200);
+      return booked.body._id;
+    };
+
+    // The payment goes through without an invoice, and the number it was given is taken back with it
+    const create = jest.spyOn(Invoice, 'create').mockRejectedValueOnce(new Error('write failed'));
+    const failed = await bookAndPay('11:00');
+    create.mockRestore();
+    expect(await Invoice.countDocuments({ appointment_id: failed })).toBe(0);
+
+    await bookAndPay('12:00');
+    const issued = await request(app).get(`/api/invoices/appointments/${failed}`).set('Authorization', `Bearer ${patientToken}`);
+    expect(issued.status).toBe(200);
+
+    const invoices = await Invoice.find({}, 'invoice_number issued_at').sort({ issued_at: 1 });
+    expect(invoices.map((invoice) => Number(invoice.invoice_number.split('/').pop()))).toEqual(invoices.map((_, index) => index + 1));
+    const counters = await InvoiceCounter.find();
+    expect(counters.reduce((total, counter) => total + counter.seq, 0)).toBe(invoices.length);
+  });
+});
@@ -0,0 +1,152 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, payInCash, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('No-show tracking', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor and a patient with one paid, confirmed appointment that started an hour ago
+  async function setupStartedAppointment(prefix, profile = {}, booking = {}) {
+    const Appointment = require('../models/Appointment');
+
+    const doctor = await registerDoctor(prefix, profile);
+    const patientToken = await registerPatient(`${prefix}-pat`);
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '11:00', ...booking });
+    expect(booked.status).toBe(201);
+
+    await payInCash(booked.body._id);
+
+    await Appointment.updateOne({ _id: booked.body._id }, { start_at: new Date(Date.now() - 60 * 60 * 1000) });
+
+    return { doctorToken: doctor.token, patientToken, doctorId: doctor.doctorId, appointmentId: booked.body._id };
+  }
+
+  function recordNoShow(token, appointmentId, outcome) {
+    return request(app)
+      .put(`/api/appointments/${appointmentId}/no-show`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ outcome });
+  }
+
+  test('a patient no-show forfeits the fee by default', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const { doctorToken, patientToken, appointmentId } = await setupStartedAppointment('ns-patient');
+
+    expect((await recordNoShow(patientToken, appointmentId, 'no_show_patient')).status).toBe(403);
+
+    const res = await recordNoShow(doctorToken, appointmentId, 'no_show_patient');
+    expect(res.status).toBe(200);
+    expect(res.body.refunded).toBe(false);
+
+    const appointment = await Appointment.findById(appointmentId);
+    expect(appointment.status).toBe('no_show_patient');
+    expect(appointment.payment_status).toBe('paid');
+    expect(appointment.status_history.at(-1).role).toBe('doctor');
+    expect((await Payment.findOne({ appointment_id: appointmentId })).status).toBe('completed');
+
+    const again = await recordNoShow(doctorToken, appointmentId, 'no_show_doctor');
+    expect(again.status).toBe(409);
+  });
+
+  test('a doctor who never joined is recorded automatically and the patient is refunded', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const Notification = require('../models/Notification');
+    const { detectDoctorNoShows } = require('../utils/noShows');
+    const { appointmentId } = await setupStartedAppointment('ns-doctor');
+
+    // The slot has not ended plus the grace period yet
+    await Appointment.updateOne({ _id: appointmentId }, { start_at: new Date(Date.now() - 40 * 60 * 1000) });
+    await detectDoctorNoShows();
+    expect((await Appointment.findById(appointmentId)).status).toBe('confirmed');
+
+    await Appointment.updateOne({ _id: appointmentId }, { start_at: new Date(Date.now() - 2 * 60 * 60 * 1000) });
+    expect(await detectDoctorNoShows()).toBeGreaterThanOrEqual(1);
+
+    const appointment = await Appointment.findById(appointmentId);
+    expect(appointment.status).toBe('no_show_doctor');
+    expect(appointment.payment_status).toBe('refunded');
+    expect(appointment.status_history.at(-1).role).toBe('system');
+    expect((await Payment.findOne({ appointment_id: appointmentId })).status).toBe('refunded');
+    expect(await Notification.countDocuments({ 'data.appointment_id': appointment._id, type: 'appointment_no_show' })).toBe(2);
+  });
+
+  test('in-person appointments are never flagged automatically', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const { detectDoctorNoShows } = require('../utils/noShows');
+    const { appointmentId } = await setupStartedAppointment(
+      'ns-inperson',
+      { consultation_modes: ['video', 'in_person'], clinic_address: '12 MG Road, Bengaluru' },
+      { consultation_mode: 'in_person' },
+    );
+
+    await Appointment.updateOne({ _id: appointmentId }, { start_at: new Date(Date.now() - 2 * 60 * 60 * 1000) });
+    await detectDoctorNoShows();
+
+    const appointment = await Appointment.findById(appointmentId);
+    expect(appointment.consultation_mode).toBe('in_person');
+    expect(appointment.status).toBe('confirmed');
+    expect(appointment.payment_status).toBe('paid');
+    expect((await Payment.findOne({ appointment_id: appointmentId })).status).toBe('completed');
+  });
+
+  test('a no-show cannot be recorded before the appointment starts', async () => {
+    const Appointment = require('../models/Appointment');
+    const { doctorToken, appointmentId } = await setupStartedAppointment('ns-early');
+
+    await Appointment.updateOne({ _id: appointmentId }, { start_at: new Date(Date.now() + 2 * 60 * 60 * 1000) });
+    const res = await recordNoShow(doctorToken, appointmentId, 'no_show_patient');
+    expect(res.status).toBe(400);
+    expect((await Appointment.findById(appointmentId)).status).toBe('confirmed');
+  });
+
+  test('repeated patient no-shows require prepayment', async () => {
+    const Appointment = require('../models/Appointment');
+    const PlatformSettings = require('../models/PlatformSettings');
+    const { addDays } = require('../utils/appointmentSlots');
+    const { doctorToken, patientToken, doctorId, appointmentId } = await setupStartedAppointment('ns-threshold');
+
+    await PlatformSettings.findOneAndUpdate({ key: 'global' }, { no_show_prepayment_threshold: 1 }, { upsert: true });
+    expect((await recordNoShow(doctorToken, appointmentId, 'no_show_patient')).status).toBe(200);
+
+    const status = await request(app).get('/api/appointments/no-show-status').set('Authorization', `Bearer ${patientToken}`);
+    expect(status.status).toBe(200);
+    expect(status.body).toMatchObject({ no_show_count: 1, prepayment_threshold: 1, prepayment_required: true });
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: addDays(new Date().toISOString().slice(0, 10), 5), appointment_time: '14:00' });
+    expect(booked.status).toBe(201);
+    expect((await Appointment.findById(booked.body._id)).payment_status).toBe('pending');
+
+    const series = await request(app)
+      .post('/api/appointments/series')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, start_date: addDays(new Date().toISOString().slice(0, 10), 8), appointment_time: '15:00', frequency: 'weekly', occurrences: 3 });
+    expect(series.status).toBe(403);
+
+    await PlatformSettings.findOneAndUpdate({ key: 'global' }, { no_show_prepayment_threshold: 3 });
+  });
+});
@@ -0,0 +1,134 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, payInCash, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Clinic organizations', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A platform admin, an organization with one member doctor, one outside doctor and a clinic admin
+  async function setupOrganization(prefix) {
+    const adminToken = await registerAdmin(prefix);
+
+    const organization = await request(app).post('/api/organizations').set('Authorization', `Bearer ${adminToken}`).send({ name: `${prefix} Clinic` });
+    expect(organization.status).toBe(201);
+    const organizationId = organization.body._id;
+
+    const member = await registerDoctor(`${prefix}-member`, {}, { availability: false });
+    const outsider = await registerDoctor(`${prefix}-outsider`, {}, { availability: false });
+    const added = await request(app).post(`/api/organizations/${organizationId}/doctors`).set('Authorization', `Bearer ${adminToken}`).send({ doctor_id: member.doctorId });
+    expect(added.status).toBe(201);
+
+    const clinicAdminToken = await registerPatient(`${prefix}-clinic`);
+    const promoted = await request(app).post(`/api/organizations/${organizationId}/admins`).set('Authorization', `Bearer ${adminToken}`).send({ email: `${prefix}-clinic@example.com` });
+    expect(promoted.status).toBe(201);
+    expect(promoted.body.admins).toHaveLength(1);
+
+    return { adminToken, organizationId, member, outsider, clinicAdminToken };
+  }
+
+  async function bookAndPay(doctorId, patientToken) {
+    const Availability = require('../models/Availability');
+    for (let day = 0; day < 7; day++) {
+      await Availability.create({ doctor_id: doctorId, day_of_week: day, start_time: '09:00', end_time: '17:00', is_available: true });
+    }
+    const date = bookingDate();
+    const booked = await request(app).post('/api/appointments').set('Authorization', `Bearer ${patientToken}`).send({ doctor_id: doctorId, appointment_date: date, appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    await payInCash(booked.body._id);
+    return booked.body._id;
+  }
+
+  test('nobody can sign up as a clinic admin', async () => {
+    const res = await request(app).post('/api/auth/register').send({ full_name: 'Sneaky', email: 'org-sneaky@example.com', password: 'secret', role: 'clinic_admin' });
+    expect(res.status).toBe(400);
+  });
+
+  test('clinic admins manage availability of their own doctors only', async () => {
+    const { member, outsider, clinicAdminToken } = await setupOrganization('org-avail');
+
+    const own = await request(app)
+      .post('/api/availability')
+      .set('Authorization', `Bearer ${clinicAdminToken}`)
+      .send({ doctor_id: member.doctorId, day_of_week: 1, start_time: '09:00', end_time: '13:00', is_available: true });
+    expect(own.status).toBe(201);
+    expect(own.body.doctor_id).toBe(member.doctorId);
+
+    const leave = await request(app)
+      .post('/api/availability/overrides')
+      .set('Authorization', `Bearer ${clinicAdminToken}`)
+      .send({ doctor_id: member.doctorId, date: '2099-01-05', kind: 'leave' });
+    expect(leave.status).toBe(201);
+
+    const foreign = await request(app)
+      .post('/api/availability')
+      .set('Authorization', `Bearer ${clinicAdminToken}`)
+      .send({ doctor_id: outsider.doctorId, day_of_week: 1, start_time: '09:00', end_time: '13:00', is_available: true });
+    expect(foreign.status).toBe(403);
+
+    const slotSettings = await request(app)
+      .put(`/api/doctors/${member.doctorId}`)
+      .set('Authorization', `Bearer ${clinicAdminToken}`)
+      .send({ slot_duration_minutes: 15, consultation_fee: 1 });
+    expect(slotSettings.status).toBe(200);
+    expect(slotSettings.body.slot_duration_minutes).toBe(15);
+    expect(slotSettings.body.consultation_fee).toBe(500);
+
+    const foreignProfile = await request(app)
+      .put(`/api/doctors/${outsider.doctorId}`)
+      .set('Authorization', `Bearer ${clinicAdminToken}`)
+      .send({ slot_duration_minutes: 15 });
+    expect(foreignProfile.status).toBe(403);
+  });
+
+  test('the combined calendar only shows appointments of member doctors', async () => {
+    const { member, outsider, clinicAdminToken } = await setupOrganization('org-calendar');
+    const patientToken = await registerPatient('org-calendar-pat');
+
+    const memberAppointment = await bookAndPay(member.doctorId, patientToken);
+    await bookAndPay(outsider.doctorId, patientToken);
+
+    const res = await request(app).get('/api/appointments').set('Authorization', `Bearer ${clinicAdminToken}`);
+    expect(res.status).toBe(200);
+    expect(res.body.map((appointment) => appointment._id)).toEqual([memberAppointment]);
+
+    const narrowed = await request(app).get(`/api/appointments?doctor_id=${outsider.doctorId}`).set('Authorization', `Bearer ${clinicAdminToken}`);
+    expect(narrowed.body).toEqual([]);
+  });
+
+  test('member doctors are settled through their organization', async () => {
+    const Payment = require('../models/Payment');
+    const { adminToken, organizationId, member, clinicAdminToken } = await setupOrganization('org-settle');
+    const patientToken = await registerPatient('org-settle-pat');
+    const appointmentId = await bookAndPay(member.doctorId, patientToken);
+
+    const summary = await request(app).get('/api/payments/organization/summary').set('Authorization', `Bearer ${clinicAdminToken}`);
+    expect(summary.status).toBe(200);
+    expect(summary.body).toMatchObject({ total_earnings: 500, unsettled_earnings: 500, total_payments: 1 });
+
+    const perDoctor = await request(app).patch(`/api/payments/admin/settle-doctor/${member.doctorId}`).set('Authorization', `Bearer ${adminToken}`).send({});
+    expect(perDoctor.status).toBe(409);
+
+    const rows = await request(app).get('/api/payments/admin/organization-earnings').set('Authorization', `Bearer ${adminToken}`);
+    expect(rows.body.find((row) => row.organization_id === organizationId)).toMatchObject({ unsettled_earnings: 500, doctor_count: 1 });
+
+    const settled = await request(app).patch(`/api/payments/admin/settle-organization/${organizationId}`).set('Authorization', `Bearer ${adminToken}`).send({ notes: 'NEFT 42' });
+    expect(settled.status).toBe(200);
+    expect(settled.body.settled_amount).toBe(500);
+    expect((await Payment.findOne({ appointment_id: appointmentId })).settlement_status).toBe('settled');
+  });
+});
@@ -0,0 +1,181 @@
+const request = require('supertest');
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+const RAZORPAY_WEBHOOK_SECRET = 'razorpay-webhook-secret';
+const FAKE_PAYMENT_WEBHOOK_SECRET = 'fake-webhook-secret';
+
+describe('Payment providers', () => {
+  let mongoServer;
+  let previousEnv;
+  beforeAll(async () => {
+    previousEnv = {
+      keyId: process.env.RAZORPAY_KEY_ID,
+      keySecret: process.env.RAZORPAY_KEY_SECRET,
+      webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET,
+      fakeSecret: process.env.FAKE_PAYMENT_WEBHOOK_SECRET,
+    };
+    process.env.RAZORPAY_KEY_ID = 'rzp_test_id';
+    process.env.RAZORPAY_KEY_SECRET = 'rzp_test_secret';
+    process.env.RAZORPAY_WEBHOOK_SECRET = RAZORPAY_WEBHOOK_SECRET;
+    process.env.FAKE_PAYMENT_WEBHOOK_SECRET = FAKE_PAYMENT_WEBHOOK_SECRET;
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    process.env.RAZORPAY_KEY_ID = previousEnv.keyId;
+    process.env.RAZORPAY_KEY_SECRET = previousEnv.keySecret;
+    process.env.RAZORPAY_WEBHOOK_SECRET = previousEnv.webhookSecret;
+    process.env.FAKE_PAYMENT_WEBHOOK_SECRET = previousEnv.fakeSecret;
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  async function setupDoctor(prefix) {
+    const { doctorId } = await registerDoctor(prefix);
+    return { doctorId, patientToken: await registerPatient(`${prefix}-pat`), adminToken: await registerAdmin(prefix) };
+  }
+
+  async function book(doctorId, patientToken, time) {
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: time });
+    expect(booked.status).toBe(201);
+    return booked.body;
+  }
+
+  function useProvider(adminToken, name) {
+    return request(app).patch('/api/platform-settings').set('Authorization', `Bearer ${adminToken}`).send({ payment_provider: name });
+  }
+
+  test('the fake provider checks out, fails and refunds deterministically', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const { doctorId, patientToken, adminToken } = await setupDoctor('pp-fake');
+
+    const unknown = await useProvider(adminToken, 'paypal');
+    expect(unknown.status).toBe(400);
+    const switched = await useProvider(adminToken, 'fake');
+    expect(switched.status).toBe(200);
+    expect(switched.body.payment_provider).toBe('fake');
+    expect(switched.body.payment_providers.map((provider) => provider.name)).toEqual(['cashfree', 'razorpay', 'fake']);
+
+    const config = await request(app).get('/api/payments/checkout/config').set('Authorization', `Bearer ${patientToken}`);
+    expect(config.body).toMatchObject({ provider: 'fake', configured: true });
+
+    const paidAppointment = await book(doctorId, patientToken, '10:00');
+    const order = await request(app).post('/api/payments/checkout/order').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: paidAppointment._id });
+    expect(order.status).toBe(200);
+    expect(order.body).toMatchObject({ provider: 'fake', amount: paidAppointment.amount });
+
+    const verified = await request(app)
+      .post('/api/payments/checkout/verify')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_id: paidAppointment._id, order_id: order.body.order_id, provider: 'fake', fake_outcome: 'success' });
+    expect(verified.status).toBe(200);
+    expect(await Appointment.findById(paidAppointment._id)).toMatchObject({ status: 'confirmed', payment_status: 'paid' });
+    const payment = await Payment.findOne({ appointment_id: paidAppointment._id });
+    expect(payment).toMatchObject({ provider: 'fake', fake_order_id: order.body.order_id, fake_payment_id: `fake_pay_${order.body.order_id}` });
+
+    const refunded = await request(app)
+      .post(`/api/payments/admin/payments/${payment._id}/refund`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ amount: 100, reason: 'Goodwill' });
+    expect(refunded.status).toBe(201);
+    expect(refunded.body).toMatchObject({ gateway: 'fake', status: 'processed', gateway_reference_id: `fake_refund_${refunded.body.gateway_refund_id}` });
+
+    const failedAppointment = await book(doctorId, patientToken, '11:00');
+    const failedOrder = await request(app).post('/api/payments/checkout/order').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: failedAppointment._id });
+    const failed = await request(app)
+      .post('/api/payments/checkout/verify')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ appointment_id: failedAppointment._id, order_id: failedOrder.body.order_id, provider: 'fake', fake_outcome: 'failure' });
+    expect(failed.status).toBe(400);
+    expect(await Appointment.findById(failedAppointment._id)).toMatchObject({ status: 'cancelled', payment_status: 'failed' });
+    const failedPayment = await Payment.findOne({ appointment_id: failedAppointment._id });
+    expect(failedPayment).toMatchObject({ status: 'failed', fake_order_id: failedOrder.body.order_id });
+
+    await useProvider(adminToken, 'cashfree');
+  });
+
+  test('a signed Razorpay order.paid webhook confirms the appointment once', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const { buildPaymentOrderId } = require('../utils/paymentOrders');
+    const { doctorId, patientToken } = await setupDoctor('pp-razorpay');
+    const appointment = await book(doctorId, patientToken, '12:00');
+
+    const body = JSON.stringify({
+      event: 'order.paid',
+      created_at: Math.floor(Date.now() / 1000),
+      payload: {
+        order: { entity: { id: 'order_rzp_1', amount: Math.round(appointment.amount * 100), receipt: buildPaymentOrderId(appointment._id).slice(0, 40) } },
+        payment: { entity: { id: 'pay_rzp_1', status: 'captured' } },
+      },
+    });
+    const deliver = (signature) => request(app)
+      .post('/api/payments/razorpay/webhook')
+      .set('Content-Type', 'application/json')
+      .set('x-razorpay-signature', signature)
+      .send(body);
+    const signature = crypto.createHmac('sha256', RAZORPAY_WEBHOOK_SECRET).update(body).digest('hex');
+
+    const forged = await deliver('0'.repeat(64));
+    expect(forged.status).toBe(401);
+
+    const first = await deliver(signature);
+    expect(first.body).toMatchObject({ received: true, processed: true });
+    expect(await Appointment.findById(appointment._id)).toMatchObject({ status: 'confirmed', payment_status: 'paid' });
+    expect(await Payment.findOne({ appointment_id: appointment._id })).toMatchObject({ provider: 'razorpay', razorpay_order_id: 'order_rzp_1', razorpay_payment_id: 'pay_rzp_1' });
+
+    const again = await deliver(signature);
+    expect(again.body).toMatchObject({ received: true, duplicate: true });
+    expect(await Payment.countDocuments({ appointment_id: appointment._id })).toBe(1);
+  });
+
+  test('the fake provider accepts no payments in production or without its secret', async () => {
+    const Appointment = require('../models/Appointment');
+    const { buildPaymentOrderId } = require('../utils/paymentOrders');
+    const { doctorId, patientToken } = await setupDoctor('pp-fake-off');
+    const appointment = await book(doctorId, patientToken, '13:00');
+
+    const body = JSON.stringify({ type: 'payment.succeeded', order_id: buildPaymentOrderId(appointment._id), amount: appointment.amount, created_at: Math.floor(Date.now() / 1000) });
+    const deliver = (secret) => request(app)
+      .post('/api/payments/fake/webhook')
+      .set('Content-Type', 'application/json')
+      .set('x-fake-signature', crypto.createHmac('sha256', secret).update(body).digest('hex'))
+      .send(body);
+
+    process.env.NODE_ENV = 'production';
+    try {
+      const webhook = await deliver(FAKE_PAYMENT_WEBHOOK_SECRET);
+      expect(webhook.status).toBe(404);
+      const verified = await request(app)
+        .post('/api/payments/checkout/verify')
+        .set('Authorization', `Bearer ${patientToken}`)
+        .send({ appointment_id: appointment._id, order_id: buildPaymentOrderId(appointment._id), provider: 'fake', fake_outcome: 'success' });
+      expect(verified.status).toBe(400);
+    } finally {
+      process.env.NODE_ENV = 'test';
+    }
+
+    delete process.env.FAKE_PAYMENT_WEBHOOK_SECRET;
+    try {
+      const unsigned = await deliver('');
+      expect(unsigned.status).toBe(401);
+    } finally {
+      process.env.FAKE_PAYMENT_WEBHOOK_SECRET = FAKE_PAYMENT_WEBHOOK_SECRET;
+    }
+
+    expect(await Appointment.findById(appointment._id)).toMatchObject({ status: 'pending', payment_status: 'pending' });
+  });
+});
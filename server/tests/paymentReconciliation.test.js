@@ -0,0 +1,117 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Payment reconciliation', () => {
+  let mongoServer;
+  let previousFakeSecret;
+  beforeAll(async () => {
+    previousFakeSecret = process.env.FAKE_PAYMENT_WEBHOOK_SECRET;
+    process.env.FAKE_PAYMENT_WEBHOOK_SECRET = 'fake-webhook-secret';
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    process.env.FAKE_PAYMENT_WEBHOOK_SECRET = previousFakeSecret;
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  test('mismatches with the gateway are fixed and reported', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const Refund = require('../models/Refund');
+    const fakeGateway = require('../services/paymentProviders').getPaymentProvider('fake');
+
+    const { doctorId } = await registerDoctor('recon');
+    const patientToken = await registerPatient('recon-pat');
+    const adminToken = await registerAdmin('recon');
+    await request(app).patch('/api/platform-settings').set('Authorization', `Bearer ${adminToken}`).send({ payment_provider: 'fake' });
+
+    const date = bookingDate();
+    async function startCheckout(time) {
+      const booked = await request(app).post('/api/appointments').set('Authorization', `Bearer ${patientToken}`).send({ doctor_id: doctorId, appointment_date: date, appointment_time: time });
+      expect(booked.status).toBe(201);
+      const order = await request(app).post('/api/payments/checkout/order').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: booked.body._id });
+      expect(order.status).toBe(200);
+      return { appointmentId: booked.body._id, orderId: order.body.order_id };
+    }
+
+    // Reported failed by the browser, captured at the gateway anyway
+    const lateCapture = await startCheckout('10:00');
+    await request(app).post('/api/payments/checkout/fail').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: lateCapture.appointmentId });
+    await fakeGateway.verifyPayment({ orderId: lateCapture.orderId, details: { fake_outcome: 'success' } });
+
+    // Recorded as paid although the gateway never captured it
+    const notCaptured = await startCheckout('11:00');
+    await Payment.updateOne({ fake_order_id: notCaptured.orderId }, { status: 'completed' });
+    await Appointment.updateOne({ _id: notCaptured.appointmentId }, { status: 'confirmed', payment_status: 'paid' });
+
+    // Paid normally
+    const paid = await startCheckout('12:00');
+    await request(app).post('/api/payments/checkout/verify').set('Authorization', `Bearer ${patientToken}`).send({ appointment_id: paid.appointmentId, order_id: paid.orderId, provider: 'fake' });
+
+    // Captured, but the browser never came back
+    const neverReturned = await startCheckout('13:00');
+    await fakeGateway.verifyPayment({ orderId: neverReturned.orderId, details: {} });
+
+    const forbidden = await request(app).post('/api/payments/admin/reconciliation/run').set('Authorization', `Bearer ${patientToken}`);
+    expect(forbidden.status).toBe(403);
+
+    const run = await request(app).post('/api/payments/admin/reconciliation/run').set('Authorization', `Bearer ${adminToken}`);
+    expect(run.status).toBe(201);
+    expect(run.body).toMatchObject({ trigger: 'manual', checked_count: 4, matched_count: 1, fixed_count: 2, review_count: 1 });
+    const issues = Object.fromEntries(run.body.entries.map((entry) => [entry.order_id, [entry.issue, entry.action]]));
+    expect(issues).toEqual({
+      [lateCapture.orderId]: ['captured_not_recorded', 'refunded'],
+      [notCaptured.orderId]: ['recorded_not_captured', 'needs_review'],
+      [neverReturned.orderId]: ['captured_not_recorded', 'confirmed'],
+    });
+
+    expect(await Payment.findOne({ fake_order_id: lateCapture.orderId })).toMatchObject({ status: 'refunded', fake_payment_id: `fake_pay_${lateCapture.orderId}` });
+    expect(await Refund.findOne({ appointment_id: lateCapture.appointmentId })).toMatchObject({ source: 'reconciliation', status: 'processed', gateway: 'fake' });
+    expect((await Appointment.findById(lateCapture.appointmentId)).status).toBe('cancelled');
+    expect(await Appointment.findById(neverReturned.appointmentId)).toMatchObject({ status: 'confirmed', payment_status: 'paid' });
+    // One gateway answer does not cancel a paid booking
+    expect((await Payment.findOne({ fake_order_id: notCaptured.orderId })).status).toBe('completed');
+    expect(await Appointment.findById(notCaptured.appointmentId)).toMatchObject({ status: 'confirmed', payment_status: 'paid' });
+
+    // Still not captured on the next run, so the payment is failed
+    const second = await request(app).post('/api/payments/admin/reconciliation/run').set('Authorization', `Bearer ${adminToken}`);
+    expect(second.body).toMatchObject({ fixed_count: 1, review_count: 0 });
+    expect(second.body.entries.map((entry) => [entry.order_id, entry.action])).toEqual([[notCaptured.orderId, 'marked_failed']]);
+    expect((await Payment.findOne({ fake_order_id: notCaptured.orderId })).status).toBe('failed');
+    expect(await Appointment.findById(notCaptured.appointmentId)).toMatchObject({ status: 'cancelled', payment_status: 'failed' });
+
+    // Everything matches on the run after that
+    const again = await request(app).post('/api/payments/admin/reconciliation/run').set('Authorization', `Bearer ${adminToken}`);
+    expect(again.body).toMatchObject({ fixed_count: 0, review_count: 0 });
+
+    const reports = await request(app).get('/api/payments/admin/reconciliation').set('Authorization', `Bearer ${adminToken}`);
+    expect(reports.body.map((report) => report._id)).toEqual([again.body._id, second.body._id, run.body._id]);
+
+    const csv = await request(app).get(`/api/payments/admin/reconciliation/${run.body._id}/download`).set('Authorization', `Bearer ${adminToken}`);
+    expect(csv.status).toBe(200);
+    expect(csv.headers['content-type']).toMatch(/text\/csv/);
+    const lines = csv.text.split('\n');
+    expect(lines[0]).toBe('payment_id,appointment_id,provider,order_id,amount,issue,action,status_before,status_after,gateway_status,gateway_amount,message');
+    expect(lines).toHaveLength(4);
+    expect(csv.text).toContain('"recorded_not_captured","needs_review"');
+  });
+
+  test('report cells a spreadsheet would run as formulas are exported as text', () => {
+    const { buildReconciliationCsv } = require('../utils/paymentReconciliation');
+    const csv = buildReconciliationCsv({ entries: [{ order_id: '@SUM(A1)', gateway_status: '+1', message: '=HYPERLINK("http://evil.example")' }] });
+    const row = csv.split('\n')[1];
+    expect(row).toContain(`"'@SUM(A1)"`);
+    expect(row).toContain(`"'+1"`);
+    expect(row).toContain(`"'=HYPERLINK(""http://evil.example"")"`);
+  });
+});
@@ -0,0 +1,228 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const axios = require('axios');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { computeCashfreeSignature } = require('../utils/cashfreeWebhooks');
+const { registerDoctor, registerPatient, registerAdmin, payInCash, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+const WEBHOOK_SECRET = 'cashfree-refund-secret';
+
+describe('Refunds', () => {
+  let mongoServer;
+  let previousEnv;
+  beforeAll(async () => {
+    previousEnv = { id: process.env.CASHFREE_KEY_ID, secret: process.env.CASHFREE_KEY_SECRET };
+    process.env.CASHFREE_KEY_ID = 'cf-test-id';
+    process.env.CASHFREE_KEY_SECRET = WEBHOOK_SECRET;
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    process.env.CASHFREE_KEY_ID = previousEnv.id;
+    process.env.CASHFREE_KEY_SECRET = previousEnv.secret;
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  async function setupPaidAppointment(prefix) {
+    const doctor = await registerDoctor(prefix);
+    const patientToken = await registerPatient(`${prefix}-pat`);
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctor.doctorId, appointment_date: bookingDate(), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+    const payment = await payInCash(booked.body._id);
+
+    return {
+      adminToken: await registerAdmin(prefix),
+      doctorToken: doctor.token,
+      patientToken,
+      doctorId: doctor.doctorId,
+      appointmentId: booked.body._id,
+      paymentId: payment._id,
+    };
+  }
+
+  async function getDoctorEarnings(doctorToken) {
+    const res = await request(app).get('/api/payments/doctor/summary').set('Authorization', `Bearer ${doctorToken}`);
+    expect(res.status).toBe(200);
+    return res.body.total_earnings;
+  }
+
+  async function getDoctorSummary(doctorToken) {
+    const res = await request(app).get('/api/payments/doctor/summary').set('Authorization', `Bearer ${doctorToken}`);
+    expect(res.status).toBe(200);
+    return res.body;
+  }
+
+  async function bookAndPay(patientToken, doctorId, appointmentTime) {
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: appointmentTime });
+    expect(booked.status).toBe(201);
+    await payInCash(booked.body._id);
+  }
+
+  function settleDoctor(adminToken, doctorId) {
+    return request(app).patch(`/api/payments/admin/settle-doctor/${doctorId}`).set('Authorization', `Bearer ${adminToken}`).send({});
+  }
+
+  function refund(adminToken, paymentId, body) {
+    return request(app).post(`/api/payments/admin/payments/${paymentId}/refund`).set('Authorization', `Bearer ${adminToken}`).send(body);
+  }
+
+  function deliverRefundWebhook(refundFields) {
+    const body = JSON.stringify({ type: 'REFUND_STATUS_WEBHOOK', event_time: new Date().toISOString(), data: { refund: refundFields } });
+    const timestamp = String(Date.now());
+    return request(app)
+      .post('/api/payments/cashfree/webhook')
+      .set('Content-Type', 'application/json')
+      .set('x-webhook-timestamp', timestamp)
+      .set('x-webhook-signature', computeCashfreeSignature(body, timestamp, WEBHOOK_SECRET))
+      .send(body);
+  }
+
+  test('admin partial and full refunds take the doctor share out of earnings and notify the patient', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const Notification = require('../models/Notification');
+    const { adminToken, doctorToken, appointmentId, paymentId } = await setupPaidAppointment('rf-admin');
+    const earningsBefore = await getDoctorEarnings(doctorToken);
+
+    const missingReason = await refund(adminToken, paymentId, { amount: 100 });
+    expect(missingReason.status).toBe(400);
+    const tooMuch = await refund(adminToken, paymentId, { amount: 100000, reason: 'Goodwill' });
+    expect(tooMuch.status).toBe(400);
+
+    const partial = await refund(adminToken, paymentId, { amount: 100, reason: 'Call quality issues' });
+    expect(partial.status).toBe(201);
+    // Not paid through Cashfree, so there is no gateway to wait for
+    expect(partial.body).toMatchObject({ amount: 100, doctor_amount: 100, source: 'admin', status: 'processed', gateway: 'none' });
+    expect(await getDoctorEarnings(doctorToken)).toBe(earningsBefore - 100);
+    expect((await Appointment.findById(appointmentId)).payment_status).toBe('partially_refunded');
+    expect(await Notification.countDocuments({ 'data.refund_id': new mongoose.Types.ObjectId(partial.body._id), type: 'refund_processed' })).toBe(1);
+
+    const rest = await refund(adminToken, paymentId, { reason: 'Consultation never happened' });
+    expect(rest.status).toBe(201);
+    const payment = await Payment.findById(paymentId);
+    expect(payment.status).toBe('refunded');
+    expect(payment.refunded_amount).toBe(payment.amount);
+    expect(rest.body.amount).toBe(payment.amount - 100);
+    expect((await Appointment.findById(appointmentId)).payment_status).toBe('refunded');
+
+    const again = await refund(adminToken, paymentId, { reason: 'Twice' });
+    expect(again.status).toBe(400);
+  });
+
+  test('Cashfree refunds are tracked from initiated to failed, and a retry processes them', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const Refund = require('../models/Refund');
+    const Notification = require('../models/Notification');
+    const { adminToken, doctorToken, appointmentId, paymentId } = await setupPaidAppointment('rf-cashfree');
+    await Payment.updateOne({ _id: paymentId }, { cashfree_order_id: `appt_${appointmentId}_1` });
+    const earningsBefore = await getDoctorEarnings(doctorToken);
+
+    const refundApi = jest.spyOn(axios, 'post').mockResolvedValueOnce({ data: { cf_refund_id: 'cf-1', refund_status: 'PENDING' } });
+    const created = await refund(adminToken, paymentId, { amount: 200, reason: 'Doctor ran late' });
+    expect(created.status).toBe(201);
+    expect(created.body).toMatchObject({ status: 'initiated', gateway: 'cashfree', gateway_reference_id: 'cf-1' });
+    expect(refundApi).toHaveBeenCalledWith(
+      expect.stringContaining(`/orders/appt_${appointmentId}_1/refunds`),
+      expect.objectContaining({ refund_amount: 200, refund_id: created.body.gateway_refund_id }),
+      expect.anything()
+    );
+    expect(await getDoctorEarnings(doctorToken)).toBe(earningsBefore - 200);
+    expect(await Notification.countDocuments({ 'data.refund_id': new mongoose.Types.ObjectId(created.body._id), type: 'refund_initiated' })).toBe(1);
+
+    const failed = await deliverRefundWebhook({ refund_id: created.body.gateway_refund_id, cf_refund_id: 'cf-1', refund_status: 'CANCELLED', status_description: 'Bank rejected the refund' });
+    expect(failed.body).toMatchObject({ received: true, processed: true });
+    const failedRefund = await Refund.findById(created.body._id);
+    expect(failedRefund).toMatchObject({ status: 'failed', failure_reason: 'Bank rejected the refund' });
+    expect((await Payment.findById(paymentId)).refunded_amount).toBe(0);
+    expect((await Appointment.findById(appointmentId)).payment_status).toBe('paid');
+    expect(await getDoctorEarnings(doctorToken)).toBe(earningsBefore);
+    expect(await Notification.countDocuments({ 'data.refund_id': failedRefund._id, type: 'refund_failed' })).toBe(1);
+
+    jest.spyOn(axios, 'post').mockResolvedValueOnce({ data: { cf_refund_id: 'cf-2', refund_status: 'SUCCESS' } });
+    const retried = await request(app).post(`/api/payments/admin/refunds/${created.body._id}/retry`).set('Authorization', `Bearer ${adminToken}`);
+    expect(retried.status).toBe(200);
+    expect(retried.body).toMatchObject({ status: 'processed', attempts: 2 });
+    expect(retried.body.gateway_refund_id).not.toBe(created.body.gateway_refund_id);
+    expect((await Appointment.findById(appointmentId)).payment_status).toBe('partially_refunded');
+    expect(await getDoctorEarnings(doctorToken)).toBe(earningsBefore - 200);
+
+    const list = await request(app).get('/api/payments/admin/refunds?status=processed').set('Authorization', `Bearer ${adminToken}`);
+    expect(list.body.map((row) => row._id)).toContain(created.body._id);
+  });
+
+  test('a Cashfree refund with no clear answer is checked with the gateway instead of being sent again', async () => {
+    const Payment = require('../models/Payment');
+    const Refund = require('../models/Refund');
+    const { checkInitiatedRefunds } = require('../utils/refunds');
+    const { adminToken, appointmentId, paymentId } = await setupPaidAppointment('rf-timeout');
+    await Payment.updateOne({ _id: paymentId }, { cashfree_order_id: `appt_${appointmentId}_1` });
+
+    // A timeout may have reached Cashfree, so the refund stays initiated and cannot be retried
+    jest.spyOn(axios, 'post').mockRejectedValueOnce(Object.assign(new Error('timeout of 10000ms exceeded'), { code: 'ECONNABORTED' }));
+    const timedOut = await refund(adminToken, paymentId, { amount: 200, reason: 'Doctor ran late' });
+    expect(timedOut.status).toBe(201);
+    expect(timedOut.body).toMatchObject({ status: 'initiated', gateway: 'cashfree' });
+    const notRetried = await request(app).post(`/api/payments/admin/refunds/${timedOut.body._id}/retry`).set('Authorization', `Bearer ${adminToken}`);
+    expect(notRetried.status).toBe(400);
+
+    await Refund.collection.updateOne({ _id: new mongoose.Types.ObjectId(timedOut.body._id) }, { $set: { updatedAt: new Date(Date.now() - 60 * 60 * 1000) } });
+    const statusApi = jest.spyOn(axios, 'get').mockResolvedValueOnce({ data: { cf_refund_id: 'cf-late', refund_id: timedOut.body.gateway_refund_id, refund_status: 'SUCCESS' } });
+    expect(await checkInitiatedRefunds()).toBe(1);
+    expect(statusApi).toHaveBeenCalledWith(expect.stringContaining(`/orders/appt_${appointmentId}_1/refunds/${timedOut.body.gateway_refund_id}`), expect.anything());
+    expect(await Refund.findById(timedOut.body._id)).toMatchObject({ status: 'processed', gateway_reference_id: 'cf-late' });
+
+    // A refund Cashfree refused was never created there, so the retry sends it under the same id
+    const rejection = Object.assign(new Error('Request failed with status code 400'), { response: { status: 400, data: { message: 'Refund amount is invalid' } } });
+    jest.spyOn(axios, 'post').mockRejectedValueOnce(rejection);
+    const refused = await refund(adminToken, paymentId, { amount: 100, reason: 'Goodwill' });
+    expect(refused.body).toMatchObject({ status: 'failed', failure_reason: 'Refund amount is invalid' });
+
+    const refundApi = jest.spyOn(axios, 'post').mockResolvedValueOnce({ data: { cf_refund_id: 'cf-retry', refund_status: 'SUCCESS' } });
+    const retried = await request(app).post(`/api/payments/admin/refunds/${refused.body._id}/retry`).set('Authorization', `Bearer ${adminToken}`);
+    expect(retried.body).toMatchObject({ status: 'processed', attempts: 2, gateway_refund_id: refused.body.gateway_refund_id });
+    expect(refundApi).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ refund_id: refused.body.gateway_refund_id }), expect.anything());
+  });
+
+  test('a refund of a settled payment is clawed back from the next settlement', async () => {
+    const Payment = require('../models/Payment');
+    const { adminToken, doctorToken, patientToken, doctorId, paymentId } = await setupPaidAppointment('rf-clawback');
+    const fee = (await getDoctorSummary(doctorToken)).total_earnings;
+
+    const first = await settleDoctor(adminToken, doctorId);
+    expect(first.status).toBe(200);
+    expect(first.body).toMatchObject({ settled_amount: fee, clawback_amount: 0 });
+
+    expect((await refund(adminToken, paymentId, { reason: 'Consultation never happened' })).status).toBe(201);
+    // The refunded payment stays in the report, with what the doctor was already paid owed back
+    expect(await getDoctorSummary(doctorToken)).toMatchObject({ total_earnings: 0, settled_earnings: fee, unsettled_earnings: 0, clawback_due: fee });
+    expect((await settleDoctor(adminToken, doctorId)).status).toBe(400);
+
+    await bookAndPay(patientToken, doctorId, '11:00');
+    await bookAndPay(patientToken, doctorId, '12:00');
+    const next = await settleDoctor(adminToken, doctorId);
+    expect(next.status).toBe(200);
+    expect(next.body).toMatchObject({ settled_amount: fee, clawback_amount: fee, remaining_unsettled_amount: 0 });
+
+    const refunded = await Payment.findById(paymentId);
+    expect(refunded).toMatchObject({ status: 'refunded', settled_amount: fee, clawed_back_amount: fee });
+    expect(await getDoctorSummary(doctorToken)).toMatchObject({ total_earnings: 2 * fee, settled_earnings: 2 * fee, unsettled_earnings: 0, clawback_due: 0 });
+  });
+});
@@ -0,0 +1,138 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, registerAdmin, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Appointment reminders', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A confirmed appointment starting `minutesAhead` from now
+  async function setupAppointment(prefix, minutesAhead) {
+    const User = require('../models/User');
+    const Appointment = require('../models/Appointment');
+    const AppointmentReminder = require('../models/AppointmentReminder');
+
+    await AppointmentReminder.init();
+
+    const { doctorId } = await registerDoctor(prefix);
+    const patientToken = await registerPatient(`${prefix}-pat`);
+    const doctorUser = await User.findOne({ email: `${prefix}-doc@example.com` });
+    const patient = await User.findOne({ email: `${prefix}-pat@example.com` });
+
+    const booked = await request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ doctor_id: doctorId, appointment_date: bookingDate(), appointment_time: '10:00' });
+    expect(booked.status).toBe(201);
+
+    // Move the start close to now without going through the slot rules
+    await Appointment.updateOne(
+      { _id: booked.body._id },
+      { status: 'confirmed', payment_status: 'paid', start_at: new Date(Date.now() + minutesAhead * 60 * 1000) }
+    );
+
+    return { appointmentId: booked.body._id, patientId: patient._id, doctorUserId: doctorUser._id };
+  }
+
+  test('each reminder is sent once even when runs overlap', async () => {
+    const Notification = require('../models/Notification');
+    const { sendDueReminders } = require('../utils/reminders');
+    const { appointmentId, patientId, doctorUserId } = await setupAppointment('rem-once', 10 * 60);
+
+    const [first, second] = await Promise.all([sendDueReminders(), sendDueReminders()]);
+    expect(first + second).toBe(2);
+    expect(await sendDueReminders()).toBe(0);
+
+    const reminders = await Notification.find({ type: 'appointment_reminder', 'data.appointment_id': new mongoose.Types.ObjectId(appointmentId) });
+    expect(reminders.map((n) => String(n.user_id)).sort()).toEqual([String(patientId), String(doctorUserId)].sort());
+    expect(reminders.every((n) => n.data.offset_minutes === 1440)).toBe(true);
+  });
+
+  test('a late booking only gets the closest reminder', async () => {
+    const AppointmentReminder = require('../models/AppointmentReminder');
+    const Notification = require('../models/Notification');
+    const { sendDueReminders } = require('../utils/reminders');
+    const { appointmentId, patientId } = await setupAppointment('rem-late', 10);
+
+    await sendDueReminders();
+    await sendDueReminders();
+
+    const patientReminders = await Notification.find({ user_id: patientId, type: 'appointment_reminder' });
+    expect(patientReminders).toHaveLength(1);
+    expect(patientReminders[0].data.offset_minutes).toBe(15);
+
+    const skipped = await AppointmentReminder.findOne({ appointment_id: appointmentId, user_id: patientId, offset_minutes: 1440 });
+    expect(skipped.status).toBe('skipped');
+  });
+
+  test('users who turned off appointment notifications are skipped', async () => {
+    const User = require('../models/User');
+    const Notification = require('../models/Notification');
+    const { sendDueReminders } = require('../utils/reminders');
+    const { patientId, doctorUserId } = await setupAppointment('rem-optout', 60);
+
+    await User.updateOne({ _id: patientId }, { 'notification_preferences.appointments': false });
+    await sendDueReminders();
+
+    expect(await Notification.countDocuments({ user_id: patientId, type: 'appointment_reminder' })).toBe(0);
+    expect(await Notification.countDocuments({ user_id: doctorUserId, type: 'appointment_reminder' })).toBe(1);
+  });
+
+  test('a claim left behind by a crashed run is finished without duplicating', async () => {
+    const Appointment = require('../models/Appointment');
+    const AppointmentReminder = require('../models/AppointmentReminder');
+    const Notification = require('../models/Notification');
+    const { sendDueReminders } = require('../utils/reminders');
+    const { appointmentId, patientId } = await setupAppointment('rem-crash', 60);
+    const appointment = await Appointment.findById(appointmentId);
+
+    // The crashed run had claimed the reminder and created the notification, then died
+    const notificationId = new mongoose.Types.ObjectId();
+    await Notification.create({ _id: notificationId, user_id: patientId, type: 'appointment_reminder', message: 'Reminder', data: { appointment_id: appointment._id } });
+    const stalled = await AppointmentReminder.create({
+      appointment_id: appointment._id,
+      user_id: patientId,
+      offset_minutes: 1440,
+      start_at: appointment.start_at,
+      status: 'sending',
+      locked_until: new Date(Date.now() - 1000),
+      notification_id: notificationId,
+    });
+
+    await sendDueReminders();
+
+    expect((await AppointmentReminder.findById(stalled._id)).status).toBe('sent');
+    expect(await Notification.countDocuments({ user_id: patientId, type: 'appointment_reminder' })).toBe(1);
+  });
+
+  test('admins configure the reminder offsets', async () => {
+    const adminToken = await registerAdmin('rem');
+
+    const invalid = await request(app)
+      .patch('/api/platform-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reminder_offsets_minutes: [0, 15] });
+    expect(invalid.status).toBe(400);
+
+    const saved = await request(app)
+      .patch('/api/platform-settings')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ reminder_offsets_minutes: [15, 120, 15] });
+    expect(saved.status).toBe(200);
+    expect(saved.body.reminder_offsets_minutes).toEqual([120, 15]);
+  });
+});
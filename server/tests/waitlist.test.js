@@ -0,0 +1,184 @@
+const request = require('supertest');
+const mongoose = require('mongoose');
+const { MongoMemoryServer } = require('mongodb-memory-server');
+const { registerDoctor, registerPatient, bookingDate } = require('./helpers');
+let app;
+
+jest.setTimeout(60000);
+
+describe('Waitlist for fully booked days', () => {
+  let mongoServer;
+  beforeAll(async () => {
+    mongoServer = await MongoMemoryServer.create();
+    const uri = mongoServer.getUri();
+    process.env.MONGO_URI = uri;
+    app = require('../index');
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongoServer.stop();
+  });
+
+  // A doctor with a single 09:00 slot five days from now, plus patients
+  async function setupSingleSlotDoctor(prefix, patientCount) {
+    const User = require('../models/User');
+    const Availability = require('../models/Availability');
+    const Appointment = require('../models/Appointment');
+    const WaitlistEntry = require('../models/WaitlistEntry');
+    const { getDayOfWeek } = require('../utils/appointmentSlots');
+
+    await Appointment.init();
+    await WaitlistEntry.init();
+
+    const { doctorId } = await registerDoctor(prefix, { slot_duration_minutes: 30, buffer_minutes: 0 }, { availability: false });
+    const date = bookingDate();
+    await Availability.create({ doctor_id: doctorId, day_of_week: getDayOfWeek(date), start_time: '09:00', end_time: '09:30', is_available: true });
+
+    const tokens = [];
+    const patientIds = [];
+    for (let i = 0; i < patientCount; i++) {
+      tokens.push(await registerPatient(`${prefix}-pat${i}`));
+      patientIds.push((await User.findOne({ email: `${prefix}-pat${i}@example.com` }))._id);
+    }
+
+    return { doctorId, date, tokens, patientIds };
+  }
+
+  function book(token, doctorId, date, time) {
+    return request(app)
+      .post('/api/appointments')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctor_id: doctorId, appointment_date: date, appointment_time: time });
+  }
+
+  function joinWaitlist(token, doctorId, date) {
+    return request(app)
+      .post('/api/waitlist')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ doctor_id: doctorId, date });
+  }
+
+  function cancel(token, appointmentId) {
+    return request(app)
+      .put(`/api/appointments/${appointmentId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ status: 'cancelled' });
+  }
+
+  test('joining is only allowed once the day is fully booked', async () => {
+    const { doctorId, date, tokens } = await setupSingleSlotDoctor('wl-join', 2);
+
+    const early = await joinWaitlist(tokens[1], doctorId, date);
+    expect(early.status).toBe(400);
+
+    expect((await book(tokens[0], doctorId, date, '09:00')).status).toBe(201);
+
+    const joined = await joinWaitlist(tokens[1], doctorId, date);
+    expect(joined.status).toBe(201);
+    expect(joined.body.position).toBe(1);
+
+    const duplicate = await joinWaitlist(tokens[1], doctorId, date);
+    expect(duplicate.status).toBe(400);
+  });
+
+  test('a cancellation holds the slot for the first waiting patient only', async () => {
+    const WaitlistEntry = require('../models/WaitlistEntry');
+    const Notification = require('../models/Notification');
+    const { doctorId, date, tokens, patientIds } = await setupSingleSlotDoctor('wl-offer', 3);
+
+    const original = await book(tokens[0], doctorId, date, '09:00');
+    expect(original.status).toBe(201);
+    expect((await joinWaitlist(tokens[1], doctorId, date)).status).toBe(201);
+    const second = await joinWaitlist(tokens[2], doctorId, date);
+    expect(second.body.position).toBe(2);
+
+    expect((await cancel(tokens[0], original.body._id)).status).toBe(200);
+
+    const offered = await WaitlistEntry.findOne({ patient_id: patientIds[1], doctor_id: doctorId, date });
+    expect(offered.status).toBe('offered');
+    expect(offered.offered_time).toBe('09:00');
+    expect(offered.offer_expires_at.getTime()).toBeGreaterThan(Date.now());
+    expect(await Notification.countDocuments({ user_id: patientIds[1], type: 'waitlist_offer' })).toBe(1);
+
+    // The next patient in line cannot take the held slot
+    const blocked = await book(tokens[2], doctorId, date, '09:00');
+    expect(blocked.status).toBe(409);
+    expect(blocked.body.message).toBe('This slot is being held for a waitlisted patient');
+
+    const slots = await request(app).get(`/api/doctors/${doctorId}/slots?from=${date}&to=${date}`);
+    expect(slots.body.days[0].slots[0].status).toBe('held');
+
+    const claimed = await book(tokens[1], doctorId, date, '09:00');
+    expect(claimed.status).toBe(201);
+    const closed = await WaitlistEntry.findById(offered._id);
+    expect(closed.status).toBe('booked');
+    expect(String(closed.appointment_id)).toBe(String(claimed.body._id));
+  });
+
+  test('a cancellation whose refund fails still frees the slot for the waitlist', async () => {
+    const Appointment = require('../models/Appointment');
+    const Payment = require('../models/Payment');
+    const WaitlistEntry = require('../models/WaitlistEntry');
+    const { doctorId, date, tokens, patientIds } = await setupSingleSlotDoctor('wl-refund-error', 2);
+
+    const original = await book(tokens[0], doctorId, date, '09:00');
+    expect((await joinWaitlist(tokens[1], doctorId, date)).status).toBe(201);
+
+    const lookup = jest.spyOn(Payment, 'find').mockRejectedValueOnce(new Error('connection reset'));
+    const res = await cancel(tokens[0], original.body._id);
+    lookup.mockRestore();
+    expect(res.status).toBe(200);
+    expect((await Appointment.findById(original.body._id)).status).toBe('cancelled');
+    expect((await WaitlistEntry.findOne({ patient_id: patientIds[1], doctor_id: doctorId, date })).status).toBe('offered');
+  });
+
+  test('an unused hold expires and moves on to the next patient', async () => {
+    const WaitlistEntry = require('../models/WaitlistEntry');
+    const { expireWaitlistOffers } = require('../utils/waitlist');
+    const { doctorId, date, tokens, patientIds } = await setupSingleSlotDoctor('wl-expire', 3);
+
+    const original = await book(tokens[0], doctorId, date, '09:00');
+    expect((await joinWaitlist(tokens[1], doctorId, date)).status).toBe(201);
+    expect((await joinWaitlist(tokens[2], doctorId, date)).status).toBe(201);
+    expect((await cancel(tokens[0], original.body._id)).status).toBe(200);
+
+    await WaitlistEntry.updateOne(
+      { patient_id: patientIds[1], doctor_id: doctorId, date, status: 'offered' },
+      { offer_expires_at: new Date(Date.now() - 1000) }
+    );
+
+    expect(await expireWaitlistOffers()).toBe(1);
+
+    const first = await WaitlistEntry.findOne({ patient_id: patientIds[1], doctor_id: doctorId, date });
+    const next = await WaitlistEntry.findOne({ patient_id: patientIds[2], doctor_id: doctorId, date });
+    expect(first.status).toBe('expired');
+    expect(next.status).toBe('offered');
+
+    expect((await book(tokens[1], doctorId, date, '09:00')).status).toBe(409);
+    expect((await book(tokens[2], doctorId, date, '09:00')).status).toBe(201);
+  });
+
+  test('leaving the waitlist passes a held slot on', async () => {
+    const WaitlistEntry = require('../models/WaitlistEntry');
+    const { doctorId, date, tokens, patientIds } = await setupSingleSlotDoctor('wl-leave', 3);
+
+    const original = await book(tokens[0], doctorId, date, '09:00');
+    const entry = await joinWaitlist(tokens[1], doctorId, date);
+    expect((await joinWaitlist(tokens[2], doctorId, date)).status).toBe(201);
+    expect((await cancel(tokens[0], original.body._id)).status).toBe(200);
+
+    const left = await request(app)
+      .delete(`/api/waitlist/${entry.body._id}`)
+      .set('Authorization', `Bearer ${tokens[1]}`);
+    expect(left.status).toBe(200);
+
+    const next = await WaitlistEntry.findOne({ patient_id: patientIds[2], doctor_id: doctorId, date });
+    expect(next.status).toBe('offered');
+
+    const mine = await request(app).get('/api/waitlist/mine').set('Authorization', `Bearer ${tokens[2]}`);
+    expect(mine.status).toBe(200);
+    expect(mine.body).toHaveLength(1);
+    expect(mine.body[0].status).toBe('offered');
+  });
+});
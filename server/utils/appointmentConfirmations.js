@@ -0,0 +1,63 @@
+// Appointment confirmation emails:
+// Tells the patient their appointment is confirmed and how to attend it — the clinic address and a map
+// link for in-person visits, what to expect for phone and video consultations. Paid appointments get the
+// payment's invoice attached.
+const Doctor = require('../models/Doctor');
+const User = require('../models/User');
+const { sendEmail } = require('../services/emailService');
+const { renderEmailWithFallback } = require('./emailTemplates');
+const { DOCUMENT_TITLES, buildInvoiceAttachment } = require('./invoices');
+const { CONSULTATION_MODE_LABELS, describeConsultationAttendance } = require('./consultationModes');
+const { formatAppointmentForViewer } = require('./timezones');
+
+function getFrontendBaseUrl() {
+    return (process.env.FRONTEND_URL || 'http://localhost:8080').split(',')[0].trim();
+}
+
+// Best effort: a failed email never undoes the confirmation. Returns true when an email was sent.
+// `issuedInvoice` is the { invoice, pdf } of utils/invoices issueInvoiceForPayment.
+async function sendAppointmentConfirmation(appointment, { issuedInvoice = null } = {}) {
+    try {
+        const patient = await User.findById(appointment.patient_id?._id || appointment.patient_id).select('full_name email locale timezone');
+        if (!patient?.email) return false;
+
+        const doctor = await Doctor.findById(appointment.doctor_id?._id || appointment.doctor_id).populate('user_id', 'full_name');
+        const doctorName = doctor?.user_id?.full_name || 'Doctor';
+        const patientView = formatAppointmentForViewer(appointment, patient.timezone);
+        const attendance = describeConsultationAttendance(appointment);
+        const mode = CONSULTATION_MODE_LABELS[appointment.consultation_mode] || CONSULTATION_MODE_LABELS.video;
+        const invoiceNote = issuedInvoice
+            ? `Your ${DOCUMENT_TITLES[issuedInvoice.invoice.document_type].toLowerCase()} ${issuedInvoice.invoice.invoice_number} is attached.`
+            : '';
+
+        const resolved = renderEmailWithFallback({
+            locale: patient.locale || 'en',
+            templateName: 'appointment_confirmed',
+            context: {
+                name: patient.full_name || 'there',
+                doctor: /^dr\.?\s/i.test(doctorName) ? doctorName : `Dr. ${doctorName}`,
+                date: patientView.date,
+                time: patientView.time,
+                mode,
+                attendance: attendance.text,
+                attendance_html: attendance.html,
+                invoice_note: invoiceNote ? `${invoiceNote}\n\n` : '',
+                invoice_note_html: invoiceNote ? `<p>${invoiceNote}</p>` : '',
+                link: `${getFrontendBaseUrl()}/appointments`,
+            },
+        });
+
+        return await sendEmail({
+            to: patient.email,
+            subject: `Appointment Confirmed - ${patientView.date} ${patientView.time}`,
+            text: resolved.text,
+            html: resolved.html,
+            attachments: issuedInvoice ? [buildInvoiceAttachment(issuedInvoice)] : [],
+        });
+    } catch (error) {
+        console.error('Failed to send appointment confirmation email', error);
+        return false;
+    }
+}
+
+module.exports = { sendAppointmentConfirmation };
@@ -0,0 +1,134 @@
+// Appointment series utilities:
+// Expands a recurring booking into occurrence dates, checks every occurrence against the
+// doctor's schedule before anything is booked, and cancels the remainder of a series.
+const Appointment = require('../models/Appointment');
+const { checkScheduledSlot, getAppointmentStart } = require('./appointmentSlots');
+const { transitionAppointment } = require('./appointmentStatus');
+const { refundCancelledAppointment } = require('./cancellationPolicy');
+const { resolveTimezone } = require('./timezones');
+const { releaseSlotToWaitlist } = require('./waitlist');
+
+const SERIES_FREQUENCIES = ['weekly', 'biweekly', 'monthly'];
+const MIN_SERIES_OCCURRENCES = 2;
+const MAX_SERIES_OCCURRENCES = 12;
+
+// Later occurrences are reserved without immediate payment; unpaid ones are released this long before they start.
+const SERIES_PAYMENT_DUE_HOURS = 24;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Same day of month N months later, clamped to the month's last day (Jan 31 -> Feb 28).
+function addMonths(date, months) {
+    const [year, month, day] = date.split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+}
+
+function getSeriesDates(startDate, frequency, occurrences) {
+    const dates = [];
+    const start = new Date(`${startDate}T00:00:00Z`);
+    for (let i = 0; i < occurrences; i++) {
+        if (frequency === 'monthly') {
+            dates.push(addMonths(startDate, i));
+        } else {
+            const next = new Date(start);
+            next.setUTCDate(start.getUTCDate() + i * (frequency === 'biweekly' ? 14 : 7));
+            dates.push(next.toISOString().slice(0, 10));
+        }
+    }
+    return dates;
+}
+
+// Returns an error message for a malformed series request, or null.
+function validateSeriesRequest({ start_date, appointment_time, frequency, occurrences }) {
+    if (!DATE_PATTERN.test(String(start_date || ''))) {
+        return 'start_date must be in YYYY-MM-DD format';
+    }
+    if (!TIME_PATTERN.test(String(appointment_time || ''))) {
+        return 'appointment_time must be in HH:MM format';
+    }
+    if (!SERIES_FREQUENCIES.includes(frequency)) {
+        return `frequency must be one of ${SERIES_FREQUENCIES.join(', ')}`;
+    }
+    const count = Number(occurrences);
+    if (!Number.isInteger(count) || count < MIN_SERIES_OCCURRENCES || count > MAX_SERIES_OCCURRENCES) {
+        return `occurrences must be between ${MIN_SERIES_OCCURRENCES} and ${MAX_SERIES_OCCURRENCES}`;
+    }
+    return null;
+}
+
+// Checks each occurrence like a single booking would be checked.
+// Returns [{ index, appointment_date, appointment_time, ok, message }] in date order.
+async function checkSeriesOccurrences({ doctor, startDate, appointmentTime, frequency, occurrences, patientId, consultationMode = null }) {
+    const timezone = resolveTimezone(doctor.timezone);
+    const dates = getSeriesDates(startDate, frequency, Number(occurrences));
+
+    return Promise.all(dates.map(async (date, index) => {
+        const occurrence = { index, appointment_date: date, appointment_time: appointmentTime };
+
+        if (getAppointmentStart(date, appointmentTime, timezone).getTime() <= Date.now()) {
+            return { ...occurrence, ok: false, message: 'This occurrence is in the past' };
+        }
+
+        const slotCheck = await checkScheduledSlot({
+            doctor,
+            appointmentDate: date,
+            appointmentTime,
+            patientId,
+            consultationMode,
+        });
+        return { ...occurrence, ok: slotCheck.ok, message: slotCheck.ok ? null : slotCheck.message };
+    }));
+}
+
+// Cancels the upcoming active occurrences from `fromIndex` on and frees their slots.
+// The series itself is closed once none of its occurrences are active any more.
+// `actor` is who the cancellation is recorded against; the scheduled jobs leave it as the system.
+async function cancelSeriesOccurrences({ series, fromIndex = 0, note = '', actor = { role: 'system' } }) {
+    const occurrences = await Appointment.find({
+        series_id: series._id,
+        series_index: { $gte: fromIndex },
+        status: { $in: ['pending', 'confirmed'] },
+        start_at: { $gt: new Date() },
+    }).sort({ series_index: 1 });
+
+    for (const appt of occurrences) {
+        transitionAppointment(appt, 'cancelled', { ...actor, reason: note || 'Recurring series cancelled' });
+        if (note) {
+            appt.notes = `${appt.notes || ''} ${note}`.trim();
+        }
+        await appt.save();
+
+        const { refunds } = await refundCancelledAppointment(appt, { ...actor, reason: note || 'Recurring series cancelled' });
+        if (refunds.length > 0) {
+            await appt.save();
+        }
+        await releaseSlotToWaitlist(appt);
+    }
+
+    const stillActive = await Appointment.countDocuments({
+        series_id: series._id,
+        status: { $in: ['pending', 'confirmed'] },
+    });
+    if (stillActive === 0 && series.status !== 'cancelled') {
+        series.status = 'cancelled';
+        series.cancelled_at = new Date();
+        await series.save();
+    }
+
+    return occurrences;
+}
+
+module.exports = {
+    SERIES_FREQUENCIES,
+    MIN_SERIES_OCCURRENCES,
+    MAX_SERIES_OCCURRENCES,
+    SERIES_PAYMENT_DUE_HOURS,
+    getSeriesDates,
+    validateSeriesRequest,
+    checkSeriesOccurrences,
+    cancelSeriesOccurrences,
+};
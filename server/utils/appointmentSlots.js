@@ -0,0 +1,283 @@
+// Appointment slot utilities:
+// Shared slot grid, slot listing, availability/override resolution and slot-conflict checks
+// used when booking or moving an appointment.
+const Appointment = require('../models/Appointment');
+const Availability = require('../models/Availability');
+const AvailabilityOverride = require('../models/AvailabilityOverride');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const { resolveTimezone, zonedTimeToUtc } = require('./timezones');
+
+// Completed/cancelled appointments should not keep the slot blocked.
+const INACTIVE_APPOINTMENT_STATUSES = ['cancelled', 'completed', 'no_show_patient', 'no_show_doctor'];
+
+const SLOT_TAKEN_MESSAGE = 'This slot is already booked';
+const SLOT_HELD_MESSAGE = 'This slot is being held for a waitlisted patient';
+
+const DEFAULT_SLOT_DURATION_MINUTES = 30;
+const DEFAULT_BUFFER_MINUTES = 0;
+
+function toMinutes(time) {
+    const [h, m] = String(time || '').split(':').map(Number);
+    return h * 60 + m;
+}
+
+function fromMinutes(totalMinutes) {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Day of week for a YYYY-MM-DD string, independent of the server's timezone.
+function getDayOfWeek(appointmentDate) {
+    return new Date(`${appointmentDate}T00:00:00Z`).getUTCDay();
+}
+
+function addDays(appointmentDate, days) {
+    const date = new Date(`${appointmentDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+function isOverlapping(startA, durationA, startB, durationB) {
+    return startA < startB + durationB && startB < startA + durationA;
+}
+
+// Absolute start of a local date/time in the doctor's zone (not the server's).
+function getAppointmentStart(appointmentDate, appointmentTime, timezone) {
+    return zonedTimeToUtc(appointmentDate, String(appointmentTime || '').slice(0, 5), timezone);
+}
+
+function getDoctorSlotSettings(doctor) {
+    const slotDuration = Number(doctor?.slot_duration_minutes);
+    const bufferMinutes = Number(doctor?.buffer_minutes);
+    return {
+        slotDuration: Number.isFinite(slotDuration) && slotDuration > 0 ? slotDuration : DEFAULT_SLOT_DURATION_MINUTES,
+        bufferMinutes: Number.isFinite(bufferMinutes) && bufferMinutes >= 0 ? bufferMinutes : DEFAULT_BUFFER_MINUTES,
+    };
+}
+
+// Valid start times inside one availability window: a slot starts every
+// (duration + buffer) minutes and must finish before the window closes.
+function getSlotStartTimes({ startTime, endTime, slotDuration, bufferMinutes }) {
+    const windowEnd = toMinutes(endTime);
+    const step = slotDuration + bufferMinutes;
+    const times = [];
+    for (let start = toMinutes(startTime); start + slotDuration <= windowEnd; start += step) {
+        times.push(fromMinutes(start));
+    }
+    return times;
+}
+
+// True when a write was rejected by the active_slot_unique index on Appointment,
+// i.e. another request claimed the same doctor/date/time first.
+function isSlotConflictError(error) {
+    return Boolean(error && error.code === 11000 && (
+        error.keyPattern?.appointment_time || String(error.message || '').includes('active_slot_unique')
+    ));
+}
+
+// Resolves the bookable slot start times of one date from the weekly windows and
+// that date's overrides: a full-day leave clears the date, extra hours add a
+// window, and a timed leave removes the slots it overlaps.
+function getSlotTimesForDate({ date, windows, overrides, slotDuration, bufferMinutes }) {
+    const dayOfWeek = getDayOfWeek(date);
+    const dateOverrides = overrides.filter((o) => o.date === date);
+
+    if (dateOverrides.some((o) => o.kind === 'leave' && (!o.start_time || !o.end_time))) {
+        return [];
+    }
+
+    const dayWindows = [
+        ...windows.filter((w) => w.day_of_week === dayOfWeek && w.is_available),
+        ...dateOverrides.filter((o) => o.kind === 'extra_hours' && o.start_time && o.end_time),
+    ];
+    const leaveBlocks = dateOverrides.filter((o) => o.kind === 'leave' && o.start_time && o.end_time);
+
+    const times = new Set();
+    for (const window of dayWindows) {
+        getSlotStartTimes({
+            startTime: window.start_time,
+            endTime: window.end_time,
+            slotDuration,
+            bufferMinutes,
+        }).forEach((time) => times.add(time));
+    }
+
+    return Array.from(times)
+        .filter((time) => !leaveBlocks.some((block) => isOverlapping(
+            toMinutes(time),
+            slotDuration,
+            toMinutes(block.start_time),
+            toMinutes(block.end_time) - toMinutes(block.start_time)
+        )))
+        .sort((a, b) => toMinutes(a) - toMinutes(b));
+}
+
+// Waitlist offers that still hold a freed slot for one patient.
+function findActiveHolds(doctorId, from, to) {
+    return WaitlistEntry.find({
+        doctor_id: doctorId,
+        date: { $gte: from, $lte: to },
+        status: 'offered',
+        offer_expires_at: { $gt: new Date() },
+    }).select('patient_id date offered_time');
+}
+
+// With a consultation mode, only the windows open to that mode count
+async function findWindowsAndOverrides(doctorId, from, to, consultationMode = null) {
+    const windowQuery = { doctor_id: doctorId, is_available: true };
+    if (consultationMode) {
+        windowQuery.consultation_mode = { $in: [null, consultationMode] };
+    }
+    const [windows, overrides] = await Promise.all([
+        Availability.find(windowQuery),
+        AvailabilityOverride.find({ doctor_id: doctorId, date: { $gte: from, $lte: to } }),
+    ]);
+    return { windows, overrides };
+}
+
+// Checks that a scheduled slot is one of the doctor's valid start times for that
+// date, has not started yet, does not overlap another active appointment and is not held for another
+// waitlisted patient (`patientId` is the patient booking, who may use their own hold).
+// With a `consultationMode`, the slot must also be in a window open to that mode.
+// Returns { ok: true } or { ok: false, status, message } for the route to relay.
+async function checkScheduledSlot({ doctor, appointmentDate, appointmentTime, excludeAppointmentId = null, patientId = null, consultationMode = null }) {
+    const { slotDuration, bufferMinutes } = getDoctorSlotSettings(doctor);
+    const { windows, overrides } = await findWindowsAndOverrides(doctor._id, appointmentDate, appointmentDate, consultationMode);
+    const validTimes = getSlotTimesForDate({
+        date: appointmentDate,
+        windows,
+        overrides,
+        slotDuration,
+        bufferMinutes,
+    });
+
+    if (validTimes.length === 0) {
+        return { ok: false, status: 400, message: 'Doctor is not available on this date' };
+    }
+
+    const requestedTime = String(appointmentTime || '').slice(0, 5);
+    if (!validTimes.includes(requestedTime)) {
+        return { ok: false, status: 400, message: 'Selected time is outside doctor availability' };
+    }
+
+    const requestedStartAt = getAppointmentStart(appointmentDate, requestedTime, resolveTimezone(doctor.timezone));
+    if (requestedStartAt.getTime() <= Date.now()) {
+        return { ok: false, status: 400, message: 'Please choose a future slot' };
+    }
+
+    const conflictQuery = {
+        doctor_id: doctor._id,
+        appointment_date: appointmentDate,
+        status: { $nin: INACTIVE_APPOINTMENT_STATUSES },
+    };
+    if (excludeAppointmentId) {
+        conflictQuery._id = { $ne: excludeAppointmentId };
+    }
+
+    // Compare time ranges rather than exact start times so bookings made under
+    // an older slot length still block the slots they cover.
+    const requestedStart = toMinutes(requestedTime);
+    const sameDayAppointments = await Appointment.find(conflictQuery).select('appointment_time duration_minutes');
+    const existing = sameDayAppointments.find((appt) => isOverlapping(
+        requestedStart,
+        slotDuration,
+        toMinutes(appt.appointment_time),
+        Number(appt.duration_minutes) || slotDuration
+    ));
+    if (existing) {
+        return { ok: false, status: 409, message: SLOT_TAKEN_MESSAGE };
+    }
+
+    const holds = await findActiveHolds(doctor._id, appointmentDate, appointmentDate);
+    const heldForOther = holds.find((hold) => (
+        String(hold.patient_id) !== String(patientId)
+        && isOverlapping(requestedStart, slotDuration, toMinutes(hold.offered_time), slotDuration)
+    ));
+    if (heldForOther) {
+        return { ok: false, status: 409, message: SLOT_HELD_MESSAGE };
+    }
+
+    return { ok: true, slotDuration };
+}
+
+// Computes every slot of the doctor's schedule between two YYYY-MM-DD dates (inclusive),
+// in the doctor's timezone, with its status: 'free', 'booked' (overlaps an active appointment),
+// 'held' (offered to a waitlisted patient) or 'past'. A `consultationMode` limits it to windows open to that mode.
+// Only slot times are returned so patients never see other patients' bookings.
+async function listDoctorSlots({ doctor, from, to, consultationMode = null }) {
+    const { slotDuration, bufferMinutes } = getDoctorSlotSettings(doctor);
+    const timezone = resolveTimezone(doctor?.timezone);
+
+    const [{ windows, overrides }, appointments, holds] = await Promise.all([
+        findWindowsAndOverrides(doctor._id, from, to, consultationMode),
+        Appointment.find({
+            doctor_id: doctor._id,
+            appointment_date: { $gte: from, $lte: to },
+            status: { $nin: INACTIVE_APPOINTMENT_STATUSES },
+        }).select('appointment_date appointment_time duration_minutes'),
+        findActiveHolds(doctor._id, from, to),
+    ]);
+
+    const now = Date.now();
+    const days = [];
+
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        const dayAppointments = appointments.filter((appt) => appt.appointment_date === date);
+        const dayHolds = holds.filter((hold) => hold.date === date);
+        const slots = getSlotTimesForDate({ date, windows, overrides, slotDuration, bufferMinutes })
+            .map((time) => {
+                const isBooked = dayAppointments.some((appt) => isOverlapping(
+                    toMinutes(time),
+                    slotDuration,
+                    toMinutes(appt.appointment_time),
+                    Number(appt.duration_minutes) || slotDuration
+                ));
+                const isHeld = dayHolds.some((hold) => isOverlapping(
+                    toMinutes(time),
+                    slotDuration,
+                    toMinutes(hold.offered_time),
+                    slotDuration
+                ));
+                let status = 'free';
+                if (getAppointmentStart(date, time, timezone).getTime() <= now) {
+                    status = 'past';
+                } else if (isBooked) {
+                    status = 'booked';
+                } else if (isHeld) {
+                    status = 'held';
+                }
+                return { time, status };
+            });
+
+        days.push({ date, day_of_week: getDayOfWeek(date), available: slots.length > 0, slots });
+    }
+
+    return {
+        doctor_id: doctor._id,
+        slot_duration_minutes: slotDuration,
+        buffer_minutes: bufferMinutes,
+        timezone,
+        consultation_mode: consultationMode,
+        from,
+        to,
+        days,
+    };
+}
+
+module.exports = {
+    INACTIVE_APPOINTMENT_STATUSES,
+    SLOT_TAKEN_MESSAGE,
+    SLOT_HELD_MESSAGE,
+    toMinutes,
+    fromMinutes,
+    getDayOfWeek,
+    addDays,
+    getAppointmentStart,
+    getDoctorSlotSettings,
+    getSlotStartTimes,
+    getSlotTimesForDate,
+    checkScheduledSlot,
+    isSlotConflictError,
+    listDoctorSlots,
+};
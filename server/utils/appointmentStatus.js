@@ -0,0 +1,95 @@
+// Appointment status utilities:
+// The single place that decides which status changes are allowed for which actor, and that records
+// every change in the appointment's status_history. Callers never assign appointment.status directly.
+const APPOINTMENT_STATUSES = ['pending', 'confirmed', 'completed', 'cancelled', 'no_show_patient', 'no_show_doctor'];
+
+// 'system' covers payments, scheduled jobs and automatic cancellations
+const TRANSITION_ROLES = ['patient', 'doctor', 'admin', 'system'];
+
+// from -> to -> roles allowed to make that change; completed, cancelled and the no-shows are final
+const APPOINTMENT_TRANSITIONS = {
+    pending: {
+        confirmed: ['doctor', 'system'],
+        cancelled: ['patient', 'doctor', 'admin', 'system'],
+    },
+    confirmed: {
+        completed: ['doctor'],
+        cancelled: ['patient', 'doctor', 'admin', 'system'],
+        no_show_patient: ['doctor', 'admin'],
+        // 'system' is the automatic fallback when the doctor never joined the call
+        no_show_doctor: ['doctor', 'admin', 'system'],
+    },
+    completed: {},
+    cancelled: {},
+    no_show_patient: {},
+    no_show_doctor: {},
+};
+
+class AppointmentTransitionError extends Error {
+    constructor(message, status = 409) {
+        super(message);
+        this.name = 'AppointmentTransitionError';
+        this.status = status;
+    }
+}
+
+function isAppointmentTransitionError(error) {
+    return error instanceof AppointmentTransitionError;
+}
+
+function canTransition(from, to, role) {
+    return Boolean(APPOINTMENT_TRANSITIONS[from]?.[to]?.includes(role));
+}
+
+// Throws AppointmentTransitionError when `role` may not move the appointment to `to`.
+// Setting the status it already has is always allowed and is a no-op.
+function assertTransition(appointment, to, role) {
+    const from = appointment.status;
+    if (!APPOINTMENT_STATUSES.includes(to)) {
+        throw new AppointmentTransitionError('Invalid appointment status', 400);
+    }
+    if (from === to) {
+        return;
+    }
+    if (!APPOINTMENT_TRANSITIONS[from]?.[to]) {
+        throw new AppointmentTransitionError(`A ${from} appointment cannot be changed to ${to}`);
+    }
+    if (!canTransition(from, to, role)) {
+        throw new AppointmentTransitionError(`Not authorized to mark this appointment as ${to}`, 403);
+    }
+}
+
+// Moves the appointment to `to` and appends a history entry; the caller saves the document.
+// Returns false (and records nothing) when the appointment already has that status.
+function transitionAppointment(appointment, to, { role, userId = null, reason = '' }) {
+    if (!TRANSITION_ROLES.includes(role)) {
+        throw new AppointmentTransitionError('Not authorized to update appointment status', 403);
+    }
+    assertTransition(appointment, to, role);
+
+    const from = appointment.status;
+    if (from === to) {
+        return false;
+    }
+
+    appointment.status = to;
+    appointment.status_history.push({
+        from,
+        to,
+        changed_by: userId,
+        role,
+        reason: String(reason || '').trim(),
+        changed_at: new Date(),
+    });
+    return true;
+}
+
+module.exports = {
+    APPOINTMENT_STATUSES,
+    APPOINTMENT_TRANSITIONS,
+    AppointmentTransitionError,
+    isAppointmentTransitionError,
+    canTransition,
+    assertTransition,
+    transitionAppointment,
+};
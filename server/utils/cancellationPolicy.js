@@ -0,0 +1,129 @@
+// Cancellation policy utilities:
+// Resolves the policy for a doctor's appointments (their own override or the platform default), quotes the
+// refund a cancellation would give, and issues that refund when the appointment is cancelled.
+const Doctor = require('../models/Doctor');
+const Payment = require('../models/Payment');
+const PlatformSettings = require('../models/PlatformSettings');
+const { getRefundSplit, refundAppointmentPayment } = require('./refunds');
+const { getAppointmentStart } = require('./appointmentSlots');
+
+const DEFAULT_CANCELLATION_POLICY = {
+    full_refund_hours: 24,
+    partial_refund_hours: 4,
+    partial_refund_percent: 50,
+};
+
+// A policy window longer than this is almost certainly a typo
+const MAX_CANCELLATION_POLICY_HOURS = 30 * 24;
+
+// Returns an error message, or null when the policy can be saved
+function validateCancellationPolicy(policy) {
+    if (!policy || typeof policy !== 'object') {
+        return 'cancellation_policy must be an object';
+    }
+
+    const fullHours = Number(policy.full_refund_hours);
+    const partialHours = Number(policy.partial_refund_hours);
+    const percent = Number(policy.partial_refund_percent);
+
+    for (const [key, hours] of [['full_refund_hours', fullHours], ['partial_refund_hours', partialHours]]) {
+        if (!Number.isFinite(hours) || hours < 0 || hours > MAX_CANCELLATION_POLICY_HOURS) {
+            return `${key} must be between 0 and ${MAX_CANCELLATION_POLICY_HOURS} hours`;
+        }
+    }
+    if (partialHours > fullHours) {
+        return 'partial_refund_hours cannot be more than full_refund_hours';
+    }
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+        return 'partial_refund_percent must be between 0 and 100';
+    }
+    return null;
+}
+
+function normalizeCancellationPolicy(policy) {
+    return {
+        full_refund_hours: Number(policy.full_refund_hours),
+        partial_refund_hours: Number(policy.partial_refund_hours),
+        partial_refund_percent: Number(policy.partial_refund_percent),
+    };
+}
+
+function getPlatformCancellationPolicy(settings) {
+    return {
+        full_refund_hours: Number(settings?.cancellation_full_refund_hours ?? DEFAULT_CANCELLATION_POLICY.full_refund_hours),
+        partial_refund_hours: Number(settings?.cancellation_partial_refund_hours ?? DEFAULT_CANCELLATION_POLICY.partial_refund_hours),
+        partial_refund_percent: Number(settings?.cancellation_partial_refund_percent ?? DEFAULT_CANCELLATION_POLICY.partial_refund_percent),
+    };
+}
+
+// The doctor's override when they set one, otherwise the platform policy. `source` says which.
+async function getCancellationPolicy(doctorId) {
+    const doctor = await Doctor.findById(doctorId).select('cancellation_policy');
+    if (doctor?.cancellation_policy) {
+        return { ...normalizeCancellationPolicy(doctor.cancellation_policy), source: 'doctor' };
+    }
+
+    const settings = await PlatformSettings.findOne({ key: 'global' });
+    return { ...getPlatformCancellationPolicy(settings), source: 'platform' };
+}
+
+// Patients get the tier their notice earns; a cancellation by the doctor, an admin or the platform
+// is never the patient's fault and refunds in full.
+function getRefundTier(policy, hoursBeforeStart, role) {
+    if (role !== 'patient' || hoursBeforeStart >= policy.full_refund_hours) {
+        return { tier: 'full', refundPercent: 100 };
+    }
+    if (hoursBeforeStart >= policy.partial_refund_hours) {
+        return { tier: 'partial', refundPercent: policy.partial_refund_percent };
+    }
+    return { tier: 'none', refundPercent: 0 };
+}
+
+// What cancelling the appointment now would refund, without changing anything
+async function quoteCancellation(appointment, { role = 'patient', now = new Date() } = {}) {
+    const policy = await getCancellationPolicy(appointment.doctor_id);
+    const start = appointment.start_at
+        || getAppointmentStart(appointment.appointment_date, appointment.appointment_time, appointment.timezone);
+    const hoursBeforeStart = (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+    const { tier, refundPercent } = getRefundTier(policy, hoursBeforeStart, role);
+
+    const payments = await Payment.find({ appointment_id: appointment._id, status: 'completed' });
+    const paidAmount = payments.reduce((sum, payment) => sum + Number(payment.amount || 0) - Number(payment.refunded_amount || 0), 0);
+    const refundAmount = payments.reduce((sum, payment) => sum + getRefundSplit(appointment, payment, refundPercent).amount, 0);
+
+    return {
+        tier,
+        refund_percent: refundPercent,
+        paid_amount: Number(paidAmount.toFixed(2)),
+        refund_amount: Number(refundAmount.toFixed(2)),
+        hours_before_start: Number(Math.max(0, hoursBeforeStart).toFixed(1)),
+        policy,
+    };
+}
+
+// Refunds a just-cancelled appointment according to the policy. The caller saves the appointment.
+// Returns the quote the refund was based on and the Refund records created.
+async function refundCancelledAppointment(appointment, { role, userId = null, reason = '', now = new Date() }) {
+    const quote = await quoteCancellation(appointment, { role, now });
+    if (quote.refund_percent <= 0) {
+        return { quote, refunds: [] };
+    }
+
+    const refunds = await refundAppointmentPayment(appointment, {
+        refundPercent: quote.refund_percent,
+        source: 'cancellation',
+        reason: reason || `Cancelled by ${role === 'system' ? 'MediConnect' : `the ${role}`}`,
+        createdBy: userId,
+    });
+    return { quote, refunds };
+}
+
+module.exports = {
+    DEFAULT_CANCELLATION_POLICY,
+    validateCancellationPolicy,
+    normalizeCancellationPolicy,
+    getPlatformCancellationPolicy,
+    getCancellationPolicy,
+    quoteCancellation,
+    refundCancelledAppointment,
+};
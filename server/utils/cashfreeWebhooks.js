@@ -0,0 +1,66 @@
+// Cashfree webhook utilities:
+// Signature checks and payload parsing for the payment and refund webhooks Cashfree sends to
+// POST /api/payments/cashfree/webhook, so a payment is confirmed even when the patient's tab closes
+// before the browser calls /checkout/verify, and refunds move on from 'initiated' once Cashfree settles them.
+const crypto = require('crypto');
+
+const PAYMENT_SUCCESS_EVENT = 'PAYMENT_SUCCESS_WEBHOOK';
+const REFUND_STATUS_EVENT = 'REFUND_STATUS_WEBHOOK';
+
+// Cashfree signs base64(HMAC-SHA256(timestamp + raw body)) with the client secret
+function computeCashfreeSignature(rawBody, timestamp, secret) {
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`${timestamp}${rawBody}`)
+        .digest('base64');
+}
+
+function isValidCashfreeSignature({ rawBody, timestamp, signature, secret }) {
+    if (!rawBody || !timestamp || !signature || !secret) {
+        return false;
+    }
+    const expected = Buffer.from(computeCashfreeSignature(rawBody, timestamp, secret));
+    const received = Buffer.from(String(signature));
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// The fields the receiver acts on; null when the payload is not a payment webhook
+function parseCashfreePaymentEvent(body) {
+    const orderId = body?.data?.order?.order_id;
+    const payment = body?.data?.payment;
+    if (!body?.type || !orderId || !payment) {
+        return null;
+    }
+    return {
+        type: body.type,
+        orderId: String(orderId),
+        orderAmount: Number(body.data.order.order_amount),
+        paymentId: String(payment.cf_payment_id || ''),
+        paymentStatus: String(payment.payment_status || ''),
+    };
+}
+
+// The fields of a refund webhook; null when the payload is not one
+function parseCashfreeRefundEvent(body) {
+    const refund = body?.data?.refund;
+    if (body?.type !== REFUND_STATUS_EVENT || !refund?.refund_id) {
+        return null;
+    }
+    return {
+        type: body.type,
+        orderId: String(refund.order_id || ''),
+        refundId: String(refund.refund_id),
+        cfRefundId: refund.cf_refund_id ? String(refund.cf_refund_id) : null,
+        refundStatus: String(refund.refund_status || ''),
+        statusDescription: String(refund.status_description || ''),
+    };
+}
+
+module.exports = {
+    PAYMENT_SUCCESS_EVENT,
+    REFUND_STATUS_EVENT,
+    computeCashfreeSignature,
+    isValidCashfreeSignature,
+    parseCashfreePaymentEvent,
+    parseCashfreeRefundEvent,
+};
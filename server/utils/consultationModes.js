@@ -0,0 +1,120 @@
+// Consultation mode utilities:
+// Video, in-person and phone consultations: which modes a doctor offers, what each costs, and the
+// clinic details in-person patients need.
+const CONSULTATION_MODES = ['video', 'in_person', 'phone'];
+const DEFAULT_CONSULTATION_MODE = 'video';
+
+const CONSULTATION_MODE_LABELS = {
+    video: 'Video consultation',
+    in_person: 'In-person visit',
+    phone: 'Phone consultation',
+};
+
+function isConsultationMode(mode) {
+    return CONSULTATION_MODES.includes(mode);
+}
+
+// Only video consultations get a Zoom meeting; appointments from before modes existed are video
+function isVideoConsultation(appointment) {
+    return (appointment?.consultation_mode || DEFAULT_CONSULTATION_MODE) === 'video';
+}
+
+// Doctors that never chose their modes only offer video, as before modes existed
+function getDoctorConsultationModes(doctor) {
+    const modes = (doctor?.consultation_modes || []).filter(isConsultationMode);
+    return modes.length > 0 ? modes : [DEFAULT_CONSULTATION_MODE];
+}
+
+// `preferredMode` when the doctor still offers it, otherwise the first mode they offer
+function pickOfferedConsultationMode(doctor, preferredMode) {
+    const modes = getDoctorConsultationModes(doctor);
+    return modes.includes(preferredMode) ? preferredMode : modes[0];
+}
+
+// Returns an error message when the doctor does not offer the mode, otherwise null
+function checkConsultationModeOffered(doctor, mode) {
+    if (!isConsultationMode(mode)) {
+        return 'Unknown consultation mode';
+    }
+    if (!getDoctorConsultationModes(doctor).includes(mode)) {
+        return `${CONSULTATION_MODE_LABELS[mode]}s are not offered by this doctor`;
+    }
+    return null;
+}
+
+// The doctor's fee for a mode; a mode without its own fee charges the consultation fee
+function getConsultationModeFee(doctor, mode) {
+    const modeFee = doctor?.mode_fees?.[mode];
+    if (modeFee !== null && modeFee !== undefined && Number.isFinite(Number(modeFee))) {
+        return Number(modeFee);
+    }
+    return Number(doctor?.consultation_fee || 0);
+}
+
+// Returns an error message, or null when the mode settings can be saved.
+// Pass the settings as they will be after the update, so an address saved earlier still counts.
+function validateConsultationModeSettings({ consultation_modes: modes, mode_fees: fees, clinic_address: address }) {
+    if (modes !== undefined) {
+        if (!Array.isArray(modes) || modes.length === 0 || !modes.every(isConsultationMode)) {
+            return `consultation_modes must list at least one of ${CONSULTATION_MODES.join(', ')}`;
+        }
+        if (modes.includes('in_person') && !String(address || '').trim()) {
+            return 'A clinic address is required for in-person consultations';
+        }
+    }
+    if (fees !== undefined && fees !== null) {
+        if (typeof fees !== 'object') {
+            return 'mode_fees must be an object';
+        }
+        for (const [mode, fee] of Object.entries(fees)) {
+            if (!isConsultationMode(mode)) {
+                return `Unknown consultation mode: ${mode}`;
+            }
+            if (fee !== null && (!Number.isFinite(Number(fee)) || Number(fee) < 0)) {
+                return `The ${CONSULTATION_MODE_LABELS[mode].toLowerCase()} fee must be a non-negative number`;
+            }
+        }
+    }
+    return null;
+}
+
+function buildMapLink(address) {
+    const query = String(address || '').trim();
+    return query ? `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(query)}` : '';
+}
+
+// What the patient needs to know to attend, as plain text and HTML for emails
+function describeConsultationAttendance(appointment) {
+    const mode = appointment?.consultation_mode || DEFAULT_CONSULTATION_MODE;
+
+    if (mode === 'in_person') {
+        const address = String(appointment.clinic_address || '').trim();
+        const mapLink = buildMapLink(address);
+        return {
+            text: `Please visit the clinic at: ${address}${mapLink ? `\nMap: ${mapLink}` : ''}`,
+            html: `<p>Please visit the clinic at:<br /><strong>${address}</strong></p>${mapLink ? `<p><a href="${mapLink}">Open in Google Maps</a></p>` : ''}`,
+        };
+    }
+    if (mode === 'phone') {
+        const message = 'The doctor will call you on the phone number in your MediConnect profile at the appointment time.';
+        return { text: message, html: `<p>${message}</p>` };
+    }
+
+    const message = 'Your video consultation link will be shared on your appointments page before the consultation starts.';
+    return { text: message, html: `<p>${message}</p>` };
+}
+
+module.exports = {
+    CONSULTATION_MODES,
+    DEFAULT_CONSULTATION_MODE,
+    CONSULTATION_MODE_LABELS,
+    isConsultationMode,
+    isVideoConsultation,
+    getDoctorConsultationModes,
+    pickOfferedConsultationMode,
+    checkConsultationModeOffered,
+    getConsultationModeFee,
+    validateConsultationModeSettings,
+    buildMapLink,
+    describeConsultationAttendance,
+};
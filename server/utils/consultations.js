@@ -0,0 +1,56 @@
+// Consultation utilities:
+// Group appointments where the booked (primary) doctor invites consulting doctors for a second opinion or a
+// multidisciplinary review: who takes part, when invitations can change, and how the doctor fee is split.
+const CONSULTANT_STATUSES = ['invited', 'accepted', 'declined'];
+const MAX_CONSULTING_DOCTORS = 4;
+
+function toIdString(value) {
+    return String(value?._id || value || '');
+}
+
+// The appointment's entry for `doctorId`, whatever its status, or null
+function findConsultant(appointment, doctorId) {
+    const id = toIdString(doctorId);
+    return (appointment?.consulting_doctors || []).find((c) => toIdString(c.doctor_id) === id) || null;
+}
+
+function getAcceptedConsultants(appointment) {
+    return (appointment?.consulting_doctors || []).filter((c) => c.status === 'accepted' && c.doctor_id);
+}
+
+// The primary doctor or a consultant who accepted; they share chat, the video link and the fee
+function isConsultationDoctor(appointment, doctorId) {
+    if (!doctorId) return false;
+    if (toIdString(appointment?.doctor_id) === toIdString(doctorId)) return true;
+    return findConsultant(appointment, doctorId)?.status === 'accepted';
+}
+
+// Consultants can be invited, answer and be removed until the appointment starts
+function canChangeConsultants(appointment, now = new Date()) {
+    if (!['pending', 'confirmed'].includes(appointment?.status)) return false;
+    return !appointment.start_at || new Date(appointment.start_at).getTime() > now.getTime();
+}
+
+// Splits the doctor earnings of a payment equally between the primary doctor and `consultantCount`
+// consultants. Amounts are rounded to paise; the primary doctor takes the rounding remainder.
+function splitDoctorFee(amount, consultantCount) {
+    const total = Math.max(0, Number(amount || 0));
+    if (consultantCount <= 0) {
+        return { primary: total, consultant: 0 };
+    }
+    const consultant = Math.floor((total / (consultantCount + 1)) * 100) / 100;
+    return {
+        primary: Number((total - consultant * consultantCount).toFixed(2)),
+        consultant,
+    };
+}
+
+module.exports = {
+    CONSULTANT_STATUSES,
+    MAX_CONSULTING_DOCTORS,
+    findConsultant,
+    getAcceptedConsultants,
+    isConsultationDoctor,
+    canChangeConsultants,
+    splitDoctorFee,
+};
@@ -1,28 +1,59 @@
 // Cron utilities:
-// Contains scheduled/background jobs such as auto-cancel for unpaid appointments.
+// Contains scheduled/background jobs such as auto-cancel for unpaid appointments, waitlist hold expiry,
+// emergency request expiry, appointment reminders, the doctor no-show fallback, payment reconciliation and
+// checks of refunds the gateway has not settled yet.
 const cron = require('node-cron');
 const Appointment = require('../models/Appointment');
+const AppointmentSeries = require('../models/AppointmentSeries');
+const { SERIES_PAYMENT_DUE_HOURS, cancelSeriesOccurrences } = require('./appointmentSeries');
+const { transitionAppointment } = require('./appointmentStatus');
+const { expireEmergencyRequests } = require('./emergencyRequests');
+const { detectDoctorNoShows } = require('./noShows');
+const { failOrderPayments } = require('./paymentOrders');
+const { reconcilePayments } = require('./paymentReconciliation');
+const { checkInitiatedRefunds } = require('./refunds');
+const { sendDueReminders } = require('./reminders');
+const { expireWaitlistOffers, releaseSlotToWaitlist } = require('./waitlist');
 
 const AUTO_CANCEL_MINUTES = 5;
 
 const cancelExpiredUnpaidAppointments = async () => {
     const thresholdDate = new Date(Date.now() - AUTO_CANCEL_MINUTES * 60 * 1000);
+    const seriesPaymentDue = new Date(Date.now() + SERIES_PAYMENT_DUE_HOURS * 60 * 60 * 1000);
 
+    // Later occurrences of a recurring series stay reserved until shortly before they start
     const appointmentsToCancel = await Appointment.find({
         status: 'pending',
         payment_status: 'pending',
-        createdAt: { $lt: thresholdDate }
+        createdAt: { $lt: thresholdDate },
+        $or: [
+            { series_index: { $in: [null, 0] } },
+            { series_index: { $gt: 0 }, start_at: { $lt: seriesPaymentDue } },
+        ],
     });
 
     if (appointmentsToCancel.length > 0) {
         console.log(`[Auto-Cancel] Found ${appointmentsToCancel.length} unpaid appointments to cancel.`);
 
         for (const appt of appointmentsToCancel) {
-            appt.status = 'cancelled';
+            transitionAppointment(appt, 'cancelled', { role: 'system', reason: `Payment not completed within ${AUTO_CANCEL_MINUTES} minutes` });
             appt.payment_status = 'failed';
             appt.notes = `${appt.notes || ''} Auto-cancelled after ${AUTO_CANCEL_MINUTES} minutes due to pending payment.`.trim();
             await appt.save();
+            await failOrderPayments(appt._id);
             console.log(`[Auto-Cancel] Cancelled appointment ${appt._id}`);
+            await releaseSlotToWaitlist(appt);
+
+            // A series whose first visit was never paid for is abandoned as a whole
+            if (appt.series_id && appt.series_index === 0) {
+                const series = await AppointmentSeries.findById(appt.series_id);
+                if (series) {
+                    await cancelSeriesOccurrences({
+                        series,
+                        note: 'Auto-cancelled because the first visit of the series was not paid.',
+                    });
+                }
+            }
         }
     }
 
@@ -37,9 +68,67 @@ const startAutoCancellationJob = () => {
         } catch (error) {
             console.error('[Auto-Cancel] error:', error);
         }
+
+        try {
+            const expired = await expireWaitlistOffers();
+            if (expired > 0) {
+                console.log(`[Waitlist] Expired ${expired} unused slot holds.`);
+            }
+        } catch (error) {
+            console.error('[Waitlist] error:', error);
+        }
+
+        try {
+            const expired = await expireEmergencyRequests();
+            if (expired > 0) {
+                console.log(`[Emergency] Expired ${expired} unanswered emergency requests.`);
+            }
+        } catch (error) {
+            console.error('[Emergency] error:', error);
+        }
+
+        try {
+            const sent = await sendDueReminders();
+            if (sent > 0) {
+                console.log(`[Reminders] Sent ${sent} appointment reminders.`);
+            }
+        } catch (error) {
+            console.error('[Reminders] error:', error);
+        }
+
+        try {
+            const noShows = await detectDoctorNoShows();
+            if (noShows > 0) {
+                console.log(`[No-show] Recorded ${noShows} doctor no-shows.`);
+            }
+        } catch (error) {
+            console.error('[No-show] error:', error);
+        }
+    });
+
+    // Hourly, off the top of the hour: every open or recent gateway payment is checked against its provider,
+    // then refunds still pending with it
+    cron.schedule('17 * * * *', async () => {
+        try {
+            const report = await reconcilePayments();
+            if (report.entries.length > 0) {
+                console.log(`[Reconciliation] ${report.fixed_count} payments fixed, ${report.review_count} need review.`);
+            }
+        } catch (error) {
+            console.error('[Reconciliation] error:', error);
+        }
+
+        try {
+            const checked = await checkInitiatedRefunds();
+            if (checked > 0) {
+                console.log(`[Refunds] ${checked} pending refunds settled with the gateway.`);
+            }
+        } catch (error) {
+            console.error('[Refunds] error:', error);
+        }
     });
 
-    console.log('[Cron] Auto-cancellation job scheduled.');
+    console.log('[Cron] Auto-cancellation, waitlist and emergency expiry, reminder, no-show and reconciliation jobs scheduled.');
 };
 
 module.exports = { startAutoCancellationJob, cancelExpiredUnpaidAppointments };
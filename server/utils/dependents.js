@@ -0,0 +1,88 @@
+// Dependent profile utilities:
+// Family members a patient books for (children, parents, ...), checking their details, and the copy of
+// them kept on appointments and prescriptions so records land under the person actually treated.
+const mongoose = require('mongoose');
+
+const DEPENDENT_RELATIONS = ['child', 'spouse', 'parent', 'sibling', 'other'];
+const MAX_DEPENDENTS = 10;
+const MAX_DEPENDENT_NAME_LENGTH = 100;
+
+// Fields of the dependent copy stored on appointments, emergency requests and prescriptions
+const DEPENDENT_SNAPSHOT_FIELDS = {
+    dependent_id: { type: mongoose.Schema.Types.ObjectId, required: true },
+    full_name: { type: String, required: true },
+    date_of_birth: { type: Date, default: null },
+    relation: { type: String, default: 'other' },
+};
+
+function serializeDependent(dependent) {
+    return {
+        id: dependent._id.toString(),
+        full_name: dependent.full_name,
+        date_of_birth: dependent.date_of_birth,
+        relation: dependent.relation,
+    };
+}
+
+// Returns an error message for an invalid dependent, otherwise null.
+// `partial` skips the required checks for fields that are not being changed.
+function validateDependentInput({ full_name, date_of_birth, relation }, { partial = false } = {}) {
+    if (!partial || full_name !== undefined) {
+        const name = typeof full_name === 'string' ? full_name.trim() : '';
+        if (!name) return 'full_name is required';
+        if (name.length > MAX_DEPENDENT_NAME_LENGTH) {
+            return `full_name must be at most ${MAX_DEPENDENT_NAME_LENGTH} characters`;
+        }
+    }
+    if (!partial || date_of_birth !== undefined) {
+        const dob = new Date(date_of_birth);
+        if (!date_of_birth || Number.isNaN(dob.getTime())) return 'date_of_birth must be a valid date';
+        if (dob > new Date()) return 'date_of_birth cannot be in the future';
+    }
+    if (!partial || relation !== undefined) {
+        if (!DEPENDENT_RELATIONS.includes(relation)) {
+            return `relation must be one of: ${DEPENDENT_RELATIONS.join(', ')}`;
+        }
+    }
+    return null;
+}
+
+// The copy of a patient's dependent stored on a booking. A missing dependentId means the patient books for
+// themselves. Returns { ok: true, dependent } (dependent null for the patient) or { ok: false, status, message }.
+function getDependentSnapshot(user, dependentId) {
+    if (dependentId === undefined || dependentId === null || dependentId === '') {
+        return { ok: true, dependent: null };
+    }
+    const dependent = mongoose.isValidObjectId(dependentId) ? user?.dependents?.id(dependentId) : null;
+    if (!dependent) {
+        return { ok: false, status: 404, message: 'Dependent not found' };
+    }
+    return {
+        ok: true,
+        dependent: {
+            dependent_id: dependent._id,
+            full_name: dependent.full_name,
+            date_of_birth: dependent.date_of_birth,
+            relation: dependent.relation,
+        },
+    };
+}
+
+// Query filter for a `dependent_id` list parameter: omitted lists everything, 'self' only the patient's own
+// entries, an id that dependent's. Returns null for an id that is not valid.
+function buildDependentFilter(value, field) {
+    if (value === undefined || value === '') return {};
+    if (value === 'self') return { [field]: null };
+    if (!mongoose.isValidObjectId(value)) return null;
+    return { [field]: new mongoose.Types.ObjectId(String(value)) };
+}
+
+module.exports = {
+    DEPENDENT_RELATIONS,
+    MAX_DEPENDENTS,
+    DEPENDENT_SNAPSHOT_FIELDS,
+    serializeDependent,
+    validateDependentInput,
+    getDependentSnapshot,
+    buildDependentFilter,
+};
@@ -0,0 +1,223 @@
+// Emergency request utilities:
+// The doctor's emergency triage queue: response deadlines, expiring unanswered requests, and making
+// room for an accepted emergency by moving the booking in its slot to the next free one (or
+// refunding it in full when there is none).
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const EmergencyRequest = require('../models/EmergencyRequest');
+const PlatformSettings = require('../models/PlatformSettings');
+const User = require('../models/User');
+const { addDays, getAppointmentStart, isSlotConflictError, listDoctorSlots } = require('./appointmentSlots');
+const { transitionAppointment } = require('./appointmentStatus');
+const { refundCancelledAppointment } = require('./cancellationPolicy');
+const { formatAppointmentForViewer, resolveTimezone } = require('./timezones');
+
+const DEFAULT_EMERGENCY_RESPONSE_MINUTES = 15;
+
+// How far ahead a displaced booking is moved at most; beyond that the patient is refunded instead
+const REBOOK_SEARCH_DAYS = 14;
+
+async function getEmergencyResponseMinutes() {
+    const settings = await PlatformSettings.findOne({ key: 'global' });
+    const minutes = Number(settings?.emergency_response_minutes);
+    return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_EMERGENCY_RESPONSE_MINUTES;
+}
+
+function formatDoctorName(rawName) {
+    const name = String(rawName || '').trim();
+    if (!name) {
+        return 'The doctor';
+    }
+    return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
+}
+
+async function notifyUser(userId, type, message, data) {
+    try {
+        const Notification = require('../models/Notification');
+        await Notification.create({ user_id: userId, type, message, data });
+    } catch (notifyErr) {
+        console.error(`Failed to create ${type} notification`, notifyErr);
+    }
+}
+
+// First free slot after the appointment's own one, in windows open to its consultation mode
+async function findNextFreeSlot({ doctor, appointment }) {
+    const schedule = await listDoctorSlots({
+        doctor,
+        from: appointment.appointment_date,
+        to: addDays(appointment.appointment_date, REBOOK_SEARCH_DAYS - 1),
+        consultationMode: appointment.consultation_mode,
+    });
+
+    for (const day of schedule.days) {
+        const slot = day.slots.find((candidate) => candidate.status === 'free'
+            && (day.date > appointment.appointment_date || candidate.time > appointment.appointment_time));
+        if (slot) {
+            return { date: day.date, time: slot.time };
+        }
+    }
+    return null;
+}
+
+// Moves the appointment into the slot; false when another booking claimed it first
+async function moveDisplacedAppointment({ appointment, doctor, request, slot, actorId }) {
+    const fromDate = appointment.appointment_date;
+    const fromTime = appointment.appointment_time;
+
+    appointment.reschedule_history.push({
+        from_date: fromDate,
+        from_time: fromTime,
+        to_date: slot.date,
+        to_time: slot.time,
+        rescheduled_by: actorId,
+        rescheduled_at: new Date(),
+    });
+    appointment.appointment_date = slot.date;
+    appointment.appointment_time = slot.time;
+    appointment.timezone = resolveTimezone(doctor.timezone);
+    appointment.meeting_time = null;
+    appointment.displaced_by_emergency = {
+        emergency_request_id: request._id,
+        from_date: fromDate,
+        from_time: fromTime,
+        displaced_at: new Date(),
+    };
+
+    // A meeting created for the old slot is stale; the doctor regenerates it for the new time.
+    if (appointment.video?.meetingId) {
+        appointment.video.meetingId = null;
+        appointment.video.doctorJoinUrl = null;
+        appointment.video.patientJoinUrl = null;
+        appointment.video.enabled = false;
+        appointment.video.enabledAt = null;
+        appointment.video.doctorInCall = false;
+        appointment.zoom_join_url = null;
+    }
+
+    try {
+        await appointment.save();
+        return true;
+    } catch (error) {
+        if (!isSlotConflictError(error)) throw error;
+        return false;
+    }
+}
+
+async function refundDisplacedAppointment({ appointment, actorId }) {
+    const reason = 'Displaced by an emergency booking';
+    transitionAppointment(appointment, 'cancelled', { role: 'system', userId: actorId, reason });
+    appointment.notes = `${appointment.notes || ''} Preempted by emergency booking`.trim();
+    await appointment.save();
+
+    const { refunds } = await refundCancelledAppointment(appointment, { role: 'system', userId: actorId, reason });
+    if (refunds.length > 0) {
+        await appointment.save();
+    }
+    return refunds;
+}
+
+// Frees the requested slot for an accepted emergency. Each booking in it is moved to the doctor's next
+// free slot, keeping its payment, or cancelled with a full refund when nothing is free in time.
+// Returns the displaced appointments with what happened to each ('rebooked' or 'refunded').
+async function displaceForEmergency({ request, doctor, actorId }) {
+    const conflicting = await Appointment.find({
+        doctor_id: doctor._id,
+        appointment_date: request.appointment_date,
+        appointment_time: request.appointment_time,
+        status: { $in: ['pending', 'confirmed'] },
+    });
+
+    const displaced = [];
+    for (let appointment of conflicting) {
+        const fromDate = appointment.appointment_date;
+        const fromTime = appointment.appointment_time;
+        const patient = await User.findById(appointment.patient_id).select('timezone');
+        const previousView = formatAppointmentForViewer(appointment, patient?.timezone);
+
+        let outcome = 'refunded';
+        const nextSlot = await findNextFreeSlot({ doctor, appointment });
+        if (nextSlot) {
+            if (await moveDisplacedAppointment({ appointment, doctor, request, slot: nextSlot, actorId })) {
+                outcome = 'rebooked';
+            } else {
+                // Someone booked the free slot in the meantime; refund the unchanged booking instead
+                appointment = await Appointment.findById(appointment._id);
+            }
+        }
+
+        if (outcome === 'rebooked') {
+            const nextView = formatAppointmentForViewer(appointment, patient?.timezone);
+            await notifyUser(
+                appointment.patient_id,
+                'emergency_displaced',
+                `An emergency needed your slot on ${previousView.date} at ${previousView.time}, so your appointment was moved to ${nextView.date} at ${nextView.time}. If the new time does not suit you, cancel it from My Appointments for a full refund.`,
+                { appointment_id: appointment._id, outcome, previous_date: fromDate, previous_time: fromTime, url: '/appointments' }
+            );
+        } else {
+            const refunds = await refundDisplacedAppointment({ appointment, actorId });
+            await notifyUser(
+                appointment.patient_id,
+                'emergency_displaced',
+                `Your appointment on ${previousView.date} at ${previousView.time} was cancelled because an emergency needed the slot and no other slot was free in the next ${REBOOK_SEARCH_DAYS} days.${refunds.length > 0 ? ' Your payment has been refunded in full.' : ''}`,
+                { appointment_id: appointment._id, outcome, previous_date: fromDate, previous_time: fromTime }
+            );
+        }
+
+        displaced.push({ appointment, outcome });
+    }
+    return displaced;
+}
+
+// A request whose deadline passed is expired, whether the scheduler or a read gets to it first.
+// Returns true when the request was expired now.
+async function expireIfOverdue(request, now = new Date()) {
+    if (request.status !== 'pending' || request.expires_at.getTime() > now.getTime()) {
+        return false;
+    }
+    // Unless the doctor is answering it right now
+    const expired = await EmergencyRequest.updateOne({ _id: request._id, status: 'pending' }, { status: 'expired' });
+    if (expired.modifiedCount === 0) {
+        return false;
+    }
+    request.status = 'expired';
+
+    const doctor = await Doctor.findById(request.doctor_id?._id || request.doctor_id).populate('user_id', 'full_name');
+    await notifyUser(
+        request.patient_id?._id || request.patient_id,
+        'emergency_expired',
+        `${formatDoctorName(doctor?.user_id?.full_name)} did not respond to your emergency request in time. Please try another doctor.`,
+        { emergency_request_id: request._id, url: '/doctors' }
+    );
+    return true;
+}
+
+async function expireEmergencyRequests(now = new Date()) {
+    const overdue = await EmergencyRequest.find({ status: 'pending', expires_at: { $lte: now } });
+    let expired = 0;
+    for (const request of overdue) {
+        if (await expireIfOverdue(request, now)) {
+            expired += 1;
+        }
+    }
+    return expired;
+}
+
+// The displaced patient turned the new slot down: true while it is still upcoming and active
+function canDeclineRebooking(appointment, now = new Date()) {
+    if (!appointment.displaced_by_emergency || !['pending', 'confirmed'].includes(appointment.status)) {
+        return false;
+    }
+    const start = appointment.start_at
+        || getAppointmentStart(appointment.appointment_date, appointment.appointment_time, appointment.timezone);
+    return start.getTime() > now.getTime();
+}
+
+module.exports = {
+    DEFAULT_EMERGENCY_RESPONSE_MINUTES,
+    REBOOK_SEARCH_DAYS,
+    getEmergencyResponseMinutes,
+    displaceForEmergency,
+    expireIfOverdue,
+    expireEmergencyRequests,
+    canDeclineRebooking,
+};
@@ -0,0 +1,140 @@
+// iCalendar utilities:
+// Renders appointments as RFC 5545 events for the per-appointment .ics download and the calendar
+// subscription feed. Each event is written for one viewer (patient or doctor), who sees the other party's name
+// and their own join link.
+const {
+    CONSULTATION_MODE_LABELS,
+    DEFAULT_CONSULTATION_MODE,
+    isVideoConsultation,
+} = require('./consultationModes');
+
+const PRODUCT_ID = '-//MediConnect//Appointments//EN';
+const DEFAULT_DURATION_MINUTES = 30;
+
+// TEXT values escape backslashes, separators and line breaks
+function escapeText(value) {
+    return String(value ?? '')
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+// 20261019T093000Z
+function formatUtc(date) {
+    return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+function foldLine(line) {
+    const chunks = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const charBytes = Buffer.byteLength(char);
+        const limit = chunks.length === 0 ? 75 : 74;
+        if (currentBytes + charBytes > limit) {
+            chunks.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += charBytes;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+}
+
+function getEventStatus(status) {
+    if (status === 'cancelled') return 'CANCELLED';
+    if (status === 'pending') return 'TENTATIVE';
+    return 'CONFIRMED';
+}
+
+function formatDoctor(doctor) {
+    const name = String(doctor?.user_id?.full_name || '').trim();
+    if (!name) return 'Doctor';
+    return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
+}
+
+function formatPatient(appointment) {
+    const name = String(appointment.patient_id?.full_name || '').trim() || 'Patient';
+    return appointment.dependent ? `${name} (for ${appointment.dependent.full_name})` : name;
+}
+
+// The viewer's link into the video call; the primary doctor gets the host link when the meeting has one
+function getJoinUrl(appointment, { isPrimaryDoctor }) {
+    if (!isVideoConsultation(appointment)) return null;
+    if (isPrimaryDoctor && appointment.video?.doctorJoinUrl) return appointment.video.doctorJoinUrl;
+    return appointment.zoom_join_url || null;
+}
+
+// `appointment` needs doctor_id (with user_id) and patient_id populated.
+// `viewer` is { role: 'patient' | 'doctor', isPrimaryDoctor }.
+function buildAppointmentEvent(appointment, viewer, now = new Date()) {
+    const start = appointment.start_at ? new Date(appointment.start_at) : null;
+    if (!start || Number.isNaN(start.getTime())) return null;
+
+    const durationMinutes = Number(appointment.duration_minutes) || DEFAULT_DURATION_MINUTES;
+    const end = new Date(start.getTime() + durationMinutes * 60 * 1000);
+    const mode = appointment.consultation_mode || DEFAULT_CONSULTATION_MODE;
+    const doctorName = formatDoctor(appointment.doctor_id);
+    const patientName = formatPatient(appointment);
+    const joinUrl = getJoinUrl(appointment, viewer);
+
+    const summary = viewer.role === 'patient'
+        ? `${CONSULTATION_MODE_LABELS[mode]} with ${doctorName}`
+        : `${CONSULTATION_MODE_LABELS[mode]}: ${patientName}`;
+    const description = [
+        `Doctor: ${doctorName}`,
+        `Patient: ${patientName}`,
+        joinUrl ? `Join: ${joinUrl}` : '',
+        appointment.status === 'cancelled' ? 'This appointment was cancelled.' : '',
+    ].filter(Boolean).join('\n');
+
+    let location = '';
+    if (mode === 'in_person') location = appointment.clinic_address || '';
+    else if (joinUrl) location = joinUrl;
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:appointment-${appointment._id}@mediconnect`,
+        `DTSTAMP:${formatUtc(now)}`,
+        `DTSTART:${formatUtc(start)}`,
+        `DTEND:${formatUtc(end)}`,
+        // Every status change and every move to another slot bumps the sequence, so calendars apply
+        // cancellations and new times over the earlier copy
+        `SEQUENCE:${(appointment.status_history || []).length + (appointment.reschedule_history || []).length}`,
+        `STATUS:${getEventStatus(appointment.status)}`,
+        `SUMMARY:${escapeText(summary)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+    ];
+    if (location) lines.push(`LOCATION:${escapeText(location)}`);
+    if (joinUrl) lines.push(`URL:${joinUrl}`);
+    if (appointment.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(appointment.updatedAt)}`);
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+// Wraps events (from buildAppointmentEvent) into a calendar document with CRLF line endings
+function buildCalendar(events, { name = 'MediConnect Appointments' } = {}) {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        ...events.filter(Boolean).flat(),
+        'END:VCALENDAR',
+    ];
+    return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+module.exports = {
+    escapeText,
+    formatUtc,
+    foldLine,
+    buildAppointmentEvent,
+    buildCalendar,
+};
@@ -0,0 +1,204 @@
+// Intake form utilities:
+// Which questionnaire applies to a doctor, checking form definitions, and turning a patient's answers into
+// the intake snapshot stored on the appointment (labels and attached records copied at booking time).
+const mongoose = require('mongoose');
+
+const INTAKE_QUESTION_TYPES = ['short_text', 'long_text', 'single_choice', 'multiple_choice', 'yes_no', 'medical_records'];
+const CHOICE_QUESTION_TYPES = ['single_choice', 'multiple_choice'];
+
+const MAX_INTAKE_QUESTIONS = 30;
+const MAX_INTAKE_OPTIONS = 20;
+const MAX_INTAKE_LABEL_LENGTH = 200;
+const MAX_INTAKE_ANSWER_LENGTH = 2000;
+const MAX_INTAKE_RECORDS = 10;
+
+// Used for doctors whose specialization has no form yet. Question ids are fixed so answers stay comparable.
+const DEFAULT_INTAKE_FORM = {
+    id: null,
+    title: 'Intake questionnaire',
+    questions: [
+        { id: 'symptoms', label: 'What symptoms are you experiencing?', type: 'long_text', required: false, options: [] },
+        { id: 'duration', label: 'How long have you had them?', type: 'short_text', required: false, options: [] },
+        { id: 'medications', label: 'Current medications', type: 'long_text', required: false, options: [] },
+        { id: 'allergies', label: 'Allergies', type: 'short_text', required: false, options: [] },
+        { id: 'attachments', label: 'Reports or records for the doctor', type: 'medical_records', required: false, options: [] },
+    ],
+};
+
+function escapeRegex(value) {
+    return String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function serializeIntakeForm(form) {
+    return {
+        id: form._id.toString(),
+        title: form.title,
+        specialization: form.specialization,
+        doctor_id: form.doctor_id || null,
+        questions: form.questions.map((question) => ({
+            id: question._id.toString(),
+            label: question.label,
+            type: question.type,
+            required: Boolean(question.required),
+            options: question.options || [],
+        })),
+    };
+}
+
+// The doctor's own form, else their specialization's form, else the default
+async function resolveIntakeForm(doctor) {
+    const IntakeForm = require('../models/IntakeForm');
+
+    const own = await IntakeForm.findOne({ doctor_id: doctor._id });
+    if (own) {
+        return serializeIntakeForm(own);
+    }
+
+    const specialization = String(doctor.specialization || '').trim();
+    if (specialization) {
+        const shared = await IntakeForm.findOne({
+            doctor_id: null,
+            specialization: { $regex: `^${escapeRegex(specialization)}$`, $options: 'i' },
+        });
+        if (shared) {
+            return serializeIntakeForm(shared);
+        }
+    }
+
+    return DEFAULT_INTAKE_FORM;
+}
+
+// Returns an error message, or null when the form can be saved
+function validateIntakeFormDefinition({ title, questions }) {
+    if (title !== undefined && String(title).trim().length > MAX_INTAKE_LABEL_LENGTH) {
+        return `title must be at most ${MAX_INTAKE_LABEL_LENGTH} characters`;
+    }
+    if (!Array.isArray(questions) || questions.length === 0) {
+        return 'An intake form needs at least one question';
+    }
+    if (questions.length > MAX_INTAKE_QUESTIONS) {
+        return `An intake form can have at most ${MAX_INTAKE_QUESTIONS} questions`;
+    }
+
+    for (const [index, question] of questions.entries()) {
+        const label = String(question?.label || '').trim();
+        if (!label || label.length > MAX_INTAKE_LABEL_LENGTH) {
+            return `Question ${index + 1} needs a label of at most ${MAX_INTAKE_LABEL_LENGTH} characters`;
+        }
+        if (!INTAKE_QUESTION_TYPES.includes(question.type)) {
+            return `Question ${index + 1} has an unknown type`;
+        }
+        if (CHOICE_QUESTION_TYPES.includes(question.type)) {
+            const options = Array.isArray(question.options) ? question.options.map((o) => String(o).trim()).filter(Boolean) : [];
+            if (options.length < 2 || options.length > MAX_INTAKE_OPTIONS) {
+                return `Question ${index + 1} needs between 2 and ${MAX_INTAKE_OPTIONS} options`;
+            }
+        }
+    }
+    return null;
+}
+
+// Form fields as they are saved; options only kept for choice questions. Questions sent back with their
+// id keep it, so answers given before an edit still match the question.
+function normalizeIntakeQuestions(questions) {
+    return questions.map((question) => ({
+        ...(question.id && mongoose.isValidObjectId(question.id) ? { _id: question.id } : {}),
+        label: String(question.label).trim(),
+        type: question.type,
+        required: Boolean(question.required),
+        options: CHOICE_QUESTION_TYPES.includes(question.type)
+            ? question.options.map((o) => String(o).trim()).filter(Boolean)
+            : [],
+    }));
+}
+
+function isBlankAnswer(value) {
+    return value === undefined || value === null || value === ''
+        || (Array.isArray(value) && value.length === 0);
+}
+
+// Checks `answers` ({ [questionId]: value }) against the form and copies labels and the patient's attached
+// records into the intake stored on the appointment.
+// Returns { ok: true, intake } or { ok: false, message }.
+async function buildIntakeResponse({ form, answers, patientId }) {
+    const MedicalRecord = require('../models/MedicalRecord');
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+        return { ok: false, message: 'intake_answers must be an object keyed by question id' };
+    }
+
+    const stored = [];
+    for (const question of form.questions) {
+        const raw = answers[question.id];
+        if (isBlankAnswer(raw) || (typeof raw === 'string' && !raw.trim())) {
+            if (question.required) {
+                return { ok: false, message: `Please answer "${question.label}"` };
+            }
+            continue;
+        }
+
+        const answer = { question_id: question.id, label: question.label, type: question.type, value: null, records: [] };
+
+        if (question.type === 'short_text' || question.type === 'long_text') {
+            const text = String(raw).trim();
+            if (text.length > MAX_INTAKE_ANSWER_LENGTH) {
+                return { ok: false, message: `"${question.label}" must be at most ${MAX_INTAKE_ANSWER_LENGTH} characters` };
+            }
+            answer.value = text;
+        } else if (question.type === 'yes_no') {
+            if (typeof raw !== 'boolean') {
+                return { ok: false, message: `"${question.label}" must be answered yes or no` };
+            }
+            answer.value = raw;
+        } else if (question.type === 'single_choice') {
+            if (!question.options.includes(raw)) {
+                return { ok: false, message: `Please pick one of the options for "${question.label}"` };
+            }
+            answer.value = raw;
+        } else if (question.type === 'multiple_choice') {
+            const picked = Array.isArray(raw) ? [...new Set(raw)] : [raw];
+            if (!picked.every((option) => question.options.includes(option))) {
+                return { ok: false, message: `Please pick from the options for "${question.label}"` };
+            }
+            answer.value = picked;
+        } else {
+            const recordIds = Array.isArray(raw) ? [...new Set(raw.map(String))] : [String(raw)];
+            if (recordIds.length > MAX_INTAKE_RECORDS || !recordIds.every((id) => mongoose.isValidObjectId(id))) {
+                return { ok: false, message: `Attach at most ${MAX_INTAKE_RECORDS} of your medical records to "${question.label}"` };
+            }
+            // Only the patient's own records can be shared with the doctor
+            const records = await MedicalRecord.find({ _id: { $in: recordIds }, patient_id: patientId });
+            if (records.length !== recordIds.length) {
+                return { ok: false, message: 'One of the attached medical records was not found' };
+            }
+            answer.records = records.map((record) => ({
+                record_id: record._id,
+                file_name: record.file_name,
+                file_url: record.file_url,
+                record_type: record.record_type,
+            }));
+        }
+
+        stored.push(answer);
+    }
+
+    return {
+        ok: true,
+        intake: {
+            form_id: form.id,
+            title: form.title,
+            answers: stored,
+            submitted_at: new Date(),
+        },
+    };
+}
+
+module.exports = {
+    INTAKE_QUESTION_TYPES,
+    DEFAULT_INTAKE_FORM,
+    serializeIntakeForm,
+    resolveIntakeForm,
+    validateIntakeFormDefinition,
+    normalizeIntakeQuestions,
+    buildIntakeResponse,
+};
@@ -0,0 +1,413 @@
+// Invoice utilities:
+// Issues one numbered invoice per completed payment, itemizing the doctor's fee and the platform fee.
+// Consultations by registered medical practitioners are exempt from GST (SAC 9993), so only the platform
+// fee is taxed. The fee the patient paid already includes GST, split into CGST and SGST because the place
+// of supply is the platform's own state (patients are not asked for a billing address). Without a GSTIN
+// configured no GST is charged and the document is a receipt.
+// Each invoice is stored as a PDF, filed in the patient's medical records under "Invoices" and rendered again
+// from the Invoice document whenever it is downloaded.
+const mongoose = require('mongoose');
+const Doctor = require('../models/Doctor');
+const Invoice = require('../models/Invoice');
+const InvoiceCounter = require('../models/InvoiceCounter');
+const MedicalRecord = require('../models/MedicalRecord');
+const User = require('../models/User');
+const { sendEmail } = require('../services/emailService');
+const { storeFile } = require('../services/fileStorageService');
+const { getPaymentProvider } = require('../services/paymentProviders');
+const { renderEmailWithFallback } = require('./emailTemplates');
+const { PAGE_WIDTH, createPdfPage } = require('./pdf');
+const { formatAppointmentForViewer, formatInTimezone } = require('./timezones');
+
+const CONSULTATION_SAC = '9993';
+const PLATFORM_FEE_SAC = '9985';
+const DEFAULT_GST_RATE = 18;
+
+const DOCUMENT_TITLES = {
+    tax_invoice: 'Tax Invoice',
+    receipt: 'Receipt',
+};
+
+function roundMoney(value) {
+    return Math.round(Number(value || 0) * 100) / 100;
+}
+
+function formatMoney(value) {
+    return Number(value || 0).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function getFrontendBaseUrl() {
+    return (process.env.FRONTEND_URL || 'http://localhost:8080').split(',')[0].trim();
+}
+
+function getInvoiceSettings() {
+    const rate = Number(process.env.INVOICE_GST_RATE);
+    return {
+        // Up to 3 characters keeps invoice numbers within the 16 GST allows
+        prefix: (process.env.INVOICE_NUMBER_PREFIX || 'MC').trim().slice(0, 3),
+        gstRate: Number.isFinite(rate) && rate >= 0 ? rate : DEFAULT_GST_RATE,
+        supplier: {
+            name: process.env.INVOICE_SUPPLIER_NAME || 'MediConnect',
+            address: process.env.INVOICE_SUPPLIER_ADDRESS || '',
+            state: process.env.INVOICE_SUPPLIER_STATE || '',
+            gstin: (process.env.INVOICE_GSTIN || '').trim().toUpperCase(),
+        },
+    };
+}
+
+// Indian fiscal year (April to March) of a date in India, e.g. 26-27
+function getFiscalYear(date) {
+    const [year, month] = formatInTimezone(date, 'Asia/Kolkata').date.split('-').map(Number);
+    const startYear = month >= 4 ? year : year - 1;
+    return `${String(startYear % 100).padStart(2, '0')}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// GST needs consecutive numbers of at most 16 characters, unique within the fiscal year
+function formatInvoiceNumber(prefix, fiscalYear, seq) {
+    return `${prefix}/${fiscalYear}/${String(seq).padStart(6, '0')}`;
+}
+
+// Numbers and saves the invoice in one transaction, so a failed save also takes back its number and the series
+// stays consecutive. Conflicting writes to the counter are retried by withTransaction.
+async function createNumberedInvoice(prefix, fields) {
+    const fiscalYear = getFiscalYear(fields.issued_at);
+    const session = await mongoose.startSession();
+    try {
+        let invoice;
+        await session.withTransaction(async () => {
+            const counter = await InvoiceCounter.findOneAndUpdate(
+                { fiscal_year: fiscalYear },
+                { $inc: { seq: 1 } },
+                { new: true, upsert: true, session }
+            );
+            [invoice] = await Invoice.create([{
+                ...fields,
+                invoice_number: formatInvoiceNumber(prefix, fiscalYear, counter.seq),
+            }], { session });
+        });
+        // Later saves (the stored file) happen outside the transaction
+        invoice.$session(null);
+        return invoice;
+    } finally {
+        await session.endSession();
+    }
+}
+
+// Splits the amount paid into the doctor's fee and the platform fee (GST-inclusive)
+function buildInvoiceItems({ amount, platformFee, gstRate, charged, doctorName }) {
+    const platformTotal = roundMoney(Math.min(Math.max(Number(platformFee || 0), 0), amount));
+    const doctorTotal = roundMoney(amount - platformTotal);
+    const items = [];
+
+    if (doctorTotal > 0) {
+        items.push({
+            description: `Consultation fee - ${doctorName}`,
+            sac: CONSULTATION_SAC,
+            taxable_value: doctorTotal,
+            gst_rate: 0,
+            cgst: 0,
+            sgst: 0,
+            total: doctorTotal,
+            note: 'Healthcare services by a registered medical practitioner, exempt from GST',
+        });
+    }
+
+    if (platformTotal > 0) {
+        const rate = charged ? gstRate : 0;
+        const taxableValue = roundMoney(platformTotal / (1 + rate / 100));
+        const cgst = roundMoney((platformTotal - taxableValue) / 2);
+        items.push({
+            description: 'Platform fee',
+            sac: PLATFORM_FEE_SAC,
+            taxable_value: taxableValue,
+            gst_rate: rate,
+            cgst,
+            sgst: roundMoney(platformTotal - taxableValue - cgst),
+            total: platformTotal,
+            note: charged ? '' : 'No GST charged',
+        });
+    }
+
+    return items;
+}
+
+function getPaymentReference(payment) {
+    return payment.razorpay_payment_id || payment.cashfree_payment_id || payment.fake_payment_id
+        || payment.razorpay_order_id || payment.cashfree_order_id || payment.fake_order_id || String(payment._id);
+}
+
+function getInvoiceFileName(invoice) {
+    return `invoice-${invoice.invoice_number.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+}
+
+function renderInvoicePdf(invoice) {
+    const left = 40;
+    const right = PAGE_WIDTH - 40;
+    const middle = PAGE_WIDTH / 2 + 10;
+    const title = DOCUMENT_TITLES[invoice.document_type];
+    const page = createPdfPage({ title: `${title} ${invoice.invoice_number}`, createdAt: invoice.issued_at });
+    const issued = formatInTimezone(invoice.issued_at, 'Asia/Kolkata');
+
+    page.text(left, 60, title.toUpperCase(), { size: 18, bold: true });
+    page.text(right, 50, `${title} No: ${invoice.invoice_number}`, { size: 10, bold: true, align: 'right' });
+    page.text(right, 64, `Date: ${issued.date}`, { align: 'right' });
+    page.line(left, 80, right, 80, { width: 1 });
+
+    // Supplier and recipient
+    const { supplier, patient, doctor } = invoice;
+    page.text(left, 100, 'From', { size: 9, bold: true });
+    let supplierY = page.paragraph(left, 115, supplier.name, { bold: true, width: middle - left - 20 });
+    supplierY = page.paragraph(left, supplierY, [supplier.address, supplier.state].filter(Boolean).join(', '), { width: middle - left - 20 });
+    if (supplier.gstin) {
+        supplierY = page.paragraph(left, supplierY, `GSTIN: ${supplier.gstin}`);
+    }
+
+    page.text(middle, 100, 'Billed to', { size: 9, bold: true });
+    let patientY = page.paragraph(middle, 115, patient.name, { bold: true });
+    patientY = page.paragraph(middle, patientY, [patient.email, patient.phone].filter(Boolean).join(' | '));
+    if (invoice.service_for) {
+        patientY = page.paragraph(middle, patientY, `Patient: ${invoice.service_for}`);
+    }
+
+    // Doctor and appointment
+    let y = Math.max(supplierY, patientY) + 12;
+    page.line(left, y - 8, right, y - 8);
+    page.text(left, y + 6, 'Consultation', { size: 9, bold: true });
+    y = page.paragraph(left, y + 21, [doctor.name, doctor.specialization].filter(Boolean).join(', '), { bold: true });
+    const registration = doctor.registration_number
+        ? `Registration No: ${doctor.registration_number}${doctor.registration_council ? ` (${doctor.registration_council})` : ''}`
+        : 'Registration No: not provided';
+    y = page.paragraph(left, y, registration);
+    if (doctor.clinic_address) {
+        y = page.paragraph(left, y, doctor.clinic_address);
+    }
+    y = page.paragraph(left, y, `Appointment: ${invoice.appointment_date} ${invoice.appointment_time}`.trim());
+    if (invoice.place_of_supply) {
+        y = page.paragraph(left, y, `Place of supply: ${invoice.place_of_supply}`);
+    }
+
+    // Items: description, SAC, taxable value, GST rate, CGST, SGST, total
+    const columns = [
+        { label: 'SAC', x: 245, align: 'left' },
+        { label: 'Taxable value', x: 350, align: 'right' },
+        { label: 'GST', x: 385, align: 'right' },
+        { label: 'CGST', x: 435, align: 'right' },
+        { label: 'SGST', x: 485, align: 'right' },
+        { label: 'Total', x: right - 4, align: 'right' },
+    ];
+    y += 12;
+    page.box(left, y, right - left, 20);
+    page.text(left + 4, y + 14, 'Description', { size: 9, bold: true });
+    columns.forEach((column) => page.text(column.x, y + 14, column.label, { size: 9, bold: true, align: column.align }));
+    y += 34;
+
+    for (const item of invoice.items) {
+        const values = [
+            item.sac,
+            formatMoney(item.taxable_value),
+            `${item.gst_rate}%`,
+            formatMoney(item.cgst),
+            formatMoney(item.sgst),
+            formatMoney(item.total),
+        ];
+        columns.forEach((column, index) => page.text(column.x, y, values[index], { size: 9, align: column.align }));
+        let itemY = page.paragraph(left + 4, y, item.description, { size: 9, width: 195 });
+        if (item.note) {
+            itemY = page.paragraph(left + 4, itemY, item.note, { size: 7.5, width: 195 });
+        }
+        y = itemY + 8;
+        page.line(left, y - 10, right, y - 10, { width: 0.25 });
+    }
+
+    // Totals
+    const totals = [
+        ['Taxable value', invoice.taxable_total],
+        ['CGST', invoice.cgst_total],
+        ['SGST', invoice.sgst_total],
+    ];
+    y += 4;
+    for (const [label, value] of totals) {
+        page.text(435, y, label, { size: 9, align: 'right' });
+        page.text(right - 4, y, formatMoney(value), { size: 9, align: 'right' });
+        y += 14;
+    }
+    page.box(330, y - 9, right - 330, 20);
+    page.text(435, y + 5, 'Total paid (INR)', { size: 10, bold: true, align: 'right' });
+    page.text(right - 4, y + 5, formatMoney(invoice.total), { size: 10, bold: true, align: 'right' });
+    y += 36;
+
+    const provider = getPaymentProvider(invoice.payment_provider);
+    const paidVia = provider ? ` via ${provider.label}` : '';
+    y = page.paragraph(left, y, `Paid in full${paidVia}. Payment reference: ${invoice.payment_reference}`, { size: 9 });
+    y = page.paragraph(left, y + 4, 'Amounts are in Indian rupees and include GST where charged.', { size: 9 });
+    if (invoice.document_type === 'receipt') {
+        page.paragraph(left, y + 4, 'The supplier is not registered under GST; no GST has been charged.', { size: 9 });
+    }
+
+    page.line(left, 790, right, 790);
+    page.text(PAGE_WIDTH / 2, 805, 'This is a computer-generated document and does not require a signature.', { size: 8, align: 'center' });
+
+    return page.toBuffer();
+}
+
+// Saves the PDF and files it in the patient's medical records. Best effort: the invoice can still be
+// downloaded when file storage is unavailable.
+async function storeInvoiceFile(invoice, pdf, dependentId) {
+    try {
+        const fileUrl = await storeFile({
+            key: `invoices/${invoice.patient_id}/${getInvoiceFileName(invoice)}`,
+            body: pdf,
+            contentType: 'application/pdf',
+        });
+        if (!fileUrl) return;
+
+        const record = await MedicalRecord.create({
+            patient_id: invoice.patient_id,
+            dependent_id: dependentId || null,
+            file_name: `${DOCUMENT_TITLES[invoice.document_type]} ${invoice.invoice_number}.pdf`,
+            file_url: fileUrl,
+            mime_type: 'application/pdf',
+            file_size: pdf.length,
+            record_type: 'Invoices',
+            notes: `${invoice.doctor.name}, ${invoice.appointment_date}`,
+        });
+        invoice.file_url = fileUrl;
+        invoice.medical_record_id = record._id;
+        await invoice.save();
+    } catch (error) {
+        console.error('Failed to store invoice file', error);
+    }
+}
+
+// Issues the invoice of a completed payment, or returns the one already issued. Resolves to
+// { invoice, pdf }, or null when there is nothing to invoice (unpaid or free).
+async function issueInvoiceForPayment(payment, appointment) {
+    const existing = await Invoice.findOne({ payment_id: payment._id });
+    if (existing) {
+        return { invoice: existing, pdf: renderInvoicePdf(existing) };
+    }
+
+    const amount = roundMoney(payment.amount);
+    if (!['completed', 'refunded'].includes(payment.status) || amount <= 0) {
+        return null;
+    }
+
+    const settings = getInvoiceSettings();
+    const [patient, doctor] = await Promise.all([
+        User.findById(payment.patient_id).select('full_name email phone timezone'),
+        Doctor.findById(appointment.doctor_id?._id || appointment.doctor_id).populate('user_id', 'full_name'),
+    ]);
+    const doctorName = doctor?.user_id?.full_name || 'Doctor';
+    const displayDoctorName = /^dr\.?\s/i.test(doctorName) ? doctorName : `Dr. ${doctorName}`;
+    const charged = Boolean(settings.supplier.gstin);
+    const items = buildInvoiceItems({
+        amount,
+        platformFee: appointment.platform_fee,
+        gstRate: settings.gstRate,
+        charged,
+        doctorName: displayDoctorName,
+    });
+    const sum = (field) => roundMoney(items.reduce((total, item) => total + item[field], 0));
+    const appointmentView = formatAppointmentForViewer(appointment, patient?.timezone);
+    const issuedAt = new Date();
+
+    let invoice;
+    try {
+        invoice = await createNumberedInvoice(settings.prefix, {
+            document_type: charged ? 'tax_invoice' : 'receipt',
+            payment_id: payment._id,
+            appointment_id: appointment._id,
+            patient_id: payment.patient_id,
+            doctor_id: doctor?._id || null,
+            issued_at: issuedAt,
+            supplier: settings.supplier,
+            patient: {
+                name: patient?.full_name || '',
+                email: patient?.email || '',
+                phone: patient?.phone || '',
+            },
+            service_for: appointment.dependent?.full_name || '',
+            doctor: {
+                name: displayDoctorName,
+                specialization: doctor?.specialization || '',
+                registration_number: doctor?.registration_number || '',
+                registration_council: doctor?.registration_council || '',
+                clinic_address: appointment.clinic_address || '',
+            },
+            appointment_date: appointmentView.date || '',
+            appointment_time: appointmentView.time || '',
+            place_of_supply: settings.supplier.state,
+            items,
+            taxable_total: sum('taxable_value'),
+            cgst_total: sum('cgst'),
+            sgst_total: sum('sgst'),
+            total: amount,
+            payment_provider: payment.provider || (payment.cashfree_order_id ? 'cashfree' : null),
+            payment_reference: getPaymentReference(payment),
+        });
+    } catch (error) {
+        // Issued by a concurrent call for the same payment
+        if (error?.code === 11000) {
+            const issued = await Invoice.findOne({ payment_id: payment._id });
+            if (issued) return { invoice: issued, pdf: renderInvoicePdf(issued) };
+        }
+        throw error;
+    }
+
+    const pdf = renderInvoicePdf(invoice);
+    await storeInvoiceFile(invoice, pdf, appointment.dependent?.dependent_id);
+    return { invoice, pdf };
+}
+
+function buildInvoiceAttachment({ invoice, pdf }) {
+    return {
+        filename: getInvoiceFileName(invoice),
+        content: pdf,
+        contentType: 'application/pdf',
+    };
+}
+
+// Emails an invoice on its own, for payments that did not come with a confirmation email
+async function sendInvoiceEmail({ invoice, pdf }) {
+    try {
+        const patient = await User.findById(invoice.patient_id).select('full_name email locale');
+        if (!patient?.email) return false;
+
+        const title = DOCUMENT_TITLES[invoice.document_type];
+        const resolved = renderEmailWithFallback({
+            locale: patient.locale || 'en',
+            templateName: 'payment_receipt',
+            context: {
+                name: patient.full_name || 'there',
+                document: title.toLowerCase(),
+                invoice_number: invoice.invoice_number,
+                amount: `₹${formatMoney(invoice.total)}`,
+                doctor: invoice.doctor.name,
+                date: invoice.appointment_date,
+                link: `${getFrontendBaseUrl()}/appointments`,
+            },
+        });
+
+        return await sendEmail({
+            to: patient.email,
+            subject: `${title} ${invoice.invoice_number} - MediConnect`,
+            text: resolved.text,
+            html: resolved.html,
+            attachments: [buildInvoiceAttachment({ invoice, pdf })],
+        });
+    } catch (error) {
+        console.error('Failed to send invoice email', error);
+        return false;
+    }
+}
+
+module.exports = {
+    DOCUMENT_TITLES,
+    getFiscalYear,
+    buildInvoiceItems,
+    renderInvoicePdf,
+    getInvoiceFileName,
+    issueInvoiceForPayment,
+    buildInvoiceAttachment,
+    sendInvoiceEmail,
+};
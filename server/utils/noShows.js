@@ -0,0 +1,168 @@
+// No-show utilities:
+// Records no_show_patient / no_show_doctor outcomes, applies the admin-configured consequences
+// (forfeited fee or refund), flags doctors who never joined the call, and tells whether a patient's
+// no-show record means bookings must be paid up front.
+const Appointment = require('../models/Appointment');
+const Doctor = require('../models/Doctor');
+const PlatformSettings = require('../models/PlatformSettings');
+const User = require('../models/User');
+const { AppointmentTransitionError, transitionAppointment } = require('./appointmentStatus');
+const { isVideoConsultation } = require('./consultationModes');
+const { refundAppointmentPayment } = require('./refunds');
+const { formatAppointmentForViewer } = require('./timezones');
+
+const NO_SHOW_OUTCOMES = ['no_show_patient', 'no_show_doctor'];
+
+// A doctor who has not joined this long after the slot ended is recorded as a no-show
+const DOCTOR_NO_SHOW_GRACE_MINUTES = 30;
+// Older appointments are left for a person to resolve rather than flagged automatically
+const DOCTOR_NO_SHOW_LOOKBACK_HOURS = 24;
+
+async function getNoShowPolicy() {
+    const settings = await PlatformSettings.findOne({ key: 'global' });
+    return {
+        patientForfeitsFee: settings?.no_show_patient_forfeits_fee ?? true,
+        doctorAutoRefund: settings?.no_show_doctor_auto_refund ?? true,
+        prepaymentThreshold: Number(settings?.no_show_prepayment_threshold ?? 3),
+    };
+}
+
+// Prepayment is required once the patient reaches the configured number of no-shows.
+async function getPrepaymentRequirement(patientId) {
+    const { prepaymentThreshold } = await getNoShowPolicy();
+    const noShowCount = await Appointment.countDocuments({ patient_id: patientId, status: 'no_show_patient' });
+    return {
+        no_show_count: noShowCount,
+        prepayment_threshold: prepaymentThreshold,
+        prepayment_required: prepaymentThreshold > 0 && noShowCount >= prepaymentThreshold,
+    };
+}
+
+function formatDoctorName(rawName) {
+    const name = String(rawName || '').trim();
+    if (!name) {
+        return 'your doctor';
+    }
+    return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
+}
+
+async function notifyNoShow({ appointment, outcome, refunded, automatic }) {
+    const Notification = require('../models/Notification');
+    const doctor = await Doctor.findById(appointment.doctor_id).populate('user_id', 'full_name timezone');
+    const patient = await User.findById(appointment.patient_id).select('full_name timezone');
+    const doctorName = formatDoctorName(doctor?.user_id?.full_name);
+    const patientName = patient?.full_name || 'The patient';
+    const patientView = formatAppointmentForViewer(appointment, patient?.timezone);
+    const doctorView = formatAppointmentForViewer(appointment, doctor?.user_id?.timezone);
+    const data = { appointment_id: appointment._id, outcome, refunded };
+
+    let patientMessage;
+    if (outcome === 'no_show_patient') {
+        patientMessage = `You missed your appointment with ${doctorName} on ${patientView.date} at ${patientView.time}. `
+            + (refunded ? 'Your payment has been refunded.' : 'The consultation fee is not refundable.');
+        const requirement = await getPrepaymentRequirement(appointment.patient_id);
+        if (requirement.prepayment_required) {
+            patientMessage += ' Because of repeated missed appointments, future bookings must be paid in advance.';
+        }
+    } else {
+        patientMessage = `${doctorName} did not attend your appointment on ${patientView.date} at ${patientView.time}. `
+            + (refunded ? 'Your payment has been refunded in full.' : 'Please contact support about your payment.');
+    }
+    await Notification.create({ user_id: appointment.patient_id, type: 'appointment_no_show', message: patientMessage, data });
+
+    if (doctor?.user_id?._id) {
+        const doctorMessage = outcome === 'no_show_patient'
+            ? `${patientName} was recorded as a no-show for ${doctorView.date} at ${doctorView.time}.`
+            : `You were recorded as a no-show for the appointment with ${patientName} on ${doctorView.date} at ${doctorView.time}${automatic ? ' because you did not join the call' : ''}.`;
+        await Notification.create({ user_id: doctor.user_id._id, type: 'appointment_no_show', message: doctorMessage, data });
+    }
+}
+
+// Moves a confirmed appointment that has already started to a no-show outcome, refunds the patient
+// when the policy says so, and notifies both sides. Throws AppointmentTransitionError when not allowed.
+async function recordNoShow({ appointment, outcome, actor, reason = '' }) {
+    if (!NO_SHOW_OUTCOMES.includes(outcome)) {
+        throw new AppointmentTransitionError('Invalid no-show outcome', 400);
+    }
+    if (!appointment.start_at || appointment.start_at.getTime() > Date.now()) {
+        throw new AppointmentTransitionError('A no-show can only be recorded once the appointment has started', 400);
+    }
+
+    const previousStatus = appointment.status;
+    const automatic = actor.role === 'system';
+    const defaultReason = outcome === 'no_show_patient' ? 'Patient did not attend' : 'Doctor did not attend';
+    transitionAppointment(appointment, outcome, { ...actor, reason: reason || defaultReason });
+    appointment.video.doctorInCall = false;
+
+    // Another request or server instance may have resolved the appointment in the meantime
+    appointment.$where = { status: previousStatus };
+    await appointment.save();
+    appointment.$where = undefined;
+
+    const policy = await getNoShowPolicy();
+    const refundDue = outcome === 'no_show_doctor' ? policy.doctorAutoRefund : !policy.patientForfeitsFee;
+    let refunded = false;
+    if (refundDue) {
+        const refunds = await refundAppointmentPayment(appointment, {
+            source: 'no_show',
+            reason: reason || defaultReason,
+            createdBy: actor.userId || null,
+        });
+        refunded = refunds.length > 0;
+        await appointment.save();
+    }
+
+    try {
+        await notifyNoShow({ appointment, outcome, refunded, automatic });
+    } catch (notifyErr) {
+        console.error('Failed to notify no-show', notifyErr);
+    }
+
+    return { appointment, refunded };
+}
+
+// Automatic fallback: confirmed video appointments whose doctor never joined the call are
+// recorded as doctor no-shows once the slot and grace period are over. In-person and phone
+// consultations have no call to join, so they are left for the doctor or an admin to record.
+async function detectDoctorNoShows(now = new Date()) {
+    const graceMs = DOCTOR_NO_SHOW_GRACE_MINUTES * 60 * 1000;
+    const candidates = await Appointment.find({
+        status: 'confirmed',
+        start_at: {
+            $gte: new Date(now.getTime() - DOCTOR_NO_SHOW_LOOKBACK_HOURS * 60 * 60 * 1000),
+            $lte: new Date(now.getTime() - graceMs),
+        },
+        'video.doctorInCall': { $ne: true },
+        'video.doctorJoinedAt': null,
+    });
+
+    let recorded = 0;
+    for (const appointment of candidates) {
+        if (!isVideoConsultation(appointment)) continue;
+        const endsAt = appointment.start_at.getTime() + Number(appointment.duration_minutes || 30) * 60 * 1000;
+        if (endsAt + graceMs > now.getTime()) continue;
+
+        try {
+            await recordNoShow({
+                appointment,
+                outcome: 'no_show_doctor',
+                actor: { role: 'system' },
+                reason: 'Doctor did not join the consultation',
+            });
+            recorded++;
+        } catch (error) {
+            console.error(`[No-show] Could not record doctor no-show for ${appointment._id}`, error.message);
+        }
+    }
+
+    return recorded;
+}
+
+module.exports = {
+    NO_SHOW_OUTCOMES,
+    DOCTOR_NO_SHOW_GRACE_MINUTES,
+    getNoShowPolicy,
+    getPrepaymentRequirement,
+    recordNoShow,
+    detectDoctorNoShows,
+};
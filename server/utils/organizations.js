@@ -0,0 +1,36 @@
+// Organization utilities:
+// Membership lookups shared by the routes that clinic admins are allowed into. A clinic admin acts on
+// behalf of the doctors of their own organization and never sees anything outside it.
+const mongoose = require('mongoose');
+const Doctor = require('../models/Doctor');
+
+function isClinicAdmin(user) {
+    return user?.role === 'clinic_admin' && Boolean(user.organization_id);
+}
+
+// Doctor profile ids of every member of the organization
+async function getOrganizationDoctorIds(organizationId) {
+    if (!organizationId) return [];
+    const doctors = await Doctor.find({ organization_id: organizationId }).select('_id');
+    return doctors.map((doctor) => doctor._id);
+}
+
+// The doctor's own account, or a clinic admin of the organization the doctor belongs to
+async function canManageDoctor(user, doctorOrId) {
+    if (!doctorOrId?.user_id && !mongoose.isValidObjectId(doctorOrId)) return false;
+    const doctor = doctorOrId?.user_id ? doctorOrId : await Doctor.findById(doctorOrId);
+    if (!doctor || !user) return false;
+
+    if (String(doctor.user_id?._id || doctor.user_id) === String(user._id)) {
+        return true;
+    }
+    return isClinicAdmin(user)
+        && Boolean(doctor.organization_id)
+        && String(doctor.organization_id) === String(user.organization_id);
+}
+
+module.exports = {
+    isClinicAdmin,
+    getOrganizationDoctorIds,
+    canManageDoctor,
+};
@@ -0,0 +1,158 @@
+// Payment order utilities:
+// Our order ids carry the appointment they pay for, as appt_<appointment id>_<timestamp>, so a webhook
+// can find the appointment even when the browser never came back. Providers that name their own orders
+// keep this id as the order's receipt.
+// Every gateway order is recorded as a 'pending' Payment when checkout starts, then completed or failed,
+// so the reconciliation job can compare each one with what the gateway captured.
+const Payment = require('../models/Payment');
+const User = require('../models/User');
+const { sendAppointmentConfirmation } = require('./appointmentConfirmations');
+const { assertTransition, transitionAppointment } = require('./appointmentStatus');
+const { isVideoConsultation } = require('./consultationModes');
+const { issueInvoiceForPayment, sendInvoiceEmail } = require('./invoices');
+const { formatAppointmentForViewer } = require('./timezones');
+
+const ORDER_ID_PATTERN = /^appt_([a-f0-9]{24})_/i;
+
+function buildPaymentOrderId(appointmentId) {
+    return `appt_${appointmentId}_${Date.now()}`.slice(0, 45);
+}
+
+function getAppointmentIdFromOrderId(orderId) {
+    const match = ORDER_ID_PATTERN.exec(String(orderId || ''));
+    return match ? match[1] : null;
+}
+
+async function recordPendingOrder({ appointment, patientId, provider, orderId }) {
+    return Payment.create({
+        appointment_id: appointment._id,
+        patient_id: patientId,
+        amount: Number(appointment.amount || 0),
+        status: 'pending',
+        settlement_status: 'unsettled',
+        provider: provider.name,
+        ...provider.toPaymentFields({ orderId }),
+    });
+}
+
+// Marks the order's Payment completed, creating it for orders that were never recorded as pending.
+// Resolves to null when the order was already completed, so only one caller goes on to confirm the appointment.
+async function completeOrderPayment({ appointment, patientId, provider, orderId, paymentId, paymentStatus, signature }) {
+    const fields = {
+        status: 'completed',
+        provider: provider.name,
+        ...provider.toPaymentFields({ orderId, paymentId, paymentStatus, signature }),
+    };
+
+    const payment = await Payment.findOneAndUpdate(
+        { appointment_id: appointment._id, [provider.orderIdField]: orderId, status: { $in: ['pending', 'failed'] } },
+        { $set: fields },
+        { new: true }
+    );
+    if (payment) {
+        return payment;
+    }
+
+    try {
+        return await Payment.create({
+            appointment_id: appointment._id,
+            patient_id: patientId,
+            amount: Number(appointment.amount || 0),
+            settlement_status: 'unsettled',
+            ...fields,
+        });
+    } catch (error) {
+        // The order id is unique, so the order is already recorded as completed
+        if (error?.code === 11000) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// Issues the payment's invoice and attaches it to the confirmation email; an appointment that was confirmed
+// before it was paid for gets the invoice on its own. Best effort, like the emails.
+async function sendPaymentConfirmation(appointment, payment, { wasConfirmed }) {
+    let issuedInvoice = null;
+    try {
+        issuedInvoice = await issueInvoiceForPayment(payment, appointment);
+    } catch (error) {
+        console.error('Failed to issue invoice', error);
+    }
+
+    if (!wasConfirmed) {
+        await sendAppointmentConfirmation(appointment, { issuedInvoice });
+    } else if (issuedInvoice) {
+        await sendInvoiceEmail(issuedInvoice);
+    }
+}
+
+// Confirms the appointment of a completed payment (unlocking chat and video for emergencies), emails the
+// confirmation with the invoice, and tells the patient the payment was received
+async function confirmPaidAppointment(appointment, patientId, payment, { paymentMethod = 'online' } = {}) {
+    const wasConfirmed = appointment.status === 'confirmed';
+    appointment.payment_status = 'paid';
+    transitionAppointment(appointment, 'confirmed', { role: 'system', userId: patientId, reason: 'Payment received' });
+
+    if (appointment.appointment_type === 'emergency') {
+        appointment.chat_unlocked = true;
+        appointment.video_unlocked = isVideoConsultation(appointment);
+    }
+
+    await appointment.save();
+    await sendPaymentConfirmation(appointment, payment, { wasConfirmed });
+
+    try {
+        const Notification = require('../models/Notification');
+        const patient = await User.findById(patientId).select('timezone');
+        const patientView = formatAppointmentForViewer(appointment, patient?.timezone);
+        await Notification.create({
+            user_id: appointment.patient_id,
+            type: 'appointment_confirmed',
+            message: `Payment received. Your appointment on ${patientView.date} at ${patientView.time} is confirmed.`,
+            data: {
+                appointment_id: appointment._id,
+                payment_method: paymentMethod,
+                payment_status: appointment.payment_status,
+            },
+        });
+    } catch (notifyErr) {
+        console.error('Failed to create payment confirmation notification', notifyErr);
+    }
+}
+
+// Marks the provider's order as paid and confirms the appointment. Safe to call again for the same order
+// (the browser verify call and the webhook both do): only the call that completes the payment goes on to confirm,
+// a repeat returns { alreadyRecorded: true } without notifying again.
+async function confirmAppointmentPayment({ appointment, patientId, provider, orderId, paymentId, paymentStatus, signature }) {
+    // A payment arriving after the appointment was cancelled must not bring it back
+    assertTransition(appointment, 'confirmed', 'system');
+
+    const completed = await completeOrderPayment({ appointment, patientId, provider, orderId, paymentId, paymentStatus, signature });
+    if (!completed) {
+        return { alreadyRecorded: true };
+    }
+
+    await confirmPaidAppointment(appointment, patientId, completed);
+    return { alreadyRecorded: false };
+}
+
+// Marks the appointment's open gateway orders failed: all of them, or only `orderId` when a provider is given
+async function failOrderPayments(appointmentId, { provider, orderId } = {}) {
+    const filter = { appointment_id: appointmentId, status: 'pending', provider: { $ne: null } };
+    if (provider && orderId) {
+        filter[provider.orderIdField] = orderId;
+    }
+    await Payment.updateMany(filter, { $set: { status: 'failed' } });
+}
+
+module.exports = {
+    buildPaymentOrderId,
+    getAppointmentIdFromOrderId,
+    recordPendingOrder,
+    completeOrderPayment,
+    sendPaymentConfirmation,
+    confirmPaidAppointment,
+    confirmAppointmentPayment,
+    failOrderPayments,
+};
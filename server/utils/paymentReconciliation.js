@@ -0,0 +1,279 @@
+// Payment reconciliation utilities:
+// Compares gateway payments with what their provider actually captured and fixes the mismatches that have a
+// safe answer: captured money is recorded (and confirms the appointment, or is refunded when the slot is gone),
+// payments the gateway reports as not captured in two runs in a row are failed before the visit. Anything else is
+// left in the report for an admin. Each run is saved as a ReconciliationReport (see the model for the issues and actions).
+const Appointment = require('../models/Appointment');
+const Payment = require('../models/Payment');
+const ReconciliationReport = require('../models/ReconciliationReport');
+const { getProviderErrorResponse, getProviderForPayment } = require('../services/paymentProviders');
+const { canTransition, transitionAppointment } = require('./appointmentStatus');
+const { completeOrderPayment, confirmPaidAppointment } = require('./paymentOrders');
+const { refundPayment } = require('./refunds');
+const { releaseSlotToWaitlist } = require('./waitlist');
+
+// Completed and failed payments are checked again for this long; pending ones until they are settled
+const RECONCILE_LOOKBACK_HOURS = 48;
+
+const RECORDED_PAID_STATUSES = ['completed', 'refunded'];
+
+let activeRun = null;
+
+function isSameAmount(a, b) {
+    return Math.abs(Number(a || 0) - Number(b || 0)) <= 0.01;
+}
+
+// Gateway payments that are still open or changed recently. Payments recorded before the provider was
+// stored are all Cashfree checkouts.
+function findPaymentsToReconcile(now) {
+    const since = new Date(now.getTime() - RECONCILE_LOOKBACK_HOURS * 60 * 60 * 1000);
+    return Payment.find({
+        $and: [
+            { $or: [{ provider: { $ne: null } }, { cashfree_order_id: { $exists: true, $ne: null } }] },
+            { $or: [{ status: 'pending' }, { status: { $in: ['completed', 'failed', 'refunded'] }, updatedAt: { $gte: since } }] },
+        ],
+    }).sort({ createdAt: 1 });
+}
+
+// A captured payment can confirm the appointment only if nothing else paid for it and it has not moved on
+function canConfirmWithPayment(appointment) {
+    return ['pending', 'failed'].includes(appointment.payment_status)
+        && (appointment.status === 'confirmed' || canTransition(appointment.status, 'confirmed', 'system'));
+}
+
+function isUpcoming(appointment, now) {
+    return ['pending', 'confirmed'].includes(appointment.status)
+        && appointment.start_at && new Date(appointment.start_at) > now;
+}
+
+async function notifyPaymentNotCaptured(appointment) {
+    try {
+        const Notification = require('../models/Notification');
+        await Notification.create({
+            user_id: appointment.patient_id,
+            type: 'payment_failed',
+            message: 'Your payment was not received by the payment gateway, so your appointment has been cancelled. No money was taken; please book again.',
+            data: {
+                appointment_id: appointment._id,
+                payment_status: appointment.payment_status,
+            },
+        });
+    } catch (notifyErr) {
+        console.error('Failed to notify uncaptured payment', notifyErr);
+    }
+}
+
+// The gateway captured money we have as pending or failed
+async function recordCapturedPayment({ payment, appointment, provider, orderId, gateway, entry }) {
+    const completed = await completeOrderPayment({
+        appointment,
+        patientId: payment.patient_id,
+        provider,
+        orderId,
+        paymentId: gateway.paymentId,
+        paymentStatus: gateway.paymentStatus,
+    });
+    if (!completed) {
+        // Completed by the browser or a webhook while the job was running
+        return null;
+    }
+
+    if (canConfirmWithPayment(appointment)) {
+        await confirmPaidAppointment(appointment, payment.patient_id, completed);
+        return { ...entry, action: 'confirmed', status_after: completed.status, message: 'Payment recorded and appointment confirmed' };
+    }
+
+    // Cancelled or already paid for: the patient gets the money back
+    try {
+        const refund = await refundPayment(completed, {
+            reason: 'Payment captured for an appointment that was no longer awaiting payment',
+            source: 'reconciliation',
+        });
+        return { ...entry, action: 'refunded', status_after: completed.status, message: `Refund of ₹${refund.amount} ${refund.status}` };
+    } catch (error) {
+        return { ...entry, action: 'marked_completed', status_after: 'completed', message: `Payment recorded; refund failed: ${error.message}` };
+    }
+}
+
+// Our payment is completed but the gateway has no captured payment for the order. A single gateway answer
+// does not cancel a paid booking: the payment is only failed when the previous run reported the same.
+async function failUncapturedPayment({ payment, appointment, entry, now, previouslyUncaptured }) {
+    if (Number(payment.refunded_amount || 0) > 0 || payment.settlement_status === 'settled' || !isUpcoming(appointment, now)) {
+        return { ...entry, action: 'needs_review', message: 'Already refunded, settled or past; not changed automatically' };
+    }
+    if (!previouslyUncaptured.has(String(payment._id))) {
+        return { ...entry, action: 'needs_review', message: 'Not captured by the gateway; failed on the next run if that does not change' };
+    }
+
+    payment.status = 'failed';
+    await payment.save();
+
+    transitionAppointment(appointment, 'cancelled', { role: 'system', reason: 'Payment was not captured by the gateway' });
+    appointment.payment_status = 'failed';
+    appointment.notes = `${appointment.notes || ''} Cancelled by payment reconciliation: payment not captured.`.trim();
+    await appointment.save();
+    await releaseSlotToWaitlist(appointment);
+    await notifyPaymentNotCaptured(appointment);
+
+    return { ...entry, action: 'marked_failed', status_after: 'failed', message: 'Payment failed and appointment cancelled' };
+}
+
+// Compares one payment with its gateway. Resolves to a report entry, or null when everything matches.
+async function reconcilePayment(payment, now, { previouslyUncaptured = new Set() } = {}) {
+    const provider = getProviderForPayment(payment);
+    const orderId = provider ? payment[provider.orderIdField] : null;
+    const entry = {
+        payment_id: payment._id,
+        appointment_id: payment.appointment_id,
+        provider: provider?.name || payment.provider || null,
+        order_id: orderId,
+        amount: Number(payment.amount || 0),
+        status_before: payment.status,
+        status_after: payment.status,
+    };
+
+    if (!provider || !orderId) {
+        return { ...entry, issue: 'check_failed', action: 'needs_review', message: 'No gateway order recorded for this payment' };
+    }
+
+    let gateway;
+    try {
+        gateway = await provider.getOrderStatus(orderId);
+    } catch (error) {
+        const { message } = getProviderErrorResponse(error, `${provider.label} order status could not be fetched`);
+        return { ...entry, issue: 'check_failed', action: 'needs_review', message };
+    }
+
+    const captured = Boolean(gateway?.paid);
+    const recordedPaid = RECORDED_PAID_STATUSES.includes(payment.status);
+    entry.gateway_status = gateway ? gateway.paymentStatus : 'NOT_FOUND';
+    entry.gateway_amount = gateway?.amount ?? null;
+
+    const appointment = await Appointment.findById(payment.appointment_id);
+    if (!appointment) {
+        return captured === recordedPaid
+            ? null
+            : { ...entry, issue: captured ? 'captured_not_recorded' : 'recorded_not_captured', action: 'needs_review', message: 'Appointment not found' };
+    }
+
+    if (captured && gateway.amount !== null && gateway.amount !== undefined && !isSameAmount(gateway.amount, payment.amount)) {
+        return { ...entry, issue: 'amount_mismatch', action: 'needs_review', message: `Gateway captured ₹${gateway.amount}, payment is ₹${payment.amount}` };
+    }
+
+    if (captured && recordedPaid) {
+        if (payment.status !== 'completed' || !canConfirmWithPayment(appointment)) {
+            return null;
+        }
+        await confirmPaidAppointment(appointment, payment.patient_id, payment);
+        return { ...entry, issue: 'appointment_not_paid', action: 'confirmed', message: 'Appointment confirmed for a recorded payment' };
+    }
+
+    if (captured) {
+        return recordCapturedPayment({ payment, appointment, provider, orderId, gateway, entry: { ...entry, issue: 'captured_not_recorded' } });
+    }
+
+    if (recordedPaid) {
+        if (!gateway) {
+            // Likely credentials for another gateway account; cancelling on that basis would be wrong
+            return { ...entry, issue: 'recorded_not_captured', action: 'needs_review', message: `${provider.label} does not know this order` };
+        }
+        return failUncapturedPayment({ payment, appointment, entry: { ...entry, issue: 'recorded_not_captured' }, now, previouslyUncaptured });
+    }
+
+    // Not captured and not recorded as paid: fine while the checkout can still finish
+    const awaitingPayment = appointment.status === 'pending' && appointment.payment_status === 'pending';
+    if (payment.status !== 'pending' || awaitingPayment) {
+        return null;
+    }
+    payment.status = 'failed';
+    await payment.save();
+    return { ...entry, issue: 'abandoned', action: 'marked_failed', status_after: 'failed', message: 'Checkout was never completed' };
+}
+
+// Payments the last finished run found recorded as paid but not captured
+async function findPreviouslyUncaptured() {
+    const previous = await ReconciliationReport.findOne({ finished_at: { $ne: null } }).sort({ started_at: -1 });
+    const entries = (previous?.entries || []).filter((entry) => entry.issue === 'recorded_not_captured');
+    return new Set(entries.map((entry) => String(entry.payment_id)));
+}
+
+async function runReconciliation({ trigger, triggeredBy }) {
+    const now = new Date();
+    const previouslyUncaptured = await findPreviouslyUncaptured();
+    const report = await ReconciliationReport.create({ trigger, triggered_by: triggeredBy, started_at: now });
+
+    const payments = await findPaymentsToReconcile(now);
+    for (const payment of payments) {
+        let entry;
+        try {
+            entry = await reconcilePayment(payment, now, { previouslyUncaptured });
+        } catch (error) {
+            console.error(`[Reconciliation] payment ${payment._id} failed`, error);
+            entry = {
+                payment_id: payment._id,
+                appointment_id: payment.appointment_id,
+                provider: payment.provider || null,
+                amount: Number(payment.amount || 0),
+                status_before: payment.status,
+                issue: 'check_failed',
+                action: 'needs_review',
+                message: error.message,
+            };
+        }
+
+        report.checked_count += 1;
+        if (!entry) {
+            report.matched_count += 1;
+            continue;
+        }
+        report.entries.push(entry);
+        if (entry.action === 'needs_review') {
+            report.review_count += 1;
+        } else {
+            report.fixed_count += 1;
+        }
+    }
+
+    report.finished_at = new Date();
+    await report.save();
+    return report;
+}
+
+// Runs one reconciliation and saves its report. A run already in progress is joined rather than started twice.
+async function reconcilePayments({ trigger = 'scheduled', triggeredBy = null } = {}) {
+    if (!activeRun) {
+        activeRun = runReconciliation({ trigger, triggeredBy }).finally(() => {
+            activeRun = null;
+        });
+    }
+    return activeRun;
+}
+
+const CSV_COLUMNS = [
+    'payment_id',
+    'appointment_id',
+    'provider',
+    'order_id',
+    'amount',
+    'issue',
+    'action',
+    'status_before',
+    'status_after',
+    'gateway_status',
+    'gateway_amount',
+    'message',
+];
+
+// The report's entries as CSV, one row per mismatched payment. Cells that a spreadsheet would read as a
+// formula (gateway messages are not ours) are prefixed with ' so they stay text.
+function buildReconciliationCsv(report) {
+    const escape = (value) => {
+        const text = String(value ?? '');
+        const safeText = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+        return `"${safeText.replace(/"/g, '""')}"`;
+    };
+    const rows = report.entries.map((entry) => CSV_COLUMNS.map((column) => escape(entry[column])).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+module.exports = { RECONCILE_LOOKBACK_HOURS, reconcilePayments, buildReconciliationCsv };
@@ -0,0 +1,155 @@
+// Minimal PDF writer:
+// Builds single-page A4 documents from text, lines and filled boxes using the standard Helvetica fonts,
+// which every PDF reader has, so nothing needs to be embedded. Coordinates are in points from the
+// top-left corner. Text is written as WinAnsi: the rupee sign becomes "Rs." and other characters
+// outside Latin-1 become "?".
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+const FONTS = {
+    regular: { resource: 'F1', baseFont: 'Helvetica' },
+    bold: { resource: 'F2', baseFont: 'Helvetica-Bold' },
+};
+
+// Helvetica advance widths (per 1000 units of font size) for the characters amounts and labels use most;
+// anything else is estimated, which is close enough for right-aligning and wrapping
+const CHAR_WIDTHS = {
+    ' ': 278, '.': 278, ',': 278, '-': 333, '/': 278, ':': 278, '(': 333, ')': 333, '%': 889,
+    0: 556, 1: 556, 2: 556, 3: 556, 4: 556, 5: 556, 6: 556, 7: 556, 8: 556, 9: 556,
+    i: 222, j: 222, l: 222, f: 278, t: 278, r: 333, I: 278, m: 833, w: 722, M: 833, W: 944,
+};
+const DEFAULT_CHAR_WIDTH = 556;
+
+function toWinAnsi(value) {
+    return String(value ?? '')
+        .replace(/₹\s?/g, 'Rs. ')
+        .replace(/[‘’]/g, "'")
+        .replace(/[“”]/g, '"')
+        .replace(/[–—]/g, '-')
+        .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapePdfString(value) {
+    return value.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function formatNumber(value) {
+    return Number(Number(value).toFixed(2)).toString();
+}
+
+function measureText(text, size) {
+    let units = 0;
+    for (const char of toWinAnsi(text)) {
+        units += CHAR_WIDTHS[char] ?? DEFAULT_CHAR_WIDTH;
+    }
+    return (units * size) / 1000;
+}
+
+// Splits text into lines no wider than maxWidth, breaking between words
+function wrapText(text, size, maxWidth) {
+    const lines = [];
+    for (const paragraph of String(text ?? '').split('\n')) {
+        let line = '';
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            const candidate = line ? `${line} ${word}` : word;
+            if (line && measureText(candidate, size) > maxWidth) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = candidate;
+            }
+        }
+        lines.push(line);
+    }
+    return lines;
+}
+
+function formatPdfDate(date) {
+    const pad = (value) => String(value).padStart(2, '0');
+    const d = new Date(date);
+    return `D:${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+
+// Returns a page to draw on; toBuffer() writes the finished document. The same drawing calls and
+// createdAt always produce the same bytes, so stored documents can be rendered again on download.
+function createPdfPage({ title = '', createdAt = new Date() } = {}) {
+    const operations = [];
+
+    function text(x, y, value, { size = 10, bold = false, align = 'left' } = {}) {
+        const font = bold ? FONTS.bold : FONTS.regular;
+        const encoded = toWinAnsi(value);
+        let left = x;
+        if (align === 'right') {
+            left = x - measureText(encoded, size);
+        } else if (align === 'center') {
+            left = x - measureText(encoded, size) / 2;
+        }
+        operations.push(`BT /${font.resource} ${formatNumber(size)} Tf ${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${escapePdfString(encoded)}) Tj ET`);
+    }
+
+    // Writes wrapped text and returns the y below its last line
+    function paragraph(x, y, value, { size = 10, bold = false, width = PAGE_WIDTH - x - 40, lineHeight = size * 1.35 } = {}) {
+        let lineY = y;
+        for (const line of wrapText(value, size, width)) {
+            text(x, lineY, line, { size, bold });
+            lineY += lineHeight;
+        }
+        return lineY;
+    }
+
+    function line(x1, y1, x2, y2, { width = 0.5 } = {}) {
+        operations.push(`${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`);
+    }
+
+    // Filled rectangle; gray runs from 0 (black) to 1 (white)
+    function box(x, y, width, height, { gray = 0.93 } = {}) {
+        operations.push(`${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f 0 g`);
+    }
+
+    function toBuffer() {
+        const content = Buffer.from(operations.join('\n'), 'latin1');
+        const objects = [
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>`,
+            `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.regular.baseFont} /Encoding /WinAnsiEncoding >>`,
+            `<< /Type /Font /Subtype /Type1 /BaseFont /${FONTS.bold.baseFont} /Encoding /WinAnsiEncoding >>`,
+            Buffer.concat([Buffer.from(`<< /Length ${content.length} >>\nstream\n`), content, Buffer.from('\nendstream')]),
+            `<< /Title (${escapePdfString(toWinAnsi(title))}) /Producer (MediConnect) /CreationDate (${formatPdfDate(createdAt)}) >>`,
+        ];
+
+        const chunks = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+        let offset = chunks[0].length;
+        const offsets = [];
+        objects.forEach((body, index) => {
+            const chunk = Buffer.concat([
+                Buffer.from(`${index + 1} 0 obj\n`),
+                Buffer.isBuffer(body) ? body : Buffer.from(body, 'latin1'),
+                Buffer.from('\nendobj\n'),
+            ]);
+            offsets.push(offset);
+            offset += chunk.length;
+            chunks.push(chunk);
+        });
+
+        const xref = [
+            'xref',
+            `0 ${objects.length + 1}`,
+            '0000000000 65535 f ',
+            ...offsets.map((value) => `${String(value).padStart(10, '0')} 00000 n `),
+            'trailer',
+            `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>`,
+            'startxref',
+            String(offset),
+            '%%EOF',
+            '',
+        ].join('\n');
+        chunks.push(Buffer.from(xref, 'latin1'));
+        return Buffer.concat(chunks);
+    }
+
+    return { text, paragraph, line, box, toBuffer };
+}
+
+module.exports = { PAGE_WIDTH, PAGE_HEIGHT, createPdfPage, measureText, wrapText };
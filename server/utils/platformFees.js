@@ -0,0 +1,10 @@
+// Platform fee utilities:
+// Reads the admin-configured platform fee added on top of every doctor fee.
+const PlatformSettings = require('../models/PlatformSettings');
+
+async function getCurrentPlatformFee() {
+    const settings = await PlatformSettings.findOne({ key: 'global' });
+    return Number(settings?.platform_fee || 0);
+}
+
+module.exports = { getCurrentPlatformFee };
@@ -0,0 +1,378 @@
+// Refund utilities:
+// Splits a refund between the doctor's fee and the platform fee, records it as a Refund, sends it through the
+// payment provider the payment was made with, and keeps the payment's refunded totals (which doctor earnings and
+// settlements subtract) up to date. A refund counts against the totals from the moment it is initiated and is
+// taken back out of them if the gateway reports it failed. Refunds of a doctor share that was already settled are
+// clawed back from the doctor's next settlement (routes/payments.js).
+// A refund keeps its gateway refund id across retries, so the gateway refunds it at most once; it only gets a new
+// id once the gateway has reported the refund under the old one failed.
+const Appointment = require('../models/Appointment');
+const Payment = require('../models/Payment');
+const Refund = require('../models/Refund');
+const { getProviderForPayment } = require('../services/paymentProviders');
+const { formatAppointmentForViewer } = require('./timezones');
+
+// Initiated refunds are checked with the gateway once they are this old
+const REFUND_CHECK_AFTER_MINUTES = 15;
+
+function roundAmount(value) {
+    return Math.round(Number(value || 0) * 100) / 100;
+}
+
+// The part of the payment that was the doctor's, using the same fallbacks as the earnings report
+function getDoctorShare(appointment, payment) {
+    const paymentAmount = Number(payment.amount || 0);
+    const doctorFee = Number(appointment.doctor_fee);
+    if (Number.isFinite(doctorFee) && doctorFee > 0) {
+        return Math.min(doctorFee, paymentAmount);
+    }
+    return Math.max(0, paymentAmount - Number(appointment.platform_fee || 0));
+}
+
+function getRefundableAmount(payment) {
+    return roundAmount(Math.max(0, Number(payment.amount || 0) - Number(payment.refunded_amount || 0)));
+}
+
+function getRemainingDoctorShare(appointment, payment) {
+    return Math.max(0, getDoctorShare(appointment, payment) - Number(payment.refunded_doctor_amount || 0));
+}
+
+// What refunding `refundPercent` of the payment returns. A full refund also returns the platform fee;
+// a partial one is a share of the doctor's fee only. Earlier refunds of the same payment are taken into account.
+function getRefundSplit(appointment, payment, refundPercent) {
+    const remaining = getRefundableAmount(payment);
+    const remainingDoctorShare = getRemainingDoctorShare(appointment, payment);
+
+    if (refundPercent >= 100) {
+        const doctorAmount = Math.min(remainingDoctorShare, remaining);
+        return {
+            amount: roundAmount(remaining),
+            doctor_amount: roundAmount(doctorAmount),
+            platform_amount: roundAmount(remaining - doctorAmount),
+        };
+    }
+
+    const doctorAmount = Math.min(remainingDoctorShare, getDoctorShare(appointment, payment) * refundPercent / 100);
+    return {
+        amount: roundAmount(doctorAmount),
+        doctor_amount: roundAmount(doctorAmount),
+        platform_amount: 0,
+    };
+}
+
+// A refund of a fixed amount (admin refunds) comes out of the doctor's fee first, then the platform fee
+function getRefundSplitForAmount(appointment, payment, amount) {
+    const refundAmount = roundAmount(Math.min(Number(amount || 0), getRefundableAmount(payment)));
+    const doctorAmount = Math.min(getRemainingDoctorShare(appointment, payment), refundAmount);
+    return {
+        amount: refundAmount,
+        doctor_amount: roundAmount(doctorAmount),
+        platform_amount: roundAmount(refundAmount - doctorAmount),
+    };
+}
+
+// payment_status of an appointment from its payments' refunded totals
+function getAppointmentPaymentStatus(payments) {
+    if (payments.length > 0 && payments.every((payment) => payment.status === 'refunded')) {
+        return 'refunded';
+    }
+    return payments.some((payment) => Number(payment.refunded_amount || 0) > 0) ? 'partially_refunded' : 'paid';
+}
+
+function applyToPaymentTotals(payment, refund, direction) {
+    payment.refunded_amount = roundAmount(Math.max(0, Number(payment.refunded_amount || 0) + direction * refund.amount));
+    payment.refunded_doctor_amount = roundAmount(Math.max(0, Number(payment.refunded_doctor_amount || 0) + direction * refund.doctor_amount));
+    if (direction > 0) {
+        payment.refunded_at = new Date();
+        payment.refund_reason = refund.reason;
+    }
+    payment.status = payment.refunded_amount >= Number(payment.amount || 0) ? 'refunded' : 'completed';
+}
+
+async function notifyRefund(refund, appointment) {
+    try {
+        const Notification = require('../models/Notification');
+        const User = require('../models/User');
+        const patient = await User.findById(refund.patient_id).select('timezone');
+        const view = appointment?.start_at ? formatAppointmentForViewer(appointment, patient?.timezone) : null;
+        const forAppointment = view ? ` for your appointment on ${view.date} at ${view.time}` : '';
+
+        let type;
+        let message;
+        if (refund.status === 'processed') {
+            type = 'refund_processed';
+            message = `Your refund of ₹${refund.amount}${forAppointment} has been processed.`
+                + (refund.gateway !== 'none' ? ' It can take 5-7 working days to reach your account.' : '');
+        } else if (refund.status === 'failed') {
+            type = 'refund_failed';
+            message = `Your refund of ₹${refund.amount}${forAppointment} could not be processed. Our team will retry it or contact you.`;
+        } else {
+            type = 'refund_initiated';
+            message = `A refund of ₹${refund.amount}${forAppointment} has been initiated.`;
+        }
+
+        await Notification.create({
+            user_id: refund.patient_id,
+            type,
+            message,
+            data: {
+                appointment_id: refund.appointment_id,
+                refund_id: refund._id,
+                amount: refund.amount,
+                status: refund.status,
+            },
+        });
+    } catch (notifyErr) {
+        console.error('Failed to notify refund', notifyErr);
+    }
+}
+
+// Moves a refund to `status`. A refund that fails is taken back out of the payment's totals (so the doctor's
+// share is earned again) and the appointment's payment_status is recomputed, unless the caller passed the
+// appointment and saves it itself. Notifies the patient of the change.
+async function applyRefundStatus(refund, { status, gatewayStatus, gatewayReferenceId, failureReason } = {}, { appointment = null, payment = null } = {}) {
+    if (gatewayStatus !== undefined) refund.gateway_status = gatewayStatus;
+    if (gatewayReferenceId) refund.gateway_reference_id = gatewayReferenceId;
+    if (!status || refund.status === status) {
+        await refund.save();
+        return refund;
+    }
+    if (refund.status !== 'initiated') {
+        // processed and failed are final; a failed refund is sent again through retryRefund
+        throw new Error(`Refund is already ${refund.status}`);
+    }
+
+    refund.status = status;
+    if (status === 'processed') {
+        refund.processed_at = new Date();
+    }
+    if (status === 'failed') {
+        refund.failure_reason = String(failureReason || 'Refund failed at the payment gateway');
+    }
+    await refund.save();
+
+    const targetAppointment = appointment || await Appointment.findById(refund.appointment_id);
+    if (status === 'failed') {
+        const refundedPayment = payment || await Payment.findById(refund.payment_id);
+        if (refundedPayment) {
+            applyToPaymentTotals(refundedPayment, refund, -1);
+            await refundedPayment.save();
+        }
+        if (targetAppointment && !appointment) {
+            const payments = await Payment.find({ appointment_id: targetAppointment._id, status: { $in: ['completed', 'refunded'] } });
+            targetAppointment.payment_status = getAppointmentPaymentStatus(payments);
+            await targetAppointment.save();
+        }
+    }
+
+    await notifyRefund(refund, targetAppointment);
+    return refund;
+}
+
+// Sends the refund through the provider the payment was made with; any other payment (cash) is recorded as
+// processed, since there is no gateway to return it through. A failure is taken back out of `payment` in place.
+// `newGatewayId` is for a refund the gateway has already failed under its current id.
+async function submitRefund(refund, payment, { appointment = null, newGatewayId = false } = {}) {
+    const provider = getProviderForPayment(payment);
+    if (!provider) {
+        refund.gateway = 'none';
+        return applyRefundStatus(refund, { status: 'processed' }, { appointment, payment });
+    }
+
+    refund.gateway = provider.name;
+    refund.attempts = Number(refund.attempts || 0) + 1;
+    if (!refund.gateway_refund_id || newGatewayId) {
+        refund.gateway_refund_id = `refund_${refund._id}_${refund.attempts}`;
+        refund.gateway_reference_id = null;
+    }
+    await refund.save();
+
+    const result = await provider.createRefund({
+        payment,
+        refundId: refund.gateway_refund_id,
+        amount: refund.amount,
+        note: refund.reason,
+    });
+    if (result.status === 'initiated') {
+        await applyRefundStatus(refund, { gatewayStatus: result.gatewayStatus, gatewayReferenceId: result.gatewayReferenceId });
+        await notifyRefund(refund, appointment || await Appointment.findById(refund.appointment_id));
+        return refund;
+    }
+    return applyRefundStatus(refund, result, { appointment, payment });
+}
+
+// A refund that could not be sent because of an error on our side fails, so an admin can retry it. One that may
+// have reached the gateway stays initiated and is settled by checkInitiatedRefunds.
+async function recordUnsentRefund(refund, payment, error, { appointment, totalsApplied }) {
+    console.error(`Refund ${refund._id} could not be sent`, error);
+    if (refund.gateway !== 'none' && refund.gateway_refund_id && refund.attempts > 0) {
+        return;
+    }
+    try {
+        const failureReason = `Could not be sent: ${error?.message || error}`;
+        if (totalsApplied) {
+            await applyRefundStatus(refund, { status: 'failed', failureReason }, { appointment, payment });
+        } else {
+            applyToPaymentTotals(payment, refund, -1);
+            refund.status = 'failed';
+            refund.failure_reason = failureReason;
+            await refund.save();
+        }
+    } catch (recordErr) {
+        console.error(`Failed to record refund ${refund._id} as failed`, recordErr);
+    }
+}
+
+// Records a refund of `split` against the payment and submits it. Errors sending it are recorded on the
+// refund rather than thrown, since it is usually issued after the appointment change was saved.
+async function issueRefund(appointment, payment, split, { refundPercent, source, reason = '', createdBy = null }) {
+    const refund = await Refund.create({
+        payment_id: payment._id,
+        appointment_id: appointment._id,
+        patient_id: payment.patient_id,
+        doctor_id: appointment.doctor_id,
+        ...split,
+        refund_percent: refundPercent,
+        source,
+        reason: String(reason || '').trim(),
+        created_by: createdBy,
+        status: 'initiated',
+    });
+
+    let totalsApplied = false;
+    try {
+        applyToPaymentTotals(payment, refund, 1);
+        await payment.save();
+        totalsApplied = true;
+
+        await submitRefund(refund, payment, { appointment });
+    } catch (error) {
+        await recordUnsentRefund(refund, payment, error, { appointment, totalsApplied });
+    }
+    return refund;
+}
+
+// Refunds `refundPercent` of every completed payment of the appointment and updates its payment_status.
+// The caller saves the appointment. Returns the Refund records that did not fail (empty when nothing was refunded).
+async function refundAppointmentPayment(appointment, { refundPercent = 100, source, reason = '', createdBy = null } = {}) {
+    const payments = await Payment.find({ appointment_id: appointment._id, status: 'completed' });
+    const refunds = [];
+
+    for (const payment of payments) {
+        const split = getRefundSplit(appointment, payment, refundPercent);
+        if (split.amount <= 0) continue;
+
+        const refund = await issueRefund(appointment, payment, split, { refundPercent, source, reason, createdBy });
+        if (refund.status !== 'failed') {
+            refunds.push(refund);
+        }
+    }
+
+    if (refunds.length > 0) {
+        appointment.payment_status = getAppointmentPaymentStatus(payments);
+    }
+    return refunds;
+}
+
+// Admin: refunds `amount` of one payment, or everything still refundable when no amount is given.
+// Saves the appointment's new payment_status. Returns the Refund record, which may have failed at the gateway.
+async function refundPayment(payment, { amount, reason = '', createdBy = null, source = 'admin' } = {}) {
+    if (payment.status !== 'completed') {
+        throw new Error(payment.status === 'refunded' ? 'This payment has already been refunded in full' : 'Only completed payments can be refunded');
+    }
+    const appointment = await Appointment.findById(payment.appointment_id);
+    if (!appointment) {
+        throw new Error('Appointment not found');
+    }
+
+    const refundable = getRefundableAmount(payment);
+    const fullRefund = amount === undefined || amount === null || amount === '';
+    const requested = fullRefund ? refundable : Number(amount);
+    if (!Number.isFinite(requested) || requested <= 0) {
+        throw new Error('amount must be a positive number');
+    }
+    if (requested > refundable + 1e-9) {
+        throw new Error(`At most ₹${refundable} of this payment can still be refunded`);
+    }
+
+    const split = getRefundSplitForAmount(appointment, payment, requested);
+    const refundPercent = Math.min(100, roundAmount(split.amount / Number(payment.amount) * 100));
+    const refund = await issueRefund(appointment, payment, split, { refundPercent, source, reason, createdBy });
+
+    const payments = await Payment.find({ appointment_id: appointment._id, status: { $in: ['completed', 'refunded'] } });
+    appointment.payment_status = getAppointmentPaymentStatus(payments);
+    await appointment.save();
+    return refund;
+}
+
+// Admin: sends a failed refund again, as long as the payment still has that much left to refund
+async function retryRefund(refund) {
+    if (refund.status !== 'failed') {
+        throw new Error('Only failed refunds can be retried');
+    }
+    const payment = await Payment.findById(refund.payment_id);
+    if (!payment || refund.amount > getRefundableAmount(payment) + 1e-9) {
+        throw new Error('The payment no longer has this amount left to refund');
+    }
+    const appointment = await Appointment.findById(refund.appointment_id);
+    // Only a refund the gateway created and then failed needs a new id; one it refused never existed there
+    const newGatewayId = Boolean(refund.gateway_reference_id);
+
+    refund.status = 'initiated';
+    refund.failure_reason = '';
+    refund.gateway_status = null;
+    applyToPaymentTotals(payment, refund, 1);
+    await payment.save();
+
+    await submitRefund(refund, payment, { appointment, newGatewayId });
+    if (appointment) {
+        const payments = await Payment.find({ appointment_id: appointment._id, status: { $in: ['completed', 'refunded'] } });
+        appointment.payment_status = getAppointmentPaymentStatus(payments);
+        await appointment.save();
+    }
+    return refund;
+}
+
+// Asks the gateway about refunds still initiated after REFUND_CHECK_AFTER_MINUTES, e.g. ones whose request timed
+// out, or whose webhook never arrived. A refund the gateway has no record of failed, and can be retried.
+// Returns how many refunds changed status.
+async function checkInitiatedRefunds(now = new Date()) {
+    const refunds = await Refund.find({
+        status: 'initiated',
+        gateway: { $ne: 'none' },
+        updatedAt: { $lte: new Date(now.getTime() - REFUND_CHECK_AFTER_MINUTES * 60 * 1000) },
+    }).sort({ updatedAt: 1 }).limit(100);
+
+    let changed = 0;
+    for (const refund of refunds) {
+        try {
+            const payment = await Payment.findById(refund.payment_id);
+            const provider = getProviderForPayment(payment);
+            if (!provider) continue;
+
+            // A refund without a gateway id never went out, e.g. the server stopped before sending it
+            const result = refund.gateway_refund_id
+                ? await provider.getRefundStatus({ payment, refundId: refund.gateway_refund_id })
+                : null;
+            await applyRefundStatus(refund, result || {
+                status: 'failed',
+                failureReason: `${provider.label} has no record of this refund`,
+            });
+            if (refund.status !== 'initiated') changed++;
+        } catch (error) {
+            console.error(`Failed to check refund ${refund._id}`, error);
+        }
+    }
+    return changed;
+}
+
+module.exports = {
+    getRefundSplit,
+    getRefundSplitForAmount,
+    getRefundableAmount,
+    refundAppointmentPayment,
+    refundPayment,
+    retryRefund,
+    applyRefundStatus,
+    checkInitiatedRefunds,
+};
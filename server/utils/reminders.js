@@ -0,0 +1,245 @@
+// Appointment reminder utilities:
+// Sends patients and doctors an in-app and email reminder at each configured offset before a confirmed
+// appointment. Every reminder is claimed through a unique AppointmentReminder row first, so restarts and
+// parallel server instances never send the same reminder twice.
+const mongoose = require('mongoose');
+const Appointment = require('../models/Appointment');
+const AppointmentReminder = require('../models/AppointmentReminder');
+const Doctor = require('../models/Doctor');
+const PlatformSettings = require('../models/PlatformSettings');
+const User = require('../models/User');
+const { sendEmail } = require('../services/emailService');
+const { renderEmailWithFallback } = require('./emailTemplates');
+const { formatAppointmentForViewer } = require('./timezones');
+
+const DEFAULT_REMINDER_OFFSETS_MINUTES = [1440, 15];
+
+// A claim left in 'sending' this long (the worker crashed) is taken over by the next run
+const REMINDER_LOCK_MINUTES = 5;
+
+function getFrontendBaseUrl() {
+    return (process.env.FRONTEND_URL || 'http://localhost:8080').split(',')[0].trim();
+}
+
+function formatDoctorName(rawName) {
+    const name = String(rawName || '').trim();
+    if (!name) {
+        return 'your doctor';
+    }
+    return /^dr\.?\s/i.test(name) ? name : `Dr. ${name}`;
+}
+
+// 1440 -> "24 hours", 90 -> "1 hour 30 minutes"
+function describeOffset(minutes) {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    const parts = [];
+    if (hours > 0) parts.push(`${hours} hour${hours === 1 ? '' : 's'}`);
+    if (rest > 0) parts.push(`${rest} minute${rest === 1 ? '' : 's'}`);
+    return parts.join(' ') || 'a moment';
+}
+
+function normalizeReminderOffsets(offsets) {
+    return [...new Set((offsets || []).map(Number).filter((offset) => Number.isInteger(offset) && offset > 0))]
+        .sort((a, b) => b - a);
+}
+
+async function getReminderOffsets() {
+    const settings = await PlatformSettings.findOne({ key: 'global' });
+    if (!settings || !Array.isArray(settings.reminder_offsets_minutes)) {
+        return DEFAULT_REMINDER_OFFSETS_MINUTES;
+    }
+    return normalizeReminderOffsets(settings.reminder_offsets_minutes);
+}
+
+// Inserts the reminder row. Returns null when another run or instance already claimed it.
+async function claimReminder({ appointment, userId, offset, status = 'sending' }) {
+    try {
+        return await AppointmentReminder.create({
+            appointment_id: appointment._id,
+            user_id: userId,
+            offset_minutes: offset,
+            start_at: appointment.start_at,
+            status,
+            locked_until: status === 'sending' ? new Date(Date.now() + REMINDER_LOCK_MINUTES * 60 * 1000) : null,
+            // Fixed up front so a retried claim cannot create a second notification
+            notification_id: status === 'sending' ? new mongoose.Types.ObjectId() : null,
+            email_status: status === 'sending' ? 'pending' : 'not_sent',
+        });
+    } catch (error) {
+        if (error?.code === 11000) {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// Delivers whatever part of the reminder has not gone out yet, then marks it sent.
+async function deliverReminder(reminder, appointment) {
+    const user = await User.findById(reminder.user_id).select('full_name email locale timezone role notification_preferences');
+    if (!user || user.notification_preferences?.appointments === false) {
+        reminder.status = 'skipped';
+        reminder.email_status = 'not_sent';
+        reminder.locked_until = null;
+        await reminder.save();
+        return false;
+    }
+
+    const isDoctor = String(appointment.patient_id) !== String(user._id);
+    let counterpartName;
+    if (isDoctor) {
+        const patient = await User.findById(appointment.patient_id).select('full_name');
+        counterpartName = patient?.full_name || 'your patient';
+    } else {
+        const doctor = await Doctor.findById(appointment.doctor_id).populate('user_id', 'full_name');
+        counterpartName = formatDoctorName(doctor?.user_id?.full_name);
+    }
+
+    const view = formatAppointmentForViewer(appointment, user.timezone);
+    const relative = describeOffset(reminder.offset_minutes);
+    const path = isDoctor ? '/doctor-dashboard' : '/appointments';
+    const message = `Reminder: your appointment with ${counterpartName} starts in ${relative} (${view.date} at ${view.time}).`;
+
+    try {
+        const Notification = require('../models/Notification');
+        await Notification.create({
+            _id: reminder.notification_id,
+            user_id: user._id,
+            type: 'appointment_reminder',
+            message,
+            data: { appointment_id: appointment._id, offset_minutes: reminder.offset_minutes, url: path },
+        });
+    } catch (notifyErr) {
+        // Already created by the run that crashed before marking the reminder sent
+        if (notifyErr?.code !== 11000) {
+            console.error('Failed to create appointment_reminder notification', notifyErr);
+        }
+    }
+
+    // A retry that finds the email mid-send cannot tell whether it went out, so it is not sent again
+    if (reminder.email_status === 'sending') {
+        reminder.email_status = 'failed';
+    } else if (reminder.email_status === 'pending') {
+        if (user.email && user.notification_preferences?.email !== false) {
+            reminder.email_status = 'sending';
+            await reminder.save();
+
+            const resolved = renderEmailWithFallback({
+                locale: user.locale || 'en',
+                templateName: isDoctor ? 'appointment_reminder_doctor' : 'appointment_reminder',
+                context: {
+                    name: user.full_name || 'there',
+                    counterpart: counterpartName,
+                    relative,
+                    date: view.date,
+                    time: view.time,
+                    link: `${getFrontendBaseUrl()}${path}`,
+                },
+            });
+            const delivered = await sendEmail({
+                to: user.email,
+                subject: `Appointment reminder - ${view.date} ${view.time}`,
+                text: resolved.text,
+                html: resolved.html,
+            });
+            reminder.email_status = delivered ? 'sent' : 'failed';
+        } else {
+            reminder.email_status = 'not_sent';
+        }
+    }
+
+    reminder.status = 'sent';
+    reminder.sent_at = new Date();
+    reminder.locked_until = null;
+    await reminder.save();
+    return true;
+}
+
+// Takes over claims whose worker stopped before finishing and completes them.
+async function resumeStalledReminders(now) {
+    let resumed = 0;
+    const stalled = await AppointmentReminder.find({ status: 'sending', locked_until: { $lt: now } });
+
+    for (const candidate of stalled) {
+        const reminder = await AppointmentReminder.findOneAndUpdate(
+            { _id: candidate._id, status: 'sending', locked_until: { $lt: now } },
+            { $set: { locked_until: new Date(now.getTime() + REMINDER_LOCK_MINUTES * 60 * 1000) } },
+            { new: true }
+        );
+        if (!reminder) continue;
+
+        const appointment = await Appointment.findById(reminder.appointment_id);
+        const stillUpcoming = appointment
+            && appointment.status === 'confirmed'
+            && appointment.start_at?.getTime() === reminder.start_at.getTime()
+            && appointment.start_at.getTime() > now.getTime();
+        if (!stillUpcoming) {
+            reminder.status = 'skipped';
+            reminder.locked_until = null;
+            await reminder.save();
+            continue;
+        }
+
+        if (await deliverReminder(reminder, appointment)) {
+            resumed++;
+        }
+    }
+
+    return resumed;
+}
+
+// Sends every reminder that has come due. When several offsets are due at once (a late booking),
+// only the closest one is sent and the earlier ones are recorded as skipped.
+// Returns the number of reminders delivered.
+async function sendDueReminders(now = new Date()) {
+    let sent = await resumeStalledReminders(now);
+
+    const offsets = await getReminderOffsets();
+    if (offsets.length === 0) {
+        return sent;
+    }
+
+    const appointments = await Appointment.find({
+        status: 'confirmed',
+        start_at: { $gt: now, $lte: new Date(now.getTime() + Math.max(...offsets) * 60 * 1000) },
+    });
+
+    for (const appointment of appointments) {
+        const due = offsets.filter((offset) => appointment.start_at.getTime() - offset * 60 * 1000 <= now.getTime());
+        if (due.length === 0) continue;
+        const closest = Math.min(...due);
+
+        const doctor = await Doctor.findById(appointment.doctor_id).select('user_id');
+        const recipients = [appointment.patient_id, doctor?.user_id].filter(Boolean);
+
+        for (const userId of recipients) {
+            for (const offset of due) {
+                if (offset !== closest) {
+                    await claimReminder({ appointment, userId, offset, status: 'skipped' });
+                    continue;
+                }
+
+                const reminder = await claimReminder({ appointment, userId, offset });
+                if (!reminder) continue;
+
+                try {
+                    if (await deliverReminder(reminder, appointment)) {
+                        sent++;
+                    }
+                } catch (error) {
+                    // The claim stays locked and is resumed by a later run
+                    console.error(`[Reminders] Failed to send reminder ${reminder._id}`, error);
+                }
+            }
+        }
+    }
+
+    return sent;
+}
+
+module.exports = {
+    DEFAULT_REMINDER_OFFSETS_MINUTES,
+    normalizeReminderOffsets,
+    getReminderOffsets,
+    sendDueReminders,
+};
@@ -0,0 +1,117 @@
+// Timezone utilities:
+// Converts a doctor's local appointment date/time to an absolute instant and renders
+// instants back in a viewer's IANA timezone (no external date library needed).
+
+// Default for doctors and appointments created before timezones were stored.
+const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+function isValidTimezone(timezone) {
+    if (!timezone || typeof timezone !== 'string') {
+        return false;
+    }
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+function resolveTimezone(...candidates) {
+    return candidates.find((tz) => isValidTimezone(tz)) || DEFAULT_TIMEZONE;
+}
+
+// Wall-clock parts of an instant in the given zone.
+function getZonedParts(instant, timezone) {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+    }).formatToParts(instant);
+    const get = (type) => Number(parts.find((p) => p.type === type)?.value);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second'),
+    };
+}
+
+// Minutes the zone is ahead of UTC at that instant (e.g. 330 for Asia/Kolkata).
+function getTimezoneOffsetMinutes(instant, timezone) {
+    const p = getZonedParts(instant, timezone);
+    const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+    return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / 60000);
+}
+
+// Absolute instant of a YYYY-MM-DD + HH:MM wall-clock time in the given zone.
+// Re-checks the offset once so times next to a DST change resolve correctly.
+function zonedTimeToUtc(date, time, timezone = DEFAULT_TIMEZONE) {
+    const [year, month, day] = String(date || '').split('-').map(Number);
+    const [hour, minute] = String(time || '').split(':').map(Number);
+    const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+    if (Number.isNaN(wallClockAsUtc)) {
+        return new Date(NaN);
+    }
+
+    const zone = resolveTimezone(timezone);
+    let offset = getTimezoneOffsetMinutes(new Date(wallClockAsUtc), zone);
+    let instant = wallClockAsUtc - offset * 60000;
+    const correctedOffset = getTimezoneOffsetMinutes(new Date(instant), zone);
+    if (correctedOffset !== offset) {
+        offset = correctedOffset;
+        instant = wallClockAsUtc - offset * 60000;
+    }
+    return new Date(instant);
+}
+
+// Today's date (YYYY-MM-DD) in the given zone.
+function getTodayInTimezone(timezone = DEFAULT_TIMEZONE) {
+    const p = getZonedParts(new Date(), resolveTimezone(timezone));
+    return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+// { date: 'YYYY-MM-DD', time: 'HH:MM', zone: 'IST' } for an instant in the viewer's zone.
+function formatInTimezone(instant, timezone = DEFAULT_TIMEZONE) {
+    const zone = resolveTimezone(timezone);
+    const p = getZonedParts(instant, zone);
+    const zoneName = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+        .formatToParts(instant)
+        .find((part) => part.type === 'timeZoneName')?.value || zone;
+    return {
+        date: `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`,
+        time: `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`,
+        zone: zoneName,
+    };
+}
+
+// Date/time strings of an appointment for one recipient, used in notifications and emails.
+// Falls back to the stored local values when the appointment has no start instant yet.
+function formatAppointmentForViewer(appointment, viewerTimezone) {
+    const timezone = resolveTimezone(viewerTimezone, appointment?.timezone);
+    const startAt = appointment?.start_at
+        ? new Date(appointment.start_at)
+        : zonedTimeToUtc(appointment?.appointment_date, appointment?.appointment_time, appointment?.timezone);
+    if (Number.isNaN(startAt.getTime())) {
+        return { date: appointment?.appointment_date, time: appointment?.appointment_time };
+    }
+    const formatted = formatInTimezone(startAt, timezone);
+    return { date: formatted.date, time: `${formatted.time} ${formatted.zone}` };
+}
+
+module.exports = {
+    DEFAULT_TIMEZONE,
+    isValidTimezone,
+    resolveTimezone,
+    zonedTimeToUtc,
+    getTodayInTimezone,
+    formatInTimezone,
+    formatAppointmentForViewer,
+};
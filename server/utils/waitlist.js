@@ -0,0 +1,170 @@
+// Waitlist utilities:
+// Offers a freed slot to the next waitlisted patient as a time-limited hold, expires stale holds,
+// and closes waitlist entries once the patient books.
+const Doctor = require('../models/Doctor');
+const User = require('../models/User');
+const WaitlistEntry = require('../models/WaitlistEntry');
+const { sendEmail } = require('../services/emailService');
+const { renderEmailWithFallback } = require('./emailTemplates');
+const { checkScheduledSlot, getAppointmentStart } = require('./appointmentSlots');
+const { formatAppointmentForViewer, formatInTimezone, resolveTimezone } = require('./timezones');
+
+// How long a freed slot stays reserved for the offered patient
+const WAITLIST_HOLD_MINUTES = 30;
+
+function getFrontendBaseUrl() {
+    return (process.env.FRONTEND_URL || 'http://localhost:8080').split(',')[0].trim();
+}
+
+async function notifyWaitlistOffer({ entry, doctor }) {
+    const Notification = require('../models/Notification');
+    const patient = await User.findById(entry.patient_id).select('full_name email locale timezone');
+    const doctorUser = await User.findById(doctor.user_id).select('full_name');
+    const doctorName = /^dr\.?\s/i.test(doctorUser?.full_name || '') ? doctorUser.full_name : `Dr. ${doctorUser?.full_name || 'Doctor'}`;
+
+    const slotView = formatAppointmentForViewer({
+        appointment_date: entry.date,
+        appointment_time: entry.offered_time,
+        timezone: doctor.timezone,
+    }, patient?.timezone);
+    const expiresView = formatInTimezone(entry.offer_expires_at, resolveTimezone(patient?.timezone, doctor.timezone));
+    const bookPath = `/book/${doctor._id}?date=${entry.date}&time=${entry.offered_time}`;
+
+    await Notification.create({
+        user_id: entry.patient_id,
+        type: 'waitlist_offer',
+        message: `A slot opened up with ${doctorName} on ${slotView.date} at ${slotView.time}. It is held for you until ${expiresView.time} ${expiresView.zone}.`,
+        data: {
+            waitlist_id: entry._id,
+            doctor_id: doctor._id,
+            appointment_date: entry.date,
+            appointment_time: entry.offered_time,
+            offer_expires_at: entry.offer_expires_at,
+            url: bookPath,
+        },
+    });
+
+    if (patient?.email) {
+        const resolved = renderEmailWithFallback({
+            locale: patient.locale || 'en',
+            templateName: 'waitlist_offer',
+            context: {
+                name: patient.full_name || 'there',
+                doctor: doctorName,
+                date: slotView.date,
+                time: slotView.time,
+                expires: `${expiresView.time} ${expiresView.zone}`,
+                link: `${getFrontendBaseUrl()}${bookPath}`,
+            },
+        });
+
+        await sendEmail({
+            to: patient.email,
+            subject: `A slot opened up - ${slotView.date} ${slotView.time}`,
+            text: resolved.text,
+            html: resolved.html,
+        });
+    }
+}
+
+// Holds a free slot for the longest-waiting patient on that doctor/date.
+// Does nothing when nobody is waiting, the slot is in the past, or it is no longer free.
+// Returns the offered entry or null.
+async function offerSlotToWaitlist({ doctorId, date, time }) {
+    const doctor = await Doctor.findById(doctorId);
+    if (!doctor) return null;
+
+    const startAt = getAppointmentStart(date, time, doctor.timezone);
+    if (Number.isNaN(startAt.getTime()) || startAt.getTime() <= Date.now()) {
+        return null;
+    }
+
+    // A preempting emergency or a fresh booking may already occupy the slot
+    const slotCheck = await checkScheduledSlot({ doctor, appointmentDate: date, appointmentTime: time });
+    if (!slotCheck.ok) {
+        return null;
+    }
+
+    // The hold never outlives the slot itself
+    const expiresAt = new Date(Math.min(Date.now() + WAITLIST_HOLD_MINUTES * 60 * 1000, startAt.getTime()));
+
+    // Claim the queue head atomically so two freed slots never go to the same patient
+    const entry = await WaitlistEntry.findOneAndUpdate(
+        { doctor_id: doctor._id, date, status: 'waiting' },
+        { $set: { status: 'offered', offered_time: time, offer_expires_at: expiresAt } },
+        { sort: { createdAt: 1 }, new: true }
+    );
+    if (!entry) return null;
+
+    try {
+        await notifyWaitlistOffer({ entry, doctor });
+    } catch (notifyErr) {
+        console.error('Failed to notify waitlisted patient', notifyErr);
+    }
+
+    return entry;
+}
+
+// Called after an appointment is cancelled by anyone; never throws so callers can fire and forget.
+async function releaseSlotToWaitlist(appointment) {
+    try {
+        return await offerSlotToWaitlist({
+            doctorId: appointment.doctor_id?._id || appointment.doctor_id,
+            date: appointment.appointment_date,
+            time: String(appointment.appointment_time || '').slice(0, 5),
+        });
+    } catch (error) {
+        console.error('[Waitlist] Failed to offer freed slot', error);
+        return null;
+    }
+}
+
+// Expires holds that were not used in time and passes each slot on to the next patient.
+async function expireWaitlistOffers() {
+    const expired = await WaitlistEntry.find({
+        status: 'offered',
+        offer_expires_at: { $lte: new Date() },
+    });
+
+    for (const entry of expired) {
+        entry.status = 'expired';
+        await entry.save();
+        await offerSlotToWaitlist({ doctorId: entry.doctor_id, date: entry.date, time: entry.offered_time });
+    }
+
+    return expired.length;
+}
+
+// Closes the patient's open entry for that doctor/date once they have booked.
+// A hold on a different time than the one booked is passed on to the next patient.
+async function markWaitlistBooked({ doctorId, patientId, date, appointmentId, bookedTime }) {
+    try {
+        const entries = await WaitlistEntry.find({
+            doctor_id: doctorId,
+            patient_id: patientId,
+            date,
+            status: { $in: ['waiting', 'offered'] },
+        });
+
+        for (const entry of entries) {
+            const unusedHold = entry.status === 'offered' && entry.offered_time !== bookedTime;
+            entry.status = 'booked';
+            entry.appointment_id = appointmentId;
+            await entry.save();
+
+            if (unusedHold) {
+                await offerSlotToWaitlist({ doctorId, date, time: entry.offered_time });
+            }
+        }
+    } catch (error) {
+        console.error('[Waitlist] Failed to close waitlist entry', error);
+    }
+}
+
+module.exports = {
+    WAITLIST_HOLD_MINUTES,
+    offerSlotToWaitlist,
+    releaseSlotToWaitlist,
+    expireWaitlistOffers,
+    markWaitlistBooked,
+};
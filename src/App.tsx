@@ -14,6 +14,7 @@ const DoctorDashboard = React.lazy(() => import("./pages/DoctorDashboard"));
 const DoctorRegister = React.lazy(() => import("./pages/DoctorRegister"));
 const DoctorProfile = React.lazy(() => import("./pages/DoctorProfile"));
 const AdminDashboard = React.lazy(() => import("./pages/AdminDashboard"));
+const OrganizationDashboard = React.lazy(() => import("./pages/OrganizationDashboard"));
 const Doctors = React.lazy(() => import("./pages/Doctors"));
 const BookAppointment = React.lazy(() => import("./pages/BookAppointment"));
 const Payment = React.lazy(() => import("./pages/Payment"));
@@ -66,6 +67,7 @@ const App = () => (
               <Route path="/doctor/register" element={<DoctorRegister />} />
               <Route path="/doctor/past-appointments" element={<PastAppointments />} />
               <Route path="/admin" element={<AdminDashboard />} />
+              <Route path="/organization" element={<OrganizationDashboard />} />
               <Route path="/doctors" element={<Doctors />} />
               <Route path="/book/:doctorId" element={<BookAppointment />} />
               <Route path="/doctor/:doctorId" element={<DoctorProfile />} />
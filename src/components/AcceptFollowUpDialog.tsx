@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format, isBefore, startOfToday } from "date-fns";
+import { CalendarCheck } from "lucide-react";
+import { DoctorSlotPicker } from "@/components/DoctorSlotPicker";
+import type { FollowUpProposal } from "@/lib/follow-ups";
+
+interface AcceptFollowUpDialogProps {
+  proposal: FollowUpProposal;
+}
+
+// Lets the patient pick a slot inside a range proposal and book it.
+export function AcceptFollowUpDialog({ proposal }: AcceptFollowUpDialogProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!selectedDate || !selectedTime) return;
+
+    setSubmitting(true);
+    try {
+      const { data } = await api.post(`/follow-ups/${proposal._id}/accept`, {
+        appointment_date: format(selectedDate, "yyyy-MM-dd"),
+        appointment_time: selectedTime,
+      });
+      setOpen(false);
+      if (data.appointment.payment_status === "paid") {
+        toast.success("Follow-up booked!");
+        navigate("/appointments");
+      } else {
+        toast.success("Follow-up booked! Redirecting to payment...");
+        navigate(`/payment/${data.appointment._id}`);
+      }
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to book follow-up"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm">
+          <CalendarCheck className="h-4 w-4 mr-1" />
+          Pick a Slot
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Book Follow-up</DialogTitle>
+          <DialogDescription>
+            Choose any free slot between {format(new Date(`${proposal.from_date}T00:00:00`), "MMM d")} and{" "}
+            {format(new Date(`${proposal.to_date}T00:00:00`), "MMM d, yyyy")}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DoctorSlotPicker
+          doctorId={proposal.doctor_id._id}
+          selectedDate={selectedDate}
+          selectedTime={selectedTime}
+          onDateChange={(date) => {
+            setSelectedDate(date);
+            setSelectedTime(null);
+          }}
+          onTimeChange={setSelectedTime}
+          isDateDisabled={(date) => {
+            const day = format(date, "yyyy-MM-dd");
+            return isBefore(date, startOfToday()) || day < proposal.from_date || day > proposal.to_date;
+          }}
+          defaultMonth={new Date(`${proposal.from_date}T00:00:00`)}
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!selectedDate || !selectedTime || submitting}>
+            {submitting ? "Booking..." : `Book for ₹${proposal.total_amount}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
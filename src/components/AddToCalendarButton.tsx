@@ -0,0 +1,29 @@
+import { useState } from "react";
+import { getApiErrorMessage } from "@/lib/api";
+import { downloadAppointmentCalendar } from "@/lib/calendar";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { CalendarPlus } from "lucide-react";
+
+// Downloads the appointment as an .ics file for Google Calendar, Outlook and the like
+export function AddToCalendarButton({ appointmentId }: { appointmentId: string }) {
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadAppointmentCalendar(appointmentId);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to export the appointment"));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant="outline" onClick={handleDownload} disabled={downloading}>
+      <CalendarPlus className="h-4 w-4 mr-1" />
+      Add to Calendar
+    </Button>
+  );
+}
@@ -0,0 +1,65 @@
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { History } from "lucide-react";
+import {
+  APPOINTMENT_STATUS_LABELS,
+  STATUS_CHANGE_ACTOR_LABELS,
+  type AppointmentStatusChange,
+} from "@/lib/appointment-status";
+
+interface AppointmentHistoryDialogProps {
+  // When the appointment was booked; shown as the first timeline entry
+  bookedAt?: string | null;
+  history: AppointmentStatusChange[];
+}
+
+export function AppointmentHistoryDialog({ bookedAt, history }: AppointmentHistoryDialogProps) {
+  const entries = [
+    ...(bookedAt ? [{ key: "booked", title: "Booked", detail: "", at: bookedAt }] : []),
+    ...history.map((change, index) => ({
+      key: `${index}-${change.changed_at}`,
+      title: `${APPOINTMENT_STATUS_LABELS[change.to] || change.to} by ${STATUS_CHANGE_ACTOR_LABELS[change.role] || change.role}`,
+      detail: change.reason || "",
+      at: change.changed_at,
+    })),
+  ];
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="ghost">
+          <History className="h-4 w-4 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Appointment History</DialogTitle>
+          <DialogDescription>Every status change of this appointment, oldest first.</DialogDescription>
+        </DialogHeader>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No status changes yet.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {entries.map((entry) => (
+              <li key={entry.key} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                <p className="text-sm font-medium">{entry.title}</p>
+                <p className="text-xs text-muted-foreground">{format(new Date(entry.at), "MMM d, yyyy HH:mm")}</p>
+                {entry.detail && <p className="text-sm text-muted-foreground mt-1">{entry.detail}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { CalendarOff, Loader2, Plus, Trash2 } from "lucide-react";
+
+type OverrideKind = "leave" | "extra_hours";
+
+interface AvailabilityOverride {
+  _id: string;
+  date: string;
+  kind: OverrideKind;
+  start_time: string | null;
+  end_time: string | null;
+  reason: string;
+}
+
+const ALL_DAY = "all-day";
+
+const TIME_OPTIONS = Array.from({ length: 48 }, (_, i) => {
+  const hour = Math.floor(i / 2).toString().padStart(2, "0");
+  return `${hour}:${i % 2 === 0 ? "00" : "30"}`;
+});
+
+interface AvailabilityOverridesProps {
+  doctorId: string;
+}
+
+// Date-specific exceptions to the weekly schedule: leave (whole day or a few hours) and extra hours.
+export function AvailabilityOverrides({ doctorId }: AvailabilityOverridesProps) {
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [date, setDate] = useState("");
+  const [kind, setKind] = useState<OverrideKind>("leave");
+  const [startTime, setStartTime] = useState(ALL_DAY);
+  const [endTime, setEndTime] = useState(ALL_DAY);
+  const [reason, setReason] = useState("");
+
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const fetchOverrides = useCallback(async () => {
+    try {
+      const { data } = await api.get<AvailabilityOverride[]>(`/availability/${doctorId}/overrides?from=${today}`);
+      setOverrides(data || []);
+    } catch (error) {
+      console.error("Failed to load availability overrides", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [doctorId, today]);
+
+  useEffect(() => {
+    fetchOverrides();
+  }, [fetchOverrides]);
+
+  const handleKindChange = (value: OverrideKind) => {
+    setKind(value);
+    // Extra hours always need a time range
+    if (value === "extra_hours" && startTime === ALL_DAY) {
+      setStartTime("18:00");
+      setEndTime("20:00");
+    }
+  };
+
+  const addOverride = async () => {
+    if (!date) {
+      toast.error("Please pick a date");
+      return;
+    }
+
+    const isAllDay = startTime === ALL_DAY || endTime === ALL_DAY;
+    if (kind === "extra_hours" && isAllDay) {
+      toast.error("Extra hours need a start and end time");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.post("/availability/overrides", {
+        doctor_id: doctorId,
+        date,
+        kind,
+        start_time: isAllDay ? null : startTime,
+        end_time: isAllDay ? null : endTime,
+        reason,
+      });
+      toast.success(kind === "leave" ? "Leave added" : "Extra hours added");
+      setDate("");
+      setReason("");
+      fetchOverrides();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to add override"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeOverride = async (id: string) => {
+    try {
+      await api.delete(`/availability/overrides/${id}`);
+      setOverrides((prev) => prev.filter((o) => o._id !== id));
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to remove override"));
+    }
+  };
+
+  return (
+    <div className="mt-6 pt-6 border-t space-y-4">
+      <div>
+        <h3 className="font-semibold flex items-center gap-2">
+          <CalendarOff className="h-4 w-4" />
+          Leave & Extra Hours
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          Block specific dates or add one-off hours without changing your weekly schedule
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end p-4 rounded-lg border">
+        <div className="space-y-2">
+          <Label>Date</Label>
+          <Input type="date" min={today} value={date} onChange={(e) => setDate(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Type</Label>
+          <Select value={kind} onValueChange={(value) => handleKindChange(value as OverrideKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="leave">Leave</SelectItem>
+              <SelectItem value="extra_hours">Extra hours</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>From</Label>
+          <Select value={startTime} onValueChange={setStartTime}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {kind === "leave" && <SelectItem value={ALL_DAY}>All day</SelectItem>}
+              {TIME_OPTIONS.map((time) => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>To</Label>
+          <Select value={endTime} onValueChange={setEndTime}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {kind === "leave" && <SelectItem value={ALL_DAY}>All day</SelectItem>}
+              {TIME_OPTIONS.map((time) => (
+                <SelectItem key={time} value={time}>{time}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Reason (optional)</Label>
+          <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Conference" />
+        </div>
+        <Button onClick={addOverride} disabled={saving} className="sm:col-span-2 lg:col-span-5 w-full sm:w-auto sm:justify-self-end">
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+          Add
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : overrides.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No upcoming leave or extra hours.</p>
+      ) : (
+        <div className="space-y-2">
+          {overrides.map((override) => (
+            <div key={override._id} className="flex items-center justify-between gap-3 p-3 rounded-lg border">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{override.date}</span>
+                <Badge variant={override.kind === "leave" ? "destructive" : "secondary"}>
+                  {override.kind === "leave" ? "Leave" : "Extra hours"}
+                </Badge>
+                <span className="text-muted-foreground">
+                  {override.start_time && override.end_time
+                    ? `${override.start_time} - ${override.end_time}`
+                    : "All day"}
+                </span>
+                {override.reason && <span className="text-muted-foreground">· {override.reason}</span>}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeOverride(override._id)}
+                aria-label="Remove override"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
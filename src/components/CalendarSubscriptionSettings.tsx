@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { getFeedUrls, type CalendarFeed } from "@/lib/calendar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Copy, ExternalLink, RefreshCw } from "lucide-react";
+
+// The user's private iCalendar subscription URL, to add to Google Calendar, Outlook or Apple Calendar
+export function CalendarSubscriptionSettings() {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [resetting, setResetting] = useState(false);
+
+  useEffect(() => {
+    const fetchFeed = async () => {
+      try {
+        const { data } = await api.get<CalendarFeed>("/calendar/feed-url");
+        setFeed(data);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load the calendar link"));
+      }
+    };
+
+    fetchFeed();
+  }, []);
+
+  const urls = feed ? getFeedUrls(feed) : null;
+
+  const handleCopy = async () => {
+    if (!urls) return;
+    try {
+      await navigator.clipboard.writeText(urls.https);
+      toast.success("Calendar link copied");
+    } catch {
+      toast.error("Could not copy the link");
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm("Calendars subscribed with the current link will stop updating. Create a new link?")) return;
+    setResetting(true);
+    try {
+      const { data } = await api.post<CalendarFeed>("/calendar/feed-url/reset");
+      setFeed(data);
+      toast.success("New calendar link created");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to reset the calendar link"));
+    } finally {
+      setResetting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input readOnly value={urls?.https || "Loading..."} onFocus={(e) => e.target.select()} />
+        <Button variant="outline" size="icon" onClick={handleCopy} disabled={!urls}>
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Anyone with this link can see your upcoming appointments. Keep it private and reset it if it was shared.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {urls && (
+          <Button variant="outline" size="sm" asChild>
+            <a href={urls.webcal}>
+              <ExternalLink className="h-4 w-4 mr-1" />
+              Open in Calendar App
+            </a>
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={handleReset} disabled={!feed || resetting}>
+          <RefreshCw className="h-4 w-4 mr-1" />
+          Reset Link
+        </Button>
+      </div>
+    </div>
+  );
+}
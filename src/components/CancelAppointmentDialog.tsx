@@ -0,0 +1,116 @@
+import { useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { XCircle } from "lucide-react";
+import {
+  describeCancellationPolicy,
+  describeCancellationQuote,
+  type CancellationQuote,
+} from "@/lib/cancellation-policy";
+
+interface CancelAppointmentDialogProps {
+  appointmentId: string;
+  onSuccess?: () => void;
+}
+
+export function CancelAppointmentDialog({ appointmentId, onSuccess }: CancelAppointmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+  const [loadingQuote, setLoadingQuote] = useState(false);
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  // The refund depends on how close the appointment is, so it is re-quoted every time the dialog opens
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setQuote(null);
+    setLoadingQuote(true);
+    try {
+      const { data } = await api.get<CancellationQuote>(`/appointments/${appointmentId}/cancellation-quote`);
+      setQuote(data);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to load the refund amount"));
+      setOpen(false);
+    } finally {
+      setLoadingQuote(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setSubmitting(true);
+    try {
+      await api.put(`/appointments/${appointmentId}`, { status: "cancelled", reason: reason.trim() });
+      toast.success(
+        quote && quote.refund_amount > 0
+          ? `Appointment cancelled. ₹${quote.refund_amount} will be refunded.`
+          : "Appointment cancelled"
+      );
+      setOpen(false);
+      setReason("");
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to cancel the appointment"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <XCircle className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel Appointment</DialogTitle>
+          <DialogDescription>
+            {quote ? describeCancellationPolicy(quote.policy) : "Checking the cancellation policy..."}
+          </DialogDescription>
+        </DialogHeader>
+        {loadingQuote && <p className="text-sm text-muted-foreground">Calculating your refund...</p>}
+        {quote && (
+          <div className="space-y-3">
+            <div className="p-3 rounded-lg bg-muted text-sm">
+              <p className="font-medium">{describeCancellationQuote(quote)}</p>
+              {quote.tier === "partial" && quote.paid_amount > 0 && (
+                <p className="text-muted-foreground mt-1">
+                  You are cancelling {quote.hours_before_start}h before the start, so {quote.refund_percent}% of the doctor's fee is refunded.
+                </p>
+              )}
+            </div>
+            <Textarea
+              placeholder="Reason for cancelling (optional)"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+            Keep Appointment
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={!quote || submitting}>
+            {submitting ? "Cancelling..." : "Cancel Appointment"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
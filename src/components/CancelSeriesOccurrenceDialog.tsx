@@ -0,0 +1,110 @@
+import { useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { XCircle } from "lucide-react";
+import { describeCancellationQuote, type CancellationQuote } from "@/lib/cancellation-policy";
+
+interface CancelSeriesOccurrenceDialogProps {
+  appointmentId: string;
+  seriesId: string;
+  // e.g. "visit 2 of 6"
+  visitLabel: string;
+  onSuccess?: () => void;
+}
+
+export function CancelSeriesOccurrenceDialog({
+  appointmentId,
+  seriesId,
+  visitLabel,
+  onSuccess,
+}: CancelSeriesOccurrenceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState<"one" | "rest" | null>(null);
+  const [quote, setQuote] = useState<CancellationQuote | null>(null);
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setQuote(null);
+    try {
+      const { data } = await api.get<CancellationQuote>(`/appointments/${appointmentId}/cancellation-quote`);
+      setQuote(data);
+    } catch (error) {
+      console.error("Error fetching cancellation quote", error);
+    }
+  };
+
+  const cancelOne = async () => {
+    setSubmitting("one");
+    try {
+      await api.put(`/appointments/${appointmentId}`, { status: "cancelled" });
+      toast.success("Visit cancelled");
+      setOpen(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to cancel visit"));
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  const cancelRest = async () => {
+    setSubmitting("rest");
+    try {
+      const { data } = await api.put(`/appointments/series/${seriesId}/cancel`, {
+        from_appointment_id: appointmentId,
+      });
+      const count = Array.isArray(data?.cancelled) ? data.cancelled.length : 0;
+      toast.success(`${count} visit(s) cancelled`);
+      setOpen(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to cancel the series"));
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <XCircle className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel Recurring Appointment</DialogTitle>
+          <DialogDescription>
+            This is {visitLabel} of a recurring series. Cancel just this visit, or this visit and every later one.
+          </DialogDescription>
+        </DialogHeader>
+        {quote && (
+          <p className="p-3 rounded-lg bg-muted text-sm">
+            {describeCancellationQuote(quote)} Later paid visits are refunded under the same policy.
+          </p>
+        )}
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={cancelOne} disabled={submitting !== null}>
+            {submitting === "one" ? "Cancelling..." : "Only this visit"}
+          </Button>
+          <Button variant="destructive" onClick={cancelRest} disabled={submitting !== null}>
+            {submitting === "rest" ? "Cancelling..." : "This and later visits"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
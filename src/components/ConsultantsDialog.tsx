@@ -0,0 +1,154 @@
+import { useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Trash2, UserPlus } from "lucide-react";
+import {
+  CONSULTANT_STATUS_LABELS,
+  MAX_CONSULTING_DOCTORS,
+  getActiveConsultants,
+  getConsultingDoctorId,
+  getConsultingDoctorName,
+  type ConsultingDoctor,
+} from "@/lib/consultations";
+
+interface DoctorOption {
+  _id: string;
+  specialization: string;
+  user_id?: { full_name?: string } | null;
+}
+
+interface ConsultantsDialogProps {
+  appointmentId: string;
+  // The primary doctor, who cannot invite themselves
+  doctorId: string;
+  consultants?: ConsultingDoctor[];
+  onSuccess?: () => void;
+}
+
+// Primary doctor: invite other doctors to an upcoming appointment and manage the invitations
+export function ConsultantsDialog({ appointmentId, doctorId, consultants, onSuccess }: ConsultantsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [doctors, setDoctors] = useState<DoctorOption[]>([]);
+  const [selectedDoctorId, setSelectedDoctorId] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const activeConsultants = getActiveConsultants(consultants);
+  const takenIds = new Set([doctorId, ...activeConsultants.map(getConsultingDoctorId)]);
+  const availableDoctors = doctors.filter((doctor) => !takenIds.has(doctor._id));
+
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setSelectedDoctorId("");
+    try {
+      const { data } = await api.get<DoctorOption[]>("/doctors");
+      setDoctors(Array.isArray(data) ? data : []);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to load doctors"));
+    }
+  };
+
+  const handleInvite = async () => {
+    setSubmitting(true);
+    try {
+      await api.post(`/appointments/${appointmentId}/consultants`, { doctor_id: selectedDoctorId });
+      toast.success("Invitation sent");
+      setSelectedDoctorId("");
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to invite the doctor"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRemove = async (consultant: ConsultingDoctor) => {
+    setSubmitting(true);
+    try {
+      await api.delete(`/appointments/${appointmentId}/consultants/${getConsultingDoctorId(consultant)}`);
+      toast.success(`${getConsultingDoctorName(consultant)} removed`);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to remove the doctor"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <UserPlus className="h-4 w-4 mr-1" />
+          Consultants{activeConsultants.length > 0 ? ` (${activeConsultants.length})` : ""}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Consulting Doctors</DialogTitle>
+          <DialogDescription>
+            Doctors who accept join the chat and the video call, and the doctor fee is split equally between you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {activeConsultants.length > 0 && (
+          <div className="space-y-2">
+            {activeConsultants.map((consultant) => (
+              <div key={getConsultingDoctorId(consultant)} className="flex items-center justify-between gap-2 rounded-lg border p-2">
+                <span className="text-sm font-medium">{getConsultingDoctorName(consultant)}</span>
+                <div className="flex items-center gap-1">
+                  <Badge variant={consultant.status === "accepted" ? "default" : "secondary"}>
+                    {CONSULTANT_STATUS_LABELS[consultant.status]}
+                  </Badge>
+                  <Button size="icon" variant="ghost" onClick={() => handleRemove(consultant)} disabled={submitting}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeConsultants.length < MAX_CONSULTING_DOCTORS ? (
+          <div className="space-y-2">
+            <Label>Invite a doctor</Label>
+            <div className="flex gap-2">
+              <Select value={selectedDoctorId} onValueChange={setSelectedDoctorId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a doctor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableDoctors.map((doctor) => (
+                    <SelectItem key={doctor._id} value={doctor._id}>
+                      Dr. {doctor.user_id?.full_name || "Unknown"} ({doctor.specialization})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleInvite} disabled={!selectedDoctorId || submitting}>
+                Invite
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            An appointment can have at most {MAX_CONSULTING_DOCTORS} consulting doctors.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { MessageSquare, Stethoscope, Video } from "lucide-react";
+import { formatAppointmentStart } from "@/lib/timezone";
+import { CONSULTATION_MODE_LABELS } from "@/lib/consultation-modes";
+import { CONSULTANT_STATUS_LABELS, type ConsultationInvitation } from "@/lib/consultations";
+
+// Group appointments other doctors invited this doctor to; nothing is rendered while there are none
+export function ConsultationInvitations() {
+  const [invitations, setInvitations] = useState<ConsultationInvitation[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchInvitations = async () => {
+      try {
+        const { data } = await api.get<ConsultationInvitation[]>("/appointments/consultations");
+        setInvitations(Array.isArray(data) ? data : []);
+      } catch (error) {
+        console.error("Error fetching consultation invitations", error);
+      }
+    };
+
+    fetchInvitations();
+  }, [refreshKey]);
+
+  const handleRespond = async (invitation: ConsultationInvitation, accept: boolean) => {
+    setRespondingId(invitation._id);
+    try {
+      await api.put(`/appointments/${invitation._id}/consultants/respond`, { accept });
+      toast.success(accept ? "You joined the consultation" : "Invitation declined");
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to respond to the invitation"));
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Stethoscope className="h-5 w-5" />
+          Consultations ({invitations.length})
+        </CardTitle>
+        <CardDescription>Appointments other doctors invited you to join. Your share of the fee is added to your earnings.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {invitations.map((invitation) => (
+          <div key={invitation._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border">
+            <div>
+              <p className="font-medium">{invitation.patient_id?.full_name || "Patient"}</p>
+              <p className="text-sm text-muted-foreground">
+                With Dr. {invitation.doctor_id?.user_id?.full_name || "Unknown"} on{" "}
+                {formatAppointmentStart(invitation, "MMM d, yyyy")} at {formatAppointmentStart(invitation, "HH:mm")}
+                {` · ${CONSULTATION_MODE_LABELS[invitation.consultation_mode || "video"]}`}
+              </p>
+            </div>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={invitation.consultation_status === "accepted" ? "default" : "outline"}>
+                {CONSULTANT_STATUS_LABELS[invitation.consultation_status]}
+              </Badge>
+              {invitation.consultation_status === "invited" ? (
+                <>
+                  <Button size="sm" onClick={() => handleRespond(invitation, true)} disabled={respondingId === invitation._id}>
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRespond(invitation, false)}
+                    disabled={respondingId === invitation._id}
+                  >
+                    Decline
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <Button size="sm" variant="outline" asChild>
+                    <Link to={`/chat/${invitation._id}`}>
+                      <MessageSquare className="h-4 w-4 mr-1" />
+                      Chat
+                    </Link>
+                  </Button>
+                  {invitation.zoom_join_url && (
+                    <Button size="sm" variant="outline" asChild>
+                      <a href={invitation.zoom_join_url} target="_blank" rel="noopener noreferrer">
+                        <Video className="h-4 w-4 mr-1" />
+                        Join Video
+                      </a>
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import api from "@/lib/api";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ALL_PROFILES, DEPENDENT_RELATION_LABELS, SELF_PROFILE, type Dependent } from "@/lib/dependents";
+
+interface DependentSwitcherProps {
+  label: string;
+  // SELF_PROFILE, ALL_PROFILES or a dependent's id
+  value: string;
+  onChange: (value: string) => void;
+  // Adds an "Everyone" entry for lists covering the whole family
+  includeEveryone?: boolean;
+}
+
+// "Booking for" / "viewing for" picker over the patient and the family members on their account
+export function DependentSwitcher({ label, value, onChange, includeEveryone = false }: DependentSwitcherProps) {
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+
+  useEffect(() => {
+    const fetchDependents = async () => {
+      try {
+        const { data } = await api.get<Dependent[]>("/dependents");
+        setDependents(Array.isArray(data) ? data : []);
+      } catch (error) {
+        console.error("Error fetching dependents", error);
+      }
+    };
+
+    fetchDependents();
+  }, []);
+
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className="w-full sm:w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {includeEveryone && <SelectItem value={ALL_PROFILES}>Everyone</SelectItem>}
+          <SelectItem value={SELF_PROFILE}>Myself</SelectItem>
+          {dependents.map((dependent) => (
+            <SelectItem key={dependent.id} value={dependent.id}>
+              {dependent.full_name} ({DEPENDENT_RELATION_LABELS[dependent.relation]})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {dependents.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          Add family members under <Link to="/settings" className="underline">Settings</Link>.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  DEPENDENT_RELATIONS,
+  DEPENDENT_RELATION_LABELS,
+  describeDependent,
+  type Dependent,
+  type DependentRelation,
+} from "@/lib/dependents";
+
+const EMPTY_DEPENDENT_FORM = { full_name: "", date_of_birth: "", relation: "child" as DependentRelation };
+
+// Family members the patient books appointments and keeps records for
+export function DependentsSettings() {
+  const [dependents, setDependents] = useState<Dependent[]>([]);
+  const [form, setForm] = useState(EMPTY_DEPENDENT_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchDependents() {
+      try {
+        const { data } = await api.get<Dependent[]>("/dependents");
+        setDependents(data || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load family members"));
+      }
+    }
+
+    fetchDependents();
+  }, [refreshKey]);
+
+  const resetForm = () => {
+    setForm(EMPTY_DEPENDENT_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (dependent: Dependent) => {
+    setEditingId(dependent.id);
+    setForm({
+      full_name: dependent.full_name,
+      date_of_birth: format(new Date(dependent.date_of_birth), "yyyy-MM-dd"),
+      relation: dependent.relation,
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (editingId) {
+        await api.put(`/dependents/${editingId}`, form);
+        toast.success("Family member updated");
+      } else {
+        await api.post("/dependents", form);
+        toast.success("Family member added");
+      }
+      resetForm();
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to save family member"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (dependent: Dependent) => {
+    if (!window.confirm(`Remove ${dependent.full_name}? Their past appointments and prescriptions are kept.`)) return;
+    try {
+      await api.delete(`/dependents/${dependent.id}`);
+      toast.success("Family member removed");
+      if (editingId === dependent.id) resetForm();
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to remove family member"));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {dependents.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No family members added yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {dependents.map((dependent) => (
+            <div key={dependent.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <p className="font-medium">{describeDependent(dependent)}</p>
+                <p className="text-sm text-muted-foreground">
+                  Born {format(new Date(dependent.date_of_birth), "MMM d, yyyy")}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button size="icon" variant="ghost" onClick={() => startEditing(dependent)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="icon" variant="ghost" onClick={() => handleDelete(dependent)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="dependent-name">Full Name</Label>
+          <Input
+            id="dependent-name"
+            value={form.full_name}
+            maxLength={100}
+            onChange={(e) => setForm((prev) => ({ ...prev, full_name: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="dependent-dob">Date of Birth</Label>
+          <Input
+            id="dependent-dob"
+            type="date"
+            value={form.date_of_birth}
+            max={format(new Date(), "yyyy-MM-dd")}
+            onChange={(e) => setForm((prev) => ({ ...prev, date_of_birth: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Relation</Label>
+          <Select
+            value={form.relation}
+            onValueChange={(value) => setForm((prev) => ({ ...prev, relation: value as DependentRelation }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DEPENDENT_RELATIONS.map((relation) => (
+                <SelectItem key={relation} value={relation}>
+                  {DEPENDENT_RELATION_LABELS[relation]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex gap-2">
+        <Button onClick={handleSave} disabled={saving || !form.full_name.trim() || !form.date_of_birth}>
+          {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : !editingId && <Plus className="mr-2 h-4 w-4" />}
+          {editingId ? "Save Changes" : "Add Family Member"}
+        </Button>
+        {editingId && (
+          <Button variant="outline" onClick={resetForm}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
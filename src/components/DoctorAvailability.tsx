@@ -1,21 +1,38 @@
 import { useState, useEffect } from "react";
-import api from "@/lib/api";
+import api, { getApiErrorMessage } from "@/lib/api";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Loader2, Clock, Save } from "lucide-react";
+import { Loader2, Clock, Save, Plus, Trash2 } from "lucide-react";
+import { AvailabilityOverrides } from "@/components/AvailabilityOverrides";
+import { DEFAULT_TIME_ZONE, getBrowserTimeZone, getTimeZoneLabel, getTimeZoneOptions } from "@/lib/timezone";
+import { CONSULTATION_MODE_LABELS, getDoctorConsultationModes, type ConsultationMode } from "@/lib/consultation-modes";
 
 interface AvailabilitySlot {
+  key: string;
   id?: string;
   day_of_week: number;
   start_time: string;
   end_time: string;
   is_available: boolean;
+  // null means the window is open to every consultation mode
+  consultation_mode: ConsultationMode | null;
 }
 
+interface AvailabilityWindowResponse {
+  _id: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  is_available: boolean;
+  consultation_mode?: ConsultationMode | null;
+}
+
+const ALL_MODES_VALUE = "all";
+
 const DAYS = [
   { value: 0, label: "Sunday" },
   { value: 1, label: "Monday" },
@@ -26,19 +43,40 @@ const DAYS = [
   { value: 6, label: "Saturday" },
 ];
 
+const SLOT_DURATIONS = [15, 30, 45, 60];
+const BUFFER_OPTIONS = [0, 5, 10, 15, 20, 30];
+
 const TIME_SLOTS = Array.from({ length: 24 }, (_, i) => {
   const hour = i.toString().padStart(2, "0");
   return { value: `${hour}:00`, label: `${hour}:00` };
 });
 
+let nextLocalKey = 0;
+const newLocalKey = () => `new-${nextLocalKey++}`;
+
+// Suggests the next window after the last one of the day, e.g. 17:00-18:00 after 09:00-17:00.
+const suggestNextWindow = (windows: AvailabilitySlot[]) => {
+  const lastEnd = windows.reduce((latest, w) => (w.end_time > latest ? w.end_time : latest), "08:00");
+  const startIndex = Math.min(TIME_SLOTS.findIndex((t) => t.value === lastEnd), TIME_SLOTS.length - 2);
+  return {
+    start_time: TIME_SLOTS[Math.max(startIndex, 0)].value,
+    end_time: TIME_SLOTS[Math.max(startIndex, 0) + 1].value,
+  };
+};
+
 interface DoctorAvailabilityProps {
   doctorId: string;
 }
 
 export function DoctorAvailability({ doctorId }: DoctorAvailabilityProps) {
   const [availability, setAvailability] = useState<AvailabilitySlot[]>([]);
+  const [removedIds, setRemovedIds] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [slotDuration, setSlotDuration] = useState(30);
+  const [bufferMinutes, setBufferMinutes] = useState(0);
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
+  const [offeredModes, setOfferedModes] = useState<ConsultationMode[]>(["video"]);
 
   useEffect(() => {
     fetchAvailability();
@@ -46,48 +84,133 @@ export function DoctorAvailability({ doctorId }: DoctorAvailabilityProps) {
 
   const fetchAvailability = async () => {
     try {
-      const { data } = await api.get(`/availability/${doctorId}`);
-
-      // Initialize all days with default values if not present
-      const existingDays = new Set(data?.map((d: any) => d.day_of_week) || []);
-      const allDays: AvailabilitySlot[] = DAYS.map((day) => {
-        const existing = data?.find((d: any) => d.day_of_week === day.value);
-        if (existing) {
-          return {
-            id: existing._id, // Map mongo _id
-            day_of_week: existing.day_of_week,
-            start_time: existing.start_time,
-            end_time: existing.end_time,
-            is_available: existing.is_available,
-          };
+      const { data } = await api.get<AvailabilityWindowResponse[]>(`/availability/${doctorId}`);
+      const windows = data || [];
+
+      const { data: doctor } = await api.get(`/doctors/${doctorId}`);
+      const doctorModes = getDoctorConsultationModes(doctor || {});
+
+      // Every day shows at least one window; days without saved hours get a default one
+      const allWindows: AvailabilitySlot[] = DAYS.flatMap((day) => {
+        const existing = windows.filter((w) => w.day_of_week === day.value);
+        if (existing.length > 0) {
+          return existing.map((w) => ({
+            key: w._id,
+            id: w._id, // Map mongo _id
+            day_of_week: w.day_of_week,
+            start_time: w.start_time,
+            end_time: w.end_time,
+            is_available: w.is_available,
+            // A mode the doctor stopped offering falls back to all modes on the next save
+            consultation_mode: w.consultation_mode && doctorModes.includes(w.consultation_mode) ? w.consultation_mode : null,
+          }));
         }
-        return {
+        return [{
+          key: newLocalKey(),
           day_of_week: day.value,
           start_time: "09:00",
           end_time: "17:00",
           is_available: day.value !== 0 && day.value !== 6, // Weekdays enabled by default
-        };
+          consultation_mode: null,
+        }];
       });
 
-      setAvailability(allDays);
-    } catch (error: any) {
+      setAvailability(allWindows);
+      setRemovedIds([]);
+      setOfferedModes(doctorModes);
+      setSlotDuration(Number(doctor?.slot_duration_minutes) || 30);
+      setBufferMinutes(Number(doctor?.buffer_minutes) || 0);
+      setTimeZone(doctor?.timezone || DEFAULT_TIME_ZONE);
+    } catch (error) {
       toast.error("Failed to load availability");
     } finally {
       setLoading(false);
     }
   };
 
-  const updateSlot = (dayOfWeek: number, field: keyof AvailabilitySlot, value: any) => {
+  const updateWindow = (key: string, field: "start_time" | "end_time", value: string) => {
+    setAvailability((prev) =>
+      prev.map((slot) => (slot.key === key ? { ...slot, [field]: value } : slot))
+    );
+  };
+
+  const updateWindowMode = (key: string, value: string) => {
+    const mode = value === ALL_MODES_VALUE ? null : (value as ConsultationMode);
+    setAvailability((prev) =>
+      prev.map((slot) => (slot.key === key ? { ...slot, consultation_mode: mode } : slot))
+    );
+  };
+
+  // The day switch turns all of that day's windows on or off together
+  const setDayAvailable = (dayOfWeek: number, isAvailable: boolean) => {
     setAvailability((prev) =>
       prev.map((slot) =>
-        slot.day_of_week === dayOfWeek ? { ...slot, [field]: value } : slot
+        slot.day_of_week === dayOfWeek ? { ...slot, is_available: isAvailable } : slot
       )
     );
   };
 
+  const addWindow = (dayOfWeek: number) => {
+    setAvailability((prev) => {
+      const dayWindows = prev.filter((slot) => slot.day_of_week === dayOfWeek);
+      return [
+        ...prev,
+        {
+          key: newLocalKey(),
+          day_of_week: dayOfWeek,
+          ...suggestNextWindow(dayWindows),
+          is_available: true,
+          consultation_mode: null,
+        },
+      ];
+    });
+  };
+
+  const removeWindow = (slot: AvailabilitySlot) => {
+    setAvailability((prev) => prev.filter((s) => s.key !== slot.key));
+    if (slot.id) {
+      setRemovedIds((prev) => [...prev, slot.id as string]);
+    }
+  };
+
+  // Returns an error message for the first invalid or overlapping window, otherwise null
+  const validateWindows = () => {
+    for (const day of DAYS) {
+      const dayWindows = availability
+        .filter((slot) => slot.day_of_week === day.value)
+        .sort((a, b) => a.start_time.localeCompare(b.start_time));
+      for (let i = 0; i < dayWindows.length; i++) {
+        if (dayWindows[i].start_time >= dayWindows[i].end_time) {
+          return `${day.label}: end time must be after start time`;
+        }
+        if (i > 0 && dayWindows[i].start_time < dayWindows[i - 1].end_time) {
+          return `${day.label}: windows must not overlap`;
+        }
+      }
+    }
+    return null;
+  };
+
   const saveAvailability = async () => {
+    const validationError = validateWindows();
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
     setSaving(true);
     try {
+      await api.put(`/doctors/${doctorId}`, {
+        slot_duration_minutes: slotDuration,
+        buffer_minutes: bufferMinutes,
+        timezone: timeZone,
+      });
+
+      // Remove deleted windows first so they don't count as overlaps
+      for (const id of removedIds) {
+        await api.delete(`/availability/${id}`);
+      }
+
       for (const slot of availability) {
         if (slot.id) {
           // Update existing
@@ -95,6 +218,7 @@ export function DoctorAvailability({ doctorId }: DoctorAvailabilityProps) {
             start_time: slot.start_time,
             end_time: slot.end_time,
             is_available: slot.is_available,
+            consultation_mode: slot.consultation_mode,
           });
         } else {
           // Insert new
@@ -104,14 +228,15 @@ export function DoctorAvailability({ doctorId }: DoctorAvailabilityProps) {
             start_time: slot.start_time,
             end_time: slot.end_time,
             is_available: slot.is_available,
+            consultation_mode: slot.consultation_mode,
           });
         }
       }
 
       toast.success("Availability saved successfully!");
       fetchAvailability(); // Refresh to get IDs for new records
-    } catch (error: any) {
-      toast.error(error.message || "Failed to save availability");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to save availability"));
     } finally {
       setSaving(false);
     }
@@ -137,7 +262,7 @@ export function DoctorAvailability({ doctorId }: DoctorAvailabilityProps) {
               Availability Schedule
             </CardTitle>
             <CardDescription>
-              Set your available hours for each day of the week
+              Set your consultation length, timezone and available hours for each day of the week. Add a second window for split shifts, or limit a window to one consultation mode.
             </CardDescription>
           </div>
           <Button onClick={saveAvailability} disabled={saving} className="w-full sm:w-auto">
@@ -151,76 +276,169 @@ export function DoctorAvailability({ doctorId }: DoctorAvailabilityProps) {
         </div>
       </CardHeader>
       <CardContent>
+        <div className="flex flex-col sm:flex-row gap-4 mb-6 p-4 rounded-lg border">
+          <div className="space-y-2">
+            <Label className="font-medium">Consultation length</Label>
+            <Select
+              value={String(slotDuration)}
+              onValueChange={(value) => setSlotDuration(Number(value))}
+            >
+              <SelectTrigger className="w-full sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SLOT_DURATIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="font-medium">Buffer between patients</Label>
+            <Select
+              value={String(bufferMinutes)}
+              onValueChange={(value) => setBufferMinutes(Number(value))}
+            >
+              <SelectTrigger className="w-full sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BUFFER_OPTIONS.map((minutes) => (
+                  <SelectItem key={minutes} value={String(minutes)}>
+                    {minutes === 0 ? "No buffer" : `${minutes} minutes`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="font-medium">Timezone</Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {getTimeZoneOptions(timeZone, getBrowserTimeZone()).map((zone) => (
+                  <SelectItem key={zone} value={zone}>
+                    {zone} ({getTimeZoneLabel(zone)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         <div className="space-y-4">
-          {availability.map((slot) => {
-            const day = DAYS.find((d) => d.value === slot.day_of_week);
+          {DAYS.map((day) => {
+            const dayWindows = availability.filter((slot) => slot.day_of_week === day.value);
+            const isDayAvailable = dayWindows.some((slot) => slot.is_available);
             return (
               <div
-                key={slot.day_of_week}
-                className={`flex flex-col sm:flex-row sm:items-center gap-3 sm:gap-4 p-4 rounded-lg border transition-colors ${slot.is_available ? "bg-background" : "bg-muted/50"
+                key={day.value}
+                className={`flex flex-col sm:flex-row sm:items-start gap-3 sm:gap-4 p-4 rounded-lg border transition-colors ${isDayAvailable ? "bg-background" : "bg-muted/50"
                   }`}
               >
-                <div className="w-full sm:w-28">
-                  <Label className="font-medium">{day?.label}</Label>
+                <div className="w-full sm:w-28 sm:pt-2">
+                  <Label className="font-medium">{day.label}</Label>
                 </div>
 
-                <div className="flex items-center gap-2 w-full sm:w-auto">
+                <div className="flex items-center gap-2 w-full sm:w-auto sm:pt-2">
                   <Switch
-                    checked={slot.is_available}
-                    onCheckedChange={(checked) =>
-                      updateSlot(slot.day_of_week, "is_available", checked)
-                    }
+                    checked={isDayAvailable}
+                    onCheckedChange={(checked) => setDayAvailable(day.value, checked)}
                   />
                   <span className="text-sm text-muted-foreground">
-                    {slot.is_available ? "Available" : "Unavailable"}
+                    {isDayAvailable ? "Available" : "Unavailable"}
                   </span>
                 </div>
 
-                {slot.is_available && (
-                  <div className="flex flex-wrap items-center gap-2 w-full sm:w-auto sm:ml-auto">
-                    <Select
-                      value={slot.start_time}
-                      onValueChange={(value) =>
-                        updateSlot(slot.day_of_week, "start_time", value)
-                      }
-                    >
-                      <SelectTrigger className="w-full sm:w-24">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {TIME_SLOTS.map((time) => (
-                          <SelectItem key={time.value} value={time.value}>
-                            {time.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-
-                    <span className="text-muted-foreground">to</span>
-
-                    <Select
-                      value={slot.end_time}
-                      onValueChange={(value) =>
-                        updateSlot(slot.day_of_week, "end_time", value)
-                      }
+                {isDayAvailable && (
+                  <div className="flex flex-col gap-2 w-full sm:w-auto sm:ml-auto">
+                    {dayWindows.map((slot) => (
+                      <div key={slot.key} className="flex flex-wrap items-center gap-2">
+                        <Select
+                          value={slot.start_time}
+                          onValueChange={(value) => updateWindow(slot.key, "start_time", value)}
+                        >
+                          <SelectTrigger className="w-full sm:w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TIME_SLOTS.map((time) => (
+                              <SelectItem key={time.value} value={time.value}>
+                                {time.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+
+                        <span className="text-muted-foreground">to</span>
+
+                        <Select
+                          value={slot.end_time}
+                          onValueChange={(value) => updateWindow(slot.key, "end_time", value)}
+                        >
+                          <SelectTrigger className="w-full sm:w-24">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {TIME_SLOTS.map((time) => (
+                              <SelectItem key={time.value} value={time.value}>
+                                {time.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+
+                        {offeredModes.length > 1 && (
+                          <Select
+                            value={slot.consultation_mode ?? ALL_MODES_VALUE}
+                            onValueChange={(value) => updateWindowMode(slot.key, value)}
+                          >
+                            <SelectTrigger className="w-full sm:w-44" aria-label="Consultation mode">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={ALL_MODES_VALUE}>All modes</SelectItem>
+                              {offeredModes.map((mode) => (
+                                <SelectItem key={mode} value={mode}>
+                                  {CONSULTATION_MODE_LABELS[mode]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        )}
+
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => removeWindow(slot)}
+                          disabled={dayWindows.length <= 1}
+                          aria-label="Remove window"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="self-start"
+                      onClick={() => addWindow(day.value)}
                     >
-                      <SelectTrigger className="w-full sm:w-24">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {TIME_SLOTS.map((time) => (
-                          <SelectItem key={time.value} value={time.value}>
-                            {time.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add window
+                    </Button>
                   </div>
                 )}
               </div>
             );
           })}
         </div>
+
+        <AvailabilityOverrides doctorId={doctorId} />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import type { IntakeForm } from "@/lib/intake-forms";
+import { IntakeFormEditor, type IntakeFormPayload } from "@/components/IntakeFormEditor";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+
+interface DoctorIntakeFormSettingsProps {
+  doctorId: string;
+}
+
+// The questionnaire the doctor's patients answer when booking. Editing a specialization's or the default form
+// saves a copy as the doctor's own; removing it goes back to the shared form.
+export function DoctorIntakeFormSettings({ doctorId }: DoctorIntakeFormSettingsProps) {
+  const [form, setForm] = useState<IntakeForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchForm() {
+      try {
+        const { data } = await api.get<IntakeForm>(`/intake-forms/doctor/${doctorId}`);
+        setForm(data);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load your intake form"));
+      }
+    }
+
+    fetchForm();
+  }, [doctorId, refreshKey]);
+
+  const isOwnForm = Boolean(form?.id && form.doctor_id);
+
+  const handleSave = async (payload: IntakeFormPayload) => {
+    setSaving(true);
+    try {
+      if (isOwnForm && form?.id) {
+        await api.put(`/intake-forms/${form.id}`, payload);
+      } else {
+        await api.post("/intake-forms", payload);
+      }
+      toast.success("Intake form saved");
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to save intake form"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!form?.id || !window.confirm("Remove your own form and use the shared questionnaire again?")) return;
+    try {
+      await api.delete(`/intake-forms/${form.id}`);
+      toast.success("Using the shared questionnaire");
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to remove intake form"));
+    }
+  };
+
+  if (!form) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {isOwnForm
+            ? "Patients answer your own questionnaire."
+            : form.id
+              ? `Patients answer the ${form.specialization} questionnaire. Saving creates your own copy.`
+              : "Patients answer the default questionnaire. Saving creates your own copy."}
+        </p>
+        {isOwnForm && (
+          <Button size="sm" variant="outline" onClick={handleReset}>
+            Use Shared Form
+          </Button>
+        )}
+      </div>
+      <IntakeFormEditor key={`${form.id}-${refreshKey}`} initialForm={form} saving={saving} onSave={handleSave} />
+    </div>
+  );
+}
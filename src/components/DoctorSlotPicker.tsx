@@ -0,0 +1,103 @@
+import { useEffect, useState } from "react";
+import api from "@/lib/api";
+import { Calendar } from "@/components/ui/calendar";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { toTimeSlots, type DoctorSlotsResponse, type TimeSlot } from "@/lib/time-slots";
+import { getBrowserTimeZone, getTimeZoneLabel } from "@/lib/timezone";
+
+interface DoctorSlotPickerProps {
+  doctorId: string;
+  selectedDate: Date | undefined;
+  selectedTime: string | null;
+  onDateChange: (date: Date | undefined) => void;
+  onTimeChange: (time: string) => void;
+  isDateDisabled?: (date: Date) => boolean;
+  defaultMonth?: Date;
+}
+
+// Calendar plus the doctor's free slots for the chosen day, in the doctor's timezone.
+export function DoctorSlotPicker({
+  doctorId,
+  selectedDate,
+  selectedTime,
+  onDateChange,
+  onTimeChange,
+  isDateDisabled,
+  defaultMonth,
+}: DoctorSlotPickerProps) {
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [slotTimeZone, setSlotTimeZone] = useState<string | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+
+  useEffect(() => {
+    async function fetchSlots() {
+      if (!doctorId || !selectedDate) return;
+
+      setLoadingSlots(true);
+      try {
+        const day = format(selectedDate, "yyyy-MM-dd");
+        const { data } = await api.get<DoctorSlotsResponse>(`/doctors/${doctorId}/slots?from=${day}&to=${day}`);
+        setTimeSlots(toTimeSlots(data?.days?.[0]));
+        setSlotTimeZone(data?.timezone || null);
+      } catch (error) {
+        console.error("Error fetching slots", error);
+      } finally {
+        setLoadingSlots(false);
+      }
+    }
+
+    fetchSlots();
+  }, [doctorId, selectedDate]);
+
+  return (
+    <div className="space-y-3">
+      <Calendar
+        mode="single"
+        selected={selectedDate}
+        onSelect={onDateChange}
+        disabled={isDateDisabled}
+        defaultMonth={defaultMonth}
+        className="rounded-md border mx-auto"
+      />
+
+      {selectedDate && (
+        loadingSlots ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {slotTimeZone && slotTimeZone !== getBrowserTimeZone() && (
+              <p className="text-xs text-muted-foreground">
+                Times are in the doctor's timezone ({slotTimeZone}, {getTimeZoneLabel(slotTimeZone)}).
+              </p>
+            )}
+            {timeSlots.length === 0 || !timeSlots.some((slot) => slot.available) ? (
+              <p className="text-sm text-muted-foreground">No free slots on this day.</p>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {timeSlots.map((slot) => (
+                  <button
+                    key={slot.time}
+                    type="button"
+                    disabled={!slot.available}
+                    onClick={() => onTimeChange(slot.time)}
+                    className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${!slot.available
+                      ? "bg-muted text-muted-foreground cursor-not-allowed"
+                      : selectedTime === slot.time
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-secondary hover:bg-primary/10"
+                      }`}
+                  >
+                    {slot.time}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
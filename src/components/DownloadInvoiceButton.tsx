@@ -0,0 +1,29 @@
+import { useState } from "react";
+import { getApiErrorMessage } from "@/lib/api";
+import { downloadAppointmentInvoice } from "@/lib/invoices";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Receipt } from "lucide-react";
+
+// Downloads the PDF invoice of a paid appointment, e.g. for an insurance claim
+export function DownloadInvoiceButton({ appointmentId, variant = "outline" }: { appointmentId: string; variant?: "outline" | "default" }) {
+  const [downloading, setDownloading] = useState(false);
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      await downloadAppointmentInvoice(appointmentId);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to download the invoice"));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Button size="sm" variant={variant} onClick={handleDownload} disabled={downloading}>
+      <Receipt className="h-4 w-4 mr-1" />
+      {downloading ? "Downloading..." : "Invoice"}
+    </Button>
+  );
+}
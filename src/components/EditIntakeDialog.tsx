@@ -0,0 +1,95 @@
+import { useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ClipboardList } from "lucide-react";
+import { IntakeFormFields } from "@/components/IntakeFormFields";
+import {
+  getIntakeAnswerValues,
+  type AppointmentIntake,
+  type IntakeAnswers,
+  type IntakeForm,
+} from "@/lib/intake-forms";
+
+interface EditIntakeDialogProps {
+  appointmentId: string;
+  doctorId: string;
+  intake?: AppointmentIntake | null;
+  onSuccess?: () => void;
+}
+
+export function EditIntakeDialog({ appointmentId, doctorId, intake, onSuccess }: EditIntakeDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<IntakeForm | null>(null);
+  const [answers, setAnswers] = useState<IntakeAnswers>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  // The form is loaded fresh on open since the doctor may have changed it after the booking
+  const handleOpenChange = async (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) return;
+
+    setForm(null);
+    setAnswers(getIntakeAnswerValues(intake));
+    try {
+      const { data } = await api.get<IntakeForm>(`/intake-forms/doctor/${doctorId}`);
+      setForm(data);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to load the questionnaire"));
+      setOpen(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setSubmitting(true);
+    try {
+      await api.put(`/appointments/${appointmentId}/intake`, { intake_answers: answers });
+      toast.success("Questionnaire saved");
+      setOpen(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to save the questionnaire"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <ClipboardList className="h-4 w-4 mr-1" />
+          {intake ? "Edit Questionnaire" : "Fill Questionnaire"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form?.title || "Intake questionnaire"}</DialogTitle>
+          <DialogDescription>Your answers are shared with the doctor before the consultation.</DialogDescription>
+        </DialogHeader>
+        {form ? (
+          <IntakeFormFields form={form} answers={answers} onChange={setAnswers} />
+        ) : (
+          <p className="text-sm text-muted-foreground">Loading questionnaire...</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!form || submitting}>
+            {submitting ? "Saving..." : "Save Answers"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Zap } from "lucide-react";
+import { CONSULTATION_MODE_LABELS } from "@/lib/consultation-modes";
+import { getMinutesToRespond, type EmergencyRequest } from "@/lib/emergency-requests";
+
+interface AcceptEmergencyResponse {
+  displaced: { appointment_id: string; outcome: "rebooked" | "refunded"; appointment_date: string; appointment_time: string }[];
+}
+
+interface EmergencyQueueProps {
+  // Called after an accept so the caller can reload its appointments
+  onAccepted?: () => void;
+}
+
+// The doctor's pending emergency requests, oldest first; nothing is rendered while the queue is empty
+export function EmergencyQueue({ onAccepted }: EmergencyQueueProps) {
+  const [requests, setRequests] = useState<EmergencyRequest[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+  const [declining, setDeclining] = useState<EmergencyRequest | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+
+  useEffect(() => {
+    const fetchQueue = async () => {
+      try {
+        const { data } = await api.get<EmergencyRequest[]>("/emergency-requests/mine");
+        setRequests(Array.isArray(data) ? data : []);
+        setNow(Date.now());
+      } catch (error) {
+        console.error("Error fetching emergency requests", error);
+      }
+    };
+
+    fetchQueue();
+    // Requests expire within minutes, so the queue is refreshed more often than the rest of the dashboard
+    const intervalId = window.setInterval(fetchQueue, 15000);
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const removeRequest = (requestId: string) => {
+    setRequests((prev) => prev.filter((r) => r._id !== requestId));
+  };
+
+  const handleAccept = async (request: EmergencyRequest) => {
+    setRespondingId(request._id);
+    try {
+      const { data } = await api.post<AcceptEmergencyResponse>(`/emergency-requests/${request._id}/accept`);
+      const rebooked = data.displaced.filter((d) => d.outcome === "rebooked").length;
+      const refunded = data.displaced.length - rebooked;
+      const notes = [
+        rebooked > 0 ? `${rebooked} booking(s) moved to the next free slot` : "",
+        refunded > 0 ? `${refunded} booking(s) cancelled and refunded` : "",
+      ].filter(Boolean);
+      toast.success(`Emergency accepted${notes.length > 0 ? `. ${notes.join(", ")}.` : ""}`);
+      removeRequest(request._id);
+      onAccepted?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to accept the emergency request"));
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const handleDecline = async () => {
+    if (!declining) return;
+    setRespondingId(declining._id);
+    try {
+      await api.post(`/emergency-requests/${declining._id}/decline`, { reason: declineReason.trim() });
+      toast.success("Emergency request declined");
+      removeRequest(declining._id);
+      setDeclining(null);
+      setDeclineReason("");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to decline the emergency request"));
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  const pending = requests.filter((r) => r.status === "pending" && getMinutesToRespond(r, now) > 0);
+  if (pending.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-8 border-warning">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5 text-warning" />
+          Emergency Requests ({pending.length})
+        </CardTitle>
+        <CardDescription>
+          Accepting books the emergency; a patient already booked at that time is moved to your next free slot.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pending.map((request) => (
+          <div key={request._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border">
+            <div>
+              <p className="font-medium">{request.patient_id?.full_name || "Patient"}</p>
+              <p className="text-sm text-muted-foreground">
+                {format(new Date(`${request.appointment_date}T00:00:00`), "MMM d, yyyy")} at {request.appointment_time}
+                {` · ${CONSULTATION_MODE_LABELS[request.consultation_mode]}`}
+              </p>
+              {request.reason && <p className="text-sm mt-1">{request.reason}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline">{getMinutesToRespond(request, now)} min left</Badge>
+              <Button size="sm" onClick={() => handleAccept(request)} disabled={respondingId === request._id}>
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setDeclining(request)}
+                disabled={respondingId === request._id}
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={Boolean(declining)} onOpenChange={(open) => { if (!open) setDeclining(null); }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Decline Emergency Request</DialogTitle>
+            <DialogDescription>The patient is told to try another doctor.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            placeholder="Reason (optional)"
+            value={declineReason}
+            onChange={(e) => setDeclineReason(e.target.value)}
+            maxLength={500}
+          />
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setDeclining(null)}>
+              Back
+            </Button>
+            <Button variant="destructive" onClick={handleDecline} disabled={respondingId === declining?._id}>
+              Decline
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
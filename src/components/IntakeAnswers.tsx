@@ -0,0 +1,75 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { format } from "date-fns";
+import { ClipboardList, Paperclip } from "lucide-react";
+import { formatIntakeValue, type AppointmentIntake } from "@/lib/intake-forms";
+
+// The patient's answers as they were submitted, attached records linked
+export function IntakeAnswers({ intake }: { intake: AppointmentIntake }) {
+  if (intake.answers.length === 0) {
+    return <p className="text-sm text-muted-foreground">The patient left every question blank.</p>;
+  }
+
+  return (
+    <dl className="space-y-3 text-sm">
+      {intake.answers.map((answer) => (
+        <div key={answer.question_id}>
+          <dt className="font-medium">{answer.label}</dt>
+          {answer.type === "medical_records" ? (
+            <dd className="mt-1 space-y-1">
+              {answer.records.map((record) => (
+                <a
+                  key={record.record_id}
+                  href={record.file_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-center gap-1 text-primary hover:underline"
+                >
+                  <Paperclip className="h-3.5 w-3.5" />
+                  {record.file_name}
+                  <span className="text-muted-foreground">· {record.record_type}</span>
+                </a>
+              ))}
+            </dd>
+          ) : (
+            <dd className="text-muted-foreground whitespace-pre-wrap">{formatIntakeValue(answer.value)}</dd>
+          )}
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface IntakeAnswersDialogProps {
+  intake: AppointmentIntake;
+  patientName: string;
+}
+
+export function IntakeAnswersDialog({ intake, patientName }: IntakeAnswersDialogProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Intake
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{intake.title || "Intake questionnaire"}</DialogTitle>
+          <DialogDescription>
+            {patientName}'s answers, submitted {format(new Date(intake.submitted_at), "MMM d, yyyy 'at' HH:mm")}
+          </DialogDescription>
+        </DialogHeader>
+        <IntakeAnswers intake={intake} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import {
+  INTAKE_QUESTION_TYPES,
+  INTAKE_QUESTION_TYPE_LABELS,
+  isChoiceQuestion,
+  type IntakeForm,
+  type IntakeQuestion,
+  type IntakeQuestionType,
+} from "@/lib/intake-forms";
+
+// Options are edited as one comma-separated field
+interface QuestionDraft {
+  id?: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  optionsText: string;
+}
+
+// Body for POST /intake-forms and PUT /intake-forms/:id
+export interface IntakeFormPayload {
+  title: string;
+  questions: (Omit<IntakeQuestion, "id"> & { id?: string })[];
+}
+
+const EMPTY_QUESTION: QuestionDraft = { label: "", type: "short_text", required: false, optionsText: "" };
+
+const toDraft = (question: IntakeQuestion): QuestionDraft => ({
+  // Built-in questions use fixed ids that are not stored, so they are sent back as new questions
+  id: /^[a-f\d]{24}$/i.test(question.id) ? question.id : undefined,
+  label: question.label,
+  type: question.type,
+  required: question.required,
+  optionsText: question.options.join(", "),
+});
+
+interface IntakeFormEditorProps {
+  // Form to start from; questions are copied so the default form can be used as a template
+  initialForm?: IntakeForm | null;
+  saving?: boolean;
+  submitLabel?: string;
+  onSave: (payload: IntakeFormPayload) => void;
+  onCancel?: () => void;
+}
+
+export function IntakeFormEditor({ initialForm, saving, submitLabel = "Save Form", onSave, onCancel }: IntakeFormEditorProps) {
+  const [title, setTitle] = useState(initialForm?.title || "Intake questionnaire");
+  const [questions, setQuestions] = useState<QuestionDraft[]>(
+    initialForm?.questions.length ? initialForm.questions.map(toDraft) : [{ ...EMPTY_QUESTION }]
+  );
+
+  const updateQuestion = (index: number, changes: Partial<QuestionDraft>) => {
+    setQuestions((prev) => prev.map((q, i) => (i === index ? { ...q, ...changes } : q)));
+  };
+
+  const handleSave = () => {
+    onSave({
+      title: title.trim(),
+      questions: questions.map((q) => ({
+        id: q.id,
+        label: q.label.trim(),
+        type: q.type,
+        required: q.required,
+        options: isChoiceQuestion(q.type)
+          ? q.optionsText.split(",").map((o) => o.trim()).filter(Boolean)
+          : [],
+      })),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="intake-form-title">Title</Label>
+        <Input id="intake-form-title" value={title} maxLength={200} onChange={(e) => setTitle(e.target.value)} />
+      </div>
+
+      {questions.map((question, index) => (
+        <div key={question.id || index} className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-start gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor={`intake-question-${index}`}>Question {index + 1}</Label>
+              <Input
+                id={`intake-question-${index}`}
+                value={question.label}
+                maxLength={200}
+                placeholder="e.g. Do you have any allergies?"
+                onChange={(e) => updateQuestion(index, { label: e.target.value })}
+              />
+            </div>
+            <Button
+              type="button"
+              size="icon"
+              variant="ghost"
+              className="mt-7"
+              disabled={questions.length === 1}
+              onClick={() => setQuestions((prev) => prev.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <Select
+              value={question.type}
+              onValueChange={(value) => updateQuestion(index, { type: value as IntakeQuestionType })}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTAKE_QUESTION_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {INTAKE_QUESTION_TYPE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id={`intake-required-${index}`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(index, { required: checked })}
+              />
+              <Label htmlFor={`intake-required-${index}`} className="font-normal">
+                Required
+              </Label>
+            </div>
+          </div>
+          {isChoiceQuestion(question.type) && (
+            <Input
+              value={question.optionsText}
+              placeholder="Options, separated by commas"
+              onChange={(e) => updateQuestion(index, { optionsText: e.target.value })}
+            />
+          )}
+        </div>
+      ))}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          disabled={questions.length >= 30}
+          onClick={() => setQuestions((prev) => [...prev, { ...EMPTY_QUESTION }])}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Question
+        </Button>
+        <div className="flex-1" />
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="button" onClick={handleSave} disabled={saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import api from "@/lib/api";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import type { IntakeAnswers, IntakeAnswerValue, IntakeForm, IntakeQuestion } from "@/lib/intake-forms";
+
+interface PatientRecord {
+  _id: string;
+  file_name: string;
+  record_type: string;
+}
+
+interface IntakeFormFieldsProps {
+  form: IntakeForm;
+  answers: IntakeAnswers;
+  onChange: (answers: IntakeAnswers) => void;
+}
+
+// Inputs for every question of an intake form; the patient's uploaded records are offered as attachments
+export function IntakeFormFields({ form, answers, onChange }: IntakeFormFieldsProps) {
+  const [records, setRecords] = useState<PatientRecord[]>([]);
+  const asksForRecords = form.questions.some((q) => q.type === "medical_records");
+
+  useEffect(() => {
+    if (!asksForRecords) return;
+
+    const fetchRecords = async () => {
+      try {
+        const { data } = await api.get<PatientRecord[]>("/medical-records");
+        setRecords(Array.isArray(data) ? data : []);
+      } catch (error) {
+        console.error("Error fetching medical records", error);
+      }
+    };
+
+    fetchRecords();
+  }, [asksForRecords]);
+
+  const setAnswer = (questionId: string, value: IntakeAnswerValue) => {
+    onChange({ ...answers, [questionId]: value });
+  };
+
+  const toggleListValue = (questionId: string, item: string, checked: boolean) => {
+    const current = Array.isArray(answers[questionId]) ? (answers[questionId] as string[]) : [];
+    setAnswer(questionId, checked ? [...current, item] : current.filter((v) => v !== item));
+  };
+
+  const renderInput = (question: IntakeQuestion) => {
+    const value = answers[question.id];
+    const inputId = `intake-${question.id}`;
+
+    switch (question.type) {
+      case "short_text":
+        return (
+          <Input
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            maxLength={2000}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+      case "long_text":
+        return (
+          <Textarea
+            id={inputId}
+            value={typeof value === "string" ? value : ""}
+            maxLength={2000}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+          />
+        );
+      case "yes_no":
+        return (
+          <RadioGroup
+            value={typeof value === "boolean" ? String(value) : ""}
+            onValueChange={(next) => setAnswer(question.id, next === "true")}
+            className="flex gap-6"
+          >
+            {["true", "false"].map((option) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${inputId}-${option}`} />
+                <Label htmlFor={`${inputId}-${option}`} className="font-normal">
+                  {option === "true" ? "Yes" : "No"}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case "single_choice":
+        return (
+          <RadioGroup value={typeof value === "string" ? value : ""} onValueChange={(next) => setAnswer(question.id, next)}>
+            {question.options.map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${inputId}-${index}`} />
+                <Label htmlFor={`${inputId}-${index}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case "multiple_choice":
+        return (
+          <div className="space-y-2">
+            {question.options.map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${inputId}-${index}`}
+                  checked={Array.isArray(value) && value.includes(option)}
+                  onCheckedChange={(checked) => toggleListValue(question.id, option, checked === true)}
+                />
+                <Label htmlFor={`${inputId}-${index}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+      case "medical_records":
+        return records.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No records uploaded yet. Add them under <Link to="/medical-documents" className="underline">Medical Documents</Link>.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {records.map((record) => (
+              <div key={record._id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${inputId}-${record._id}`}
+                  checked={Array.isArray(value) && value.includes(record._id)}
+                  onCheckedChange={(checked) => toggleListValue(question.id, record._id, checked === true)}
+                />
+                <Label htmlFor={`${inputId}-${record._id}`} className="font-normal">
+                  {record.file_name} <span className="text-muted-foreground">· {record.record_type}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {form.questions.map((question) => (
+        <div key={question.id} className="space-y-2">
+          <Label htmlFor={`intake-${question.id}`} className="font-medium">
+            {question.label}
+            {question.required && <span className="text-destructive"> *</span>}
+          </Label>
+          {renderInput(question)}
+        </div>
+      ))}
+    </div>
+  );
+}
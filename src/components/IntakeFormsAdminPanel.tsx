@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import type { IntakeForm } from "@/lib/intake-forms";
+import { IntakeFormEditor, type IntakeFormPayload } from "@/components/IntakeFormEditor";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { ClipboardList, Plus, Trash2 } from "lucide-react";
+
+// null while closed; an empty object to create a new specialization form
+type EditorState = { form?: IntakeForm } | null;
+
+// Admin tools for the intake questionnaire each specialization's patients fill in when booking.
+export function IntakeFormsAdminPanel() {
+  const [forms, setForms] = useState<IntakeForm[]>([]);
+  const [editor, setEditor] = useState<EditorState>(null);
+  const [specialization, setSpecialization] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchForms() {
+      try {
+        const { data } = await api.get<IntakeForm[]>("/intake-forms");
+        setForms(data || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load intake forms"));
+      }
+    }
+
+    fetchForms();
+  }, [refreshKey]);
+
+  const openEditor = (form?: IntakeForm) => {
+    setSpecialization(form?.specialization || "");
+    setEditor({ form });
+  };
+
+  const handleSave = async (payload: IntakeFormPayload) => {
+    setSaving(true);
+    try {
+      if (editor?.form?.id) {
+        await api.put(`/intake-forms/${editor.form.id}`, payload);
+        toast.success("Intake form updated");
+      } else {
+        await api.post("/intake-forms", { ...payload, specialization: specialization.trim() });
+        toast.success("Intake form created");
+      }
+      setEditor(null);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to save intake form"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (form: IntakeForm) => {
+    if (!form.id || !window.confirm(`Delete the intake form "${form.title}"?`)) return;
+    try {
+      await api.delete(`/intake-forms/${form.id}`);
+      toast.success("Intake form deleted");
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to delete intake form"));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" />
+            Intake Forms
+          </CardTitle>
+          <CardDescription>
+            Questionnaires patients answer when booking. Doctors without their own form use their specialization's,
+            or the built-in default.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openEditor()}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Form
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {forms.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No intake forms yet. Every doctor uses the default questionnaire.</p>
+        ) : (
+          forms.map((form) => (
+            <div key={form.id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+              <div>
+                <p className="font-medium">{form.title}</p>
+                <p className="text-sm text-muted-foreground">
+                  {form.specialization} · {form.questions.length} question{form.questions.length === 1 ? "" : "s"}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {form.doctor_id && <Badge variant="secondary">Doctor's own</Badge>}
+                <Button size="sm" variant="outline" onClick={() => openEditor(form)}>
+                  Edit
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => handleDelete(form)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      <Dialog open={editor !== null} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editor?.form ? "Edit Intake Form" : "New Intake Form"}</DialogTitle>
+            <DialogDescription>Changes apply to new bookings; past answers keep the questions they were given with.</DialogDescription>
+          </DialogHeader>
+          {editor && !editor.form && (
+            <div className="space-y-2">
+              <Label htmlFor="intake-form-specialization">Specialization</Label>
+              <Input
+                id="intake-form-specialization"
+                value={specialization}
+                placeholder="e.g. Cardiology"
+                onChange={(e) => setSpecialization(e.target.value)}
+              />
+            </div>
+          )}
+          {editor && (
+            <IntakeFormEditor
+              key={editor.form?.id || "new"}
+              initialForm={editor.form}
+              saving={saving}
+              onSave={handleSave}
+              onCancel={() => setEditor(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
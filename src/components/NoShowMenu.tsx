@@ -0,0 +1,58 @@
+import { useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "sonner";
+import { UserX } from "lucide-react";
+import type { NoShowOutcome } from "@/lib/appointment-status";
+
+interface NoShowMenuProps {
+  appointmentId: string;
+  onSuccess?: () => void;
+}
+
+export function NoShowMenu({ appointmentId, onSuccess }: NoShowMenuProps) {
+  const [submitting, setSubmitting] = useState(false);
+
+  const record = async (outcome: NoShowOutcome) => {
+    setSubmitting(true);
+    try {
+      const { data } = await api.put(`/appointments/${appointmentId}/no-show`, { outcome });
+      const refundNote = data?.refunded ? " The patient has been refunded." : "";
+      toast.success(
+        outcome === "no_show_patient"
+          ? `Recorded the patient as a no-show.${refundNote}`
+          : `Recorded that you could not attend.${refundNote}`
+      );
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to record the no-show"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" disabled={submitting}>
+          <UserX className="h-4 w-4 mr-1" />
+          {submitting ? "Saving..." : "No-show"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Who did not attend?</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => record("no_show_patient")}>The patient did not join</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => record("no_show_doctor")}>I could not attend</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,405 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import {
+  getOrganizationDoctorName,
+  type Organization,
+  type OrganizationDetail,
+  type OrganizationDoctor,
+  type OrganizationSettlementRow,
+} from "@/lib/organizations";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Building2, Loader2, Plus, Trash2 } from "lucide-react";
+
+// Doctor from GET /doctors/admin/all with the organization populated
+type DirectoryDoctor = OrganizationDoctor & {
+  organization_id?: { _id: string; name: string } | null;
+};
+
+const EMPTY_ORGANIZATION_FORM = { name: "", contact_email: "", phone: "", address: "" };
+
+interface OrganizationsAdminPanelProps {
+  // Called after an organization settlement so the doctor earnings on the page refresh too
+  onSettled?: () => void;
+}
+
+// Admin tools for clinics: onboarding, membership and the single settlement each organization is paid through.
+export function OrganizationsAdminPanel({ onSettled }: OrganizationsAdminPanelProps) {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [settlementRows, setSettlementRows] = useState<OrganizationSettlementRow[]>([]);
+  const [doctors, setDoctors] = useState<DirectoryDoctor[]>([]);
+  const [selected, setSelected] = useState<OrganizationDetail | null>(null);
+  const [form, setForm] = useState(EMPTY_ORGANIZATION_FORM);
+  const [doctorToAdd, setDoctorToAdd] = useState("");
+  const [adminEmail, setAdminEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [settling, setSettling] = useState<OrganizationSettlementRow | null>(null);
+  const [settlementAmountInput, setSettlementAmountInput] = useState("");
+  const [settlementNoteInput, setSettlementNoteInput] = useState("");
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchOrganizations() {
+      try {
+        const [{ data: organizationsData }, { data: settlementData }, { data: doctorsData }] = await Promise.all([
+          api.get<Organization[]>("/organizations"),
+          api.get<OrganizationSettlementRow[]>("/payments/admin/organization-earnings"),
+          api.get<DirectoryDoctor[]>("/doctors/admin/all"),
+        ]);
+        setOrganizations(organizationsData || []);
+        setSettlementRows(settlementData || []);
+        setDoctors(doctorsData || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load organizations"));
+      }
+    }
+
+    fetchOrganizations();
+  }, [refreshKey]);
+
+  const refresh = () => setRefreshKey((key) => key + 1);
+
+  const selectOrganization = async (organizationId: string) => {
+    try {
+      const { data } = await api.get<OrganizationDetail>(`/organizations/${organizationId}`);
+      setSelected(data);
+      setDoctorToAdd("");
+      setAdminEmail("");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to load organization"));
+    }
+  };
+
+  // Membership endpoints all answer with the updated organization detail
+  const updateMembership = async (request: () => Promise<{ data: OrganizationDetail }>, successMessage: string) => {
+    setSaving(true);
+    try {
+      const { data } = await request();
+      setSelected(data);
+      toast.success(successMessage);
+      refresh();
+      return true;
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update organization"));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!form.name.trim()) {
+      toast.error("Organization name is required");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await api.post<Organization>("/organizations", form);
+      toast.success(`${data.name} created`);
+      setForm(EMPTY_ORGANIZATION_FORM);
+      refresh();
+      await selectOrganization(data._id);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to create organization"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddDoctor = async () => {
+    if (!selected || !doctorToAdd) return;
+    const added = await updateMembership(
+      () => api.post(`/organizations/${selected._id}/doctors`, { doctor_id: doctorToAdd }),
+      "Doctor added"
+    );
+    if (added) setDoctorToAdd("");
+  };
+
+  const handleAddAdmin = async () => {
+    if (!selected || !adminEmail.trim()) return;
+    const added = await updateMembership(
+      () => api.post(`/organizations/${selected._id}/admins`, { email: adminEmail.trim() }),
+      "Clinic admin added"
+    );
+    if (added) setAdminEmail("");
+  };
+
+  const openSettleDialog = (row: OrganizationSettlementRow) => {
+    if (row.unsettled_payments === 0) {
+      toast.info("No unsettled earnings for this organization");
+      return;
+    }
+    setSettling(row);
+    setSettlementAmountInput(String(Math.max(0, row.unsettled_earnings - (row.clawback_due || 0)) || ""));
+    setSettlementNoteInput("");
+  };
+
+  const handleSettle = async () => {
+    if (!settling) return;
+
+    const requestedAmount = Number(settlementAmountInput);
+    if (!Number.isFinite(requestedAmount) || requestedAmount <= 0) {
+      toast.error("Enter a valid settlement amount");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await api.patch(`/payments/admin/settle-organization/${settling.organization_id}`, {
+        settlement_amount: requestedAmount,
+        notes: settlementNoteInput,
+      });
+      toast.success(
+        `${settling.organization_name} settled ₹${data?.settled_amount || 0}. Left ₹${data?.remaining_unsettled_amount || 0}`
+      );
+      setSettling(null);
+      refresh();
+      onSettled?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to settle organization earnings"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Verified doctors that are not in any organization yet
+  const availableDoctors = doctors.filter((doctor) => doctor.is_verified && !doctor.organization_id);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" />
+              New Organization
+            </CardTitle>
+            <CardDescription>Onboard a clinic or hospital</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {(["name", "contact_email", "phone", "address"] as const).map((field) => (
+              <div key={field} className="space-y-1">
+                <Label htmlFor={`organization-${field}`} className="capitalize">
+                  {field.replace("_", " ")}
+                </Label>
+                <Input
+                  id={`organization-${field}`}
+                  value={form[field]}
+                  onChange={(e) => setForm((prev) => ({ ...prev, [field]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <Button className="w-full" onClick={handleCreate} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Create Organization
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Organizations</CardTitle>
+            <CardDescription>Select an organization to manage its doctors and clinic admins</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {organizations.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No organizations yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {organizations.map((organization) => (
+                  <button
+                    key={organization._id}
+                    type="button"
+                    onClick={() => selectOrganization(organization._id)}
+                    className={`w-full text-left p-3 border rounded-lg flex items-center justify-between hover:bg-muted/50 ${
+                      selected?._id === organization._id ? "border-primary" : ""
+                    }`}
+                  >
+                    <span className="flex items-center gap-2 font-medium">
+                      <Building2 className="h-4 w-4 text-primary" />
+                      {organization.name}
+                    </span>
+                    <Badge variant="outline">{organization.doctor_count || 0} doctors</Badge>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selected.name}</CardTitle>
+            <CardDescription>
+              {[selected.address, selected.contact_email, selected.phone].filter(Boolean).join(" • ") || "No contact details"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-3">
+              <h3 className="font-semibold">Doctors</h3>
+              {selected.doctors.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No doctors yet.</p>
+              ) : (
+                selected.doctors.map((doctor) => (
+                  <div key={doctor._id} className="flex items-center justify-between p-2 border rounded-md">
+                    <div>
+                      <p className="text-sm font-medium">{getOrganizationDoctorName(doctor)}</p>
+                      <p className="text-xs text-muted-foreground">{doctor.specialization}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={saving}
+                      onClick={() => updateMembership(
+                        () => api.delete(`/organizations/${selected._id}/doctors/${doctor._id}`),
+                        "Doctor removed"
+                      )}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <div className="flex gap-2">
+                <Select value={doctorToAdd} onValueChange={setDoctorToAdd}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={availableDoctors.length ? "Choose a doctor" : "No unassigned doctors"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableDoctors.map((doctor) => (
+                      <SelectItem key={doctor._id} value={doctor._id}>
+                        {getOrganizationDoctorName(doctor)} • {doctor.specialization}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={handleAddDoctor} disabled={saving || !doctorToAdd}>Add</Button>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">Clinic Admins</h3>
+              {selected.admins.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No clinic admins yet.</p>
+              ) : (
+                selected.admins.map((admin) => (
+                  <div key={admin._id} className="flex items-center justify-between p-2 border rounded-md">
+                    <div>
+                      <p className="text-sm font-medium">{admin.full_name || admin.email}</p>
+                      <p className="text-xs text-muted-foreground">{admin.email}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={saving}
+                      onClick={() => updateMembership(
+                        () => api.delete(`/organizations/${selected._id}/admins/${admin._id}`),
+                        "Clinic admin removed"
+                      )}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <div className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="Email of an existing patient account"
+                  value={adminEmail}
+                  onChange={(e) => setAdminEmail(e.target.value)}
+                />
+                <Button onClick={handleAddAdmin} disabled={saving || !adminEmail.trim()}>Add</Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Organization Settlements</CardTitle>
+          <CardDescription>Doctors in an organization are paid through one settlement to the organization</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {settlementRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No organization earnings yet.</p>
+          ) : (
+            <div className="space-y-3">
+              {settlementRows.map((row) => (
+                <div
+                  key={row.organization_id}
+                  className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 border rounded-lg"
+                >
+                  <div>
+                    <p className="font-semibold">{row.organization_name}</p>
+                    <div className="flex flex-wrap gap-2 mt-2 text-xs">
+                      <Badge variant="outline">Doctors: {row.doctor_count}</Badge>
+                      <Badge variant="outline">Total: ₹{row.total_earnings}</Badge>
+                      <Badge variant="outline">Settled: ₹{row.settled_earnings}</Badge>
+                      <Badge variant={row.unsettled_earnings > 0 ? "destructive" : "secondary"}>
+                        Unsettled: ₹{row.unsettled_earnings}
+                      </Badge>
+                    </div>
+                  </div>
+                  <Button onClick={() => openSettleDialog(row)} disabled={row.unsettled_payments === 0}>
+                    Settle Earnings
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!settling} onOpenChange={(open) => !open && setSettling(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Settle {settling?.organization_name}</DialogTitle>
+            <DialogDescription>
+              Unsettled: ₹{settling?.unsettled_earnings || 0}
+              {settling?.clawback_due ? ` • ₹${settling.clawback_due} withheld for refunds` : ""}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="organization-settlement-amount">Amount</Label>
+              <Input
+                id="organization-settlement-amount"
+                type="number"
+                min="0"
+                value={settlementAmountInput}
+                onChange={(e) => setSettlementAmountInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="organization-settlement-note">Note</Label>
+              <Textarea
+                id="organization-settlement-note"
+                value={settlementNoteInput}
+                onChange={(e) => setSettlementNoteInput(e.target.value)}
+                placeholder="Transfer reference (optional)"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSettling(null)}>Cancel</Button>
+            <Button onClick={handleSettle} disabled={saving}>
+              {saving ? "Settling..." : "Confirm Settlement"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
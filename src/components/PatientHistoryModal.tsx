@@ -13,7 +13,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
-import { History, FileText, Pill, Stethoscope, Download } from "lucide-react";
+import { History, FileText, Pill, Stethoscope, Download, ClipboardList } from "lucide-react";
+import { IntakeAnswers } from "@/components/IntakeAnswers";
+import type { IntakeResponse } from "@/lib/intake-forms";
 
 interface Medication {
     name: string;
@@ -40,24 +42,32 @@ interface Prescription {
 interface PatientHistoryModalProps {
     patientId: string;
     patientName: string;
+    // Family member on the patient's account the history is for; omitted for the account holder
+    dependentId?: string;
 }
 
-export function PatientHistoryModal({ patientId, patientName }: PatientHistoryModalProps) {
+export function PatientHistoryModal({ patientId, patientName, dependentId }: PatientHistoryModalProps) {
     const [open, setOpen] = useState(false);
     const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+    const [intakeResponses, setIntakeResponses] = useState<IntakeResponse[]>([]);
     const [loading, setLoading] = useState(false);
 
     useEffect(() => {
         if (open && patientId) {
             fetchHistory();
         }
-    }, [open, patientId]);
+    }, [open, patientId, dependentId]);
 
     const fetchHistory = async () => {
         setLoading(true);
         try {
-            const { data } = await api.get(`/prescriptions/patient/${patientId}`);
+            const params = { dependent_id: dependentId || "self" };
+            const [{ data }, { data: intakes }] = await Promise.all([
+                api.get(`/prescriptions/patient/${patientId}`, { params }),
+                api.get<IntakeResponse[]>(`/intake-forms/patient/${patientId}/responses`, { params }),
+            ]);
             setPrescriptions(data);
+            setIntakeResponses(Array.isArray(intakes) ? intakes : []);
         } catch (error) {
             console.error("Error fetching patient history:", error);
         } finally {
@@ -77,7 +87,7 @@ export function PatientHistoryModal({ patientId, patientName }: PatientHistoryMo
                 <DialogHeader>
                     <DialogTitle>Medical History: {patientName}</DialogTitle>
                     <DialogDescription>
-                        Review previous prescriptions and clinical notes for this patient.
+                        Review intake answers, previous prescriptions and clinical notes for this patient.
                     </DialogDescription>
                 </DialogHeader>
 
@@ -88,13 +98,27 @@ export function PatientHistoryModal({ patientId, patientName }: PatientHistoryMo
                                 <Skeleton key={i} className="h-32 w-full" />
                             ))}
                         </div>
-                    ) : prescriptions.length === 0 ? (
+                    ) : prescriptions.length === 0 && intakeResponses.length === 0 ? (
                         <div className="text-center py-12 text-muted-foreground">
                             <FileText className="h-12 w-12 mx-auto mb-4 opacity-20" />
-                            <p>No previous prescriptions found for this patient.</p>
+                            <p>No intake answers or prescriptions found for this patient.</p>
                         </div>
                     ) : (
                         <div className="space-y-6">
+                            {intakeResponses.map((response) => (
+                                <div key={response.appointment_id} className="border rounded-xl p-4">
+                                    <div className="mb-3">
+                                        <h4 className="font-bold flex items-center gap-2">
+                                            <ClipboardList className="h-4 w-4" />
+                                            {response.intake.title || "Intake questionnaire"}
+                                        </h4>
+                                        <p className="text-xs text-muted-foreground mt-0.5">
+                                            For the appointment on {format(new Date(`${response.appointment_date}T00:00:00`), "MMM d, yyyy")} at {response.appointment_time}
+                                        </p>
+                                    </div>
+                                    <IntakeAnswers intake={response.intake} />
+                                </div>
+                            ))}
                             {prescriptions.map((px) => (
                                 <div key={px._id} className="border rounded-xl p-4 bg-muted/30 relative group">
                                     <div className="flex justify-between items-start mb-3">
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { addDays, format, isBefore, startOfToday } from "date-fns";
+import { DoctorSlotPicker } from "@/components/DoctorSlotPicker";
+
+// Same limit the server enforces for range proposals
+const MAX_FOLLOW_UP_RANGE_DAYS = 60;
+
+interface ProposeFollowUpDialogProps {
+  appointmentId: string;
+  doctorId: string;
+  patientName: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: () => void;
+}
+
+export function ProposeFollowUpDialog({
+  appointmentId,
+  doctorId,
+  patientName,
+  open,
+  onOpenChange,
+  onSuccess,
+}: ProposeFollowUpDialogProps) {
+  const [mode, setMode] = useState<"slot" | "range">("slot");
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [range, setRange] = useState<DateRange | undefined>(undefined);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    onOpenChange(nextOpen);
+    if (!nextOpen) {
+      setMode("slot");
+      setSelectedDate(undefined);
+      setSelectedTime(null);
+      setRange(undefined);
+      setNote("");
+    }
+  };
+
+  const canSubmit = mode === "slot" ? Boolean(selectedDate && selectedTime) : Boolean(range?.from);
+
+  const handleSubmit = async () => {
+    const body =
+      mode === "slot"
+        ? {
+            appointment_id: appointmentId,
+            appointment_date: selectedDate ? format(selectedDate, "yyyy-MM-dd") : undefined,
+            appointment_time: selectedTime,
+            note,
+          }
+        : {
+            appointment_id: appointmentId,
+            from_date: range?.from ? format(range.from, "yyyy-MM-dd") : undefined,
+            to_date: format(range?.to || range?.from || new Date(), "yyyy-MM-dd"),
+            note,
+          };
+
+    setSubmitting(true);
+    try {
+      await api.post("/follow-ups", body);
+      toast.success(`Follow-up sent to ${patientName}`);
+      handleOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to propose follow-up"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Propose Follow-up</DialogTitle>
+          <DialogDescription>
+            Recommend a follow-up visit to {patientName}. They can accept it with one click and are charged your follow-up fee.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "slot" | "range")}>
+          <TabsList className="grid grid-cols-2">
+            <TabsTrigger value="slot">Specific slot</TabsTrigger>
+            <TabsTrigger value="range">Date range</TabsTrigger>
+          </TabsList>
+          <TabsContent value="slot">
+            <DoctorSlotPicker
+              doctorId={doctorId}
+              selectedDate={selectedDate}
+              selectedTime={selectedTime}
+              onDateChange={(date) => {
+                setSelectedDate(date);
+                setSelectedTime(null);
+              }}
+              onTimeChange={setSelectedTime}
+              isDateDisabled={(date) => isBefore(date, startOfToday())}
+            />
+          </TabsContent>
+          <TabsContent value="range" className="space-y-2">
+            <p className="text-sm text-muted-foreground">The patient picks any free slot in this range.</p>
+            <Calendar
+              mode="range"
+              selected={range}
+              onSelect={setRange}
+              disabled={(date) =>
+                isBefore(date, startOfToday()) ||
+                (range?.from && !range.to ? date > addDays(range.from, MAX_FOLLOW_UP_RANGE_DAYS) : false)
+              }
+              className="rounded-md border mx-auto"
+            />
+          </TabsContent>
+        </Tabs>
+
+        <div className="space-y-2">
+          <Label htmlFor="follow-up-note">Note for the patient (optional)</Label>
+          <Textarea
+            id="follow-up-note"
+            placeholder="e.g. Review blood test results"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+            Skip
+          </Button>
+          <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
+            {submitting ? "Sending..." : "Send Follow-up"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { PAYMENT_PROVIDER_LABELS } from "@/lib/payment-providers";
+import {
+  RECONCILIATION_ACTION_LABELS,
+  RECONCILIATION_ISSUE_LABELS,
+  downloadReconciliationReport,
+  type ReconciliationReport,
+} from "@/lib/reconciliation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Download, Scale } from "lucide-react";
+
+// Admin view of the payment reconciliation job: past runs, what each one fixed or left for review,
+// and a CSV download per run.
+export function ReconciliationAdminPanel() {
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchReports() {
+      try {
+        const { data } = await api.get<ReconciliationReport[]>("/payments/admin/reconciliation");
+        setReports(data || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load reconciliation reports"));
+      }
+    }
+
+    fetchReports();
+  }, [refreshKey]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const { data } = await api.post<ReconciliationReport>("/payments/admin/reconciliation/run");
+      toast.success(
+        `Checked ${data.checked_count} payments: ${data.fixed_count} fixed, ${data.review_count} need review`
+      );
+      setSelectedId(data._id);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to run reconciliation"));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleDownload = async (report: ReconciliationReport) => {
+    try {
+      await downloadReconciliationReport(report);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to download report"));
+    }
+  };
+
+  const selected = reports.find((report) => report._id === selectedId) ?? reports[0] ?? null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Payment Reconciliation
+            </CardTitle>
+            <CardDescription>
+              Every hour, open and recent gateway payments are compared with what the gateway captured. Clear
+              mismatches are fixed automatically; the rest are listed for review.
+            </CardDescription>
+          </div>
+          <Button onClick={handleRun} disabled={running}>
+            {running ? "Reconciling..." : "Run now"}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {reports.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No reconciliation has run yet.</p>
+          ) : (
+            <div className="max-h-80 space-y-2 overflow-y-auto">
+              {reports.map((report) => (
+                <div
+                  key={report._id}
+                  className={`flex items-center justify-between gap-4 rounded-lg border p-3 ${
+                    report._id === selected?._id ? "border-primary" : ""
+                  }`}
+                >
+                  <button type="button" className="min-w-0 flex-1 text-left" onClick={() => setSelectedId(report._id)}>
+                    <p className="font-medium">{format(new Date(report.started_at), "dd MMM yyyy, HH:mm")}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {report.trigger === "manual"
+                        ? `Run by ${report.triggered_by?.full_name || "an admin"}`
+                        : "Scheduled"}{" "}
+                      · {report.checked_count} checked · {report.matched_count} matched
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-2">
+                    {report.fixed_count > 0 && <Badge variant="secondary">{report.fixed_count} fixed</Badge>}
+                    {report.review_count > 0 && <Badge variant="destructive">{report.review_count} to review</Badge>}
+                    {!report.finished_at && <Badge variant="outline">Running</Badge>}
+                    <Button size="sm" variant="outline" onClick={() => handleDownload(report)}>
+                      <Download className="h-4 w-4 mr-1" />
+                      CSV
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Mismatches</CardTitle>
+            <CardDescription>
+              Run of {format(new Date(selected.started_at), "dd MMM yyyy, HH:mm")}. Payments that matched their gateway are
+              not listed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {selected.entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every payment matched its gateway.</p>
+            ) : (
+              selected.entries.map((entry) => (
+                <div key={entry.payment_id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      ₹{entry.amount} · {RECONCILIATION_ISSUE_LABELS[entry.issue]}
+                    </p>
+                    <p className="text-sm text-muted-foreground truncate">
+                      {entry.provider ? PAYMENT_PROVIDER_LABELS[entry.provider] : "Unknown gateway"} order{" "}
+                      {entry.order_id || "—"} · ours {entry.status_before || "—"}
+                      {entry.status_after && entry.status_after !== entry.status_before ? ` → ${entry.status_after}` : ""} ·
+                      gateway {entry.gateway_status || "—"}
+                    </p>
+                    {entry.message && <p className="text-sm text-muted-foreground">{entry.message}</p>}
+                  </div>
+                  <Badge variant={entry.action === "needs_review" ? "destructive" : "secondary"}>
+                    {RECONCILIATION_ACTION_LABELS[entry.action]}
+                  </Badge>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { PAYMENT_PROVIDER_LABELS } from "@/lib/payment-providers";
+import {
+  REFUND_SOURCE_LABELS,
+  REFUND_STATUS_LABELS,
+  getRefundableAmount,
+  type Refund,
+  type RefundablePayment,
+  type RefundStatus,
+} from "@/lib/refunds";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { RotateCcw, Undo2 } from "lucide-react";
+
+const STATUS_BADGE_VARIANTS: Record<RefundStatus, "default" | "secondary" | "destructive"> = {
+  initiated: "secondary",
+  processed: "default",
+  failed: "destructive",
+};
+
+function describeAppointment(appointment: { appointment_date: string; appointment_time: string } | null) {
+  return appointment ? `${appointment.appointment_date} at ${appointment.appointment_time}` : "Unknown appointment";
+}
+
+// Admin tools for refunding payments in full or in part and following refunds through the gateway.
+export function RefundsAdminPanel() {
+  const [payments, setPayments] = useState<RefundablePayment[]>([]);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<RefundablePayment | null>(null);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    async function fetchRefunds() {
+      try {
+        const [paymentsRes, refundsRes] = await Promise.all([
+          api.get<RefundablePayment[]>("/payments/admin/all"),
+          api.get<Refund[]>("/payments/admin/refunds"),
+        ]);
+        setPayments((paymentsRes.data || []).filter((payment) => getRefundableAmount(payment) > 0));
+        setRefunds(refundsRes.data || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load refunds"));
+      }
+    }
+
+    fetchRefunds();
+  }, [refreshKey]);
+
+  const openRefund = (payment: RefundablePayment) => {
+    setSelected(payment);
+    setAmount("");
+    setReason("");
+  };
+
+  const handleRefund = async () => {
+    if (!selected) return;
+    setSubmitting(true);
+    try {
+      const { data } = await api.post<Refund>(`/payments/admin/payments/${selected._id}/refund`, {
+        amount: amount.trim() === "" ? undefined : Number(amount),
+        reason: reason.trim(),
+      });
+      if (data.status === "failed") {
+        toast.error(`Refund failed: ${data.failure_reason || "the payment gateway rejected it"}`);
+      } else {
+        toast.success(data.status === "processed" ? "Refund processed" : "Refund initiated with the payment gateway");
+      }
+      setSelected(null);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to refund payment"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = async (refund: Refund) => {
+    setRetryingId(refund._id);
+    try {
+      const { data } = await api.post<Refund>(`/payments/admin/refunds/${refund._id}/retry`);
+      if (data.status === "failed") {
+        toast.error(`Refund failed again: ${data.failure_reason || "the payment gateway rejected it"}`);
+      } else {
+        toast.success("Refund sent again");
+      }
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to retry refund"));
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visiblePayments = payments.filter((payment) => {
+    if (!query) return true;
+    return [payment.patient_id?.full_name, payment.patient_id?.email, payment.appointment_id?.doctor_id?.user_id?.full_name]
+      .some((value) => value?.toLowerCase().includes(query));
+  });
+  const selectedRefundable = selected ? getRefundableAmount(selected) : 0;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Undo2 className="h-5 w-5" />
+            Refund a Payment
+          </CardTitle>
+          <CardDescription>
+            Gateway payments are refunded through the gateway they were paid with. The doctor's share of a refund is
+            taken out of their earnings.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Input placeholder="Search by patient or doctor" value={search} onChange={(e) => setSearch(e.target.value)} />
+          {visiblePayments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments left to refund.</p>
+          ) : (
+            <div className="max-h-96 space-y-2 overflow-y-auto">
+              {visiblePayments.map((payment) => (
+                <div key={payment._id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <p className="font-medium">{payment.patient_id?.full_name || "Patient"}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Dr. {payment.appointment_id?.doctor_id?.user_id?.full_name || "Unknown"} ·{" "}
+                      {describeAppointment(payment.appointment_id)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <div className="text-right text-sm">
+                      <p className="font-medium">₹{getRefundableAmount(payment)}</p>
+                      {Number(payment.refunded_amount || 0) > 0 && (
+                        <p className="text-muted-foreground">of ₹{payment.amount}</p>
+                      )}
+                    </div>
+                    <Button size="sm" variant="outline" onClick={() => openRefund(payment)}>
+                      Refund
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Refunds</CardTitle>
+          <CardDescription>The latest refunds, whether triggered by the cancellation policy, a no-show or an admin.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {refunds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No refunds yet.</p>
+          ) : (
+            refunds.map((refund) => (
+              <div key={refund._id} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    ₹{refund.amount} to {refund.patient_id?.full_name || "Patient"}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {REFUND_SOURCE_LABELS[refund.source]} · {describeAppointment(refund.appointment_id)} ·{" "}
+                    {format(new Date(refund.createdAt), "dd MMM yyyy, HH:mm")}
+                  </p>
+                  {refund.reason && <p className="text-sm text-muted-foreground truncate">{refund.reason}</p>}
+                  {refund.status === "failed" && refund.failure_reason && (
+                    <p className="text-sm text-destructive">{refund.failure_reason}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{refund.gateway === "none" ? "Manual" : PAYMENT_PROVIDER_LABELS[refund.gateway]}</Badge>
+                  <Badge variant={STATUS_BADGE_VARIANTS[refund.status]}>{REFUND_STATUS_LABELS[refund.status]}</Badge>
+                  {refund.status === "failed" && (
+                    <Button size="sm" variant="outline" disabled={retryingId === refund._id} onClick={() => handleRetry(refund)}>
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Retry
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund Payment</DialogTitle>
+            <DialogDescription>
+              {selected?.patient_id?.full_name || "Patient"} · {describeAppointment(selected?.appointment_id ?? null)}.
+              Up to ₹{selectedRefundable} can be refunded.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount (₹)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min={0}
+                max={selectedRefundable}
+                step="0.01"
+                placeholder={`${selectedRefundable} (full refund)`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="refund-reason">Reason</Label>
+              <Textarea
+                id="refund-reason"
+                placeholder="Recorded with the refund and sent to the payment gateway"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSelected(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRefund} disabled={submitting || !reason.trim()}>
+              {submitting ? "Refunding..." : amount.trim() ? `Refund ₹${amount}` : "Refund in full"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
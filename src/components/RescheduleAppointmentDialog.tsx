@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format, isBefore, startOfToday } from "date-fns";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { toTimeSlots, type DoctorSlotsResponse, type TimeSlot } from "@/lib/time-slots";
+import { getBrowserTimeZone, getTimeZoneLabel } from "@/lib/timezone";
+
+interface RescheduleAppointmentDialogProps {
+  appointmentId: string;
+  doctorId: string;
+  currentDate: string;
+  currentTime: string;
+  onSuccess?: () => void;
+}
+
+export function RescheduleAppointmentDialog({
+  appointmentId,
+  doctorId,
+  currentDate,
+  currentTime,
+  onSuccess,
+}: RescheduleAppointmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
+  const [slotTimeZone, setSlotTimeZone] = useState<string | null>(null);
+  const [cutoffHours, setCutoffHours] = useState<number | null>(null);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    async function fetchCutoff() {
+      try {
+        const { data } = await api.get('/platform-settings/public');
+        setCutoffHours(Number(data?.reschedule_cutoff_hours ?? 0));
+      } catch (error) {
+        console.error('Failed to fetch reschedule policy', error);
+      }
+    }
+
+    fetchCutoff();
+  }, [open]);
+
+  useEffect(() => {
+    async function fetchSlots() {
+      if (!open || !doctorId || !selectedDate) return;
+
+      setLoadingSlots(true);
+      try {
+        const day = format(selectedDate, "yyyy-MM-dd");
+        const { data } = await api.get<DoctorSlotsResponse>(`/doctors/${doctorId}/slots?from=${day}&to=${day}`);
+        setTimeSlots(toTimeSlots(data?.days?.[0]));
+        setSlotTimeZone(data?.timezone || null);
+      } catch (error) {
+        console.error("Error fetching slots", error);
+      } finally {
+        setLoadingSlots(false);
+      }
+    }
+
+    fetchSlots();
+  }, [open, doctorId, selectedDate]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) {
+      setSelectedDate(undefined);
+      setSelectedTime(null);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedDate || !selectedTime) {
+      toast.error("Please select a new date and time");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await api.put(`/appointments/${appointmentId}/reschedule`, {
+        appointment_date: format(selectedDate, "yyyy-MM-dd"),
+        appointment_time: selectedTime,
+      });
+      toast.success("Appointment rescheduled");
+      handleOpenChange(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to reschedule appointment"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline">
+          <CalendarClock className="h-4 w-4 mr-1" />
+          Reschedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reschedule Appointment</DialogTitle>
+          <DialogDescription>
+            Currently booked for {currentDate} at {currentTime.slice(0, 5)}. Your payment carries over to the new slot.
+            {cutoffHours !== null && cutoffHours > 0 && (
+              <> Rescheduling closes {cutoffHours} hour(s) before the appointment.</>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Calendar
+          mode="single"
+          selected={selectedDate}
+          onSelect={(date) => {
+            setSelectedDate(date);
+            setSelectedTime(null);
+          }}
+          disabled={(date) => isBefore(date, startOfToday())}
+          className="rounded-md border mx-auto"
+        />
+
+        {selectedDate && (
+          loadingSlots ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {slotTimeZone && slotTimeZone !== getBrowserTimeZone() && (
+                <p className="text-xs text-muted-foreground">
+                  Times are in the doctor's timezone ({slotTimeZone}, {getTimeZoneLabel(slotTimeZone)}).
+                </p>
+              )}
+              <div className="grid grid-cols-4 gap-2">
+                {timeSlots.map((slot) => (
+                  <button
+                    key={slot.time}
+                    disabled={!slot.available}
+                    onClick={() => setSelectedTime(slot.time)}
+                    className={`py-2 px-3 rounded-lg text-sm font-medium transition-all ${!slot.available
+                      ? "bg-muted text-muted-foreground cursor-not-allowed"
+                      : selectedTime === slot.time
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-secondary hover:bg-primary/10"
+                      }`}
+                  >
+                    {slot.time}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!selectedDate || !selectedTime || submitting}>
+            {submitting ? "Rescheduling..." : "Confirm New Slot"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -93,6 +93,8 @@ export function Header() {
         return "/admin";
       case "doctor":
         return "/doctor";
+      case "clinic_admin":
+        return "/organization";
       case "patient":
         return "/dashboard";
       default:
@@ -255,7 +257,7 @@ export function Header() {
                 <div className="flex items-center justify-start gap-2 p-2">
                   <div className="flex flex-col space-y-1 leading-none">
                     <p className="font-medium">{user?.email}</p>
-                    <p className="text-xs text-muted-foreground capitalize">{role}</p>
+                    <p className="text-xs text-muted-foreground capitalize">{role?.replace("_", " ")}</p>
                   </div>
                 </div>
                 <DropdownMenuSeparator />
@@ -51,4 +51,19 @@ api.interceptors.response.use(
     }
 );
 
+// Pull the server's `{ message }` out of a failed request, falling back to a generic text.
+export const getApiErrorMessage = (error: unknown, fallback: string) => {
+    if (axios.isAxiosError(error)) {
+        return (error.response?.data as { message?: string } | undefined)?.message || fallback;
+    }
+    return fallback;
+};
+
+export const getApiErrorStatus = (error: unknown) =>
+    axios.isAxiosError(error) ? error.response?.status : undefined;
+
+// Full response body of a failed request, for errors that carry details beyond `message`.
+export const getApiErrorData = <T>(error: unknown) =>
+    axios.isAxiosError(error) ? (error.response?.data as T | undefined) : undefined;
+
 export default api;
@@ -0,0 +1,34 @@
+export type SeriesFrequency = "weekly" | "biweekly" | "monthly";
+
+export const SERIES_FREQUENCY_LABELS: Record<SeriesFrequency, string> = {
+  weekly: "Every week",
+  biweekly: "Every 2 weeks",
+  monthly: "Every month",
+};
+
+// Same bounds the server enforces
+export const MIN_SERIES_OCCURRENCES = 2;
+export const MAX_SERIES_OCCURRENCES = 12;
+
+export interface SeriesOccurrence {
+  index: number;
+  appointment_date: string;
+  appointment_time: string;
+  ok: boolean;
+  message: string | null;
+}
+
+// Response of POST /appointments/series/preview (and the 409 body of POST /appointments/series)
+export interface SeriesPreviewResponse {
+  timezone?: string;
+  occurrences: SeriesOccurrence[];
+  conflicts?: number;
+}
+
+// Series summary populated onto each appointment by GET /appointments
+export interface AppointmentSeriesSummary {
+  _id: string;
+  frequency: SeriesFrequency;
+  occurrences: number;
+  status: "active" | "cancelled";
+}
@@ -0,0 +1,31 @@
+export type NoShowOutcome = "no_show_patient" | "no_show_doctor";
+
+export type AppointmentStatus = "pending" | "confirmed" | "completed" | "cancelled" | NoShowOutcome;
+
+export type StatusChangeRole = "patient" | "doctor" | "admin" | "system";
+
+// One entry of an appointment's status_history, oldest first
+export interface AppointmentStatusChange {
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+  changed_by?: string | null;
+  role: StatusChangeRole;
+  reason?: string;
+  changed_at: string;
+}
+
+export const APPOINTMENT_STATUS_LABELS: Record<AppointmentStatus, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  no_show_patient: "Patient no-show",
+  no_show_doctor: "Doctor no-show",
+};
+
+export const STATUS_CHANGE_ACTOR_LABELS: Record<StatusChangeRole, string> = {
+  patient: "the patient",
+  doctor: "the doctor",
+  admin: "an admin",
+  system: "MediConnect",
+};
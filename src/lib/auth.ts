@@ -1,4 +1,5 @@
 import api from './api';
+import { getBrowserTimeZone } from './timezone';
 
 export const googleSignInBackend = async (idToken: string, role: string) => {
   try {
@@ -13,11 +14,12 @@ export const googleSignInBackend = async (idToken: string, role: string) => {
   }
 };
 
-export type AppRole = 'patient' | 'doctor' | 'admin';
+export type AppRole = 'patient' | 'doctor' | 'admin' | 'clinic_admin';
 
 export const signUp = async (userData: any) => {
   try {
-    const response = await api.post('/auth/register', userData);
+    // Record the browser's zone so emails show appointment times in the user's local time
+    const response = await api.post('/auth/register', { timezone: getBrowserTimeZone(), ...userData });
     if (response.data.token) {
       localStorage.setItem('token', response.data.token);
       localStorage.setItem('user', JSON.stringify(response.data));
@@ -0,0 +1,23 @@
+import api from "@/lib/api";
+
+// Response of GET /calendar/feed-url and POST /calendar/feed-url/reset; feed_path is relative to the API base URL
+export interface CalendarFeed {
+  feed_path: string;
+}
+
+// Full https:// URL of the subscription feed, plus the webcal:// form calendar apps open directly
+export const getFeedUrls = (feed: CalendarFeed) => {
+  const https = api.getUri({ url: feed.feed_path });
+  return { https, webcal: https.replace(/^https?:\/\//, "webcal://") };
+};
+
+// Saves the appointment's .ics file; the download needs the Bearer token, so it goes through the API client
+export const downloadAppointmentCalendar = async (appointmentId: string) => {
+  const { data } = await api.get<Blob>(`/calendar/appointments/${appointmentId}.ics`, { responseType: "blob" });
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `appointment-${appointmentId}.ics`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,31 @@
+export interface CancellationPolicy {
+  full_refund_hours: number;
+  partial_refund_hours: number;
+  partial_refund_percent: number;
+}
+
+export type RefundTier = "full" | "partial" | "none";
+
+// GET /appointments/:id/cancellation-quote
+export interface CancellationQuote {
+  tier: RefundTier;
+  refund_percent: number;
+  paid_amount: number;
+  refund_amount: number;
+  hours_before_start: number;
+  policy: CancellationPolicy & { source: "doctor" | "platform" };
+}
+
+export const describeCancellationPolicy = (policy: CancellationPolicy) =>
+  `Full refund up to ${policy.full_refund_hours}h before the appointment, ` +
+  `${policy.partial_refund_percent}% of the doctor's fee up to ${policy.partial_refund_hours}h before, no refund after that.`;
+
+export const describeCancellationQuote = (quote: CancellationQuote) => {
+  if (quote.paid_amount <= 0) {
+    return "Nothing has been paid for this appointment, so there is nothing to refund.";
+  }
+  if (quote.refund_amount <= 0) {
+    return `Cancelling now is too close to the start time for a refund. You paid ₹${quote.paid_amount}.`;
+  }
+  return `You will be refunded ₹${quote.refund_amount} of the ₹${quote.paid_amount} you paid.`;
+};
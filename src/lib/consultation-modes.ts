@@ -0,0 +1,38 @@
+export type ConsultationMode = "video" | "in_person" | "phone";
+
+export const CONSULTATION_MODES: ConsultationMode[] = ["video", "in_person", "phone"];
+
+export const CONSULTATION_MODE_LABELS: Record<ConsultationMode, string> = {
+  video: "Video consultation",
+  in_person: "In-person visit",
+  phone: "Phone consultation",
+};
+
+export type ConsultationModeFees = Partial<Record<ConsultationMode, number | null>>;
+
+// Mode settings stored on the doctor profile
+export interface DoctorConsultationModeSettings {
+  consultation_fee: number;
+  consultation_modes?: ConsultationMode[];
+  mode_fees?: ConsultationModeFees | null;
+  clinic_address?: string;
+}
+
+// Doctors that never chose their modes only offer video, same as the server
+export const getDoctorConsultationModes = (doctor: DoctorConsultationModeSettings): ConsultationMode[] => {
+  const modes = (doctor.consultation_modes || []).filter((mode) => CONSULTATION_MODES.includes(mode));
+  return modes.length > 0 ? modes : ["video"];
+};
+
+// A mode without its own fee charges the consultation fee
+export const getConsultationModeFee = (doctor: DoctorConsultationModeSettings, mode: ConsultationMode) => {
+  const modeFee = doctor.mode_fees?.[mode];
+  return modeFee !== null && modeFee !== undefined ? Number(modeFee) : Number(doctor.consultation_fee || 0);
+};
+
+// Appointments from before modes existed are video consultations
+export const isVideoConsultation = (appointment: { consultation_mode?: ConsultationMode | null }) =>
+  (appointment.consultation_mode || "video") === "video";
+
+export const getMapLink = (address: string) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address.trim())}`;
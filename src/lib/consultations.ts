@@ -0,0 +1,53 @@
+import type { ConsultationMode } from "@/lib/consultation-modes";
+
+export type ConsultantStatus = "invited" | "accepted" | "declined";
+
+export const CONSULTANT_STATUS_LABELS: Record<ConsultantStatus, string> = {
+  invited: "Invited",
+  accepted: "Joined",
+  declined: "Declined",
+};
+
+// Mirrors MAX_CONSULTING_DOCTORS in server/utils/consultations.js
+export const MAX_CONSULTING_DOCTORS = 4;
+
+// Entry of an appointment's consulting_doctors; doctor_id is populated by the appointment endpoints
+export interface ConsultingDoctor {
+  doctor_id:
+    | string
+    | {
+        _id: string;
+        specialization?: string;
+        user_id?: { full_name?: string } | null;
+      };
+  status: ConsultantStatus;
+  invited_at: string;
+  responded_at: string | null;
+}
+
+// Entry from GET /appointments/consultations
+export interface ConsultationInvitation {
+  _id: string;
+  appointment_date: string;
+  appointment_time: string;
+  start_at?: string | null;
+  timezone?: string;
+  consultation_mode?: ConsultationMode;
+  zoom_join_url: string | null;
+  doctor_id: { _id: string; specialization?: string; user_id?: { full_name?: string } | null };
+  patient_id: { _id: string; full_name?: string } | null;
+  consulting_doctors: ConsultingDoctor[];
+  consultation_status: ConsultantStatus;
+}
+
+export const getConsultingDoctorId = (consultant: ConsultingDoctor) =>
+  typeof consultant.doctor_id === "string" ? consultant.doctor_id : consultant.doctor_id._id;
+
+export const getConsultingDoctorName = (consultant: ConsultingDoctor) => {
+  const name = typeof consultant.doctor_id === "string" ? "" : consultant.doctor_id.user_id?.full_name;
+  return name ? `Dr. ${name}` : "Doctor";
+};
+
+// Consultants still taking part: invited or joined
+export const getActiveConsultants = (consultants: ConsultingDoctor[] | undefined) =>
+  (consultants || []).filter((consultant) => consultant.status !== "declined");
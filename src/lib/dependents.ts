@@ -0,0 +1,48 @@
+import { differenceInYears } from "date-fns";
+
+export type DependentRelation = "child" | "spouse" | "parent" | "sibling" | "other";
+
+export const DEPENDENT_RELATIONS: DependentRelation[] = ["child", "spouse", "parent", "sibling", "other"];
+
+export const DEPENDENT_RELATION_LABELS: Record<DependentRelation, string> = {
+  child: "Child",
+  spouse: "Spouse",
+  parent: "Parent",
+  sibling: "Sibling",
+  other: "Other",
+};
+
+// Entry from GET /dependents
+export interface Dependent {
+  id: string;
+  full_name: string;
+  date_of_birth: string;
+  relation: DependentRelation;
+}
+
+// Copy of the dependent kept on appointments and prescriptions; null when it is for the account holder
+export interface DependentSnapshot {
+  dependent_id: string;
+  full_name: string;
+  date_of_birth: string | null;
+  relation: DependentRelation;
+}
+
+// Values of the "booking for" / "viewing for" switcher besides a dependent's id: the account holder, and
+// (viewing only) everyone on the account
+export const SELF_PROFILE = "self";
+export const ALL_PROFILES = "all";
+
+// dependent_id for a booking; nothing is sent when the patient books for themselves
+export const getBookingDependentId = (profile: string) => (profile === SELF_PROFILE ? undefined : profile);
+
+// dependent_id list filter ("self" or an id); nothing is sent to list everyone's
+export const getDependentFilterParam = (profile: string) => (profile === ALL_PROFILES ? undefined : profile);
+
+export const describeDependent = (dependent: Pick<DependentSnapshot, "full_name" | "date_of_birth" | "relation">) => {
+  const details = [DEPENDENT_RELATION_LABELS[dependent.relation] || dependent.relation];
+  if (dependent.date_of_birth) {
+    details.push(`${differenceInYears(new Date(), new Date(dependent.date_of_birth))} yrs`);
+  }
+  return `${dependent.full_name} (${details.join(", ")})`;
+};
@@ -0,0 +1,47 @@
+import type { ConsultationMode } from "@/lib/consultation-modes";
+
+export type EmergencyRequestStatus = "pending" | "accepting" | "accepted" | "declined" | "expired" | "withdrawn";
+
+export const EMERGENCY_REQUEST_STATUS_LABELS: Record<EmergencyRequestStatus, string> = {
+  pending: "Waiting for the doctor",
+  accepting: "Being accepted",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "No response in time",
+  withdrawn: "Withdrawn",
+};
+
+// Entry from GET /emergency-requests/mine
+export interface EmergencyRequest {
+  _id: string;
+  doctor_id: {
+    _id: string;
+    specialization?: string;
+    timezone?: string;
+    user_id?: { full_name?: string } | null;
+  };
+  patient_id: { _id: string; full_name?: string };
+  appointment_date: string;
+  appointment_time: string;
+  timezone?: string;
+  consultation_mode: ConsultationMode;
+  reason: string;
+  amount: number;
+  status: EmergencyRequestStatus;
+  expires_at: string;
+  decline_reason?: string;
+  appointment_id?: string | null;
+  createdAt?: string;
+}
+
+// Set on an appointment an accepted emergency moved out of its original slot
+export interface EmergencyDisplacement {
+  emergency_request_id: string;
+  from_date: string;
+  from_time: string;
+  displaced_at: string;
+}
+
+// Whole minutes left for the doctor to answer, never below zero
+export const getMinutesToRespond = (request: Pick<EmergencyRequest, "expires_at">, now = Date.now()) =>
+  Math.max(0, Math.ceil((new Date(request.expires_at).getTime() - now) / 60000));
@@ -0,0 +1,33 @@
+// Entry from GET /follow-ups/mine
+export interface FollowUpProposal {
+  _id: string;
+  original_appointment_id:
+    | string
+    | {
+        _id: string;
+        appointment_date: string;
+        appointment_time: string;
+        start_at?: string | null;
+      };
+  doctor_id: {
+    _id: string;
+    specialization?: string;
+    timezone?: string;
+    user_id?: { full_name?: string } | null;
+  };
+  patient_id: { _id: string; full_name?: string } | string;
+  from_date: string;
+  to_date: string;
+  // Set for an exact slot; null when the patient may pick any slot between from_date and to_date
+  appointment_time: string | null;
+  note: string;
+  fee: number;
+  platform_fee: number;
+  total_amount: number;
+  status: "proposed";
+}
+
+export const getOriginalAppointmentId = (proposal: FollowUpProposal) =>
+  typeof proposal.original_appointment_id === "string"
+    ? proposal.original_appointment_id
+    : proposal.original_appointment_id?._id;
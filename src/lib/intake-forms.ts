@@ -0,0 +1,87 @@
+export type IntakeQuestionType =
+  | "short_text"
+  | "long_text"
+  | "single_choice"
+  | "multiple_choice"
+  | "yes_no"
+  | "medical_records";
+
+export const INTAKE_QUESTION_TYPES: IntakeQuestionType[] = [
+  "short_text",
+  "long_text",
+  "single_choice",
+  "multiple_choice",
+  "yes_no",
+  "medical_records",
+];
+
+export const INTAKE_QUESTION_TYPE_LABELS: Record<IntakeQuestionType, string> = {
+  short_text: "Short answer",
+  long_text: "Paragraph",
+  single_choice: "One choice",
+  multiple_choice: "Several choices",
+  yes_no: "Yes / no",
+  medical_records: "Medical records",
+};
+
+export const isChoiceQuestion = (type: IntakeQuestionType) => type === "single_choice" || type === "multiple_choice";
+
+export interface IntakeQuestion {
+  id: string;
+  label: string;
+  type: IntakeQuestionType;
+  required: boolean;
+  options: string[];
+}
+
+// GET /intake-forms/doctor/:id and the entries of GET /intake-forms; id is null for the built-in default form
+export interface IntakeForm {
+  id: string | null;
+  title: string;
+  specialization?: string;
+  doctor_id?: string | null;
+  questions: IntakeQuestion[];
+}
+
+// Text, the chosen option(s), yes/no, or the ids of attached medical records
+export type IntakeAnswerValue = string | string[] | boolean;
+export type IntakeAnswers = Record<string, IntakeAnswerValue>;
+
+// Answers as stored on the appointment, with labels copied from the form at submission
+export interface AppointmentIntake {
+  form_id: string | null;
+  title: string;
+  answers: {
+    question_id: string;
+    label: string;
+    type: IntakeQuestionType;
+    value: string | string[] | boolean | null;
+    records: { record_id: string; file_name: string; file_url: string; record_type: string }[];
+  }[];
+  submitted_at: string;
+}
+
+// Entry from GET /intake-forms/patient/:id/responses
+export interface IntakeResponse {
+  appointment_id: string;
+  appointment_date: string;
+  appointment_time: string;
+  start_at?: string | null;
+  status: string;
+  intake: AppointmentIntake;
+}
+
+export const formatIntakeValue = (value: AppointmentIntake["answers"][number]["value"]) => {
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  return value ?? "";
+};
+
+// Pre-fills the form fields from answers given earlier, so a patient can edit rather than start over
+export const getIntakeAnswerValues = (intake: AppointmentIntake | null | undefined): IntakeAnswers =>
+  Object.fromEntries(
+    (intake?.answers || []).map((answer) => [
+      answer.question_id,
+      answer.type === "medical_records" ? answer.records.map((r) => r.record_id) : answer.value ?? "",
+    ])
+  );
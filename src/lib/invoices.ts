@@ -0,0 +1,27 @@
+import api from "@/lib/api";
+
+// Response of GET /invoices/appointments/:appointmentId, as far as downloading needs
+export interface Invoice {
+  _id: string;
+  invoice_number: string;
+  document_type: "tax_invoice" | "receipt";
+  total: number;
+  issued_at: string;
+}
+
+// Paid appointments have an invoice; refunded ones keep the invoice of what was originally paid
+export const hasInvoice = (appointment: { amount: number; payment_status: string }) =>
+  Number(appointment.amount) > 0 && ["paid", "partially_refunded", "refunded"].includes(appointment.payment_status);
+
+// Saves the PDF invoice of a paid appointment; issued on first request for payments made before invoicing
+export const downloadAppointmentInvoice = async (appointmentId: string) => {
+  const { data: invoice } = await api.get<Invoice>(`/invoices/appointments/${appointmentId}`);
+  const { data } = await api.get<Blob>(`/invoices/${invoice._id}/pdf`, { responseType: "blob" });
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `invoice-${invoice.invoice_number.replace(/[^A-Za-z0-9-]+/g, "-")}.pdf`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return invoice;
+};
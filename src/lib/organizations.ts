@@ -0,0 +1,67 @@
+// Clinic or hospital account from the /organizations routes
+export interface Organization {
+  _id: string;
+  name: string;
+  contact_email?: string;
+  phone?: string;
+  address?: string;
+  // Only on the admin list
+  doctor_count?: number;
+}
+
+export interface OrganizationDoctor {
+  _id: string;
+  specialization: string;
+  consultation_fee: number;
+  timezone?: string;
+  verification_status?: string;
+  is_verified?: boolean;
+  user_id?: { _id: string; full_name?: string; email?: string } | null;
+}
+
+export interface OrganizationAdmin {
+  _id: string;
+  full_name?: string;
+  email: string;
+}
+
+// GET /organizations/:id and /organizations/mine
+export interface OrganizationDetail extends Organization {
+  doctors: OrganizationDoctor[];
+  admins: OrganizationAdmin[];
+}
+
+export interface OrganizationDoctorEarning {
+  doctor_id: string;
+  doctor_name: string;
+  total_earnings: number;
+  settled_earnings: number;
+  unsettled_earnings: number;
+  total_payments: number;
+}
+
+// GET /payments/organization/summary
+export interface OrganizationEarningsSummary {
+  total_earnings: number;
+  settled_earnings: number;
+  unsettled_earnings: number;
+  total_payments: number;
+  doctors: OrganizationDoctorEarning[];
+}
+
+// GET /payments/admin/organization-earnings
+export interface OrganizationSettlementRow {
+  organization_id: string;
+  organization_name: string;
+  total_earnings: number;
+  settled_earnings: number;
+  unsettled_earnings: number;
+  // Refunds of payments already settled, withheld from the next settlement
+  clawback_due: number;
+  total_payments: number;
+  unsettled_payments: number;
+  doctor_count: number;
+}
+
+export const getOrganizationDoctorName = (doctor: OrganizationDoctor) =>
+  doctor.user_id?.full_name ? `Dr. ${doctor.user_id.full_name}` : "Doctor";
@@ -0,0 +1,82 @@
+// Mirrors PAYMENT_PROVIDERS in server/services/paymentProviders
+export type PaymentProviderName = "cashfree" | "razorpay" | "fake";
+
+export const PAYMENT_PROVIDER_LABELS: Record<PaymentProviderName, string> = {
+  cashfree: "Cashfree",
+  razorpay: "Razorpay",
+  fake: "Test payments (offline)",
+};
+
+export function isPaymentProviderName(value: string | null): value is PaymentProviderName {
+  return value !== null && Object.keys(PAYMENT_PROVIDER_LABELS).includes(value);
+}
+
+// Entry of payment_providers from GET /platform-settings (admin)
+export interface PaymentProviderStatus {
+  name: PaymentProviderName;
+  label: string;
+  configured: boolean;
+  selectable: boolean;
+}
+
+// Response of POST /payments/checkout/order; `checkout` depends on the provider
+export type CheckoutOrder =
+  | { provider: "cashfree"; order_id: string; amount: number; checkout: { payment_session_id: string; mode: "sandbox" | "production" } }
+  | { provider: "razorpay"; order_id: string; amount: number; checkout: { key_id: string; amount: number; currency: string } }
+  | { provider: "fake"; order_id: string; amount: number; checkout: Record<string, never> };
+
+export interface RazorpaySuccessResponse {
+  razorpay_order_id: string;
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+}
+
+interface RazorpayCheckout {
+  open: () => void;
+  on: (event: "payment.failed", handler: (response: { error?: { description?: string } }) => void) => void;
+}
+
+declare global {
+  interface Window {
+    Cashfree?: (options: { mode: "sandbox" | "production" }) => {
+      checkout: (options: { paymentSessionId: string; redirectTarget: "_self" }) => Promise<unknown>;
+    };
+    Razorpay?: new (options: {
+      key: string;
+      amount: number;
+      currency: string;
+      order_id: string;
+      name: string;
+      description?: string;
+      prefill?: { name?: string; email?: string; contact?: string };
+      handler: (response: RazorpaySuccessResponse) => void;
+      modal?: { ondismiss?: () => void };
+    }) => RazorpayCheckout;
+  }
+}
+
+// The fake provider has no SDK; its checkout is a dialog on the payment page
+const CHECKOUT_SDK_URLS: Partial<Record<PaymentProviderName, string>> = {
+  cashfree: "https://sdk.cashfree.com/js/v3/cashfree.js",
+  razorpay: "https://checkout.razorpay.com/v1/checkout.js",
+};
+
+// Loads the provider's checkout SDK once; resolves false when it cannot be loaded (e.g. offline)
+export function loadCheckoutSdk(provider: PaymentProviderName): Promise<boolean> {
+  const src = CHECKOUT_SDK_URLS[provider];
+  if (!src) return Promise.resolve(true);
+  if (document.querySelector(`script[src="${src}"]`)) {
+    return Promise.resolve(provider === "cashfree" ? Boolean(window.Cashfree) : Boolean(window.Razorpay));
+  }
+
+  return new Promise((resolve) => {
+    const script = document.createElement("script");
+    script.src = src;
+    script.onload = () => resolve(true);
+    script.onerror = () => {
+      script.remove();
+      resolve(false);
+    };
+    document.body.appendChild(script);
+  });
+}
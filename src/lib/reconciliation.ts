@@ -0,0 +1,70 @@
+import api from "@/lib/api";
+import type { PaymentProviderName } from "@/lib/payment-providers";
+
+// Mirrors the entry enums in server/models/ReconciliationReport.js
+export type ReconciliationIssue =
+  | "captured_not_recorded"
+  | "recorded_not_captured"
+  | "appointment_not_paid"
+  | "abandoned"
+  | "amount_mismatch"
+  | "check_failed";
+
+export type ReconciliationAction = "marked_completed" | "confirmed" | "refunded" | "marked_failed" | "needs_review";
+
+export const RECONCILIATION_ISSUE_LABELS: Record<ReconciliationIssue, string> = {
+  captured_not_recorded: "Captured, not recorded",
+  recorded_not_captured: "Recorded, not captured",
+  appointment_not_paid: "Appointment not confirmed",
+  abandoned: "Abandoned checkout",
+  amount_mismatch: "Amount mismatch",
+  check_failed: "Could not check",
+};
+
+export const RECONCILIATION_ACTION_LABELS: Record<ReconciliationAction, string> = {
+  marked_completed: "Marked paid",
+  confirmed: "Appointment confirmed",
+  refunded: "Refunded",
+  marked_failed: "Marked failed",
+  needs_review: "Needs review",
+};
+
+export interface ReconciliationEntry {
+  payment_id: string;
+  appointment_id: string | null;
+  provider: PaymentProviderName | null;
+  order_id: string | null;
+  amount: number;
+  issue: ReconciliationIssue;
+  action: ReconciliationAction;
+  status_before: string | null;
+  status_after: string | null;
+  gateway_status: string | null;
+  gateway_amount: number | null;
+  message: string;
+}
+
+// Entry from GET /payments/admin/reconciliation
+export interface ReconciliationReport {
+  _id: string;
+  trigger: "scheduled" | "manual";
+  triggered_by: { _id: string; full_name?: string } | null;
+  started_at: string;
+  finished_at: string | null;
+  checked_count: number;
+  matched_count: number;
+  fixed_count: number;
+  review_count: number;
+  entries: ReconciliationEntry[];
+}
+
+// Saves the report as CSV; the download needs the Bearer token, so it goes through the API client
+export const downloadReconciliationReport = async (report: ReconciliationReport) => {
+  const { data } = await api.get<Blob>(`/payments/admin/reconciliation/${report._id}/download`, { responseType: "blob" });
+  const url = URL.createObjectURL(data);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `reconciliation_${report.started_at.slice(0, 16).replace(/[-:T]/g, "")}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,59 @@
+import type { PaymentProviderName } from "@/lib/payment-providers";
+
+export type RefundStatus = "initiated" | "processed" | "failed";
+
+export type RefundSource = "cancellation" | "no_show" | "admin" | "reconciliation" | "late_payment";
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  initiated: "Initiated",
+  processed: "Processed",
+  failed: "Failed",
+};
+
+export const REFUND_SOURCE_LABELS: Record<RefundSource, string> = {
+  cancellation: "Cancellation",
+  no_show: "No-show",
+  admin: "Admin",
+  reconciliation: "Reconciliation",
+  late_payment: "Late payment",
+};
+
+// Entry from GET /payments/admin/refunds
+export interface Refund {
+  _id: string;
+  payment_id: string;
+  appointment_id: { _id: string; appointment_date: string; appointment_time: string } | null;
+  patient_id: { _id: string; full_name?: string; email?: string } | null;
+  doctor_id: { _id: string; user_id?: { full_name?: string } | null } | null;
+  amount: number;
+  doctor_amount: number;
+  platform_amount: number;
+  source: RefundSource;
+  reason: string;
+  status: RefundStatus;
+  gateway: PaymentProviderName | "none";
+  gateway_reference_id: string | null;
+  failure_reason: string;
+  attempts: number;
+  processed_at: string | null;
+  createdAt: string;
+}
+
+// Completed payment from GET /payments/admin/all, as far as refunding it needs
+export interface RefundablePayment {
+  _id: string;
+  amount: number;
+  refunded_amount?: number;
+  provider?: PaymentProviderName | null;
+  patient_id: { full_name?: string; email?: string } | null;
+  appointment_id: {
+    _id: string;
+    appointment_date: string;
+    appointment_time: string;
+    doctor_id?: { user_id?: { full_name?: string } | null } | null;
+  } | null;
+}
+
+export function getRefundableAmount(payment: RefundablePayment) {
+  return Math.max(0, Number((Number(payment.amount || 0) - Number(payment.refunded_amount || 0)).toFixed(2)));
+}
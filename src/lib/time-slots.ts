@@ -0,0 +1,61 @@
+// "held" slots are reserved for a waitlisted patient for a limited time
+export type SlotStatus = "free" | "booked" | "held" | "past";
+
+export interface DoctorSlot {
+  time: string;
+  status: SlotStatus;
+}
+
+export interface DoctorSlotDay {
+  date: string;
+  day_of_week: number;
+  available: boolean;
+  slots: DoctorSlot[];
+}
+
+// Response of GET /doctors/:id/slots
+export interface DoctorSlotsResponse {
+  doctor_id: string;
+  slot_duration_minutes: number;
+  buffer_minutes: number;
+  // IANA zone the dates and slot times are expressed in (the doctor's)
+  timezone: string;
+  from: string;
+  to: string;
+  days: DoctorSlotDay[];
+}
+
+export interface TimeSlot {
+  time: string;
+  available: boolean;
+  booked: boolean;
+  held: boolean;
+}
+
+// Generic half-hour grid, used when the doctor has no hours that day so an
+// emergency booking can still pick a time.
+export const generateTimeSlots = (): TimeSlot[] => {
+  const slots: TimeSlot[] = [];
+  for (let hour = 9; hour <= 20; hour++) {
+    slots.push({ time: `${hour.toString().padStart(2, "0")}:00`, available: true, booked: false, held: false });
+    if (hour < 20) {
+      slots.push({ time: `${hour.toString().padStart(2, "0")}:30`, available: true, booked: false, held: false });
+    }
+  }
+  return slots;
+};
+
+// Turns one day of server-computed slots into the grid shown on booking screens.
+// `heldTime` is a slot held for the viewer (from a waitlist offer), which stays bookable for them.
+export const toTimeSlots = (day: DoctorSlotDay | undefined, heldTime?: string | null): TimeSlot[] => {
+  if (!day || !day.available) {
+    return generateTimeSlots().map((s) => ({ ...s, available: false }));
+  }
+
+  return day.slots.map((slot) => ({
+    time: slot.time,
+    available: slot.status === "free" || (slot.status === "held" && slot.time === heldTime),
+    booked: slot.status === "booked",
+    held: slot.status === "held" && slot.time !== heldTime,
+  }));
+};
@@ -0,0 +1,100 @@
+import { format } from "date-fns";
+
+// Doctors and appointments without a stored zone use the platform default.
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+export const COMMON_TIME_ZONES = [
+  "Asia/Kolkata",
+  "Asia/Dubai",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "Europe/London",
+  "Europe/Berlin",
+  "Africa/Nairobi",
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+export const getBrowserTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIME_ZONE;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+// The common zones plus the given ones (e.g. the browser's), without duplicates.
+export const getTimeZoneOptions = (...extra: (string | null | undefined)[]) =>
+  Array.from(new Set([...extra.filter((tz): tz is string => Boolean(tz)), ...COMMON_TIME_ZONES]));
+
+// Today's date (yyyy-MM-dd) in the given zone.
+export const getTodayInTimeZone = (timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(new Date());
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return `${get("year")}-${get("month")}-${get("day")}`;
+};
+
+// Short zone label such as "IST" or "GMT+1" for display next to a time.
+export const getTimeZoneLabel = (timeZone?: string | null, date = new Date()) => {
+  try {
+    return (
+      new Intl.DateTimeFormat("en-US", { timeZone: timeZone || undefined, timeZoneName: "short" })
+        .formatToParts(date)
+        .find((p) => p.type === "timeZoneName")?.value ?? ""
+    );
+  } catch {
+    return timeZone || "";
+  }
+};
+
+// Minutes the zone is ahead of UTC at the given instant.
+const getOffsetMinutes = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"));
+  return Math.round((asUtc - Math.floor(instant.getTime() / 60000) * 60000) / 60000);
+};
+
+// Absolute instant of a yyyy-MM-dd + HH:mm wall-clock time in the given zone (e.g. a doctor's slot).
+export const zonedTimeToDate = (date: string, time: string, timeZone: string) => {
+  const [year, month, day] = date.split("-").map(Number);
+  const [hour, minute] = time.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const offset = getOffsetMinutes(new Date(wallClockAsUtc), timeZone);
+  const instant = wallClockAsUtc - offset * 60000;
+  const corrected = getOffsetMinutes(new Date(instant), timeZone);
+  return new Date(corrected === offset ? instant : wallClockAsUtc - corrected * 60000);
+};
+
+interface AppointmentTimeFields {
+  appointment_date: string;
+  appointment_time: string;
+  start_at?: string | null;
+}
+
+// Absolute start of an appointment; older appointments without start_at fall back to the local values.
+export const getAppointmentStart = (appointment: AppointmentTimeFields) =>
+  appointment.start_at
+    ? new Date(appointment.start_at)
+    : new Date(`${appointment.appointment_date}T${appointment.appointment_time.slice(0, 5)}:00`);
+
+// Formats an appointment's start in the viewer's (browser) zone with a date-fns pattern.
+export const formatAppointmentStart = (appointment: AppointmentTimeFields, pattern: string) =>
+  format(getAppointmentStart(appointment), pattern);
@@ -0,0 +1,21 @@
+// Entry from GET /waitlist/mine or POST /waitlist
+export interface WaitlistEntry {
+  _id: string;
+  doctor_id:
+    | string
+    | {
+        _id: string;
+        specialization?: string;
+        timezone?: string;
+        user_id?: { full_name?: string } | null;
+      };
+  date: string;
+  status: "waiting" | "offered";
+  offered_time?: string | null;
+  offer_expires_at?: string | null;
+  // Place in the queue while waiting; null once a slot is held
+  position: number | null;
+}
+
+export const getWaitlistDoctorId = (entry: WaitlistEntry) =>
+  typeof entry.doctor_id === "string" ? entry.doctor_id : entry.doctor_id?._id;
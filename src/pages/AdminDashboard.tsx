@@ -1,8 +1,19 @@
 import { useEffect, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { useAuthContext } from "@/contexts/AuthContext";
-import api from "@/lib/api";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { describeCancellationPolicy, type CancellationPolicy } from "@/lib/cancellation-policy";
+import {
+  PAYMENT_PROVIDER_LABELS,
+  isPaymentProviderName,
+  type PaymentProviderName,
+  type PaymentProviderStatus,
+} from "@/lib/payment-providers";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { OrganizationsAdminPanel } from "@/components/OrganizationsAdminPanel";
+import { IntakeFormsAdminPanel } from "@/components/IntakeFormsAdminPanel";
+import { RefundsAdminPanel } from "@/components/RefundsAdminPanel";
+import { ReconciliationAdminPanel } from "@/components/ReconciliationAdminPanel";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -30,6 +41,10 @@ import {
   Bell,
   Mail,
   Send,
+  Building2,
+  ClipboardList,
+  Undo2,
+  Scale,
 } from "lucide-react";
 
 interface DoctorApplication {
@@ -63,9 +78,14 @@ interface DoctorEarningSummary {
   doctor_id: string;
   doctor_name: string;
   doctor_email: string | null;
+  // Set when the doctor is paid through their organization's settlement
+  organization_id: string | null;
+  organization_name: string | null;
   total_earnings: number;
   settled_earnings: number;
   unsettled_earnings: number;
+  // Refunds of payments already settled, withheld from the next settlement
+  clawback_due: number;
   total_payments: number;
   unsettled_payments: number;
   normal_appointments: number;
@@ -157,6 +177,35 @@ export default function AdminDashboard() {
   const [platformFee, setPlatformFee] = useState(0);
   const [platformFeeInput, setPlatformFeeInput] = useState("0");
   const [savingPlatformFee, setSavingPlatformFee] = useState(false);
+  const [rescheduleCutoffHours, setRescheduleCutoffHours] = useState(2);
+  const [rescheduleCutoffInput, setRescheduleCutoffInput] = useState("2");
+  const [savingBookingPolicy, setSavingBookingPolicy] = useState(false);
+  const [reminderOffsets, setReminderOffsets] = useState<number[]>([1440, 15]);
+  const [reminderOffsetsInput, setReminderOffsetsInput] = useState("1440, 15");
+  const [savingReminders, setSavingReminders] = useState(false);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>({
+    full_refund_hours: 24,
+    partial_refund_hours: 4,
+    partial_refund_percent: 50,
+  });
+  const [cancellationPolicyInput, setCancellationPolicyInput] = useState({
+    full_refund_hours: "24",
+    partial_refund_hours: "4",
+    partial_refund_percent: "50",
+  });
+  const [savingCancellationPolicy, setSavingCancellationPolicy] = useState(false);
+  const [noShowPatientForfeitsFee, setNoShowPatientForfeitsFee] = useState(true);
+  const [noShowDoctorAutoRefund, setNoShowDoctorAutoRefund] = useState(true);
+  const [noShowThresholdInput, setNoShowThresholdInput] = useState("3");
+  const [noShowThreshold, setNoShowThreshold] = useState(3);
+  const [savingNoShowPolicy, setSavingNoShowPolicy] = useState(false);
+  const [emergencyResponseInput, setEmergencyResponseInput] = useState("15");
+  const [emergencyResponseMinutes, setEmergencyResponseMinutes] = useState(15);
+  const [savingEmergencyResponse, setSavingEmergencyResponse] = useState(false);
+  const [paymentProviders, setPaymentProviders] = useState<PaymentProviderStatus[]>([]);
+  const [paymentProvider, setPaymentProvider] = useState<PaymentProviderName>("cashfree");
+  const [paymentProviderInput, setPaymentProviderInput] = useState<PaymentProviderName>("cashfree");
+  const [savingPaymentProvider, setSavingPaymentProvider] = useState(false);
   const [updateTitle, setUpdateTitle] = useState("MediConnect Update");
   const [updateMessage, setUpdateMessage] = useState("");
   const [updateAudience, setUpdateAudience] = useState<"doctor" | "patient" | "both">("both");
@@ -208,9 +257,36 @@ export default function AdminDashboard() {
         const nextPlatformFee = Number(platformSettings?.platform_fee || 0);
         setPlatformFee(nextPlatformFee);
         setPlatformFeeInput(String(nextPlatformFee));
+        const nextCutoffHours = Number(platformSettings?.reschedule_cutoff_hours ?? 2);
+        setRescheduleCutoffHours(nextCutoffHours);
+        setRescheduleCutoffInput(String(nextCutoffHours));
+        const nextReminderOffsets: number[] = platformSettings?.reminder_offsets_minutes ?? [1440, 15];
+        setReminderOffsets(nextReminderOffsets);
+        setReminderOffsetsInput(nextReminderOffsets.join(", "));
+        const nextCancellationPolicy: CancellationPolicy | undefined = platformSettings?.cancellation_policy;
+        if (nextCancellationPolicy) {
+          setCancellationPolicy(nextCancellationPolicy);
+          setCancellationPolicyInput({
+            full_refund_hours: String(nextCancellationPolicy.full_refund_hours),
+            partial_refund_hours: String(nextCancellationPolicy.partial_refund_hours),
+            partial_refund_percent: String(nextCancellationPolicy.partial_refund_percent),
+          });
+        }
+        setNoShowPatientForfeitsFee(platformSettings?.no_show_patient_forfeits_fee ?? true);
+        setNoShowDoctorAutoRefund(platformSettings?.no_show_doctor_auto_refund ?? true);
+        const nextNoShowThreshold = Number(platformSettings?.no_show_prepayment_threshold ?? 3);
+        setNoShowThreshold(nextNoShowThreshold);
+        setNoShowThresholdInput(String(nextNoShowThreshold));
+        const nextEmergencyResponse = Number(platformSettings?.emergency_response_minutes ?? 15);
+        setEmergencyResponseMinutes(nextEmergencyResponse);
+        setEmergencyResponseInput(String(nextEmergencyResponse));
+        setPaymentProviders(platformSettings?.payment_providers ?? []);
+        const nextPaymentProvider: PaymentProviderName = platformSettings?.payment_provider ?? "cashfree";
+        setPaymentProvider(nextPaymentProvider);
+        setPaymentProviderInput(nextPaymentProvider);
 
         const totalRevenue = (payments || []).reduce(
-          (sum: number, payment: any) => sum + Number(payment.amount || 0),
+          (sum: number, payment: any) => sum + Number(payment.amount || 0) - Number(payment.refunded_amount || 0),
           0
         );
 
@@ -245,7 +321,7 @@ export default function AdminDashboard() {
     setDoctorEarnings(earningsData || []);
     setAdminPayments((payments || []) as AdminPaymentRecord[]);
     const totalRevenue = (payments || []).reduce(
-      (sum: number, payment: any) => sum + Number(payment.amount || 0),
+      (sum: number, payment: any) => sum + Number(payment.amount || 0) - Number(payment.refunded_amount || 0),
       0
     );
     const pendingSettlementPayments = (payments || []).filter(
@@ -267,7 +343,7 @@ export default function AdminDashboard() {
     }
 
     setSelectedEarning(doctor);
-    setSettlementAmountInput(String(doctor.unsettled_earnings || ""));
+    setSettlementAmountInput(String(Math.max(0, doctor.unsettled_earnings - (doctor.clawback_due || 0)) || ""));
     setSettlementNoteInput("");
     setShowSettleDialog(true);
   };
@@ -417,6 +493,153 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleSaveBookingPolicy = async () => {
+    const nextCutoff = Number(rescheduleCutoffInput);
+    if (!Number.isFinite(nextCutoff) || nextCutoff < 0) {
+      toast.error("Enter a valid non-negative number of hours");
+      return;
+    }
+
+    setSavingBookingPolicy(true);
+    try {
+      const { data } = await api.patch('/platform-settings', {
+        reschedule_cutoff_hours: nextCutoff,
+      });
+
+      const savedCutoff = Number(data?.reschedule_cutoff_hours ?? nextCutoff);
+      setRescheduleCutoffHours(savedCutoff);
+      setRescheduleCutoffInput(String(savedCutoff));
+      toast.success(`Reschedule cutoff updated to ${savedCutoff} hour(s)`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update booking policy"));
+    } finally {
+      setSavingBookingPolicy(false);
+    }
+  };
+
+  const handleSaveReminders = async () => {
+    const parts = reminderOffsetsInput.split(",").map((part) => part.trim()).filter(Boolean);
+    const nextOffsets = parts.map(Number);
+    if (nextOffsets.some((offset) => !Number.isInteger(offset) || offset <= 0)) {
+      toast.error("Enter reminder times as whole minutes, separated by commas");
+      return;
+    }
+
+    setSavingReminders(true);
+    try {
+      const { data } = await api.patch('/platform-settings', {
+        reminder_offsets_minutes: nextOffsets,
+      });
+
+      const savedOffsets: number[] = data?.reminder_offsets_minutes ?? nextOffsets;
+      setReminderOffsets(savedOffsets);
+      setReminderOffsetsInput(savedOffsets.join(", "));
+      toast.success(savedOffsets.length > 0 ? "Reminder schedule updated" : "Appointment reminders turned off");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update reminder schedule"));
+    } finally {
+      setSavingReminders(false);
+    }
+  };
+
+  const handleSaveCancellationPolicy = async () => {
+    const nextPolicy: CancellationPolicy = {
+      full_refund_hours: Number(cancellationPolicyInput.full_refund_hours),
+      partial_refund_hours: Number(cancellationPolicyInput.partial_refund_hours),
+      partial_refund_percent: Number(cancellationPolicyInput.partial_refund_percent),
+    };
+    if (Object.values(nextPolicy).some((value) => !Number.isFinite(value) || value < 0)) {
+      toast.error("Enter non-negative numbers for every cancellation policy value");
+      return;
+    }
+    if (nextPolicy.partial_refund_hours > nextPolicy.full_refund_hours) {
+      toast.error("The partial refund window cannot be longer than the full refund window");
+      return;
+    }
+
+    setSavingCancellationPolicy(true);
+    try {
+      const { data } = await api.patch('/platform-settings', { cancellation_policy: nextPolicy });
+      const savedPolicy: CancellationPolicy = data?.cancellation_policy ?? nextPolicy;
+      setCancellationPolicy(savedPolicy);
+      setCancellationPolicyInput({
+        full_refund_hours: String(savedPolicy.full_refund_hours),
+        partial_refund_hours: String(savedPolicy.partial_refund_hours),
+        partial_refund_percent: String(savedPolicy.partial_refund_percent),
+      });
+      toast.success("Cancellation policy updated");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update cancellation policy"));
+    } finally {
+      setSavingCancellationPolicy(false);
+    }
+  };
+
+  const handleSaveNoShowPolicy = async () => {
+    const nextThreshold = Number(noShowThresholdInput);
+    if (!Number.isInteger(nextThreshold) || nextThreshold < 0) {
+      toast.error("Enter the number of no-shows as a whole number (0 turns prepayment off)");
+      return;
+    }
+
+    setSavingNoShowPolicy(true);
+    try {
+      const { data } = await api.patch('/platform-settings', {
+        no_show_patient_forfeits_fee: noShowPatientForfeitsFee,
+        no_show_doctor_auto_refund: noShowDoctorAutoRefund,
+        no_show_prepayment_threshold: nextThreshold,
+      });
+
+      setNoShowPatientForfeitsFee(data?.no_show_patient_forfeits_fee ?? noShowPatientForfeitsFee);
+      setNoShowDoctorAutoRefund(data?.no_show_doctor_auto_refund ?? noShowDoctorAutoRefund);
+      const savedThreshold = Number(data?.no_show_prepayment_threshold ?? nextThreshold);
+      setNoShowThreshold(savedThreshold);
+      setNoShowThresholdInput(String(savedThreshold));
+      toast.success("No-show policy updated");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update no-show policy"));
+    } finally {
+      setSavingNoShowPolicy(false);
+    }
+  };
+
+  const handleSaveEmergencyResponse = async () => {
+    const nextMinutes = Number(emergencyResponseInput);
+    if (!Number.isInteger(nextMinutes) || nextMinutes < 1 || nextMinutes > 1440) {
+      toast.error("Enter the response time as whole minutes between 1 and 1440");
+      return;
+    }
+
+    setSavingEmergencyResponse(true);
+    try {
+      const { data } = await api.patch('/platform-settings', { emergency_response_minutes: nextMinutes });
+      const savedMinutes = Number(data?.emergency_response_minutes ?? nextMinutes);
+      setEmergencyResponseMinutes(savedMinutes);
+      setEmergencyResponseInput(String(savedMinutes));
+      toast.success("Emergency response time updated");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update emergency response time"));
+    } finally {
+      setSavingEmergencyResponse(false);
+    }
+  };
+
+  const handleSavePaymentProvider = async () => {
+    setSavingPaymentProvider(true);
+    try {
+      const { data } = await api.patch('/platform-settings', { payment_provider: paymentProviderInput });
+      const savedProvider: PaymentProviderName = data?.payment_provider ?? paymentProviderInput;
+      setPaymentProvider(savedProvider);
+      setPaymentProviderInput(savedProvider);
+      setPaymentProviders(data?.payment_providers ?? paymentProviders);
+      toast.success(`Patients now pay through ${PAYMENT_PROVIDER_LABELS[savedProvider]}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to update payment provider"));
+    } finally {
+      setSavingPaymentProvider(false);
+    }
+  };
+
   const handleSendAdminUpdate = async () => {
     const title = updateTitle.trim() || "MediConnect Update";
     const message = updateMessage.trim();
@@ -843,6 +1066,22 @@ export default function AdminDashboard() {
               <IndianRupee className="h-4 w-4" />
               Settlements
             </TabsTrigger>
+            <TabsTrigger value="refunds" className="gap-2">
+              <Undo2 className="h-4 w-4" />
+              Refunds
+            </TabsTrigger>
+            <TabsTrigger value="reconciliation" className="gap-2">
+              <Scale className="h-4 w-4" />
+              Reconciliation
+            </TabsTrigger>
+            <TabsTrigger value="organizations" className="gap-2">
+              <Building2 className="h-4 w-4" />
+              Organizations
+            </TabsTrigger>
+            <TabsTrigger value="intake-forms" className="gap-2">
+              <ClipboardList className="h-4 w-4" />
+              Intake Forms
+            </TabsTrigger>
             <TabsTrigger value="platform-fee" className="gap-2">
               <IndianRupee className="h-4 w-4" />
               Platform Fee
@@ -923,6 +1162,9 @@ export default function AdminDashboard() {
                         <div>
                           <p className="font-semibold">{earning.doctor_name}</p>
                           <p className="text-sm text-muted-foreground">{earning.doctor_email || "No email"}</p>
+                          {earning.organization_name && (
+                            <p className="text-xs text-muted-foreground">Settled through {earning.organization_name}</p>
+                          )}
                           <div className="flex flex-wrap gap-2 mt-2 text-xs">
                             <Badge variant="outline">Total: ₹{earning.total_earnings}</Badge>
                             <Badge variant="outline">Settled: ₹{earning.settled_earnings}</Badge>
@@ -942,7 +1184,11 @@ export default function AdminDashboard() {
                           </Button>
                           <Button
                             onClick={() => openSettleDialog(earning)}
-                            disabled={earning.unsettled_payments === 0 || settlingDoctorId === earning.doctor_id}
+                            disabled={
+                              earning.unsettled_payments === 0 ||
+                              !!earning.organization_id ||
+                              settlingDoctorId === earning.doctor_id
+                            }
                           >
                             {settlingDoctorId === earning.doctor_id ? "Settling..." : "Settle Earnings"}
                           </Button>
@@ -1027,6 +1273,22 @@ export default function AdminDashboard() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="refunds" className="mt-6">
+            <RefundsAdminPanel />
+          </TabsContent>
+
+          <TabsContent value="reconciliation" className="mt-6">
+            <ReconciliationAdminPanel />
+          </TabsContent>
+
+          <TabsContent value="organizations" className="mt-6">
+            <OrganizationsAdminPanel onSettled={fetchEarningsOnly} />
+          </TabsContent>
+
+          <TabsContent value="intake-forms" className="mt-6">
+            <IntakeFormsAdminPanel />
+          </TabsContent>
+
           <TabsContent value="platform-fee" className="mt-6">
             <Card>
               <CardHeader>
@@ -1059,6 +1321,225 @@ export default function AdminDashboard() {
                 </p>
               </CardContent>
             </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Payment Provider</CardTitle>
+                <CardDescription>
+                  The gateway new checkouts go through. Refunds always use the gateway the payment was made with.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-full max-w-xs">
+                    <label className="text-sm font-medium">Provider</label>
+                    <select
+                      value={paymentProviderInput}
+                      onChange={(e) => {
+                        if (isPaymentProviderName(e.target.value)) setPaymentProviderInput(e.target.value);
+                      }}
+                      className="mt-1 w-full border rounded-md px-3 py-2 text-sm"
+                    >
+                      {paymentProviders.map((provider) => (
+                        <option key={provider.name} value={provider.name} disabled={!provider.selectable}>
+                          {provider.configured ? provider.label : `${provider.label} (not configured)`}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button
+                    className="mt-6"
+                    onClick={handleSavePaymentProvider}
+                    disabled={savingPaymentProvider || paymentProviderInput === paymentProvider}
+                  >
+                    {savingPaymentProvider ? "Saving..." : "Save Provider"}
+                  </Button>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  Patients currently pay through {PAYMENT_PROVIDER_LABELS[paymentProvider]}.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Booking Policy</CardTitle>
+                <CardDescription>
+                  Control how close to the appointment time patients can still reschedule.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-full max-w-xs">
+                    <label className="text-sm font-medium">Reschedule Cutoff (hours)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={rescheduleCutoffInput}
+                      onChange={(e) => setRescheduleCutoffInput(e.target.value)}
+                      className="mt-1 w-full border rounded-md px-3 py-2 text-sm"
+                      placeholder="Hours before the slot"
+                    />
+                  </div>
+                  <Button className="mt-6" onClick={handleSaveBookingPolicy} disabled={savingBookingPolicy}>
+                    {savingBookingPolicy ? "Saving..." : "Save Policy"}
+                  </Button>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  Patients can reschedule up to {rescheduleCutoffHours} hour(s) before their appointment.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Appointment Reminders</CardTitle>
+                <CardDescription>
+                  Patients and doctors get an in-app and email reminder at each of these times before a confirmed appointment.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-full max-w-xs">
+                    <label className="text-sm font-medium">Reminder Times (minutes before)</label>
+                    <input
+                      type="text"
+                      value={reminderOffsetsInput}
+                      onChange={(e) => setReminderOffsetsInput(e.target.value)}
+                      className="mt-1 w-full border rounded-md px-3 py-2 text-sm"
+                      placeholder="e.g. 1440, 15"
+                    />
+                  </div>
+                  <Button className="mt-6" onClick={handleSaveReminders} disabled={savingReminders}>
+                    {savingReminders ? "Saving..." : "Save Reminders"}
+                  </Button>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  {reminderOffsets.length > 0
+                    ? `Reminders go out ${reminderOffsets.map((offset) => `${offset} minute(s)`).join(" and ")} before each appointment.`
+                    : "Appointment reminders are turned off."}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Cancellation Policy</CardTitle>
+                <CardDescription>
+                  Refunds patients get when they cancel a paid appointment. Doctors can set their own policy in their profile.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-end gap-3">
+                  {([
+                    ["full_refund_hours", "Full refund up to (hours before)"],
+                    ["partial_refund_hours", "Partial refund up to (hours before)"],
+                    ["partial_refund_percent", "Partial refund (% of doctor fee)"],
+                  ] as const).map(([field, label]) => (
+                    <div key={field} className="w-full max-w-[14rem]">
+                      <label className="text-sm font-medium">{label}</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={cancellationPolicyInput[field]}
+                        onChange={(e) => setCancellationPolicyInput((prev) => ({ ...prev, [field]: e.target.value }))}
+                        className="mt-1 w-full border rounded-md px-3 py-2 text-sm"
+                      />
+                    </div>
+                  ))}
+                  <Button onClick={handleSaveCancellationPolicy} disabled={savingCancellationPolicy}>
+                    {savingCancellationPolicy ? "Saving..." : "Save Policy"}
+                  </Button>
+                </div>
+
+                <p className="text-sm text-muted-foreground">{describeCancellationPolicy(cancellationPolicy)}</p>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>No-show Policy</CardTitle>
+                <CardDescription>
+                  What happens when a patient or doctor misses a confirmed appointment.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={noShowPatientForfeitsFee}
+                    onChange={(e) => setNoShowPatientForfeitsFee(e.target.checked)}
+                  />
+                  Patients who miss an appointment forfeit the consultation fee
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={noShowDoctorAutoRefund}
+                    onChange={(e) => setNoShowDoctorAutoRefund(e.target.checked)}
+                  />
+                  Refund the patient automatically when the doctor does not attend
+                </label>
+                <div className="flex items-center gap-3">
+                  <div className="w-full max-w-xs">
+                    <label className="text-sm font-medium">Require prepayment after (no-shows)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step={1}
+                      value={noShowThresholdInput}
+                      onChange={(e) => setNoShowThresholdInput(e.target.value)}
+                      className="mt-1 w-full border rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <Button className="mt-6" onClick={handleSaveNoShowPolicy} disabled={savingNoShowPolicy}>
+                    {savingNoShowPolicy ? "Saving..." : "Save Policy"}
+                  </Button>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  {noShowThreshold > 0
+                    ? `Patients with ${noShowThreshold} or more no-shows must pay online before their appointment.`
+                    : "Patients are never required to prepay because of no-shows."}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Emergency Requests</CardTitle>
+                <CardDescription>
+                  How long a doctor has to accept or decline an emergency request before it expires.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-3">
+                  <div className="w-full max-w-xs">
+                    <label className="text-sm font-medium">Response time (minutes)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={1440}
+                      step={1}
+                      value={emergencyResponseInput}
+                      onChange={(e) => setEmergencyResponseInput(e.target.value)}
+                      className="mt-1 w-full border rounded-md px-3 py-2 text-sm"
+                    />
+                  </div>
+                  <Button className="mt-6" onClick={handleSaveEmergencyResponse} disabled={savingEmergencyResponse}>
+                    {savingEmergencyResponse ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  Unanswered emergency requests expire after {emergencyResponseMinutes} minutes and the patient is told to try another doctor.
+                </p>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="updates" className="mt-6">
@@ -1293,6 +1774,7 @@ export default function AdminDashboard() {
             <DialogTitle>Settle Doctor Earnings</DialogTitle>
             <DialogDescription>
               {selectedEarning?.doctor_name || "Doctor"} • Unsettled ₹{selectedEarning?.unsettled_earnings || 0}
+              {selectedEarning?.clawback_due ? ` • ₹${selectedEarning.clawback_due} withheld for refunds` : ""}
             </DialogDescription>
           </DialogHeader>
 
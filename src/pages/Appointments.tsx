@@ -1,7 +1,7 @@
 import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Link, useNavigate } from "react-router-dom";
-import api from "@/lib/api";
+import api, { getApiErrorMessage } from "@/lib/api";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -12,6 +12,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format, isToday, isFuture, isPast } from "date-fns";
+import { getAppointmentStart, getTimeZoneLabel } from "@/lib/timezone";
+import { getWaitlistDoctorId, type WaitlistEntry } from "@/lib/waitlist";
 import {
   Calendar,
   Clock,
@@ -22,15 +24,46 @@ import {
   CheckCircle2,
   XCircle,
   AlertCircle,
+  ListOrdered,
+  Stethoscope,
+  MapPin,
+  Zap,
 } from "lucide-react";
 import { PrescriptionModal } from "@/components/PrescriptionModal";
+import { RescheduleAppointmentDialog } from "@/components/RescheduleAppointmentDialog";
+import { CancelSeriesOccurrenceDialog } from "@/components/CancelSeriesOccurrenceDialog";
+import { CancelAppointmentDialog } from "@/components/CancelAppointmentDialog";
+import { AcceptFollowUpDialog } from "@/components/AcceptFollowUpDialog";
+import { AppointmentHistoryDialog } from "@/components/AppointmentHistoryDialog";
+import { NoShowMenu } from "@/components/NoShowMenu";
+import { EditIntakeDialog } from "@/components/EditIntakeDialog";
+import { AddToCalendarButton } from "@/components/AddToCalendarButton";
+import { DownloadInvoiceButton } from "@/components/DownloadInvoiceButton";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatusChange } from "@/lib/appointment-status";
+import type { FollowUpProposal } from "@/lib/follow-ups";
+import { SERIES_FREQUENCY_LABELS, type AppointmentSeriesSummary } from "@/lib/appointment-series";
+import type { AppointmentIntake } from "@/lib/intake-forms";
+import { hasInvoice } from "@/lib/invoices";
+import { describeDependent, type DependentSnapshot } from "@/lib/dependents";
+import { getConsultingDoctorName, type ConsultingDoctor } from "@/lib/consultations";
+import { CONSULTATION_MODE_LABELS, getMapLink, isVideoConsultation, type ConsultationMode } from "@/lib/consultation-modes";
+import {
+  EMERGENCY_REQUEST_STATUS_LABELS,
+  getMinutesToRespond,
+  type EmergencyDisplacement,
+  type EmergencyRequest,
+} from "@/lib/emergency-requests";
 
 interface Appointment {
   _id: string;
   id: string; // fallback
   appointment_date: string;
   appointment_time: string;
+  start_at?: string | null;
+  timezone?: string;
   appointment_type: string;
+  consultation_mode?: ConsultationMode;
+  clinic_address?: string;
   amount: number;
   status: string;
   payment_status: string;
@@ -40,6 +73,10 @@ interface Appointment {
   meeting_provider?: string;
   meeting_time?: string | null;
   notes?: string;
+  displaced_by_emergency?: EmergencyDisplacement | null;
+  intake?: AppointmentIntake | null;
+  dependent?: DependentSnapshot | null;
+  consulting_doctors?: ConsultingDoctor[];
   video: {
     provider: string;
     meetingId: string;
@@ -50,6 +87,10 @@ interface Appointment {
   };
   doctor_id: any;
   patient_id: any;
+  series_id?: AppointmentSeriesSummary | null;
+  series_index?: number | null;
+  status_history?: AppointmentStatusChange[];
+  createdAt?: string;
   doctor: {
     id: string;
     specialization: string;
@@ -68,8 +109,13 @@ export default function Appointments() {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [loading, setLoading] = useState(true);
   const [updatingStatusId, setUpdatingStatusId] = useState<string | null>(null);
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([]);
+  const [followUps, setFollowUps] = useState<FollowUpProposal[]>([]);
+  const [respondingFollowUpId, setRespondingFollowUpId] = useState<string | null>(null);
+  const [emergencyRequests, setEmergencyRequests] = useState<EmergencyRequest[]>([]);
+  const [decliningRebookingId, setDecliningRebookingId] = useState<string | null>(null);
 
-  // Notifications for patient (e.g., preempted by emergency)
+  // Notifications for patient (e.g., moved or cancelled for an emergency)
   const [notifications, setNotifications] = useState<any[]>([]);
   const [showPreemptedDialog, setShowPreemptedDialog] = useState(false);
   const [activePreempted, setActivePreempted] = useState<any | null>(null);
@@ -116,6 +162,124 @@ export default function Appointments() {
     }
   };
 
+  const fetchWaitlist = async () => {
+    try {
+      const { data } = await api.get('/waitlist/mine');
+      setWaitlistEntries(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Error fetching waitlist:', error);
+    }
+  };
+
+  const fetchFollowUps = async () => {
+    try {
+      const { data } = await api.get('/follow-ups/mine');
+      setFollowUps(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Error fetching follow-ups:', error);
+    }
+  };
+
+  const fetchEmergencyRequests = async () => {
+    try {
+      const { data } = await api.get('/emergency-requests/mine');
+      setEmergencyRequests(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Error fetching emergency requests:', error);
+    }
+  };
+
+  const handleWithdrawEmergency = async (requestId: string) => {
+    try {
+      await api.delete(`/emergency-requests/${requestId}`);
+      setEmergencyRequests((prev) => prev.map((r) => (r._id === requestId ? { ...r, status: 'withdrawn' } : r)));
+      toast({ title: 'Emergency request withdrawn' });
+    } catch (error) {
+      console.error('Error withdrawing emergency request', error);
+      toast({
+        title: 'Failed to withdraw emergency request',
+        description: getApiErrorMessage(error, 'Please try again'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // The patient turned down the slot an emergency moved them to; they get a full refund
+  const handleDeclineRebooking = async (appointmentId: string) => {
+    try {
+      setDecliningRebookingId(appointmentId);
+      await api.put(`/appointments/${appointmentId}/decline-rebooking`);
+      await refreshAppointments();
+      toast({ title: 'Appointment cancelled', description: 'Any payment is refunded in full.' });
+    } catch (error) {
+      console.error('Error declining rebooking', error);
+      toast({
+        title: 'Failed to cancel appointment',
+        description: getApiErrorMessage(error, 'Please try again'),
+        variant: 'destructive',
+      });
+    } finally {
+      setDecliningRebookingId(null);
+    }
+  };
+
+  // Exact-slot proposals are booked in one click; range proposals go through AcceptFollowUpDialog
+  const handleAcceptFollowUp = async (proposal: FollowUpProposal) => {
+    try {
+      setRespondingFollowUpId(proposal._id);
+      const { data } = await api.post(`/follow-ups/${proposal._id}/accept`);
+      if (data.appointment.payment_status === 'paid') {
+        toast({ title: 'Follow-up booked' });
+        setFollowUps((prev) => prev.filter((f) => f._id !== proposal._id));
+        await refreshAppointments();
+      } else {
+        navigate(`/payment/${data.appointment._id}`);
+      }
+    } catch (error) {
+      console.error('Error accepting follow-up', error);
+      toast({
+        title: 'Failed to book follow-up',
+        description: getApiErrorMessage(error, 'Please try again'),
+        variant: 'destructive',
+      });
+    } finally {
+      setRespondingFollowUpId(null);
+    }
+  };
+
+  const handleDeclineFollowUp = async (proposalId: string) => {
+    try {
+      setRespondingFollowUpId(proposalId);
+      await api.post(`/follow-ups/${proposalId}/decline`);
+      setFollowUps((prev) => prev.filter((f) => f._id !== proposalId));
+      toast({ title: 'Follow-up declined' });
+    } catch (error) {
+      console.error('Error declining follow-up', error);
+      toast({
+        title: 'Failed to decline follow-up',
+        description: getApiErrorMessage(error, 'Please try again'),
+        variant: 'destructive',
+      });
+    } finally {
+      setRespondingFollowUpId(null);
+    }
+  };
+
+  const handleLeaveWaitlist = async (entryId: string) => {
+    try {
+      await api.delete(`/waitlist/${entryId}`);
+      setWaitlistEntries((prev) => prev.filter((e) => e._id !== entryId));
+      toast({ title: 'Removed from waitlist' });
+    } catch (error) {
+      console.error('Error leaving waitlist', error);
+      toast({
+        title: 'Failed to leave waitlist',
+        description: getApiErrorMessage(error, 'Please try again'),
+        variant: 'destructive',
+      });
+    }
+  };
+
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
       navigate("/auth");
@@ -130,11 +294,15 @@ export default function Appointments() {
         const { data } = await api.get('/appointments');
         setAppointments(data.map(mapAppointment));
 
-        // Fetch notifications and show any unread preempted notifications (patient-facing)
+        if (role === 'patient') {
+          await Promise.all([fetchWaitlist(), fetchFollowUps(), fetchEmergencyRequests()]);
+        }
+
+        // Fetch notifications and show any unread emergency displacement notice (patient-facing)
         try {
           const { data: notifs } = await api.get('/notifications');
-          // show first unread preempted notification
-          const firstPreempted = notifs && notifs.find((n: any) => n.type === 'preempted' && !n.read);
+          // show first unread displacement notification
+          const firstPreempted = notifs && notifs.find((n: any) => (n.type === 'emergency_displaced' || n.type === 'preempted') && !n.read);
           if (firstPreempted) {
             setNotifications(notifs);
             setActivePreempted(firstPreempted);
@@ -196,11 +364,15 @@ export default function Appointments() {
   }, [authLoading, isAuthenticated, user]);
 
   const upcomingAppointments = appointments.filter(
-    (a) => (a.status === "confirmed" || a.status === "pending") && (isFuture(new Date(a.appointment_date)) || isToday(new Date(a.appointment_date)))
+    (a) => (a.status === "confirmed" || a.status === "pending") && (isFuture(getAppointmentStart(a)) || isToday(getAppointmentStart(a)))
   );
   const pendingAppointments = appointments.filter((a) => a.status === "pending");
   const pastAppointments = appointments.filter(
-    (a) => a.status === "completed" || (a.status === "confirmed" && isPast(new Date(a.appointment_date)))
+    (a) =>
+      a.status === "completed" ||
+      a.status === "no_show_patient" ||
+      a.status === "no_show_doctor" ||
+      (a.status === "confirmed" && isPast(getAppointmentStart(a)))
   );
   const cancelledAppointments = appointments.filter((a) => a.status === "cancelled");
 
@@ -208,6 +380,14 @@ export default function Appointments() {
     if (paymentStatus === "pending") {
       return <Badge variant="secondary">Payment Pending</Badge>;
     }
+    if ((paymentStatus === "refunded" || paymentStatus === "partially_refunded") && status !== "pending") {
+      const statusLabel = APPOINTMENT_STATUS_LABELS[status as keyof typeof APPOINTMENT_STATUS_LABELS] ?? status;
+      return (
+        <Badge variant="secondary">
+          {statusLabel} · {paymentStatus === "refunded" ? "Refunded" : "Partly refunded"}
+        </Badge>
+      );
+    }
     switch (status) {
       case "confirmed":
         return <Badge className="bg-success text-success-foreground">Confirmed</Badge>;
@@ -215,6 +395,9 @@ export default function Appointments() {
         return <Badge variant="secondary">Completed</Badge>;
       case "cancelled":
         return <Badge variant="destructive">Cancelled</Badge>;
+      case "no_show_patient":
+      case "no_show_doctor":
+        return <Badge variant="destructive">{APPOINTMENT_STATUS_LABELS[status]}</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -271,18 +454,59 @@ export default function Appointments() {
   };
 
   const AppointmentCard = ({ appointment }: { appointment: Appointment }) => {
-    const appointmentDate = new Date(appointment.appointment_date);
+    // Start instant rendered in the viewer's own timezone
+    const appointmentDate = getAppointmentStart(appointment);
     const appointmentId = appointment._id || appointment.id;
     // Allow doctors to access chat even if payment is pending; patient access still requires paid/confirmed/emergency
     const canAccessChat = appointment.chat_unlocked && (role === 'doctor' || appointment.payment_status === "paid" || appointment.status === 'confirmed' || appointment.appointment_type === 'emergency');
     const canAccessVideo = appointment.video_unlocked && (appointment.payment_status === "paid" || appointment.status === 'confirmed' || appointment.appointment_type === 'emergency');
     const patientVideoJoinUrl = appointment.video?.patientJoinUrl || appointment.zoom_join_url;
     const isDoctor = role === "doctor";
+    const consultationMode = appointment.consultation_mode || "video";
+    // Only doctors who accepted take part; open invitations are the primary doctor's business
+    const consultants = (appointment.consulting_doctors || []).filter((c) => c.status === "accepted");
     const canPrescribe = isDoctor && (appointment.status === "confirmed" || appointment.status === "completed");
     const canMarkDone = isDoctor && appointment.status === 'confirmed';
+    // No-shows can only be recorded once the appointment has started
+    const canRecordNoShow = canMarkDone && !isFuture(appointmentDate);
+    const canReschedule =
+      role === 'patient' &&
+      (appointment.status === 'pending' || appointment.status === 'confirmed') &&
+      appointment.appointment_type !== 'emergency' &&
+      (isFuture(appointmentDate) || isToday(appointmentDate));
+    // Answers can be added or changed until the consultation starts
+    const canEditIntake =
+      role === 'patient' &&
+      (appointment.status === 'pending' || appointment.status === 'confirmed') &&
+      isFuture(appointmentDate);
+
+    const canAddToCalendar =
+      (appointment.status === 'pending' || appointment.status === 'confirmed') && isFuture(appointmentDate);
+
+    const canDownloadInvoice = role === 'patient' && hasInvoice(appointment);
+
+    const series = appointment.series_id && typeof appointment.series_id === 'object' ? appointment.series_id : null;
+    const seriesVisitLabel = series ? `visit ${(appointment.series_index ?? 0) + 1} of ${series.occurrences}` : '';
+    const canCancelSeriesVisit =
+      role === 'patient' &&
+      Boolean(series) &&
+      (appointment.status === 'pending' || appointment.status === 'confirmed') &&
+      isFuture(appointmentDate);
+
+    const canCancel =
+      role === 'patient' &&
+      !series &&
+      (appointment.status === 'pending' || appointment.status === 'confirmed') &&
+      isFuture(appointmentDate);
 
     // show a visual marker if this appointment was preempted by an emergency (notes contain it)
     const wasPreempted = appointment.status === 'cancelled' && appointment.notes && appointment.notes.includes('Preempted by emergency');
+    const displacement = appointment.displaced_by_emergency;
+    const canDeclineRebooking =
+      role === 'patient' &&
+      Boolean(displacement) &&
+      (appointment.status === 'pending' || appointment.status === 'confirmed') &&
+      isFuture(appointmentDate);
 
     return (
       <Card className="hover:shadow-md transition-shadow">
@@ -306,18 +530,42 @@ export default function Appointments() {
                   </p>
                 </>
               )}
+              {appointment.dependent && (
+                <p className="text-sm text-muted-foreground">For {describeDependent(appointment.dependent)}</p>
+              )}
+              {consultants.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Consulting: {consultants.map(getConsultingDoctorName).join(", ")}
+                </p>
+              )}
             </div>
             <div className="flex flex-col items-start sm:items-end gap-2">
               {getStatusBadge(appointment.status, appointment.payment_status)}
               <Badge variant={appointment.appointment_type === "emergency" ? "destructive" : "outline"}>
                 {appointment.appointment_type}
               </Badge>
+              <Badge variant="outline">{CONSULTATION_MODE_LABELS[consultationMode]}</Badge>
+              {series && (
+                <Badge variant="outline">
+                  {SERIES_FREQUENCY_LABELS[series.frequency]} · {seriesVisitLabel}
+                </Badge>
+              )}
               {wasPreempted && (
                 <p className="text-xs text-destructive">Cancelled due to emergency booking</p>
               )}
             </div>
           </div>
 
+          {displacement && appointment.status !== 'cancelled' && (
+            <div className="mb-4 p-3 rounded-lg bg-warning/10 text-sm flex items-start gap-2">
+              <AlertCircle className="h-4 w-4 text-warning mt-0.5" />
+              <p>
+                Moved from {format(new Date(`${displacement.from_date}T00:00:00`), "MMM d")} at {displacement.from_time} to make room for an emergency.
+                {canDeclineRebooking && ' If the new time does not suit you, cancel for a full refund.'}
+              </p>
+            </div>
+          )}
+
           <div className="flex flex-wrap items-center gap-4 sm:gap-6 text-sm mb-4">
             <div className="flex items-center gap-2">
               <Calendar className="h-4 w-4 text-muted-foreground" />
@@ -325,12 +573,25 @@ export default function Appointments() {
             </div>
             <div className="flex items-center gap-2">
               <Clock className="h-4 w-4 text-muted-foreground" />
-              <span>{appointment.appointment_time.slice(0, 5)}</span>
+              <span>{format(appointmentDate, "HH:mm")} {getTimeZoneLabel(null, appointmentDate)}</span>
             </div>
             <div className="flex items-center gap-2">
               <IndianRupee className="h-4 w-4 text-muted-foreground" />
               <span>₹{appointment.amount}</span>
             </div>
+            {consultationMode === "in_person" && appointment.clinic_address && (
+              <div className="flex items-center gap-2">
+                <MapPin className="h-4 w-4 text-muted-foreground" />
+                <a
+                  href={getMapLink(appointment.clinic_address)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="hover:underline"
+                >
+                  {appointment.clinic_address}
+                </a>
+              </div>
+            )}
           </div>
 
           <div className="flex gap-2 flex-wrap items-center">
@@ -339,6 +600,50 @@ export default function Appointments() {
                 <Link to={`/payment/${appointment.id}`}>Complete Payment</Link>
               </Button>
             )}
+            {canReschedule && (
+              <RescheduleAppointmentDialog
+                appointmentId={appointmentId}
+                doctorId={appointment.doctor_id?._id || appointment.doctor_id}
+                currentDate={format(appointmentDate, "yyyy-MM-dd")}
+                currentTime={format(appointmentDate, "HH:mm")}
+                onSuccess={refreshAppointments}
+              />
+            )}
+            {canEditIntake && (
+              <EditIntakeDialog
+                appointmentId={appointmentId}
+                doctorId={appointment.doctor_id?._id || appointment.doctor_id}
+                intake={appointment.intake}
+                onSuccess={refreshAppointments}
+              />
+            )}
+            {canAddToCalendar && <AddToCalendarButton appointmentId={appointmentId} />}
+            {canDownloadInvoice && <DownloadInvoiceButton appointmentId={appointmentId} />}
+            <AppointmentHistoryDialog
+              bookedAt={appointment.createdAt}
+              history={appointment.status_history || []}
+            />
+            {canDeclineRebooking ? (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDeclineRebooking(appointmentId)}
+                disabled={decliningRebookingId === appointmentId}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                {decliningRebookingId === appointmentId ? 'Cancelling...' : 'Cancel for Full Refund'}
+              </Button>
+            ) : canCancel && (
+              <CancelAppointmentDialog appointmentId={appointmentId} onSuccess={refreshAppointments} />
+            )}
+            {canCancelSeriesVisit && series && (
+              <CancelSeriesOccurrenceDialog
+                appointmentId={appointmentId}
+                seriesId={series._id}
+                visitLabel={seriesVisitLabel}
+                onSuccess={refreshAppointments}
+              />
+            )}
             {canMarkDone && (
               <Button
                 size="sm"
@@ -349,6 +654,9 @@ export default function Appointments() {
                 {updatingStatusId === appointmentId ? 'Marking...' : 'Mark as Done'}
               </Button>
             )}
+            {canRecordNoShow && (
+              <NoShowMenu appointmentId={appointmentId} onSuccess={refreshAppointments} />
+            )}
             {canAccessChat && (
               <Button size="sm" variant="outline" asChild>
                 <Link to={`/chat/${appointmentId}`}>
@@ -410,7 +718,7 @@ export default function Appointments() {
                 )}
 
                 {/* Video / Zoom link */}
-                <DoctorVideoControls appointment={appointment} />
+                {isVideoConsultation(appointment) && <DoctorVideoControls appointment={appointment} />}
               </div>
             )}
 
@@ -468,6 +776,160 @@ export default function Appointments() {
           )}
         </div>
 
+        {role === "patient" && emergencyRequests.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Zap className="h-5 w-5 text-warning" />
+                Emergency Requests
+              </CardTitle>
+              <CardDescription>The doctor accepts or declines each request before anything is booked.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {emergencyRequests.map((request) => (
+                <div key={request._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border">
+                  <div>
+                    <p className="font-medium">
+                      Dr. {request.doctor_id?.user_id?.full_name || "Unknown"}
+                      {request.doctor_id?.specialization && (
+                        <span className="text-muted-foreground font-normal"> · {request.doctor_id.specialization}</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(new Date(`${request.appointment_date}T00:00:00`), "MMM d, yyyy")} at {request.appointment_time}
+                      {` · ₹${request.amount}`}
+                    </p>
+                    <p className="text-sm mt-1">
+                      {EMERGENCY_REQUEST_STATUS_LABELS[request.status]}
+                      {request.status === "pending" && ` · ${getMinutesToRespond(request)} min left for the doctor to respond`}
+                      {request.status === "declined" && request.decline_reason && `: ${request.decline_reason}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {request.status === "accepted" &&
+                      appointments.some((a) => a._id === request.appointment_id && a.payment_status === "pending") && (
+                      <Button size="sm" asChild>
+                        <Link to={`/payment/${request.appointment_id}`}>Complete Payment</Link>
+                      </Button>
+                    )}
+                    {(request.status === "declined" || request.status === "expired") && (
+                      <Button size="sm" variant="outline" asChild>
+                        <Link to="/doctors">Find Another Doctor</Link>
+                      </Button>
+                    )}
+                    {request.status === "pending" && (
+                      <Button size="sm" variant="outline" onClick={() => handleWithdrawEmergency(request._id)}>
+                        Withdraw
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {role === "patient" && followUps.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Stethoscope className="h-5 w-5 text-primary" />
+                Recommended Follow-ups
+              </CardTitle>
+              <CardDescription>Your doctors suggested another visit after your consultation.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {followUps.map((proposal) => (
+                <div key={proposal._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border">
+                  <div>
+                    <p className="font-medium">
+                      Dr. {proposal.doctor_id?.user_id?.full_name || "Unknown"}
+                      {proposal.doctor_id?.specialization && (
+                        <span className="text-muted-foreground font-normal"> · {proposal.doctor_id.specialization}</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {proposal.appointment_time
+                        ? `${format(new Date(`${proposal.from_date}T00:00:00`), "MMM d, yyyy")} at ${proposal.appointment_time}`
+                        : `Any day ${format(new Date(`${proposal.from_date}T00:00:00`), "MMM d")} – ${format(new Date(`${proposal.to_date}T00:00:00`), "MMM d, yyyy")}`}
+                      {` · ₹${proposal.total_amount}`}
+                    </p>
+                    {proposal.note && <p className="text-sm mt-1">{proposal.note}</p>}
+                  </div>
+                  <div className="flex gap-2">
+                    {proposal.appointment_time ? (
+                      <Button
+                        size="sm"
+                        onClick={() => handleAcceptFollowUp(proposal)}
+                        disabled={respondingFollowUpId === proposal._id}
+                      >
+                        Accept
+                      </Button>
+                    ) : (
+                      <AcceptFollowUpDialog proposal={proposal} />
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeclineFollowUp(proposal._id)}
+                      disabled={respondingFollowUpId === proposal._id}
+                    >
+                      Decline
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {role === "patient" && waitlistEntries.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <ListOrdered className="h-5 w-5 text-primary" />
+                Waitlist
+              </CardTitle>
+              <CardDescription>Fully booked days you're queued for. A freed slot is held for you for a limited time.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {waitlistEntries.map((entry) => {
+                const doctor = typeof entry.doctor_id === "string" ? null : entry.doctor_id;
+                const bookPath = `/book/${getWaitlistDoctorId(entry)}?date=${entry.date}&time=${entry.offered_time}`;
+
+                return (
+                  <div key={entry._id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 rounded-lg border">
+                    <div>
+                      <p className="font-medium">
+                        Dr. {doctor?.user_id?.full_name || "Unknown"}
+                        {doctor?.specialization && <span className="text-muted-foreground font-normal"> · {doctor.specialization}</span>}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {format(new Date(`${entry.date}T00:00:00`), "MMM d, yyyy")}
+                        {entry.status === "offered" && entry.offer_expires_at
+                          ? ` · ${entry.offered_time} slot held until ${format(new Date(entry.offer_expires_at), "HH:mm")}`
+                          : entry.position
+                            ? ` · #${entry.position} in line`
+                            : ""}
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      {entry.status === "offered" && (
+                        <Button size="sm" asChild>
+                          <Link to={bookPath}>Book held slot</Link>
+                        </Button>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => handleLeaveWaitlist(entry._id)}>
+                        Leave
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         <Tabs defaultValue="upcoming">
           <div className="mb-2 overflow-x-auto pb-2">
             <TabsList className="mb-0 min-w-max">
@@ -572,7 +1034,7 @@ export default function Appointments() {
       <Dialog open={showPreemptedDialog} onOpenChange={(open) => { if (!open) { setShowPreemptedDialog(false); setActivePreempted(null); } }}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Appointment Preempted by Emergency</DialogTitle>
+            <DialogTitle>Appointment Affected by an Emergency</DialogTitle>
           </DialogHeader>
           <div className="py-2">
             <p className="text-sm">{activePreempted?.message}</p>
@@ -70,6 +70,8 @@ export default function Auth() {
         navigate("/admin");
       } else if (role === "doctor") {
         navigate("/doctor");
+      } else if (role === "clinic_admin") {
+        navigate("/organization");
       } else {
         navigate("/dashboard");
       }
@@ -1,6 +1,6 @@
 import { useEffect, useState, useMemo } from "react";
-import { useNavigate, useParams } from "react-router-dom";
-import api from "@/lib/api";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import api, { getApiErrorData, getApiErrorMessage, getApiErrorStatus } from "@/lib/api";
 import { getCurrentUser } from "@/lib/auth";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { MainLayout } from "@/components/layout/MainLayout";
@@ -10,8 +10,13 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { IntakeFormFields } from "@/components/IntakeFormFields";
+import { DependentSwitcher } from "@/components/DependentSwitcher";
 import { toast } from "sonner";
-import { format, addDays, isBefore, startOfToday, isToday } from "date-fns";
+import { format, addDays } from "date-fns";
 import {
   Clock,
   IndianRupee,
@@ -20,8 +25,41 @@ import {
   CheckCircle2,
   Zap,
   ArrowLeft,
+  ListOrdered,
+  Repeat,
+  XCircle,
+  Video,
+  MapPin,
+  Phone,
 } from "lucide-react";
 import { Link } from "react-router-dom";
+import { generateTimeSlots, toTimeSlots, type DoctorSlotDay, type DoctorSlotsResponse, type TimeSlot } from "@/lib/time-slots";
+import { DEFAULT_TIME_ZONE, getBrowserTimeZone, getTimeZoneLabel, getTodayInTimeZone, zonedTimeToDate } from "@/lib/timezone";
+import { getWaitlistDoctorId, type WaitlistEntry } from "@/lib/waitlist";
+import type { IntakeAnswers, IntakeForm } from "@/lib/intake-forms";
+import { SELF_PROFILE, getBookingDependentId } from "@/lib/dependents";
+import {
+  MAX_SERIES_OCCURRENCES,
+  MIN_SERIES_OCCURRENCES,
+  SERIES_FREQUENCY_LABELS,
+  type SeriesFrequency,
+  type SeriesOccurrence,
+  type SeriesPreviewResponse,
+} from "@/lib/appointment-series";
+import {
+  CONSULTATION_MODE_LABELS,
+  getConsultationModeFee,
+  getDoctorConsultationModes,
+  getMapLink,
+  type ConsultationMode,
+  type ConsultationModeFees,
+} from "@/lib/consultation-modes";
+
+const CONSULTATION_MODE_ICONS: Record<ConsultationMode, typeof Video> = {
+  video: Video,
+  in_person: MapPin,
+  phone: Phone,
+};
 
 interface Doctor {
   id: string;
@@ -30,6 +68,11 @@ interface Doctor {
   experience_years: number;
   consultation_fee: number;
   emergency_fee: number;
+  consultation_modes?: ConsultationMode[];
+  mode_fees?: ConsultationModeFees | null;
+  clinic_address?: string;
+  slot_duration_minutes?: number;
+  timezone?: string;
   bio: string | null;
   profile: {
     full_name: string;
@@ -37,45 +80,72 @@ interface Doctor {
   } | null;
 }
 
-interface TimeSlot {
-  time: string;
-  available: boolean;
-}
-
-const generateTimeSlots = (): TimeSlot[] => {
-  const slots: TimeSlot[] = [];
-  for (let hour = 9; hour <= 20; hour++) {
-    slots.push({ time: `${hour.toString().padStart(2, "0")}:00`, available: true });
-    if (hour < 20) {
-      slots.push({ time: `${hour.toString().padStart(2, "0")}:30`, available: true });
-    }
-  }
-  return slots;
-};
-
 export default function BookAppointment() {
   const { doctorId } = useParams();
   const navigate = useNavigate();
   const { user, isAuthenticated, isLoading: authLoading, role } = useAuthContext();
 
+  // Waitlist offers link here with ?date=&time= of the slot held for this patient
+  const [searchParams] = useSearchParams();
+  const offeredDate = searchParams.get("date");
+  const offeredTime = searchParams.get("time");
+  const hasOffer = Boolean(offeredDate && offeredTime && /^\d{4}-\d{2}-\d{2}$/.test(offeredDate));
+
   const [doctor, setDoctor] = useState<Doctor | null>(null);
   const [loading, setLoading] = useState(true);
-  const [selectedDate, setSelectedDate] = useState<Date | undefined>(addDays(new Date(), 1));
-  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(
+    hasOffer ? new Date(`${offeredDate}T00:00:00`) : addDays(new Date(), 1)
+  );
+  const [selectedTime, setSelectedTime] = useState<string | null>(hasOffer ? offeredTime : null);
   const [appointmentType, setAppointmentType] = useState<"scheduled" | "emergency">("scheduled");
-  const [timeSlots, setTimeSlots] = useState<TimeSlot[]>(generateTimeSlots());
-  const [bookedSlots, setBookedSlots] = useState<string[]>([]);
+  const [consultationMode, setConsultationMode] = useState<ConsultationMode>("video");
+  const [slotDay, setSlotDay] = useState<DoctorSlotDay | null>(null);
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null);
+  const [joiningWaitlist, setJoiningWaitlist] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [repeatFrequency, setRepeatFrequency] = useState<SeriesFrequency | "none">("none");
+  const [repeatCount, setRepeatCount] = useState(4);
+  const [seriesPreview, setSeriesPreview] = useState<SeriesOccurrence[] | null>(null);
+  const [loadingSeriesPreview, setLoadingSeriesPreview] = useState(false);
   const [platformFee, setPlatformFee] = useState(0);
+  const [emergencyResponseMinutes, setEmergencyResponseMinutes] = useState(15);
+  const [emergencyReason, setEmergencyReason] = useState("");
+  const [intakeForm, setIntakeForm] = useState<IntakeForm | null>(null);
+  const [bookingFor, setBookingFor] = useState(SELF_PROFILE);
+  const [intakeAnswers, setIntakeAnswers] = useState<IntakeAnswers>({});
+  const [prepaymentRequired, setPrepaymentRequired] = useState(false);
+
+  // Slot dates/times are the doctor's wall-clock values; flag when the viewer is elsewhere
+  const doctorTimeZone = doctor?.timezone || DEFAULT_TIME_ZONE;
+  const showsDoctorTimeZone = doctorTimeZone !== getBrowserTimeZone();
+
+  // A slot held for this patient (from the offer link or their waitlist entry) stays selectable
+  const heldTime = useMemo(() => {
+    if (!slotDay) return null;
+    if (hasOffer && slotDay.date === offeredDate) return offeredTime;
+    if (waitlistEntry?.status === "offered" && waitlistEntry.date === slotDay.date) return waitlistEntry.offered_time ?? null;
+    return null;
+  }, [slotDay, hasOffer, offeredDate, offeredTime, waitlistEntry]);
+  const timeSlots = useMemo<TimeSlot[]>(
+    () => (slotDay ? toTimeSlots(slotDay, heldTime) : generateTimeSlots()),
+    [slotDay, heldTime]
+  );
 
   // Derived boolean to avoid repeated find calls and ensure consistent checks
   const selectedSlot = useMemo(() => timeSlots.find((s) => s.time === selectedTime) ?? null, [timeSlots, selectedTime]);
   const isSlotAvailable = useMemo(() => {
     if (!selectedSlot) return false;
-    if (appointmentType === 'emergency') return true; // emergency can preempt
+    if (appointmentType === 'emergency') return true; // the doctor decides whether to move a booked slot
     return selectedSlot.available === true;
   }, [selectedSlot, appointmentType]);
 
+  // Recurring bookings are only offered for scheduled visits
+  const isSeries = appointmentType === "scheduled" && repeatFrequency !== "none";
+  const seriesConflicts = seriesPreview?.filter((o) => !o.ok).length ?? 0;
+
+  // The day has working hours but every slot is taken, so patients may queue for a cancellation
+  const isFullyBooked = Boolean(slotDay?.available) && !timeSlots.some((s) => s.available);
+
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
       navigate("/auth");
@@ -120,6 +190,7 @@ export default function BookAppointment() {
         };
 
         setDoctor(doctorWithProfile);
+        setConsultationMode(getDoctorConsultationModes(doctorWithProfile)[0]);
       } catch (error) {
         console.error("Error fetching doctor", error);
         toast.error("Doctor not found");
@@ -137,6 +208,7 @@ export default function BookAppointment() {
       try {
         const { data } = await api.get('/platform-settings/public');
         setPlatformFee(Number(data?.platform_fee || 0));
+        setEmergencyResponseMinutes(Number(data?.emergency_response_minutes || 15));
       } catch (error) {
         console.error('Failed to fetch platform fee', error);
         setPlatformFee(0);
@@ -147,58 +219,166 @@ export default function BookAppointment() {
   }, []);
 
   useEffect(() => {
-    async function fetchBookedSlotsAndAvailability() {
+    async function fetchIntakeForm() {
+      if (!doctorId || role !== "patient") return;
+      try {
+        const { data } = await api.get<IntakeForm>(`/intake-forms/doctor/${doctorId}`);
+        setIntakeForm(data);
+      } catch (error) {
+        console.error("Failed to fetch intake form", error);
+      }
+    }
+
+    fetchIntakeForm();
+  }, [doctorId, role]);
+
+  useEffect(() => {
+    async function fetchNoShowStatus() {
+      if (role !== "patient") return;
+      try {
+        const { data } = await api.get("/appointments/no-show-status");
+        setPrepaymentRequired(Boolean(data?.prepayment_required));
+      } catch (error) {
+        console.error("Failed to fetch no-show status", error);
+      }
+    }
+
+    fetchNoShowStatus();
+  }, [role]);
+
+  useEffect(() => {
+    async function fetchSlots() {
       if (!doctorId || !selectedDate) return;
 
       try {
-        // Fetch appointments for this doctor and date
-        const { data: appointments } = await api.get(`/appointments/doctor/${doctorId}?date=${format(selectedDate, "yyyy-MM-dd")}`);
-        const booked = (appointments || [])
-          .filter((a: any) => a.status !== 'cancelled')
-          .map((a: any) => a.appointment_time.slice(0, 5));
-        setBookedSlots(booked);
-
-        // Fetch availability for the selected doctor and day
-        const { data: availability } = await api.get(`/availability/${doctorId}`);
-        const dayOfWeek = selectedDate.getDay();
-        const daySlot = (availability || []).find((s: any) => s.day_of_week === dayOfWeek);
-
-        const allSlots = generateTimeSlots();
-
-        if (!daySlot || !daySlot.is_available) {
-          // No availability that day: no slots available (unless emergency)
-          setTimeSlots(allSlots.map((s) => ({ ...s, available: false })));
-        } else {
-          // Filter slots within availability window
-          const toMinutes = (t: string) => {
-            const [h, m] = t.split(":").map(Number);
-            return h * 60 + m;
-          };
-
-          const startMin = toMinutes(daySlot.start_time);
-          const endMin = toMinutes(daySlot.end_time);
-
-          const now = new Date();
-          const isTodaySelected = isToday(selectedDate);
-          const currentMinutes = now.getHours() * 60 + now.getMinutes();
-
-          const filtered = allSlots.map((s) => {
-            const mins = toMinutes(s.time);
-            const inRange = mins >= startMin && mins < endMin;
-            const alreadyBooked = booked.includes(s.time);
-            const isPast = isTodaySelected && mins <= currentMinutes;
-            return { time: s.time, available: inRange && !alreadyBooked && !isPast };
-          });
-
-          setTimeSlots(filtered);
-        }
+        const day = format(selectedDate, "yyyy-MM-dd");
+        const { data } = await api.get<DoctorSlotsResponse>(`/doctors/${doctorId}/slots?from=${day}&to=${day}&mode=${consultationMode}`);
+        setSlotDay(data?.days?.[0] ?? null);
       } catch (error) {
         console.error("Error fetching slots", error);
       }
     }
 
-    fetchBookedSlotsAndAvailability();
-  }, [doctorId, selectedDate]);
+    fetchSlots();
+  }, [doctorId, selectedDate, consultationMode]);
+
+  useEffect(() => {
+    async function fetchWaitlistEntry() {
+      if (!doctorId || !selectedDate || role !== "patient") return;
+
+      try {
+        const day = format(selectedDate, "yyyy-MM-dd");
+        const { data } = await api.get<WaitlistEntry[]>("/waitlist/mine");
+        const entries = Array.isArray(data) ? data : [];
+        setWaitlistEntry(entries.find((e) => getWaitlistDoctorId(e) === doctorId && e.date === day) ?? null);
+      } catch (error) {
+        console.error("Error fetching waitlist", error);
+      }
+    }
+
+    fetchWaitlistEntry();
+  }, [doctorId, selectedDate, role]);
+
+  useEffect(() => {
+    async function fetchSeriesPreview() {
+      if (!doctorId || !selectedDate || !selectedTime || appointmentType !== "scheduled" || repeatFrequency === "none") {
+        setSeriesPreview(null);
+        return;
+      }
+
+      setLoadingSeriesPreview(true);
+      try {
+        const { data } = await api.post<SeriesPreviewResponse>("/appointments/series/preview", {
+          doctor_id: doctorId,
+          start_date: format(selectedDate, "yyyy-MM-dd"),
+          appointment_time: selectedTime,
+          frequency: repeatFrequency,
+          occurrences: repeatCount,
+          consultation_mode: consultationMode,
+        });
+        setSeriesPreview(data?.occurrences ?? null);
+      } catch (error) {
+        console.error("Error checking series", error);
+        setSeriesPreview(null);
+      } finally {
+        setLoadingSeriesPreview(false);
+      }
+    }
+
+    fetchSeriesPreview();
+  }, [doctorId, selectedDate, selectedTime, appointmentType, repeatFrequency, repeatCount, consultationMode]);
+
+  const handleBookSeries = async () => {
+    if (!doctor || !selectedDate || !selectedTime || repeatFrequency === "none") return;
+
+    setSubmitting(true);
+    try {
+      const { data } = await api.post("/appointments/series", {
+        doctor_id: doctor.id,
+        start_date: format(selectedDate, "yyyy-MM-dd"),
+        appointment_time: selectedTime,
+        frequency: repeatFrequency,
+        occurrences: repeatCount,
+        consultation_mode: consultationMode,
+        intake_answers: intakeForm ? intakeAnswers : undefined,
+        dependent_id: getBookingDependentId(bookingFor),
+      });
+
+      toast.success(`${data.appointments.length} visits booked! Pay for the first one now; later visits can be paid from My Appointments.`);
+      navigate(`/payment/${data.appointments[0]._id}`);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to book the series"));
+
+      // Some occurrence became unavailable; show which ones
+      const conflictData = getApiErrorData<SeriesPreviewResponse>(error);
+      if (Array.isArray(conflictData?.occurrences)) {
+        setSeriesPreview(conflictData.occurrences);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleJoinWaitlist = async () => {
+    if (!doctor || !selectedDate) return;
+
+    setJoiningWaitlist(true);
+    try {
+      const { data } = await api.post<WaitlistEntry>("/waitlist", {
+        doctor_id: doctor.id,
+        date: format(selectedDate, "yyyy-MM-dd"),
+      });
+      setWaitlistEntry(data);
+      toast.success("You're on the waitlist. We'll notify you if a slot opens up.");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to join the waitlist"));
+    } finally {
+      setJoiningWaitlist(false);
+    }
+  };
+
+  // Emergencies wait in the doctor's triage queue; payment follows once the doctor accepts
+  const handleRequestEmergency = async () => {
+    if (!doctor || !selectedDate || !selectedTime) return;
+
+    setSubmitting(true);
+    try {
+      await api.post("/emergency-requests", {
+        doctor_id: doctor.id,
+        appointment_date: format(selectedDate, "yyyy-MM-dd"),
+        appointment_time: selectedTime,
+        consultation_mode: consultationMode,
+        reason: emergencyReason.trim(),
+        dependent_id: getBookingDependentId(bookingFor),
+      });
+      toast.success(`Emergency request sent. The doctor has ${emergencyResponseMinutes} minutes to respond.`);
+      navigate("/appointments");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to send emergency request"));
+    } finally {
+      setSubmitting(false);
+    }
+  };
 
   const handleBookAppointment = async () => {
     // More specific validation helps avoid the generic error when something else is missing
@@ -219,39 +399,40 @@ export default function BookAppointment() {
       toast.error("Selected slot is unavailable. Please choose another time.");
       return;
     }
+    const unanswered = appointmentType === "scheduled" && intakeForm?.questions.find((q) => {
+      const answer = intakeAnswers[q.id];
+      return q.required && (answer === undefined || answer === "" || (Array.isArray(answer) && answer.length === 0));
+    });
+    if (unanswered) {
+      toast.error(`Please answer "${unanswered.label}"`);
+      return;
+    }
+    if (isSeries) {
+      await handleBookSeries();
+      return;
+    }
+    if (appointmentType === "emergency") {
+      await handleRequestEmergency();
+      return;
+    }
 
     setSubmitting(true);
 
     try {
-      // Fetch existing appointments for the doctor on this date to check availability
-      // We can reuse the appointments endpoint with query params? 
-      // My endpoints are role based. I might need a public/patient endpoint to check doctor slots?
-      // Actually, patients can fetch appointments. But usually they only fetch THEIR appointments.
-      // I need to fetch bookings for a doctor to block slots.
-      // Security-wise, I should probably expose a "availability" endpoint.
-      // For MVP MERN migration, let's assume I can query appointments by doctor_id.
-      // But my current /api/appointments filters by logged in user!
-      // I need a new endpoint: /api/appointments/doctor/:doctorId/date/:date
-
-      // I'll add this endpoint to appointments.js later. For now I'll stub it or use what I have.
-      // Let's use api.get(`/appointments/doctor/${doctor.id}?date=${format(selectedDate, "yyyy-MM-dd")}`)
-      // I will add this route.
-      const { data: existingAppts } = await api.get(`/appointments/doctor/${doctor.id}?date=${format(selectedDate, "yyyy-MM-dd")}`);
-
-      const existing = existingAppts.find((a: any) => a.appointment_time === selectedTime && a.status !== "cancelled");
-
-      if (existing && appointmentType !== "emergency") {
+      // Re-check the slot right before booking in case it was taken meanwhile
+      const day = format(selectedDate, "yyyy-MM-dd");
+      const { data: latestSlots } = await api.get<DoctorSlotsResponse>(`/doctors/${doctor.id}/slots?from=${day}&to=${day}&mode=${consultationMode}`);
+      const latestTimeSlots = toTimeSlots(latestSlots?.days?.[0], heldTime);
+      const isTaken = latestTimeSlots.some((s) => s.time === selectedTime && s.booked);
+
+      if (isTaken) {
         toast.error("This slot has just been booked. Please select another.");
-        setBookedSlots([...bookedSlots, selectedTime]);
+        setSlotDay(latestSlots?.days?.[0] ?? null);
         setSubmitting(false);
         return;
       }
 
-      if (existing && appointmentType === "emergency") {
-        toast.warn("Emergency booking: this will preempt an existing appointment at this time.");
-      }
-
-      const doctorFee = appointmentType === "emergency" ? doctor.emergency_fee : doctor.consultation_fee;
+      const doctorFee = getConsultationModeFee(doctor, consultationMode);
       const totalAmount = Number((doctorFee + platformFee).toFixed(2));
 
       const { data: appointment } = await api.post('/appointments', {
@@ -259,7 +440,10 @@ export default function BookAppointment() {
         doctor_id: doctor.id,
         appointment_date: format(selectedDate, "yyyy-MM-dd"),
         appointment_time: selectedTime,
-        appointment_type: appointmentType,
+        appointment_type: "scheduled",
+        consultation_mode: consultationMode,
+        intake_answers: intakeForm ? intakeAnswers : undefined,
+        dependent_id: getBookingDependentId(bookingFor),
         amount: totalAmount,
         doctor_fee: doctorFee,
         platform_fee: platformFee,
@@ -269,7 +453,7 @@ export default function BookAppointment() {
       // I don't have an email service in MERN yet, so I'll skip or log
       console.log("Email notification would be sent here");
 
-      // If server already confirmed and marked paid (happens for emergency bookings that auto-preempt), skip payment
+      // If server already confirmed and marked paid, skip payment
       if (appointment.status === 'confirmed' && appointment.payment_status === 'paid') {
         toast.success("Appointment confirmed successfully!");
         navigate('/appointments');
@@ -279,8 +463,20 @@ export default function BookAppointment() {
       toast.success("Appointment created! Redirecting to payment...");
       navigate(`/payment/${appointment._id}`);
 
-    } catch (error: any) {
-      toast.error(error.response?.data?.message || "Failed to book appointment");
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to book appointment"));
+
+      // Another patient claimed the slot between our re-check and the booking
+      if (getApiErrorStatus(error) === 409) {
+        setSelectedTime(null);
+        try {
+          const day = format(selectedDate, "yyyy-MM-dd");
+          const { data } = await api.get<DoctorSlotsResponse>(`/doctors/${doctor.id}/slots?from=${day}&to=${day}&mode=${consultationMode}`);
+          setSlotDay(data?.days?.[0] ?? null);
+        } catch (refreshError) {
+          console.error("Error refreshing slots", refreshError);
+        }
+      }
     } finally {
       setSubmitting(false);
     }
@@ -302,7 +498,8 @@ export default function BookAppointment() {
 
   if (!doctor) return null;
 
-  const doctorFee = appointmentType === "emergency" ? doctor.emergency_fee : doctor.consultation_fee;
+  const doctorFee = appointmentType === "emergency" ? doctor.emergency_fee : getConsultationModeFee(doctor, consultationMode);
+  const consultationModes = getDoctorConsultationModes(doctor);
   const totalFee = Number((doctorFee + platformFee).toFixed(2));
 
   return (
@@ -345,6 +542,14 @@ export default function BookAppointment() {
               </CardContent>
             </Card>
 
+            {role === "patient" && (
+              <Card>
+                <CardContent className="p-6">
+                  <DependentSwitcher label="Booking for" value={bookingFor} onChange={setBookingFor} />
+                </CardContent>
+              </Card>
+            )}
+
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Appointment Type</CardTitle>
@@ -362,7 +567,7 @@ export default function BookAppointment() {
                     <div>
                       <p className="font-medium">Scheduled</p>
                       <p className="text-sm text-muted-foreground">
-                        ₹{doctor.consultation_fee}
+                        ₹{getConsultationModeFee(doctor, consultationMode)}
                       </p>
                     </div>
                   </div>
@@ -389,11 +594,78 @@ export default function BookAppointment() {
                     <div className="flex items-start gap-2">
                       <AlertTriangle className="h-4 w-4 text-warning mt-0.5" />
                       <p className="text-warning-foreground">
-                        Emergency appointments unlock chat & video immediately after payment.
+                        The doctor is asked first and has {emergencyResponseMinutes} minutes to accept. If they accept, pay to
+                        unlock chat & video straight away.
                       </p>
                     </div>
                   </div>
                 )}
+                {appointmentType === "emergency" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="emergency-reason">What is the emergency? (optional)</Label>
+                    <Textarea
+                      id="emergency-reason"
+                      value={emergencyReason}
+                      maxLength={1000}
+                      onChange={(e) => setEmergencyReason(e.target.value)}
+                      placeholder="Symptoms the doctor should know about"
+                    />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Consultation Mode</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {consultationModes.map((mode) => {
+                  const ModeIcon = CONSULTATION_MODE_ICONS[mode];
+                  return (
+                    <button
+                      key={mode}
+                      className={`w-full p-4 rounded-lg border-2 text-left transition-all ${consultationMode === mode
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-primary/50"
+                        }`}
+                      onClick={() => {
+                        setConsultationMode(mode);
+                        setSelectedTime(null);
+                      }}
+                    >
+                      <div className="flex items-center gap-3">
+                        <ModeIcon className="h-5 w-5 text-primary" />
+                        <div>
+                          <p className="font-medium">{CONSULTATION_MODE_LABELS[mode]}</p>
+                          {appointmentType === "scheduled" && (
+                            <p className="text-sm text-muted-foreground">
+                              ₹{getConsultationModeFee(doctor, mode)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    </button>
+                  );
+                })}
+                {consultationMode === "in_person" && doctor.clinic_address && (
+                  <div className="p-3 rounded-lg bg-secondary text-sm">
+                    <div className="flex items-start gap-2">
+                      <MapPin className="h-4 w-4 text-primary mt-0.5" />
+                      <div>
+                        <p>{doctor.clinic_address}</p>
+                        <a
+                          href={getMapLink(doctor.clinic_address)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary hover:underline"
+                        >
+                          Open in Google Maps
+                        </a>
+                      </div>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -410,7 +682,7 @@ export default function BookAppointment() {
                   mode="single"
                   selected={selectedDate}
                   onSelect={setSelectedDate}
-                  disabled={(date) => isBefore(date, startOfToday())}
+                  disabled={(date) => format(date, "yyyy-MM-dd") < getTodayInTimeZone(doctorTimeZone)}
                   className="rounded-md border"
                 />
               </CardContent>
@@ -421,8 +693,13 @@ export default function BookAppointment() {
                 <CardTitle>Select Time</CardTitle>
                 <CardDescription>
                   {selectedDate
-                    ? `Available slots for ${format(selectedDate, "EEEE, MMMM d, yyyy")}`
+                    ? `Available ${doctor.slot_duration_minutes || 30}-minute slots for ${format(selectedDate, "EEEE, MMMM d, yyyy")}`
                     : "Select a date first"}
+                  {showsDoctorTimeZone && (
+                    <span className="block mt-1">
+                      Times are in the doctor's timezone ({doctorTimeZone}, {getTimeZoneLabel(doctorTimeZone)}).
+                    </span>
+                  )}
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -430,7 +707,7 @@ export default function BookAppointment() {
                   {timeSlots.map((slot) => {
                     const isSelected = selectedTime === slot.time;
                     const isDisabled = !slot.available && appointmentType !== 'emergency';
-                    const isBooked = bookedSlots.includes(slot.time);
+                    const isBooked = slot.booked;
 
                     return (
                       <button
@@ -447,17 +724,134 @@ export default function BookAppointment() {
                         <div className="flex items-center gap-2">
                           <span>{slot.time}</span>
                           {isBooked && <span className="text-xs text-muted-foreground">(booked)</span>}
+                          {slot.held && <span className="text-xs text-muted-foreground">(held)</span>}
                           {appointmentType === 'emergency' && isBooked && (
-                            <span className="text-xs text-warning">(will preempt)</span>
+                            <span className="text-xs text-warning">(doctor decides)</span>
                           )}
                         </div>
                       </button>
                     );
                   })}
                 </div>
+                {appointmentType === "scheduled" && (isFullyBooked || waitlistEntry) && (
+                  <div className="mt-4 p-3 rounded-lg bg-secondary text-sm flex items-center justify-between gap-3">
+                    <div className="flex items-start gap-2">
+                      <ListOrdered className="h-4 w-4 mt-0.5 text-primary" />
+                      {waitlistEntry?.status === "offered" ? (
+                        <p>The {waitlistEntry.offered_time} slot is held for you on this date. Select it above to book.</p>
+                      ) : waitlistEntry ? (
+                        <p>
+                          You're on the waitlist for this date
+                          {waitlistEntry.position ? ` (#${waitlistEntry.position} in line)` : ""}. We'll hold the next freed slot for you.
+                        </p>
+                      ) : (
+                        <p>This day is fully booked. Join the waitlist to be offered a slot if someone cancels.</p>
+                      )}
+                    </div>
+                    {!waitlistEntry && (
+                      <Button size="sm" variant="outline" disabled={joiningWaitlist} onClick={handleJoinWaitlist}>
+                        {joiningWaitlist ? "Joining..." : "Join waitlist"}
+                      </Button>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
+            {appointmentType === "scheduled" && !prepaymentRequired && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Repeat className="h-5 w-5" />
+                    Repeat
+                  </CardTitle>
+                  <CardDescription>Book the same time with this doctor for regular follow-up visits</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-col sm:flex-row gap-4">
+                    <div className="space-y-2">
+                      <Label className="font-medium">Frequency</Label>
+                      <Select value={repeatFrequency} onValueChange={(value) => setRepeatFrequency(value as SeriesFrequency | "none")}>
+                        <SelectTrigger className="w-full sm:w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Does not repeat</SelectItem>
+                          {(Object.keys(SERIES_FREQUENCY_LABELS) as SeriesFrequency[]).map((frequency) => (
+                            <SelectItem key={frequency} value={frequency}>
+                              {SERIES_FREQUENCY_LABELS[frequency]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {repeatFrequency !== "none" && (
+                      <div className="space-y-2">
+                        <Label className="font-medium">Number of visits</Label>
+                        <Select value={String(repeatCount)} onValueChange={(value) => setRepeatCount(Number(value))}>
+                          <SelectTrigger className="w-full sm:w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Array.from({ length: MAX_SERIES_OCCURRENCES - MIN_SERIES_OCCURRENCES + 1 }, (_, i) => i + MIN_SERIES_OCCURRENCES).map((count) => (
+                              <SelectItem key={count} value={String(count)}>
+                                {count} visits
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+
+                  {isSeries && !selectedTime && (
+                    <p className="text-sm text-muted-foreground">Select a date and time to check every visit.</p>
+                  )}
+                  {isSeries && selectedTime && loadingSeriesPreview && (
+                    <p className="text-sm text-muted-foreground">Checking availability...</p>
+                  )}
+                  {isSeries && seriesPreview && !loadingSeriesPreview && (
+                    <div className="space-y-2">
+                      <ul className="space-y-1 text-sm">
+                        {seriesPreview.map((occurrence) => (
+                          <li key={occurrence.index} className="flex items-center gap-2">
+                            {occurrence.ok ? (
+                              <CheckCircle2 className="h-4 w-4 text-success" />
+                            ) : (
+                              <XCircle className="h-4 w-4 text-destructive" />
+                            )}
+                            <span>
+                              {format(new Date(`${occurrence.appointment_date}T00:00:00`), "EEE, MMM d, yyyy")} at {occurrence.appointment_time}
+                            </span>
+                            {!occurrence.ok && occurrence.message && (
+                              <span className="text-destructive">— {occurrence.message}</span>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                      {seriesConflicts > 0 && (
+                        <p className="text-sm text-destructive">
+                          {seriesConflicts} visit(s) cannot be booked. Pick another start date or time, or fewer visits.
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {appointmentType === "scheduled" && intakeForm && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{intakeForm.title}</CardTitle>
+                  <CardDescription>Your answers are shared with the doctor before the consultation.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <IntakeFormFields form={intakeForm} answers={intakeAnswers} onChange={setIntakeAnswers} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Summary & Book */}
             <Card>
               <CardContent className="p-6">
@@ -468,6 +862,9 @@ export default function BookAppointment() {
                       <IndianRupee className="h-6 w-6" />
                       {totalFee}
                     </p>
+                    {isSeries && (
+                      <p className="text-xs text-muted-foreground">per visit · {repeatCount} visits, each paid separately</p>
+                    )}
                   </div>
                   {selectedDate && selectedTime && (
                     <div className="text-right">
@@ -475,6 +872,11 @@ export default function BookAppointment() {
                       <p className="font-medium">
                         {format(selectedDate, "MMM d")} at {selectedTime}
                       </p>
+                      {showsDoctorTimeZone && (
+                        <p className="text-xs text-muted-foreground">
+                          {format(zonedTimeToDate(format(selectedDate, "yyyy-MM-dd"), selectedTime, doctorTimeZone), "MMM d, HH:mm")} your time
+                        </p>
+                      )}
                     </div>
                   )}
                 </div>
@@ -488,10 +890,26 @@ export default function BookAppointment() {
                     <span>₹{platformFee}</span>
                   </div>
                 </div>
+                {prepaymentRequired && (
+                  <div className="p-3 mb-4 rounded-lg bg-warning/10 text-sm">
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className="h-4 w-4 text-warning mt-0.5" />
+                      <p className="text-warning-foreground">
+                        Because of missed appointments, bookings must be paid online in advance and repeat bookings are unavailable.
+                      </p>
+                    </div>
+                  </div>
+                )}
                 <Button
                   className="w-full"
                   size="lg"
-                  disabled={!selectedDate || !selectedTime || submitting || (appointmentType === 'scheduled' && !isSlotAvailable)}
+                  disabled={
+                    !selectedDate ||
+                    !selectedTime ||
+                    submitting ||
+                    (appointmentType === 'scheduled' && !isSlotAvailable) ||
+                    (isSeries && (loadingSeriesPreview || !seriesPreview || seriesConflicts > 0))
+                  }
                   onClick={handleBookAppointment}
                 >
                   {submitting ? (
@@ -499,7 +917,11 @@ export default function BookAppointment() {
                   ) : (
                     <>
                       <CheckCircle2 className="mr-2 h-5 w-5" />
-                      Proceed to Payment
+                      {isSeries
+                        ? `Book ${repeatCount} Visits`
+                        : appointmentType === "emergency"
+                          ? "Request Emergency Appointment"
+                          : "Proceed to Payment"}
                     </>
                   )}
                 </Button>
@@ -53,6 +53,9 @@ export default function Dashboard() {
     if (!isLoading && role === "admin") {
       navigate("/admin");
     }
+    if (!isLoading && role === "clinic_admin") {
+      navigate("/organization");
+    }
   }, [isLoading, isAuthenticated, role, navigate]);
 
   if (isLoading) {
@@ -4,17 +4,28 @@ import { useAuthContext } from "@/contexts/AuthContext";
 import { getDoctorProfile, getProfile } from "@/lib/auth";
 import api from "@/lib/api";
 import { uploadToS3 } from "@/lib/s3-upload";
+import { formatAppointmentStart, getAppointmentStart } from "@/lib/timezone";
+import { CONSULTATION_MODE_LABELS, isVideoConsultation, type ConsultationMode } from "@/lib/consultation-modes";
+import type { AppointmentIntake } from "@/lib/intake-forms";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { PrescriptionModal } from "@/components/PrescriptionModal";
+import { ProposeFollowUpDialog } from "@/components/ProposeFollowUpDialog";
+import { NoShowMenu } from "@/components/NoShowMenu";
 import { PatientHistoryModal } from "@/components/PatientHistoryModal";
+import { describeDependent, type DependentSnapshot } from "@/lib/dependents";
 import { DoctorAvailability } from "@/components/DoctorAvailability";
+import { EmergencyQueue } from "@/components/EmergencyQueue";
+import { ConsultationInvitations } from "@/components/ConsultationInvitations";
+import { ConsultantsDialog } from "@/components/ConsultantsDialog";
+import type { ConsultingDoctor } from "@/lib/consultations";
+import { IntakeAnswersDialog } from "@/components/IntakeAnswers";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { format, isFuture } from "date-fns";
+import { format, isFuture, isToday } from "date-fns";
 import { toast } from "sonner";
 import {
   Clock,
@@ -59,13 +70,18 @@ interface Appointment {
   patient_id: string;
   appointment_date: string;
   appointment_time: string;
+  start_at?: string | null;
   appointment_type: string;
+  consultation_mode?: ConsultationMode;
   amount: number;
   status: string;
   payment_status: string;
   chat_unlocked: boolean;
   video_unlocked: boolean;
   zoom_start_url: string | null;
+  intake?: AppointmentIntake | null;
+  dependent?: DependentSnapshot | null;
+  consulting_doctors?: ConsultingDoctor[];
   video: {
     provider: string;
     meetingId: string;
@@ -106,6 +122,8 @@ export default function DoctorDashboard() {
   const [doctorData, setDoctorData] = useState<DoctorData | null>(null);
   const [doctorProfile, setDoctorProfile] = useState<DoctorProfile | null>(null);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  // Just-completed appointment the doctor is offered to schedule a follow-up for
+  const [followUpFor, setFollowUpFor] = useState<Appointment | null>(null);
   const [loadingDoctor, setLoadingDoctor] = useState(true);
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -156,9 +174,8 @@ export default function DoctorDashboard() {
 
           setAppointments(mappedAppointments);
 
-          const today = format(new Date(), "yyyy-MM-dd");
           const todayAppts = mappedAppointments.filter(
-            (a: any) => a.appointment_date === today && a.status === "confirmed"
+            (a: Appointment) => isToday(getAppointmentStart(a)) && a.status === "confirmed"
           );
           const pendingAppts = mappedAppointments.filter(
             (a: any) => a.status === "pending"
@@ -209,6 +226,10 @@ export default function DoctorDashboard() {
       navigate("/admin");
       return;
     }
+    if (!isLoading && role === "clinic_admin") {
+      navigate("/organization");
+      return;
+    }
   }, [isLoading, isAuthenticated, role, navigate]);
 
   useEffect(() => {
@@ -251,8 +272,12 @@ export default function DoctorDashboard() {
   const handleUpdateStatus = async (appointmentId: string, status: string) => {
     try {
       await api.put(`/appointments/${appointmentId}`, { status });
+      const completedAppointment = status === 'completed' ? appointments.find((a) => a._id === appointmentId) : null;
       await fetchDoctorDashboardData();
       toast.success(`Appointment ${status}`);
+      if (completedAppointment) {
+        setFollowUpFor(completedAppointment);
+      }
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Failed to update appointment");
     }
@@ -400,11 +425,12 @@ export default function DoctorDashboard() {
   }
 
   // Verified doctor dashboard
+  // "Today" and "upcoming" follow the viewer's own calendar, using each appointment's absolute start
   const todayAppointments = appointments.filter(
-    (a) => a.appointment_date === format(new Date(), "yyyy-MM-dd") && a.status === "confirmed"
+    (a) => isToday(getAppointmentStart(a)) && a.status === "confirmed"
   );
   const upcomingAppointments = appointments.filter(
-    (a) => isFuture(new Date(a.appointment_date)) && a.status === "confirmed"
+    (a) => isFuture(getAppointmentStart(a)) && !isToday(getAppointmentStart(a)) && a.status === "confirmed"
   );
 
   const groupedSettlementHistory: SettlementHistoryGroup[] = (() => {
@@ -563,6 +589,9 @@ export default function DoctorDashboard() {
           </Card>
         </div>
 
+        <EmergencyQueue onAccepted={fetchDoctorDashboardData} />
+        <ConsultationInvitations />
+
         {/* Stats */}
         <div className="grid md:grid-cols-4 gap-4 mb-8">
           <Card>
@@ -653,12 +682,19 @@ export default function DoctorDashboard() {
                           {appt.patient?._id && (
                             <PatientHistoryModal
                               patientId={appt.patient._id}
-                              patientName={appt.patient.full_name}
+                              patientName={appt.dependent?.full_name || appt.patient.full_name}
+                              dependentId={appt.dependent?.dependent_id}
                             />
                           )}
+                          {appt.intake && (
+                            <IntakeAnswersDialog intake={appt.intake} patientName={appt.dependent?.full_name || appt.patient?.full_name || "Patient"} />
+                          )}
                         </div>
+                        {appt.dependent && (
+                          <p className="text-xs text-muted-foreground">For {describeDependent(appt.dependent)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">
-                          {appt.appointment_time.slice(0, 5)} • {appt.appointment_type}
+                          {formatAppointmentStart(appt, "HH:mm")} • {appt.appointment_type} • {CONSULTATION_MODE_LABELS[appt.consultation_mode || "video"]}
                         </p>
                       </div>
                     </div>
@@ -683,6 +719,10 @@ export default function DoctorDashboard() {
                             Mark as Done
                           </Button>
 
+                          {!isFuture(getAppointmentStart(appt)) && (
+                            <NoShowMenu appointmentId={appt._id} onSuccess={fetchDoctorDashboardData} />
+                          )}
+
                           <PrescriptionModal
                             appointmentId={appt._id}
                             patientId={appt.patient_id}
@@ -751,7 +791,7 @@ export default function DoctorDashboard() {
                           )}
 
                           {/* Video controls */}
-                          {!appt.video?.enabled ? (
+                          {isVideoConsultation(appt) && (!appt.video?.enabled ? (
                             <Button
                               size="sm"
                               variant="outline"
@@ -888,7 +928,7 @@ export default function DoctorDashboard() {
                                 Disable Video
                               </Button>
                             </div>
-                          )}
+                          ))}
                         </>
                       )}
                     </div>
@@ -928,12 +968,19 @@ export default function DoctorDashboard() {
                           {appt.patient?._id && (
                             <PatientHistoryModal
                               patientId={appt.patient._id}
-                              patientName={appt.patient.full_name}
+                              patientName={appt.dependent?.full_name || appt.patient.full_name}
+                              dependentId={appt.dependent?.dependent_id}
                             />
                           )}
+                          {appt.intake && (
+                            <IntakeAnswersDialog intake={appt.intake} patientName={appt.dependent?.full_name || appt.patient?.full_name || "Patient"} />
+                          )}
                         </div>
+                        {appt.dependent && (
+                          <p className="text-xs text-muted-foreground">For {describeDependent(appt.dependent)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground">
-                          {format(new Date(appt.appointment_date), "MMM d")} at {appt.appointment_time.slice(0, 5)}
+                          {formatAppointmentStart(appt, "MMM d")} at {formatAppointmentStart(appt, "HH:mm")}
                         </p>
                       </div>
                     </div>
@@ -942,6 +989,15 @@ export default function DoctorDashboard() {
                       <Badge variant={appt.appointment_type === "emergency" ? "destructive" : "secondary"}>
                         {appt.appointment_type}
                       </Badge>
+                      <Badge variant="outline">{CONSULTATION_MODE_LABELS[appt.consultation_mode || "video"]}</Badge>
+                      {doctorData?._id && (
+                        <ConsultantsDialog
+                          appointmentId={appt._id}
+                          doctorId={doctorData._id}
+                          consultants={appt.consulting_doctors}
+                          onSuccess={fetchDoctorDashboardData}
+                        />
+                      )}
 
                       <Button
                         size="sm"
@@ -1003,7 +1059,7 @@ export default function DoctorDashboard() {
                         </div>
                       )}
 
-                      {!appt.video?.enabled ? (
+                      {isVideoConsultation(appt) && (!appt.video?.enabled ? (
                         <Button
                           size="sm"
                           variant="outline"
@@ -1136,7 +1192,7 @@ export default function DoctorDashboard() {
                             Disable Video
                           </Button>
                         </div>
-                      )}
+                      ))}
 
                       <PrescriptionModal
                         appointmentId={appt._id}
@@ -1184,6 +1240,18 @@ export default function DoctorDashboard() {
         </div>
       </div>
 
+      {followUpFor && (
+        <ProposeFollowUpDialog
+          appointmentId={followUpFor._id}
+          doctorId={doctorData?._id || doctorData?.id || ""}
+          patientName={followUpFor.patient?.full_name || "the patient"}
+          open={Boolean(followUpFor)}
+          onOpenChange={(open) => {
+            if (!open) setFollowUpFor(null);
+          }}
+        />
+      )}
+
       <Dialog open={showSettlementHistory} onOpenChange={setShowSettlementHistory}>
         <DialogContent>
           <DialogHeader>
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { IndianRupee, MapPin } from "lucide-react";
 import { toast } from "sonner";
+import { CONSULTATION_MODE_LABELS, getConsultationModeFee, getDoctorConsultationModes, getMapLink } from "@/lib/consultation-modes";
 
 export default function DoctorProfile() {
   const { doctorId } = useParams();
@@ -107,6 +108,25 @@ export default function DoctorProfile() {
               <CardContent>
                 <p className="text-sm text-muted-foreground">Fee</p>
                 <p className="text-lg font-semibold flex items-center gap-2"><IndianRupee />{doctor.consultation_fee}</p>
+                <ul className="mt-3 space-y-1 text-sm">
+                  {getDoctorConsultationModes(doctor).map((mode) => (
+                    <li key={mode} className="flex justify-between gap-4">
+                      <span>{CONSULTATION_MODE_LABELS[mode]}</span>
+                      <span>₹{getConsultationModeFee(doctor, mode)}</span>
+                    </li>
+                  ))}
+                </ul>
+                {getDoctorConsultationModes(doctor).includes("in_person") && doctor.clinic_address && (
+                  <a
+                    href={getMapLink(doctor.clinic_address)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="mt-3 flex items-start gap-2 text-sm text-muted-foreground hover:underline"
+                  >
+                    <MapPin className="h-4 w-4 mt-0.5" />
+                    {doctor.clinic_address}
+                  </a>
+                )}
                 <div className="mt-4">
                   <Link to={`/book/${doctor._id}`}>
                     <Button>Book Appointment</Button>
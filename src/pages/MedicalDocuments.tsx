@@ -1,9 +1,11 @@
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { useNavigate } from "react-router-dom";
 import api from "@/lib/api";
 import { uploadToS3 } from "@/lib/s3-upload";
+import { ALL_PROFILES, getBookingDependentId, getDependentFilterParam } from "@/lib/dependents";
+import { DependentSwitcher } from "@/components/DependentSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -21,6 +23,7 @@ interface MedicalRecord {
   file_size: number;
   record_type: "Lab Reports" | "Prescriptions" | "Invoices" | "Other";
   notes: string;
+  dependent_id?: string | null;
   createdAt: string;
 }
 
@@ -37,6 +40,8 @@ export default function MedicalDocuments() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [recordType, setRecordType] = useState<MedicalRecord["record_type"]>("Other");
   const [notes, setNotes] = useState("");
+  // Whose documents are listed; new uploads are filed under the same person ("Everyone" files them as the patient's own)
+  const [viewingFor, setViewingFor] = useState(ALL_PROFILES);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -49,22 +54,24 @@ export default function MedicalDocuments() {
     }
   }, [isLoading, isAuthenticated, role, navigate]);
 
-  const fetchRecords = async () => {
+  const fetchRecords = useCallback(async () => {
     try {
-      const { data } = await api.get('/medical-records');
+      const { data } = await api.get('/medical-records', {
+        params: { dependent_id: getDependentFilterParam(viewingFor) },
+      });
       setRecords(Array.isArray(data) ? data : []);
     } catch (error: any) {
       toast.error(error.response?.data?.message || "Failed to load medical documents");
     } finally {
       setLoadingRecords(false);
     }
-  };
+  }, [viewingFor]);
 
   useEffect(() => {
     if (!isLoading && isAuthenticated && role === "patient") {
       fetchRecords();
     }
-  }, [isLoading, isAuthenticated, role]);
+  }, [isLoading, isAuthenticated, role, fetchRecords]);
 
   const handleUpload = async () => {
     if (!selectedFile) {
@@ -92,6 +99,7 @@ export default function MedicalDocuments() {
         file_size: selectedFile.size,
         record_type: recordType,
         notes: notes.trim(),
+        dependent_id: viewingFor === ALL_PROFILES ? undefined : getBookingDependentId(viewingFor),
       });
 
       setSelectedFile(null);
@@ -135,9 +143,11 @@ export default function MedicalDocuments() {
       <div className="container py-8 space-y-6">
         <div>
           <h1 className="font-heading text-3xl font-bold mb-2">Medical Documents</h1>
-          <p className="text-muted-foreground">Upload and manage your health records</p>
+          <p className="text-muted-foreground">Upload and manage your and your family's health records</p>
         </div>
 
+        <DependentSwitcher label="Viewing for" value={viewingFor} onChange={setViewingFor} includeEveryone />
+
         <Card>
           <CardHeader>
             <CardTitle>Upload Document</CardTitle>
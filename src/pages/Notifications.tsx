@@ -7,6 +7,7 @@ import { useAuthContext } from "@/contexts/AuthContext";
 import { toast } from "@/hooks/use-toast";
 import {
   Bell,
+  Building2,
   CalendarCheck,
   CheckCircle2,
   CircleAlert,
@@ -57,10 +58,38 @@ export default function NotificationsPage() {
         return 'Appointment Confirmed';
       case 'new_appointment':
         return 'New Appointment';
+      case 'appointment_rescheduled':
+        return 'Appointment Rescheduled';
+      case 'appointment_reminder':
+        return 'Appointment Reminder';
+      case 'appointment_no_show':
+        return 'Missed Appointment';
       case 'payment_pending':
         return 'Payment Pending';
       case 'preempted':
         return 'Appointment Updated';
+      case 'waitlist_offer':
+        return 'Waitlist Slot Available';
+      case 'appointment_series_cancelled':
+        return 'Recurring Appointments Cancelled';
+      case 'follow_up_proposed':
+        return 'Follow-up Recommended';
+      case 'follow_up_accepted':
+        return 'Follow-up Booked';
+      case 'follow_up_declined':
+        return 'Follow-up Declined';
+      case 'organization_joined':
+        return 'Joined Organization';
+      case 'emergency_request':
+        return 'Emergency Request';
+      case 'emergency_accepted':
+        return 'Emergency Accepted';
+      case 'emergency_declined':
+        return 'Emergency Declined';
+      case 'emergency_expired':
+        return 'Emergency Request Expired';
+      case 'emergency_displaced':
+        return 'Appointment Moved for an Emergency';
       default:
         return 'Notification';
     }
@@ -78,6 +107,8 @@ export default function NotificationsPage() {
     switch (notification?.type) {
       case 'admin_update':
         return Bell;
+      case 'organization_joined':
+        return Building2;
       case 'chat_available':
       case 'chat_available_confirmation':
       case 'chat_disabled':
@@ -94,8 +125,21 @@ export default function NotificationsPage() {
       case 'payment_pending':
         return CheckCircle2;
       case 'new_appointment':
+      case 'appointment_rescheduled':
+      case 'appointment_reminder':
+      case 'waitlist_offer':
+      case 'follow_up_proposed':
+      case 'follow_up_accepted':
+      case 'emergency_accepted':
         return CalendarCheck;
+      case 'emergency_request':
+      case 'emergency_declined':
+      case 'emergency_expired':
+      case 'emergency_displaced':
       case 'preempted':
+      case 'appointment_series_cancelled':
+      case 'appointment_no_show':
+      case 'follow_up_declined':
         return CircleAlert;
       default:
         return Bell;
@@ -118,6 +162,7 @@ export default function NotificationsPage() {
         };
       case 'chat_available':
       case 'chat_available_confirmation':
+      case 'waitlist_offer':
         return {
           badge: 'bg-green-100 text-green-600',
           accent: 'bg-green-500',
@@ -125,6 +170,10 @@ export default function NotificationsPage() {
       case 'chat_disabled':
       case 'chat_disabled_confirmation':
       case 'payment_pending':
+      case 'follow_up_declined':
+      case 'emergency_declined':
+      case 'emergency_expired':
+      case 'emergency_displaced':
         return {
           badge: 'bg-orange-100 text-orange-600',
           accent: 'bg-orange-500',
@@ -142,17 +191,25 @@ export default function NotificationsPage() {
         };
       case 'video_call_ended':
       case 'video_call_ended_confirmation':
+      case 'emergency_request':
       case 'preempted':
+      case 'appointment_series_cancelled':
+      case 'appointment_no_show':
         return {
           badge: 'bg-red-100 text-red-600',
           accent: 'bg-red-500',
         };
       case 'appointment_confirmed':
+      case 'follow_up_proposed':
+      case 'emergency_accepted':
         return {
           badge: 'bg-teal-100 text-teal-600',
           accent: 'bg-teal-500',
         };
       case 'new_appointment':
+      case 'appointment_rescheduled':
+      case 'appointment_reminder':
+      case 'follow_up_accepted':
         return {
           badge: 'bg-indigo-100 text-indigo-600',
           accent: 'bg-indigo-500',
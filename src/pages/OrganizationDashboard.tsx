@@ -0,0 +1,354 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuthContext } from "@/contexts/AuthContext";
+import api, { getApiErrorMessage } from "@/lib/api";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus } from "@/lib/appointment-status";
+import {
+  getOrganizationDoctorName,
+  type OrganizationDetail,
+  type OrganizationDoctor,
+  type OrganizationEarningsSummary,
+} from "@/lib/organizations";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { DoctorAvailability } from "@/components/DoctorAvailability";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Building2, Calendar, IndianRupee, Stethoscope, Users } from "lucide-react";
+
+// Appointment as returned by GET /appointments for a clinic admin
+interface OrganizationAppointment {
+  _id: string;
+  appointment_date: string;
+  appointment_time: string;
+  appointment_type: string;
+  status: AppointmentStatus;
+  doctor_id: { _id: string; user_id?: { full_name?: string } | null } | null;
+  patient_id: { full_name?: string; email?: string } | null;
+}
+
+const ALL_DOCTORS = "all";
+
+// Clinic admin home: the organization's doctors, their combined calendar and earnings.
+export default function OrganizationDashboard() {
+  const { role, isLoading, isAuthenticated } = useAuthContext();
+  const navigate = useNavigate();
+  const [organization, setOrganization] = useState<OrganizationDetail | null>(null);
+  const [earnings, setEarnings] = useState<OrganizationEarningsSummary | null>(null);
+  const [appointments, setAppointments] = useState<OrganizationAppointment[]>([]);
+  const [doctorFilter, setDoctorFilter] = useState(ALL_DOCTORS);
+  const [loading, setLoading] = useState(true);
+  const [managingDoctor, setManagingDoctor] = useState<OrganizationDoctor | null>(null);
+
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      navigate("/auth");
+      return;
+    }
+    if (!isLoading && role !== "clinic_admin") {
+      navigate("/dashboard");
+    }
+  }, [isLoading, isAuthenticated, role, navigate]);
+
+  useEffect(() => {
+    if (isLoading || role !== "clinic_admin") return;
+
+    async function fetchOrganization() {
+      try {
+        const [{ data: organizationData }, { data: earningsData }] = await Promise.all([
+          api.get<OrganizationDetail>("/organizations/mine"),
+          api.get<OrganizationEarningsSummary>("/payments/organization/summary"),
+        ]);
+        setOrganization(organizationData);
+        setEarnings(earningsData);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load your organization"));
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchOrganization();
+  }, [isLoading, role]);
+
+  useEffect(() => {
+    if (isLoading || role !== "clinic_admin") return;
+
+    async function fetchAppointments() {
+      try {
+        const params = doctorFilter === ALL_DOCTORS ? {} : { doctor_id: doctorFilter };
+        const { data } = await api.get<OrganizationAppointment[]>("/appointments", { params });
+        setAppointments(data || []);
+      } catch (error) {
+        toast.error(getApiErrorMessage(error, "Failed to load appointments"));
+      }
+    }
+
+    fetchAppointments();
+  }, [isLoading, role, doctorFilter]);
+
+  // Upcoming appointments grouped by day, earliest first
+  const calendar = useMemo(() => {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const upcoming = appointments
+      .filter((appointment) => appointment.appointment_date >= today && ["pending", "confirmed"].includes(appointment.status))
+      .sort((a, b) =>
+        `${a.appointment_date} ${a.appointment_time}`.localeCompare(`${b.appointment_date} ${b.appointment_time}`)
+      );
+
+    const days = new Map<string, OrganizationAppointment[]>();
+    for (const appointment of upcoming) {
+      days.set(appointment.appointment_date, [...(days.get(appointment.appointment_date) || []), appointment]);
+    }
+    return Array.from(days.entries());
+  }, [appointments]);
+
+  const upcomingCount = calendar.reduce((sum, [, dayAppointments]) => sum + dayAppointments.length, 0);
+
+  if (isLoading || loading) {
+    return (
+      <MainLayout>
+        <div className="container py-8 overflow-x-hidden">
+          <Skeleton className="h-8 w-48 mb-8" />
+          <Skeleton className="h-64" />
+        </div>
+      </MainLayout>
+    );
+  }
+
+  if (!organization) {
+    return (
+      <MainLayout>
+        <div className="container py-8 max-w-2xl mx-auto">
+          <Card className="text-center">
+            <CardHeader>
+              <CardTitle>Organization not found</CardTitle>
+              <CardDescription>Your account is not linked to an organization. Please contact MediConnect support.</CardDescription>
+            </CardHeader>
+          </Card>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="container py-8 overflow-x-hidden">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Building2 className="h-7 w-7 text-primary" />
+            {organization.name}
+          </h1>
+          <p className="text-muted-foreground">
+            {[organization.address, organization.contact_email, organization.phone].filter(Boolean).join(" • ") || "Clinic dashboard"}
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+          <Card>
+            <CardContent className="p-6 flex items-center gap-4">
+              <Stethoscope className="h-8 w-8 text-primary" />
+              <div>
+                <p className="text-2xl font-bold">{organization.doctors.length}</p>
+                <p className="text-sm text-muted-foreground">Doctors</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6 flex items-center gap-4">
+              <Calendar className="h-8 w-8 text-info" />
+              <div>
+                <p className="text-2xl font-bold">{upcomingCount}</p>
+                <p className="text-sm text-muted-foreground">Upcoming</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6 flex items-center gap-4">
+              <IndianRupee className="h-8 w-8 text-success" />
+              <div>
+                <p className="text-2xl font-bold">₹{earnings?.total_earnings ?? 0}</p>
+                <p className="text-sm text-muted-foreground">Total Earnings</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6 flex items-center gap-4">
+              <IndianRupee className="h-8 w-8 text-warning" />
+              <div>
+                <p className="text-2xl font-bold">₹{earnings?.unsettled_earnings ?? 0}</p>
+                <p className="text-sm text-muted-foreground">Awaiting Settlement</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Tabs defaultValue="calendar">
+          <TabsList>
+            <TabsTrigger value="calendar" className="gap-2">
+              <Calendar className="h-4 w-4" />
+              Calendar
+            </TabsTrigger>
+            <TabsTrigger value="doctors" className="gap-2">
+              <Users className="h-4 w-4" />
+              Doctors
+            </TabsTrigger>
+            <TabsTrigger value="earnings" className="gap-2">
+              <IndianRupee className="h-4 w-4" />
+              Earnings
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="calendar" className="mt-6">
+            <Card>
+              <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div>
+                  <CardTitle>Upcoming Appointments</CardTitle>
+                  <CardDescription>Across all of your organization's doctors</CardDescription>
+                </div>
+                <Select value={doctorFilter} onValueChange={setDoctorFilter}>
+                  <SelectTrigger className="w-full md:w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_DOCTORS}>All doctors</SelectItem>
+                    {organization.doctors.map((doctor) => (
+                      <SelectItem key={doctor._id} value={doctor._id}>
+                        {getOrganizationDoctorName(doctor)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {calendar.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No upcoming appointments.</p>
+                ) : (
+                  <div className="space-y-6">
+                    {calendar.map(([date, dayAppointments]) => (
+                      <div key={date}>
+                        <p className="font-semibold mb-2">{format(new Date(`${date}T00:00:00`), "EEEE, MMM d")}</p>
+                        <div className="space-y-2">
+                          {dayAppointments.map((appointment) => (
+                            <div
+                              key={appointment._id}
+                              className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 p-3 border rounded-lg"
+                            >
+                              <div>
+                                <p className="font-medium">
+                                  {appointment.appointment_time} • Dr. {appointment.doctor_id?.user_id?.full_name || "Doctor"}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  {appointment.patient_id?.full_name || "Patient"}
+                                </p>
+                              </div>
+                              <div className="flex items-center gap-2">
+                                {appointment.appointment_type === "emergency" && (
+                                  <Badge variant="destructive">Emergency</Badge>
+                                )}
+                                <Badge variant="outline">{APPOINTMENT_STATUS_LABELS[appointment.status] || appointment.status}</Badge>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="doctors" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Doctors</CardTitle>
+                <CardDescription>Manage weekly hours, leave and slot settings for your doctors</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {organization.doctors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No doctors have been added yet. MediConnect adds doctors to your organization on request.
+                  </p>
+                ) : (
+                  <div className="space-y-3">
+                    {organization.doctors.map((doctor) => (
+                      <div
+                        key={doctor._id}
+                        className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 border rounded-lg"
+                      >
+                        <div>
+                          <p className="font-semibold">{getOrganizationDoctorName(doctor)}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {doctor.specialization} • ₹{doctor.consultation_fee}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {!doctor.is_verified && <Badge variant="secondary">Awaiting verification</Badge>}
+                          <Button variant="outline" onClick={() => setManagingDoctor(doctor)}>
+                            Manage Availability
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="earnings" className="mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Earnings by Doctor</CardTitle>
+                <CardDescription>MediConnect settles your organization's earnings as a single payout</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!earnings || earnings.doctors.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No earnings yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {earnings.doctors.map((row) => (
+                      <div
+                        key={row.doctor_id}
+                        className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-4 border rounded-lg"
+                      >
+                        <div>
+                          <p className="font-semibold">{row.doctor_name}</p>
+                          <p className="text-sm text-muted-foreground">{row.total_payments} paid appointments</p>
+                        </div>
+                        <div className="flex flex-wrap gap-2 text-xs">
+                          <Badge variant="outline">Total: ₹{row.total_earnings}</Badge>
+                          <Badge variant="outline">Settled: ₹{row.settled_earnings}</Badge>
+                          <Badge variant={row.unsettled_earnings > 0 ? "destructive" : "secondary"}>
+                            Unsettled: ₹{row.unsettled_earnings}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={!!managingDoctor} onOpenChange={(open) => !open && setManagingDoctor(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{managingDoctor ? getOrganizationDoctorName(managingDoctor) : "Doctor"}</DialogTitle>
+            <DialogDescription>Changes apply to the doctor's bookable slots immediately</DialogDescription>
+          </DialogHeader>
+          {managingDoctor && <DoctorAvailability doctorId={managingDoctor._id} />}
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
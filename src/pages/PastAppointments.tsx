@@ -2,7 +2,7 @@ import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { getDoctorProfile, getProfile } from "@/lib/auth";
-import api from "@/lib/api";
+import api, { getApiErrorMessage } from "@/lib/api";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -11,9 +11,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { format } from "date-fns";
+import { formatAppointmentStart, getAppointmentStart } from "@/lib/timezone";
 import { toast } from "sonner";
-import { ArrowLeft, Calendar, Search } from "lucide-react";
+import { ArrowLeft, Calendar, CalendarPlus, Search } from "lucide-react";
+import { ProposeFollowUpDialog } from "@/components/ProposeFollowUpDialog";
+import { getOriginalAppointmentId, type FollowUpProposal } from "@/lib/follow-ups";
+import { AppointmentHistoryDialog } from "@/components/AppointmentHistoryDialog";
+import { APPOINTMENT_STATUS_LABELS, type AppointmentStatus, type AppointmentStatusChange } from "@/lib/appointment-status";
 
 interface DoctorData {
   _id: string;
@@ -41,6 +45,7 @@ interface Appointment {
   patient_id: string;
   appointment_date: string;
   appointment_time: string;
+  start_at?: string | null;
   appointment_type: string;
   amount: number;
   status: string;
@@ -61,6 +66,8 @@ interface Appointment {
     full_name: string;
     email: string;
   } | null;
+  status_history?: AppointmentStatusChange[];
+  createdAt?: string;
 }
 
 interface PrescriptionMedication {
@@ -85,6 +92,9 @@ export default function PastAppointments() {
   const [doctorProfile, setDoctorProfile] = useState<DoctorProfile | null>(null);
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [prescriptionsByAppointment, setPrescriptionsByAppointment] = useState<Record<string, Prescription[]>>({});
+  // Open follow-up proposals keyed by the appointment they follow up on
+  const [followUpsByAppointment, setFollowUpsByAppointment] = useState<Record<string, FollowUpProposal>>({});
+  const [followUpFor, setFollowUpFor] = useState<Appointment | null>(null);
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState({
     searchTerm: "",
@@ -94,6 +104,29 @@ export default function PastAppointments() {
     type: "all",
   });
 
+  const fetchFollowUps = async () => {
+    try {
+      const { data } = await api.get<FollowUpProposal[]>('/follow-ups/mine');
+      const grouped: Record<string, FollowUpProposal> = {};
+      (Array.isArray(data) ? data : []).forEach((proposal) => {
+        grouped[getOriginalAppointmentId(proposal)] = proposal;
+      });
+      setFollowUpsByAppointment(grouped);
+    } catch (error) {
+      console.error("Error fetching follow-ups", error);
+    }
+  };
+
+  const handleWithdrawFollowUp = async (proposalId: string) => {
+    try {
+      await api.delete(`/follow-ups/${proposalId}`);
+      toast.success("Follow-up withdrawn");
+      await fetchFollowUps();
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, "Failed to withdraw follow-up"));
+    }
+  };
+
   const fetchPastAppointments = async () => {
     if (user?.id || user?._id) {
       const userId = user._id || user.id;
@@ -142,6 +175,7 @@ export default function PastAppointments() {
 
           setAppointments(mappedAppointments);
           setPrescriptionsByAppointment(groupedPrescriptions);
+          await fetchFollowUps();
         } catch (error) {
           console.error("Error fetching appointments", error);
           toast.error("Failed to load past appointments");
@@ -173,8 +207,8 @@ export default function PastAppointments() {
   }, [user, isLoading, isAuthenticated, role]);
 
   const pastAppointments = appointments
-    .filter((a) => a.status === "completed" || a.status === "cancelled")
-    .sort((a, b) => new Date(b.appointment_date).getTime() - new Date(a.appointment_date).getTime());
+    .filter((a) => ["completed", "cancelled", "no_show_patient", "no_show_doctor"].includes(a.status))
+    .sort((a, b) => getAppointmentStart(b).getTime() - getAppointmentStart(a).getTime());
 
   const filteredPastAppointments = pastAppointments.filter((appt) => {
     const matchesSearch = !filters.searchTerm ||
@@ -260,6 +294,8 @@ export default function PastAppointments() {
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
+                  <SelectItem value="no_show_patient">Patient no-show</SelectItem>
+                  <SelectItem value="no_show_doctor">Doctor no-show</SelectItem>
                 </SelectContent>
               </Select>
               <Select value={filters.type} onValueChange={(value) => setFilters(prev => ({ ...prev, type: value }))}>
@@ -319,7 +355,7 @@ export default function PastAppointments() {
                           </Badge>
                         </div>
                         <p className="text-sm text-muted-foreground">
-                          {format(new Date(appt.appointment_date), "EEEE, MMMM d, yyyy")} at {appt.appointment_time.slice(0, 5)}
+                          {formatAppointmentStart(appt, "EEEE, MMMM d, yyyy")} at {formatAppointmentStart(appt, "HH:mm")}
                         </p>
                         <p className="text-sm text-muted-foreground">
                           Amount: ₹{appt.amount}
@@ -353,12 +389,32 @@ export default function PastAppointments() {
                         </div>
                       </div>
                     </div>
-                    <div className="flex items-center gap-3">
+                    <div className="flex items-center gap-3 flex-wrap">
+                      {appt.status === "completed" && (
+                        followUpsByAppointment[appt.id] ? (
+                          <>
+                            <Badge variant="outline">Follow-up proposed</Badge>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleWithdrawFollowUp(followUpsByAppointment[appt.id]._id)}
+                            >
+                              Withdraw
+                            </Button>
+                          </>
+                        ) : (
+                          <Button size="sm" variant="outline" onClick={() => setFollowUpFor(appt)}>
+                            <CalendarPlus className="h-4 w-4 mr-1" />
+                            Propose Follow-up
+                          </Button>
+                        )
+                      )}
+                      <AppointmentHistoryDialog bookedAt={appt.createdAt} history={appt.status_history || []} />
                       <Badge
                         variant={appt.status === "completed" ? "default" : "destructive"}
                         className="px-3 py-1"
                       >
-                        {appt.status}
+                        {APPOINTMENT_STATUS_LABELS[appt.status as AppointmentStatus] ?? appt.status}
                       </Badge>
                     </div>
                   </div>
@@ -368,6 +424,19 @@ export default function PastAppointments() {
           </CardContent>
         </Card>
       </div>
+
+      {followUpFor && (
+        <ProposeFollowUpDialog
+          appointmentId={followUpFor._id}
+          doctorId={doctorData?._id || doctorData?.id || ""}
+          patientName={followUpFor.patient?.full_name || "the patient"}
+          open={Boolean(followUpFor)}
+          onOpenChange={(open) => {
+            if (!open) setFollowUpFor(null);
+          }}
+          onSuccess={fetchFollowUps}
+        />
+      )}
     </MainLayout>
   );
 }
\ No newline at end of file
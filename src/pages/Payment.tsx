@@ -1,14 +1,31 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
-import api from "@/lib/api";
+import api, { getApiErrorMessage } from "@/lib/api";
+import {
+  PAYMENT_PROVIDER_LABELS,
+  isPaymentProviderName,
+  loadCheckoutSdk,
+  type CheckoutOrder,
+  type PaymentProviderName,
+} from "@/lib/payment-providers";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import { toast } from "sonner";
-import { format } from "date-fns";
+import { formatAppointmentStart } from "@/lib/timezone";
+import { hasInvoice } from "@/lib/invoices";
+import { DownloadInvoiceButton } from "@/components/DownloadInvoiceButton";
 import {
   IndianRupee,
   Calendar,
@@ -24,6 +41,7 @@ interface AppointmentDetails {
   id: string;
   appointment_date: string;
   appointment_time: string;
+  start_at?: string | null;
   appointment_type: string;
   amount: number;
   doctor_fee?: number;
@@ -39,6 +57,15 @@ interface AppointmentDetails {
   } | null;
 }
 
+// Body of POST /payments/checkout/verify besides appointment_id
+interface CheckoutResult {
+  provider: PaymentProviderName;
+  order_id: string;
+  razorpay_payment_id?: string;
+  razorpay_signature?: string;
+  fake_outcome?: "success" | "failure";
+}
+
 export default function Payment() {
   const { appointmentId } = useParams();
   const navigate = useNavigate();
@@ -48,6 +75,7 @@ export default function Payment() {
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
   const [verifyingPayment, setVerifyingPayment] = useState(false);
+  const [fakeOrderId, setFakeOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -129,40 +157,47 @@ export default function Payment() {
     }
   }, [appointmentId, user, authLoading, navigate]);
 
-  useEffect(() => {
-    async function verifyCashfreeReturn() {
-      if (!appointmentId || !isAuthenticated || authLoading) return;
+  const completeCheckout = useCallback(async (result: CheckoutResult) => {
+    if (!appointmentId) return;
 
-      const searchParams = new URLSearchParams(window.location.search);
-      const cashfreeOrderId = searchParams.get("cashfree_order_id") || searchParams.get("order_id");
-      if (!cashfreeOrderId) return;
+    setVerifyingPayment(true);
+    try {
+      await api.post("/payments/checkout/verify", {
+        appointment_id: appointmentId,
+        ...result,
+      });
 
-      setVerifyingPayment(true);
+      toast.success("Payment successful! Your appointment is confirmed.");
+      navigate("/appointments");
+    } catch (error) {
+      // Mark appointment as failed to free the time slot
       try {
-        await api.post('/payments/cashfree/verify', {
+        await api.post("/payments/checkout/fail", {
           appointment_id: appointmentId,
-          order_id: cashfreeOrderId,
         });
-
-        toast.success("Payment successful! Your appointment is confirmed.");
-        navigate("/appointments");
-      } catch (error: any) {
-        // Mark appointment as failed to free the time slot
-        try {
-          await api.post('/payments/cashfree/fail', {
-            appointment_id: appointmentId,
-          });
-        } catch (_) {
-          // Best-effort; cron job will auto-cancel unpaid appointments
-        }
-        toast.error(error.response?.data?.message || "Payment failed. Time slot has been freed.");
-      } finally {
-        setVerifyingPayment(false);
+      } catch {
+        // Best-effort; cron job will auto-cancel unpaid appointments
       }
+      toast.error(getApiErrorMessage(error, "Payment failed. Time slot has been freed."));
+    } finally {
+      setVerifyingPayment(false);
     }
+  }, [appointmentId, navigate]);
+
+  // Redirect checkouts (Cashfree) come back here with the order id in the query string
+  useEffect(() => {
+    if (!appointmentId || !isAuthenticated || authLoading) return;
+
+    const searchParams = new URLSearchParams(window.location.search);
+    const orderId = searchParams.get("order_id") || searchParams.get("cashfree_order_id");
+    if (!orderId) return;
 
-    verifyCashfreeReturn();
-  }, [appointmentId, isAuthenticated, authLoading, navigate]);
+    const providerParam = searchParams.get("provider");
+    completeCheckout({
+      provider: isPaymentProviderName(providerParam) ? providerParam : "cashfree",
+      order_id: orderId,
+    });
+  }, [appointmentId, isAuthenticated, authLoading, completeCheckout]);
 
   const doctorFee = Number(appointment?.doctor_fee ?? appointment?.amount ?? 0);
   const platformFee = Number(appointment?.platform_fee ?? 0);
@@ -178,52 +213,74 @@ export default function Payment() {
     setProcessing(true);
 
     try {
-      // Load Cashfree script dynamically
-      const loadScript = (src: string) => {
-        return new Promise((resolve) => {
-          const script = document.createElement("script");
-          script.src = src;
-          script.onload = () => resolve(true);
-          script.onerror = () => resolve(false);
-          document.body.appendChild(script);
-        });
-      };
-
-      const res = await loadScript("https://sdk.cashfree.com/js/v3/cashfree.js");
+      const { data: order } = await api.post<CheckoutOrder>("/payments/checkout/order", {
+        appointment_id: appointment.id,
+      });
 
-      if (!res) {
-        toast.error("Cashfree SDK failed to load. Are you online?");
-        setProcessing(false);
+      if (order.provider === "fake") {
+        setFakeOrderId(order.order_id);
         return;
       }
 
-      const { data } = await api.post('/payments/cashfree/order', {
-        appointment_id: appointment.id,
-      });
+      const loaded = await loadCheckoutSdk(order.provider);
+      if (!loaded) {
+        toast.error(`${PAYMENT_PROVIDER_LABELS[order.provider]} checkout failed to load. Are you online?`);
+        return;
+      }
 
-      const Cashfree = (window as any).Cashfree;
-      if (!Cashfree) {
-        throw new Error("Cashfree SDK is unavailable");
+      if (order.provider === "cashfree") {
+        if (!window.Cashfree) {
+          throw new Error("Cashfree SDK is unavailable");
+        }
+        await window.Cashfree({ mode: order.checkout.mode }).checkout({
+          paymentSessionId: order.checkout.payment_session_id,
+          redirectTarget: "_self",
+        });
+        return;
       }
 
-      const cashfree = Cashfree({ mode: data?.cashfree_env || "sandbox" });
-      await cashfree.checkout({
-        paymentSessionId: data.payment_session_id,
-        redirectTarget: "_self",
+      if (!window.Razorpay) {
+        throw new Error("Razorpay SDK is unavailable");
+      }
+      const razorpay = new window.Razorpay({
+        key: order.checkout.key_id,
+        amount: order.checkout.amount,
+        currency: order.checkout.currency,
+        order_id: order.order_id,
+        name: "MediConnect",
+        description: `Consultation with Dr. ${appointment.doctor?.profile?.full_name || "Doctor"}`,
+        prefill: { name: user?.full_name, email: user?.email },
+        handler: (response) => {
+          completeCheckout({
+            provider: "razorpay",
+            order_id: response.razorpay_order_id,
+            razorpay_payment_id: response.razorpay_payment_id,
+            razorpay_signature: response.razorpay_signature,
+          });
+        },
       });
-    } catch (error: any) {
+      razorpay.on("payment.failed", (response) => {
+        toast.error(response.error?.description || "Payment failed. You can try again.");
+      });
+      razorpay.open();
+    } catch (error) {
       console.error("Payment error:", error);
       toast.error(
-        error?.response?.data?.message ||
-        error?.message ||
-        "Something went wrong with the payment"
+        getApiErrorMessage(
+          error,
+          error instanceof Error ? error.message : "Something went wrong with the payment"
+        )
       );
     } finally {
       setProcessing(false);
     }
   };
 
-
+  const handleFakeOutcome = (outcome: "success" | "failure") => {
+    if (!fakeOrderId) return;
+    setFakeOrderId(null);
+    completeCheckout({ provider: "fake", order_id: fakeOrderId, fake_outcome: outcome });
+  };
 
   if (loading || authLoading) {
     return (
@@ -277,7 +334,7 @@ export default function Payment() {
                 <div>
                   <p className="text-sm text-muted-foreground">Date</p>
                   <p className="font-medium">
-                    {format(new Date(appointment.appointment_date), "EEEE, MMMM d, yyyy")}
+                    {formatAppointmentStart(appointment, "EEEE, MMMM d, yyyy")}
                   </p>
                 </div>
               </div>
@@ -285,7 +342,7 @@ export default function Payment() {
                 <Clock className="h-5 w-5 text-primary" />
                 <div>
                   <p className="text-sm text-muted-foreground">Time</p>
-                  <p className="font-medium">{appointment.appointment_time.slice(0, 5)}</p>
+                  <p className="font-medium">{formatAppointmentStart(appointment, "HH:mm")}</p>
                 </div>
               </div>
             </div>
@@ -309,34 +366,63 @@ export default function Payment() {
               </div>
             </div>
 
-            {/* Security Info */}
-            <div className="flex items-center gap-3 p-4 bg-success/10 rounded-lg text-sm">
-              <Shield className="h-5 w-5 text-success" />
-              <p>Your payment is secured with 256-bit SSL encryption</p>
-            </div>
+            {hasInvoice(appointment) ? (
+              <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-success/10 rounded-lg text-sm">
+                <div className="flex items-center gap-3">
+                  <CheckCircle2 className="h-5 w-5 text-success" />
+                  <p>This appointment is paid. Download the invoice for your records or an insurance claim.</p>
+                </div>
+                <DownloadInvoiceButton appointmentId={appointment.id} />
+              </div>
+            ) : (
+              <>
+                {/* Security Info */}
+                <div className="flex items-center gap-3 p-4 bg-success/10 rounded-lg text-sm">
+                  <Shield className="h-5 w-5 text-success" />
+                  <p>Your payment is secured with 256-bit SSL encryption</p>
+                </div>
 
-            {/* Payment */}
-            <Button
-              className="w-full gradient-primary border-0"
-              size="lg"
-              onClick={handleOnlinePayment}
-              disabled={processing || verifyingPayment}
-            >
-              {processing || verifyingPayment ? (
-                verifyingPayment ? "Verifying payment..." : "Processing..."
-              ) : (
-                <>
-                  <CreditCard className="mr-2 h-5 w-5" />
-                  Pay ₹{totalAmount}
-                </>
-              )}
-            </Button>
-
-            <p className="text-xs text-center text-muted-foreground mt-3">
-              By proceeding, you agree to our terms of service and refund policy
-            </p>
+                {/* Payment */}
+                <Button
+                  className="w-full gradient-primary border-0"
+                  size="lg"
+                  onClick={handleOnlinePayment}
+                  disabled={processing || verifyingPayment}
+                >
+                  {processing || verifyingPayment ? (
+                    verifyingPayment ? "Verifying payment..." : "Processing..."
+                  ) : (
+                    <>
+                      <CreditCard className="mr-2 h-5 w-5" />
+                      Pay ₹{totalAmount}
+                    </>
+                  )}
+                </Button>
+
+                <p className="text-xs text-center text-muted-foreground mt-3">
+                  By proceeding, you agree to our terms of service and refund policy
+                </p>
+              </>
+            )}
           </CardContent>
         </Card>
+
+        <Dialog open={fakeOrderId !== null} onOpenChange={(open) => !open && setFakeOrderId(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Test payment</DialogTitle>
+              <DialogDescription>
+                Payments are in offline test mode, so no money moves. Choose how this payment of ₹{totalAmount} should end.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => handleFakeOutcome("failure")}>
+                Simulate failure
+              </Button>
+              <Button onClick={() => handleFakeOutcome("success")}>Simulate success</Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </MainLayout>
   );
@@ -3,6 +3,8 @@ import { Link, useNavigate } from "react-router-dom";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { MainLayout } from "@/components/layout/MainLayout";
 import api from "@/lib/api";
+import { ALL_PROFILES, describeDependent, getDependentFilterParam, type DependentSnapshot } from "@/lib/dependents";
+import { DependentSwitcher } from "@/components/DependentSwitcher";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -39,6 +41,7 @@ interface Prescription {
     _id: string;
     full_name: string;
   } | null;
+  dependent?: DependentSnapshot | null;
 }
 
 export default function Prescriptions() {
@@ -46,6 +49,7 @@ export default function Prescriptions() {
   const navigate = useNavigate();
   const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
   const [loading, setLoading] = useState(true);
+  const [viewingFor, setViewingFor] = useState(ALL_PROFILES);
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -58,7 +62,9 @@ export default function Prescriptions() {
       if (!user?._id && !user?.id) return;
 
       try {
-        const { data } = await api.get('/prescriptions');
+        const { data } = await api.get('/prescriptions', {
+          params: role === 'patient' ? { dependent_id: getDependentFilterParam(viewingFor) } : undefined,
+        });
         setPrescriptions(data);
       } catch (error) {
         console.error("Error fetching prescriptions:", error);
@@ -70,7 +76,7 @@ export default function Prescriptions() {
     if (!authLoading && (user?._id || user?.id)) {
       fetchPrescriptions();
     }
-  }, [user, role, authLoading]);
+  }, [user, role, authLoading, viewingFor]);
 
   if (loading || authLoading) {
     return (
@@ -109,6 +115,12 @@ export default function Prescriptions() {
           )}
         </div>
 
+        {role === 'patient' && (
+          <div className="mb-6">
+            <DependentSwitcher label="Viewing for" value={viewingFor} onChange={setViewingFor} includeEveryone />
+          </div>
+        )}
+
         {prescriptions.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
@@ -147,6 +159,9 @@ export default function Prescriptions() {
                             : `Dr. ${prescription.doctor_id?.user_id?.full_name || 'Unknown'}`
                           }
                         </span>
+                        {prescription.dependent && (
+                          <span className="text-xs">For {describeDependent(prescription.dependent)}</span>
+                        )}
                         <span className="text-xs">
                           {prescription.doctor_id?.specialization}
                         </span>
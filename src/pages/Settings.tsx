@@ -1,24 +1,30 @@
 import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import { useForm, type FieldErrors } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { useAuthContext } from "@/contexts/AuthContext";
 import { getDoctorProfile } from "@/lib/auth";
 import api from "@/lib/api";
 import { uploadToS3 } from "@/lib/s3-upload";
+import { getBrowserTimeZone, getTimeZoneLabel, getTimeZoneOptions } from "@/lib/timezone";
+import { CONSULTATION_MODES, CONSULTATION_MODE_LABELS, getDoctorConsultationModes } from "@/lib/consultation-modes";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { toast } from "sonner";
-import { Loader2, User, Phone, Mail, ArrowLeft, Camera, Stethoscope, IndianRupee, Briefcase, FileText, Zap, MapPin, Bell } from "lucide-react";
+import { Loader2, User, Phone, Mail, ArrowLeft, Camera, Stethoscope, IndianRupee, Briefcase, FileText, Zap, MapPin, Bell, Globe, CalendarX, Video, ClipboardList, Users, CalendarPlus } from "lucide-react";
 import { Link } from "react-router-dom";
+import { DoctorIntakeFormSettings } from "@/components/DoctorIntakeFormSettings";
+import { DependentsSettings } from "@/components/DependentsSettings";
+import { CalendarSubscriptionSettings } from "@/components/CalendarSubscriptionSettings";
 
 const profileSchema = z.object({
   fullName: z.string().min(2, "Name must be at least 2 characters").max(100),
@@ -31,8 +37,35 @@ const doctorProfileSchema = profileSchema.extend({
   experienceYears: z.number().min(0, "Experience must be 0 or more").max(70),
   consultationFee: z.number().min(0, "Fee must be 0 or more"),
   emergencyFee: z.number().min(0, "Fee must be 0 or more"),
+  // Empty means follow-ups cost the regular consultation fee
+  followUpFee: z.number().min(0, "Fee must be 0 or more").nullable().optional(),
   state: z.string().min(1, "State is required").max(100),
   location: z.string().max(200, "Location must be less than 200 characters").optional(),
+  // Medical council registration, printed on patients' invoices
+  registrationNumber: z.string().max(50, "Registration number must be less than 50 characters").optional(),
+  registrationCouncil: z.string().max(100, "Council must be less than 100 characters").optional(),
+  // All three empty means the platform cancellation policy applies
+  fullRefundHours: z.number().min(0, "Hours must be 0 or more").nullable().optional(),
+  partialRefundHours: z.number().min(0, "Hours must be 0 or more").nullable().optional(),
+  partialRefundPercent: z.number().min(0, "Percent must be 0 or more").max(100, "Percent must be 100 or less").nullable().optional(),
+  consultationModes: z.array(z.enum(["video", "in_person", "phone"])).min(1, "Offer at least one consultation mode"),
+  // Empty means the mode costs the regular consultation fee
+  videoFee: z.number().min(0, "Fee must be 0 or more").nullable().optional(),
+  in_personFee: z.number().min(0, "Fee must be 0 or more").nullable().optional(),
+  phoneFee: z.number().min(0, "Fee must be 0 or more").nullable().optional(),
+  clinicAddress: z.string().max(300, "Address must be less than 300 characters").optional(),
+}).superRefine((data, ctx) => {
+  if (data.consultationModes.includes("in_person") && !data.clinicAddress?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["clinicAddress"], message: "A clinic address is required for in-person consultations" });
+  }
+
+  const values = [data.fullRefundHours, data.partialRefundHours, data.partialRefundPercent];
+  const filled = values.filter((value) => value !== null && value !== undefined).length;
+  if (filled > 0 && filled < values.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["fullRefundHours"], message: "Fill in all three values, or leave all empty to use the platform policy" });
+  } else if (filled === values.length && Number(data.partialRefundHours) > Number(data.fullRefundHours)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["partialRefundHours"], message: "Must not be more than the full refund hours" });
+  }
 });
 
 type ProfileFormData = z.infer<typeof profileSchema>;
@@ -44,6 +77,7 @@ interface Profile {
   phone: string | null;
   avatar_url: string | null;
   role: string;
+  timezone?: string | null;
 }
 
 interface DoctorData {
@@ -184,6 +218,7 @@ export default function Settings() {
   const [uploadingPhoto, setUploadingPhoto] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [previewImage, setPreviewImage] = useState<string | null>(null);
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone());
 
   const isDoctor = role === "doctor";
 
@@ -198,8 +233,19 @@ export default function Settings() {
         experienceYears: 0,
         consultationFee: 0,
         emergencyFee: 0,
+        followUpFee: null,
+        fullRefundHours: null,
+        partialRefundHours: null,
+        partialRefundPercent: null,
+        consultationModes: ["video"],
+        videoFee: null,
+        in_personFee: null,
+        phoneFee: null,
+        clinicAddress: "",
         state: "",
         location: "",
+        registrationNumber: "",
+        registrationCouncil: "",
       }),
     },
   });
@@ -216,6 +262,7 @@ export default function Settings() {
       try {
         const { data } = await api.get('/auth/profile');
         setProfile(data);
+        setTimeZone(data.timezone || getBrowserTimeZone());
 
         const baseValues: any = {
           fullName: data.full_name,
@@ -239,8 +286,19 @@ export default function Settings() {
               baseValues.experienceYears = fullDoctorData.experience_years || 0;
               baseValues.consultationFee = fullDoctorData.consultation_fee || 0;
               baseValues.emergencyFee = fullDoctorData.emergency_fee || 0;
+              baseValues.followUpFee = fullDoctorData.follow_up_fee ?? null;
+              baseValues.fullRefundHours = fullDoctorData.cancellation_policy?.full_refund_hours ?? null;
+              baseValues.partialRefundHours = fullDoctorData.cancellation_policy?.partial_refund_hours ?? null;
+              baseValues.partialRefundPercent = fullDoctorData.cancellation_policy?.partial_refund_percent ?? null;
+              baseValues.consultationModes = getDoctorConsultationModes(fullDoctorData);
+              baseValues.videoFee = fullDoctorData.mode_fees?.video ?? null;
+              baseValues.in_personFee = fullDoctorData.mode_fees?.in_person ?? null;
+              baseValues.phoneFee = fullDoctorData.mode_fees?.phone ?? null;
+              baseValues.clinicAddress = fullDoctorData.clinic_address || "";
               baseValues.state = fullDoctorData.state || "";
               baseValues.location = fullDoctorData.location || "";
+              baseValues.registrationNumber = fullDoctorData.registration_number || "";
+              baseValues.registrationCouncil = fullDoctorData.registration_council || "";
             }
           } catch (error) {
             console.error("Error fetching doctor data:", error);
@@ -301,19 +359,38 @@ export default function Settings() {
       await api.put('/auth/profile', {
         full_name: data.fullName,
         phone: data.phone,
+        timezone: timeZone,
       });
 
       // If doctor, update Doctor model
       if (isDoctor && doctorData && 'bio' in data) {
         const doctorFormData = data as DoctorProfileFormData;
+        const hasCancellationPolicy = doctorFormData.fullRefundHours !== null && doctorFormData.fullRefundHours !== undefined;
         await api.put(`/doctors/${doctorData._id || doctorData.id}`, {
           bio: doctorFormData.bio,
           specialization: doctorFormData.specialization,
           experience_years: doctorFormData.experienceYears,
           consultation_fee: doctorFormData.consultationFee,
           emergency_fee: doctorFormData.emergencyFee,
+          follow_up_fee: doctorFormData.followUpFee ?? null,
+          cancellation_policy: hasCancellationPolicy
+            ? {
+                full_refund_hours: doctorFormData.fullRefundHours,
+                partial_refund_hours: doctorFormData.partialRefundHours,
+                partial_refund_percent: doctorFormData.partialRefundPercent,
+              }
+            : null,
+          consultation_modes: doctorFormData.consultationModes,
+          mode_fees: {
+            video: doctorFormData.videoFee ?? null,
+            in_person: doctorFormData.in_personFee ?? null,
+            phone: doctorFormData.phoneFee ?? null,
+          },
+          clinic_address: doctorFormData.clinicAddress || "",
           state: doctorFormData.state,
           location: doctorFormData.location,
+          registration_number: doctorFormData.registrationNumber || "",
+          registration_council: doctorFormData.registrationCouncil || "",
         });
       }
 
@@ -476,6 +553,28 @@ export default function Settings() {
                   )}
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="timezone" className="flex items-center gap-2">
+                    <Globe className="h-4 w-4 text-muted-foreground" />
+                    Timezone
+                  </Label>
+                  <Select value={timeZone} onValueChange={setTimeZone}>
+                    <SelectTrigger id="timezone">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getTimeZoneOptions(timeZone, getBrowserTimeZone()).map((zone) => (
+                        <SelectItem key={zone} value={zone}>
+                          {zone} ({getTimeZoneLabel(zone)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Appointment times in emails and notifications are shown in this timezone
+                  </p>
+                </div>
+
                 {/* Doctor-specific fields */}
                 {isDoctor && (
                   <>
@@ -604,6 +703,32 @@ export default function Settings() {
                     </div>
                   </div>
 
+                  <div className="grid md:grid-cols-2 gap-4 mt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="registrationNumber" className="flex items-center gap-2">
+                        <FileText className="h-4 w-4 text-muted-foreground" />
+                        Registration Number
+                      </Label>
+                      <Input id="registrationNumber" placeholder="e.g. KMC 123456" {...form.register("registrationNumber")} />
+                      {'registrationNumber' in form.formState.errors && (
+                        <p className="text-sm text-destructive">
+                          {(form.formState.errors as FieldErrors<DoctorProfileFormData>).registrationNumber?.message}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="registrationCouncil">Medical Council</Label>
+                      <Input id="registrationCouncil" placeholder="e.g. Karnataka Medical Council" {...form.register("registrationCouncil")} />
+                      {'registrationCouncil' in form.formState.errors && (
+                        <p className="text-sm text-destructive">
+                          {(form.formState.errors as FieldErrors<DoctorProfileFormData>).registrationCouncil?.message}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">Printed on your patients' invoices.</p>
+
                   <div className="space-y-2">
                     <Label htmlFor="emergencyFee" className="flex items-center gap-2">
                       <Zap className="h-4 w-4 text-warning" />
@@ -625,6 +750,140 @@ export default function Settings() {
                     </p>
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="followUpFee" className="flex items-center gap-2">
+                      <IndianRupee className="h-4 w-4 text-muted-foreground" />
+                      Follow-up Fee (₹)
+                    </Label>
+                    <Input
+                      id="followUpFee"
+                      type="number"
+                      min="0"
+                      placeholder="Same as consultation fee"
+                      {...form.register("followUpFee", {
+                        setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                      })}
+                    />
+                    {'followUpFee' in form.formState.errors && form.formState.errors.followUpFee && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.followUpFee.message}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Charged when a patient accepts a follow-up you propose. Leave empty to charge the consultation fee.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <CalendarX className="h-4 w-4 text-muted-foreground" />
+                      Cancellation Policy
+                    </Label>
+                    <div className="grid gap-4 sm:grid-cols-3">
+                      {([
+                        ["fullRefundHours", "Full refund up to (hours before)"],
+                        ["partialRefundHours", "Partial refund up to (hours before)"],
+                        ["partialRefundPercent", "Partial refund (% of fee)"],
+                      ] as const).map(([field, label]) => (
+                        <div key={field} className="space-y-1">
+                          <Label htmlFor={field} className="text-xs text-muted-foreground">{label}</Label>
+                          <Input
+                            id={field}
+                            type="number"
+                            min="0"
+                            placeholder="Platform default"
+                            {...form.register(field, {
+                              setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                            })}
+                          />
+                          {field in form.formState.errors && (
+                            <p className="text-sm text-destructive">
+                              {(form.formState.errors as FieldErrors<DoctorProfileFormData>)[field]?.message}
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      How much patients get back when they cancel. Leave all three empty to use the platform policy.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="flex items-center gap-2">
+                      <Video className="h-4 w-4 text-muted-foreground" />
+                      Consultation Modes
+                    </Label>
+                    <div className="space-y-3">
+                      {CONSULTATION_MODES.map((mode) => {
+                        const offeredModes = form.watch("consultationModes") || [];
+                        const feeField = `${mode}Fee` as const;
+                        return (
+                          <div key={mode} className="flex flex-col sm:flex-row sm:items-center gap-3">
+                            <div className="flex items-center gap-3 sm:w-56">
+                              <Switch
+                                id={`mode-${mode}`}
+                                checked={offeredModes.includes(mode)}
+                                onCheckedChange={(checked) =>
+                                  form.setValue(
+                                    "consultationModes",
+                                    checked ? [...offeredModes, mode] : offeredModes.filter((offered) => offered !== mode),
+                                    { shouldValidate: true }
+                                  )
+                                }
+                              />
+                              <Label htmlFor={`mode-${mode}`}>{CONSULTATION_MODE_LABELS[mode]}</Label>
+                            </div>
+                            <Input
+                              id={feeField}
+                              type="number"
+                              min="0"
+                              placeholder="Same as consultation fee"
+                              className="sm:w-56"
+                              disabled={!offeredModes.includes(mode)}
+                              {...form.register(feeField, {
+                                setValueAs: (value) => (value === "" || value === null ? null : Number(value)),
+                              })}
+                            />
+                            {feeField in form.formState.errors && (
+                              <p className="text-sm text-destructive">
+                                {(form.formState.errors as FieldErrors<DoctorProfileFormData>)[feeField]?.message}
+                              </p>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    {'consultationModes' in form.formState.errors && (
+                      <p className="text-sm text-destructive">
+                        {(form.formState.errors as FieldErrors<DoctorProfileFormData>).consultationModes?.message}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      How patients can consult you. Leave a fee empty to charge the consultation fee for that mode.
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="clinicAddress" className="flex items-center gap-2">
+                      <MapPin className="h-4 w-4 text-muted-foreground" />
+                      Clinic Address
+                    </Label>
+                    <Textarea
+                      id="clinicAddress"
+                      placeholder="Full address patients should visit for in-person consultations"
+                      {...form.register("clinicAddress")}
+                    />
+                    {'clinicAddress' in form.formState.errors && (
+                      <p className="text-sm text-destructive">
+                        {(form.formState.errors as FieldErrors<DoctorProfileFormData>).clinicAddress?.message}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Sent with a map link to patients who book an in-person visit.
+                    </p>
+                  </div>
+
                   <div className="pt-4">
                     <Button type="submit" disabled={saving}>
                       {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -636,6 +895,60 @@ export default function Settings() {
             </Card>
           )}
 
+          {/* Intake Questionnaire - Only for Doctors */}
+          {isDoctor && doctorData && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardList className="h-5 w-5" />
+                  Intake Questionnaire
+                </CardTitle>
+                <CardDescription>
+                  Questions your patients answer when they book with you
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DoctorIntakeFormSettings doctorId={doctorData._id || doctorData.id} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Family Members - Only for Patients */}
+          {role === "patient" && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Family Members
+                </CardTitle>
+                <CardDescription>
+                  Book appointments and keep records for your children, parents or others you care for
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DependentsSettings />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Calendar Subscription - Patients and Doctors */}
+          {(role === "patient" || role === "doctor") && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarPlus className="h-5 w-5" />
+                  Calendar Subscription
+                </CardTitle>
+                <CardDescription>
+                  Subscribe from Google Calendar, Outlook or Apple Calendar to see your upcoming appointments there
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <CalendarSubscriptionSettings />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Notification Preferences */}
           <Card>
             <CardHeader>